@@ -2,6 +2,7 @@ import type {
   AgentModelSelection,
   AgentModelSelections,
   ConfigFile,
+  McpServerConfig,
   ModelPreference,
   OpenCodeBinary,
   Preferences,
@@ -39,6 +40,11 @@ export interface WorkspaceDescriptor {
   updatedAt: string
   /** Present when `status` is "error". */
   error?: string
+  /**
+   * Restored from a previous server run and not launched yet; the instance
+   * starts on first access.
+   */
+  restored?: boolean
 }
 
 export interface WorkspaceCreateRequest {
@@ -55,6 +61,24 @@ export interface WorkspaceDeleteResponse {
   status: WorkspaceStatus
 }
 
+/** The session tabs of a workspace, persisted across server restarts */
+export interface WorkspaceSessionState {
+  openSessionIds: string[]
+  activeSessionId: string | null
+}
+
+export type WorkspaceSessionStateRequest = WorkspaceSessionState
+
+export interface WorkspaceActiveRequest {
+  workspaceId: string | null
+}
+
+/** UI state of the restored workspaces */
+export interface WorkspaceRestoreStateResponse {
+  activeWorkspaceId: string | null
+  sessions: Record<string, WorkspaceSessionState>
+}
+
 export type LogLevel = "debug" | "info" | "warn" | "error"
 
 export interface WorkspaceLogEntry {
@@ -64,6 +88,29 @@ export interface WorkspaceLogEntry {
   message: string
 }
 
+/** An unexpected exit of a workspace's OpenCode process and what the supervisor did about it */
+export interface WorkspaceCrashReport {
+  workspaceId: string
+  folder: string
+  crashedAt: string
+  exitCode: number | null
+  signal: string | null
+  /** Set when a supervised restart failed to launch the process */
+  error?: string
+  /** How long the process had been running */
+  uptimeMs: number
+  /** Crashes since the process last ran stably, this one included */
+  attempt: number
+  maxAttempts: number
+  action: "restarting" | "gave-up"
+  /** Why restarts stopped; set when `action` is "gave-up" */
+  reason?: "disabled" | "max-attempts" | "crash-loop"
+  /** Delay before the restart; set when `action` is "restarting" */
+  restartDelayMs?: number
+  /** The last lines the process printed before it exited */
+  logs: WorkspaceLogEntry[]
+}
+
 export interface FileSystemEntry {
   name: string
   /** Path relative to the CLI server root ("." represents the root itself). */
@@ -107,16 +154,96 @@ export interface WorkspaceFileResponse {
   relativePath: string
   /** UTF-8 file contents; binary files should be base64 encoded by the caller. */
   contents: string
+  /** Content hash to send back as `expectedHash` (or `If-Match`) when writing. */
+  hash: string
+}
+
+export type WorkspaceFileWriteResolution = "fail-fast" | "queue" | "last-write-wins"
+
+export interface WorkspaceFileWriteRequest {
+  path: string
+  contents: string
+  /** Hash from the last read; the write is rejected if the file changed since. */
+  expectedHash?: string
+  /** Writer identity used for locks and conflict tracking (default: "workspace-api"). */
+  sessionId?: string
+  instanceId?: string
+  /** How to treat concurrent changes (default: fail-fast). */
+  resolution?: WorkspaceFileWriteResolution
+  createDirs?: boolean
+}
+
+export interface WorkspaceFileWriteResponse {
+  workspaceId: string
+  relativePath: string
+  hash: string
+  previousHash: string | null
+}
+
+/** Body of 409/412/423 responses from `PUT /api/workspaces/:id/files/content`. */
+export interface WorkspaceFileWriteRejection {
+  error: string
+  currentHash?: string | null
+  lastModifiedBy?: string | null
+  lastModifiedAt?: number | null
+  conflict?: {
+    conflictId: string
+    filePath: string
+    conflictType: string
+    canAutoMerge: boolean
+  }
+}
+
+/** A tool known to a workspace's tool registry */
+export interface WorkspaceToolInfo {
+  name: string
+  displayName: string
+  description: string
+  category: string
+  secondaryCategories?: string[]
+  source: "builtin" | "mcp"
+  mcpServer?: string
+  riskLevel: "safe" | "moderate" | "dangerous"
+  mutating: boolean
+  /** Name the tool has inside OpenCode (MCP tools are prefixed with their server) */
+  openCodeName: string
+}
+
+export interface WorkspaceMcpDiscoveryStatus {
+  server: string
+  toolCount: number
+  error?: string
+}
+
+export interface WorkspaceToolsResponse {
+  workspaceId: string
+  /** Agent the tools were filtered for; absent when listing every tool */
+  agent?: string
+  tools: WorkspaceToolInfo[]
+  /** Registry size before agent filtering */
+  total: number
+  countsByCategory: Record<string, number>
+  mcpServers: WorkspaceMcpDiscoveryStatus[]
 }
 
 export type WorkspaceFileSearchResponse = FileSystemEntry[]
 
 export type PermissionOverride = "inherit" | "enabled" | "disabled"
 
+/** Origin of a forked session; OpenCode itself doesn't record it */
+export interface SessionForkRecord {
+  sourceSessionId: string
+  /** Message the fork was taken at; the whole session when absent */
+  messageId?: string
+  forkedAt: number
+}
+
 export interface InstanceData {
   messageHistory: string[]
   agentModelSelections: AgentModelSelection
   permissionOverride?: PermissionOverride
+  /** Fork origins keyed by forked session id */
+  sessionForks?: Record<string, SessionForkRecord>
 }
 
 export type InstanceStreamStatus = "connecting" | "connected" | "error" | "disconnected"
@@ -173,6 +300,7 @@ export type WorkspaceEventType =
   | "workspace.error"
   | "workspace.stopped"
   | "workspace.log"
+  | "workspace.crashed"
   | "config.appChanged"
   | "config.binariesChanged"
   | "instance.dataChanged"
@@ -183,6 +311,15 @@ export type WorkspaceEventType =
   | "file.changed"
   | "file.conflict"
   | "file.conflict.resolved"
+  | "beads.updated"
+  | "plan.stepStatus"
+  | "gate.created"
+  | "gate.resolved"
+  | "handoff.created"
+  | "checkpoint.updated"
+  | "mcp.statusChanged"
+  | "usage.budgetChanged"
+  | "worktree.updated"
 
 // ============================================================
 // File Conflict Types
@@ -229,6 +366,10 @@ export interface FileConflictEvent {
     canAutoMerge: boolean
     mergedContent?: string
     conflicts?: FileConflictRegion[]
+    /** Merge strategy used, e.g. "json" or "line" */
+    strategy?: string
+    /** Structural merger that failed before falling back to the line merge */
+    fallbackFrom?: string
   }
   timestamp: number
 }
@@ -243,12 +384,94 @@ export interface FileConflictResolvedEvent {
   timestamp: number
 }
 
+/** One entry of a file's persisted version history. */
+export interface FileHistoryVersion {
+  hash: string
+  timestamp: number
+  sessionId: string
+  instanceId: string
+  /** Content size in bytes */
+  size?: number
+  /** Whether the content of this version can be retrieved */
+  hasContent: boolean
+}
+
+export interface FileHistoryResponse {
+  /** Oldest first */
+  versions: FileHistoryVersion[]
+  /** Hash of the file on disk, or null when it doesn't exist */
+  currentHash: string | null
+}
+
+export interface FileVersionContentResponse {
+  version: FileHistoryVersion
+  content: string
+}
+
+export interface FileVersionDiffResponse {
+  from: string
+  /** Version hash, or "current" for the file on disk */
+  to: string
+  /** Unified diff produced by the merge service */
+  diff: string
+}
+
+export interface FileRestoreRequest {
+  path: string
+  hash: string
+  sessionId?: string
+  /** Only for the deprecated `/api/files` routes */
+  workspaceRoot?: string
+  /** Hash of the file as last seen; the restore fails if it changed since */
+  expectedHash?: string
+}
+
+export interface BeadsUpdatedEvent {
+  type: "beads.updated"
+  /** Project folder whose `.beads/` store changed */
+  folder: string
+  /** Store file relative to the project folder */
+  file: string
+  changeType: "add" | "change" | "unlink"
+  timestamp: number
+}
+
+export interface PlanStepStatusEvent {
+  type: "plan.stepStatus"
+  planId: string
+  folder: string
+  /** Overall plan status after this transition */
+  planStatus: PlanStatus
+  step: PlanStepState
+  timestamp: number
+}
+
+export interface GateCreatedEvent {
+  type: "gate.created"
+  gate: GateEntry
+  timestamp: number
+}
+
+export interface GateResolvedEvent {
+  type: "gate.resolved"
+  /** Gate after the decision; `status` tells approval, rejection, timeout or cancellation apart */
+  gate: GateEntry
+  timestamp: number
+}
+
+export interface HandoffCreatedEvent {
+  type: "handoff.created"
+  handoff: HandoffEntry
+  timestamp: number
+}
+
 export type WorkspaceEventPayload =
   | { type: "workspace.created"; workspace: WorkspaceDescriptor }
   | { type: "workspace.started"; workspace: WorkspaceDescriptor }
   | { type: "workspace.error"; workspace: WorkspaceDescriptor }
   | { type: "workspace.stopped"; workspaceId: string }
   | { type: "workspace.log"; entry: WorkspaceLogEntry }
+  | { type: "workspace.crashed"; workspace: WorkspaceDescriptor; report: WorkspaceCrashReport }
   | { type: "config.appChanged"; config: AppConfig }
   | { type: "config.binariesChanged"; binaries: BinaryRecord[] }
   | { type: "instance.dataChanged"; instanceId: string; data: InstanceData }
@@ -259,6 +482,15 @@ export type WorkspaceEventPayload =
   | FileChangedEvent
   | FileConflictEvent
   | FileConflictResolvedEvent
+  | BeadsUpdatedEvent
+  | PlanStepStatusEvent
+  | GateCreatedEvent
+  | GateResolvedEvent
+  | HandoffCreatedEvent
+  | CheckpointUpdatedEvent
+  | McpStatusChangedEvent
+  | UsageBudgetChangedEvent
+  | WorktreeUpdatedEvent
 
 export interface NetworkAddress {
   ip: string
@@ -285,6 +517,8 @@ export interface ServerMeta {
   host: string
   /** Listening mode derived from host binding. */
   listeningMode: "local" | "all"
+  /** True when non-loopback clients must present an access token. */
+  authRequired?: boolean
   /** Actual port in use after binding. */
   port: number
   /** Display label for the host (e.g., hostname or friendly name). */
@@ -414,6 +648,88 @@ export interface UpdateCheckResult {
 // Project Init Types
 // ============================================================
 
+// ============================================================
+// Audit Trail Types
+// ============================================================
+
+export type AuditEventType =
+  | "governance_override"
+  | "governance_setting"
+  | "permission_approved"
+  | "permission_denied"
+  | "file_modified"
+  | "conflict_resolved"
+  | "directive_edited"
+  | "workspace_started"
+  | "workspace_stopped"
+  | "workspace_error"
+  | "gate_approved"
+  | "gate_rejected"
+
+export interface AuditActor {
+  /** Agent or principal that caused the event ("user", "system", an agent name). */
+  agentType: string
+  sessionId: string
+  model: string
+}
+
+export interface AuditEvent {
+  /** Sortable identifier; also used as the pagination cursor. */
+  id: string
+  type: AuditEventType
+  actor: AuditActor
+  timestamp: string
+  target?: string
+  description: string
+  metadata?: Record<string, unknown>
+}
+
+export interface AuditEventsQuery {
+  actor?: string
+  /** One type or a comma-separated list of types. */
+  type?: string
+  /** ISO timestamp or epoch milliseconds; only newer events are returned. */
+  since?: string
+  limit?: number
+  /** Return events older than this event id (from `nextCursor`). */
+  cursor?: string
+}
+
+export interface AuditEventsResponse {
+  events: AuditEvent[]
+  /** Total number of events matching the filters (ignoring pagination). */
+  total: number
+  nextCursor: string | null
+}
+
+// ============================================================
+// Remote Access Auth Types
+// ============================================================
+
+export interface AuthStatusResponse {
+  /** Whether the server requires tokens for non-local clients. */
+  required: boolean
+  /** Whether the current request is authorized (locally or via token). */
+  authenticated: boolean
+  /** True when the request originates from this machine. */
+  local: boolean
+}
+
+export interface AccessTokenInfo {
+  id: string
+  label: string
+  primary: boolean
+  createdAt: string
+  lastUsedAt?: string
+}
+
+export interface AccessTokenSecret {
+  id: string
+  token: string
+  createdAt: string
+  label?: string
+}
+
 export interface ProjectInitRequest {
   name: string
   location: string
@@ -429,3 +745,791 @@ export interface ProjectInitResponse {
   gitInitialized: boolean
   error?: string
 }
+
+/** Contents of a project's `.era/mcp.json` */
+export interface ProjectMcpConfigResponse {
+  folder: string
+  /** Absolute path of the config file (may not exist yet) */
+  path: string
+  /** Servers defined by the project; replace global/era-code servers of the same name */
+  servers: Record<string, McpServerConfig>
+  /** Project-wide enable/disable of servers defined in other scopes */
+  overrides: Record<string, boolean>
+}
+
+export type McpServerHealthStatus = "unknown" | "healthy" | "degraded" | "down" | "disabled"
+
+/** One probe of an MCP server by the supervisor */
+export interface McpProbeRecord {
+  timestamp: number
+  ok: boolean
+  latencyMs: number
+  error?: string
+}
+
+/** An MCP tool as advertised by its server, with routing metadata */
+export interface McpInventoryTool {
+  name: string
+  description?: string
+  category: string
+  riskLevel: "safe" | "moderate" | "dangerous"
+  mutating: boolean
+  tokenCost: "low" | "medium" | "high"
+}
+
+export interface McpServerHealth {
+  /** Server name for global servers, `<folder>#<name>` for project servers */
+  id: string
+  name: string
+  scope: "global" | "project"
+  /** Project folder for project servers */
+  folder?: string
+  type: McpServerConfig["type"]
+  status: McpServerHealthStatus
+  /** Latency of the last successful probe, in ms */
+  latencyMs?: number
+  lastCheckedAt?: number
+  lastSuccessAt?: number
+  lastError?: string
+  consecutiveFailures: number
+  /** Most recent probes, newest last */
+  history: McpProbeRecord[]
+  serverInfo?: { name: string; version?: string }
+  tools: McpInventoryTool[]
+  resources: Array<{ uri: string; name?: string; description?: string }>
+  prompts: Array<{ name: string; description?: string }>
+}
+
+export interface McpHealthResponse {
+  servers: McpServerHealth[]
+  intervalMs: number
+}
+
+export interface McpStatusChangedEvent {
+  type: "mcp.statusChanged"
+  server: McpServerHealth
+  /** Set when the server is no longer configured */
+  removed?: boolean
+  timestamp: number
+}
+
+// ============================================================
+// Linear Types
+// ============================================================
+
+export interface LinearIssue {
+  id: string
+  identifier: string
+  title: string
+  status: string
+  statusColor: string
+  priority: number
+  priorityLabel: string
+  labels: string[]
+  assignee: string | null
+  url: string
+  updatedAt: number
+}
+
+export interface LinearComment {
+  id: string
+  body: string
+  author: string | null
+  createdAt: number
+}
+
+export interface LinearIssueDetail extends LinearIssue {
+  description: string
+  /** Items of the description's "Acceptance criteria" section */
+  acceptanceCriteria: string[]
+  team: string | null
+  comments: LinearComment[]
+}
+
+/** A workflow state an issue can be moved to */
+export interface LinearWorkflowState {
+  id: string
+  name: string
+  type: string | null
+  color: string
+}
+
+export interface LinearStatus {
+  connected: boolean
+  workspace: string | null
+  error: string | null
+  /** Name of the MCP server used for Linear */
+  server?: string | null
+}
+
+export interface LinearIssuesResponse {
+  issues: LinearIssue[]
+  /** When the issues were fetched from Linear */
+  fetchedAt: number
+}
+
+// ============================================================
+// Beads Types
+// ============================================================
+
+/** Status vocabulary used by the dashboard; beads' `in_progress`/`closed` are normalized. */
+export type BeadsIssueStatus = "open" | "in-progress" | "blocked" | "done" | (string & {})
+
+export type BeadsDependencyType = "blocks" | "related" | "parent-child" | "discovered-from" | (string & {})
+
+export interface BeadsDependency {
+  /** Issue this issue depends on */
+  id: string
+  type: BeadsDependencyType
+}
+
+export interface BeadsIssue {
+  id: string
+  title: string
+  description?: string
+  status: BeadsIssueStatus
+  priority?: number
+  issueType?: string
+  assignee?: string
+  labels?: string[]
+  dependencies: BeadsDependency[]
+  /** Open issues that block this one through a `blocks` dependency */
+  blockedBy: string[]
+  /** Open and not blocked by any unfinished issue */
+  ready: boolean
+  createdAt?: string
+  updatedAt?: string
+  closedAt?: string
+}
+
+export interface BeadsIssuesQuery {
+  /** One status or a comma-separated list */
+  status?: string
+  /** One priority or a comma-separated list, e.g. "0,1" */
+  priority?: string
+  /** Assignee name, or "unassigned" */
+  assignee?: string
+}
+
+export interface BeadsIssuesResponse {
+  issues: BeadsIssue[]
+  /** Number of issues matching the filters */
+  total: number
+  /** Issue counts per status across the whole store (ignoring filters) */
+  statusCounts: Record<string, number>
+  /** False when the project has no `.beads/` JSONL store */
+  available: boolean
+}
+
+export interface BeadsGraphNode {
+  id: string
+  title: string
+  status: BeadsIssueStatus
+  priority?: number
+  ready: boolean
+  /** Longest chain of `blocks` dependencies leading to this issue (0 for roots) */
+  depth: number
+}
+
+export interface BeadsGraphEdge {
+  /** The blocking / parent issue */
+  from: string
+  /** The dependent issue */
+  to: string
+  type: BeadsDependencyType
+}
+
+export interface BeadsGraphResponse {
+  nodes: BeadsGraphNode[]
+  edges: BeadsGraphEdge[]
+  /** Issue ids ready to work on, highest priority first */
+  ready: string[]
+  /** Groups of issues that block each other in a cycle */
+  cycles: string[][]
+  available: boolean
+}
+
+// ============================================================
+// Workflow Formula & Plan Types
+// ============================================================
+
+export type FormulaVariableType = "string" | "number" | "boolean"
+
+export interface FormulaVariable {
+  name: string
+  type: FormulaVariableType
+  description?: string
+  default?: string | number | boolean
+  /** Defaults to true unless a default value is given */
+  required?: boolean
+  /** Allowed values */
+  enum?: Array<string | number>
+  /** Regular expression string values must match */
+  pattern?: string
+}
+
+export interface FormulaStep {
+  id: string
+  name: string
+  /** Free-form label shown in the UI ("build", "test", ...); test/build/lint steps record checkpoints */
+  action: string
+  /** Shell command run in the project folder. `{{var}}` placeholders are shell-quoted. */
+  run?: string
+  /** Prompt sent to an agent in a workspace session. `{{var}}` placeholders are inserted verbatim. */
+  prompt?: string
+  agent?: string
+  /** `providerId/modelId` for agent steps */
+  model?: string
+  dependsOn?: string[]
+  /** "human" pauses the plan until the step is approved */
+  gate?: "human"
+  timeoutMs?: number
+  /** Let dependents run even when this step fails */
+  continueOnError?: boolean
+}
+
+export type FormulaSource = "built-in" | "global" | "project"
+
+export interface WorkflowFormula {
+  name: string
+  description: string
+  source: FormulaSource
+  /** File the formula was loaded from */
+  path?: string
+  variables: FormulaVariable[]
+  steps: FormulaStep[]
+  tags?: string[]
+  /** Maximum number of steps running at once */
+  parallelism: number
+}
+
+export interface FormulaLoadError {
+  path: string
+  error: string
+}
+
+export interface FormulasResponse {
+  formulas: WorkflowFormula[]
+  errors: FormulaLoadError[]
+}
+
+export type PlanStatus = "pending" | "running" | "paused" | "completed" | "failed" | "cancelled" | "rolled-back"
+
+export type PlanStepStatus = "pending" | "running" | "waiting" | "completed" | "failed" | "skipped" | "rolled-back"
+
+export interface PlanStepState {
+  /** Unique within the plan (`<planId>:<stepId>`) */
+  id: string
+  stepId: string
+  name: string
+  action: string
+  kind: "shell" | "agent" | "gate"
+  status: PlanStepStatus
+  dependsOn: string[]
+  /** Wave of the DAG the step belongs to; steps in the same group may run in parallel */
+  parallelGroup: number
+  gateType?: string
+  startedAt?: string
+  finishedAt?: string
+  exitCode?: number | null
+  error?: string
+  /** Tail of the step's combined output */
+  output?: string
+}
+
+export interface PlanCheckpoint {
+  stepId: string
+  type: "test" | "build" | "lint" | "step"
+  passed?: number
+  failed?: number
+  warnings?: number
+  createdAt: string
+}
+
+export interface PlanStepDetail {
+  stepId: string
+  commits?: string[]
+  filesChanged?: string[]
+  timeElapsedMs?: number
+  sessionId?: string
+  decision?: { rationale: string; alternatives: string[] }
+  gate?: { approved: boolean; comment?: string; decidedAt: string }
+}
+
+export interface PlanRun {
+  id: string
+  folder: string
+  formulaName: string
+  formulaSource: FormulaSource
+  status: PlanStatus
+  variables: Record<string, string | number | boolean>
+  parallelism: number
+  steps: PlanStepState[]
+  checkpoints: PlanCheckpoint[]
+  details: PlanStepDetail[]
+  workspaceId?: string
+  /** Session agent steps run in */
+  sessionId?: string
+  createdAt: string
+  updatedAt: string
+  finishedAt?: string
+}
+
+export interface StartPlanRequest {
+  folder: string
+  formula: string
+  variables?: Record<string, unknown>
+  workspaceId?: string
+  sessionId?: string
+}
+
+export type GateType = "gh:run" | "gh:pr" | "timer" | "human" | "mail"
+
+export type GateStatus = "waiting" | "resolved" | "rejected" | "timed-out" | "cancelled"
+
+/** What asked for the gate: a plan step, a governance rule, an agent, or a user via the API */
+export type GateSource = "plan" | "governance" | "agent" | "manual"
+
+export interface GateResolution {
+  outcome: "approved" | "rejected" | "timed-out" | "cancelled"
+  resolvedBy?: string
+  comment?: string
+}
+
+export interface GateEntry {
+  id: string
+  type: GateType
+  status: GateStatus
+  source: GateSource
+  title: string
+  description?: string
+  /** Project folder the gate belongs to */
+  folder?: string
+  planId?: string
+  stepId?: string
+  sessionId?: string
+  instanceId?: string
+  createdAt: string
+  /** When a waiting gate times out; absent when it never does */
+  expiresAt?: string
+  resolvedAt?: string
+  /** Who is blocked on the decision (agent names, plan ids, ...) */
+  waiters: string[]
+  metadata: Record<string, unknown>
+  resolution?: GateResolution
+}
+
+export interface CreateGateRequest {
+  type?: GateType
+  source?: GateSource
+  title: string
+  description?: string
+  folder?: string
+  planId?: string
+  stepId?: string
+  sessionId?: string
+  instanceId?: string
+  /** Overrides the `gateTimeoutMinutes` preference; 0 = never time out */
+  timeoutMinutes?: number
+  waiters?: string[]
+  metadata?: Record<string, unknown>
+}
+
+export interface GatesQuery {
+  planId?: string
+  sessionId?: string
+  folder?: string
+  /** Defaults to every status */
+  status?: GateStatus
+}
+
+export interface GatesResponse {
+  gates: GateEntry[]
+}
+
+export interface GateDecisionRequest {
+  comment?: string
+  resolvedBy?: string
+}
+
+export type HandoffReason = "context_exhaustion" | "error" | "manual"
+
+/** A session handed over to a fresh child session, with the document it was seeded with */
+export interface HandoffEntry {
+  id: string
+  folder: string
+  instanceId: string
+  fromSessionId: string
+  /** Absent only if creating the child session failed after the document was written */
+  toSessionId?: string
+  timestamp: string
+  /** Fraction of the model context window in use at handoff time (0-1) */
+  contextUsage: number
+  /** Tokens the source session had consumed */
+  tokensUsed: number
+  /** Source session lifetime up to the handoff, in ms */
+  durationMs?: number
+  reason: HandoffReason
+  title: string
+  workSummary: string
+  completedTasks: string[]
+  pendingTasks: string[]
+  keyDecisions: string[]
+  filesModified: string[]
+  /** Markdown handoff document, relative to the project folder */
+  documentPath: string
+}
+
+export interface HandoffChainNode {
+  sessionId: string
+  title?: string
+  duration?: number
+  tokensUsed?: number
+  progress?: string
+}
+
+export interface HandoffsResponse {
+  handoffs: HandoffEntry[]
+  /** Sessions linked by handoffs, oldest first; empty without a sessionId */
+  chain: HandoffChainNode[]
+}
+
+export interface CreateHandoffRequest {
+  instanceId: string
+  sessionId: string
+  reason?: HandoffReason
+  contextUsage?: number
+  /** Extra instructions appended to the handoff document */
+  note?: string
+}
+
+/** A file an agent touched while producing one message */
+export interface SessionCheckpointFile {
+  /** Relative to the workspace folder */
+  path: string
+  /** Tool that last wrote the file within the message */
+  tool: string
+  /** Content hash before the message's first edit; null if the file didn't exist, absent if it couldn't be captured */
+  beforeHash?: string | null
+  /** Content hash after the message's last edit; null if the file was deleted, absent while a tool is running */
+  afterHash?: string | null
+}
+
+/** Files an agent changed while producing one assistant message */
+export interface SessionCheckpoint {
+  id: string
+  instanceId: string
+  sessionId: string
+  messageId: string
+  createdAt: number
+  updatedAt: number
+  files: SessionCheckpointFile[]
+}
+
+export interface SessionCheckpointsResponse {
+  /** Oldest first */
+  checkpoints: SessionCheckpoint[]
+}
+
+export type CheckpointFileAction = "restore" | "create" | "delete" | "unchanged" | "unavailable"
+
+export interface CheckpointPreviewFile {
+  path: string
+  action: CheckpointFileAction
+  /** Hash on disk now, null when the file doesn't exist */
+  currentHash: string | null
+  /** Hash the file will be restored to, null when it will be deleted */
+  targetHash: string | null
+  /** Unified diff from the current file to the restored one */
+  diff?: string
+  /** The file was edited outside the session after the agent's last write */
+  conflict: boolean
+}
+
+export interface CheckpointPreviewResponse {
+  checkpointId: string
+  files: CheckpointPreviewFile[]
+  conflicts: number
+}
+
+export interface CheckpointRestoreRequest {
+  /** Overwrite files that were edited outside the session */
+  force?: boolean
+}
+
+export interface CheckpointRestoreResponse {
+  checkpointId: string
+  restored: string[]
+  /** Checkpoints rolled back (the restored one and every later one) */
+  removedCheckpoints: string[]
+}
+
+export interface CheckpointUpdatedEvent {
+  type: "checkpoint.updated"
+  instanceId: string
+  sessionId: string
+  checkpointId: string
+  /** "restored" when the working tree was rolled back to the checkpoint */
+  reason: "captured" | "restored"
+  timestamp: number
+}
+
+/** One matching message part from `/api/search` */
+export interface SessionSearchHit {
+  sessionId: string
+  sessionTitle: string
+  projectId: string
+  /** Project directory the session belongs to */
+  directory: string
+  messageId: string
+  partId: string
+  role: "user" | "assistant"
+  kind: "text" | "tool" | "file"
+  tool?: string
+  files: string[]
+  /** Message creation time, epoch ms */
+  createdAt: number
+  snippet: string
+  /** [start, end) offsets of matched terms within `snippet` */
+  highlights: Array<[number, number]>
+  score: number
+}
+
+export interface SessionSearchResponse {
+  results: SessionSearchHit[]
+  /** Matches before `limit`/`offset` were applied */
+  total: number
+  indexedParts: number
+  /** True while stored sessions are still being read, so results may be incomplete */
+  indexing: boolean
+}
+
+/** OpenCode session info as stored in an export bundle; kept verbatim */
+export interface SessionBundleInfo {
+  id: string
+  title: string
+  parentID?: string
+  directory?: string
+  time: { created: number; updated: number }
+  [key: string]: unknown
+}
+
+/** An OpenCode message with its parts, kept verbatim */
+export interface SessionBundleMessage {
+  info: { id: string; role: "user" | "assistant"; [key: string]: unknown }
+  parts: Array<{ id: string; type: string; [key: string]: unknown }>
+}
+
+export interface SessionBundleEntry {
+  info: SessionBundleInfo
+  messages: SessionBundleMessage[]
+}
+
+/** Lossless JSON export of a session and, optionally, its subagent sessions */
+export interface SessionExportBundle {
+  format: "era-session-bundle"
+  version: 1
+  exportedAt: number
+  /** The exported session first, followed by its descendants */
+  sessions: SessionBundleEntry[]
+}
+
+/** A bundle imported for read-only review */
+export interface ImportedSessionSummary {
+  id: string
+  title: string
+  /** Project folder the bundle was imported into */
+  folder: string
+  importedAt: number
+  exportedAt: number
+  sessionCount: number
+  messageCount: number
+}
+
+export interface ImportedSession extends ImportedSessionSummary {
+  bundle: SessionExportBundle
+}
+
+// ============================================================
+// Usage Analytics
+// ============================================================
+
+export interface UsageTotals {
+  /** USD */
+  cost: number
+  inputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  /** Assistant messages counted */
+  messages: number
+}
+
+export interface UsageDayEntry extends UsageTotals {
+  /** Local date, YYYY-MM-DD */
+  day: string
+}
+
+/** Usage grouped by model, provider, agent or project */
+export interface UsageBreakdownEntry extends UsageTotals {
+  key: string
+  label: string
+}
+
+export interface UsageSessionEntry extends UsageTotals {
+  sessionId: string
+  title: string
+  project: string
+  lastActivity: number
+}
+
+export type UsageBudgetState = "ok" | "warning" | "exceeded"
+
+export interface UsageBudgetPeriod {
+  /** USD; null when no limit is set */
+  limit: number | null
+  spent: number
+  state: UsageBudgetState
+}
+
+export interface UsageBudgetStatus {
+  daily: UsageBudgetPeriod
+  monthly: UsageBudgetPeriod
+  warnAt: number
+  hardStop: boolean
+  /** A limit is exceeded and hard stop is on: prompts must not be sent */
+  blocked: boolean
+}
+
+export interface UsageAnalyticsResponse {
+  /** Inclusive local dates, YYYY-MM-DD */
+  from: string
+  to: string
+  totals: UsageTotals
+  /** Every day of the range, including days without usage */
+  byDay: UsageDayEntry[]
+  byModel: UsageBreakdownEntry[]
+  byProvider: UsageBreakdownEntry[]
+  byAgent: UsageBreakdownEntry[]
+  byProject: UsageBreakdownEntry[]
+  topSessions: UsageSessionEntry[]
+  budget: UsageBudgetStatus
+}
+
+/** Published when a budget moves between ok, warning and exceeded */
+export interface UsageBudgetChangedEvent {
+  type: "usage.budgetChanged"
+  budget: UsageBudgetStatus
+  timestamp: number
+}
+
+// ============================================================
+// Prompt Templates
+// ============================================================
+
+export type PromptTemplateSource = "global" | "project"
+
+/**
+ * A reusable prompt. The body may contain `{{variable}}` and
+ * `{{variable:default}}` placeholders, plus `{{file}}` and `{{selection}}`.
+ */
+export interface PromptTemplate {
+  /** File name without `.md`; unique per source */
+  name: string
+  description: string
+  body: string
+  source: PromptTemplateSource
+  /** File the template was loaded from */
+  path: string
+}
+
+export interface PromptTemplateLoadError {
+  path: string
+  error: string
+}
+
+export interface PromptTemplatesResponse {
+  /** Project templates shadow global templates of the same name */
+  templates: PromptTemplate[]
+  errors: PromptTemplateLoadError[]
+}
+
+// ============================================================
+// Session Worktrees
+// ============================================================
+
+export type WorktreeMergeStrategy = "fast-forward" | "squash" | "rebase"
+
+/** A git worktree and branch dedicated to one isolated session */
+export interface SessionWorktree {
+  id: string
+  /** Project folder the session was started from */
+  folder: string
+  /** Root of the main checkout */
+  repoRoot: string
+  /** Root of the worktree checkout */
+  path: string
+  /** Folder inside the worktree matching `folder`; OpenCode runs the session here */
+  directory: string
+  branch: string
+  /** Branch of the main checkout the worktree was created from and merges back into */
+  baseBranch: string
+  baseCommit: string
+  /** null until the session has been created */
+  sessionId: string | null
+  createdAt: number
+  mergedAt?: number
+  mergeStrategy?: WorktreeMergeStrategy
+}
+
+export interface SessionWorktreesResponse {
+  worktrees: SessionWorktree[]
+}
+
+export interface WorktreeMergeFile {
+  /** Relative to the repository root */
+  path: string
+  /**
+   * "session": changed only in the session
+   * "merged": changed on both branches, merges cleanly
+   * "conflict": changed on both branches with overlapping edits
+   */
+  status: "session" | "merged" | "conflict"
+  conflicts: number
+}
+
+export interface WorktreeMergePreview {
+  worktree: SessionWorktree
+  /** Commits made in the session worktree since it was created */
+  sessionCommits: number
+  /** Files changed in the worktree but not committed yet; merging commits them */
+  uncommittedFiles: number
+  /** Commits added to the base branch since the worktree was created */
+  baseCommits: number
+  canFastForward: boolean
+  hasConflicts: boolean
+  files: WorktreeMergeFile[]
+}
+
+export interface WorktreeMergeRequest {
+  strategy: WorktreeMergeStrategy
+  /** Message for the squash commit and for committing pending changes */
+  message?: string
+  /** Delete the worktree and branch after a successful merge */
+  removeWorktree?: boolean
+}
+
+export interface WorktreeMergeResponse {
+  worktree: SessionWorktree
+  /** HEAD of the base branch after the merge */
+  commit: string
+  removed: boolean
+}
+
+export interface WorktreeUpdatedEvent {
+  type: "worktree.updated"
+  worktree: SessionWorktree
+  /** The worktree was deleted */
+  removed: boolean
+}
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { isLoopbackOrigin, isProtectedRoute, isSameHostOrigin } from "../request-auth"
+
+describe("request auth helpers", () => {
+  it("protects every matched route except the public ones", () => {
+    assert.equal(isProtectedRoute("/api/system/exec", false), true)
+    assert.equal(isProtectedRoute("/workspaces/:id/instance/*", false), true)
+    assert.equal(isProtectedRoute(undefined, false), true)
+    assert.equal(isProtectedRoute("/api/auth/login", false), false)
+    assert.equal(isProtectedRoute("/api/health", false), false)
+    assert.equal(isProtectedRoute("/*", false), false)
+    assert.equal(isProtectedRoute(undefined, true), false)
+  })
+
+  it("recognizes loopback origins on any port", () => {
+    assert.equal(isLoopbackOrigin("http://localhost:5173"), true)
+    assert.equal(isLoopbackOrigin("http://127.0.0.1:9898"), true)
+    assert.equal(isLoopbackOrigin("http://[::1]:9898"), true)
+    assert.equal(isLoopbackOrigin("https://evil.example"), false)
+    assert.equal(isLoopbackOrigin("http://localhost.evil.example"), false)
+    assert.equal(isLoopbackOrigin("null"), false)
+  })
+
+  it("matches origins against the Host header", () => {
+    assert.equal(isSameHostOrigin("http://192.168.1.20:9898", "192.168.1.20:9898"), true)
+    assert.equal(isSameHostOrigin("http://192.168.1.20:9898", "192.168.1.20:9899"), false)
+    assert.equal(isSameHostOrigin("https://evil.example", "192.168.1.20:9898"), false)
+    assert.equal(isSameHostOrigin("http://192.168.1.20:9898", undefined), false)
+  })
+})
@@ -0,0 +1,133 @@
+import type { FastifyRequest } from "fastify"
+
+export const AUTH_COOKIE_NAME = "era_code_token"
+export const AUTH_QUERY_PARAM = "token"
+
+/** Cookie lifetime for browsers that authenticated via token link (30 days). */
+export const AUTH_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+
+/**
+ * Route patterns reachable without credentials: the login endpoints, the health
+ * probe, the static UI bundle (`/*`) so the login prompt can render, and CORS
+ * preflights (`*`, OPTIONS only).
+ */
+const PUBLIC_ROUTES = new Set([
+  "/api/auth/status",
+  "/api/auth/login",
+  "/api/auth/logout",
+  "/api/health",
+  "/*",
+  "*",
+])
+
+export type TokenSource = "header" | "cookie" | "query"
+
+export function isLoopbackAddress(address: string | undefined): boolean {
+  if (!address) return false
+  const normalized = address.startsWith("::ffff:") ? address.slice(7) : address
+  return normalized === "::1" || normalized === "127.0.0.1" || normalized.startsWith("127.")
+}
+
+/**
+ * Whether a request needs a valid token, decided from the route pattern Fastify
+ * matched after decoding the path (`request.routeOptions.url`), so encoded
+ * variants of a protected path stay protected. Every route is protected unless
+ * listed above; unmatched requests only reach the not-found handler, which
+ * serves the UI shell.
+ */
+export function isProtectedRoute(routeUrl: string | undefined, is404: boolean): boolean {
+  if (is404) return false
+  return !routeUrl || !PUBLIC_ROUTES.has(routeUrl)
+}
+
+/** Origins served from this device (`localhost`, `127.x`, `[::1]`) on any port. */
+export function isLoopbackOrigin(origin: string): boolean {
+  try {
+    const { hostname } = new URL(origin)
+    return hostname === "localhost" || hostname === "[::1]" || isLoopbackAddress(hostname)
+  } catch {
+    return false
+  }
+}
+
+/** Whether `origin` is the address the browser used to reach this server (its `Host` header). */
+export function isSameHostOrigin(origin: string, host: string | undefined): boolean {
+  if (!host) return false
+  try {
+    return new URL(origin).host === host.toLowerCase()
+  } catch {
+    return false
+  }
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {}
+  if (!header) return result
+  for (const part of header.split(";")) {
+    const index = part.indexOf("=")
+    if (index <= 0) continue
+    const key = part.slice(0, index).trim()
+    const value = part.slice(index + 1).trim()
+    if (!key) continue
+    try {
+      result[key] = decodeURIComponent(value)
+    } catch {
+      result[key] = value
+    }
+  }
+  return result
+}
+
+/**
+ * Extract a presented token from the Authorization header, the auth cookie
+ * or the `?token=` query parameter, in that order.
+ */
+export function extractToken(request: FastifyRequest): { token: string; source: TokenSource } | null {
+  const authorization = request.headers.authorization
+  if (typeof authorization === "string") {
+    const match = authorization.match(/^Bearer\s+(.+)$/i)
+    if (match) {
+      return { token: match[1].trim(), source: "header" }
+    }
+  }
+
+  const cookieToken = parseCookies(request.headers.cookie)[AUTH_COOKIE_NAME]
+  if (cookieToken) {
+    return { token: cookieToken, source: "cookie" }
+  }
+
+  const queryToken = readQueryToken(request.raw.url)
+  if (queryToken) {
+    return { token: queryToken, source: "query" }
+  }
+
+  return null
+}
+
+export function readQueryToken(rawUrl: string | undefined): string | null {
+  if (!rawUrl) return null
+  const queryIndex = rawUrl.indexOf("?")
+  if (queryIndex < 0) return null
+  const params = new URLSearchParams(rawUrl.slice(queryIndex + 1))
+  const value = params.get(AUTH_QUERY_PARAM)
+  return value && value.trim() ? value.trim() : null
+}
+
+/** Remove the token query parameter so it does not linger in the address bar. */
+export function stripQueryToken(rawUrl: string): string {
+  const queryIndex = rawUrl.indexOf("?")
+  if (queryIndex < 0) return rawUrl
+  const pathname = rawUrl.slice(0, queryIndex)
+  const params = new URLSearchParams(rawUrl.slice(queryIndex + 1))
+  params.delete(AUTH_QUERY_PARAM)
+  const search = params.toString()
+  return search ? `${pathname}?${search}` : pathname
+}
+
+export function buildAuthCookie(token: string): string {
+  return `${AUTH_COOKIE_NAME}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${AUTH_COOKIE_MAX_AGE_SECONDS}`
+}
+
+export function buildClearedAuthCookie(): string {
+  return `${AUTH_COOKIE_NAME}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`
+}
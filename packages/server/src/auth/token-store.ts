@@ -0,0 +1,174 @@
+import crypto from "crypto"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import type { Logger } from "../logger"
+
+/**
+ * Access tokens guarding the HTTP API when the server listens on all interfaces.
+ *
+ * Tokens are kept in a small JSON file (mode 0600) next to the rest of the
+ * era-code config so that a token handed out over QR survives restarts.
+ * Only the "primary" token is ever shown in the UI; additional tokens can be
+ * minted for scripts and revoked individually.
+ */
+
+export interface AccessTokenRecord {
+  id: string
+  label: string
+  token: string
+  primary: boolean
+  createdAt: string
+  lastUsedAt?: string
+}
+
+/** Token metadata safe to return to clients (never includes the secret). */
+export type AccessTokenSummary = Omit<AccessTokenRecord, "token">
+
+interface TokenFile {
+  tokens: AccessTokenRecord[]
+}
+
+const DEFAULT_TOKEN_FILE = path.join(os.homedir(), ".config", "era-code", "access-tokens.json")
+const TOKEN_BYTES = 24
+const LAST_USED_FLUSH_MS = 60_000
+
+export class AccessTokenStore {
+  private tokens: AccessTokenRecord[] = []
+  private loaded = false
+  private lastFlush = 0
+
+  constructor(
+    private readonly logger: Logger,
+    private readonly filePath: string = DEFAULT_TOKEN_FILE,
+  ) {}
+
+  /**
+   * Return the primary token, generating one if none exists yet.
+   * A pinned token (e.g. from `--auth-token`) replaces the stored primary.
+   */
+  ensurePrimary(pinned?: string): AccessTokenRecord {
+    this.load()
+    const existing = this.tokens.find((entry) => entry.primary)
+
+    if (pinned) {
+      if (existing?.token === pinned) return existing
+      this.tokens = this.tokens.filter((entry) => !entry.primary)
+      const record = this.buildRecord("Primary", true, pinned)
+      this.tokens.unshift(record)
+      this.persist()
+      return record
+    }
+
+    if (existing) return existing
+
+    const record = this.buildRecord("Primary", true)
+    this.tokens.unshift(record)
+    this.persist()
+    this.logger.info({ tokenId: record.id }, "Generated primary access token")
+    return record
+  }
+
+  getPrimary(): AccessTokenRecord | undefined {
+    this.load()
+    return this.tokens.find((entry) => entry.primary)
+  }
+
+  list(): AccessTokenSummary[] {
+    this.load()
+    return this.tokens.map(toSummary)
+  }
+
+  create(label: string): AccessTokenRecord {
+    this.load()
+    const record = this.buildRecord(label.trim() || "Token", false)
+    this.tokens.push(record)
+    this.persist()
+    this.logger.info({ tokenId: record.id, label: record.label }, "Created access token")
+    return record
+  }
+
+  /**
+   * Replace the primary token with a fresh secret. Clients holding the old
+   * value lose access immediately.
+   */
+  rotatePrimary(): AccessTokenRecord {
+    this.load()
+    this.tokens = this.tokens.filter((entry) => !entry.primary)
+    const record = this.buildRecord("Primary", true)
+    this.tokens.unshift(record)
+    this.persist()
+    this.logger.info({ tokenId: record.id }, "Rotated primary access token")
+    return record
+  }
+
+  revoke(id: string): boolean {
+    this.load()
+    const before = this.tokens.length
+    this.tokens = this.tokens.filter((entry) => entry.id !== id)
+    if (this.tokens.length === before) return false
+    this.persist()
+    this.logger.info({ tokenId: id }, "Revoked access token")
+    return true
+  }
+
+  /** Validate a presented secret, returning the matching record if any. */
+  verify(candidate: string | undefined | null): AccessTokenRecord | undefined {
+    if (!candidate) return undefined
+    this.load()
+    const candidateDigest = digest(candidate)
+    const match = this.tokens.find((entry) => crypto.timingSafeEqual(digest(entry.token), candidateDigest))
+    if (match) {
+      match.lastUsedAt = new Date().toISOString()
+      if (Date.now() - this.lastFlush > LAST_USED_FLUSH_MS) {
+        this.persist()
+      }
+    }
+    return match
+  }
+
+  private buildRecord(label: string, primary: boolean, token?: string): AccessTokenRecord {
+    return {
+      id: crypto.randomBytes(6).toString("hex"),
+      label,
+      token: token ?? crypto.randomBytes(TOKEN_BYTES).toString("base64url"),
+      primary,
+      createdAt: new Date().toISOString(),
+    }
+  }
+
+  private load() {
+    if (this.loaded) return
+    this.loaded = true
+    try {
+      if (!fs.existsSync(this.filePath)) return
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as Partial<TokenFile>
+      this.tokens = Array.isArray(parsed.tokens)
+        ? parsed.tokens.filter((entry) => typeof entry?.token === "string" && typeof entry?.id === "string")
+        : []
+    } catch (error) {
+      this.logger.warn({ err: error, filePath: this.filePath }, "Failed to load access tokens, starting fresh")
+      this.tokens = []
+    }
+  }
+
+  private persist() {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      const payload: TokenFile = { tokens: this.tokens }
+      fs.writeFileSync(this.filePath, JSON.stringify(payload, null, 2), { encoding: "utf-8", mode: 0o600 })
+      this.lastFlush = Date.now()
+    } catch (error) {
+      this.logger.warn({ err: error, filePath: this.filePath }, "Failed to persist access tokens")
+    }
+  }
+}
+
+function digest(value: string): Buffer {
+  return crypto.createHash("sha256").update(value).digest()
+}
+
+function toSummary(record: AccessTokenRecord): AccessTokenSummary {
+  const { token: _token, ...summary } = record
+  return summary
+}
@@ -44,6 +44,16 @@ const ToolRoutingSchema = z.object({
   profiles: z.record(z.string(), AgentToolOverrideSchema).default({}),
 })
 
+/** Spending limits in USD; null = no limit */
+const UsageBudgetsSchema = z.object({
+  daily: z.number().positive().nullable().default(null),
+  monthly: z.number().positive().nullable().default(null),
+  // Fraction of a limit at which to warn
+  warnAt: z.number().min(0.1).max(1).default(0.8),
+  // Refuse to send prompts while a limit is exceeded
+  hardStop: z.boolean().default(false),
+})
+
 const PreferencesSchema = z.object({
   showThinkingBlocks: z.boolean().default(false),
   thinkingBlocksExpansion: z.enum(["expanded", "collapsed"]).default("expanded"),
@@ -60,10 +70,17 @@ const PreferencesSchema = z.object({
   diagnosticsExpansion: z.enum(["expanded", "collapsed"]).default("expanded"),
   showUsageMetrics: z.boolean().default(true),
   autoCleanupBlankSessions: z.boolean().default(true),
+  isolatedSessions: z.boolean().default(false), // New sessions get their own git worktree and branch
   stopInstanceOnLastSessionDelete: z.boolean().default(false),
   idleInstanceTimeoutMinutes: z.number().min(0).default(0), // 0 = disabled
   autoStopOnDisconnect: z.boolean().default(true), // Auto-stop disconnected instances
+  crashRestartMaxAttempts: z.number().int().min(0).max(20).default(5), // 0 = don't restart crashed instances
+  // "restore" reopens the previous run's workspaces at startup, launching each on first access
+  workspaceStartupMode: z.enum(["fresh", "restore"]).default("restore"),
   listeningMode: z.enum(["local", "all"]).default("local"),
+  gateTimeoutMinutes: z.number().min(0).default(60), // 0 = gates never time out
+  fileHistoryMaxVersions: z.number().int().min(1).max(1000).default(50),
+  fileHistoryRetentionDays: z.number().min(0).default(30), // 0 = keep versions forever
 
   // Permissions
   autoApprovePermissions: z.boolean().default(true), // Skip permission prompts by default
@@ -97,6 +114,12 @@ const PreferencesSchema = z.object({
 
   // Tool routing configuration
   toolRouting: ToolRoutingSchema.default({}),
+
+  // Keyboard shortcut overrides by shortcut id ("mod+k", "g s"); null = unbound
+  keybindings: z.record(z.string().nullable()).default({}),
+
+  // Cost budgets across all projects
+  usageBudgets: UsageBudgetsSchema.default({}),
 })
 
 const RecentFolderSchema = z.object({
@@ -130,6 +153,7 @@ export {
   ToolCategorySchema,
   AgentToolOverrideSchema,
   ToolRoutingSchema,
+  UsageBudgetsSchema,
   PreferencesSchema,
   RecentFolderSchema,
   OpenCodeBinarySchema,
@@ -144,6 +168,7 @@ export type McpLocalServerConfig = z.infer<typeof McpLocalServerConfigSchema>
 export type McpRemoteServerConfig = z.infer<typeof McpRemoteServerConfigSchema>
 export type McpServerConfig = z.infer<typeof McpServerConfigSchema>
 export type ToolRouting = z.infer<typeof ToolRoutingSchema>
+export type UsageBudgets = z.infer<typeof UsageBudgetsSchema>
 export type Preferences = z.infer<typeof PreferencesSchema>
 export type RecentFolder = z.infer<typeof RecentFolderSchema>
 export type OpenCodeBinary = z.infer<typeof OpenCodeBinarySchema>
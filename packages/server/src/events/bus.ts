@@ -24,6 +24,7 @@ export class EventBus extends EventEmitter {
     this.on("workspace.error", handler)
     this.on("workspace.stopped", handler)
     this.on("workspace.log", handler)
+    this.on("workspace.crashed", handler)
     this.on("config.appChanged", handler)
     this.on("config.binariesChanged", handler)
     this.on("instance.dataChanged", handler)
@@ -33,12 +34,22 @@ export class EventBus extends EventEmitter {
     this.on("file.changed", handler)
     this.on("file.conflict", handler)
     this.on("file.conflict.resolved", handler)
+    this.on("beads.updated", handler)
+    this.on("plan.stepStatus", handler)
+    this.on("gate.created", handler)
+    this.on("gate.resolved", handler)
+    this.on("handoff.created", handler)
+    this.on("checkpoint.updated", handler)
+    this.on("mcp.statusChanged", handler)
+    this.on("usage.budgetChanged", handler)
+    this.on("worktree.updated", handler)
     return () => {
       this.off("workspace.created", handler)
       this.off("workspace.started", handler)
       this.off("workspace.error", handler)
       this.off("workspace.stopped", handler)
       this.off("workspace.log", handler)
+      this.off("workspace.crashed", handler)
       this.off("config.appChanged", handler)
       this.off("config.binariesChanged", handler)
       this.off("instance.dataChanged", handler)
@@ -48,6 +59,15 @@ export class EventBus extends EventEmitter {
       this.off("file.changed", handler)
       this.off("file.conflict", handler)
       this.off("file.conflict.resolved", handler)
+      this.off("beads.updated", handler)
+      this.off("plan.stepStatus", handler)
+      this.off("gate.created", handler)
+      this.off("gate.resolved", handler)
+      this.off("handoff.created", handler)
+      this.off("checkpoint.updated", handler)
+      this.off("mcp.statusChanged", handler)
+      this.off("usage.budgetChanged", handler)
+      this.off("worktree.updated", handler)
     }
   }
 }
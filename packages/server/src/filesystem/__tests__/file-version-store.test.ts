@@ -0,0 +1,70 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import type { FileHistoryVersion } from "../../api-types"
+import { applyRetention, FileVersionStore, type FileVersionRetention } from "../file-version-store"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function version(hash: string, timestamp: number): FileHistoryVersion {
+  return { hash, timestamp, sessionId: "ses", instanceId: "ws", hasContent: true }
+}
+
+describe("file version store", () => {
+  let root: string
+  let retention: FileVersionRetention
+  let store: FileVersionStore
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "file-history-"))
+    retention = { maxVersions: 50, maxAgeDays: 0 }
+    store = new FileVersionStore({ workspaceRoot: root, retention: () => retention, logger: pino({ level: "silent" }) })
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  it("persists versions across instances and skips consecutive duplicates", async () => {
+    const file = path.join(root, "src", "app.ts")
+    const first = await store.record(file, "v1", "ses_a", "ws")
+    await store.record(file, "v1", "ses_b", "ws")
+    await store.record(file, "v2", "ses_b", "ws")
+
+    const reopened = new FileVersionStore({ workspaceRoot: root, logger: pino({ level: "silent" }) })
+    const history = await reopened.getHistory(file)
+    assert.deepEqual(
+      history.map((v) => v.sessionId),
+      ["ses_a", "ses_b"],
+    )
+    assert.equal(await reopened.readContent(first!.hash), "v1")
+    assert.equal(await store.record(path.join(root, "..", "outside.ts"), "x", "ses_a", "ws"), null)
+  })
+
+  it("drops versions beyond retention and garbage-collects their content", async () => {
+    const file = path.join(root, "notes.md")
+    const old = await store.record(file, "old", "ses", "ws")
+    await store.record(file, "mid", "ses", "ws")
+    await store.record(file, "new", "ses", "ws")
+
+    retention = { maxVersions: 2, maxAgeDays: 0 }
+    assert.equal(await store.prune(), 1)
+    assert.equal((await store.getHistory(file)).length, 2)
+    assert.equal(await store.readContent(old!.hash), null)
+  })
+
+  it("applies age and count limits but always keeps the newest version", () => {
+    const now = 100 * DAY_MS
+    const versions = [version("a", now - 40 * DAY_MS), version("b", now - 10 * DAY_MS), version("c", now - 50 * DAY_MS)]
+
+    assert.deepEqual(
+      applyRetention(versions, { maxVersions: 10, maxAgeDays: 30 }, now).map((v) => v.hash),
+      ["b", "c"],
+    )
+    assert.deepEqual(
+      applyRetention(versions, { maxVersions: 1, maxAgeDays: 0 }, now).map((v) => v.hash),
+      ["c"],
+    )
+  })
+})
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import pino from "pino"
+import { MergeService } from "../merge-service"
+
+const merger = new MergeService({ logger: pino({ level: "silent" }) })
+
+describe("structural merge", () => {
+  it("merges dependencies both sides added to package.json", () => {
+    const base = `{\n  "name": "app",\n  "dependencies": {\n    "a": "^1.0.0"\n  }\n}\n`
+    const ours = `{\n  "name": "app",\n  "dependencies": {\n    "a": "^1.0.0",\n    "b": "^2.0.0"\n  }\n}\n`
+    const theirs = `{\n  "name": "app",\n  "dependencies": {\n    "a": "^1.0.0",\n    "c": "^3.0.0"\n  }\n}\n`
+
+    const result = merger.merge({ filePath: "package.json", base, ours, theirs })
+    assert.equal(result.success, true)
+    assert.equal(result.stats.strategy, "json")
+    assert.deepEqual(JSON.parse(result.merged!), {
+      name: "app",
+      dependencies: { a: "^1.0.0", b: "^2.0.0", c: "^3.0.0" },
+    })
+  })
+
+  it("merges YAML keys both sides added", () => {
+    const base = "name: app\nscripts:\n  build: tsc\n"
+    const ours = "name: app\nscripts:\n  build: tsc\n  test: node --test\n"
+    const theirs = "name: app\nversion: 2\nscripts:\n  build: tsc\n"
+
+    const result = merger.merge({ filePath: "config.yaml", base, ours, theirs })
+    assert.equal(result.stats.strategy, "yaml")
+    assert.equal(result.merged, "name: app\nversion: 2\nscripts:\n  build: tsc\n  test: node --test\n")
+  })
+
+  it("merges imports and declarations both sides added to a module", () => {
+    const base = [
+      `import { a } from "./a"`,
+      ``,
+      `export function one() {`,
+      `  return a`,
+      `}`,
+      ``,
+    ].join("\n")
+    const ours = [
+      `import { a, b } from "./a"`,
+      ``,
+      `export function one() {`,
+      `  return a`,
+      `}`,
+      ``,
+      `export function two() {`,
+      `  return b`,
+      `}`,
+      ``,
+    ].join("\n")
+    const theirs = [
+      `import { a, c } from "./a"`,
+      `import { d } from "./d"`,
+      ``,
+      `export function one() {`,
+      `  return a`,
+      `}`,
+      ``,
+      `export const three = \`\${c}\${d}\``,
+      ``,
+    ].join("\n")
+
+    const result = merger.merge({ filePath: "src/index.ts", base, ours, theirs })
+    assert.equal(result.stats.strategy, "typescript")
+    assert.equal(
+      result.merged,
+      [
+        `import { a, b, c } from "./a"`,
+        `import { d } from "./d"`,
+        ``,
+        `export function one() {`,
+        `  return a`,
+        `}`,
+        ``,
+        `export function two() {`,
+        `  return b`,
+        `}`,
+        ``,
+        `export const three = \`\${c}\${d}\``,
+        ``,
+      ].join("\n")
+    )
+  })
+
+  it("falls back to the line merge when both sides change the same key", () => {
+    const base = `{\n  "version": "1.0.0"\n}\n`
+    const ours = `{\n  "version": "1.1.0"\n}\n`
+    const theirs = `{\n  "version": "2.0.0"\n}\n`
+
+    const result = merger.merge({ filePath: "package.json", base, ours, theirs })
+    assert.equal(result.hasConflicts, true)
+    assert.equal(result.stats.strategy, "line")
+    assert.equal(result.stats.fallbackFrom, "json")
+  })
+})
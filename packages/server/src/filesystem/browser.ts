@@ -69,6 +69,13 @@ export class FileSystemBrowser {
     return fs.readFileSync(resolved, "utf-8")
   }
 
+  resolveFile(relativePath: string): string {
+    if (this.unrestricted) {
+      throw new Error("resolveFile is not available in unrestricted mode")
+    }
+    return this.toRestrictedAbsolute(relativePath)
+  }
+
   private listRestrictedWithMetadata(relativePath: string | undefined, includeFiles: boolean, includeHidden: boolean): FileSystemListResponse {
     const normalizedPath = this.normalizeRelativePath(relativePath)
     const absolutePath = this.toRestrictedAbsolute(normalizedPath)
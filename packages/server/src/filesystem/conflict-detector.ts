@@ -14,6 +14,7 @@ import { FileWatchService, FileChangeEvent, createFileWatchService } from "./fil
 import { FileChangeTracker, FileVersion, getFileChangeTracker } from "./file-change-tracker.js"
 import { MergeService, MergeResult, ConflictRegion, getMergeService } from "./merge-service.js"
 import { isBinaryFile } from "./binary-detector.js"
+import { FileVersionStore, getFileVersionStore } from "./file-version-store.js"
 import { EventBus } from "../events/bus.js"
 import { createLogger, Logger } from "../logger.js"
 
@@ -46,6 +47,10 @@ export interface FileConflict {
     canAutoMerge: boolean
     mergedContent?: string
     conflicts?: ConflictRegion[]
+    /** Merge strategy used, e.g. "json" or "line" */
+    strategy?: string
+    /** Structural merger that failed before falling back to the line merge */
+    fallbackFrom?: string
   }
   /** When the conflict was detected */
   timestamp: number
@@ -77,6 +82,10 @@ export interface FileConflictEventData {
     canAutoMerge: boolean
     mergedContent?: string
     conflicts?: ConflictRegion[]
+    /** Merge strategy used, e.g. "json" or "line" */
+    strategy?: string
+    /** Structural merger that failed before falling back to the line merge */
+    fallbackFrom?: string
   }
   timestamp: number
 }
@@ -107,6 +116,8 @@ export interface ConflictDetectorOptions {
   merger?: MergeService
   /** File watch service (optional, creates new) */
   watcher?: FileWatchService
+  /** Persistent version store (optional, uses the workspace's store) */
+  versionStore?: FileVersionStore
   /** Logger instance */
   logger?: Logger
   /** Whether to start file watcher automatically */
@@ -119,6 +130,7 @@ export class ConflictDetector {
   private tracker: FileChangeTracker
   private merger: MergeService
   private watcher: FileWatchService
+  private versions: FileVersionStore
   private log: Logger
 
   // Active conflicts keyed by file path
@@ -133,6 +145,7 @@ export class ConflictDetector {
     this.eventBus = options.eventBus
     this.tracker = options.tracker ?? getFileChangeTracker()
     this.merger = options.merger ?? getMergeService()
+    this.versions = options.versionStore ?? getFileVersionStore(this.workspaceRoot)
     this.log = options.logger ?? createLogger({ component: "conflict-detector" })
 
     // Create or use provided watcher
@@ -157,6 +170,11 @@ export class ConflictDetector {
     if (!this.watcher.running()) {
       this.watcher.start()
       this.log.info({ workspaceRoot: this.workspaceRoot }, "Conflict detector started")
+
+      // Apply retention to history left by earlier runs
+      this.versions.prune().catch((error) => {
+        this.log.warn({ error }, "Failed to prune file history")
+      })
     }
   }
 
@@ -181,6 +199,9 @@ export class ConflictDetector {
     const isBinary = this.merger.isBinary(content, absolutePath).isBinary
 
     this.tracker.registerRead(absolutePath, sessionId, instanceId, content, isBinary)
+    if (!isBinary) {
+      await this.recordVersion(absolutePath, content, sessionId, instanceId)
+    }
 
     // Track expected hash for this session
     this.setSessionExpectedHash(sessionId, absolutePath, hash)
@@ -205,66 +226,50 @@ export class ConflictDetector {
     expectedHash?: string
   ): Promise<{ success: boolean; hash: string; conflict?: FileConflict }> {
     return this.detectionMutex.runExclusive(async () => {
-      const relativePath = path.relative(this.workspaceRoot, absolutePath)
       const newHash = this.tracker.computeHash(content)
-      const isBinary = this.merger.isBinary(content, absolutePath).isBinary
-
-      // Check for concurrent changes
-      const tracked = this.tracker.getTrackedFile(absolutePath)
-      const sessionExpected = this.getSessionExpectedHash(sessionId, absolutePath)
-      const checkHash = expectedHash ?? sessionExpected
-
-      if (tracked && checkHash && tracked.currentHash !== checkHash) {
-        // Conflict detected
-        this.log.info(
-          {
-            path: relativePath,
-            sessionId,
-            expectedHash: checkHash,
-            currentHash: tracked.currentHash,
-          },
-          "Conflict detected during write"
-        )
-
-        const conflict = await this.createConflict(
-          absolutePath,
-          sessionId,
-          instanceId,
-          content,
-          newHash,
-          tracked,
-          "concurrent-write"
-        )
-
+      const conflict = await this.detectWriteConflict(absolutePath, sessionId, instanceId, content, newHash, expectedHash)
+      if (conflict) {
         return { success: false, hash: newHash, conflict }
       }
 
-      // No conflict, register the write
-      this.tracker.registerWrite(absolutePath, sessionId, instanceId, content, newHash, isBinary)
-      this.setSessionExpectedHash(sessionId, absolutePath, newHash)
-
-      // Notify other sessions about the change
-      const affectedSessions = this.tracker.getAffectedSessions(absolutePath)
-        .filter((s) => s !== sessionId)
-
-      if (affectedSessions.length > 0) {
-        const event: FileChangedEventData = {
-          type: "file.changed",
-          filePath: relativePath,
-          absolutePath,
-          changeType: "change",
-          sessionId,
-          instanceId,
-          hash: newHash,
-          previousHash: tracked?.currentHash,
-          timestamp: Date.now(),
-          affectedSessions,
-        }
+      await this.applyWrite(absolutePath, sessionId, instanceId, content, newHash)
+      return { success: true, hash: newHash }
+    })
+  }
 
-        this.publishEvent(event)
-      }
+  /**
+   * Check a write for conflicts without registering it, for writers that
+   * register with `recordWrite` once the content is on disk
+   */
+  async checkWrite(
+    absolutePath: string,
+    sessionId: string,
+    instanceId: string,
+    content: string,
+    expectedHash?: string
+  ): Promise<{ success: boolean; hash: string; conflict?: FileConflict }> {
+    return this.detectionMutex.runExclusive(async () => {
+      const newHash = this.tracker.computeHash(content)
+      const conflict = await this.detectWriteConflict(absolutePath, sessionId, instanceId, content, newHash, expectedHash)
+      return conflict ? { success: false, hash: newHash, conflict } : { success: true, hash: newHash }
+    })
+  }
 
-      return { success: true, hash: newHash }
+  /**
+   * Register a write that already hit the disk. `previousContent` is the
+   * content it replaced, kept in the version history.
+   */
+  async recordWrite(
+    absolutePath: string,
+    sessionId: string,
+    instanceId: string,
+    content: string,
+    previousContent: string | null
+  ): Promise<string> {
+    return this.detectionMutex.runExclusive(async () => {
+      const newHash = this.tracker.computeHash(content)
+      await this.applyWrite(absolutePath, sessionId, instanceId, content, newHash, previousContent)
+      return newHash
     })
   }
 
@@ -338,6 +343,10 @@ export class ConflictDetector {
         "External file change detected"
       )
 
+      if (!this.merger.isBinary(currentContent, absolutePath).isBinary) {
+        await this.recordVersion(absolutePath, currentContent, "external", "external")
+      }
+
       // Check each session for conflicts
       const affectedSessions = Array.from(tracked.readers)
       const conflictingSessions: SessionInfo[] = []
@@ -464,6 +473,8 @@ export class ConflictDetector {
         canAutoMerge: mergeResult.success,
         mergedContent: mergeResult.success ? mergeResult.merged ?? undefined : undefined,
         conflicts: mergeResult.conflicts,
+        strategy: mergeResult.stats.strategy,
+        fallbackFrom: mergeResult.stats.fallbackFrom,
       },
       timestamp: Date.now(),
       isBinary,
@@ -547,6 +558,8 @@ export class ConflictDetector {
         canAutoMerge: mergeResult.success,
         mergedContent: mergeResult.success ? mergeResult.merged ?? undefined : undefined,
         conflicts: mergeResult.conflicts,
+        strategy: mergeResult.stats.strategy,
+        fallbackFrom: mergeResult.stats.fallbackFrom,
       },
       timestamp: Date.now(),
       isBinary,
@@ -659,6 +672,10 @@ export class ConflictDetector {
       conflict.isBinary
     )
 
+    if (!conflict.isBinary) {
+      await this.recordVersion(conflict.absolutePath, resolvedContent, resolvedBy, "resolution")
+    }
+
     // Update expected hashes for all involved sessions
     for (const session of conflict.involvedSessions) {
       if (session.sessionId !== "external") {
@@ -749,6 +766,13 @@ export class ConflictDetector {
     return this.merger
   }
 
+  /**
+   * Get the persistent version store
+   */
+  getVersionStore(): FileVersionStore {
+    return this.versions
+  }
+
   /**
    * Get the file watcher
    */
@@ -756,6 +780,90 @@ export class ConflictDetector {
     return this.watcher
   }
 
+  /**
+   * Create a conflict when the file changed since the session last saw it
+   */
+  private async detectWriteConflict(
+    absolutePath: string,
+    sessionId: string,
+    instanceId: string,
+    content: string,
+    newHash: string,
+    expectedHash?: string
+  ): Promise<FileConflict | undefined> {
+    const tracked = this.tracker.getTrackedFile(absolutePath)
+    const sessionExpected = this.getSessionExpectedHash(sessionId, absolutePath)
+    const checkHash = expectedHash ?? sessionExpected
+
+    if (!tracked || !checkHash || tracked.currentHash === checkHash) {
+      return undefined
+    }
+
+    this.log.info(
+      {
+        path: path.relative(this.workspaceRoot, absolutePath),
+        sessionId,
+        expectedHash: checkHash,
+        currentHash: tracked.currentHash,
+      },
+      "Conflict detected during write"
+    )
+
+    return this.createConflict(absolutePath, sessionId, instanceId, content, newHash, tracked, "concurrent-write")
+  }
+
+  /**
+   * Track a write, record it in the version history and notify other
+   * sessions. Without `previousContent` the replaced content is read from
+   * disk, unless the write already hit it.
+   */
+  private async applyWrite(
+    absolutePath: string,
+    sessionId: string,
+    instanceId: string,
+    content: string,
+    newHash: string,
+    previousContent?: string | null
+  ): Promise<void> {
+    const relativePath = path.relative(this.workspaceRoot, absolutePath)
+    const isBinary = this.merger.isBinary(content, absolutePath).isBinary
+    const tracked = this.tracker.getTrackedFile(absolutePath)
+    const previousHash = tracked?.currentHash
+
+    this.tracker.registerWrite(absolutePath, sessionId, instanceId, content, newHash, isBinary)
+    this.setSessionExpectedHash(sessionId, absolutePath, newHash)
+
+    if (!isBinary) {
+      const previous =
+        previousContent === undefined ? await this.readFileContent(absolutePath).catch(() => null) : previousContent
+      if (previous !== null && this.tracker.computeHash(previous) !== newHash) {
+        await this.recordVersion(absolutePath, previous, "external", "external")
+      }
+      await this.recordVersion(absolutePath, content, sessionId, instanceId)
+    }
+
+    // Notify other sessions about the change
+    const affectedSessions = this.tracker.getAffectedSessions(absolutePath)
+      .filter((s) => s !== sessionId)
+
+    if (affectedSessions.length > 0) {
+      const event: FileChangedEventData = {
+        type: "file.changed",
+        filePath: relativePath,
+        absolutePath,
+        changeType: "change",
+        sessionId,
+        instanceId,
+        hash: newHash,
+        previousHash,
+        timestamp: Date.now(),
+        affectedSessions,
+      }
+
+      this.publishEvent(event)
+    }
+  }
+
   /**
    * Read file content
    */
@@ -763,6 +871,22 @@ export class ConflictDetector {
     return fs.promises.readFile(absolutePath, "utf8")
   }
 
+  /**
+   * Persist a file version; history is best effort and never fails the caller
+   */
+  private async recordVersion(
+    absolutePath: string,
+    content: string,
+    sessionId: string,
+    instanceId: string
+  ): Promise<void> {
+    try {
+      await this.versions.record(absolutePath, content, sessionId, instanceId)
+    } catch (error) {
+      this.log.warn({ path: absolutePath, error }, "Failed to record file version")
+    }
+  }
+
   /**
    * Set expected hash for a session
    */
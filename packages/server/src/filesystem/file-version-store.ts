@@ -0,0 +1,336 @@
+/**
+ * File Version Store
+ *
+ * Persists file versions per workspace so history survives restarts and
+ * isn't bound by the in-memory tracker's limits. Layout under
+ * `<workspace>/.era/history`:
+ * - objects/<aa>/<rest-of-hash>: gzipped content, addressed by content hash
+ * - manifests/<path-hash>.json: version list for one file
+ *
+ * Retention is applied per file on every record; objects no longer
+ * referenced by any manifest or a retained-objects source (such as session
+ * checkpoints) are removed by prune().
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import * as zlib from "zlib"
+import { createHash } from "crypto"
+import { Mutex } from "async-mutex"
+import { createLogger, Logger } from "../logger.js"
+import type { FileHistoryVersion } from "../api-types.js"
+
+export interface FileVersionRetention {
+  /** Versions kept per file (oldest are dropped first) */
+  maxVersions: number
+  /** Versions older than this are dropped; 0 keeps them forever */
+  maxAgeDays: number
+}
+
+export interface FileVersionStoreOptions {
+  /** Workspace root path */
+  workspaceRoot: string
+  /** Retention settings, read on every record so preference changes apply */
+  retention?: () => FileVersionRetention
+  /** Files larger than this (in bytes) are not versioned */
+  maxFileSize?: number
+  /** Logger instance */
+  logger?: Logger
+}
+
+interface FileManifest {
+  path: string
+  versions: FileHistoryVersion[]
+}
+
+export const HISTORY_DIR = path.join(".era", "history")
+
+const DEFAULT_RETENTION: FileVersionRetention = { maxVersions: 50, maxAgeDays: 30 }
+const DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024 // 5MB
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class FileVersionStore {
+  private workspaceRoot: string
+  private historyDir: string
+  private retention: () => FileVersionRetention
+  private maxFileSize: number
+  private log: Logger
+  // Serializes manifest updates and pruning
+  private mutex: Mutex = new Mutex()
+
+  constructor(options: FileVersionStoreOptions) {
+    this.workspaceRoot = path.resolve(options.workspaceRoot)
+    this.historyDir = path.join(this.workspaceRoot, HISTORY_DIR)
+    this.retention = options.retention ?? (() => DEFAULT_RETENTION)
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE
+    this.log = options.logger ?? createLogger({ component: "file-version-store" })
+  }
+
+  /**
+   * Compute the content hash (same scheme as the file change tracker)
+   */
+  computeHash(content: string): string {
+    return createHash("sha256").update(content, "utf8").digest("hex").slice(0, 16)
+  }
+
+  /**
+   * Record a version of a file. Consecutive duplicates are skipped.
+   * Returns the stored version, or null when the file isn't versioned.
+   */
+  async record(
+    absolutePath: string,
+    content: string,
+    sessionId: string,
+    instanceId: string
+  ): Promise<FileHistoryVersion | null> {
+    const relativePath = this.toRelative(absolutePath)
+    const size = Buffer.byteLength(content, "utf8")
+    if (!relativePath || size > this.maxFileSize) {
+      return null
+    }
+
+    return this.mutex.runExclusive(async () => {
+      const hash = this.computeHash(content)
+      const manifest = (await this.readManifest(relativePath)) ?? { path: relativePath, versions: [] }
+      const latest = manifest.versions[manifest.versions.length - 1]
+      if (latest?.hash === hash) {
+        return latest
+      }
+
+      await this.writeObject(hash, content)
+
+      const version: FileHistoryVersion = {
+        hash,
+        timestamp: Date.now(),
+        sessionId,
+        instanceId,
+        size,
+        hasContent: true,
+      }
+      manifest.versions = applyRetention([...manifest.versions, version], this.retention(), version.timestamp)
+      await this.writeManifest(manifest)
+
+      this.log.debug({ path: relativePath, hash, sessionId }, "Recorded file version")
+      return version
+    })
+  }
+
+  /**
+   * Store content without adding it to any file's history. Callers keep the
+   * object alive through retainFileVersionObjects(). Returns the hash, or
+   * null when the content is too large.
+   */
+  async storeContent(content: string): Promise<string | null> {
+    if (Buffer.byteLength(content, "utf8") > this.maxFileSize) {
+      return null
+    }
+    return this.mutex.runExclusive(async () => {
+      const hash = this.computeHash(content)
+      await this.writeObject(hash, content)
+      return hash
+    })
+  }
+
+  /**
+   * Version history for a file, oldest first
+   */
+  async getHistory(absolutePath: string): Promise<FileHistoryVersion[]> {
+    const relativePath = this.toRelative(absolutePath)
+    if (!relativePath) {
+      return []
+    }
+    const manifest = await this.readManifest(relativePath)
+    return manifest?.versions ?? []
+  }
+
+  /**
+   * Find a version of a file by hash
+   */
+  async getVersion(absolutePath: string, hash: string): Promise<FileHistoryVersion | null> {
+    const history = await this.getHistory(absolutePath)
+    return history.find((v) => v.hash === hash) ?? null
+  }
+
+  /**
+   * Read stored content by hash, or null if the object is gone
+   */
+  async readContent(hash: string): Promise<string | null> {
+    try {
+      const data = await fs.promises.readFile(this.objectPath(hash))
+      return zlib.gunzipSync(data).toString("utf8")
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Apply retention to every manifest and delete unreferenced objects.
+   * Returns the number of objects removed.
+   */
+  async prune(): Promise<number> {
+    return this.mutex.runExclusive(async () => {
+      const manifestsDir = path.join(this.historyDir, "manifests")
+      const objectsDir = path.join(this.historyDir, "objects")
+      const referenced = new Set<string>()
+      const now = Date.now()
+
+      for (const name of await listDir(manifestsDir)) {
+        const manifest = await readJson<FileManifest>(path.join(manifestsDir, name))
+        if (!manifest) continue
+
+        const versions = applyRetention(manifest.versions, this.retention(), now)
+        if (versions.length === 0) {
+          await fs.promises.rm(path.join(manifestsDir, name), { force: true })
+          continue
+        }
+        if (versions.length !== manifest.versions.length) {
+          await this.writeManifest({ ...manifest, versions })
+        }
+        versions.forEach((v) => referenced.add(v.hash))
+      }
+      for (const source of retainedObjectSources) {
+        for (const hash of await source(this.workspaceRoot)) {
+          referenced.add(hash)
+        }
+      }
+
+      let removed = 0
+      for (const prefix of await listDir(objectsDir)) {
+        for (const rest of await listDir(path.join(objectsDir, prefix))) {
+          if (!referenced.has(prefix + rest)) {
+            await fs.promises.rm(path.join(objectsDir, prefix, rest), { force: true })
+            removed++
+          }
+        }
+      }
+
+      if (removed > 0) {
+        this.log.debug({ removed }, "Pruned file history objects")
+      }
+      return removed
+    })
+  }
+
+  /**
+   * Relative POSIX path for files inside the workspace (history itself excluded)
+   */
+  private toRelative(absolutePath: string): string | null {
+    const relativePath = path.relative(this.workspaceRoot, path.resolve(absolutePath))
+    if (!relativePath || relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+      return null
+    }
+    if (relativePath === HISTORY_DIR || relativePath.startsWith(HISTORY_DIR + path.sep)) {
+      return null
+    }
+    return relativePath.split(path.sep).join("/")
+  }
+
+  private objectPath(hash: string): string {
+    return path.join(this.historyDir, "objects", hash.slice(0, 2), hash.slice(2))
+  }
+
+  private manifestPath(relativePath: string): string {
+    const key = createHash("sha256").update(relativePath, "utf8").digest("hex").slice(0, 32)
+    return path.join(this.historyDir, "manifests", `${key}.json`)
+  }
+
+  private async writeObject(hash: string, content: string): Promise<void> {
+    const objectPath = this.objectPath(hash)
+    if (fs.existsSync(objectPath)) {
+      return
+    }
+    await fs.promises.mkdir(path.dirname(objectPath), { recursive: true })
+    await writeAtomic(objectPath, zlib.gzipSync(content))
+  }
+
+  private readManifest(relativePath: string): Promise<FileManifest | null> {
+    return readJson<FileManifest>(this.manifestPath(relativePath))
+  }
+
+  private async writeManifest(manifest: FileManifest): Promise<void> {
+    const manifestPath = this.manifestPath(manifest.path)
+    await fs.promises.mkdir(path.dirname(manifestPath), { recursive: true })
+    await writeAtomic(manifestPath, JSON.stringify(manifest))
+  }
+}
+
+/**
+ * Drop versions past the age limit, then the oldest beyond the count limit.
+ * The newest version is always kept.
+ */
+export function applyRetention(
+  versions: FileHistoryVersion[],
+  retention: FileVersionRetention,
+  now: number
+): FileHistoryVersion[] {
+  if (versions.length === 0) {
+    return versions
+  }
+  const newest = versions[versions.length - 1]
+  let kept = versions
+  if (retention.maxAgeDays > 0) {
+    const cutoff = now - retention.maxAgeDays * DAY_MS
+    kept = kept.filter((v) => v === newest || v.timestamp >= cutoff)
+  }
+  const maxVersions = Math.max(1, retention.maxVersions)
+  return kept.length > maxVersions ? kept.slice(kept.length - maxVersions) : kept
+}
+
+async function writeAtomic(filePath: string, data: string | Buffer): Promise<void> {
+  const tmpPath = `${filePath}.${process.pid}.tmp`
+  await fs.promises.writeFile(tmpPath, data)
+  await fs.promises.rename(tmpPath, filePath)
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, "utf8")) as T
+  } catch {
+    return null
+  }
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.promises.readdir(dir)
+  } catch {
+    return []
+  }
+}
+
+// Store instances per workspace, sharing one retention source
+const storeInstances: Map<string, FileVersionStore> = new Map()
+let retentionSource: (() => FileVersionRetention) | undefined
+const retainedObjectSources: Array<(workspaceRoot: string) => Promise<Iterable<string>>> = []
+
+/**
+ * Set where retention settings come from (user preferences)
+ */
+export function setFileVersionRetention(source: () => FileVersionRetention): void {
+  retentionSource = source
+}
+
+/**
+ * Keep objects referenced outside the manifests when pruning. The source
+ * returns the content hashes still needed for a workspace.
+ */
+export function retainFileVersionObjects(source: (workspaceRoot: string) => Promise<Iterable<string>>): () => void {
+  retainedObjectSources.push(source)
+  return () => {
+    const index = retainedObjectSources.indexOf(source)
+    if (index !== -1) retainedObjectSources.splice(index, 1)
+  }
+}
+
+export function getFileVersionStore(workspaceRoot: string): FileVersionStore {
+  const normalizedRoot = path.resolve(workspaceRoot)
+  let store = storeInstances.get(normalizedRoot)
+  if (!store) {
+    store = new FileVersionStore({
+      workspaceRoot: normalizedRoot,
+      retention: () => retentionSource?.() ?? DEFAULT_RETENTION,
+    })
+    storeInstances.set(normalizedRoot, store)
+  }
+  return store
+}
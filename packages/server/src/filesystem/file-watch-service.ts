@@ -48,6 +48,8 @@ const DEFAULT_IGNORED_PATTERNS = [
   "**/node_modules/**",
   "**/.git/**",
   "**/.era/cache/**",
+  "**/.era/history/**",
+  "**/.era/checkpoints/**",
   "**/*.log",
   "**/.DS_Store",
   "**/Thumbs.db",
@@ -91,7 +93,8 @@ export class FileWatchService {
    * Start watching the workspace root
    */
   start(): void {
-    if (this.isRunning) {
+    // The watcher only reports running once chokidar is ready; guard on the instance too
+    if (this.isRunning || this.watcher) {
       this.log.warn({}, "File watch service already running")
       return
     }
@@ -0,0 +1,191 @@
+/**
+ * JSON Merge
+ *
+ * Key-level 3-way merge for JSON and JSONC documents whose top level is an
+ * object. Members are merged by key, recursing into objects both sides
+ * changed, so two sessions adding different dependencies to package.json
+ * merge cleanly. Arrays and other values are compared whole. Comments,
+ * indentation and the layout of "ours" are kept; members only "theirs"
+ * added keep their own formatting.
+ */
+
+import { mergeKeyedEntries, pickText, type MergeEntry, type StructuralMerger } from "./structural-merge.js"
+
+interface JsonObjectLayout {
+  /** Text up to and including the opening brace */
+  open: string
+  members: MergeEntry[]
+  trailingComma: boolean
+  /** Whitespace and comments before the closing brace, the brace and anything after it */
+  close: string
+}
+
+const JSON_FILE_PATTERN = /\.(json|jsonc)$/i
+
+export const jsonMerger: StructuralMerger = {
+  name: "json",
+  matches: (filePath) => JSON_FILE_PATTERN.test(filePath),
+  merge(base, ours, theirs) {
+    const merged = mergeJsonObject(base, ours, theirs)
+    if (merged === null) return null
+    // Plain JSON must stay parseable; JSONC only needs to keep its shape
+    if (isStrictJson(ours) && !isStrictJson(merged)) return null
+    return merged
+  },
+}
+
+function mergeJsonObject(base: string, ours: string, theirs: string): string | null {
+  const baseLayout = parseJsonObject(base)
+  const oursLayout = parseJsonObject(ours)
+  const theirsLayout = parseJsonObject(theirs)
+  if (!baseLayout || !oursLayout || !theirsLayout) return null
+
+  const open = pickText(baseLayout.open, oursLayout.open, theirsLayout.open)
+  const close = pickText(baseLayout.close, oursLayout.close, theirsLayout.close)
+  if (open === null || close === null) return null
+
+  const members = mergeKeyedEntries(baseLayout.members, oursLayout.members, theirsLayout.members, mergeMember)
+  if (!members) return null
+
+  const body = members.map((member) => member.text).join(",")
+  return `${open}${body}${oursLayout.trailingComma && members.length > 0 ? "," : ""}${close}`
+}
+
+/** Both sides changed the same member: merge the values when they are all objects */
+function mergeMember(_key: string, base: string | undefined, ours: string, theirs: string): string | null {
+  if (base === undefined) return null
+  const baseValue = splitMember(base)
+  const oursValue = splitMember(ours)
+  const theirsValue = splitMember(theirs)
+  if (!baseValue || !oursValue || !theirsValue) return null
+
+  const value = mergeJsonObject(baseValue.value, oursValue.value, theirsValue.value)
+  return value === null ? null : `${oursValue.head}${value}`
+}
+
+/** A member's text up to its value, and the value */
+function splitMember(text: string): { head: string; value: string } | null {
+  let index = skipTrivia(text, 0)
+  if (text[index] !== '"') return null
+  index = skipString(text, index)
+  index = skipTrivia(text, index)
+  if (text[index] !== ":") return null
+  index = skipTrivia(text, index + 1)
+  return { head: text.slice(0, index), value: text.slice(index) }
+}
+
+/**
+ * Split a document whose top level is an object into its members. Each
+ * member's text runs from after the preceding comma to the end of its value
+ * (including leading whitespace and comments); trailing whitespace belongs
+ * to the closing part.
+ */
+function parseJsonObject(text: string): JsonObjectLayout | null {
+  const start = skipTrivia(text, 0)
+  if (text[start] !== "{") return null
+
+  const parts: string[] = []
+  let partStart = start + 1
+  let depth = 0
+  let index = start + 1
+  let end = -1
+
+  while (index < text.length) {
+    const char = text[index]
+    if (char === '"') {
+      index = skipString(text, index)
+      continue
+    }
+    if (char === "/" && (text[index + 1] === "/" || text[index + 1] === "*")) {
+      index = skipTrivia(text, index)
+      continue
+    }
+    if (char === "{" || char === "[") {
+      depth++
+    } else if (char === "}" || char === "]") {
+      if (depth === 0) {
+        if (char !== "}") return null
+        end = index
+        break
+      }
+      depth--
+    } else if (char === "," && depth === 0) {
+      parts.push(text.slice(partStart, index))
+      partStart = index + 1
+    }
+    index++
+  }
+
+  if (end === -1 || skipTrivia(text, end + 1) !== text.length) return null
+  parts.push(text.slice(partStart, end))
+
+  // A last part holding only trivia is what follows the final member (or a trailing comma)
+  let trailing = ""
+  let trailingComma = false
+  if (skipTrivia(parts[parts.length - 1], 0) === parts[parts.length - 1].length) {
+    trailing = parts.pop()!
+    trailingComma = parts.length > 0
+  }
+
+  const members: MergeEntry[] = []
+  for (let i = 0; i < parts.length; i++) {
+    let part = parts[i]
+    if (i === parts.length - 1 && !trailingComma) {
+      const trimmed = part.replace(/\s+$/, "")
+      trailing = part.slice(trimmed.length)
+      part = trimmed
+    }
+    const keyStart = skipTrivia(part, 0)
+    if (part[keyStart] !== '"') return null
+    const keyEnd = skipString(part, keyStart)
+    try {
+      members.push({ key: JSON.parse(part.slice(keyStart, keyEnd)) as string, text: part })
+    } catch {
+      return null
+    }
+  }
+
+  return {
+    open: text.slice(0, start + 1),
+    members,
+    trailingComma,
+    close: trailing + text.slice(end),
+  }
+}
+
+/** Index after the string literal starting at `index` */
+function skipString(text: string, index: number): number {
+  let cursor = index + 1
+  while (cursor < text.length && text[cursor] !== '"') {
+    cursor += text[cursor] === "\\" ? 2 : 1
+  }
+  return cursor + 1
+}
+
+/** Index of the first character at or after `index` that isn't whitespace or a comment */
+function skipTrivia(text: string, index: number): number {
+  let cursor = index
+  while (cursor < text.length) {
+    if (/\s/.test(text[cursor])) {
+      cursor++
+    } else if (text.startsWith("//", cursor)) {
+      const newline = text.indexOf("\n", cursor)
+      cursor = newline === -1 ? text.length : newline + 1
+    } else if (text.startsWith("/*", cursor)) {
+      const closing = text.indexOf("*/", cursor + 2)
+      cursor = closing === -1 ? text.length : closing + 2
+    } else {
+      break
+    }
+  }
+  return cursor
+}
+
+function isStrictJson(text: string): boolean {
+  try {
+    JSON.parse(text)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -3,11 +3,17 @@
  *
  * Provides 3-way merge functionality for text files using diff-match-patch.
  * Handles automatic merging when changes don't overlap and generates
- * conflict markers when manual resolution is required.
+ * conflict markers when manual resolution is required. Files with a
+ * structural merger (JSON, YAML, TypeScript) are merged by key first and
+ * only fall back to the line merger when that fails.
  */
 
 import DiffMatchPatch from "diff-match-patch"
 import { isBinaryFile, BinaryDetectionResult } from "./binary-detector.js"
+import { jsonMerger } from "./json-merge.js"
+import type { StructuralMerger } from "./structural-merge.js"
+import { typescriptMerger } from "./typescript-merge.js"
+import { yamlMerger } from "./yaml-merge.js"
 import { createLogger, Logger } from "../logger.js"
 
 export interface MergeRequest {
@@ -52,6 +58,10 @@ export interface MergeResult {
     theirsRemovedLines: number
     autoMergedRegions: number
     conflictingRegions: number
+    /** How the result was produced: a structural merger's name, "line" or "binary" */
+    strategy: string
+    /** Structural merger that was tried first and failed, when falling back to "line" */
+    fallbackFrom?: string
   }
 }
 
@@ -60,6 +70,8 @@ export interface MergeServiceOptions {
   markerStyle?: "git" | "diff3"
   /** Logger instance */
   logger?: Logger
+  /** Structural mergers tried before the line merger (default: JSON, YAML, TypeScript) */
+  mergers?: StructuralMerger[]
 }
 
 // Diff constants from diff-match-patch
@@ -71,6 +83,7 @@ export class MergeService {
   private dmp: DiffMatchPatch
   private markerStyle: "git" | "diff3"
   private log: Logger
+  private mergers: StructuralMerger[]
 
   constructor(options: MergeServiceOptions = {}) {
     this.dmp = new DiffMatchPatch()
@@ -80,6 +93,14 @@ export class MergeService {
     this.dmp.Diff_EditCost = 4
     this.markerStyle = options.markerStyle ?? "git"
     this.log = options.logger ?? createLogger({ component: "merge-service" })
+    this.mergers = options.mergers ?? [jsonMerger, yamlMerger, typescriptMerger]
+  }
+
+  /**
+   * Register a structural merger; it takes precedence over the built-in ones
+   */
+  registerMerger(merger: StructuralMerger): void {
+    this.mergers.unshift(merger)
   }
 
   /**
@@ -118,6 +139,7 @@ export class MergeService {
           theirsRemovedLines: 0,
           autoMergedRegions: 0,
           conflictingRegions: 1,
+          strategy: "binary",
         },
       }
     }
@@ -155,8 +177,44 @@ export class MergeService {
       }
     }
 
+    const merger = this.mergers.find((candidate) => candidate.matches(filePath))
+    if (merger) {
+      const merged = this.tryStructuralMerge(merger, base, ours, theirs, filePath)
+      if (merged !== null) {
+        this.log.debug({ filePath, strategy: merger.name }, "Clean structural merge achieved")
+        return {
+          success: true,
+          merged,
+          hasConflicts: false,
+          conflicts: [],
+          stats: this.computeStats(base, ours, theirs, 0, merger.name),
+        }
+      }
+      this.log.debug({ filePath, strategy: merger.name }, "Structural merge not possible, falling back to line merge")
+    }
+
     // Perform line-by-line 3-way merge
-    return this.performLineMerge(base, ours, theirs, filePath)
+    const result = this.performLineMerge(base, ours, theirs, filePath)
+    if (merger) result.stats.fallbackFrom = merger.name
+    return result
+  }
+
+  /**
+   * Run a structural merger, treating a thrown error like a failed merge
+   */
+  private tryStructuralMerge(
+    merger: StructuralMerger,
+    base: string,
+    ours: string,
+    theirs: string,
+    filePath: string
+  ): string | null {
+    try {
+      return merger.merge(base, ours, theirs)
+    } catch (error) {
+      this.log.warn({ filePath, strategy: merger.name, error }, "Structural merger failed")
+      return null
+    }
   }
 
   /**
@@ -456,7 +514,8 @@ export class MergeService {
     base: string,
     ours: string,
     theirs: string,
-    conflictCount: number
+    conflictCount: number,
+    strategy = "line"
   ): MergeResult["stats"] {
     const baseLines = base.split("\n").length
     const ourDiffs = this.dmp.diff_main(base, ours)
@@ -487,6 +546,7 @@ export class MergeService {
       theirsRemovedLines,
       autoMergedRegions: Math.max(0, (oursAddedLines + theirsAddedLines) - conflictCount),
       conflictingRegions: conflictCount,
+      strategy,
     }
   }
 
@@ -0,0 +1,128 @@
+/**
+ * Structural Merge
+ *
+ * Building blocks for syntax-aware 3-way mergers. A structural merger splits
+ * each version of a file into keyed entries (object keys, mapping keys,
+ * imports, top-level declarations), merges them key by key and lays the
+ * result out like "ours". When both sides changed the same entry in ways
+ * that can't be reconciled, the merger gives up and the merge service falls
+ * back to the line merger, which produces conflict markers.
+ */
+
+export interface StructuralMerger {
+  /** Reported as the merge strategy, e.g. "json" */
+  name: string
+  /** Whether the merger handles this file */
+  matches(filePath: string): boolean
+  /** Merged content, or null when the versions can't be merged structurally */
+  merge(base: string, ours: string, theirs: string): string | null
+}
+
+export interface MergeEntry {
+  key: string
+  text: string
+}
+
+/** Merges one entry both sides changed; null when they can't be reconciled */
+export type EntryMerger = (key: string, base: string | undefined, ours: string, theirs: string) => string | null
+
+/** Marks an entry both sides changed in incompatible ways */
+const CONFLICT = Symbol("conflict")
+
+/**
+ * Three-way pick between whole versions: the side that changed wins, and a
+ * change both sides made identically is kept. Returns CONFLICT when both
+ * sides changed differently.
+ */
+function pick<T>(base: T, ours: T, theirs: T): T | typeof CONFLICT {
+  if (ours === theirs) return ours
+  if (ours === base) return theirs
+  if (theirs === base) return ours
+  return CONFLICT
+}
+
+/** Three-way pick of text outside the keyed entries; null when both sides changed it */
+export function pickText(base: string, ours: string, theirs: string): string | null {
+  const picked = pick(base, ours, theirs)
+  return picked === CONFLICT ? null : picked
+}
+
+/**
+ * Three-way merge of keyed entries. The result follows ours' order; entries
+ * only theirs added go after the entry that precedes them in theirs (and
+ * after anything ours added at the same place). An entry
+ * deleted on one side and changed on the other is a conflict, as is one
+ * changed differently on both sides that `mergeEntry` can't reconcile.
+ * Returns null on conflicts and when a version repeats a key.
+ */
+export function mergeKeyedEntries(
+  base: MergeEntry[],
+  ours: MergeEntry[],
+  theirs: MergeEntry[],
+  mergeEntry?: EntryMerger
+): MergeEntry[] | null {
+  const baseMap = toEntryMap(base)
+  const oursMap = toEntryMap(ours)
+  const theirsMap = toEntryMap(theirs)
+  if (!baseMap || !oursMap || !theirsMap) return null
+
+  const resolve = (key: string): string | undefined | typeof CONFLICT => {
+    const baseText = baseMap.get(key)
+    const oursText = oursMap.get(key)
+    const theirsText = theirsMap.get(key)
+    const picked = pick(baseText, oursText, theirsText)
+    if (picked !== CONFLICT) return picked
+    if (oursText === undefined || theirsText === undefined || !mergeEntry) return CONFLICT
+    return mergeEntry(key, baseText, oursText, theirsText) ?? CONFLICT
+  }
+
+  const isOursAddition = (key: string) => !baseMap.has(key) && !theirsMap.has(key)
+
+  const merged: MergeEntry[] = []
+  for (const entry of ours) {
+    const text = resolve(entry.key)
+    if (text === CONFLICT) return null
+    if (text !== undefined) merged.push({ key: entry.key, text })
+  }
+
+  let previousKey: string | null = null
+  for (const entry of theirs) {
+    if (!oursMap.has(entry.key)) {
+      const text = resolve(entry.key)
+      if (text === CONFLICT) return null
+      if (text !== undefined) {
+        let index = previousKey === null ? -1 : merged.findIndex((candidate) => candidate.key === previousKey)
+        // Entries ours added at the same place come first
+        while (index + 1 < merged.length && isOursAddition(merged[index + 1].key)) index++
+        merged.splice(index + 1, 0, { key: entry.key, text })
+      }
+    }
+    if (merged.some((candidate) => candidate.key === entry.key)) {
+      previousKey = entry.key
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Gives repeated keys an occurrence suffix, for formats where a key may
+ * legitimately appear more than once (e.g. function overloads).
+ */
+export function numberRepeatedKeys(entries: MergeEntry[]): MergeEntry[] {
+  const seen = new Map<string, number>()
+  return entries.map((entry) => {
+    const count = (seen.get(entry.key) ?? 0) + 1
+    seen.set(entry.key, count)
+    return count === 1 ? entry : { key: `${entry.key}#${count}`, text: entry.text }
+  })
+}
+
+function toEntryMap(entries: MergeEntry[]): Map<string, string> | null {
+  const map = new Map<string, string>()
+  for (const entry of entries) {
+    if (map.has(entry.key)) return null
+    map.set(entry.key, entry.text)
+  }
+  return map
+}
@@ -0,0 +1,319 @@
+/**
+ * TypeScript Merge
+ *
+ * Statement-level 3-way merge for TypeScript and JavaScript modules. The
+ * file is split into top-level statements, each with the comments and blank
+ * lines above it, and keyed by what it declares: imports by module,
+ * declarations by name. Imports of the same module that both sides changed
+ * merge their named specifiers, so two sessions adding different imports
+ * merge cleanly; any other statement both sides changed is left to the line
+ * merger, as are files where both sides changed statements that declare
+ * nothing. Files the scanner can't follow (unbalanced brackets, unusual
+ * syntax) are left to the line merger as well, and so are JSX files, whose
+ * text content the scanner doesn't understand.
+ */
+
+import {
+  mergeKeyedEntries,
+  numberRepeatedKeys,
+  pickText,
+  type MergeEntry,
+  type StructuralMerger,
+} from "./structural-merge.js"
+
+interface ModuleLayout {
+  statements: MergeEntry[]
+  /** Comments and blank lines after the last statement */
+  suffix: string
+}
+
+interface NamedImport {
+  /** `import type` */
+  typeOnly: boolean
+  defaultName: string | null
+  names: string[]
+  quote: string
+  module: string
+}
+
+const TYPESCRIPT_FILE_PATTERN = /\.(ts|mts|cts|js|mjs|cjs)$/i
+const UNKEYED_PREFIX = "statement:"
+const IMPORT_PATTERN = /^import\s+(type\s+)?(?:[\s\S]*?\s+from\s*)?(['"])([^'"]+)\2/
+const EXPORT_FROM_PATTERN = /^export\s+(type\s+)?(?:\*|\{[\s\S]*?\})(?:\s+as\s+[\w$]+)?\s+from\s*(['"])([^'"]+)\2/
+const NAMED_IMPORT_PATTERN =
+  /^import\s+(type\s+)?(?:([\w$]+)\s*,\s*)?\{([^}]*)\}\s*from\s*(['"])([^'"]+)\4\s*(;?)\s*$/
+const DECLARATION_PATTERN =
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\s*\*?|class|interface|type|enum|namespace|module|const\s+enum|const|let|var)\s+([\w$]+)/
+const CONTINUATION_PATTERN = /^(?:[.?:,)\]}&|+\-*%=<>]|else\b|catch\b|finally\b|while\b|as\b|satisfies\b|extends\b|implements\b)/
+const REGEX_PRECEDING_CHARS = "(,=:[!&|?{};+-*%<>~^"
+const REGEX_PRECEDING_WORDS = new Set(["return", "typeof", "case", "do", "else", "in", "of", "new", "delete", "void", "throw", "yield", "await"])
+
+export const typescriptMerger: StructuralMerger = {
+  name: "typescript",
+  matches: (filePath) => TYPESCRIPT_FILE_PATTERN.test(filePath),
+  merge(base, ours, theirs) {
+    const baseLayout = parseModule(base)
+    const oursLayout = parseModule(ours)
+    const theirsLayout = parseModule(theirs)
+    if (!baseLayout || !oursLayout || !theirsLayout) return null
+
+    // Statements that declare nothing are keyed by their text, so an edit
+    // looks like a removal and an addition; only one side may change them
+    const unkeyed = (layout: ModuleLayout) =>
+      layout.statements
+        .filter((statement) => statement.key.startsWith(UNKEYED_PREFIX))
+        .map((statement) => statement.key)
+        .join("\n")
+    if (unkeyed(oursLayout) !== unkeyed(baseLayout) && unkeyed(theirsLayout) !== unkeyed(baseLayout)) return null
+
+    const suffix = pickText(baseLayout.suffix, oursLayout.suffix, theirsLayout.suffix)
+    if (suffix === null) return null
+
+    const statements = mergeKeyedEntries(
+      baseLayout.statements,
+      oursLayout.statements,
+      theirsLayout.statements,
+      mergeStatement
+    )
+    if (!statements) return null
+
+    const merged = [...statements.map((statement) => statement.text), ...(suffix ? [suffix] : [])].join("\n")
+    const result = merged + (ours.endsWith("\n") ? "\n" : "")
+    return parseModule(result) ? result : null
+  },
+}
+
+/** Both sides changed the same statement: only imports of one module are merged */
+function mergeStatement(key: string, base: string | undefined, ours: string, theirs: string): string | null {
+  if (!key.startsWith("import:") || base === undefined) return null
+
+  const [baseTrivia, baseImport] = splitTrivia(base)
+  const [oursTrivia, oursImport] = splitTrivia(ours)
+  const [theirsTrivia, theirsImport] = splitTrivia(theirs)
+  const trivia = pickText(baseTrivia, oursTrivia, theirsTrivia)
+  const baseNamed = parseNamedImport(baseImport)
+  const oursNamed = parseNamedImport(oursImport)
+  const theirsNamed = parseNamedImport(theirsImport)
+  if (trivia === null || !baseNamed || !oursNamed || !theirsNamed) return null
+
+  const defaultName = pickText(baseNamed.defaultName ?? "", oursNamed.defaultName ?? "", theirsNamed.defaultName ?? "")
+  if (defaultName === null) return null
+
+  const removedByTheirs = new Set(baseNamed.names.filter((name) => !theirsNamed.names.includes(name)))
+  const names = oursNamed.names.filter((name) => !removedByTheirs.has(name))
+  for (const name of theirsNamed.names) {
+    if (!baseNamed.names.includes(name) && !names.includes(name)) names.push(name)
+  }
+
+  const multiline = /\{\s*\n/.test(oursImport)
+  const indent = multiline ? (/\{\s*\n([ \t]*)/.exec(oursImport)?.[1] ?? "  ") : ""
+  const specifiers = multiline
+    ? `{\n${names.map((name) => `${indent}${name},`).join("\n")}\n}`
+    : `{ ${names.join(", ")} }`
+  const semicolon = /;\s*$/.test(oursImport) ? ";" : ""
+  const head = `import ${oursNamed.typeOnly ? "type " : ""}${defaultName ? `${defaultName}, ` : ""}`
+  return `${trivia}${head}${specifiers} from ${oursNamed.quote}${oursNamed.module}${oursNamed.quote}${semicolon}`
+}
+
+/**
+ * Split a module into its top-level statements. A statement starts on a
+ * line at bracket depth zero that doesn't continue the previous one, and
+ * takes the comments and blank lines above it.
+ */
+function parseModule(text: string): ModuleLayout | null {
+  const starts = topLevelLineStarts(text)
+  if (!starts) return null
+
+  const lines = (text.endsWith("\n") ? text.slice(0, -1) : text).split("\n")
+  const statements: MergeEntry[] = []
+  let pending: string[] = []
+  let current: string[] | null = null
+
+  const flush = () => {
+    if (current) statements.push({ key: statementKey(current.join("\n")), text: current.join("\n") })
+    current = null
+  }
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim()
+    const isTrivia = trimmed === "" || trimmed.startsWith("//") || trimmed.startsWith("/*") || trimmed.startsWith("*")
+    const startsStatement = starts.has(index) && !isTrivia && !/^\s/.test(line) && !CONTINUATION_PATTERN.test(trimmed)
+
+    if (startsStatement) {
+      flush()
+      current = [...pending, line]
+      pending = []
+    } else if (isTrivia) {
+      // Held back so comments and blank lines go with the statement below them
+      pending.push(line)
+    } else if (current) {
+      current.push(...pending, line)
+      pending = []
+    } else {
+      pending.push(line)
+    }
+  })
+  flush()
+
+  if (statements.length === 0) return null
+  return { statements: numberRepeatedKeys(statements), suffix: pending.join("\n") }
+}
+
+/** Key of a statement from what it imports or declares, ignoring the comments above it */
+function statementKey(text: string): string {
+  const [, statement] = splitTrivia(text)
+  const code = statement.replace(/^(?:@[\w$.]+(?:\([^)]*\))?\s*)+/, "")
+
+  const importMatch = IMPORT_PATTERN.exec(code)
+  if (importMatch) return `import:${importMatch[1] ? "type:" : ""}${importMatch[3]}`
+  const exportMatch = EXPORT_FROM_PATTERN.exec(code)
+  if (exportMatch) return `export-from:${exportMatch[1] ? "type:" : ""}${exportMatch[3]}`
+  const declaration = DECLARATION_PATTERN.exec(code)
+  if (declaration) return `declaration:${declaration[2]}`
+  if (/^export\s+default\b/.test(code)) return "export-default"
+  return `${UNKEYED_PREFIX}${code.trim()}`
+}
+
+/** The comment and blank lines above a statement, and the statement */
+function splitTrivia(text: string): [string, string] {
+  const lines = text.split("\n")
+  let index = 0
+  let inBlockComment = false
+  while (index < lines.length) {
+    const trimmed = lines[index].trim()
+    if (inBlockComment) {
+      if (trimmed.includes("*/")) inBlockComment = false
+    } else if (trimmed.startsWith("/*")) {
+      inBlockComment = !trimmed.includes("*/", 2)
+    } else if (trimmed !== "" && !trimmed.startsWith("//")) {
+      break
+    }
+    index++
+  }
+  const trivia = lines.slice(0, index).map((line) => `${line}\n`).join("")
+  return [trivia, lines.slice(index).join("\n")]
+}
+
+function parseNamedImport(statement: string): NamedImport | null {
+  const match = NAMED_IMPORT_PATTERN.exec(statement.trim())
+  if (!match) return null
+  const names = match[3]
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+  return { typeOnly: Boolean(match[1]), defaultName: match[2] ?? null, names, quote: match[4], module: match[5] }
+}
+
+/**
+ * Indexes of the lines that begin outside any bracket, string, template or
+ * comment. Returns null when the text doesn't scan cleanly.
+ */
+function topLevelLineStarts(text: string): Set<number> | null {
+  const starts = new Set<number>([0])
+  // Open brackets; "${" marks a template substitution
+  const stack: string[] = []
+  let line = 0
+  let previous = ""
+  let index = 0
+
+  const lineBreak = () => {
+    line++
+    if (stack.length === 0) starts.add(line)
+  }
+
+  while (index < text.length) {
+    const char = text[index]
+    const next = text[index + 1]
+
+    if (char === "\n") {
+      lineBreak()
+      index++
+      continue
+    }
+    if (/\s/.test(char)) {
+      index++
+      continue
+    }
+    if (char === "/" && next === "/") {
+      const end = text.indexOf("\n", index)
+      index = end === -1 ? text.length : end
+      continue
+    }
+    if (char === "/" && next === "*") {
+      const end = text.indexOf("*/", index + 2)
+      if (end === -1) return null
+      for (let i = index; i < end; i++) if (text[i] === "\n") line++
+      index = end + 2
+      continue
+    }
+    if (char === '"' || char === "'") {
+      let cursor = index + 1
+      while (cursor < text.length && text[cursor] !== char) {
+        if (text[cursor] === "\n") return null
+        cursor += text[cursor] === "\\" ? 2 : 1
+      }
+      if (cursor >= text.length) return null
+      index = cursor + 1
+      previous = char
+      continue
+    }
+    if (char === "`" || (char === "}" && stack[stack.length - 1] === "${")) {
+      if (char === "}") stack.pop()
+      // Template text up to the closing backtick or the next substitution
+      let cursor = index + 1
+      while (cursor < text.length && text[cursor] !== "`" && !text.startsWith("${", cursor)) {
+        if (text[cursor] === "\n") line++
+        cursor += text[cursor] === "\\" ? 2 : 1
+      }
+      if (cursor >= text.length) return null
+      if (text[cursor] === "`") {
+        index = cursor + 1
+        previous = "`"
+      } else {
+        stack.push("${")
+        index = cursor + 2
+        previous = "{"
+      }
+      continue
+    }
+    if (char === "/" && isRegexStart(previous, text, index)) {
+      let cursor = index + 1
+      let inClass = false
+      while (cursor < text.length && (inClass || text[cursor] !== "/")) {
+        if (text[cursor] === "\n") return null
+        if (text[cursor] === "\\") cursor++
+        else if (text[cursor] === "[") inClass = true
+        else if (text[cursor] === "]") inClass = false
+        cursor++
+      }
+      if (cursor >= text.length) return null
+      index = cursor + 1
+      previous = "/"
+      continue
+    }
+    if (char === "(" || char === "[" || char === "{") {
+      stack.push(char)
+    } else if (char === ")" || char === "]" || char === "}") {
+      const open = stack.pop()
+      if (open !== { ")": "(", "]": "[", "}": "{" }[char]) return null
+    }
+    previous = /[\w$]/.test(char) ? readWordBefore(text, index + 1) : char
+    index++
+  }
+
+  return stack.length === 0 ? starts : null
+}
+
+/** Whether a slash after `previous` (a punctuator or the word before it) starts a regex literal */
+function isRegexStart(previous: string, text: string, index: number): boolean {
+  if (text[index + 1] === "/" || text[index + 1] === "*") return false
+  if (previous === "") return true
+  if (previous.length === 1 && REGEX_PRECEDING_CHARS.includes(previous)) return true
+  return REGEX_PRECEDING_WORDS.has(previous)
+}
+
+function readWordBefore(text: string, end: number): string {
+  let start = end
+  while (start > 0 && /[\w$]/.test(text[start - 1])) start--
+  return text.slice(start, end)
+}
@@ -0,0 +1,121 @@
+/**
+ * Workspace File Writer
+ *
+ * Writes files on behalf of the UI and external tooling without clobbering
+ * concurrent agent writes. Each write runs under the per-file lock of the
+ * safe file writer. The workspace's conflict detector checks it before it
+ * hits the disk and registers it after, which also records it in the
+ * persistent version history.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import { createConflictDetector, getConflictDetector, FileConflict } from "./conflict-detector.js"
+import { contentHashTracker, safeWriteFile, type ConflictResolution } from "../server/safe-file-writer.js"
+import { EventBus } from "../events/bus.js"
+import { Logger } from "../logger.js"
+import type { WorkspaceFileWriteRejection } from "../api-types.js"
+
+export interface WorkspaceFileWriteOptions {
+  /** Absolute path of the file, already checked to be inside the workspace */
+  absolutePath: string
+  contents: string
+  sessionId: string
+  instanceId: string
+  expectedHash?: string
+  /** How to handle concurrent changes (default: fail-fast) */
+  resolution?: ConflictResolution
+  createDirs?: boolean
+}
+
+export interface WorkspaceFileWriteDeps {
+  eventBus: EventBus
+  logger: Logger
+}
+
+export class WorkspaceFileWriteError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly details: Omit<WorkspaceFileWriteRejection, "error"> = {}
+  ) {
+    super(message)
+    this.name = "WorkspaceFileWriteError"
+  }
+}
+
+/**
+ * Write a workspace file. With fail-fast resolution and an expected hash,
+ * the write is rejected when the file on disk changed (412) or the conflict
+ * detector saw a concurrent agent write (409). Other resolutions serialize
+ * writes without rejecting them.
+ */
+export async function writeWorkspaceFile(
+  workspaceRoot: string,
+  options: WorkspaceFileWriteOptions,
+  deps: WorkspaceFileWriteDeps
+): Promise<{ relativePath: string; hash: string; previousHash: string | null }> {
+  const { absolutePath, contents, sessionId, instanceId, expectedHash } = options
+  const resolution = options.resolution ?? "fail-fast"
+  const detector =
+    getConflictDetector(workspaceRoot) ??
+    createConflictDetector({
+      workspaceRoot,
+      eventBus: deps.eventBus,
+      logger: deps.logger.child({ component: "conflict-detector" }),
+      autoStart: true,
+    })
+
+  let previousHash: string | null = null
+  let previousContent: string | null = null
+  let trackedHash: string | null = null
+  let conflict: FileConflict | undefined
+  const result = await safeWriteFile(absolutePath, contents, {
+    sessionId,
+    expectedHash,
+    resolution,
+    createDirs: options.createDirs,
+    beforeWrite: async () => {
+      contentHashTracker.syncFromDisk(absolutePath)
+      previousHash = contentHashTracker.getCurrentHash(absolutePath)
+      previousContent = previousHash === null ? null : await fs.promises.readFile(absolutePath, "utf-8").catch(() => null)
+
+      // Only a fail-fast write with a precondition may conflict; otherwise
+      // check against the tracked hash so the write is just recorded
+      trackedHash = detector.getTracker().getTrackedFile(absolutePath)?.currentHash ?? null
+      const checkHash = resolution === "fail-fast" && expectedHash ? expectedHash : (trackedHash ?? undefined)
+      const checked = await detector.checkWrite(absolutePath, sessionId, instanceId, contents, checkHash)
+      conflict = checked.conflict
+      return checked.success ? undefined : "File has a concurrent write from another session"
+    },
+    // Only a write that hit the disk is tracked and kept in the history
+    afterWrite: async () => {
+      await detector.recordWrite(absolutePath, sessionId, instanceId, contents, previousContent)
+    },
+  })
+
+  if (!result.success) {
+    const message = result.error ?? "Write failed"
+    if (result.conflictInfo) {
+      throw new WorkspaceFileWriteError(message, 412, result.conflictInfo)
+    }
+    if (conflict) {
+      throw new WorkspaceFileWriteError(message, 409, {
+        currentHash: trackedHash,
+        conflict: {
+          conflictId: conflict.conflictId,
+          filePath: conflict.filePath,
+          conflictType: conflict.conflictType,
+          canAutoMerge: conflict.mergeResult.canAutoMerge,
+        },
+      })
+    }
+    throw new WorkspaceFileWriteError(message, message.startsWith("Lock timeout") ? 423 : 500)
+  }
+
+  return {
+    relativePath: path.relative(workspaceRoot, absolutePath).split(path.sep).join("/"),
+    hash: result.newHash,
+    previousHash,
+  }
+}
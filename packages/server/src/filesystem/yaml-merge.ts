@@ -0,0 +1,120 @@
+/**
+ * YAML Merge
+ *
+ * Key-level 3-way merge for YAML documents made of block mappings. Each key
+ * owns its line and the more indented lines (and comments) below it;
+ * mappings both sides changed are merged recursively. Documents with
+ * several parts, flow collections at the top level or anything else that
+ * doesn't split cleanly into keys are left to the line merger.
+ */
+
+import { mergeKeyedEntries, pickText, type MergeEntry, type StructuralMerger } from "./structural-merge.js"
+
+interface YamlMappingLayout {
+  /** Comments and directives before the first key */
+  prefix: string[]
+  entries: MergeEntry[]
+}
+
+const YAML_FILE_PATTERN = /\.ya?ml$/i
+const KEY_PATTERN = /^(?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-?:,[\]{}&*!|>%@`][^#]*?)\s*:(?:\s|$)/
+
+export const yamlMerger: StructuralMerger = {
+  name: "yaml",
+  matches: (filePath) => YAML_FILE_PATTERN.test(filePath),
+  merge(base, ours, theirs) {
+    const lines = mergeYamlMapping(toLines(base), toLines(ours), toLines(theirs), 0)
+    if (!lines) return null
+    return lines.join("\n") + (ours.endsWith("\n") ? "\n" : "")
+  },
+}
+
+function mergeYamlMapping(base: string[], ours: string[], theirs: string[], indent: number): string[] | null {
+  const baseLayout = parseYamlMapping(base, indent)
+  const oursLayout = parseYamlMapping(ours, indent)
+  const theirsLayout = parseYamlMapping(theirs, indent)
+  if (!baseLayout || !oursLayout || !theirsLayout) return null
+
+  const prefix = pickText(baseLayout.prefix.join("\n"), oursLayout.prefix.join("\n"), theirsLayout.prefix.join("\n"))
+  if (prefix === null) return null
+
+  const entries = mergeKeyedEntries(baseLayout.entries, oursLayout.entries, theirsLayout.entries, mergeEntry)
+  if (!entries) return null
+
+  return [...(prefix ? prefix.split("\n") : []), ...entries.map((entry) => entry.text)]
+}
+
+/** Both sides changed the same key: merge its nested mapping when the key line itself is unchanged */
+function mergeEntry(_key: string, base: string | undefined, ours: string, theirs: string): string | null {
+  if (base === undefined) return null
+  const [baseHeader, ...baseChildren] = base.split("\n")
+  const [oursHeader, ...oursChildren] = ours.split("\n")
+  const [theirsHeader, ...theirsChildren] = theirs.split("\n")
+  if (baseHeader !== oursHeader || baseHeader !== theirsHeader) return null
+
+  const indent = childIndent(baseChildren)
+  if (indent === null || indent !== childIndent(oursChildren) || indent !== childIndent(theirsChildren)) return null
+
+  const children = mergeYamlMapping(baseChildren, oursChildren, theirsChildren, indent)
+  return children ? [oursHeader, ...children].join("\n") : null
+}
+
+/**
+ * Split lines into the keys of a mapping indented by `indent` spaces. A key
+ * owns its line and every following line that is blank, a comment, more
+ * indented, or a sequence item at the same indent.
+ */
+function parseYamlMapping(lines: string[], indent: number): YamlMappingLayout | null {
+  const prefix: string[] = []
+  const entries: MergeEntry[] = []
+  let current: { key: string; lines: string[] } | null = null
+
+  const flush = () => {
+    if (current) entries.push({ key: current.key, text: current.lines.join("\n") })
+  }
+
+  for (const line of lines) {
+    const trimmed = line.trim()
+    const lineIndent = line.length - line.trimStart().length
+    const ownedByKey =
+      trimmed === "" || trimmed.startsWith("#") || lineIndent > indent || (lineIndent === indent && /^- |^-$/.test(trimmed))
+
+    if (ownedByKey) {
+      if (current) current.lines.push(line)
+      else if (trimmed === "" || trimmed.startsWith("#")) prefix.push(line)
+      else return null
+      continue
+    }
+
+    // A document start marker or directive may open the file
+    if (!current && indent === 0 && (trimmed === "---" || trimmed.startsWith("%"))) {
+      prefix.push(line)
+      continue
+    }
+
+    if (lineIndent !== indent || line.startsWith("\t")) return null
+    const match = KEY_PATTERN.exec(trimmed)
+    if (!match) return null
+
+    flush()
+    current = { key: match[0].replace(/:\s*$/, "").trim(), lines: [line] }
+  }
+  flush()
+
+  return entries.length > 0 ? { prefix, entries } : null
+}
+
+/** Indent of the first line of a nested mapping, or null when the lines aren't one */
+function childIndent(lines: string[]): number | null {
+  for (const line of lines) {
+    const trimmed = line.trim()
+    if (trimmed === "" || trimmed.startsWith("#")) continue
+    if (trimmed.startsWith("-")) return null
+    return line.length - line.trimStart().length
+  }
+  return null
+}
+
+function toLines(text: string): string[] {
+  return (text.endsWith("\n") ? text.slice(0, -1) : text).split("\n")
+}
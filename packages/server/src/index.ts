@@ -15,6 +15,7 @@ import { EventBus } from "./events/bus"
 import { ServerMeta } from "./api-types"
 import { InstanceStore } from "./storage/instance-store"
 import { InstanceEventBridge } from "./workspaces/instance-events"
+import { WorktreeManager } from "./services/worktree-manager"
 import { createLogger } from "./logger"
 import { launchInBrowser } from "./launcher"
 import { startReleaseMonitor } from "./releases/release-monitor"
@@ -45,6 +46,7 @@ interface CliOptions {
   uiStaticDir: string
   uiDevServer?: string
   launch: boolean
+  authToken?: string
 }
 
 const DEFAULT_PORT = 9898
@@ -71,6 +73,11 @@ function parseCliOptions(argv: string[]): CliOptions {
     )
     .addOption(new Option("--ui-dev-server <url>", "Proxy UI requests to a running dev server").env("CLI_UI_DEV_SERVER"))
     .addOption(new Option("--launch", "Launch the UI in a browser after start").env("CLI_LAUNCH").default(false))
+    .addOption(
+      new Option("--auth-token <token>", "Access token remote clients must present (generated when omitted)").env(
+        "CLI_AUTH_TOKEN",
+      ),
+    )
 
   program.parse(argv, { from: "user" })
   const parsed = program.opts<{
@@ -85,6 +92,7 @@ function parseCliOptions(argv: string[]): CliOptions {
     uiDir: string
     uiDevServer?: string
     launch?: boolean
+    authToken?: string
   }>()
 
   const resolvedRoot = parsed.workspaceRoot ?? parsed.root ?? process.cwd()
@@ -102,6 +110,7 @@ function parseCliOptions(argv: string[]): CliOptions {
     uiStaticDir: parsed.uiDir,
     uiDevServer: parsed.uiDevServer,
     launch: Boolean(parsed.launch),
+    authToken: parsed.authToken?.trim() || undefined,
   }
 }
 
@@ -135,20 +144,7 @@ async function main() {
   const configLogger = logger.child({ component: "config" })
   const eventLogger = logger.child({ component: "events" })
 
-  logger.info({ options }, "Starting Era Code CLI server")
-
-  // Clean up any orphaned workspace processes from previous crashes
-  // This now properly awaits kill completion before proceeding
-  const registryCleanup = await cleanupOrphanedWorkspaces(workspaceLogger)
-  if (registryCleanup.cleaned > 0 || registryCleanup.failed > 0) {
-    logger.info(registryCleanup, "Startup orphan cleanup complete")
-  }
-
-  // Also scan for unregistered orphans (processes not in registry)
-  const unregisteredCleanup = await scanForUnregisteredOrphans(workspaceLogger)
-  if (unregisteredCleanup.found > 0) {
-    logger.info(unregisteredCleanup, "Unregistered orphan cleanup complete")
-  }
+  logger.info({ options: { ...options, authToken: options.authToken ? "[REDACTED]" : undefined } }, "Starting Era Code CLI server")
 
   const eventBus = new EventBus(eventLogger)
   const configStore = new ConfigStore(options.configPath, eventBus, configLogger)
@@ -161,16 +157,15 @@ async function main() {
     logger: workspaceLogger,
   })
 
-  // Start periodic orphan scanner AFTER workspace manager is created
-  // Pass the getActiveWorkspaceIds function so scanner knows which workspaces are active
-  startOrphanScanner(workspaceLogger, () => workspaceManager.getActiveWorkspaceIds())
-
   const fileSystemBrowser = new FileSystemBrowser({ rootDir: options.rootDir, unrestricted: options.unrestrictedRoot })
   const instanceStore = new InstanceStore()
+  // Isolated sessions run in git worktrees; their OpenCode events are streamed per worktree directory
+  const worktreeManager = new WorktreeManager({ eventBus, logger: logger.child({ component: "worktrees" }) })
   const instanceEventBridge = new InstanceEventBridge({
     workspaceManager,
     eventBus,
     logger: logger.child({ component: "instance-events" }),
+    getExtraDirectories: (folder) => worktreeManager.directoriesFor(folder),
   })
 
   const isLoopbackHost = (host: string) => host === "127.0.0.1" || host === "::1" || host.startsWith("127.")
@@ -180,6 +175,7 @@ async function main() {
     eventsUrl: `/api/events`,
     host: options.host,
     listeningMode: isLoopbackHost(options.host) ? "local" : "all",
+    authRequired: !isLoopbackHost(options.host),
     port: options.port,
     hostLabel: options.host,
     workspaceRoot: options.rootDir,
@@ -220,13 +216,35 @@ async function main() {
     eventBus,
     serverMeta,
     instanceStore,
+    worktreeManager,
     eraDetection,
     updateMonitor,
+    authToken: options.authToken,
     uiStaticDir: options.uiStaticDir,
     uiDevServerUrl: options.uiDevServer,
     logger,
   })
 
+  // Reopen the previous run's workspaces once everything listening for
+  // workspace events is attached; processes that survived are re-adopted
+  await workspaceManager.restore()
+
+  // Clean up orphaned workspace processes from previous crashes, sparing
+  // the re-adopted ones. This properly awaits kill completion before proceeding
+  const registryCleanup = await cleanupOrphanedWorkspaces(workspaceLogger, workspaceManager.getActiveWorkspaceIds())
+  if (registryCleanup.cleaned > 0 || registryCleanup.failed > 0) {
+    logger.info(registryCleanup, "Startup orphan cleanup complete")
+  }
+
+  // Also scan for unregistered orphans (processes not in registry)
+  const unregisteredCleanup = await scanForUnregisteredOrphans(workspaceLogger, workspaceManager.getActiveWorkspaceIds())
+  if (unregisteredCleanup.found > 0) {
+    logger.info(unregisteredCleanup, "Unregistered orphan cleanup complete")
+  }
+
+  // Pass the getActiveWorkspaceIds function so scanner knows which workspaces are active
+  startOrphanScanner(workspaceLogger, () => workspaceManager.getActiveWorkspaceIds())
+
   const startInfo = await server.start()
   logger.info({ port: startInfo.port, host: options.host }, "HTTP server listening")
   console.log(`Era Code Server is ready at ${startInfo.url}`)
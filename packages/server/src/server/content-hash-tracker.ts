@@ -185,6 +185,35 @@ class ContentHashTracker {
     }
   }
 
+  /**
+   * Reconcile the recorded hash with the file on disk
+   * Changes made outside the tracker (editors, agents, git) are attributed to "external"
+   */
+  syncFromDisk(path: string): void {
+    const normalizedPath = this.normalizePath(path)
+
+    let content: string
+    try {
+      content = fs.readFileSync(path, "utf-8")
+    } catch {
+      // File doesn't exist (anymore), nothing to compare against
+      this.hashes.delete(normalizedPath)
+      return
+    }
+
+    const diskHash = this.computeHash(content)
+    if (this.hashes.get(normalizedPath)?.hash === diskHash) {
+      return
+    }
+
+    this.hashes.set(normalizedPath, {
+      hash: diskHash,
+      timestamp: Date.now(),
+      sessionId: "external",
+    })
+    log.debug({ path: normalizedPath, hash: diskHash }, "Recorded external modification")
+  }
+
   /**
    * Invalidate the cached hash for a file
    * Call this when a file is deleted or when you want to force a re-read
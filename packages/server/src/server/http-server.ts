@@ -23,15 +23,40 @@ import { registerEraRoutes } from "./routes/era"
 import { registerSystemRoutes, registerProcessManagementRoutes } from "./routes/system"
 import { registerMcpRoutes } from "./routes/mcp"
 import { registerFileRoutes } from "./routes/files"
+import { registerSearchRoutes } from "./routes/search"
+import { registerSessionImportRoutes } from "./routes/session-imports"
+import { registerUsageRoutes } from "./routes/usage"
+import { registerPromptTemplateRoutes } from "./routes/prompt-templates"
+import { registerWorktreeRoutes } from "./routes/worktrees"
+import { setFileVersionRetention } from "../filesystem/file-version-store"
 import { registerSessionRoutes } from "./routes/sessions"
 import { registerGitHubRoutes } from "./routes/github"
 import { registerLinearRoutes } from "./routes/linear"
 import { registerProjectRoutes } from "./routes/projects"
+import { registerAuthGuard, registerAuthRoutes } from "./routes/auth"
 import { ServerMeta } from "../api-types"
 import { InstanceStore } from "../storage/instance-store"
+import { SessionBundleStore } from "../storage/session-bundle-store"
 import { EraDetectionService } from "../era/detection"
 import { EraGovernanceService } from "../era/governance"
 import type { UpdateMonitor } from "../updates/update-monitor"
+import { AccessTokenStore } from "../auth/token-store"
+import { isLoopbackOrigin, isSameHostOrigin } from "../auth/request-auth"
+import { AuditTrailService } from "../services/audit-trail"
+import { BeadsTracker } from "../services/beads-tracker"
+import { FormulaLoader } from "../services/formula-loader"
+import { GateService } from "../services/gate-service"
+import { HandoffService } from "../services/handoff-service"
+import { ProjectMcpConfigService } from "../services/project-mcp-config"
+import { CheckpointService } from "../services/checkpoint-service"
+import { ToolFileTracker } from "../services/tool-file-tracker"
+import { SessionSearchIndex } from "../services/session-search"
+import { UsageTracker } from "../services/usage-tracker"
+import { McpSupervisor } from "../services/mcp-supervisor"
+import { LinearService } from "../services/linear-service"
+import { PlanRunner } from "../services/plan-runner"
+import { PromptTemplateLibrary } from "../services/prompt-templates"
+import type { WorktreeManager } from "../services/worktree-manager"
 
 interface HttpServerDeps {
   host: string
@@ -43,8 +68,12 @@ interface HttpServerDeps {
   eventBus: EventBus
   serverMeta: ServerMeta
   instanceStore: InstanceStore
+  worktreeManager: WorktreeManager
   eraDetection?: EraDetectionService
   updateMonitor?: UpdateMonitor
+  tokenStore?: AccessTokenStore
+  /** Fixed access token to use instead of the generated one (remote mode only). */
+  authToken?: string
   uiStaticDir: string
   uiDevServerUrl?: string
   logger: Logger
@@ -64,17 +93,27 @@ export function createHttpServer(deps: HttpServerDeps) {
   const apiLogger = deps.logger.child({ component: "http" })
   const sseLogger = deps.logger.child({ component: "sse" })
 
-  const sseClients = new Set<() => void>()
-  const registerSseClient = (cleanup: () => void) => {
-    sseClients.add(cleanup)
+  // SSE cleanup callbacks keyed to the access token used to open the stream (if any)
+  const sseClients = new Map<() => void, string | undefined>()
+  const registerSseClient = (cleanup: () => void, tokenId?: string) => {
+    sseClients.set(cleanup, tokenId)
     return () => sseClients.delete(cleanup)
   }
   const closeSseClients = () => {
-    for (const cleanup of Array.from(sseClients)) {
+    for (const cleanup of Array.from(sseClients.keys())) {
       cleanup()
     }
     sseClients.clear()
   }
+  const closeSseClientsForTokens = (tokenIds: string[]) => {
+    const revoked = new Set(tokenIds)
+    for (const [cleanup, tokenId] of Array.from(sseClients.entries())) {
+      if (tokenId && revoked.has(tokenId)) {
+        cleanup()
+        sseClients.delete(cleanup)
+      }
+    }
+  }
 
   app.addHook("onRequest", (request, _reply, done) => {
     ;(request as FastifyRequest & { __logMeta?: { start: bigint } }).__logMeta = {
@@ -101,11 +140,28 @@ export function createHttpServer(deps: HttpServerDeps) {
 
   const allowedDevOrigins = new Set(["http://localhost:3000", "http://127.0.0.1:3000"])
   const isLoopbackHost = (host: string) => host === "127.0.0.1" || host === "::1" || host.startsWith("127.")
+  const listensOnAllInterfaces = deps.host === "0.0.0.0" || !isLoopbackHost(deps.host)
+
+  // Remote clients must present an access token; loopback callers stay trusted.
+  const tokenStore = deps.tokenStore ?? new AccessTokenStore(deps.logger.child({ component: "auth" }))
+  if (listensOnAllInterfaces) {
+    tokenStore.ensurePrimary(deps.authToken)
+  }
+  const authDeps = {
+    tokenStore,
+    isAuthRequired: () => listensOnAllInterfaces,
+    onTokensRevoked: closeSseClientsForTokens,
+    logger: deps.logger,
+  }
+  registerAuthGuard(app, authDeps)
 
   app.register(cors, {
-    origin: (origin, cb) => {
+    delegator: (request, cb) => {
+      const origin = request.headers.origin
+      const allow = (allowed: boolean) => cb(null, { origin: allowed, credentials: true })
+
       if (!origin) {
-        cb(null, true)
+        allow(true)
         return
       }
 
@@ -117,24 +173,25 @@ export function createHttpServer(deps: HttpServerDeps) {
       }
 
       if (selfOrigin && origin === selfOrigin) {
-        cb(null, true)
+        allow(true)
         return
       }
 
-       if (allowedDevOrigins.has(origin)) {
-         cb(null, true)
-         return
-       }
+      if (allowedDevOrigins.has(origin)) {
+        allow(true)
+        return
+      }
 
-       // When we bind to a non-loopback host (e.g., 0.0.0.0 or LAN IP), allow cross-origin UI access.
-       if (deps.host === "0.0.0.0" || !isLoopbackHost(deps.host)) {
-         cb(null, true)
-         return
-       }
+      // When we bind to a non-loopback host (e.g., 0.0.0.0 or LAN IP), the UI may be served from
+      // whichever address the browser used, or from a local shell. Other sites never get
+      // credentialed access: the auth cookie would let them act as the signed-in user.
+      if (listensOnAllInterfaces && (isSameHostOrigin(origin, request.headers.host) || isLoopbackOrigin(origin))) {
+        allow(true)
+        return
+      }
 
-      cb(null, false)
+      allow(false)
     },
-    credentials: true,
   })
 
   app.register(replyFrom, {
@@ -151,7 +208,102 @@ export function createHttpServer(deps: HttpServerDeps) {
   const eraDetection = deps.eraDetection ?? new EraDetectionService(deps.logger)
   const eraGovernance = new EraGovernanceService(eraDetection, deps.logger)
 
-  registerWorkspaceRoutes(app, { workspaceManager: deps.workspaceManager, eraDetection })
+  // Append-only audit log fed by route handlers and EventBus activity
+  const auditTrail = new AuditTrailService({
+    eventBus: deps.eventBus,
+    logger: deps.logger.child({ component: "audit-trail" }),
+  })
+  const detachAuditTrail = auditTrail.attach()
+  app.addHook("onClose", async () => detachAuditTrail())
+
+  const beadsTracker = new BeadsTracker({
+    eventBus: deps.eventBus,
+    logger: deps.logger.child({ component: "beads" }),
+  })
+  app.addHook("onClose", async () => beadsTracker.dispose())
+
+  const gateService = new GateService({
+    eventBus: deps.eventBus,
+    logger: deps.logger.child({ component: "gates" }),
+    defaultTimeoutMinutes: () => deps.configStore.get().preferences.gateTimeoutMinutes,
+  })
+  app.addHook("onClose", async () => gateService.dispose())
+
+  // Persistent file history follows the retention preferences
+  setFileVersionRetention(() => {
+    const { fileHistoryMaxVersions, fileHistoryRetentionDays } = deps.configStore.get().preferences
+    return { maxVersions: fileHistoryMaxVersions, maxAgeDays: fileHistoryRetentionDays }
+  })
+
+  const formulaLoader = new FormulaLoader({ logger: deps.logger.child({ component: "formulas" }) })
+  const planRunner = new PlanRunner({
+    eventBus: deps.eventBus,
+    logger: deps.logger.child({ component: "plan-runner" }),
+    workspaceManager: deps.workspaceManager,
+    formulaLoader,
+    gateService,
+  })
+  app.addHook("onClose", async () => planRunner.shutdown())
+
+  const handoffService = new HandoffService({
+    eventBus: deps.eventBus,
+    logger: deps.logger.child({ component: "handoffs" }),
+    workspaceManager: deps.workspaceManager,
+  })
+
+  // Per-message snapshots of agent edits for session rollback
+  const checkpointService = new CheckpointService({
+    eventBus: deps.eventBus,
+    logger: deps.logger.child({ component: "checkpoints" }),
+    workspaceManager: deps.workspaceManager,
+  })
+  const detachCheckpoints = checkpointService.attach()
+  app.addHook("onClose", async () => detachCheckpoints())
+
+  // Conflict tracking of the files agents read and write, from their tool calls
+  const toolFileTracker = new ToolFileTracker({
+    eventBus: deps.eventBus,
+    logger: deps.logger.child({ component: "tool-file-tracker" }),
+    workspaceManager: deps.workspaceManager,
+  })
+  const detachToolFileTracker = toolFileTracker.attach()
+  app.addHook("onClose", async () => detachToolFileTracker())
+
+  // Cross-session full-text search, built from OpenCode storage and kept current from instance events
+  const searchIndex = new SessionSearchIndex({
+    eventBus: deps.eventBus,
+    logger: deps.logger.child({ component: "session-search" }),
+  })
+  const detachSearchIndex = searchIndex.attach()
+  app.addHook("onClose", async () => detachSearchIndex())
+
+  // Persistent token and cost records for usage analytics and budgets
+  const usageTracker = new UsageTracker({
+    eventBus: deps.eventBus,
+    logger: deps.logger.child({ component: "usage" }),
+    getBudgets: () => deps.configStore.get().preferences.usageBudgets,
+    getInstanceFolder: (instanceId) => deps.workspaceManager.get(instanceId)?.path,
+  })
+  const detachUsageTracker = usageTracker.attach()
+  app.addHook("onClose", async () => detachUsageTracker())
+
+  // Periodic health probes and tool inventory of global and open projects' MCP servers
+  const mcpSupervisor = new McpSupervisor({
+    eventBus: deps.eventBus,
+    logger: deps.logger.child({ component: "mcp-supervisor" }),
+    getPreferences: () => deps.configStore.get().preferences,
+    getProjectFolders: () => deps.workspaceManager.list().map((workspace) => workspace.path),
+  })
+  const detachMcpSupervisor = mcpSupervisor.attach()
+  app.addHook("onClose", async () => detachMcpSupervisor())
+
+  registerAuthRoutes(app, authDeps)
+  registerWorkspaceRoutes(app, {
+    workspaceManager: deps.workspaceManager,
+    eraDetection,
+    auditTrail,
+    checkpointService,
+  })
   registerConfigRoutes(app, { configStore: deps.configStore, binaryRegistry: deps.binaryRegistry })
   registerFilesystemRoutes(app, { fileSystemBrowser: deps.fileSystemBrowser })
   registerMetaRoutes(app, { serverMeta: deps.serverMeta })
@@ -164,28 +316,60 @@ export function createHttpServer(deps: HttpServerDeps) {
   registerModelsProxyRoutes(app)
   registerSystemRoutes(app, { logger: deps.logger })
   registerProcessManagementRoutes(app, { logger: deps.logger })
-  registerMcpRoutes(app, { logger: deps.logger })
+  registerMcpRoutes(app, {
+    logger: deps.logger,
+    projectMcpConfig: new ProjectMcpConfigService({ logger: deps.logger.child({ component: "project-mcp" }) }),
+    mcpSupervisor,
+  })
   registerFileRoutes(app, {
     eventBus: deps.eventBus,
+    workspaceManager: deps.workspaceManager,
     workspaceRoot: deps.serverMeta.workspaceRoot,
+    auditTrail,
+    checkpointService,
     logger: deps.logger,
   })
   registerInstanceProxyRoutes(app, { workspaceManager: deps.workspaceManager, logger: proxyLogger })
 
   // Register Era routes
-  registerEraRoutes(app, { eraDetection, eraGovernance, updateMonitor: deps.updateMonitor, logger: deps.logger })
+  registerEraRoutes(app, {
+    eraDetection,
+    eraGovernance,
+    updateMonitor: deps.updateMonitor,
+    auditTrail,
+    beadsTracker,
+    formulaLoader,
+    planRunner,
+    gateService,
+    handoffService,
+    logger: deps.logger,
+  })
 
   // Register GitHub routes
   registerGitHubRoutes(app, { logger: deps.logger })
 
   // Register Linear routes
-  registerLinearRoutes(app, { logger: deps.logger })
+  registerLinearRoutes(app, {
+    logger: deps.logger,
+    linearService: new LinearService({
+      logger: deps.logger.child({ component: "linear" }),
+      getPreferences: () => deps.configStore.get().preferences,
+    }),
+    workspaceManager: deps.workspaceManager,
+  })
 
   // Register Project init routes
   registerProjectRoutes(app, { logger: deps.logger })
 
   // Register Session management routes
   registerSessionRoutes(app, { logger: deps.logger })
+  registerSearchRoutes(app, { searchIndex })
+  registerUsageRoutes(app, { usageTracker })
+  registerSessionImportRoutes(app, { sessionBundleStore: new SessionBundleStore(), workspaceManager: deps.workspaceManager })
+  registerPromptTemplateRoutes(app, {
+    promptTemplates: new PromptTemplateLibrary({ logger: deps.logger.child({ component: "prompt-templates" }) }),
+  })
+  registerWorktreeRoutes(app, { worktreeManager: deps.worktreeManager })
 
   if (deps.uiDevServerUrl) {
     setupDevProxy(app, deps.uiDevServerUrl)
@@ -244,9 +428,14 @@ export function createHttpServer(deps: HttpServerDeps) {
       deps.serverMeta.httpBaseUrl = serverUrl
       deps.serverMeta.host = deps.host
       deps.serverMeta.port = actualPort
-      deps.serverMeta.listeningMode = deps.host === "0.0.0.0" || !isLoopbackHost(deps.host) ? "all" : "local"
+      deps.serverMeta.listeningMode = listensOnAllInterfaces ? "all" : "local"
+      deps.serverMeta.authRequired = listensOnAllInterfaces
       deps.logger.info({ port: actualPort, host: deps.host }, "HTTP server listening")
       console.log(`Era Code Server is ready at ${serverUrl}`)
+      if (listensOnAllInterfaces) {
+        const primary = tokenStore.ensurePrimary(deps.authToken)
+        console.log(`Remote access requires a token. Open ${serverUrl}/?token=${primary.token} to sign in.`)
+      }
 
       return { port: actualPort, url: serverUrl, displayHost }
     },
@@ -313,6 +502,20 @@ async function proxyWorkspaceRequest(args: {
     return
   }
 
+  // A workspace restored from the previous run is launched on first access
+  if (workspace.restored) {
+    try {
+      await workspaceManager.ensureRunning(workspaceId)
+    } catch (error) {
+      reply.code(502).send({
+        error: "Failed to start workspace instance",
+        code: "INSTANCE_START_FAILED",
+        hint: error instanceof Error ? error.message : undefined,
+      })
+      return
+    }
+  }
+
   const port = workspaceManager.getInstancePort(workspaceId)
   if (!port) {
     reply.code(502).send({
@@ -0,0 +1,147 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import Fastify, { type FastifyInstance } from "fastify"
+import pino from "pino"
+import { AccessTokenStore } from "../../../auth/token-store"
+import { EventBus } from "../../../events/bus"
+import { registerAuthGuard, registerAuthRoutes } from "../auth"
+import { registerEventRoutes } from "../events"
+
+const REMOTE = "10.0.0.5"
+
+describe("auth guard", () => {
+  let dir: string
+  let app: FastifyInstance
+  let tokenStore: AccessTokenStore
+  let primary: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "auth-routes-"))
+    const logger = pino({ level: "silent" })
+    tokenStore = new AccessTokenStore(logger, path.join(dir, "access-tokens.json"))
+    primary = tokenStore.ensurePrimary().token
+
+    // Same bookkeeping as the HTTP server: open streams keyed by the token that opened them
+    const streams = new Map<() => void, string | undefined>()
+    const authDeps = {
+      tokenStore,
+      isAuthRequired: () => true,
+      onTokensRevoked: (tokenIds: string[]) => {
+        for (const [close, tokenId] of Array.from(streams.entries())) {
+          if (tokenId && tokenIds.includes(tokenId)) {
+            close()
+            streams.delete(close)
+          }
+        }
+      },
+      logger,
+    }
+
+    app = Fastify({ logger: false })
+    registerAuthGuard(app, authDeps)
+    registerAuthRoutes(app, authDeps)
+    registerEventRoutes(app, {
+      eventBus: new EventBus(),
+      registerClient: (close, tokenId) => {
+        streams.set(close, tokenId)
+        return () => streams.delete(close)
+      },
+      logger,
+    })
+    app.get("/api/system/exec", async () => ({ ok: true }))
+    app.all("/workspaces/:id/instance/*", async () => ({ proxied: true }))
+    app.get("/*", async () => "ui")
+  })
+
+  afterEach(async () => {
+    await app.close()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  const remote = (url: string, headers: Record<string, string> = {}) =>
+    app.inject({ method: "GET", url, headers, remoteAddress: REMOTE })
+
+  it("trusts loopback requests without a token", async () => {
+    const response = await app.inject({ method: "GET", url: "/api/system/exec" })
+
+    assert.equal(response.statusCode, 200)
+  })
+
+  it("rejects remote requests to protected routes without a token", async () => {
+    for (const url of ["/api/system/exec", "/workspaces/x/instance/foo"]) {
+      const response = await remote(url)
+      assert.equal(response.statusCode, 401, url)
+      assert.equal(response.json().code, "AUTH_REQUIRED")
+    }
+  })
+
+  it("rejects percent-encoded paths that route to protected handlers", async () => {
+    for (const url of ["/%61pi/system/exec", "/api/system/%65xec", "/%77orkspaces/x/instance/foo"]) {
+      const response = await remote(url)
+      assert.equal(response.statusCode, 401, url)
+    }
+  })
+
+  it("accepts remote requests with a bearer token", async () => {
+    const response = await remote("/api/system/exec", { authorization: `Bearer ${primary}` })
+
+    assert.equal(response.statusCode, 200)
+  })
+
+  it("leaves the login endpoints and the UI open", async () => {
+    const status = await remote("/api/auth/status")
+    assert.equal(status.statusCode, 200)
+    assert.deepEqual(status.json(), { required: true, authenticated: false, local: false })
+
+    const ui = await remote("/index.html")
+    assert.equal(ui.statusCode, 200)
+    assert.equal(ui.body, "ui")
+  })
+
+  it("turns a token link into a cookie and drops it from the address", async () => {
+    const landing = await remote(`/?token=${primary}&view=sessions`)
+
+    assert.equal(landing.statusCode, 302)
+    assert.equal(landing.headers.location, "/?view=sessions")
+    const cookie = String(landing.headers["set-cookie"]).split(";")[0]
+    assert.match(cookie, /^era_code_token=/)
+
+    const followUp = await remote("/api/system/exec", { cookie })
+    assert.equal(followUp.statusCode, 200)
+  })
+
+  it("ignores an invalid token link", async () => {
+    const landing = await remote("/?token=wrong")
+
+    assert.equal(landing.statusCode, 200)
+    assert.equal(landing.headers["set-cookie"], undefined)
+  })
+
+  it("keeps token management local", async () => {
+    const response = await remote("/api/auth/tokens", { authorization: `Bearer ${primary}` })
+
+    assert.equal(response.statusCode, 403)
+  })
+
+  it("closes event streams opened with a revoked token", async () => {
+    const created = await app.inject({ method: "POST", url: "/api/auth/tokens", payload: { label: "phone" } })
+    assert.equal(created.statusCode, 201)
+    const { id, token } = created.json() as { id: string; token: string }
+
+    const stream = remote("/api/events", { authorization: `Bearer ${token}` })
+    await new Promise((resolve) => setImmediate(resolve))
+
+    const revoked = await app.inject({ method: "DELETE", url: `/api/auth/tokens/${id}` })
+    assert.equal(revoked.statusCode, 204)
+
+    const closed = await stream
+    assert.equal(closed.statusCode, 200)
+    assert.equal(closed.headers["content-type"], "text/event-stream")
+
+    const retry = await remote("/api/system/exec", { authorization: `Bearer ${token}` })
+    assert.equal(retry.statusCode, 401)
+  })
+})
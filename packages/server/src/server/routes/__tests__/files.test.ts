@@ -0,0 +1,88 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import Fastify, { type FastifyInstance } from "fastify"
+import pino from "pino"
+import { EventBus } from "../../../events/bus"
+import { removeConflictDetector } from "../../../filesystem/conflict-detector"
+import type { AuditEventInput, AuditTrailService } from "../../../services/audit-trail"
+import type { WorkspaceManager } from "../../../workspaces/manager"
+import { registerFileRoutes } from "../files"
+
+describe("file routes", () => {
+  let root: string
+  let app: FastifyInstance
+  let audited: AuditEventInput[]
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "file-routes-"))
+    fs.writeFileSync(path.join(root, "notes.md"), "first")
+    audited = []
+    app = Fastify({ logger: false })
+    registerFileRoutes(app, {
+      eventBus: new EventBus(),
+      workspaceManager: {} as WorkspaceManager,
+      workspaceRoot: root,
+      auditTrail: {
+        recordAsync: (_folder: string | undefined, input: AuditEventInput) => audited.push(input),
+      } as unknown as AuditTrailService,
+      logger: pino({ level: "silent" }),
+    })
+  })
+
+  afterEach(async () => {
+    await app.close()
+    removeConflictDetector(root)
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  const register = (body: Record<string, string>) =>
+    app.inject({
+      method: "POST",
+      url: "/api/files/register",
+      payload: { path: "notes.md", sessionId: "session", instanceId: "instance", ...body },
+    })
+
+  it("doesn't audit reads as modifications", async () => {
+    const response = await register({ mode: "read" })
+
+    assert.equal(response.statusCode, 200)
+    assert.deepEqual(audited, [])
+  })
+
+  it("audits registered writes", async () => {
+    const response = await register({ mode: "write", content: "second" })
+
+    assert.equal(response.statusCode, 200)
+    assert.deepEqual(
+      audited.map((event) => [event.type, event.target]),
+      [["file_modified", "notes.md"]],
+    )
+  })
+
+  it("rejects history and diff requests for files outside the workspace", async () => {
+    const outside = path.join(os.tmpdir(), "outside.txt")
+    for (const url of [
+      `/api/files/history?path=${encodeURIComponent(outside)}`,
+      `/api/files/history?path=${encodeURIComponent("../outside.txt")}`,
+      `/api/files/history/diff?path=${encodeURIComponent(outside)}&from=abc`,
+      `/api/files/history/diff?path=${encodeURIComponent("/etc/passwd")}&from=abc&to=current`,
+    ]) {
+      const response = await app.inject({ method: "GET", url })
+      assert.equal(response.statusCode, 400, url)
+      assert.equal(response.json().error, "path must be inside the workspace")
+    }
+  })
+
+  it("serves history for files inside the workspace", async () => {
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/files/history?path=${encodeURIComponent(path.join(root, "notes.md"))}`,
+    })
+
+    assert.equal(response.statusCode, 200)
+    assert.equal(typeof response.json().currentHash, "string")
+  })
+})
@@ -0,0 +1,169 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify"
+import { z } from "zod"
+import type { AccessTokenStore } from "../../auth/token-store"
+import {
+  buildAuthCookie,
+  buildClearedAuthCookie,
+  extractToken,
+  isLoopbackAddress,
+  isProtectedRoute,
+  stripQueryToken,
+} from "../../auth/request-auth"
+import type { Logger } from "../../logger"
+
+interface AuthDeps {
+  tokenStore: AccessTokenStore
+  /** True when the server is bound to a non-loopback interface. */
+  isAuthRequired: () => boolean
+  /** Close live connections (SSE streams) opened with the given token ids. */
+  onTokensRevoked: (tokenIds: string[]) => void
+  logger: Logger
+}
+
+export interface RequestAuthState {
+  /** "local" requests come from loopback and never need a token. */
+  kind: "local" | "token" | "none"
+  tokenId?: string
+}
+
+type AuthenticatedRequest = FastifyRequest & { __auth?: RequestAuthState }
+
+const LoginSchema = z.object({
+  token: z.string().trim().min(1, "token is required"),
+})
+
+const CreateTokenSchema = z.object({
+  label: z.string().trim().max(80).optional(),
+})
+
+export function getRequestAuth(request: FastifyRequest): RequestAuthState {
+  return (request as AuthenticatedRequest).__auth ?? { kind: "none" }
+}
+
+/**
+ * Install the `onRequest` hook that enforces token auth for remote clients.
+ * Loopback callers (the Electron/Tauri shell, local browsers) stay trusted.
+ */
+export function registerAuthGuard(app: FastifyInstance, deps: AuthDeps) {
+  const log = deps.logger.child({ component: "auth" })
+
+  app.addHook("onRequest", (request, reply, done) => {
+    const authed = request as AuthenticatedRequest
+
+    if (!deps.isAuthRequired() || isLoopbackAddress(request.ip)) {
+      authed.__auth = { kind: "local" }
+      done()
+      return
+    }
+
+    const presented = extractToken(request)
+    const record = presented ? deps.tokenStore.verify(presented.token) : undefined
+    authed.__auth = record ? { kind: "token", tokenId: record.id } : { kind: "none" }
+
+    const rawUrl = request.raw.url ?? "/"
+    const isProtected = isProtectedRoute(request.routeOptions.url, request.is404)
+
+    // Token links (QR codes) land on the UI: persist as a cookie and drop the query param.
+    if (record && presented?.source === "query") {
+      reply.header("Set-Cookie", buildAuthCookie(presented.token))
+      if (request.method === "GET" && !isProtected) {
+        reply.redirect(stripQueryToken(rawUrl), 302)
+        return
+      }
+    }
+
+    if (!record && isProtected) {
+      log.debug({ method: request.method, url: request.url, ip: request.ip }, "Rejected unauthenticated request")
+      reply.code(401).send({ error: "Authentication required", code: "AUTH_REQUIRED" })
+      return
+    }
+
+    done()
+  })
+}
+
+export function registerAuthRoutes(app: FastifyInstance, deps: AuthDeps) {
+  const log = deps.logger.child({ component: "auth" })
+
+  const requireLocal = (request: FastifyRequest, reply: FastifyReply): boolean => {
+    if (getRequestAuth(request).kind === "local") return true
+    reply.code(403).send({ error: "Token management is only available from this device" })
+    return false
+  }
+
+  app.get("/api/auth/status", async (request) => {
+    const auth = getRequestAuth(request)
+    return {
+      required: deps.isAuthRequired(),
+      authenticated: auth.kind !== "none",
+      local: auth.kind === "local",
+    }
+  })
+
+  app.post("/api/auth/login", async (request, reply) => {
+    const parsed = LoginSchema.safeParse(request.body ?? {})
+    if (!parsed.success) {
+      reply.code(400)
+      return { error: parsed.error.issues[0]?.message ?? "token is required" }
+    }
+
+    const record = deps.tokenStore.verify(parsed.data.token)
+    if (!record) {
+      log.warn({ ip: request.ip }, "Rejected login with invalid token")
+      reply.code(401)
+      return { error: "Invalid access token", code: "AUTH_INVALID" }
+    }
+
+    reply.header("Set-Cookie", buildAuthCookie(parsed.data.token))
+    return { authenticated: true }
+  })
+
+  app.post("/api/auth/logout", async (_request, reply) => {
+    reply.header("Set-Cookie", buildClearedAuthCookie())
+    return { authenticated: false }
+  })
+
+  /**
+   * GET /api/auth/tokens/primary
+   * Returns the primary token so the local UI can build shareable links.
+   */
+  app.get("/api/auth/tokens/primary", async (request, reply) => {
+    if (!requireLocal(request, reply)) return
+    const primary = deps.tokenStore.ensurePrimary()
+    return { id: primary.id, token: primary.token, createdAt: primary.createdAt }
+  })
+
+  app.get("/api/auth/tokens", async (request, reply) => {
+    if (!requireLocal(request, reply)) return
+    return { tokens: deps.tokenStore.list() }
+  })
+
+  app.post("/api/auth/tokens", async (request, reply) => {
+    if (!requireLocal(request, reply)) return
+    const body = CreateTokenSchema.parse(request.body ?? {})
+    const record = deps.tokenStore.create(body.label ?? "Token")
+    reply.code(201)
+    return { id: record.id, label: record.label, token: record.token, createdAt: record.createdAt }
+  })
+
+  app.post("/api/auth/tokens/rotate", async (request, reply) => {
+    if (!requireLocal(request, reply)) return
+    const previous = deps.tokenStore.getPrimary()
+    const record = deps.tokenStore.rotatePrimary()
+    if (previous) {
+      deps.onTokensRevoked([previous.id])
+    }
+    return { id: record.id, token: record.token, createdAt: record.createdAt }
+  })
+
+  app.delete<{ Params: { id: string } }>("/api/auth/tokens/:id", async (request, reply) => {
+    if (!requireLocal(request, reply)) return
+    const removed = deps.tokenStore.revoke(request.params.id)
+    if (!removed) {
+      reply.code(404)
+      return { error: "Token not found" }
+    }
+    deps.onTokensRevoked([request.params.id])
+    reply.code(204)
+  })
+}
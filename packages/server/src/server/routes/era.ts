@@ -1,5 +1,17 @@
-import { FastifyInstance } from "fastify"
-import type { EraStatusResponse, UpdateCheckResult } from "../../api-types"
+import { FastifyInstance, FastifyReply } from "fastify"
+import type {
+  AuditEventsQuery,
+  BeadsIssuesQuery,
+  CreateGateRequest,
+  CreateHandoffRequest,
+  EraStatusResponse,
+  GateDecisionRequest,
+  GateSource,
+  GateStatus,
+  GateType,
+  HandoffReason,
+  UpdateCheckResult,
+} from "../../api-types"
 import type { EraDetectionService } from "../../era/detection"
 import type { EraGovernanceService } from "../../era/governance"
 import type { UpdateMonitor } from "../../updates/update-monitor"
@@ -25,16 +37,39 @@ import {
   type DedupOverlap,
 } from "../../services/instruction-retrieval"
 import { EraMemoryClient } from "../../services/era-memory-client"
+import type { AuditTrailService, AuditExportFormat } from "../../services/audit-trail"
+import type { BeadsTracker } from "../../services/beads-tracker"
+import type { FormulaLoader } from "../../services/formula-loader"
+import { PlanRunnerError, type PlanRunner } from "../../services/plan-runner"
+import { GateError, type GateService } from "../../services/gate-service"
+import { HandoffError, type HandoffService } from "../../services/handoff-service"
 
 interface RouteDeps {
   eraDetection: EraDetectionService
   eraGovernance: EraGovernanceService
   updateMonitor?: UpdateMonitor
+  auditTrail?: AuditTrailService
+  beadsTracker?: BeadsTracker
+  formulaLoader?: FormulaLoader
+  planRunner?: PlanRunner
+  gateService?: GateService
+  handoffService?: HandoffService
   logger: Logger
 }
 
 export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
-  const { eraDetection, eraGovernance, updateMonitor, logger } = deps
+  const {
+    eraDetection,
+    eraGovernance,
+    updateMonitor,
+    auditTrail,
+    beadsTracker,
+    formulaLoader,
+    planRunner,
+    gateService,
+    handoffService,
+    logger,
+  } = deps
 
   function validateFolder(folder: string | undefined): string | undefined {
     if (!folder) return undefined
@@ -297,7 +332,17 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
     }
 
     logger.info({ ruleId, action, scope, folder }, "Setting governance rule")
-    return eraGovernance.setRuleAction(ruleId, action, scope, folder)
+    const result = eraGovernance.setRuleAction(ruleId, action, scope, folder)
+    if (result.success) {
+      auditTrail?.recordAsync(folder, {
+        type: "governance_override",
+        actor: { agentType: "user" },
+        target: ruleId,
+        description: `Set rule ${ruleId} to ${action} (${scope})`,
+        metadata: { action, scope },
+      })
+    }
+    return result
   })
 
   /**
@@ -325,7 +370,17 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
     }
 
     logger.info({ key, value, scope, folder }, "Setting governance setting")
-    return eraGovernance.setValue(`settings.${key}`, value, scope, folder)
+    const result = eraGovernance.setValue(`settings.${key}`, value, scope, folder)
+    if (result.success) {
+      auditTrail?.recordAsync(folder, {
+        type: "governance_setting",
+        actor: { agentType: "user" },
+        target: key,
+        description: `Set governance setting ${key} = ${value} (${scope})`,
+        metadata: { value, scope },
+      })
+    }
+    return result
   })
 
   /**
@@ -372,6 +427,15 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
 
     logger.info({ ruleId, action, folder }, "Setting governance override (legacy)")
     const result = eraGovernance.setRuleAction(ruleId, action, "project", folder)
+    if (result.success) {
+      auditTrail?.recordAsync(folder, {
+        type: "governance_override",
+        actor: { agentType: "user" },
+        target: ruleId,
+        description: `Overrode rule ${ruleId} to ${action}`,
+        metadata: { action, scope: "project", justification: request.body?.justification },
+      })
+    }
     return result.success ? { success: true } : result
   })
 
@@ -399,6 +463,15 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
 
     logger.info({ ruleId, folder }, "Removing governance override (legacy)")
     const result = eraGovernance.setRuleAction(ruleId, "deny", "project", folder)
+    if (result.success) {
+      auditTrail?.recordAsync(folder, {
+        type: "governance_override",
+        actor: { agentType: "user" },
+        target: ruleId,
+        description: `Removed override for rule ${ruleId}`,
+        metadata: { action: "deny", scope: "project" },
+      })
+    }
     return result.success ? { success: true } : result
   })
 
@@ -508,6 +581,14 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
       await fs.mkdir(path.dirname(targetPath), { recursive: true })
       await fs.writeFile(targetPath, content, "utf-8")
 
+      auditTrail?.recordAsync(type === "global" ? undefined : folder, {
+        type: "directive_edited",
+        actor: { agentType: "user" },
+        target: targetPath,
+        description: `Saved ${type} directives (${content.length} chars)`,
+        metadata: { scope: type },
+      })
+
       return {
         success: true,
         path: targetPath,
@@ -685,6 +766,15 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
 
     try {
       const result = await governanceWriter.deleteInstruction(body)
+      if (body.storageType === "directive") {
+        auditTrail?.recordAsync(body.projectPath, {
+          type: "directive_edited",
+          actor: { agentType: "user" },
+          target: body.id,
+          description: `Deleted directive ${body.id}`,
+          metadata: { category: body.category, operation: "delete" },
+        })
+      }
       return result
     } catch (err) {
       logger.error({ err }, "Failed to delete instruction")
@@ -706,6 +796,15 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
 
     try {
       const result = await governanceWriter.editInstruction(body)
+      if (body.storageType === "directive") {
+        auditTrail?.recordAsync(body.projectPath, {
+          type: "directive_edited",
+          actor: { agentType: "user" },
+          target: body.id,
+          description: `Edited directive ${body.id}`,
+          metadata: { category: body.category, operation: "edit" },
+        })
+      }
       return result
     } catch (err) {
       logger.error({ err }, "Failed to edit instruction")
@@ -981,12 +1080,13 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
     try {
       const binary = eraDetection.detectBinary()
       const governanceOk = folder ? eraGovernance.getConfig(folder).success : false
+      const beadsOk = folder && beadsTracker ? beadsTracker.hasStore(folder) : false
 
       return {
         checks: [
           { name: "era-code", status: binary.installed ? "healthy" : "error", message: binary.installed ? `v${binary.version}` : "Not installed" },
           { name: "governance", status: governanceOk ? "healthy" : folder ? "warning" : "unknown", message: governanceOk ? "Config loaded" : folder ? "No governance config" : "No project folder" },
-          { name: "beads", status: "unknown", message: "Beads integration pending" },
+          { name: "beads", status: beadsOk ? "healthy" : "unknown", message: beadsOk ? "Issue store found" : folder ? "No .beads store" : "No project folder" },
           { name: "mcp-servers", status: "healthy", message: "Available" },
         ],
         overall: binary.installed ? "healthy" : "error",
@@ -1004,35 +1104,97 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
 
   /**
    * GET /api/era/beads/issues
-   * Returns beads issues for the project (empty until beads integration is wired).
+   * Returns issues from the project's `.beads/` store, filtered by status, priority and assignee.
    */
   app.get<{
-    Querystring: { folder?: string; status?: string }
-  }>("/api/era/beads/issues", async (request) => {
-    logger.debug({ folder: request.query.folder }, "Getting beads issues")
-    return { issues: [], total: 0 }
+    Querystring: BeadsIssuesQuery & { folder?: string }
+  }>("/api/era/beads/issues", async (request, reply) => {
+    const folder = validateFolder(request.query.folder)
+    logger.debug({ folder }, "Getting beads issues")
+    if (!folder || !beadsTracker) {
+      return { issues: [], total: 0, statusCounts: {}, available: false }
+    }
+
+    try {
+      const { status, priority, assignee } = request.query
+      return await beadsTracker.listIssues(folder, { status, priority, assignee })
+    } catch (err) {
+      logger.error({ err, folder }, "Failed to read beads issues")
+      reply.code(500)
+      return { error: "Failed to read beads issues" }
+    }
   })
 
   /**
    * GET /api/era/beads/graph
-   * Returns beads dependency graph (empty until beads integration is wired).
+   * Returns the beads dependency graph with the ready-to-work set and any dependency cycles.
    */
   app.get<{
     Querystring: { folder?: string }
-  }>("/api/era/beads/graph", async (request) => {
-    logger.debug({ folder: request.query.folder }, "Getting beads dependency graph")
-    return { nodes: [], edges: [] }
+  }>("/api/era/beads/graph", async (request, reply) => {
+    const folder = validateFolder(request.query.folder)
+    logger.debug({ folder }, "Getting beads dependency graph")
+    if (!folder || !beadsTracker) {
+      return { nodes: [], edges: [], ready: [], cycles: [], available: false }
+    }
+
+    try {
+      return await beadsTracker.getGraph(folder)
+    } catch (err) {
+      logger.error({ err, folder }, "Failed to build beads graph")
+      reply.code(500)
+      return { error: "Failed to build beads graph" }
+    }
   })
 
   /**
    * GET /api/era/audit/events
-   * Returns audit trail events (empty until audit trail service is wired).
+   * Returns audit trail events newest-first. Pass `nextCursor` back as `cursor` for the next page.
    */
   app.get<{
-    Querystring: { folder?: string; actor?: string; type?: string; since?: string; limit?: string }
+    Querystring: { folder?: string; actor?: string; type?: string; since?: string; limit?: string; cursor?: string }
   }>("/api/era/audit/events", async (request) => {
-    logger.debug({ folder: request.query.folder, actor: request.query.actor }, "Getting audit events")
-    return { events: [], total: 0 }
+    const folder = validateFolder(request.query.folder)
+    logger.debug({ folder, actor: request.query.actor }, "Getting audit events")
+
+    if (!auditTrail) {
+      return { events: [], total: 0, nextCursor: null }
+    }
+
+    try {
+      return await auditTrail.query(folder, toAuditQuery(request.query))
+    } catch (err) {
+      logger.error({ err, folder }, "Failed to read audit events")
+      return { events: [], total: 0, nextCursor: null }
+    }
+  })
+
+  /**
+   * GET /api/era/audit/export
+   * Download every matching audit event as JSONL (default) or CSV.
+   */
+  app.get<{
+    Querystring: { folder?: string; actor?: string; type?: string; since?: string; format?: string }
+  }>("/api/era/audit/export", async (request, reply) => {
+    const folder = validateFolder(request.query.folder)
+    const format: AuditExportFormat = request.query.format === "csv" ? "csv" : "jsonl"
+
+    if (!auditTrail) {
+      reply.code(503)
+      return { error: "Audit trail not available" }
+    }
+
+    try {
+      const body = await auditTrail.export(folder, toAuditQuery(request.query), format)
+      reply
+        .header("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8")
+        .header("Content-Disposition", `attachment; filename="audit-events.${format}"`)
+      return body
+    } catch (err) {
+      logger.error({ err, folder }, "Failed to export audit events")
+      reply.code(500)
+      return { error: err instanceof Error ? err.message : "Unknown error" }
+    }
   })
 
   /**
@@ -1117,55 +1279,64 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
   // Phase 7: Workflow Formulas & Plan Execution
   // =========================================================================
 
-  /** GET /api/era/formulas — List available workflow formulas */
+  /** GET /api/era/formulas — List workflow formulas from the project and global formula directories */
   app.get<{
     Querystring: { folder?: string }
   }>("/api/era/formulas", async (request) => {
+    const folder = validateFolder(request.query.folder)
+    if (!formulaLoader) return { formulas: [], errors: [] }
     try {
-      // Return sample formulas for UI development; real formulas come from era-code
-      return {
-        formulas: [
-          {
-            name: "deploy-service",
-            description: "Build, test, and deploy a service to production with approval gate",
-            source: "built-in",
-            variables: [
-              { name: "service_name", type: "string", required: true, description: "Service to deploy" },
-              { name: "version", type: "string", default: "latest", description: "Version tag" },
-              { name: "replicas", type: "number", default: 3, description: "Number of replicas" },
-            ],
-            steps: [
-              { id: "build", name: "Build", action: "build" },
-              { id: "test", name: "Test", action: "test", dependsOn: ["build"] },
-              { id: "approve", name: "Approval gate", action: "gate", dependsOn: ["test"], gate: "human" },
-              { id: "deploy", name: "Deploy", action: "deploy", dependsOn: ["approve"] },
-              { id: "verify", name: "Verify", action: "verify", dependsOn: ["deploy"] },
-            ],
-            tags: ["deploy", "production"],
-            parallelism: 1,
-          },
-          {
-            name: "full-test-suite",
-            description: "Run unit, integration, and e2e tests with coverage reporting",
-            source: "project",
-            variables: [
-              { name: "test_pattern", type: "string", default: "**/*.test.ts", description: "Test glob pattern" },
-              { name: "coverage", type: "boolean", default: true, description: "Enable coverage" },
-            ],
-            steps: [
-              { id: "unit", name: "Unit tests", action: "test" },
-              { id: "integration", name: "Integration tests", action: "test" },
-              { id: "e2e", name: "E2E tests", action: "test" },
-              { id: "report", name: "Coverage report", action: "report", dependsOn: ["unit", "integration", "e2e"] },
-            ],
-            tags: ["test", "ci"],
-            parallelism: 3,
-          },
-        ],
-      }
+      return await formulaLoader.list(folder)
     } catch (err) {
       logger.error({ err }, "Failed to fetch formulas")
-      return { formulas: [] }
+      return { formulas: [], errors: [] }
+    }
+  })
+
+  /**
+   * POST /api/era/plans
+   * Instantiate a formula with variables and start executing it.
+   */
+  app.post<{
+    Body: { folder?: string; formula?: string; variables?: Record<string, unknown>; workspaceId?: string; sessionId?: string }
+  }>("/api/era/plans", async (request, reply) => {
+    const body = request.body ?? {}
+    const folder = validateFolder(body.folder)
+    if (!folder || !body.formula) {
+      reply.code(400)
+      return { error: "folder and formula are required" }
+    }
+    if (!planRunner) {
+      reply.code(503)
+      return { error: "Plan runner unavailable" }
+    }
+
+    try {
+      const plan = await planRunner.start({
+        folder,
+        formula: body.formula,
+        variables: body.variables,
+        workspaceId: body.workspaceId,
+        sessionId: body.sessionId,
+      })
+      reply.code(201)
+      return { plan }
+    } catch (err) {
+      return sendPlanError(reply, err, "Failed to start plan")
+    }
+  })
+
+  /** GET /api/era/plans — List plans for a project, newest first */
+  app.get<{
+    Querystring: { folder?: string }
+  }>("/api/era/plans", async (request) => {
+    const folder = validateFolder(request.query.folder)
+    if (!folder || !planRunner) return { plans: [] }
+    try {
+      return { plans: await planRunner.list(folder) }
+    } catch (err) {
+      logger.error({ err }, "Failed to list plans")
+      return { plans: [] }
     }
   })
 
@@ -1173,33 +1344,89 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
   app.get<{
     Querystring: { planId?: string; folder?: string }
   }>("/api/era/plans/status", async (request) => {
+    const { planId } = request.query
+    const folder = validateFolder(request.query.folder)
+    if (!planId || !planRunner) return { plan: null }
     try {
-      const { planId } = request.query
-      if (!planId) return { plan: null }
-
-      // Return placeholder plan status; real plans come from era-code runtime
-      return {
-        plan: {
-          id: planId,
-          formulaName: "deploy-service",
-          status: "pending",
-          steps: [
-            { id: "p1", stepId: "build", name: "Build", action: "build", status: "pending", dependsOn: [] },
-            { id: "p2", stepId: "test", name: "Test", action: "test", status: "pending", dependsOn: ["build"] },
-            { id: "p3", stepId: "approve", name: "Approval gate", action: "gate", status: "pending", dependsOn: ["test"], gateType: "human" },
-            { id: "p4", stepId: "deploy", name: "Deploy", action: "deploy", status: "pending", dependsOn: ["approve"] },
-          ],
-          checkpoints: [],
-          details: [],
-          createdAt: new Date().toISOString(),
-        },
-      }
+      return { plan: (await planRunner.get(planId, folder)) ?? null }
     } catch (err) {
       logger.error({ err }, "Failed to fetch plan status")
       return { plan: null }
     }
   })
 
+  /**
+   * POST /api/era/plans/:planId/gates/:stepId
+   * Approve or reject a step paused on a human gate.
+   */
+  app.post<{
+    Params: { planId: string; stepId: string }
+    Body: { folder?: string; approved?: boolean; comment?: string }
+  }>("/api/era/plans/:planId/gates/:stepId", async (request, reply) => {
+    const body = request.body ?? {}
+    if (typeof body.approved !== "boolean") {
+      reply.code(400)
+      return { error: "approved must be a boolean" }
+    }
+    if (!planRunner) {
+      reply.code(503)
+      return { error: "Plan runner unavailable" }
+    }
+    try {
+      const plan = await planRunner.decideGate(
+        request.params.planId,
+        request.params.stepId,
+        { approved: body.approved, comment: body.comment },
+        validateFolder(body.folder),
+      )
+      return { plan }
+    } catch (err) {
+      return sendPlanError(reply, err, "Failed to record gate decision")
+    }
+  })
+
+  /** POST /api/era/plans/:planId/cancel — Stop a plan and skip its remaining steps */
+  app.post<{
+    Params: { planId: string }
+    Body: { folder?: string }
+  }>("/api/era/plans/:planId/cancel", async (request, reply) => {
+    if (!planRunner) {
+      reply.code(503)
+      return { error: "Plan runner unavailable" }
+    }
+    try {
+      return { plan: await planRunner.cancel(request.params.planId, validateFolder(request.body?.folder)) }
+    } catch (err) {
+      return sendPlanError(reply, err, "Failed to cancel plan")
+    }
+  })
+
+  /** POST /api/era/plans/:planId/resume — Resume a paused or interrupted plan, retrying failed steps */
+  app.post<{
+    Params: { planId: string }
+    Body: { folder?: string }
+  }>("/api/era/plans/:planId/resume", async (request, reply) => {
+    if (!planRunner) {
+      reply.code(503)
+      return { error: "Plan runner unavailable" }
+    }
+    try {
+      return { plan: await planRunner.resume(request.params.planId, validateFolder(request.body?.folder)) }
+    } catch (err) {
+      return sendPlanError(reply, err, "Failed to resume plan")
+    }
+  })
+
+  function sendPlanError(reply: FastifyReply, err: unknown, message: string) {
+    if (err instanceof PlanRunnerError) {
+      reply.code(err.statusCode)
+      return { error: err.message, issues: err.issues }
+    }
+    logger.error({ err }, message)
+    reply.code(500)
+    return { error: message }
+  }
+
   // =========================================================================
   // Phase 8: Agent Lifecycle, Gates, Swarm, Handoffs
   // =========================================================================
@@ -1234,31 +1461,219 @@ export function registerEraRoutes(app: FastifyInstance, deps: RouteDeps) {
     }
   })
 
-  /** GET /api/era/gates/status — Gate statuses */
+  /** GET /api/era/gates/status — Gates filtered by plan, session, project folder and status */
   app.get<{
-    Querystring: { planId?: string }
-  }>("/api/era/gates/status", async (request) => {
-    const _planId = request.query.planId
-    try {
+    Querystring: { planId?: string; sessionId?: string; folder?: string; status?: string }
+  }>("/api/era/gates/status", async (request, reply) => {
+    const { planId, sessionId, folder, status } = request.query
+    if (status && !GATE_STATUSES.includes(status as GateStatus)) {
+      reply.code(400)
+      return { error: `status must be one of: ${GATE_STATUSES.join(", ")}` }
+    }
+    if (!gateService) {
       return { gates: [] }
+    }
+    return {
+      gates: gateService.list({
+        planId: planId || undefined,
+        sessionId: sessionId || undefined,
+        folder: validateFolder(folder),
+        status: (status as GateStatus) || undefined,
+      }),
+    }
+  })
+
+  /**
+   * POST /api/era/gates
+   * Open a gate on behalf of a governance rule or an agent asking for sign-off.
+   */
+  app.post<{ Body: Partial<CreateGateRequest> }>("/api/era/gates", async (request, reply) => {
+    const body = request.body ?? {}
+    if (typeof body.title !== "string" || !body.title.trim()) {
+      reply.code(400)
+      return { error: "title is required" }
+    }
+    if (body.type !== undefined && !GATE_TYPES.includes(body.type as GateType)) {
+      reply.code(400)
+      return { error: `type must be one of: ${GATE_TYPES.join(", ")}` }
+    }
+    if (body.source !== undefined && !GATE_SOURCES.includes(body.source as GateSource)) {
+      reply.code(400)
+      return { error: `source must be one of: ${GATE_SOURCES.join(", ")}` }
+    }
+    if (body.timeoutMinutes !== undefined && (typeof body.timeoutMinutes !== "number" || body.timeoutMinutes < 0)) {
+      reply.code(400)
+      return { error: "timeoutMinutes must be a non-negative number" }
+    }
+    if (!gateService) {
+      reply.code(503)
+      return { error: "Gate service unavailable" }
+    }
+
+    const gate = gateService.create({
+      type: body.type,
+      source: body.source ?? "agent",
+      title: body.title.trim(),
+      description: body.description,
+      folder: validateFolder(body.folder),
+      planId: body.planId,
+      stepId: body.stepId,
+      sessionId: body.sessionId,
+      instanceId: body.instanceId,
+      timeoutMinutes: body.timeoutMinutes,
+      waiters: Array.isArray(body.waiters) ? body.waiters.map(String) : undefined,
+      metadata: body.metadata && typeof body.metadata === "object" ? body.metadata : undefined,
+    })
+    reply.code(201)
+    return { gate }
+  })
+
+  /**
+   * GET /api/era/gates/:gateId
+   * Fetch a gate. `?waitSeconds=N` long-polls until it is decided (max 60s).
+   */
+  app.get<{
+    Params: { gateId: string }
+    Querystring: { waitSeconds?: string }
+  }>("/api/era/gates/:gateId", async (request, reply) => {
+    if (!gateService) {
+      reply.code(503)
+      return { error: "Gate service unavailable" }
+    }
+    const waitSeconds = Math.min(Math.max(Number.parseInt(request.query.waitSeconds ?? "0", 10) || 0, 0), 60)
+    const gate = await gateService.wait(request.params.gateId, waitSeconds * 1000)
+    if (!gate) {
+      reply.code(404)
+      return { error: "Gate not found" }
+    }
+    return { gate }
+  })
+
+  /** POST /api/era/gates/:gateId/approve — Approve a waiting gate */
+  app.post<{
+    Params: { gateId: string }
+    Body: GateDecisionRequest
+  }>("/api/era/gates/:gateId/approve", async (request, reply) => {
+    if (!gateService) {
+      reply.code(503)
+      return { error: "Gate service unavailable" }
+    }
+    try {
+      return { gate: gateService.approve(request.params.gateId, decisionFrom(request.body)) }
     } catch (err) {
-      logger.error({ err }, "Failed to fetch gates")
-      return { gates: [] }
+      return sendGateError(reply, err, "Failed to approve gate")
     }
   })
 
-  /** GET /api/era/handoffs — Session handoffs */
+  /** POST /api/era/gates/:gateId/reject — Reject a waiting gate */
+  app.post<{
+    Params: { gateId: string }
+    Body: GateDecisionRequest
+  }>("/api/era/gates/:gateId/reject", async (request, reply) => {
+    if (!gateService) {
+      reply.code(503)
+      return { error: "Gate service unavailable" }
+    }
+    try {
+      return { gate: gateService.reject(request.params.gateId, decisionFrom(request.body)) }
+    } catch (err) {
+      return sendGateError(reply, err, "Failed to reject gate")
+    }
+  })
+
+  function sendGateError(reply: FastifyReply, err: unknown, message: string) {
+    if (err instanceof GateError) {
+      reply.code(err.statusCode)
+      return { error: err.message }
+    }
+    logger.error({ err }, message)
+    reply.code(500)
+    return { error: message }
+  }
+
+  /** GET /api/era/handoffs — Handoffs for a project, or the handoff chain a session belongs to */
   app.get<{
-    Querystring: { sessionId?: string }
+    Querystring: { sessionId?: string; folder?: string }
   }>("/api/era/handoffs", async (request) => {
-    const _sessionId = request.query.sessionId
-    try {
+    if (!handoffService) {
       return { handoffs: [], chain: [] }
+    }
+    try {
+      return await handoffService.list({
+        sessionId: request.query.sessionId || undefined,
+        folder: validateFolder(request.query.folder),
+      })
     } catch (err) {
       logger.error({ err }, "Failed to fetch handoffs")
       return { handoffs: [], chain: [] }
     }
   })
+
+  /**
+   * POST /api/era/handoffs
+   * Summarize a session into a handoff document and continue in a new session.
+   */
+  app.post<{ Body: Partial<CreateHandoffRequest> }>("/api/era/handoffs", async (request, reply) => {
+    const body = request.body ?? {}
+    if (!body.instanceId || !body.sessionId) {
+      reply.code(400)
+      return { error: "instanceId and sessionId are required" }
+    }
+    if (body.reason !== undefined && !HANDOFF_REASONS.includes(body.reason as HandoffReason)) {
+      reply.code(400)
+      return { error: `reason must be one of: ${HANDOFF_REASONS.join(", ")}` }
+    }
+    if (!handoffService) {
+      reply.code(503)
+      return { error: "Handoff service unavailable" }
+    }
+
+    try {
+      const handoff = await handoffService.create({
+        instanceId: body.instanceId,
+        sessionId: body.sessionId,
+        reason: body.reason,
+        contextUsage: typeof body.contextUsage === "number" ? body.contextUsage : undefined,
+        note: typeof body.note === "string" ? body.note : undefined,
+      })
+      reply.code(201)
+      return { handoff }
+    } catch (err) {
+      if (err instanceof HandoffError) {
+        reply.code(err.statusCode)
+        return { error: err.message }
+      }
+      logger.error({ err }, "Failed to create handoff")
+      reply.code(500)
+      return { error: "Failed to create handoff" }
+    }
+  })
+}
+
+const GATE_STATUSES: GateStatus[] = ["waiting", "resolved", "rejected", "timed-out", "cancelled"]
+const GATE_TYPES: GateType[] = ["gh:run", "gh:pr", "timer", "human", "mail"]
+const GATE_SOURCES: GateSource[] = ["plan", "governance", "agent", "manual"]
+const HANDOFF_REASONS: HandoffReason[] = ["context_exhaustion", "error", "manual"]
+
+function decisionFrom(body: GateDecisionRequest | undefined): GateDecisionRequest {
+  return {
+    comment: typeof body?.comment === "string" ? body.comment : undefined,
+    resolvedBy: typeof body?.resolvedBy === "string" && body.resolvedBy.trim() ? body.resolvedBy.trim() : undefined,
+  }
+}
+
+/**
+ * Normalize audit query-string values into an AuditEventsQuery
+ */
+function toAuditQuery(query: { actor?: string; type?: string; since?: string; limit?: string; cursor?: string }): AuditEventsQuery {
+  const limit = query.limit ? Number.parseInt(query.limit, 10) : undefined
+  return {
+    actor: query.actor || undefined,
+    type: query.type || undefined,
+    since: query.since || undefined,
+    limit: Number.isFinite(limit) ? limit : undefined,
+    cursor: query.cursor || undefined,
+  }
 }
 
 /**
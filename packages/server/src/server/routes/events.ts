@@ -2,10 +2,11 @@ import { FastifyInstance } from "fastify"
 import { EventBus } from "../../events/bus"
 import { WorkspaceEventPayload } from "../../api-types"
 import { Logger } from "../../logger"
+import { getRequestAuth } from "./auth"
 
 interface RouteDeps {
   eventBus: EventBus
-  registerClient: (cleanup: () => void) => () => void
+  registerClient: (cleanup: () => void, tokenId?: string) => () => void
   logger: Logger
 }
 
@@ -16,9 +17,12 @@ export function registerEventRoutes(app: FastifyInstance, deps: RouteDeps) {
     const clientId = ++nextClientId
     deps.logger.debug({ clientId }, "SSE client connected")
 
-    const origin = request.headers.origin ?? "*"
-    reply.raw.setHeader("Access-Control-Allow-Origin", origin)
-    reply.raw.setHeader("Access-Control-Allow-Credentials", "true")
+    // Hijacked replies skip Fastify's headers: carry over what the CORS hook allowed
+    const allowedOrigin = reply.getHeader("Access-Control-Allow-Origin")
+    if (allowedOrigin !== undefined) {
+      reply.raw.setHeader("Access-Control-Allow-Origin", allowedOrigin)
+      reply.raw.setHeader("Access-Control-Allow-Credentials", "true")
+    }
     reply.raw.setHeader("Content-Type", "text/event-stream")
     reply.raw.setHeader("Cache-Control", "no-cache")
     reply.raw.setHeader("Connection", "keep-alive")
@@ -48,7 +52,8 @@ export function registerEventRoutes(app: FastifyInstance, deps: RouteDeps) {
       deps.logger.debug({ clientId }, "SSE client disconnected")
     }
 
-    const unregister = deps.registerClient(close)
+    // Streams opened with an access token are closed when that token is revoked
+    const unregister = deps.registerClient(close, getRequestAuth(request).tokenId)
 
     const handleClose = () => {
       close()
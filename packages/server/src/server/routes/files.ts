@@ -2,10 +2,13 @@
  * File Conflict Management API Routes
  *
  * Provides REST endpoints for tracking files, detecting conflicts,
- * and resolving merge conflicts between sessions.
+ * and resolving merge conflicts between sessions. Routes live under
+ * `/api/workspaces/:id/files/` and use the detector the workspace manager
+ * runs for the workspace; `/api/files/` with a `workspaceRoot` parameter is
+ * kept for older clients.
  */
 
-import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify"
+import { FastifyInstance, FastifyRequest } from "fastify"
 import * as path from "path"
 import * as fs from "fs"
 import {
@@ -16,12 +19,27 @@ import {
 } from "../../filesystem/conflict-detector.js"
 import { FileChangeTracker, getFileChangeTracker } from "../../filesystem/file-change-tracker.js"
 import { MergeService, getMergeService } from "../../filesystem/merge-service.js"
+import { WorkspaceFileWriteError, writeWorkspaceFile } from "../../filesystem/workspace-file-writer.js"
 import { EventBus } from "../../events/bus.js"
 import { Logger } from "../../logger.js"
+import type { AuditTrailService } from "../../services/audit-trail.js"
+import type { CheckpointService } from "../../services/checkpoint-service.js"
+import type { WorkspaceManager } from "../../workspaces/manager.js"
+import type {
+  FileHistoryResponse,
+  FileHistoryVersion,
+  FileRestoreRequest,
+  FileVersionContentResponse,
+  FileVersionDiffResponse,
+} from "../../api-types.js"
 
 interface FileRouteDeps {
   eventBus: EventBus
+  workspaceManager: WorkspaceManager
+  /** Root for the deprecated `/api/files` routes when a request names none */
   workspaceRoot?: string
+  auditTrail?: AuditTrailService
+  checkpointService?: CheckpointService
   logger: Logger
 }
 
@@ -59,6 +77,8 @@ interface ConflictInfo {
       ours: string
       theirs: string
     }>
+    strategy?: string
+    fallbackFrom?: string
   }
   timestamp: number
   isBinary: boolean
@@ -73,10 +93,20 @@ interface ConflictDetailResponse extends ConflictInfo {
   }
 }
 
+/** The file tracking a request works on, or why it has none */
+type ResolvedFileScope =
+  | { workspaceRoot: string; detector: ConflictDetector }
+  | { status: number; error: string }
+
+interface FileRouteScope {
+  prefix: string
+  resolve(request: FastifyRequest): ResolvedFileScope
+}
+
 export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
   const log = deps.logger.child({ component: "file-routes" })
 
-  // Middleware to get or create conflict detector
+  // Legacy routes track any root they are given, starting a detector on first use
   const getDetector = (workspaceRoot: string): ConflictDetector => {
     let detector = getConflictDetector(workspaceRoot)
     if (!detector) {
@@ -90,19 +120,108 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
     return detector
   }
 
+  const scopes: FileRouteScope[] = [
+    {
+      // A workspace's detector runs while its instance does
+      prefix: "/api/workspaces/:id/files",
+      resolve: (request) => {
+        const { id } = request.params as { id: string }
+        const workspace = deps.workspaceManager.get(id)
+        if (!workspace) {
+          return { status: 404, error: "Workspace not found" }
+        }
+        const detector = deps.workspaceManager.getConflictDetector(id)
+        if (!detector) {
+          return { status: 409, error: "Workspace is not running" }
+        }
+        return { workspaceRoot: workspace.path, detector }
+      },
+    },
+    {
+      // Deprecated: the root comes from `workspaceRoot` in the query or body
+      prefix: "/api/files",
+      resolve: (request) => {
+        const source = (request.method === "GET" ? request.query : request.body) as
+          | { workspaceRoot?: string }
+          | undefined
+        const workspaceRoot = source?.workspaceRoot ?? deps.workspaceRoot
+        if (!workspaceRoot) {
+          return { status: 400, error: "workspaceRoot is required" }
+        }
+        return { workspaceRoot, detector: getDetector(workspaceRoot) }
+      },
+    },
+  ]
+
+  for (const scope of scopes) {
+    registerScopedFileRoutes(app, scope, deps, log)
+  }
+
+  /**
+   * POST /api/files/merge-preview
+   * Preview a 3-way merge without applying it
+   */
+  app.post<{
+    Body: {
+      base: string
+      ours: string
+      theirs: string
+      filePath?: string
+    }
+  }>("/api/files/merge-preview", async (request, reply) => {
+    const { base, ours, theirs, filePath } = request.body
+
+    if (base === undefined || ours === undefined || theirs === undefined) {
+      return reply.code(400).send({ error: "base, ours, and theirs are required" })
+    }
+
+    try {
+      const merger = getMergeService()
+      const result = merger.merge({
+        filePath: filePath ?? "unknown",
+        base,
+        ours,
+        theirs,
+      })
+
+      return reply.send({
+        success: result.success,
+        merged: result.merged,
+        hasConflicts: result.hasConflicts,
+        conflicts: result.conflicts,
+        stats: result.stats,
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error"
+      const stack = error instanceof Error ? error.stack : undefined
+      log.error({ error, message, stack, base, ours, theirs, filePath }, "Merge preview failed")
+      return reply.code(500).send({ error: message, stack })
+    }
+  })
+}
+
+/**
+ * Routes that work on one workspace's tracking, registered once per scope.
+ * Paths are documented with the workspace prefix; the deprecated
+ * `/api/files` prefix serves the same routes.
+ */
+function registerScopedFileRoutes(
+  app: FastifyInstance,
+  scope: FileRouteScope,
+  deps: FileRouteDeps,
+  log: Logger
+) {
   /**
-   * GET /api/files/tracked
+   * GET /api/workspaces/:id/files/tracked
    * List all tracked files with session info
    */
-  app.get<{
-    Querystring: { workspaceRoot?: string }
-  }>("/api/files/tracked", async (request, reply) => {
-    const workspaceRoot = request.query.workspaceRoot ?? deps.workspaceRoot
-    if (!workspaceRoot) {
-      return reply.code(400).send({ error: "workspaceRoot is required" })
+  app.get(`${scope.prefix}/tracked`, async (request, reply) => {
+    const resolved = scope.resolve(request)
+    if ("error" in resolved) {
+      return reply.code(resolved.status).send({ error: resolved.error })
     }
+    const { detector } = resolved
 
-    const detector = getDetector(workspaceRoot)
     const tracker = detector.getTracker()
     const trackedFiles = tracker.getAllTrackedFiles()
     const conflicts = detector.getActiveConflicts()
@@ -141,18 +260,16 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
   })
 
   /**
-   * GET /api/files/conflicts
+   * GET /api/workspaces/:id/files/conflicts
    * List active conflicts
    */
-  app.get<{
-    Querystring: { workspaceRoot?: string }
-  }>("/api/files/conflicts", async (request, reply) => {
-    const workspaceRoot = request.query.workspaceRoot ?? deps.workspaceRoot
-    if (!workspaceRoot) {
-      return reply.code(400).send({ error: "workspaceRoot is required" })
+  app.get(`${scope.prefix}/conflicts`, async (request, reply) => {
+    const resolved = scope.resolve(request)
+    if ("error" in resolved) {
+      return reply.code(resolved.status).send({ error: resolved.error })
     }
+    const { detector } = resolved
 
-    const detector = getDetector(workspaceRoot)
     const conflicts = detector.getActiveConflicts()
 
     const response: ConflictInfo[] = conflicts.map((c) => ({
@@ -170,20 +287,19 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
   })
 
   /**
-   * GET /api/files/conflicts/:id
+   * GET /api/workspaces/:id/files/conflicts/:conflictId
    * Get conflict details with diff
    */
   app.get<{
-    Params: { id: string }
-    Querystring: { workspaceRoot?: string }
-  }>("/api/files/conflicts/:id", async (request, reply) => {
-    const { id } = request.params
-    const workspaceRoot = request.query.workspaceRoot ?? deps.workspaceRoot
-    if (!workspaceRoot) {
-      return reply.code(400).send({ error: "workspaceRoot is required" })
+    Params: { conflictId: string }
+  }>(`${scope.prefix}/conflicts/:conflictId`, async (request, reply) => {
+    const { conflictId: id } = request.params
+    const resolved = scope.resolve(request)
+    if ("error" in resolved) {
+      return reply.code(resolved.status).send({ error: resolved.error })
     }
+    const { detector } = resolved
 
-    const detector = getDetector(workspaceRoot)
     const conflict = detector.getConflict(id)
 
     if (!conflict) {
@@ -242,25 +358,24 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
   })
 
   /**
-   * POST /api/files/conflicts/:id/resolve
+   * POST /api/workspaces/:id/files/conflicts/:conflictId/resolve
    * Resolve a conflict
    */
   app.post<{
-    Params: { id: string }
+    Params: { conflictId: string }
     Body: {
       resolution: "auto-merged" | "keep-ours" | "keep-theirs" | "manual"
       content?: string
       sessionId: string
-      workspaceRoot?: string
     }
-  }>("/api/files/conflicts/:id/resolve", async (request, reply) => {
-    const { id } = request.params
-    const { resolution, content, sessionId, workspaceRoot: bodyWorkspaceRoot } = request.body
-    const workspaceRoot = bodyWorkspaceRoot ?? deps.workspaceRoot
-
-    if (!workspaceRoot) {
-      return reply.code(400).send({ error: "workspaceRoot is required" })
+  }>(`${scope.prefix}/conflicts/:conflictId/resolve`, async (request, reply) => {
+    const { conflictId: id } = request.params
+    const { resolution, content, sessionId } = request.body
+    const resolved = scope.resolve(request)
+    if ("error" in resolved) {
+      return reply.code(resolved.status).send({ error: resolved.error })
     }
+    const { workspaceRoot, detector } = resolved
 
     if (!resolution) {
       return reply.code(400).send({ error: "resolution is required" })
@@ -274,13 +389,21 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
       return reply.code(400).send({ error: "content is required for manual resolution" })
     }
 
-    const detector = getDetector(workspaceRoot)
+    const conflict = detector.getConflict(id)
     const result = await detector.resolveConflict(id, resolution, sessionId, content)
 
     if (!result.success) {
       return reply.code(400).send({ error: result.error })
     }
 
+    deps.auditTrail?.recordAsync(workspaceRoot, {
+      type: "conflict_resolved",
+      actor: { agentType: "user", sessionId },
+      target: conflict?.filePath ?? id,
+      description: `Resolved conflict with ${resolution}`,
+      metadata: { conflictId: id, resolution, newHash: result.newHash },
+    })
+
     return reply.send({
       success: true,
       newHash: result.newHash,
@@ -288,8 +411,11 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
   })
 
   /**
-   * POST /api/files/register
-   * Register that a session is working with a file
+   * POST /api/workspaces/:id/files/register
+   * Register that a session is working with a file. OpenCode tool calls are
+   * registered from instance events; this is for writers outside them. Writes
+   * that name the assistant message they belong to are added to the
+   * session's checkpoints.
    */
   app.post<{
     Body: {
@@ -299,9 +425,9 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
       mode: "read" | "write"
       content?: string
       hash?: string
-      workspaceRoot?: string
+      messageId?: string
     }
-  }>("/api/files/register", async (request, reply) => {
+  }>(`${scope.prefix}/register`, async (request, reply) => {
     const {
       path: filePath,
       sessionId,
@@ -309,13 +435,13 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
       mode,
       content,
       hash,
-      workspaceRoot: bodyWorkspaceRoot,
+      messageId,
     } = request.body
-    const workspaceRoot = bodyWorkspaceRoot ?? deps.workspaceRoot
-
-    if (!workspaceRoot) {
-      return reply.code(400).send({ error: "workspaceRoot is required" })
+    const resolved = scope.resolve(request)
+    if ("error" in resolved) {
+      return reply.code(resolved.status).send({ error: resolved.error })
     }
+    const { workspaceRoot, detector } = resolved
 
     if (!filePath) {
       return reply.code(400).send({ error: "path is required" })
@@ -337,7 +463,6 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
       ? filePath
       : path.resolve(workspaceRoot, filePath)
 
-    const detector = getDetector(workspaceRoot)
 
     try {
       if (mode === "read") {
@@ -352,6 +477,13 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
           return reply.code(400).send({ error: "content is required for write mode" })
         }
 
+        // Snapshot before registering, while the tracker still holds the previous content
+        if (messageId && deps.checkpointService) {
+          await deps.checkpointService
+            .captureRegisteredWrite({ folder: workspaceRoot, instanceId, sessionId, messageId }, absolutePath, content)
+            .catch((error) => log.warn({ error, filePath, sessionId }, "Failed to capture checkpoint"))
+        }
+
         const result = await detector.registerWrite(
           absolutePath,
           sessionId,
@@ -372,6 +504,14 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
           })
         }
 
+        deps.auditTrail?.recordAsync(workspaceRoot, {
+          type: "file_modified",
+          actor: { agentType: "agent", sessionId },
+          target: path.relative(workspaceRoot, absolutePath) || absolutePath,
+          description: `Wrote ${path.basename(absolutePath)}`,
+          metadata: { instanceId, hash: result.hash },
+        })
+
         return reply.send({
           success: true,
           hash: result.hash,
@@ -385,127 +525,215 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
   })
 
   /**
-   * POST /api/files/unregister-session
+   * POST /api/workspaces/:id/files/unregister-session
    * Unregister a session from file tracking
    */
   app.post<{
     Body: {
       sessionId: string
-      workspaceRoot?: string
     }
-  }>("/api/files/unregister-session", async (request, reply) => {
-    const { sessionId, workspaceRoot: bodyWorkspaceRoot } = request.body
-    const workspaceRoot = bodyWorkspaceRoot ?? deps.workspaceRoot
-
-    if (!workspaceRoot) {
-      return reply.code(400).send({ error: "workspaceRoot is required" })
+  }>(`${scope.prefix}/unregister-session`, async (request, reply) => {
+    const { sessionId } = request.body
+    const resolved = scope.resolve(request)
+    if ("error" in resolved) {
+      return reply.code(resolved.status).send({ error: resolved.error })
     }
+    const { detector } = resolved
 
     if (!sessionId) {
       return reply.code(400).send({ error: "sessionId is required" })
     }
 
-    const detector = getDetector(workspaceRoot)
     detector.unregisterSession(sessionId)
 
     return reply.send({ success: true })
   })
 
   /**
-   * GET /api/files/history
-   * Get version history for a file
+   * GET /api/workspaces/:id/files/history
+   * Get the persisted version history for a file, or the content of one
+   * version when `hash` is given
    */
   app.get<{
     Querystring: {
       path: string
-      workspaceRoot?: string
+      hash?: string
     }
-  }>("/api/files/history", async (request, reply) => {
-    const { path: filePath, workspaceRoot: queryWorkspaceRoot } = request.query
-    const workspaceRoot = queryWorkspaceRoot ?? deps.workspaceRoot
-
-    if (!workspaceRoot) {
-      return reply.code(400).send({ error: "workspaceRoot is required" })
+  }>(`${scope.prefix}/history`, async (request, reply) => {
+    const { path: filePath, hash } = request.query
+    const resolved = scope.resolve(request)
+    if ("error" in resolved) {
+      return reply.code(resolved.status).send({ error: resolved.error })
     }
+    const { workspaceRoot, detector } = resolved
 
     if (!filePath) {
       return reply.code(400).send({ error: "path is required" })
     }
 
-    const absolutePath = path.isAbsolute(filePath)
-      ? filePath
-      : path.resolve(workspaceRoot, filePath)
+    const absolutePath = resolveInsideWorkspace(workspaceRoot, filePath)
+    if (!absolutePath) {
+      return reply.code(400).send({ error: "path must be inside the workspace" })
+    }
 
-    const detector = getDetector(workspaceRoot)
-    const tracker = detector.getTracker()
-    const history = tracker.getFileHistory(absolutePath)
-
-    const versions = history.map((v) => ({
-      hash: v.hash,
-      timestamp: v.timestamp,
-      sessionId: v.sessionId,
-      instanceId: v.instanceId,
-      hasContent: !!v.content,
-    }))
+    const store = detector.getVersionStore()
 
-    return reply.send({ versions })
+    if (hash) {
+      const version = await store.getVersion(absolutePath, hash)
+      const content = version ? await store.readContent(hash) : null
+      if (!version || content === null) {
+        return reply.code(404).send({ error: "Version not found" })
+      }
+      const response: FileVersionContentResponse = { version, content }
+      return reply.send(response)
+    }
+
+    let versions: FileHistoryVersion[] = await store.getHistory(absolutePath)
+    if (versions.length === 0) {
+      // Nothing persisted yet (e.g. binary or oversized files), fall back to memory
+      versions = detector.getTracker().getFileHistory(absolutePath).map((v) => ({
+        hash: v.hash,
+        timestamp: v.timestamp,
+        sessionId: v.sessionId,
+        instanceId: v.instanceId,
+        hasContent: !!v.content,
+      }))
+    }
+
+    const current = await readCurrentContent(absolutePath)
+    const response: FileHistoryResponse = {
+      versions,
+      currentHash: current === null ? null : store.computeHash(current),
+    }
+    return reply.send(response)
   })
 
   /**
-   * POST /api/files/merge-preview
-   * Preview a 3-way merge without applying it
+   * GET /api/workspaces/:id/files/history/diff
+   * Unified diff between two versions; `to` defaults to the file on disk
+   */
+  app.get<{
+    Querystring: {
+      path: string
+      from: string
+      to?: string
+    }
+  }>(`${scope.prefix}/history/diff`, async (request, reply) => {
+    const { path: filePath, from, to = "current" } = request.query
+    const resolved = scope.resolve(request)
+    if ("error" in resolved) {
+      return reply.code(resolved.status).send({ error: resolved.error })
+    }
+    const { workspaceRoot, detector } = resolved
+
+    if (!filePath || !from) {
+      return reply.code(400).send({ error: "path and from are required" })
+    }
+
+    const absolutePath = resolveInsideWorkspace(workspaceRoot, filePath)
+    if (!absolutePath) {
+      return reply.code(400).send({ error: "path must be inside the workspace" })
+    }
+
+    const store = detector.getVersionStore()
+    const loadVersion = async (hash: string): Promise<string | null> => {
+      if (hash === "current") {
+        return readCurrentContent(absolutePath)
+      }
+      return (await store.getVersion(absolutePath, hash)) ? store.readContent(hash) : null
+    }
+
+    const [oldContent, newContent] = await Promise.all([loadVersion(from), loadVersion(to)])
+    if (oldContent === null || newContent === null) {
+      return reply.code(404).send({ error: "Version not found" })
+    }
+
+    const response: FileVersionDiffResponse = {
+      from,
+      to,
+      diff: getMergeService().generateDiff(oldContent, newContent),
+    }
+    return reply.send(response)
+  })
+
+  /**
+   * POST /api/workspaces/:id/files/history/restore
+   * Write a stored version back to disk through the locked write path
    */
   app.post<{
-    Body: {
-      base: string
-      ours: string
-      theirs: string
-      filePath?: string
+    Body: FileRestoreRequest
+  }>(`${scope.prefix}/history/restore`, async (request, reply) => {
+    const {
+      path: filePath,
+      hash,
+      sessionId = "user",
+      expectedHash,
+    } = request.body ?? ({} as FileRestoreRequest)
+    const resolved = scope.resolve(request)
+    if ("error" in resolved) {
+      return reply.code(resolved.status).send({ error: resolved.error })
     }
-  }>("/api/files/merge-preview", async (request, reply) => {
-    const { base, ours, theirs, filePath } = request.body
+    const { workspaceRoot, detector } = resolved
 
-    if (base === undefined || ours === undefined || theirs === undefined) {
-      return reply.code(400).send({ error: "base, ours, and theirs are required" })
+    if (!filePath || !hash) {
+      return reply.code(400).send({ error: "path and hash are required" })
+    }
+
+    const absolutePath = resolveInsideWorkspace(workspaceRoot, filePath)
+    if (!absolutePath) {
+      return reply.code(400).send({ error: "path must be inside the workspace" })
+    }
+
+    const store = detector.getVersionStore()
+    const content = (await store.getVersion(absolutePath, hash)) ? await store.readContent(hash) : null
+    if (content === null) {
+      return reply.code(404).send({ error: "Version not found" })
     }
 
     try {
-      const merger = getMergeService()
-      const result = merger.merge({
-        filePath: filePath ?? "unknown",
-        base,
-        ours,
-        theirs,
-      })
+      const result = await writeWorkspaceFile(
+        workspaceRoot,
+        {
+          absolutePath,
+          contents: content,
+          sessionId,
+          instanceId: "restore",
+          expectedHash,
+          resolution: expectedHash ? "fail-fast" : "last-write-wins",
+        },
+        { eventBus: deps.eventBus, logger: deps.logger }
+      )
 
-      return reply.send({
-        success: result.success,
-        merged: result.merged,
-        hasConflicts: result.hasConflicts,
-        conflicts: result.conflicts,
-        stats: result.stats,
+      deps.auditTrail?.recordAsync(workspaceRoot, {
+        type: "file_modified",
+        actor: { agentType: "user", sessionId },
+        target: result.relativePath,
+        description: `Restored ${path.basename(absolutePath)} to version ${hash}`,
+        metadata: { hash: result.hash, previousHash: result.previousHash, restoredFrom: hash },
       })
+
+      return reply.send({ success: true, newHash: result.hash })
     } catch (error) {
+      if (error instanceof WorkspaceFileWriteError) {
+        return reply.code(error.statusCode).send({ error: error.message, ...error.details })
+      }
       const message = error instanceof Error ? error.message : "Unknown error"
-      const stack = error instanceof Error ? error.stack : undefined
-      log.error({ error, message, stack, base, ours, theirs, filePath }, "Merge preview failed")
-      return reply.code(500).send({ error: message, stack })
+      log.error({ error, filePath, hash }, "Failed to restore file version")
+      return reply.code(500).send({ error: message })
     }
   })
 
   /**
-   * GET /api/files/stats
+   * GET /api/workspaces/:id/files/stats
    * Get file tracking statistics
    */
-  app.get<{
-    Querystring: { workspaceRoot?: string }
-  }>("/api/files/stats", async (request, reply) => {
-    const workspaceRoot = request.query.workspaceRoot ?? deps.workspaceRoot
-    if (!workspaceRoot) {
-      return reply.code(400).send({ error: "workspaceRoot is required" })
+  app.get(`${scope.prefix}/stats`, async (request, reply) => {
+    const resolved = scope.resolve(request)
+    if ("error" in resolved) {
+      return reply.code(resolved.status).send({ error: resolved.error })
     }
+    const { detector } = resolved
 
-    const detector = getDetector(workspaceRoot)
     const tracker = detector.getTracker()
     const conflicts = detector.getActiveConflicts()
     const stats = tracker.getStats()
@@ -520,22 +748,20 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
   })
 
   /**
-   * POST /api/files/reset
+   * POST /api/workspaces/:id/files/reset
    * Reset all file tracking state (for testing)
    */
   app.post<{
     Body: {
-      workspaceRoot?: string
     }
-  }>("/api/files/reset", async (request, reply) => {
-    const { workspaceRoot: bodyWorkspaceRoot } = request.body ?? {}
-    const workspaceRoot = bodyWorkspaceRoot ?? deps.workspaceRoot
-
-    if (!workspaceRoot) {
-      return reply.code(400).send({ error: "workspaceRoot is required" })
+  }>(`${scope.prefix}/reset`, async (request, reply) => {
+    const { } = request.body ?? {}
+    const resolved = scope.resolve(request)
+    if ("error" in resolved) {
+      return reply.code(resolved.status).send({ error: resolved.error })
     }
+    const { workspaceRoot, detector } = resolved
 
-    const detector = getDetector(workspaceRoot)
     detector.clear()
 
     log.info({ workspaceRoot }, "File tracking state reset")
@@ -543,3 +769,21 @@ export function registerFileRoutes(app: FastifyInstance, deps: FileRouteDeps) {
     return reply.send({ success: true })
   })
 }
+
+/** Absolute path of `filePath` (absolute or workspace-relative), or null when it leaves the workspace */
+function resolveInsideWorkspace(workspaceRoot: string, filePath: string): string | null {
+  const absolutePath = path.resolve(workspaceRoot, filePath)
+  const relativeToRoot = path.relative(path.resolve(workspaceRoot), absolutePath)
+  if (!relativeToRoot || relativeToRoot.startsWith("..") || path.isAbsolute(relativeToRoot)) {
+    return null
+  }
+  return absolutePath
+}
+
+async function readCurrentContent(absolutePath: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(absolutePath, "utf8")
+  } catch {
+    return null
+  }
+}
@@ -1,4 +1,8 @@
-import { FastifyInstance } from "fastify"
+import { FastifyInstance, FastifyReply } from "fastify"
+import { z } from "zod"
+import type { LinearStatus } from "../../api-types"
+import { LinearError, type LinearService } from "../../services/linear-service"
+import type { WorkspaceManager } from "../../workspaces/manager"
 
 interface RouteDeps {
   logger: {
@@ -6,104 +10,122 @@ interface RouteDeps {
     error: (msg: string, meta?: Record<string, unknown>) => void
     debug: (msg: string, meta?: Record<string, unknown>) => void
   }
+  linearService: LinearService
+  workspaceManager: WorkspaceManager
 }
 
-export interface LinearIssue {
-  id: string
-  identifier: string
-  title: string
-  status: string
-  statusColor: string
-  priority: number
-  priorityLabel: string
-  labels: string[]
-  assignee: string | null
-  url: string
-  updatedAt: number
-}
+const InstanceQuerySchema = z.object({
+  instanceId: z.string().min(1, "instanceId is required"),
+})
 
-export interface LinearStatus {
-  connected: boolean
-  workspace: string | null
-  error: string | null
-}
+const StatusesQuerySchema = InstanceQuerySchema.extend({
+  team: z.string().min(1).optional(),
+})
 
-const PRIORITY_LABELS: Record<number, string> = {
-  0: "No priority",
-  1: "Urgent",
-  2: "High",
-  3: "Medium",
-  4: "Low",
-}
+const IssueStatusBodySchema = z.object({
+  instanceId: z.string().min(1, "instanceId is required"),
+  /** Workflow state name or id */
+  status: z.string().min(1, "status is required"),
+})
+
+const IssueCommentBodySchema = z.object({
+  instanceId: z.string().min(1, "instanceId is required"),
+  body: z.string().trim().min(1, "body is required"),
+})
 
 export function registerLinearRoutes(app: FastifyInstance, deps: RouteDeps) {
-  const { logger } = deps
+  const { logger, linearService } = deps
+
+  const resolveFolder = (instanceId: string): string => {
+    const workspace = deps.workspaceManager.get(instanceId)
+    if (!workspace) {
+      throw new LinearError("Instance not found", 404)
+    }
+    return workspace.path
+  }
+
+  // Check Linear connection status, for an instance's project when given
+  app.get<{ Querystring: { instanceId?: string } }>("/api/era/linear/status", async (request): Promise<LinearStatus> => {
+    const { instanceId } = request.query
+    const folder = instanceId ? deps.workspaceManager.get(instanceId)?.path : undefined
+    logger.debug("Checking Linear connection status", { instanceId })
+    return linearService.status(folder)
+  })
 
-  // Check Linear connection status
-  app.get("/api/era/linear/status", async (): Promise<LinearStatus> => {
+  // Fetch Linear issues for a project (cached)
+  app.get("/api/era/linear/issues", async (request, reply) => {
     try {
-      // Check if Linear MCP server is configured and accessible
-      // This is a placeholder — actual implementation would query the MCP server
-      logger.debug("Checking Linear connection status")
-      return {
-        connected: false,
-        workspace: null,
-        error: "Linear MCP server not configured. Add https://mcp.linear.app/mcp as an MCP server.",
-      }
+      const { instanceId } = InstanceQuerySchema.parse(request.query ?? {})
+      return await linearService.listIssues(resolveFolder(instanceId))
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error)
-      logger.error("Failed to check Linear status", { error: message })
-      return { connected: false, workspace: null, error: message }
+      return handleLinearError(error, reply, logger, "Failed to fetch Linear issues")
     }
   })
 
-  // Fetch Linear issues for a project
-  app.get<{ Querystring: { instanceId?: string } }>(
-    "/api/era/linear/issues",
-    async (request, reply) => {
-      const { instanceId } = request.query
-      if (!instanceId) {
-        return reply.status(400).send({ error: "instanceId is required" })
-      }
+  // Refetch a project's issues from Linear
+  app.post("/api/era/linear/sync", async (request, reply) => {
+    try {
+      const { instanceId } = InstanceQuerySchema.parse(request.body ?? {})
+      logger.info("Syncing Linear tasks", { instanceId })
+      return await linearService.listIssues(resolveFolder(instanceId), true)
+    } catch (error) {
+      return handleLinearError(error, reply, logger, "Failed to sync Linear tasks")
+    }
+  })
 
-      try {
-        logger.debug("Fetching Linear issues", { instanceId })
+  // Workflow states issues can move to
+  app.get("/api/era/linear/statuses", async (request, reply) => {
+    try {
+      const { instanceId, team } = StatusesQuerySchema.parse(request.query ?? {})
+      return await linearService.listStatuses(resolveFolder(instanceId), team)
+    } catch (error) {
+      return handleLinearError(error, reply, logger, "Failed to list Linear workflow states")
+    }
+  })
 
-        // Placeholder: In production this queries the Linear MCP server
-        // The MCP server at https://mcp.linear.app/mcp provides tools like:
-        // - linear_search_issues
-        // - linear_get_issue
-        // - linear_list_teams
-        // When connected, we'd call these MCP tools via the session's MCP client
+  // Issue with description, acceptance criteria and comments
+  app.get<{ Params: { id: string } }>("/api/era/linear/issues/:id", async (request, reply) => {
+    try {
+      const { instanceId } = InstanceQuerySchema.parse(request.query ?? {})
+      return await linearService.getIssue(resolveFolder(instanceId), request.params.id)
+    } catch (error) {
+      return handleLinearError(error, reply, logger, "Failed to fetch Linear issue")
+    }
+  })
 
-        const issues: LinearIssue[] = []
-        return issues
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error)
-        logger.error("Failed to fetch Linear issues", { error: message, instanceId })
-        return reply.status(500).send({ error: message })
-      }
-    },
-  )
+  app.post<{ Params: { id: string } }>("/api/era/linear/issues/:id/status", async (request, reply) => {
+    try {
+      const { instanceId, status } = IssueStatusBodySchema.parse(request.body ?? {})
+      logger.info("Updating Linear issue status", { instanceId, issue: request.params.id, status })
+      return await linearService.updateStatus(resolveFolder(instanceId), request.params.id, status)
+    } catch (error) {
+      return handleLinearError(error, reply, logger, "Failed to update Linear issue")
+    }
+  })
 
-  // Trigger a sync of Linear issues
-  app.post<{ Body: { instanceId?: string } }>(
-    "/api/era/linear/sync",
-    async (request, reply) => {
-      const { instanceId } = request.body || {}
-      if (!instanceId) {
-        return reply.status(400).send({ error: "instanceId is required" })
-      }
+  app.post<{ Params: { id: string } }>("/api/era/linear/issues/:id/comments", async (request, reply) => {
+    try {
+      const { instanceId, body } = IssueCommentBodySchema.parse(request.body ?? {})
+      const comment = await linearService.addComment(resolveFolder(instanceId), request.params.id, body)
+      reply.code(201)
+      return comment
+    } catch (error) {
+      return handleLinearError(error, reply, logger, "Failed to comment on Linear issue")
+    }
+  })
+}
 
-      try {
-        logger.info("Syncing Linear tasks", { instanceId })
-        // Placeholder: Trigger a full sync with the Linear MCP server
-        return { ok: true }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error)
-        logger.error("Failed to sync Linear tasks", { error: message, instanceId })
-        return reply.status(500).send({ error: message })
-      }
-    },
-  )
+function handleLinearError(error: unknown, reply: FastifyReply, logger: RouteDeps["logger"], context: string) {
+  if (error instanceof LinearError) {
+    reply.code(error.statusCode)
+    return { error: error.message }
+  }
+  if (error instanceof z.ZodError) {
+    reply.code(400)
+    return { error: error.errors.map((issue) => issue.message).join("; ") }
+  }
+  const message = error instanceof Error ? error.message : String(error)
+  logger.error(context, { error: message })
+  reply.code(500)
+  return { error: message }
 }
@@ -1,6 +1,10 @@
-import { FastifyInstance } from "fastify"
+import { FastifyInstance, FastifyReply } from "fastify"
 import { spawn, type ChildProcess } from "child_process"
 import { fetch } from "undici"
+import { z } from "zod"
+import { McpServerConfigSchema } from "../../config/schema"
+import { McpSupervisorError, type McpSupervisor } from "../../services/mcp-supervisor"
+import { ProjectMcpConfigError, type ProjectMcpConfigService } from "../../services/project-mcp-config"
 
 interface RouteDeps {
   logger: {
@@ -8,8 +12,30 @@ interface RouteDeps {
     error: (msg: string, meta?: Record<string, unknown>) => void
     debug: (msg: string, meta?: Record<string, unknown>) => void
   }
+  projectMcpConfig?: ProjectMcpConfigService
+  mcpSupervisor?: McpSupervisor
 }
 
+const ProjectFolderQuerySchema = z.object({
+  folder: z.string().min(1, "folder is required"),
+})
+
+const ProjectServerBodySchema = z.object({
+  folder: z.string().min(1, "folder is required"),
+  config: McpServerConfigSchema,
+})
+
+const ProjectOverrideBodySchema = z.object({
+  folder: z.string().min(1, "folder is required"),
+  /** `null` removes the project override */
+  enabled: z.boolean().nullable(),
+})
+
+const HealthProbeBodySchema = z.object({
+  /** Server id from `/api/mcp/health`; all enabled servers when omitted */
+  id: z.string().min(1).optional(),
+})
+
 interface McpLocalConfig {
   type: "local"
   command: string[]
@@ -70,6 +96,107 @@ export function registerMcpRoutes(app: FastifyInstance, deps: RouteDeps) {
       }
     }
   })
+
+  /** MCP servers and enable/disable overrides stored in a project's `.era/mcp.json` */
+  app.get<{ Querystring: { folder?: string } }>("/api/mcp/project", async (request, reply) => {
+    if (!deps.projectMcpConfig) return projectConfigUnavailable(reply)
+    try {
+      const { folder } = ProjectFolderQuerySchema.parse(request.query ?? {})
+      return deps.projectMcpConfig.get(folder)
+    } catch (error) {
+      return handleProjectConfigError(error, reply)
+    }
+  })
+
+  app.put<{ Params: { name: string } }>("/api/mcp/project/servers/:name", async (request, reply) => {
+    if (!deps.projectMcpConfig) return projectConfigUnavailable(reply)
+    try {
+      const body = ProjectServerBodySchema.parse(request.body ?? {})
+      const updated = await deps.projectMcpConfig.setServer(body.folder, request.params.name, body.config)
+      void deps.mcpSupervisor?.probeAll()
+      return updated
+    } catch (error) {
+      return handleProjectConfigError(error, reply)
+    }
+  })
+
+  app.delete<{ Params: { name: string }; Querystring: { folder?: string } }>(
+    "/api/mcp/project/servers/:name",
+    async (request, reply) => {
+      if (!deps.projectMcpConfig) return projectConfigUnavailable(reply)
+      try {
+        const { folder } = ProjectFolderQuerySchema.parse(request.query ?? {})
+        const updated = await deps.projectMcpConfig.removeServer(folder, request.params.name)
+        void deps.mcpSupervisor?.probeAll()
+        return updated
+      } catch (error) {
+        return handleProjectConfigError(error, reply)
+      }
+    },
+  )
+
+  app.put<{ Params: { name: string } }>("/api/mcp/project/overrides/:name", async (request, reply) => {
+    if (!deps.projectMcpConfig) return projectConfigUnavailable(reply)
+    try {
+      const body = ProjectOverrideBodySchema.parse(request.body ?? {})
+      const updated = await deps.projectMcpConfig.setOverride(body.folder, request.params.name, body.enabled)
+      void deps.mcpSupervisor?.probeAll()
+      return updated
+    } catch (error) {
+      return handleProjectConfigError(error, reply)
+    }
+  })
+
+  /** Latest health and tool inventory of every configured server */
+  app.get("/api/mcp/health", async (_request, reply) => {
+    if (!deps.mcpSupervisor) return supervisorUnavailable(reply)
+    return deps.mcpSupervisor.list()
+  })
+
+  app.post("/api/mcp/health/probe", async (request, reply) => {
+    if (!deps.mcpSupervisor) return supervisorUnavailable(reply)
+    try {
+      const { id } = HealthProbeBodySchema.parse(request.body ?? {})
+      if (id) {
+        return { server: await deps.mcpSupervisor.probeServer(id) }
+      }
+      await deps.mcpSupervisor.probeAll()
+      return deps.mcpSupervisor.list()
+    } catch (error) {
+      if (error instanceof McpSupervisorError) {
+        reply.code(error.statusCode)
+        return { error: error.message }
+      }
+      if (error instanceof z.ZodError) {
+        reply.code(400)
+        return { error: error.errors.map((issue) => issue.message).join("; ") }
+      }
+      throw error
+    }
+  })
+}
+
+function supervisorUnavailable(reply: FastifyReply) {
+  reply.code(503)
+  return { error: "MCP health monitoring is not available" }
+}
+
+function projectConfigUnavailable(reply: FastifyReply) {
+  reply.code(503)
+  return { error: "Project MCP config is not available" }
+}
+
+function handleProjectConfigError(error: unknown, reply: FastifyReply) {
+  if (error instanceof ProjectMcpConfigError) {
+    reply.code(error.statusCode)
+    return { error: error.message }
+  }
+  if (error instanceof z.ZodError) {
+    reply.code(400)
+    return { error: error.errors.map((issue) => issue.message).join("; ") }
+  }
+  reply.code(500)
+  return { error: error instanceof Error ? error.message : "Unable to update project MCP config" }
 }
 
 async function testLocalMcpServer(
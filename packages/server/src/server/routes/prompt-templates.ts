@@ -0,0 +1,72 @@
+import { FastifyInstance, FastifyReply } from "fastify"
+import { z } from "zod"
+import type { PromptTemplatesResponse } from "../../api-types"
+import { PromptTemplateError, type PromptTemplateLibrary } from "../../services/prompt-templates"
+
+interface RouteDeps {
+  promptTemplates: PromptTemplateLibrary
+}
+
+const SourceSchema = z.enum(["global", "project"])
+
+const ListQuerySchema = z.object({
+  /** Project folder; without it only global templates are listed */
+  folder: z.string().min(1).optional(),
+})
+
+const SaveBodySchema = z.object({
+  source: SourceSchema,
+  folder: z.string().min(1).optional(),
+  description: z.string().max(500).default(""),
+  body: z.string().min(1, "Template body is required").max(100_000),
+})
+
+const DeleteQuerySchema = z.object({
+  source: SourceSchema,
+  folder: z.string().min(1).optional(),
+})
+
+export function registerPromptTemplateRoutes(app: FastifyInstance, deps: RouteDeps) {
+  /** Global templates merged with the project's `.era/templates` */
+  app.get("/api/prompt-templates", async (request, reply): Promise<PromptTemplatesResponse | { error: string }> => {
+    try {
+      const { folder } = ListQuerySchema.parse(request.query ?? {})
+      return await deps.promptTemplates.list(folder)
+    } catch (error) {
+      return handleTemplateError(error, reply)
+    }
+  })
+
+  app.put<{ Params: { name: string } }>("/api/prompt-templates/:name", async (request, reply) => {
+    try {
+      const body = SaveBodySchema.parse(request.body ?? {})
+      return await deps.promptTemplates.save({ name: request.params.name, ...body })
+    } catch (error) {
+      return handleTemplateError(error, reply)
+    }
+  })
+
+  app.delete<{ Params: { name: string } }>("/api/prompt-templates/:name", async (request, reply) => {
+    try {
+      const { source, folder } = DeleteQuerySchema.parse(request.query ?? {})
+      await deps.promptTemplates.delete(request.params.name, source, folder)
+      reply.code(204)
+      return null
+    } catch (error) {
+      return handleTemplateError(error, reply)
+    }
+  })
+}
+
+function handleTemplateError(error: unknown, reply: FastifyReply) {
+  if (error instanceof PromptTemplateError) {
+    reply.code(error.statusCode)
+    return { error: error.message }
+  }
+  if (error instanceof z.ZodError) {
+    reply.code(400)
+    return { error: error.errors.map((issue) => issue.message).join("; ") }
+  }
+  reply.code(500)
+  return { error: error instanceof Error ? error.message : "Unable to update prompt templates" }
+}
@@ -0,0 +1,48 @@
+import { FastifyInstance } from "fastify"
+import { z } from "zod"
+import type { SessionSearchIndex } from "../../services/session-search"
+import type { SessionSearchResponse } from "../../api-types"
+
+interface RouteDeps {
+  searchIndex: SessionSearchIndex
+}
+
+/** Epoch ms or any date string `Date` can parse */
+const DateParam = z
+  .string()
+  .transform((value, ctx) => {
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value)
+    if (Number.isNaN(time)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid date: ${value}` })
+      return z.NEVER
+    }
+    return time
+  })
+
+const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Query is required"),
+  project: z.string().optional(),
+  sessionId: z.string().optional(),
+  role: z.enum(["user", "assistant"]).optional(),
+  tool: z.string().optional(),
+  from: DateParam.optional(),
+  to: DateParam.optional(),
+  limit: z.coerce.number().int().positive().max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+})
+
+export function registerSearchRoutes(app: FastifyInstance, deps: RouteDeps) {
+  /**
+   * GET /api/search
+   * Full-text search over the messages of every stored session, filtered by
+   * project (id or directory), session, role, tool and date range.
+   */
+  app.get("/api/search", async (request, reply): Promise<SessionSearchResponse | { error: string }> => {
+    const parsed = SearchQuerySchema.safeParse(request.query ?? {})
+    if (!parsed.success) {
+      reply.code(400)
+      return { error: parsed.error.issues.map((issue) => issue.message).join("; ") }
+    }
+    return deps.searchIndex.search(parsed.data)
+  })
+}
@@ -0,0 +1,111 @@
+import { FastifyInstance } from "fastify"
+import { z } from "zod"
+import type { ImportedSession, ImportedSessionSummary } from "../../api-types"
+import type { SessionBundleStore } from "../../storage/session-bundle-store"
+import type { WorkspaceManager } from "../../workspaces/manager"
+
+interface RouteDeps {
+  sessionBundleStore: SessionBundleStore
+  workspaceManager: WorkspaceManager
+}
+
+/** Exported sessions can be long; the default 1 MB body limit is too small */
+const IMPORT_BODY_LIMIT = 64 * 1024 * 1024
+
+const SessionBundleEntrySchema = z.object({
+  info: z
+    .object({
+      id: z.string(),
+      title: z.string(),
+      parentID: z.string().optional(),
+      time: z.object({ created: z.number(), updated: z.number() }).passthrough(),
+    })
+    .passthrough(),
+  messages: z.array(
+    z.object({
+      info: z.object({ id: z.string(), role: z.enum(["user", "assistant"]) }).passthrough(),
+      parts: z.array(z.object({ id: z.string(), type: z.string() }).passthrough()),
+    }),
+  ),
+})
+
+const SessionExportBundleSchema = z.object({
+  format: z.literal("era-session-bundle", { errorMap: () => ({ message: "Not a session export bundle" }) }),
+  version: z.literal(1, { errorMap: () => ({ message: "Unsupported bundle version" }) }),
+  exportedAt: z.number(),
+  sessions: z.array(SessionBundleEntrySchema).min(1, "Bundle contains no sessions"),
+})
+
+const ImportBodySchema = z.object({
+  instanceId: z.string().min(1, "instanceId is required"),
+  bundle: SessionExportBundleSchema,
+})
+
+const ListQuerySchema = z.object({
+  instanceId: z.string().optional(),
+})
+
+export function registerSessionImportRoutes(app: FastifyInstance, deps: RouteDeps) {
+  const { sessionBundleStore } = deps
+
+  // List imported sessions, for one instance's project when given
+  app.get("/api/session-imports", async (request, reply): Promise<ImportedSessionSummary[] | { error: string }> => {
+    const parsed = ListQuerySchema.safeParse(request.query ?? {})
+    if (!parsed.success) {
+      reply.code(400)
+      return { error: formatIssues(parsed.error) }
+    }
+    const folder = parsed.data.instanceId ? deps.workspaceManager.get(parsed.data.instanceId)?.path : undefined
+    if (parsed.data.instanceId && !folder) {
+      reply.code(404)
+      return { error: "Instance not found" }
+    }
+    return sessionBundleStore.list(folder)
+  })
+
+  // An imported session with its full bundle
+  app.get<{ Params: { id: string } }>(
+    "/api/session-imports/:id",
+    async (request, reply): Promise<ImportedSession | { error: string }> => {
+      const imported = await sessionBundleStore.read(request.params.id)
+      if (!imported) {
+        reply.code(404)
+        return { error: "Imported session not found" }
+      }
+      return imported
+    },
+  )
+
+  // Import a JSON export bundle into an instance's project
+  app.post(
+    "/api/session-imports",
+    { bodyLimit: IMPORT_BODY_LIMIT },
+    async (request, reply): Promise<ImportedSessionSummary | { error: string }> => {
+      const parsed = ImportBodySchema.safeParse(request.body ?? {})
+      if (!parsed.success) {
+        reply.code(400)
+        return { error: formatIssues(parsed.error) }
+      }
+      const workspace = deps.workspaceManager.get(parsed.data.instanceId)
+      if (!workspace) {
+        reply.code(404)
+        return { error: "Instance not found" }
+      }
+      const summary = await sessionBundleStore.save(workspace.path, parsed.data.bundle)
+      reply.code(201)
+      return summary
+    },
+  )
+
+  app.delete<{ Params: { id: string } }>("/api/session-imports/:id", async (request, reply) => {
+    if (!(await sessionBundleStore.delete(request.params.id))) {
+      reply.code(404)
+      return { error: "Imported session not found" }
+    }
+    reply.code(204)
+  })
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message)).join("; ")
+}
@@ -12,9 +12,16 @@ interface RouteDeps {
   workspaceManager: WorkspaceManager
 }
 
+const SessionForkRecordSchema = z.object({
+  sourceSessionId: z.string(),
+  messageId: z.string().optional(),
+  forkedAt: z.number(),
+})
+
 const InstanceDataSchema = z.object({
   messageHistory: z.array(z.string()).default([]),
   agentModelSelections: z.record(z.string(), ModelPreferenceSchema).default({}),
+  sessionForks: z.record(z.string(), SessionForkRecordSchema).optional(),
 })
 
 const EMPTY_INSTANCE_DATA: InstanceData = {
@@ -0,0 +1,50 @@
+import { FastifyInstance } from "fastify"
+import { z } from "zod"
+import type { UsageAnalyticsResponse, UsageBudgetStatus } from "../../api-types"
+import type { UsageTracker } from "../../services/usage-tracker"
+
+interface RouteDeps {
+  usageTracker: UsageTracker
+}
+
+const DayParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+
+const UsageQuerySchema = z.object({
+  from: DayParam.optional(),
+  to: DayParam.optional(),
+  /** Project folder */
+  project: z.string().min(1).optional(),
+})
+
+export function registerUsageRoutes(app: FastifyInstance, deps: RouteDeps) {
+  /**
+   * GET /api/usage
+   * Cost and tokens over a date range (the last 30 days by default), per
+   * day, model, provider, agent and project, with the top sessions.
+   */
+  app.get("/api/usage", async (request, reply): Promise<UsageAnalyticsResponse | { error: string }> => {
+    const parsed = UsageQuerySchema.safeParse(request.query ?? {})
+    if (!parsed.success) {
+      reply.code(400)
+      return { error: parsed.error.issues.map((issue) => issue.message).join("; ") }
+    }
+    return deps.usageTracker.analytics(parsed.data)
+  })
+
+  // Today's and this month's spend against the configured budgets
+  app.get("/api/usage/budget", async (): Promise<UsageBudgetStatus> => deps.usageTracker.budgetStatus())
+
+  // Usage per day, project, provider, model and agent as a CSV download
+  app.get("/api/usage/export.csv", async (request, reply) => {
+    const parsed = UsageQuerySchema.safeParse(request.query ?? {})
+    if (!parsed.success) {
+      reply.code(400)
+      return { error: parsed.error.issues.map((issue) => issue.message).join("; ") }
+    }
+    const csv = await deps.usageTracker.exportCsv(parsed.data)
+    reply
+      .header("Content-Type", "text/csv; charset=utf-8")
+      .header("Content-Disposition", `attachment; filename="usage-${new Date().toISOString().slice(0, 10)}.csv"`)
+    return csv
+  })
+}
@@ -1,12 +1,17 @@
 import { FastifyInstance, FastifyReply } from "fastify"
 import { z } from "zod"
 import { WorkspaceManager } from "../../workspaces/manager"
+import { WorkspaceFileWriteError } from "../../filesystem/workspace-file-writer"
 import type { EraDetectionService } from "../../era/detection"
+import type { AuditTrailService } from "../../services/audit-trail"
+import { CheckpointError, type CheckpointService } from "../../services/checkpoint-service"
 import type { WorkspaceDescriptor } from "../../api-types"
 
 interface RouteDeps {
   workspaceManager: WorkspaceManager
   eraDetection?: EraDetectionService
+  auditTrail?: AuditTrailService
+  checkpointService?: CheckpointService
 }
 
 const WorkspaceCreateSchema = z.object({
@@ -14,6 +19,15 @@ const WorkspaceCreateSchema = z.object({
   name: z.string().optional(),
 })
 
+const WorkspaceSessionStateSchema = z.object({
+  openSessionIds: z.array(z.string()),
+  activeSessionId: z.string().nullable(),
+})
+
+const WorkspaceActiveSchema = z.object({
+  workspaceId: z.string().nullable(),
+})
+
 const WorkspaceFilesQuerySchema = z.object({
   path: z.string().optional(),
 })
@@ -22,6 +36,24 @@ const WorkspaceFileContentQuerySchema = z.object({
   path: z.string(),
 })
 
+const WorkspaceFileWriteSchema = z.object({
+  path: z.string().min(1, "path is required"),
+  contents: z.string(),
+  expectedHash: z.string().optional(),
+  sessionId: z.string().optional(),
+  instanceId: z.string().optional(),
+  resolution: z.enum(["fail-fast", "queue", "last-write-wins"]).optional(),
+  createDirs: z.boolean().optional(),
+})
+
+const WorkspaceToolsQuerySchema = z.object({
+  agent: z.string().trim().min(1).optional(),
+})
+
+const CheckpointRestoreSchema = z.object({
+  force: z.boolean().optional(),
+})
+
 const WorkspaceFileSearchQuerySchema = z.object({
   q: z.string().trim().min(1, "Query is required"),
   limit: z.coerce.number().int().positive().max(200).optional(),
@@ -91,6 +123,21 @@ export function registerWorkspaceRoutes(app: FastifyInstance, deps: RouteDeps) {
     return workspace
   })
 
+  /** Session tabs and the active workspace saved by the UI, for putting them back after a restart */
+  app.get("/api/workspaces/restore-state", async () => {
+    return deps.workspaceManager.getRestoreState()
+  })
+
+  app.put("/api/workspaces/active", async (request, reply) => {
+    try {
+      const body = WorkspaceActiveSchema.parse(request.body ?? {})
+      deps.workspaceManager.setActiveWorkspace(body.workspaceId)
+      reply.code(204)
+    } catch (error) {
+      return handleWorkspaceError(error, reply)
+    }
+  })
+
   app.get<{ Params: { id: string } }>("/api/workspaces/:id", async (request, reply) => {
     const workspace = deps.workspaceManager.get(request.params.id)
     if (!workspace) {
@@ -106,6 +153,33 @@ export function registerWorkspaceRoutes(app: FastifyInstance, deps: RouteDeps) {
     reply.code(204)
   })
 
+  /** Launch a workspace that isn't running, e.g. one restored from the previous run */
+  app.post<{ Params: { id: string } }>("/api/workspaces/:id/start", async (request, reply) => {
+    try {
+      return await deps.workspaceManager.ensureRunning(request.params.id)
+    } catch (error) {
+      return handleWorkspaceError(error, reply)
+    }
+  })
+
+  app.get<{ Params: { id: string } }>("/api/workspaces/:id/crash-reports", async (request, reply) => {
+    try {
+      return deps.workspaceManager.getCrashReports(request.params.id)
+    } catch (error) {
+      return handleWorkspaceError(error, reply)
+    }
+  })
+
+  app.put<{ Params: { id: string } }>("/api/workspaces/:id/session-state", async (request, reply) => {
+    try {
+      const body = WorkspaceSessionStateSchema.parse(request.body ?? {})
+      deps.workspaceManager.saveSessionState(request.params.id, body)
+      reply.code(204)
+    } catch (error) {
+      return handleWorkspaceError(error, reply)
+    }
+  })
+
   app.get<{
     Params: { id: string }
     Querystring: { path?: string }
@@ -140,13 +214,142 @@ export function registerWorkspaceRoutes(app: FastifyInstance, deps: RouteDeps) {
   }>("/api/workspaces/:id/files/content", async (request, reply) => {
     try {
       const query = WorkspaceFileContentQuerySchema.parse(request.query ?? {})
-      return deps.workspaceManager.readFile(request.params.id, query.path)
+      const file = deps.workspaceManager.readFile(request.params.id, query.path)
+      reply.header("ETag", `"${file.hash}"`)
+      return file
+    } catch (error) {
+      return handleWorkspaceError(error, reply)
+    }
+  })
+
+  /**
+   * Write a file inside the workspace. The precondition hash comes from
+   * `expectedHash` or an `If-Match` header holding the ETag of the last read.
+   */
+  app.put<{ Params: { id: string } }>("/api/workspaces/:id/files/content", async (request, reply) => {
+    try {
+      const body = WorkspaceFileWriteSchema.parse(request.body ?? {})
+      const expectedHash = body.expectedHash ?? parseIfMatch(request.headers["if-match"])
+      const result = await deps.workspaceManager.writeFile(request.params.id, { ...body, expectedHash })
+
+      const workspace = deps.workspaceManager.get(request.params.id)
+      if (workspace && result.hash !== result.previousHash) {
+        deps.auditTrail?.recordAsync(workspace.path, {
+          type: "file_modified",
+          actor: { agentType: body.sessionId ? "agent" : "user", sessionId: body.sessionId },
+          target: result.relativePath,
+          description: `Wrote ${result.relativePath}`,
+          metadata: {
+            instanceId: body.instanceId ?? request.params.id,
+            hash: result.hash,
+            previousHash: result.previousHash,
+          },
+        })
+      }
+
+      reply.header("ETag", `"${result.hash}"`)
+      return result
     } catch (error) {
+      if (error instanceof WorkspaceFileWriteError) {
+        reply.code(error.statusCode)
+        return { error: error.message, ...error.details }
+      }
       return handleWorkspaceError(error, reply)
     }
   })
+
+  /** Tools known to the workspace, optionally filtered for one agent's routing profile */
+  app.get<{
+    Params: { id: string }
+    Querystring: { agent?: string }
+  }>("/api/workspaces/:id/tools", async (request, reply) => {
+    try {
+      const query = WorkspaceToolsQuerySchema.parse(request.query ?? {})
+      return deps.workspaceManager.listTools(request.params.id, query.agent)
+    } catch (error) {
+      return handleWorkspaceError(error, reply)
+    }
+  })
+
+  /** Checkpoints of the files an agent changed, one per assistant message, oldest first */
+  app.get<{ Params: { id: string; sessionId: string } }>(
+    "/api/workspaces/:id/sessions/:sessionId/checkpoints",
+    async (request, reply) => {
+      if (!deps.checkpointService) {
+        return { checkpoints: [] }
+      }
+      try {
+        return await deps.checkpointService.list(request.params.id, request.params.sessionId)
+      } catch (error) {
+        return handleCheckpointError(error, reply)
+      }
+    },
+  )
+
+  /** Files and diffs a restore of the checkpoint would change, with external-edit conflicts */
+  app.get<{ Params: { id: string; sessionId: string; checkpointId: string } }>(
+    "/api/workspaces/:id/sessions/:sessionId/checkpoints/:checkpointId/preview",
+    async (request, reply) => {
+      const { id, sessionId, checkpointId } = request.params
+      try {
+        return await requireCheckpoints(deps).preview(id, sessionId, checkpointId)
+      } catch (error) {
+        return handleCheckpointError(error, reply)
+      }
+    },
+  )
+
+  /**
+   * Roll the working tree back to the state before the checkpoint's message.
+   * Fails with 409 and the preview when files were edited outside the
+   * session, unless `force` is set.
+   */
+  app.post<{ Params: { id: string; sessionId: string; checkpointId: string } }>(
+    "/api/workspaces/:id/sessions/:sessionId/checkpoints/:checkpointId/restore",
+    async (request, reply) => {
+      const { id, sessionId, checkpointId } = request.params
+      try {
+        const body = CheckpointRestoreSchema.parse(request.body ?? {})
+        const result = await requireCheckpoints(deps).restore(id, sessionId, checkpointId, body)
+
+        const workspace = deps.workspaceManager.get(id)
+        if (workspace && result.restored.length > 0) {
+          deps.auditTrail?.recordAsync(workspace.path, {
+            type: "file_modified",
+            actor: { agentType: "user", sessionId },
+            target: result.restored.join(", "),
+            description: `Restored ${result.restored.length} file(s) to checkpoint ${checkpointId}`,
+            metadata: { instanceId: id, checkpointId, force: body.force === true },
+          })
+        }
+        return result
+      } catch (error) {
+        return handleCheckpointError(error, reply)
+      }
+    },
+  )
 }
 
+function requireCheckpoints(deps: RouteDeps): CheckpointService {
+  if (!deps.checkpointService) {
+    throw new CheckpointError("Checkpoint service unavailable", 503)
+  }
+  return deps.checkpointService
+}
+
+function handleCheckpointError(error: unknown, reply: FastifyReply) {
+  if (error instanceof CheckpointError) {
+    reply.code(error.statusCode)
+    return error.preview ? { error: error.message, preview: error.preview } : { error: error.message }
+  }
+  return handleWorkspaceError(error, reply)
+}
+
+/** Strip quotes and the weak-validator prefix from an `If-Match` ETag */
+function parseIfMatch(header: string | string[] | undefined): string | undefined {
+  if (typeof header !== "string" || header.trim() === "*") return undefined
+  return header.trim().replace(/^W\//, "").replace(/"/g, "") || undefined
+}
 
 function handleWorkspaceError(error: unknown, reply: FastifyReply) {
   if (error instanceof Error && error.message === "Workspace not found") {
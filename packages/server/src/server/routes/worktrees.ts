@@ -0,0 +1,103 @@
+import { FastifyInstance, FastifyReply } from "fastify"
+import { z } from "zod"
+import type { SessionWorktreesResponse } from "../../api-types"
+import { WorktreeError, type WorktreeManager } from "../../services/worktree-manager"
+
+interface RouteDeps {
+  worktreeManager: WorktreeManager
+}
+
+const ListQuerySchema = z.object({
+  folder: z.string().min(1).optional(),
+})
+
+const CreateBodySchema = z.object({
+  folder: z.string().min(1, "folder is required"),
+})
+
+const AttachBodySchema = z.object({
+  sessionId: z.string().min(1, "sessionId is required"),
+})
+
+const MergeBodySchema = z.object({
+  strategy: z.enum(["fast-forward", "squash", "rebase"]),
+  message: z.string().max(10_000).optional(),
+  removeWorktree: z.boolean().optional(),
+})
+
+const DeleteQuerySchema = z.object({
+  keepBranch: z.enum(["true", "false"]).optional(),
+})
+
+export function registerWorktreeRoutes(app: FastifyInstance, deps: RouteDeps) {
+  app.get("/api/worktrees", async (request, reply): Promise<SessionWorktreesResponse | { error: string }> => {
+    try {
+      const { folder } = ListQuerySchema.parse(request.query ?? {})
+      return { worktrees: deps.worktreeManager.list(folder) }
+    } catch (error) {
+      return handleWorktreeError(error, reply)
+    }
+  })
+
+  /** Provision a worktree and branch for a session that is about to be created */
+  app.post("/api/worktrees", async (request, reply) => {
+    try {
+      const { folder } = CreateBodySchema.parse(request.body ?? {})
+      const worktree = await deps.worktreeManager.create(folder)
+      reply.code(201)
+      return worktree
+    } catch (error) {
+      return handleWorktreeError(error, reply)
+    }
+  })
+
+  app.post<{ Params: { id: string } }>("/api/worktrees/:id/session", async (request, reply) => {
+    try {
+      const { sessionId } = AttachBodySchema.parse(request.body ?? {})
+      return deps.worktreeManager.attachSession(request.params.id, sessionId)
+    } catch (error) {
+      return handleWorktreeError(error, reply)
+    }
+  })
+
+  app.get<{ Params: { id: string } }>("/api/worktrees/:id/merge-preview", async (request, reply) => {
+    try {
+      return await deps.worktreeManager.preview(request.params.id)
+    } catch (error) {
+      return handleWorktreeError(error, reply)
+    }
+  })
+
+  app.post<{ Params: { id: string } }>("/api/worktrees/:id/merge", async (request, reply) => {
+    try {
+      const body = MergeBodySchema.parse(request.body ?? {})
+      return await deps.worktreeManager.merge(request.params.id, body)
+    } catch (error) {
+      return handleWorktreeError(error, reply)
+    }
+  })
+
+  app.delete<{ Params: { id: string } }>("/api/worktrees/:id", async (request, reply) => {
+    try {
+      const { keepBranch } = DeleteQuerySchema.parse(request.query ?? {})
+      await deps.worktreeManager.remove(request.params.id, { keepBranch: keepBranch === "true" })
+      reply.code(204)
+      return null
+    } catch (error) {
+      return handleWorktreeError(error, reply)
+    }
+  })
+}
+
+function handleWorktreeError(error: unknown, reply: FastifyReply) {
+  if (error instanceof WorktreeError) {
+    reply.code(error.statusCode)
+    return { error: error.message }
+  }
+  if (error instanceof z.ZodError) {
+    reply.code(400)
+    return { error: error.errors.map((issue) => issue.message).join("; ") }
+  }
+  reply.code(500)
+  return { error: error instanceof Error ? error.message : "Worktree operation failed" }
+}
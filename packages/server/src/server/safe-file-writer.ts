@@ -34,6 +34,13 @@ export interface WriteOptions {
   timeoutMs?: number
   /** Create parent directories if they don't exist (default: true) */
   createDirs?: boolean
+  /**
+   * Extra precondition run while the lock is held, right before writing.
+   * Return an error message to abort the write.
+   */
+  beforeWrite?: () => Promise<string | undefined>
+  /** Run while the lock is still held, once the content is on disk */
+  afterWrite?: () => Promise<void>
 }
 
 export interface WriteResult {
@@ -81,6 +88,8 @@ export async function safeWriteFile(
     resolution = "fail-fast",
     timeoutMs = 5000,
     createDirs = true,
+    beforeWrite,
+    afterWrite,
   } = options
 
   log.debug({ filePath, sessionId, resolution, hasExpectedHash: !!expectedHash }, "Safe write requested")
@@ -92,6 +101,8 @@ export async function safeWriteFile(
 
     // Check for conflicts if expectedHash provided
     if (expectedHash && resolution === "fail-fast") {
+      // The file may have changed on disk since it was last recorded
+      contentHashTracker.syncFromDisk(filePath)
       const conflict = contentHashTracker.detectConflict(filePath, expectedHash)
 
       if (conflict.hasConflict) {
@@ -119,6 +130,18 @@ export async function safeWriteFile(
       }
     }
 
+    if (beforeWrite) {
+      const rejection = await beforeWrite()
+      if (rejection) {
+        log.info({ filePath, sessionId, reason: rejection }, "Write rejected by precondition")
+        return {
+          success: false,
+          newHash: contentHashTracker.getCurrentHash(filePath) ?? "",
+          error: rejection,
+        }
+      }
+    }
+
     // Ensure directory exists
     if (createDirs) {
       const dir = path.dirname(filePath)
@@ -137,6 +160,12 @@ export async function safeWriteFile(
 
     log.debug({ filePath, sessionId, newHash }, "File written successfully")
 
+    if (afterWrite) {
+      await afterWrite().catch((error) =>
+        log.warn({ filePath, sessionId, error: error instanceof Error ? error.message : error }, "After-write hook failed")
+      )
+    }
+
     return {
       success: true,
       newHash,
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import { EventBus } from "../../events/bus"
+import { AuditTrailService } from "../audit-trail"
+
+describe("audit trail service", () => {
+  let projectDir: string
+  let service: AuditTrailService
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-trail-"))
+    service = new AuditTrailService({
+      eventBus: new EventBus(),
+      logger: pino({ level: "silent" }),
+      globalDir: path.join(projectDir, "global"),
+    })
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true })
+  })
+
+  it("appends events as JSONL and returns them newest first", async () => {
+    await service.record(projectDir, { type: "directive_edited", description: "first" })
+    await service.record(projectDir, { type: "file_modified", description: "second" })
+
+    const lines = fs.readFileSync(path.join(projectDir, ".era/audit/events.jsonl"), "utf-8").trim().split("\n")
+    assert.equal(lines.length, 2)
+
+    const result = await service.query(projectDir, {})
+    assert.deepEqual(
+      result.events.map((event) => event.description),
+      ["second", "first"],
+    )
+    assert.equal(result.total, 2)
+    assert.equal(result.nextCursor, null)
+  })
+
+  it("filters by actor and type and paginates with a cursor", async () => {
+    for (let i = 0; i < 5; i++) {
+      await service.record(projectDir, {
+        type: i % 2 === 0 ? "file_modified" : "governance_override",
+        actor: { agentType: i % 2 === 0 ? "build" : "user", sessionId: `ses_${i}` },
+        description: `event ${i}`,
+      })
+    }
+
+    const byType = await service.query(projectDir, { type: "file_modified" })
+    assert.equal(byType.total, 3)
+
+    const byActor = await service.query(projectDir, { actor: "user" })
+    assert.deepEqual(
+      byActor.events.map((event) => event.description),
+      ["event 3", "event 1"],
+    )
+
+    const firstPage = await service.query(projectDir, { limit: 2 })
+    assert.equal(firstPage.events.length, 2)
+    assert.ok(firstPage.nextCursor)
+
+    const secondPage = await service.query(projectDir, { limit: 2, cursor: firstPage.nextCursor! })
+    assert.deepEqual(
+      secondPage.events.map((event) => event.description),
+      ["event 2", "event 1"],
+    )
+  })
+
+  it("records workspace lifecycle from the event bus", async () => {
+    const bus = new EventBus()
+    const attached = new AuditTrailService({ eventBus: bus, logger: pino({ level: "silent" }) })
+    const detach = attached.attach()
+
+    bus.publish({
+      type: "workspace.started",
+      workspace: {
+        id: "ws1",
+        path: projectDir,
+        status: "ready",
+        proxyPath: "/workspaces/ws1/instance",
+        binaryId: "opencode",
+        binaryLabel: "opencode",
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+    })
+    bus.publish({ type: "workspace.stopped", workspaceId: "ws1" })
+    detach()
+
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    const result = await attached.query(projectDir, {})
+    assert.deepEqual(
+      result.events.map((event) => event.type),
+      ["workspace_stopped", "workspace_started"],
+    )
+  })
+
+  it("exports CSV with escaped fields", async () => {
+    await service.record(projectDir, { type: "directive_edited", description: 'said "hi", twice' })
+    const csv = await service.export(projectDir, {}, "csv")
+    const [header, row] = csv.trim().split("\n")
+    assert.ok(header.startsWith("id,timestamp,type"))
+    assert.ok(row.endsWith('"said ""hi"", twice"'))
+  })
+})
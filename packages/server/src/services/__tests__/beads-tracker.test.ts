@@ -0,0 +1,127 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import { EventBus } from "../../events/bus"
+import { createFileWatchService, removeFileWatchService, type FileWatchService } from "../../filesystem/file-watch-service"
+import { BeadsTracker } from "../beads-tracker"
+
+function writeStore(folder: string, records: Array<Record<string, unknown>>) {
+  fs.mkdirSync(path.join(folder, ".beads"), { recursive: true })
+  fs.writeFileSync(
+    path.join(folder, ".beads", "issues.jsonl"),
+    records.map((record) => JSON.stringify(record)).join("\n") + "\n",
+  )
+}
+
+function blocks(issueId: string, dependsOn: string) {
+  return { issue_id: issueId, depends_on_id: dependsOn, type: "blocks" }
+}
+
+describe("beads tracker", () => {
+  let projectDir: string
+  let tracker: BeadsTracker
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "beads-tracker-"))
+    tracker = new BeadsTracker({ eventBus: new EventBus(), logger: pino({ level: "silent" }), watch: false })
+  })
+
+  afterEach(async () => {
+    await tracker.dispose()
+    fs.rmSync(projectDir, { recursive: true, force: true })
+  })
+
+  it("reports an unavailable store when .beads is missing", async () => {
+    const result = await tracker.listIssues(projectDir)
+    assert.equal(result.available, false)
+    assert.equal(result.total, 0)
+  })
+
+  it("normalizes statuses and filters by status, priority and assignee", async () => {
+    writeStore(projectDir, [
+      { id: "bd-1", title: "Schema", status: "closed", priority: 1 },
+      { id: "bd-2", title: "API", status: "in_progress", priority: 1, assignee: "alice" },
+      { id: "bd-3", title: "UI", status: "open", priority: 2 },
+      { id: "bd-3", title: "UI (renamed)", status: "open", priority: 2 },
+    ])
+
+    const all = await tracker.listIssues(projectDir)
+    assert.equal(all.total, 3)
+    assert.deepEqual(all.statusCounts, { done: 1, "in-progress": 1, open: 1 })
+    assert.equal(all.issues.find((issue) => issue.id === "bd-3")?.title, "UI (renamed)")
+
+    assert.deepEqual(
+      (await tracker.listIssues(projectDir, { status: "open,in-progress" })).issues.map((issue) => issue.id),
+      ["bd-2", "bd-3"],
+    )
+    assert.deepEqual(
+      (await tracker.listIssues(projectDir, { priority: "2" })).issues.map((issue) => issue.id),
+      ["bd-3"],
+    )
+    assert.deepEqual(
+      (await tracker.listIssues(projectDir, { assignee: "Alice" })).issues.map((issue) => issue.id),
+      ["bd-2"],
+    )
+    assert.deepEqual(
+      (await tracker.listIssues(projectDir, { assignee: "unassigned" })).issues.map((issue) => issue.id),
+      ["bd-1", "bd-3"],
+    )
+  })
+
+  it("computes the ready set, depths and cycles from blocking dependencies", async () => {
+    writeStore(projectDir, [
+      { id: "bd-1", title: "Done blocker", status: "closed" },
+      { id: "bd-2", title: "Unblocked", status: "open", dependencies: [blocks("bd-2", "bd-1")] },
+      { id: "bd-3", title: "Blocked", status: "open", dependencies: [blocks("bd-3", "bd-2")] },
+      { id: "bd-4", title: "Related only", status: "open", dependencies: [{ depends_on_id: "bd-3", type: "related" }] },
+      { id: "bd-5", title: "Cycle A", status: "open", dependencies: [blocks("bd-5", "bd-6")] },
+      { id: "bd-6", title: "Cycle B", status: "open", dependencies: [blocks("bd-6", "bd-5")] },
+    ])
+
+    const graph = await tracker.getGraph(projectDir)
+    assert.deepEqual(graph.ready.sort(), ["bd-2", "bd-4"])
+    assert.equal(graph.edges.length, 5)
+    assert.deepEqual(graph.edges.find((edge) => edge.to === "bd-3"), { from: "bd-2", to: "bd-3", type: "blocks" })
+
+    const depth = Object.fromEntries(graph.nodes.map((node) => [node.id, node.depth]))
+    assert.equal(depth["bd-1"], 0)
+    assert.equal(depth["bd-2"], 1)
+    assert.equal(depth["bd-3"], 2)
+
+    assert.equal(graph.cycles.length, 1)
+    assert.deepEqual([...graph.cycles[0]].sort(), ["bd-5", "bd-6"])
+
+    const issues = await tracker.listIssues(projectDir)
+    assert.deepEqual(issues.issues.find((issue) => issue.id === "bd-3")?.blockedBy, ["bd-2"])
+  })
+
+  it("watches only .beads and leaves the workspace watcher running", async () => {
+    const logger = pino({ level: "silent" })
+    const shared = createFileWatchService({ workspaceRoot: projectDir, logger })
+    shared.start()
+    const deadline = Date.now() + 5000
+    while (!shared.running() && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+    assert.ok(shared.running())
+
+    const watching = new BeadsTracker({ eventBus: new EventBus(), logger })
+    const watches = (watching as unknown as { watches: Map<string, FileWatchService> }).watches
+    try {
+      await watching.listIssues(projectDir)
+      assert.equal(watches.size, 0)
+
+      writeStore(projectDir, [{ id: "bd-1", title: "First" }])
+      await watching.listIssues(projectDir)
+      assert.equal(watches.size, 1)
+      assert.notEqual(watches.get(projectDir), shared)
+    } finally {
+      await watching.dispose()
+    }
+    assert.ok(shared.running())
+    removeFileWatchService(projectDir)
+  })
+})
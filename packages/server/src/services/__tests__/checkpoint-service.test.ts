@@ -0,0 +1,103 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import { EventBus } from "../../events/bus"
+import type { SessionCheckpoint } from "../../api-types"
+import type { WorkspaceManager } from "../../workspaces/manager"
+import {
+  CheckpointError,
+  CheckpointService,
+  planCheckpointRestore,
+  priorContent,
+  toolFilePaths,
+} from "../checkpoint-service"
+
+function checkpoint(id: string, files: SessionCheckpoint["files"]): SessionCheckpoint {
+  return { id, instanceId: "ws", sessionId: "ses", messageId: id, createdAt: 0, updatedAt: 0, files }
+}
+
+describe("checkpoint restore planning", () => {
+  it("restores each file to its state before the first edit from the checkpoint on", () => {
+    const checkpoints = [
+      checkpoint("cp_1", [{ path: "a.ts", tool: "edit", beforeHash: "a0", afterHash: "a1" }]),
+      checkpoint("cp_2", [
+        { path: "a.ts", tool: "edit", beforeHash: "a1", afterHash: "a2" },
+        { path: "new.ts", tool: "write", beforeHash: null, afterHash: "n1" },
+      ]),
+      checkpoint("cp_3", [{ path: "a.ts", tool: "edit", beforeHash: "a2", afterHash: "a3" }]),
+    ]
+
+    assert.deepEqual(planCheckpointRestore(checkpoints, "cp_2"), [
+      { path: "a.ts", targetHash: "a1", expectedHash: "a3" },
+      { path: "new.ts", targetHash: null, expectedHash: "n1" },
+    ])
+    assert.equal(planCheckpointRestore(checkpoints, "cp_9"), null)
+  })
+
+  it("undoes edits that already reached the disk", () => {
+    const input = { filePath: "a.ts", oldString: "retries = 1", newString: "retries = 3" }
+    assert.deepEqual(priorContent("edit", input, "const retries = 3\n"), {
+      kind: "reversed",
+      content: "const retries = 1\n",
+    })
+    assert.deepEqual(priorContent("edit", input, "const retries = 1\n"), { kind: "current" })
+    assert.deepEqual(priorContent("write", { content: "x" }, "x"), { kind: "unknown" })
+    assert.deepEqual(
+      toolFilePaths("patch", { patchText: "*** Begin Patch\n*** Update File: src/a.ts\n*** Add File: b.ts\n" }),
+      ["src/a.ts", "b.ts"],
+    )
+  })
+})
+
+describe("checkpoint service", () => {
+  let root: string
+  let bus: EventBus
+  let service: CheckpointService
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoints-"))
+    bus = new EventBus()
+    const workspaceManager = { get: () => ({ id: "ws", path: root }) } as unknown as WorkspaceManager
+    service = new CheckpointService({ eventBus: bus, logger: pino({ level: "silent" }), workspaceManager })
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  it("rolls every file back and refuses to overwrite external edits without force", async () => {
+    const file = path.join(root, "a.ts")
+    const created = path.join(root, "src", "new.ts")
+    fs.writeFileSync(file, "v0")
+    const target = { folder: root, instanceId: "ws", sessionId: "ses", messageId: "msg_1" }
+
+    await service.captureBefore(target, file, "write")
+    fs.writeFileSync(file, "v1")
+    await service.captureAfter(target, file, "write")
+    await service.captureBefore(target, created, "write")
+    fs.mkdirSync(path.dirname(created))
+    fs.writeFileSync(created, "new")
+    await service.captureAfter(target, created, "write")
+
+    fs.writeFileSync(file, "v1 with a user edit")
+    const preview = await service.preview("ws", "ses", "cp_msg_1")
+    assert.deepEqual(
+      preview.files.map((entry) => [entry.path, entry.action, entry.conflict]),
+      [
+        ["a.ts", "restore", true],
+        ["src/new.ts", "delete", false],
+      ],
+    )
+    await assert.rejects(
+      service.restore("ws", "ses", "cp_msg_1"),
+      (err: unknown) => err instanceof CheckpointError && err.statusCode === 409,
+    )
+
+    const result = await service.restore("ws", "ses", "cp_msg_1", { force: true })
+    assert.deepEqual(result.removedCheckpoints, ["cp_msg_1"])
+    assert.equal(fs.readFileSync(file, "utf-8"), "v0")
+    assert.equal(fs.existsSync(created), false)
+    assert.deepEqual((await service.list("ws", "ses")).checkpoints, [])
+  })
+})
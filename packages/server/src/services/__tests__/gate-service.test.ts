@@ -0,0 +1,113 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import type { WorkspaceEventPayload } from "../../api-types"
+import { EventBus } from "../../events/bus"
+import type { WorkspaceManager } from "../../workspaces/manager"
+import { FormulaLoader } from "../formula-loader"
+import { GateService } from "../gate-service"
+import { PlanRunner } from "../plan-runner"
+
+const logger = pino({ level: "silent" })
+
+describe("gate service", () => {
+  let bus: EventBus
+  let gates: GateService
+  let events: WorkspaceEventPayload[]
+
+  beforeEach(() => {
+    bus = new EventBus()
+    gates = new GateService({ eventBus: bus, logger, defaultTimeoutMinutes: () => 0 })
+    events = []
+    bus.onEvent((event) => {
+      if (event.type.startsWith("gate.")) events.push(event)
+    })
+  })
+
+  afterEach(() => gates.dispose())
+
+  it("lists pending gates per session and records decisions", () => {
+    const first = gates.create({ title: "Push to main", source: "governance", sessionId: "ses_1" })
+    gates.create({ title: "Drop table", source: "agent", sessionId: "ses_2" })
+    assert.equal(first.expiresAt, undefined)
+
+    assert.deepEqual(
+      gates.list({ sessionId: "ses_1", status: "waiting" }).map((gate) => gate.title),
+      ["Push to main"],
+    )
+
+    const approved = gates.approve(first.id, { comment: "  looks fine  " })
+    assert.equal(approved.status, "resolved")
+    assert.deepEqual(approved.resolution, { outcome: "approved", resolvedBy: "user", comment: "looks fine" })
+    assert.throws(() => gates.reject(first.id), /already resolved/)
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ["gate.created", "gate.created", "gate.resolved"],
+    )
+  })
+
+  it("times out waiting gates and wakes long-polling waiters", async () => {
+    const gate = gates.create({ title: "Quick decision", timeoutMinutes: 0.001 })
+    assert.ok(gate.expiresAt)
+
+    const decided = await gates.wait(gate.id, 5_000)
+    assert.equal(decided?.status, "timed-out")
+    assert.equal(gates.list({ status: "waiting" }).length, 0)
+  })
+})
+
+describe("plan gates", () => {
+  let projectDir: string
+  let bus: EventBus
+  let gates: GateService
+  let runner: PlanRunner
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "plan-gates-"))
+    bus = new EventBus()
+    gates = new GateService({ eventBus: bus, logger })
+    runner = new PlanRunner({
+      eventBus: bus,
+      logger,
+      workspaceManager: {} as WorkspaceManager,
+      formulaLoader: new FormulaLoader({ logger, globalDir: path.join(projectDir, "global-formulas") }),
+      gateService: gates,
+    })
+  })
+
+  afterEach(() => {
+    runner.shutdown()
+    gates.dispose()
+    fs.rmSync(projectDir, { recursive: true, force: true })
+  })
+
+  it("opens a gate for waiting steps and applies its rejection to the plan", async () => {
+    const dir = path.join(projectDir, ".era", "formulas")
+    fs.mkdirSync(dir, { recursive: true })
+    fs.writeFileSync(
+      path.join(dir, "release.json"),
+      JSON.stringify({
+        steps: [
+          { id: "approve", gate: "human" },
+          { id: "publish", run: "echo published", dependsOn: ["approve"] },
+        ],
+      }),
+    )
+
+    const started = await runner.start({ folder: projectDir, formula: "release" })
+    const [gate] = gates.list({ planId: started.id, status: "waiting" })
+    assert.equal(gate?.stepId, "approve")
+    assert.equal(gate.source, "plan")
+
+    gates.reject(gate.id, { comment: "not today" })
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    const plan = await runner.get(started.id)
+    assert.equal(plan?.status, "failed")
+    assert.equal(plan?.steps[0].error, "Rejected: not today")
+    assert.equal(plan?.steps[1].status, "skipped")
+  })
+})
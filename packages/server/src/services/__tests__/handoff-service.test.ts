@@ -0,0 +1,79 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { HandoffEntry } from "../../api-types"
+import { buildChain, buildHandoffDocument, renderHandoffMarkdown, type InstanceMessage } from "../handoff-service"
+
+function handoff(id: string, from: string, to: string, timestamp: string): HandoffEntry {
+  return {
+    id,
+    folder: "/repo",
+    instanceId: "ws",
+    fromSessionId: from,
+    toSessionId: to,
+    timestamp,
+    contextUsage: 0.9,
+    tokensUsed: 1000,
+    reason: "context_exhaustion",
+    title: from,
+    workSummary: "",
+    completedTasks: ["a"],
+    pendingTasks: ["b"],
+    keyDecisions: [],
+    filesModified: [],
+    documentPath: `.era/handoffs/${id}.md`,
+  }
+}
+
+describe("handoff documents", () => {
+  it("collects tasks, edited files, decisions and token usage", () => {
+    const messages: InstanceMessage[] = [
+      { info: { id: "m1", role: "user" }, parts: [{ type: "text", text: "Add retries to the HTTP client" }] },
+      {
+        info: { id: "m2", role: "assistant", tokens: { input: 1200, output: 300 } },
+        parts: [
+          { type: "text", text: "I decided to use exponential backoff instead of fixed delays. Updated the client." },
+          { type: "tool", tool: "edit", state: { status: "completed", input: { filePath: "/repo/src/client.ts" } } },
+          { type: "tool", tool: "write", state: { status: "error", input: { filePath: "/repo/src/broken.ts" } } },
+          { type: "tool", tool: "read", state: { status: "completed", input: { filePath: "/repo/README.md" } } },
+        ],
+      },
+    ]
+    const todos = [
+      { content: "Implement backoff", status: "completed" },
+      { content: "Add tests", status: "in_progress" },
+      { content: "Old idea", status: "cancelled" },
+    ]
+
+    const document = buildHandoffDocument(messages, todos, "/repo")
+    assert.deepEqual(document.completedTasks, ["Implement backoff"])
+    assert.deepEqual(document.pendingTasks, ["Add tests"])
+    assert.deepEqual(document.filesModified, ["src/client.ts"])
+    assert.deepEqual(document.keyDecisions, ["I decided to use exponential backoff instead of fixed delays."])
+    assert.equal(document.tokensUsed, 1500)
+    assert.ok(document.workSummary.startsWith("Goal: Add retries"))
+
+    const markdown = renderHandoffMarkdown({ ...handoff("h1", "ses_a", "ses_b", "t"), ...document }, "Run the suite first")
+    assert.ok(markdown.includes("- [ ] Add tests"))
+    assert.ok(markdown.includes("## Notes\n\nRun the suite first"))
+  })
+
+  it("rebuilds the chain a session belongs to", () => {
+    const handoffs = [
+      handoff("h1", "ses_a", "ses_b", "2026-01-01T00:00:00Z"),
+      handoff("h2", "ses_b", "ses_c", "2026-01-02T00:00:00Z"),
+      handoff("h3", "ses_x", "ses_y", "2026-01-03T00:00:00Z"),
+    ]
+
+    const result = buildChain(handoffs, "ses_b")
+    assert.deepEqual(
+      result.chain.map((node) => node.sessionId),
+      ["ses_a", "ses_b", "ses_c"],
+    )
+    assert.deepEqual(
+      result.handoffs.map((entry) => entry.id),
+      ["h1", "h2"],
+    )
+    assert.equal(result.chain[0].progress, "1/2 tasks")
+    assert.deepEqual(buildChain(handoffs, "ses_unrelated"), { handoffs: [], chain: [] })
+  })
+})
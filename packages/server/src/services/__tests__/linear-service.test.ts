@@ -0,0 +1,110 @@
+import assert from "node:assert/strict"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { describe, it } from "node:test"
+import pino from "pino"
+import type { Preferences } from "../../config/schema"
+import type { McpSession } from "../../tools/mcp-discovery"
+import { LinearService, extractAcceptanceCriteria, toLinearIssue } from "../linear-service"
+
+describe("Linear service", () => {
+  it("maps issues from differently shaped servers", () => {
+    assert.deepEqual(
+      toLinearIssue({
+        id: "abc",
+        identifier: "ENG-12",
+        title: "Fix checkout",
+        state: { name: "In Progress", color: "#f2c94c" },
+        priority: { value: 2, name: "High" },
+        labels: { nodes: [{ name: "bug" }] },
+        assignee: { displayName: "sam" },
+        url: "https://linear.app/acme/issue/ENG-12",
+        updatedAt: "2026-01-02T00:00:00.000Z",
+      }),
+      {
+        id: "abc",
+        identifier: "ENG-12",
+        title: "Fix checkout",
+        status: "In Progress",
+        statusColor: "#f2c94c",
+        priority: 2,
+        priorityLabel: "High",
+        labels: ["bug"],
+        assignee: "sam",
+        url: "https://linear.app/acme/issue/ENG-12",
+        updatedAt: Date.parse("2026-01-02T00:00:00.000Z"),
+      },
+    )
+
+    const flat = toLinearIssue({ id: "ENG-3", title: "Docs", status: "Todo", priority: 4, labels: ["docs"], assignee: "kim" })
+    assert.equal(flat?.identifier, "ENG-3")
+    assert.equal(flat?.priorityLabel, "Low")
+    assert.deepEqual(flat?.labels, ["docs"])
+    assert.equal(toLinearIssue({ id: "x" }), null)
+  })
+
+  it("extracts acceptance criteria from the description", () => {
+    const description = [
+      "Checkout fails for saved cards.",
+      "",
+      "## Acceptance criteria",
+      "- [ ] Saved cards can be charged",
+      "* Errors are shown inline",
+      "1. No regression for new cards",
+      "",
+      "## Notes",
+      "- not a criterion",
+    ].join("\n")
+    assert.deepEqual(extractAcceptanceCriteria(description), [
+      "Saved cards can be charged",
+      "Errors are shown inline",
+      "No regression for new cards",
+    ])
+    assert.deepEqual(extractAcceptanceCriteria("No criteria here"), [])
+  })
+
+  it("caches issue lists per project and patches status changes", async () => {
+    const folder = fs.mkdtempSync(path.join(os.tmpdir(), "linear-service-"))
+    fs.mkdirSync(path.join(folder, ".era"))
+    fs.writeFileSync(path.join(folder, ".era", "linear.json"), JSON.stringify({ team: "ENG" }))
+
+    const calls: Array<{ name: string; args: Record<string, unknown> }> = []
+    const session: McpSession = {
+      initialize: undefined,
+      request: async () => ({ tools: [{ name: "list_issues" }, { name: "update_issue" }] }),
+      callTool: async (name, args = {}) => {
+        calls.push({ name, args })
+        const text =
+          name === "list_issues"
+            ? JSON.stringify({ issues: [{ id: "abc", identifier: "ENG-12", title: "Fix checkout", status: "Todo" }] })
+            : "Issue updated"
+        return { content: [{ type: "text", text }] }
+      },
+    }
+    const service = new LinearService({
+      logger: pino({ level: "silent" }),
+      getPreferences: () =>
+        ({
+          mcpRegistry: { "linear-mock": { type: "local", command: ["linear-mock"] } },
+          mcpDesiredState: {},
+          environmentVariables: {},
+        }) as unknown as Preferences,
+      connect: async (_config, _timeout, fn) => fn(session),
+    })
+
+    try {
+      const first = await service.listIssues(folder)
+      const second = await service.listIssues(folder)
+      assert.equal(second, first)
+      assert.deepEqual(calls, [{ name: "list_issues", args: { team: "ENG", limit: 50 } }])
+
+      const updated = await service.updateStatus(folder, "abc", "Done")
+      assert.equal(updated.status, "Done")
+      assert.deepEqual(calls[1], { name: "update_issue", args: { id: "abc", state: "Done" } })
+      assert.equal((await service.listIssues(folder)).issues[0].status, "Done")
+    } finally {
+      fs.rmSync(folder, { recursive: true, force: true })
+    }
+  })
+})
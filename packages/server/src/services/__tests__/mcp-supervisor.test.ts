@@ -0,0 +1,82 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import pino from "pino"
+import type { McpServerConfig, Preferences } from "../../config/schema"
+import type { McpStatusChangedEvent } from "../../api-types"
+import { EventBus } from "../../events/bus"
+import type { McpProbeResult } from "../../tools/mcp-discovery"
+import { McpSupervisor } from "../mcp-supervisor"
+
+function createSupervisor(registry: Record<string, McpServerConfig>, probe: (config: McpServerConfig) => Promise<McpProbeResult>) {
+  const eventBus = new EventBus()
+  const events: McpStatusChangedEvent[] = []
+  eventBus.on("mcp.statusChanged", (event: McpStatusChangedEvent) => events.push(event))
+  const supervisor = new McpSupervisor({
+    eventBus,
+    logger: pino({ level: "silent" }),
+    getPreferences: () => ({ mcpRegistry: registry, mcpDesiredState: { off: false } }) as unknown as Preferences,
+    getProjectFolders: () => [],
+    probe,
+  })
+  return { supervisor, events }
+}
+
+describe("MCP supervisor", () => {
+  it("records inventory and only probes enabled servers", async () => {
+    const probed: string[] = []
+    const { supervisor } = createSupervisor(
+      {
+        tracker: { type: "remote", url: "https://tracker.example.com/mcp" },
+        off: { type: "local", command: ["off-server"] },
+      },
+      async (config) => {
+        probed.push(config.type === "remote" ? config.url : config.command[0])
+        return {
+          serverInfo: { name: "tracker", version: "1.0.0" },
+          tools: [{ name: "update_record" }, { name: "search_records" }],
+          resources: [],
+          prompts: [{ name: "triage" }],
+        }
+      },
+    )
+
+    await supervisor.probeAll()
+    assert.deepEqual(probed, ["https://tracker.example.com/mcp"])
+
+    const [tracker, off] = supervisor.list().servers
+    assert.equal(tracker.status, "healthy")
+    assert.equal(tracker.history.length, 1)
+    assert.deepEqual(
+      tracker.tools.map((tool) => [tool.name, tool.riskLevel, tool.mutating]),
+      [
+        ["update_record", "moderate", true],
+        ["search_records", "safe", false],
+      ],
+    )
+    assert.deepEqual(tracker.prompts, [{ name: "triage" }])
+    assert.equal(off.status, "disabled")
+  })
+
+  it("degrades a failing server before reporting it down and only publishes changes", async () => {
+    let fail = false
+    const { supervisor, events } = createSupervisor({ docs: { type: "local", command: ["docs"] } }, async () => {
+      if (fail) throw new Error("connection refused")
+      return { tools: [], resources: [], prompts: [] }
+    })
+
+    await supervisor.probeAll()
+    await supervisor.probeAll()
+    fail = true
+    await supervisor.probeAll()
+    await supervisor.probeAll()
+
+    const [docs] = supervisor.list().servers
+    assert.equal(docs.status, "down")
+    assert.equal(docs.consecutiveFailures, 2)
+    assert.equal(docs.lastError, "connection refused")
+    assert.deepEqual(
+      events.map((event) => event.server.status),
+      ["unknown", "healthy", "degraded", "down"],
+    )
+  })
+})
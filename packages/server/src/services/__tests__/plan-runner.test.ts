@@ -0,0 +1,173 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import type { PlanRun, PlanStepStatusEvent } from "../../api-types"
+import { EventBus } from "../../events/bus"
+import type { WorkspaceManager } from "../../workspaces/manager"
+import { FormulaLoader, interpolate, parseFormula, validateVariables } from "../formula-loader"
+import { PlanRunner } from "../plan-runner"
+
+const logger = pino({ level: "silent" })
+
+function writeFormula(folder: string, name: string, formula: Record<string, unknown>) {
+  const dir = path.join(folder, ".era", "formulas")
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(path.join(dir, `${name}.json`), JSON.stringify(formula))
+}
+
+async function waitFor(runner: PlanRunner, planId: string, done: (plan: PlanRun) => boolean): Promise<PlanRun> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const plan = await runner.get(planId)
+    if (plan && done(plan)) return plan
+    await new Promise((resolve) => setTimeout(resolve, 50))
+  }
+  throw new Error("Timed out waiting for plan")
+}
+
+describe("formula loader", () => {
+  it("rejects unknown dependencies and cycles", () => {
+    assert.throws(() => parseFormula({ steps: [{ id: "a", run: "true", dependsOn: ["missing"] }] }, "project"), /unknown step/)
+    assert.throws(
+      () =>
+        parseFormula(
+          {
+            steps: [
+              { id: "a", run: "true", dependsOn: ["b"] },
+              { id: "b", run: "true", dependsOn: ["a"] },
+            ],
+          },
+          "project",
+        ),
+      /cycle/,
+    )
+  })
+
+  it("validates and coerces variables", () => {
+    const formula = parseFormula(
+      {
+        variables: [
+          { name: "service", type: "string", pattern: "^[a-z-]+$" },
+          { name: "replicas", type: "number", default: 3 },
+          { name: "env", type: "string", enum: ["staging", "prod"], default: "staging" },
+        ],
+        steps: [{ id: "deploy", run: "deploy {{service}} {{replicas}}" }],
+      },
+      "project",
+    )
+
+    assert.deepEqual(validateVariables(formula, { service: "api", replicas: "5" }), {
+      ok: true,
+      values: { service: "api", replicas: 5, env: "staging" },
+    })
+    const invalid = validateVariables(formula, { replicas: "many", env: "dev", extra: 1 })
+    assert.equal(invalid.ok, false)
+    assert.equal(invalid.ok === false && invalid.errors.length, 4)
+  })
+
+  it("shell-quotes interpolated values", () => {
+    if (process.platform === "win32") return
+    assert.equal(interpolate("echo {{msg}}", { msg: "it's; rm -rf /" }, "shell"), `echo 'it'\\''s; rm -rf /'`)
+  })
+})
+
+describe("plan runner", () => {
+  let projectDir: string
+  let bus: EventBus
+  let runner: PlanRunner
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "plan-runner-"))
+    bus = new EventBus()
+    runner = new PlanRunner({
+      eventBus: bus,
+      logger,
+      workspaceManager: {} as WorkspaceManager,
+      formulaLoader: new FormulaLoader({ logger, globalDir: path.join(projectDir, "global-formulas") }),
+    })
+  })
+
+  afterEach(() => {
+    runner.shutdown()
+    fs.rmSync(projectDir, { recursive: true, force: true })
+  })
+
+  it("runs shell steps in dependency order and checkpoints the result", async () => {
+    writeFormula(projectDir, "build", {
+      parallelism: 2,
+      variables: [{ name: "label", type: "string" }],
+      steps: [
+        { id: "one", run: "echo one {{label}} >> order.txt" },
+        { id: "two", run: "echo two >> order.txt" },
+        { id: "three", action: "test", run: "echo 4 passed", dependsOn: ["one", "two"] },
+      ],
+    })
+
+    const events: PlanStepStatusEvent[] = []
+    bus.onEvent((event) => {
+      if (event.type === "plan.stepStatus") events.push(event)
+    })
+
+    const started = await runner.start({ folder: projectDir, formula: "build", variables: { label: "x" } })
+    const plan = await waitFor(runner, started.id, (run) => run.status === "completed")
+
+    assert.deepEqual(
+      plan.steps.map((step) => [step.stepId, step.parallelGroup, step.status]),
+      [
+        ["one", 0, "completed"],
+        ["two", 0, "completed"],
+        ["three", 1, "completed"],
+      ],
+    )
+    const order = fs.readFileSync(path.join(projectDir, "order.txt"), "utf-8")
+    assert.ok(order.includes("one x"))
+    assert.equal(plan.checkpoints.find((checkpoint) => checkpoint.stepId === "three")?.passed, 4)
+    assert.equal(events.at(-1)?.planStatus, "completed")
+
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    const saved = JSON.parse(fs.readFileSync(path.join(projectDir, ".era", "plans", `${started.id}.json`), "utf-8"))
+    assert.equal(saved.status, "completed")
+  })
+
+  it("skips dependents of a failed step", async () => {
+    writeFormula(projectDir, "fails", {
+      steps: [
+        { id: "bad", run: "exit 3" },
+        { id: "after", run: "echo never", dependsOn: ["bad"] },
+      ],
+    })
+
+    const started = await runner.start({ folder: projectDir, formula: "fails" })
+    const plan = await waitFor(runner, started.id, (run) => run.status === "failed")
+    assert.equal(plan.steps[0].exitCode, 3)
+    assert.equal(plan.steps[1].status, "skipped")
+  })
+
+  it("pauses on human gates until approved", async () => {
+    writeFormula(projectDir, "gated", {
+      steps: [
+        { id: "approve", gate: "human" },
+        { id: "deploy", run: "echo deployed", dependsOn: ["approve"] },
+      ],
+    })
+
+    const started = await runner.start({ folder: projectDir, formula: "gated" })
+    const paused = await waitFor(runner, started.id, (run) => run.status === "paused")
+    assert.equal(paused.steps[0].status, "waiting")
+    assert.equal(paused.steps[1].status, "pending")
+
+    await runner.decideGate(started.id, "approve", { approved: true, comment: "ship it" })
+    const plan = await waitFor(runner, started.id, (run) => run.status === "completed")
+    assert.ok(plan.steps[1].output?.includes("deployed"))
+  })
+
+  it("rejects missing required variables", async () => {
+    writeFormula(projectDir, "needs-var", {
+      variables: [{ name: "target", type: "string" }],
+      steps: [{ id: "go", run: "echo {{target}}" }],
+    })
+    await assert.rejects(runner.start({ folder: projectDir, formula: "needs-var" }), /Invalid formula variables/)
+  })
+})
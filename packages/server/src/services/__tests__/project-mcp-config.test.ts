@@ -0,0 +1,52 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import { PROJECT_MCP_FILE, ProjectMcpConfigService, readProjectMcpConfig } from "../project-mcp-config"
+
+describe("project MCP config", () => {
+  let folder: string
+  let service: ProjectMcpConfigService
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "project-mcp-"))
+    service = new ProjectMcpConfigService({ logger: pino({ level: "silent" }) })
+  })
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true })
+  })
+
+  it("persists servers and overrides to .era/mcp.json", async () => {
+    await service.setServer(folder, "docs", { type: "remote", url: "https://docs.example.com/mcp" })
+    await service.setOverride(folder, "playwright", false)
+    await service.setOverride(folder, "linear-server", true)
+    await service.setOverride(folder, "linear-server", null)
+
+    assert.deepEqual(readProjectMcpConfig(folder), {
+      servers: { docs: { type: "remote", url: "https://docs.example.com/mcp" } },
+      overrides: { playwright: false },
+    })
+
+    await service.removeServer(folder, "docs")
+    assert.deepEqual(service.get(folder).servers, {})
+    await assert.rejects(service.removeServer(folder, "docs"), { statusCode: 404 })
+  })
+
+  it("skips invalid entries instead of rejecting the file", () => {
+    fs.mkdirSync(path.join(folder, ".era"))
+    fs.writeFileSync(
+      path.join(folder, PROJECT_MCP_FILE),
+      JSON.stringify({
+        servers: { ok: { type: "local", command: ["mcp"] }, broken: { type: "local", command: [] } },
+        overrides: { ok: "yes", other: false },
+      }),
+    )
+    assert.deepEqual(readProjectMcpConfig(folder), {
+      servers: { ok: { type: "local", command: ["mcp"] } },
+      overrides: { other: false },
+    })
+  })
+})
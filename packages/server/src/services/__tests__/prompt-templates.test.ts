@@ -0,0 +1,63 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import { PROJECT_TEMPLATE_DIR, PromptTemplateLibrary, parsePromptTemplate } from "../prompt-templates"
+
+describe("prompt templates", () => {
+  let root: string
+  let folder: string
+  let library: PromptTemplateLibrary
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "prompt-templates-"))
+    folder = path.join(root, "project")
+    fs.mkdirSync(folder)
+    library = new PromptTemplateLibrary({ logger: pino({ level: "silent" }), globalDir: path.join(root, "global") })
+  })
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it("stores templates as Markdown with a description front matter", async () => {
+    await library.save({
+      name: "review",
+      source: "project",
+      folder,
+      description: "Review a file",
+      body: "Review {{file}} for {{concern:error handling}}.",
+    })
+
+    const content = fs.readFileSync(path.join(folder, PROJECT_TEMPLATE_DIR, "review.md"), "utf-8")
+    assert.equal(content, "---\ndescription: Review a file\n---\n\nReview {{file}} for {{concern:error handling}}.\n")
+    assert.deepEqual(parsePromptTemplate(content), {
+      description: "Review a file",
+      body: "Review {{file}} for {{concern:error handling}}.",
+    })
+  })
+
+  it("lets project templates shadow global ones", async () => {
+    await library.save({ name: "review", source: "global", description: "", body: "global review" })
+    await library.save({ name: "explain", source: "global", description: "", body: "explain {{selection}}" })
+    await library.save({ name: "review", source: "project", folder, description: "", body: "project review" })
+
+    const { templates } = await library.list(folder)
+    assert.deepEqual(
+      templates.map((template) => [template.name, template.source, template.body]),
+      [
+        ["explain", "global", "explain {{selection}}"],
+        ["review", "project", "project review"],
+      ],
+    )
+    assert.equal((await library.list()).templates.find((template) => template.name === "review")?.source, "global")
+
+    await library.delete("review", "project", folder)
+    await assert.rejects(library.delete("review", "project", folder), { statusCode: 404 })
+    await assert.rejects(library.save({ name: "../escape", source: "global", description: "", body: "x" }), {
+      statusCode: 400,
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { setTimeout as delay } from "node:timers/promises"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import { EventBus } from "../../events/bus"
+import { buildSnippet, SessionSearchIndex } from "../session-search"
+
+function writeJson(file: string, value: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, JSON.stringify(value))
+}
+
+describe("session search", () => {
+  let storage: string
+  let bus: EventBus
+  let index: SessionSearchIndex
+  let detach: () => void
+
+  beforeEach(() => {
+    storage = fs.mkdtempSync(path.join(os.tmpdir(), "session-search-"))
+    writeJson(path.join(storage, "session", "proj", "ses_1.json"), {
+      id: "ses_1",
+      projectID: "proj",
+      directory: "/repo",
+      title: "Retry work",
+    })
+    writeJson(path.join(storage, "message", "ses_1", "msg_1.json"), {
+      id: "msg_1",
+      sessionID: "ses_1",
+      role: "user",
+      time: { created: 1000 },
+    })
+    writeJson(path.join(storage, "message", "ses_1", "msg_2.json"), {
+      id: "msg_2",
+      sessionID: "ses_1",
+      role: "assistant",
+      time: { created: 2000 },
+    })
+    writeJson(path.join(storage, "part", "msg_1", "prt_1.json"), {
+      id: "prt_1",
+      sessionID: "ses_1",
+      messageID: "msg_1",
+      type: "text",
+      text: "Add exponential backoff to the HTTP client",
+    })
+    writeJson(path.join(storage, "part", "msg_2", "prt_2.json"), {
+      id: "prt_2",
+      sessionID: "ses_1",
+      messageID: "msg_2",
+      type: "tool",
+      tool: "edit",
+      state: { input: { filePath: "/repo/src/http-client.ts", oldString: "retries", newString: "backoff()" } },
+    })
+
+    bus = new EventBus()
+    index = new SessionSearchIndex({ eventBus: bus, logger: pino({ level: "silent" }), storagePath: storage, reindexDelayMs: 0 })
+    detach = index.attach()
+  })
+
+  afterEach(() => {
+    detach()
+    fs.rmSync(storage, { recursive: true, force: true })
+  })
+
+  it("finds stored text and tool parts with filters and prefix matching", async () => {
+    const all = await index.search({ q: "backo" })
+    assert.deepEqual(
+      all.results.map((hit) => hit.partId).sort(),
+      ["prt_1", "prt_2"],
+    )
+
+    const tools = await index.search({ q: "http client", tool: "edit" })
+    assert.deepEqual(tools.results.map((hit) => [hit.partId, hit.role, hit.files[0]]), [
+      ["prt_2", "assistant", "/repo/src/http-client.ts"],
+    ])
+
+    assert.equal((await index.search({ q: "backoff", role: "user", project: "/repo" })).total, 1)
+    assert.equal((await index.search({ q: "backoff", from: 1500 })).results[0]?.partId, "prt_2")
+    assert.equal((await index.search({ q: "backoff", project: "other" })).total, 0)
+  })
+
+  it("follows part updates and removals from the event stream", async () => {
+    await index.search({ q: "warmup" })
+    const part = { id: "prt_3", sessionID: "ses_1", messageID: "msg_2", type: "text", text: "Circuit breaker added" }
+    bus.publish({ type: "instance.event", instanceId: "ws", event: { type: "message.part.updated", properties: { part } } })
+    await delay(10)
+    assert.equal((await index.search({ q: "circuit" })).results[0]?.sessionTitle, "Retry work")
+
+    bus.publish({ type: "instance.event", instanceId: "ws", event: { type: "message.removed", properties: { messageID: "msg_2" } } })
+    assert.equal((await index.search({ q: "circuit" })).total, 0)
+  })
+
+  it("highlights matched words in the snippet", () => {
+    const { snippet, highlights } = buildSnippet("Retry the request with Backoff and more backoffs", ["backoff"])
+    assert.deepEqual(
+      highlights.map(([start, end]) => snippet.slice(start, end)),
+      ["Backoff", "backoffs"],
+    )
+  })
+})
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import { EventBus } from "../../events/bus"
+import { ConflictDetector } from "../../filesystem/conflict-detector"
+import type { WorkspaceManager } from "../../workspaces/manager"
+import { ToolFileTracker, toolFileAccess } from "../tool-file-tracker"
+
+function toolPart(sessionId: string, tool: string, input: Record<string, unknown>, status = "completed") {
+  return { type: "tool", tool, sessionID: sessionId, state: { status, input } }
+}
+
+async function waitFor(done: () => boolean) {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (done()) return
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+  throw new Error("Timed out waiting for tool file tracking")
+}
+
+describe("tool file access", () => {
+  it("reads files from completed read and write tool calls only", () => {
+    assert.deepEqual(toolFileAccess(toolPart("ses_a", "read", { filePath: "src/a.ts" })), {
+      sessionId: "ses_a",
+      mode: "read",
+      files: ["src/a.ts"],
+    })
+    assert.deepEqual(toolFileAccess(toolPart("ses_a", "patch", { patchText: "*** Update File: b.ts\n" })), {
+      sessionId: "ses_a",
+      mode: "write",
+      files: ["b.ts"],
+    })
+    assert.equal(toolFileAccess(toolPart("ses_a", "edit", { filePath: "a.ts" }, "running")), null)
+    assert.equal(toolFileAccess(toolPart("ses_a", "bash", { command: "ls" })), null)
+    assert.equal(toolFileAccess({ type: "text" }), null)
+  })
+})
+
+describe("tool file tracker", () => {
+  let root: string
+  let bus: EventBus
+  let detector: ConflictDetector
+  let detach: () => void
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "tool-files-"))
+    bus = new EventBus()
+    detector = new ConflictDetector({ workspaceRoot: root, eventBus: bus, logger: pino({ level: "silent" }), autoStart: false })
+    const workspaceManager = {
+      get: () => ({ id: "ws", path: root }),
+      getConflictDetector: () => detector,
+    } as unknown as WorkspaceManager
+    detach = new ToolFileTracker({ eventBus: bus, logger: pino({ level: "silent" }), workspaceManager }).attach()
+  })
+
+  afterEach(() => {
+    detach()
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it("flags a write made over another session's write to a file it read", async () => {
+    const file = path.join(root, "a.ts")
+    fs.writeFileSync(file, "const a = 1\n")
+    const publish = (part: ReturnType<typeof toolPart>) =>
+      bus.publish({ type: "instance.event", instanceId: "ws", event: { type: "message.part.updated", properties: { part } } })
+
+    publish(toolPart("ses_a", "read", { filePath: "a.ts" }))
+    publish(toolPart("ses_b", "read", { filePath: file }))
+    await waitFor(() => detector.getTracker().getTrackedFile(file)?.readers.size === 2)
+
+    fs.writeFileSync(file, "const a = 2\n")
+    publish(toolPart("ses_b", "edit", { filePath: "a.ts" }))
+    await waitFor(() => detector.getTracker().getTrackedFile(file)?.writers.has("ses_b") === true)
+
+    fs.writeFileSync(file, "const a = 3\n")
+    publish(toolPart("ses_a", "write", { filePath: "a.ts", content: "const a = 3\n" }))
+    await waitFor(() => detector.getActiveConflicts().length === 1)
+    assert.equal(detector.getActiveConflicts()[0].conflictType, "concurrent-write")
+
+    bus.publish({ type: "instance.event", instanceId: "ws", event: { type: "session.deleted", properties: { info: { id: "ses_b" } } } })
+    assert.equal(detector.getTracker().getTrackedFile(file)?.readers.has("ses_b"), false)
+  })
+})
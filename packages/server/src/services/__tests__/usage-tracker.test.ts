@@ -0,0 +1,133 @@
+import assert from "node:assert/strict"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { describe, it } from "node:test"
+import pino from "pino"
+import type { UsageBudgets } from "../../config/schema"
+import type { UsageBudgetChangedEvent } from "../../api-types"
+import { EventBus } from "../../events/bus"
+import { UsageTracker, dayKey } from "../usage-tracker"
+
+const NOW = new Date(2026, 2, 15, 15).getTime()
+
+function assistant(id: string, sessionID: string, cost: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    sessionID,
+    role: "assistant",
+    time: { created: NOW },
+    providerID: "anthropic",
+    modelID: "claude-sonnet",
+    mode: "build",
+    path: { root: "/work/shop", cwd: "/work/shop" },
+    cost,
+    tokens: { input: 1000, output: 200, reasoning: 0, cache: { read: 500, write: 0 } },
+    ...overrides,
+  }
+}
+
+function createTracker(budgets: Partial<UsageBudgets> = {}) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-tracker-"))
+  const eventBus = new EventBus()
+  const events: UsageBudgetChangedEvent[] = []
+  eventBus.on("usage.budgetChanged", (event: UsageBudgetChangedEvent) => events.push(event))
+  const tracker = new UsageTracker({
+    eventBus,
+    logger: pino({ level: "silent" }),
+    getBudgets: () => ({ daily: null, monthly: null, warnAt: 0.8, hardStop: false, ...budgets }),
+    getInstanceFolder: () => undefined,
+    filePath: path.join(dir, "usage.json"),
+    storagePath: path.join(dir, "opencode"),
+    now: () => NOW,
+  })
+  return { tracker, events, dir }
+}
+
+describe("usage tracker", () => {
+  it("replaces streaming updates and aggregates by model, agent and day", async () => {
+    const { tracker, dir } = createTracker()
+    try {
+      tracker.record(assistant("msg_1", "ses_1", 0.01))
+      tracker.record(assistant("msg_1", "ses_1", 0.05))
+      tracker.record(assistant("msg_2", "ses_2", 0.02, { modelID: "gpt-5", providerID: "openai", mode: "plan" }))
+      tracker.record(assistant("msg_3", "ses_2", 0.01, { time: { created: NOW - 40 * 24 * 60 * 60 * 1000 } }))
+
+      const usage = await tracker.analytics()
+      assert.equal(usage.to, dayKey(NOW))
+      assert.equal(usage.byDay.length, 30)
+      assert.equal(usage.totals.messages, 2)
+      assert.equal(usage.totals.cost.toFixed(2), "0.07")
+      assert.deepEqual(usage.byModel.map((entry) => entry.key), ["anthropic/claude-sonnet", "openai/gpt-5"])
+      assert.deepEqual(usage.byAgent.map((entry) => entry.label), ["build", "plan"])
+      assert.equal(usage.byProject[0].label, "shop")
+      assert.equal(usage.topSessions[0].sessionId, "ses_1")
+      assert.equal(usage.byDay[usage.byDay.length - 1].messages, 2)
+
+      const csv = (await tracker.exportCsv()).trim().split("\n")
+      assert.equal(csv.length, 3)
+      assert.match(csv[1], new RegExp(`^${dayKey(NOW)},/work/shop,anthropic,claude-sonnet,build,1,1000,200,0,500,0,0.050000$`))
+
+      await tracker.flush()
+      const saved = JSON.parse(fs.readFileSync(path.join(dir, "usage.json"), "utf-8"))
+      assert.equal(saved.records.length, 3)
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it("warns, then blocks once a budget with hard stop is exceeded", async () => {
+    const { tracker, events, dir } = createTracker({ daily: 1, hardStop: true })
+    try {
+      // Budgets are checked once the recorded usage is loaded
+      await tracker.budgetStatus()
+      tracker.record(assistant("msg_1", "ses_1", 0.5))
+      assert.equal(events.length, 0)
+
+      tracker.record(assistant("msg_2", "ses_1", 0.35))
+      assert.equal(events.at(-1)?.budget.daily.state, "warning")
+      assert.equal(events.at(-1)?.budget.blocked, false)
+
+      tracker.record(assistant("msg_3", "ses_1", 0.2))
+      assert.equal(events.at(-1)?.budget.daily.state, "exceeded")
+      assert.equal(events.at(-1)?.budget.blocked, true)
+      assert.equal(events.length, 2)
+      assert.equal((await tracker.budgetStatus()).monthly.state, "ok")
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it("counts recorded usage in the budget before any event arrives", async () => {
+    const { tracker, dir } = createTracker({ daily: 1 })
+    try {
+      fs.writeFileSync(
+        path.join(dir, "usage.json"),
+        JSON.stringify({ version: 1, sessions: {}, records: [{ messageId: "msg_1", time: NOW, cost: 0.9 }] }),
+      )
+      const budget = await tracker.budgetStatus()
+      assert.equal(budget.daily.spent, 0.9)
+      assert.equal(budget.daily.state, "warning")
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it("moves a corrupt usage file aside instead of overwriting it", async () => {
+    const { tracker, dir } = createTracker()
+    try {
+      fs.writeFileSync(path.join(dir, "usage.json"), '{"version":1,"records":[{"messageId"')
+      tracker.record(assistant("msg_1", "ses_1", 0.01))
+      await tracker.budgetStatus()
+      await tracker.flush()
+
+      const aside = fs.readdirSync(dir).filter((name) => name.startsWith("usage.json.corrupt-"))
+      assert.equal(aside.length, 1)
+      assert.equal(fs.readFileSync(path.join(dir, aside[0]), "utf-8"), '{"version":1,"records":[{"messageId"')
+      const saved = JSON.parse(fs.readFileSync(path.join(dir, "usage.json"), "utf-8"))
+      assert.deepEqual(saved.records.map((record: { messageId: string }) => record.messageId), ["msg_1"])
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict"
+import { execFileSync } from "node:child_process"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import { EventBus } from "../../events/bus"
+import { WorktreeManager } from "../worktree-manager"
+
+const GIT_ENV = {
+  ...process.env,
+  GIT_AUTHOR_NAME: "Test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "Test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+}
+
+function git(cwd: string, ...args: string[]) {
+  return execFileSync("git", args, { cwd, env: GIT_ENV, encoding: "utf-8" }).trim()
+}
+
+describe("worktree manager", () => {
+  let root: string
+  let repo: string
+  let manager: WorktreeManager
+  let savedEnv: NodeJS.ProcessEnv
+
+  beforeEach(() => {
+    savedEnv = process.env
+    process.env = GIT_ENV
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "worktrees-"))
+    repo = path.join(root, "repo")
+    fs.mkdirSync(repo)
+    git(repo, "init", "-q", "-b", "main")
+    fs.writeFileSync(path.join(repo, "a.txt"), "one\ntwo\nthree\n")
+    git(repo, "add", "-A")
+    git(repo, "commit", "-q", "-m", "initial")
+    manager = new WorktreeManager({
+      eventBus: new EventBus(),
+      logger: pino({ level: "silent" }),
+      worktreesDir: path.join(root, "worktrees"),
+      filePath: path.join(root, "worktrees.json"),
+    })
+  })
+
+  afterEach(() => {
+    process.env = savedEnv
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it("squash merges uncommitted session edits back into the base branch", async () => {
+    const worktree = await manager.create(repo)
+    manager.attachSession(worktree.id, "ses_1")
+    assert.equal(git(worktree.path, "rev-parse", "--abbrev-ref", "HEAD"), worktree.branch)
+    assert.deepEqual(manager.directoriesFor(repo), [worktree.directory])
+
+    fs.writeFileSync(path.join(worktree.path, "b.txt"), "new\n")
+    const preview = await manager.preview(worktree.id)
+    assert.equal(preview.canFastForward, true)
+    assert.equal(preview.uncommittedFiles, 1)
+    assert.deepEqual(preview.files, [{ path: "b.txt", status: "session", conflicts: 0 }])
+
+    const result = await manager.merge(worktree.id, { strategy: "squash", message: "Add b", removeWorktree: true })
+    assert.equal(result.removed, true)
+    assert.equal(git(repo, "log", "-1", "--format=%s"), "Add b")
+    assert.equal(fs.readFileSync(path.join(repo, "b.txt"), "utf-8"), "new\n")
+    assert.equal(fs.existsSync(worktree.path), false)
+    assert.equal(git(repo, "branch", "--list", worktree.branch), "")
+    assert.deepEqual(manager.list(repo), [])
+  })
+
+  it("previews conflicts with the base branch and refuses to fast-forward", async () => {
+    const worktree = await manager.create(repo)
+    fs.writeFileSync(path.join(worktree.path, "a.txt"), "one\nTWO (session)\nthree\n")
+    fs.writeFileSync(path.join(repo, "a.txt"), "one\nTWO (main)\nthree\n")
+    git(repo, "commit", "-q", "-am", "main edit")
+
+    const preview = await manager.preview(worktree.id)
+    assert.equal(preview.baseCommits, 1)
+    assert.equal(preview.canFastForward, false)
+    assert.equal(preview.hasConflicts, true)
+    assert.equal(preview.files[0].status, "conflict")
+
+    await assert.rejects(manager.merge(worktree.id, { strategy: "fast-forward" }), { statusCode: 409 })
+    await assert.rejects(manager.merge(worktree.id, { strategy: "rebase" }), { statusCode: 409 })
+    assert.equal(git(repo, "log", "-1", "--format=%s"), "main edit")
+    assert.equal(git(worktree.path, "status", "--porcelain"), "")
+  })
+})
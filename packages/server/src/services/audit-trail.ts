@@ -0,0 +1,353 @@
+/**
+ * Audit Trail Service
+ *
+ * Append-only, per-project audit log stored as JSONL at
+ * `<project>/.era/audit/events.jsonl`. Events without a project (e.g. global
+ * directive edits) go to `~/.era/audit/events.jsonl`.
+ *
+ * Sources:
+ * - Route handlers call `record()` for governance overrides, directive edits,
+ *   registered file writes and conflict resolutions.
+ * - `attach()` subscribes to the EventBus for workspace lifecycle changes,
+ *   gate decisions and permission replies coming from the instance event stream.
+ */
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import type { EventBus } from "../events/bus"
+import type { Logger } from "../logger"
+import type {
+  AuditActor,
+  AuditEvent,
+  AuditEventType,
+  AuditEventsQuery,
+  AuditEventsResponse,
+  WorkspaceEventPayload,
+} from "../api-types"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AuditEventInput {
+  type: AuditEventType
+  actor?: Partial<AuditActor>
+  target?: string
+  description: string
+  metadata?: Record<string, unknown>
+}
+
+export type AuditExportFormat = "jsonl" | "csv"
+
+interface AuditTrailOptions {
+  eventBus: EventBus
+  logger: Logger
+  /** Directory for events that are not tied to a project. */
+  globalDir?: string
+}
+
+interface PendingPermission {
+  title: string
+  kind: string
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const AUDIT_DIR = path.join(".era", "audit")
+const AUDIT_FILE = "events.jsonl"
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 500
+const MAX_PENDING_PERMISSIONS = 500
+
+const SYSTEM_ACTOR: AuditActor = { agentType: "system", sessionId: "", model: "" }
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class AuditTrailService {
+  private readonly workspacePaths = new Map<string, string>()
+  private readonly pendingPermissions = new Map<string, PendingPermission>()
+  private readonly writeQueues = new Map<string, Promise<void>>()
+  private readonly globalDir: string
+  private sequence = 0
+
+  constructor(private readonly options: AuditTrailOptions) {
+    this.globalDir = options.globalDir ?? path.join(os.homedir(), AUDIT_DIR)
+  }
+
+  /**
+   * Subscribe to EventBus sources. Returns an unsubscribe function.
+   */
+  attach(): () => void {
+    const handler = (event: WorkspaceEventPayload) => this.handleBusEvent(event)
+    return this.options.eventBus.onEvent(handler)
+  }
+
+  /**
+   * Append an event to the project's log (or the global log when `folder` is omitted).
+   * Writes for the same file are serialized so lines never interleave.
+   */
+  async record(folder: string | undefined, input: AuditEventInput): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      id: this.nextId(),
+      type: input.type,
+      actor: { ...SYSTEM_ACTOR, ...input.actor },
+      timestamp: new Date().toISOString(),
+      target: input.target,
+      description: input.description,
+      metadata: input.metadata,
+    }
+
+    const filePath = this.resolveFile(folder)
+    const previous = this.writeQueues.get(filePath) ?? Promise.resolve()
+    const next = previous
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.promises.appendFile(filePath, `${JSON.stringify(event)}\n`, "utf-8")
+      })
+      .catch((err) => {
+        this.options.logger.warn({ err, filePath, type: event.type }, "Failed to append audit event")
+      })
+    this.writeQueues.set(filePath, next)
+    await next
+    if (this.writeQueues.get(filePath) === next) {
+      this.writeQueues.delete(filePath)
+    }
+
+    return event
+  }
+
+  /**
+   * Fire-and-forget variant for call sites that must not block on disk I/O.
+   */
+  recordAsync(folder: string | undefined, input: AuditEventInput): void {
+    void this.record(folder, input)
+  }
+
+  /**
+   * Query events newest-first with actor/type/since filters and cursor pagination.
+   */
+  async query(folder: string | undefined, query: AuditEventsQuery): Promise<AuditEventsResponse> {
+    const matching = await this.readMatching(folder, query)
+    const limit = clampLimit(query.limit)
+
+    const afterCursor = query.cursor ? matching.filter((event) => event.id < query.cursor!) : matching
+    const page = afterCursor.slice(0, limit)
+    const nextCursor = afterCursor.length > limit ? page[page.length - 1].id : null
+
+    return { events: page, total: matching.length, nextCursor }
+  }
+
+  /**
+   * Export every matching event (no pagination) as JSONL or CSV.
+   */
+  async export(folder: string | undefined, query: AuditEventsQuery, format: AuditExportFormat): Promise<string> {
+    const matching = await this.readMatching(folder, query)
+    const chronological = [...matching].reverse()
+
+    if (format === "jsonl") {
+      return chronological.map((event) => JSON.stringify(event)).join("\n") + (chronological.length ? "\n" : "")
+    }
+
+    const header = ["id", "timestamp", "type", "actor", "sessionId", "model", "target", "description"]
+    const rows = chronological.map((event) =>
+      [
+        event.id,
+        event.timestamp,
+        event.type,
+        event.actor.agentType,
+        event.actor.sessionId,
+        event.actor.model,
+        event.target ?? "",
+        event.description,
+      ]
+        .map(escapeCsv)
+        .join(","),
+    )
+    return [header.join(","), ...rows].join("\n") + "\n"
+  }
+
+  /** Resolve the project folder for a workspace id seen on the EventBus. */
+  getWorkspacePath(workspaceId: string): string | undefined {
+    return this.workspacePaths.get(workspaceId)
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private async readMatching(folder: string | undefined, query: AuditEventsQuery): Promise<AuditEvent[]> {
+    const events = await this.readAll(folder)
+    const types = query.type
+      ? new Set(
+          query.type
+            .split(",")
+            .map((entry) => entry.trim())
+            .filter(Boolean),
+        )
+      : null
+    const actor = query.actor?.trim().toLowerCase()
+    const since = parseSince(query.since)
+
+    return events
+      .filter((event) => {
+        if (types && !types.has(event.type)) return false
+        if (since !== null && Date.parse(event.timestamp) < since) return false
+        if (actor) {
+          const haystack = `${event.actor.agentType} ${event.actor.sessionId} ${event.actor.model}`.toLowerCase()
+          if (!haystack.includes(actor)) return false
+        }
+        return true
+      })
+      .reverse()
+  }
+
+  private async readAll(folder: string | undefined): Promise<AuditEvent[]> {
+    const filePath = this.resolveFile(folder)
+    await this.writeQueues.get(filePath)
+
+    let raw: string
+    try {
+      raw = await fs.promises.readFile(filePath, "utf-8")
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw err
+    }
+
+    const events: AuditEvent[] = []
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue
+      try {
+        events.push(JSON.parse(line) as AuditEvent)
+      } catch {
+        // Skip a partially written trailing line rather than failing the whole read
+      }
+    }
+    return events
+  }
+
+  private handleBusEvent(event: WorkspaceEventPayload) {
+    switch (event.type) {
+      case "workspace.created":
+        this.workspacePaths.set(event.workspace.id, event.workspace.path)
+        break
+      case "workspace.started":
+        this.workspacePaths.set(event.workspace.id, event.workspace.path)
+        this.recordAsync(event.workspace.path, {
+          type: "workspace_started",
+          target: event.workspace.path,
+          description: `Workspace started (${event.workspace.binaryLabel}${event.workspace.binaryVersion ? ` ${event.workspace.binaryVersion}` : ""})`,
+          metadata: { workspaceId: event.workspace.id, port: event.workspace.port, pid: event.workspace.pid },
+        })
+        break
+      case "workspace.error":
+        this.recordAsync(event.workspace.path, {
+          type: "workspace_error",
+          target: event.workspace.path,
+          description: event.workspace.error ? `Workspace error: ${event.workspace.error}` : "Workspace error",
+          metadata: { workspaceId: event.workspace.id },
+        })
+        break
+      case "workspace.stopped": {
+        const folder = this.workspacePaths.get(event.workspaceId)
+        if (!folder) break
+        this.recordAsync(folder, {
+          type: "workspace_stopped",
+          target: folder,
+          description: "Workspace stopped",
+          metadata: { workspaceId: event.workspaceId },
+        })
+        break
+      }
+      case "gate.resolved": {
+        const { gate } = event
+        const outcome = gate.resolution?.outcome
+        if (outcome !== "approved" && outcome !== "rejected") break
+        this.recordAsync(gate.folder, {
+          type: outcome === "approved" ? "gate_approved" : "gate_rejected",
+          actor: { agentType: gate.resolution?.resolvedBy ?? "user", sessionId: gate.sessionId ?? "" },
+          target: gate.planId ? `${gate.planId}:${gate.stepId ?? ""}` : gate.id,
+          description: `${outcome === "approved" ? "Approved" : "Rejected"} gate "${gate.title}"${gate.resolution?.comment ? `: ${gate.resolution.comment}` : ""}`,
+          metadata: { gateId: gate.id, source: gate.source, gateType: gate.type },
+        })
+        break
+      }
+      case "instance.event":
+        this.handleInstanceEvent(event.instanceId, event.event.type, event.event.properties ?? {})
+        break
+      default:
+        break
+    }
+  }
+
+  private handleInstanceEvent(instanceId: string, type: string, properties: Record<string, unknown>) {
+    if (type === "permission.updated" || type === "permission.asked") {
+      const id = typeof properties.id === "string" ? properties.id : undefined
+      if (!id) return
+      if (this.pendingPermissions.size >= MAX_PENDING_PERMISSIONS) {
+        const oldest = this.pendingPermissions.keys().next().value
+        if (oldest !== undefined) this.pendingPermissions.delete(oldest)
+      }
+      this.pendingPermissions.set(id, {
+        title: typeof properties.title === "string" ? properties.title : "",
+        kind: String(properties.permission ?? properties.type ?? "permission"),
+      })
+      return
+    }
+
+    if (type !== "permission.replied") return
+
+    const permissionId = typeof properties.permissionID === "string" ? properties.permissionID : undefined
+    if (!permissionId) return
+    const response = String(properties.response ?? "")
+    const sessionId = typeof properties.sessionID === "string" ? properties.sessionID : ""
+    const pending = this.pendingPermissions.get(permissionId)
+    this.pendingPermissions.delete(permissionId)
+
+    const denied = response === "reject"
+    const label = pending?.title || pending?.kind || permissionId
+    this.recordAsync(this.workspacePaths.get(instanceId), {
+      type: denied ? "permission_denied" : "permission_approved",
+      actor: { agentType: "user", sessionId },
+      target: pending?.kind,
+      description: denied ? `Denied: ${label}` : `Approved (${response || "once"}): ${label}`,
+      metadata: { permissionId, response, instanceId },
+    })
+  }
+
+  private resolveFile(folder: string | undefined): string {
+    const base = folder ? path.join(folder, AUDIT_DIR) : this.globalDir
+    return path.join(base, AUDIT_FILE)
+  }
+
+  private nextId(): string {
+    this.sequence = (this.sequence + 1) % 1_000_000
+    return `${Date.now().toString().padStart(13, "0")}-${this.sequence.toString().padStart(6, "0")}`
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function clampLimit(limit: number | undefined): number {
+  if (!limit || !Number.isFinite(limit) || limit <= 0) return DEFAULT_LIMIT
+  return Math.min(Math.floor(limit), MAX_LIMIT)
+}
+
+function parseSince(since: string | undefined): number | null {
+  if (!since) return null
+  if (/^\d+$/.test(since)) return Number(since)
+  const parsed = Date.parse(since)
+  return Number.isNaN(parsed) ? null : parsed
+}
+
+function escapeCsv(value: string): string {
+  if (/[",\n\r]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
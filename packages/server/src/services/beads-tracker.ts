@@ -0,0 +1,435 @@
+/**
+ * Beads Tracker
+ *
+ * Reads a project's beads issue store (`<project>/.beads/*.jsonl`) and derives
+ * what the dashboard needs: filtered issue lists, the dependency graph, the
+ * ready-to-work set and dependency cycles.
+ *
+ * Parsed stores are cached per project and revalidated by file mtime/size.
+ * The first read of a project with a `.beads/` directory also starts a
+ * watcher on that directory, so edits made by `bd` or an agent are pushed to
+ * clients as `beads.updated`. The watcher is the tracker's own; the
+ * workspace-wide watchers shared by the conflict detectors are left alone.
+ */
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { EventBus } from "../events/bus"
+import type { Logger } from "../logger"
+import { FileWatchService, type FileChangeEvent } from "../filesystem/file-watch-service"
+import type {
+  BeadsDependency,
+  BeadsGraphEdge,
+  BeadsGraphNode,
+  BeadsGraphResponse,
+  BeadsIssue,
+  BeadsIssuesQuery,
+  BeadsIssuesResponse,
+} from "../api-types"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface BeadsTrackerOptions {
+  eventBus: EventBus
+  logger: Logger
+  /** Skip watching `.beads/` directories (tests, one-off reads). */
+  watch?: boolean
+}
+
+interface CachedStore {
+  /** `<file>:<mtime>:<size>` for every store file, used to detect edits */
+  signature: string
+  issues: BeadsIssue[]
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const BEADS_DIR = ".beads"
+const PRIMARY_FILE = "issues.jsonl"
+/** Auxiliary JSONL files beads keeps next to the issues that are not issue records. */
+const NON_ISSUE_FILES = new Set(["deletions.jsonl", "interactions.jsonl"])
+const BLOCKING_TYPES = new Set(["blocks"])
+const PUSH_DEBOUNCE_MS = 250
+
+const STATUS_ALIASES: Record<string, string> = {
+  in_progress: "in-progress",
+  "in progress": "in-progress",
+  closed: "done",
+  resolved: "done",
+  completed: "done",
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class BeadsTracker {
+  private readonly cache = new Map<string, CachedStore>()
+  /** Watchers of `.beads/` directories by project root */
+  private readonly watches = new Map<string, FileWatchService>()
+  private readonly pushTimers = new Map<string, NodeJS.Timeout>()
+
+  constructor(private readonly options: BeadsTrackerOptions) {}
+
+  /** Whether the project has a beads JSONL store. */
+  hasStore(folder: string): boolean {
+    return this.resolveStoreFiles(folder).length > 0
+  }
+
+  async listIssues(folder: string, query: BeadsIssuesQuery = {}): Promise<BeadsIssuesResponse> {
+    const store = await this.load(folder)
+    if (!store) {
+      return { issues: [], total: 0, statusCounts: {}, available: false }
+    }
+
+    const statuses = parseList(query.status)
+    const priorities = parseList(query.priority)
+    const assignee = query.assignee?.trim().toLowerCase()
+
+    const statusCounts: Record<string, number> = {}
+    for (const issue of store.issues) {
+      statusCounts[issue.status] = (statusCounts[issue.status] ?? 0) + 1
+    }
+
+    const issues = store.issues.filter((issue) => {
+      if (statuses && !statuses.has(issue.status) && !(statuses.has("ready") && issue.ready)) return false
+      if (priorities && !priorities.has(String(issue.priority ?? ""))) return false
+      if (assignee) {
+        if (assignee === "unassigned") return !issue.assignee
+        if (issue.assignee?.toLowerCase() !== assignee) return false
+      }
+      return true
+    })
+
+    return { issues, total: issues.length, statusCounts, available: true }
+  }
+
+  async getGraph(folder: string): Promise<BeadsGraphResponse> {
+    const store = await this.load(folder)
+    if (!store) {
+      return { nodes: [], edges: [], ready: [], cycles: [], available: false }
+    }
+    return buildGraph(store.issues)
+  }
+
+  /** Stop the `.beads/` watchers and drop cached stores. */
+  async dispose(): Promise<void> {
+    for (const timer of this.pushTimers.values()) clearTimeout(timer)
+    this.pushTimers.clear()
+    const watchers = Array.from(this.watches.values())
+    this.watches.clear()
+    this.cache.clear()
+    await Promise.all(watchers.map((watcher) => watcher.stop()))
+  }
+
+  // -------------------------------------------------------------------------
+  // Loading
+  // -------------------------------------------------------------------------
+
+  private async load(folder: string): Promise<CachedStore | null> {
+    const root = path.resolve(folder)
+    this.ensureWatch(root)
+
+    const files = this.resolveStoreFiles(root)
+    if (files.length === 0) {
+      this.cache.delete(root)
+      return null
+    }
+
+    const stats = await Promise.all(files.map((file) => fs.promises.stat(file).catch(() => null)))
+    const signature = files.map((file, i) => `${file}:${stats[i]?.mtimeMs ?? 0}:${stats[i]?.size ?? 0}`).join("|")
+    const cached = this.cache.get(root)
+    if (cached && cached.signature === signature) {
+      return cached
+    }
+
+    const records = new Map<string, Record<string, unknown>>()
+    for (const file of files) {
+      let raw: string
+      try {
+        raw = await fs.promises.readFile(file, "utf-8")
+      } catch (err) {
+        this.options.logger.warn({ err, file }, "Failed to read beads store")
+        continue
+      }
+      for (const line of raw.split("\n")) {
+        if (!line.trim()) continue
+        try {
+          const record = JSON.parse(line) as Record<string, unknown>
+          // Later lines win so that appended updates override earlier snapshots
+          if (typeof record.id === "string" && record.id) records.set(record.id, record)
+        } catch {
+          // Tolerate a partially written trailing line while `bd` is exporting
+        }
+      }
+    }
+
+    const store: CachedStore = { signature, issues: resolveIssues(Array.from(records.values())) }
+    this.cache.set(root, store)
+    this.options.logger.debug({ folder: root, issues: store.issues.length }, "Loaded beads store")
+    return store
+  }
+
+  /** `issues.jsonl` when present, otherwise every issue JSONL file in `.beads/`. */
+  private resolveStoreFiles(folder: string): string[] {
+    const dir = path.join(folder, BEADS_DIR)
+    const primary = path.join(dir, PRIMARY_FILE)
+    if (fs.existsSync(primary)) return [primary]
+
+    try {
+      return fs
+        .readdirSync(dir)
+        .filter((name) => name.endsWith(".jsonl") && !NON_ISSUE_FILES.has(name))
+        .sort()
+        .map((name) => path.join(dir, name))
+    } catch {
+      return []
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Watching
+  // -------------------------------------------------------------------------
+
+  /** Watch `.beads/` once it exists; a project without one is checked again on the next read */
+  private ensureWatch(root: string) {
+    if (this.options.watch === false || this.watches.has(root)) return
+
+    const dir = path.join(root, BEADS_DIR)
+    if (!fs.statSync(dir, { throwIfNoEntry: false })?.isDirectory()) return
+
+    const watcher = new FileWatchService({ workspaceRoot: dir, logger: this.options.logger })
+    watcher.onFileChange((event) => this.handleFileChange(root, event))
+    watcher.start()
+    this.watches.set(root, watcher)
+  }
+
+  /** `event.path` is relative to `.beads/` */
+  private handleFileChange(root: string, event: FileChangeEvent) {
+    if (event.type === "rename") return
+    if (event.path.includes("/") || !event.path.endsWith(".jsonl")) return
+    if (NON_ISSUE_FILES.has(event.path)) return
+
+    this.cache.delete(root)
+
+    // `bd` rewrites the whole export on every change; coalesce bursts into one push
+    const existing = this.pushTimers.get(root)
+    if (existing) clearTimeout(existing)
+    const changeType = event.type
+    this.pushTimers.set(
+      root,
+      setTimeout(() => {
+        this.pushTimers.delete(root)
+        this.options.eventBus.publish({
+          type: "beads.updated",
+          folder: root,
+          file: `${BEADS_DIR}/${event.path}`,
+          changeType,
+          timestamp: Date.now(),
+        })
+      }, PUSH_DEBOUNCE_MS),
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function parseList(value: string | undefined): Set<string> | null {
+  if (!value) return null
+  const entries = value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  return entries.length > 0 ? new Set(entries) : null
+}
+
+function normalizeStatus(value: unknown): string {
+  const status = typeof value === "string" && value.trim() ? value.trim().toLowerCase() : "open"
+  return STATUS_ALIASES[status] ?? status
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined
+}
+
+/**
+ * beads records dependencies as `{ issue_id, depends_on_id, type }` objects;
+ * older exports and hand-written files use plain id strings.
+ */
+function parseDependencies(value: unknown): BeadsDependency[] {
+  if (!Array.isArray(value)) return []
+  const result: BeadsDependency[] = []
+  for (const entry of value) {
+    if (typeof entry === "string" && entry) {
+      result.push({ id: entry, type: "blocks" })
+    } else if (entry && typeof entry === "object") {
+      const record = entry as Record<string, unknown>
+      const id = optionalString(record.depends_on_id) ?? optionalString(record.dependsOnId) ?? optionalString(record.id)
+      if (id) result.push({ id, type: optionalString(record.type) ?? "blocks" })
+    }
+  }
+  return result
+}
+
+function resolveIssues(records: Record<string, unknown>[]): BeadsIssue[] {
+  const issues: BeadsIssue[] = []
+  for (const record of records) {
+    const status = normalizeStatus(record.status)
+    if (status === "tombstone") continue
+    issues.push({
+      id: record.id as string,
+      title: optionalString(record.title) ?? (record.id as string),
+      description: optionalString(record.description),
+      status,
+      priority: typeof record.priority === "number" ? record.priority : undefined,
+      issueType: optionalString(record.issue_type) ?? optionalString(record.issueType),
+      assignee: optionalString(record.assignee),
+      labels: Array.isArray(record.labels) ? record.labels.filter((label): label is string => typeof label === "string") : undefined,
+      dependencies: parseDependencies(record.dependencies),
+      blockedBy: [],
+      ready: false,
+      createdAt: optionalString(record.created_at) ?? optionalString(record.createdAt),
+      updatedAt: optionalString(record.updated_at) ?? optionalString(record.updatedAt),
+      closedAt: optionalString(record.closed_at) ?? optionalString(record.closedAt),
+    })
+  }
+
+  const byId = new Map(issues.map((issue) => [issue.id, issue]))
+  for (const issue of issues) {
+    // Blockers that no longer exist in the store are treated as resolved
+    issue.blockedBy = issue.dependencies
+      .filter((dep) => BLOCKING_TYPES.has(dep.type))
+      .map((dep) => byId.get(dep.id))
+      .filter((blocker): blocker is BeadsIssue => Boolean(blocker) && blocker!.status !== "done")
+      .map((blocker) => blocker.id)
+    issue.ready = issue.status === "open" && issue.blockedBy.length === 0
+  }
+
+  return issues.sort(compareIssues)
+}
+
+function compareIssues(a: BeadsIssue, b: BeadsIssue): number {
+  const priorityA = a.priority ?? Number.MAX_SAFE_INTEGER
+  const priorityB = b.priority ?? Number.MAX_SAFE_INTEGER
+  if (priorityA !== priorityB) return priorityA - priorityB
+  return (a.createdAt ?? "").localeCompare(b.createdAt ?? "") || a.id.localeCompare(b.id)
+}
+
+/**
+ * Build the dashboard graph. Edges point from the blocking (or parent) issue
+ * to the dependent issue; depth and cycles only consider `blocks` edges.
+ */
+export function buildGraph(issues: BeadsIssue[]): BeadsGraphResponse {
+  const ids = new Set(issues.map((issue) => issue.id))
+  const edges: BeadsGraphEdge[] = []
+  const blocking = new Map<string, string[]>()
+
+  for (const issue of issues) {
+    for (const dep of issue.dependencies) {
+      if (!ids.has(dep.id)) continue
+      edges.push({ from: dep.id, to: issue.id, type: dep.type })
+      if (BLOCKING_TYPES.has(dep.type)) {
+        const targets = blocking.get(dep.id) ?? []
+        targets.push(issue.id)
+        blocking.set(dep.id, targets)
+      }
+    }
+  }
+
+  const cycles = findCycles(
+    issues.map((issue) => issue.id),
+    blocking,
+  )
+  const depth = computeDepths(issues, blocking)
+
+  const nodes: BeadsGraphNode[] = issues.map((issue) => ({
+    id: issue.id,
+    title: issue.title,
+    status: issue.status,
+    priority: issue.priority,
+    ready: issue.ready,
+    depth: depth.get(issue.id) ?? 0,
+  }))
+
+  return {
+    nodes,
+    edges,
+    ready: issues.filter((issue) => issue.ready).map((issue) => issue.id),
+    cycles,
+    available: true,
+  }
+}
+
+/** Longest-path layering via Kahn's algorithm; nodes stuck behind a cycle stay at depth 0. */
+function computeDepths(issues: BeadsIssue[], blocking: Map<string, string[]>): Map<string, number> {
+  const inDegree = new Map<string, number>(issues.map((issue) => [issue.id, 0]))
+  for (const targets of blocking.values()) {
+    for (const target of targets) inDegree.set(target, (inDegree.get(target) ?? 0) + 1)
+  }
+
+  const depth = new Map<string, number>()
+  const queue = issues.filter((issue) => inDegree.get(issue.id) === 0).map((issue) => issue.id)
+  for (const id of queue) depth.set(id, 0)
+
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    for (const target of blocking.get(id) ?? []) {
+      depth.set(target, Math.max(depth.get(target) ?? 0, (depth.get(id) ?? 0) + 1))
+      const remaining = (inDegree.get(target) ?? 0) - 1
+      inDegree.set(target, remaining)
+      if (remaining === 0) queue.push(target)
+    }
+  }
+
+  return depth
+}
+
+/** Strongly connected components (Tarjan) with more than one member, or a self-loop. */
+function findCycles(ids: string[], blocking: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>()
+  const lowLink = new Map<string, number>()
+  const onStack = new Set<string>()
+  const stack: string[] = []
+  const cycles: string[][] = []
+  let counter = 0
+
+  const visit = (id: string) => {
+    index.set(id, counter)
+    lowLink.set(id, counter)
+    counter++
+    stack.push(id)
+    onStack.add(id)
+
+    for (const target of blocking.get(id) ?? []) {
+      if (!index.has(target)) {
+        visit(target)
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(target)!))
+      } else if (onStack.has(target)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(target)!))
+      }
+    }
+
+    if (lowLink.get(id) !== index.get(id)) return
+    const component: string[] = []
+    let member: string
+    do {
+      member = stack.pop()!
+      onStack.delete(member)
+      component.push(member)
+    } while (member !== id)
+
+    if (component.length > 1 || (blocking.get(id) ?? []).includes(id)) {
+      cycles.push(component.reverse())
+    }
+  }
+
+  for (const id of ids) {
+    if (!index.has(id)) visit(id)
+  }
+  return cycles
+}
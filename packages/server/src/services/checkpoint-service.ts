@@ -0,0 +1,654 @@
+/**
+ * Checkpoint Service
+ *
+ * Records, per assistant message, the files an agent changed so the working
+ * tree can be rolled back to the state before any message:
+ * 1. Write tool calls (edit, write, patch, multiedit) are observed on the
+ *    instance event stream, and writes reported through
+ *    `/api/workspaces/:id/files/register` with a message id are captured as well.
+ * 2. When a tool starts, the file's content is snapshotted into the
+ *    workspace's content-addressed file version store; when it finishes, the
+ *    resulting hash is recorded. The first snapshot per message and file is
+ *    the checkpoint's "before" state.
+ * 3. Restoring a checkpoint rewrites every file touched by that message or a
+ *    later one to its "before" state. All files are locked and written
+ *    together; if one write fails, the others are put back.
+ *
+ * Checkpoints are stored per session in `<workspace>/.era/checkpoints/`.
+ */
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { Mutex } from "async-mutex"
+import type { EventBus } from "../events/bus"
+import type { Logger } from "../logger"
+import type { WorkspaceManager } from "../workspaces/manager"
+import { getConflictDetector } from "../filesystem/conflict-detector"
+import { getFileVersionStore, retainFileVersionObjects } from "../filesystem/file-version-store"
+import { getMergeService } from "../filesystem/merge-service"
+import { contentHashTracker, fileLockManager } from "../server/safe-file-writer"
+import type { AcquiredLock } from "../server/file-lock-manager"
+import type {
+  CheckpointFileAction,
+  CheckpointPreviewResponse,
+  CheckpointRestoreRequest,
+  CheckpointRestoreResponse,
+  SessionCheckpoint,
+  SessionCheckpointFile,
+  SessionCheckpointsResponse,
+  WorkspaceEventPayload,
+} from "../api-types"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface CheckpointServiceOptions {
+  eventBus: EventBus
+  logger: Logger
+  workspaceManager: WorkspaceManager
+}
+
+/** Where a captured write belongs */
+export interface CheckpointTarget {
+  folder: string
+  instanceId: string
+  sessionId: string
+  messageId: string
+}
+
+interface CheckpointFileRecord {
+  sessionId: string
+  checkpoints: SessionCheckpoint[]
+}
+
+/** What a file looked like before a tool call, judged from its input and the file on disk */
+export type PriorContent =
+  | { kind: "current" }
+  | { kind: "reversed"; content: string }
+  | { kind: "unknown" }
+
+export interface RestoreStep {
+  path: string
+  /** State to restore; absent when it was never captured */
+  targetHash?: string | null
+  /** State the session's last write left; absent while a tool is running */
+  expectedHash?: string | null
+}
+
+interface PlannedFile {
+  path: string
+  absolutePath: string
+  action: CheckpointFileAction
+  currentHash: string | null
+  currentContent: string | null
+  targetHash: string | null
+  targetContent: string | null
+  conflict: boolean
+}
+
+export class CheckpointError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly preview?: CheckpointPreviewResponse,
+  ) {
+    super(message)
+    this.name = "CheckpointError"
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const CHECKPOINTS_DIR = path.join(".era", "checkpoints")
+const WRITE_TOOLS = new Set(["edit", "write", "patch", "multiedit"])
+const RESTORE_INSTANCE_ID = "checkpoint-restore"
+const LOCK_TIMEOUT_MS = 5000
+const PATCH_FILE_PATTERN = /^\*\*\* (?:Add|Update|Delete) File: (.+)$/gm
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class CheckpointService {
+  // Serializes checkpoint updates and restores so captures never interleave
+  private readonly mutex = new Mutex()
+  private readonly cache = new Map<string, SessionCheckpoint[]>()
+  // Files of write tool calls that have started, by part id
+  private readonly runningParts = new Map<string, string[]>()
+
+  constructor(private readonly options: CheckpointServiceOptions) {}
+
+  /**
+   * Capture write tool calls from the instance event stream, and keep
+   * checkpoint content out of file history pruning.
+   */
+  attach(): () => void {
+    const handler = (event: WorkspaceEventPayload) => {
+      if (event.type === "instance.event" && event.event.type === "message.part.updated") {
+        void this.handlePartUpdated(event.instanceId, event.event.properties ?? {}).catch((err) =>
+          this.options.logger.warn({ err, instanceId: event.instanceId }, "Failed to capture checkpoint"),
+        )
+      }
+    }
+    const detachBus = this.options.eventBus.onEvent(handler)
+    const releaseObjects = retainFileVersionObjects((folder) => this.referencedHashes(folder))
+    return () => {
+      detachBus()
+      releaseObjects()
+    }
+  }
+
+  /**
+   * Snapshot a file before a tool changes it. Only the first snapshot of a
+   * file within a message counts; later calls just update the tool name.
+   */
+  async captureBefore(
+    target: CheckpointTarget,
+    absolutePath: string,
+    tool: string,
+    resolvePrior: (content: string | null) => PriorContent = () => ({ kind: "current" }),
+  ) {
+    await this.mutex.runExclusive(async () => {
+      const relativePath = toRelative(target.folder, absolutePath)
+      if (!relativePath) return
+
+      const checkpoints = await this.load(target.folder, target.sessionId)
+      const checkpoint = upsertCheckpoint(checkpoints, target)
+      const existing = checkpoint.files.find((file) => file.path === relativePath)
+      if (existing) {
+        existing.tool = tool
+        return
+      }
+
+      const content = await readText(absolutePath)
+      const entry: SessionCheckpointFile = { path: relativePath, tool }
+      const beforeHash = await this.snapshotBefore(target.folder, absolutePath, content, resolvePrior(content))
+      if (beforeHash !== undefined) entry.beforeHash = beforeHash
+      checkpoint.files.push(entry)
+
+      checkpoint.updatedAt = Date.now()
+      await this.save(target.folder, target.sessionId, checkpoints)
+      this.publish(target.instanceId, target.sessionId, checkpoint.id, "captured")
+    })
+  }
+
+  /**
+   * Record the state a tool left a file in.
+   */
+  async captureAfter(target: CheckpointTarget, absolutePath: string, tool: string, content?: string) {
+    await this.mutex.runExclusive(async () => {
+      const relativePath = toRelative(target.folder, absolutePath)
+      if (!relativePath) return
+
+      const checkpoints = await this.load(target.folder, target.sessionId)
+      const checkpoint = upsertCheckpoint(checkpoints, target)
+      let entry = checkpoint.files.find((file) => file.path === relativePath)
+      if (!entry) {
+        entry = { path: relativePath, tool }
+        checkpoint.files.push(entry)
+      }
+      entry.tool = tool
+
+      const after = content ?? (await readText(absolutePath))
+      const store = getFileVersionStore(target.folder)
+      entry.afterHash = after === null ? null : ((await store.storeContent(after)) ?? store.computeHash(after))
+
+      checkpoint.updatedAt = Date.now()
+      await this.save(target.folder, target.sessionId, checkpoints)
+      this.publish(target.instanceId, target.sessionId, checkpoint.id, "captured")
+    })
+  }
+
+  /**
+   * Capture a write reported through the `register` file route. The write may
+   * already be on disk, so the "before" state is the content the conflict
+   * detector tracked for the file when it differs from the new content.
+   */
+  async captureRegisteredWrite(target: CheckpointTarget, absolutePath: string, content: string) {
+    const store = getFileVersionStore(target.folder)
+    const trackedHash = getConflictDetector(target.folder)?.getTracker().getTrackedFile(absolutePath)?.currentHash
+    const tracked = trackedHash && trackedHash !== store.computeHash(content) ? await store.readContent(trackedHash) : null
+    await this.captureBefore(target, absolutePath, "register", (current) =>
+      tracked !== null ? { kind: "reversed", content: tracked } : priorContent("write", { content }, current),
+    )
+    await this.captureAfter(target, absolutePath, "register", content)
+  }
+
+  async list(instanceId: string, sessionId: string): Promise<SessionCheckpointsResponse> {
+    const folder = this.requireFolder(instanceId)
+    const checkpoints = await this.load(folder, sessionId)
+    return { checkpoints: checkpoints.map((checkpoint) => structuredClone(checkpoint)) }
+  }
+
+  /**
+   * What restoring a checkpoint would change, with a diff per file and
+   * conflict flags for files edited outside the session since.
+   */
+  async preview(instanceId: string, sessionId: string, checkpointId: string): Promise<CheckpointPreviewResponse> {
+    const folder = this.requireFolder(instanceId)
+    const planned = await this.plan(folder, sessionId, checkpointId)
+    return toPreview(checkpointId, planned)
+  }
+
+  /**
+   * Roll every file touched by the checkpoint's message and later messages
+   * back to its state before the checkpoint. The rolled-back checkpoints are
+   * removed; the replaced content stays available in file history.
+   */
+  async restore(
+    instanceId: string,
+    sessionId: string,
+    checkpointId: string,
+    request: CheckpointRestoreRequest = {},
+  ): Promise<CheckpointRestoreResponse> {
+    const folder = this.requireFolder(instanceId)
+    return this.mutex.runExclusive(async () => {
+      const planned = await this.plan(folder, sessionId, checkpointId)
+      const preview = toPreview(checkpointId, planned)
+      if (preview.conflicts > 0 && !request.force) {
+        throw new CheckpointError(
+          `${preview.conflicts} file(s) were changed outside this session since the checkpoint`,
+          409,
+          preview,
+        )
+      }
+
+      const changes = planned.filter((file) => file.action !== "unchanged" && file.action !== "unavailable")
+      await this.applyAtomically(folder, sessionId, changes)
+
+      const checkpoints = await this.load(folder, sessionId)
+      const index = checkpoints.findIndex((checkpoint) => checkpoint.id === checkpointId)
+      const removed = index === -1 ? [] : checkpoints.splice(index)
+      await this.save(folder, sessionId, checkpoints)
+
+      this.options.logger.info(
+        { instanceId, sessionId, checkpointId, files: changes.length, removed: removed.length },
+        "Restored session checkpoint",
+      )
+      this.publish(instanceId, sessionId, checkpointId, "restored")
+      return {
+        checkpointId,
+        restored: changes.map((file) => file.path),
+        removedCheckpoints: removed.map((checkpoint) => checkpoint.id),
+      }
+    })
+  }
+
+  // -------------------------------------------------------------------------
+  // Event capture
+  // -------------------------------------------------------------------------
+
+  private async handlePartUpdated(instanceId: string, properties: Record<string, unknown>) {
+    const part = properties.part as
+      | {
+          id?: string
+          type?: string
+          tool?: string
+          sessionID?: string
+          messageID?: string
+          state?: { status?: string; input?: Record<string, unknown> }
+        }
+      | undefined
+    if (!part?.id || part.type !== "tool" || !part.tool || !WRITE_TOOLS.has(part.tool)) return
+    if (!part.sessionID || !part.messageID) return
+
+    const folder = this.options.workspaceManager.get(instanceId)?.path
+    if (!folder) return
+
+    const target: CheckpointTarget = { folder, instanceId, sessionId: part.sessionID, messageId: part.messageID }
+    const input = part.state?.input ?? {}
+    const status = part.state?.status
+    const tool = part.tool
+    const files = toolFilePaths(tool, input).map((file) => path.resolve(folder, file))
+
+    if (status === "pending" || status === "running") {
+      if (this.runningParts.has(part.id) || files.length === 0) return
+      this.runningParts.set(part.id, files)
+      for (const file of files) {
+        await this.captureBefore(target, file, tool, (content) => priorContent(tool, input, content))
+      }
+      return
+    }
+
+    if (status === "completed" || status === "error") {
+      const started = this.runningParts.get(part.id)
+      this.runningParts.delete(part.id)
+      for (const file of files.length > 0 ? files : (started ?? [])) {
+        // A start we never saw still gets a snapshot, reconstructed from the tool input when possible
+        if (!started) await this.captureBefore(target, file, tool, (content) => priorContent(tool, input, content))
+        await this.captureAfter(target, file, tool)
+      }
+    }
+  }
+
+  /**
+   * Store the "before" content and return its hash: null for a missing file,
+   * undefined when the prior state can't be known.
+   */
+  private async snapshotBefore(
+    folder: string,
+    absolutePath: string,
+    content: string | null,
+    prior: PriorContent,
+  ): Promise<string | null | undefined> {
+    const store = getFileVersionStore(folder)
+    if (prior.kind === "reversed") {
+      return (await store.storeContent(prior.content)) ?? undefined
+    }
+    if (prior.kind === "current") {
+      return content === null ? null : ((await store.storeContent(content)) ?? undefined)
+    }
+
+    // The tool already rewrote the file; fall back to the newest different version in history
+    const currentHash = content === null ? null : store.computeHash(content)
+    const history = await store.getHistory(absolutePath)
+    const previous = [...history].reverse().find((version) => version.hash !== currentHash && version.hasContent)
+    return previous?.hash
+  }
+
+  // -------------------------------------------------------------------------
+  // Restore
+  // -------------------------------------------------------------------------
+
+  private async plan(folder: string, sessionId: string, checkpointId: string): Promise<PlannedFile[]> {
+    const checkpoints = await this.load(folder, sessionId)
+    const steps = planCheckpointRestore(checkpoints, checkpointId)
+    if (!steps) {
+      throw new CheckpointError(`Checkpoint not found: ${checkpointId}`, 404)
+    }
+
+    const store = getFileVersionStore(folder)
+    const planned: PlannedFile[] = []
+    for (const step of steps) {
+      const absolutePath = path.resolve(folder, step.path)
+      const currentContent = await readText(absolutePath)
+      const currentHash = currentContent === null ? null : store.computeHash(currentContent)
+      const targetContent = typeof step.targetHash === "string" ? await store.readContent(step.targetHash) : null
+      const conflict = step.expectedHash !== undefined && step.expectedHash !== currentHash
+
+      let action: CheckpointFileAction
+      if (step.targetHash === undefined || (step.targetHash !== null && targetContent === null)) {
+        action = "unavailable"
+      } else if (step.targetHash === currentHash) {
+        action = "unchanged"
+      } else if (step.targetHash === null) {
+        action = "delete"
+      } else {
+        action = currentHash === null ? "create" : "restore"
+      }
+
+      planned.push({
+        path: step.path,
+        absolutePath,
+        action,
+        currentHash,
+        currentContent,
+        targetHash: step.targetHash ?? null,
+        targetContent,
+        conflict: conflict && action !== "unchanged",
+      })
+    }
+    return planned
+  }
+
+  /**
+   * Write all planned files under their locks; on failure put back the ones
+   * already written.
+   */
+  private async applyAtomically(folder: string, sessionId: string, files: PlannedFile[]) {
+    const locks: AcquiredLock[] = []
+    const applied: PlannedFile[] = []
+    const store = getFileVersionStore(folder)
+    try {
+      for (const file of [...files].sort((a, b) => a.absolutePath.localeCompare(b.absolutePath))) {
+        locks.push(await fileLockManager.acquireLock(file.absolutePath, RESTORE_INSTANCE_ID, LOCK_TIMEOUT_MS))
+      }
+
+      for (const file of files) {
+        // Keep what is being replaced in the file's history
+        if (file.currentContent !== null) {
+          await store.record(file.absolutePath, file.currentContent, sessionId, RESTORE_INSTANCE_ID)
+        }
+        await writeOrRemove(file.absolutePath, file.targetContent)
+        applied.push(file)
+      }
+    } catch (err) {
+      for (const file of applied.reverse()) {
+        await writeOrRemove(file.absolutePath, file.currentContent).catch((rollbackErr) =>
+          this.options.logger.error({ err: rollbackErr, path: file.path }, "Failed to roll back checkpoint restore"),
+        )
+      }
+      const message = err instanceof Error ? err.message : String(err)
+      throw new CheckpointError(`Restore failed, no files were changed: ${message}`, message.startsWith("Lock timeout") ? 423 : 500)
+    } finally {
+      locks.forEach((lock) => lock.release())
+    }
+
+    // Bring conflict tracking in line so the next agent write isn't flagged
+    const detector = getConflictDetector(folder)
+    for (const file of files) {
+      contentHashTracker.syncFromDisk(file.absolutePath)
+      if (detector && file.targetContent !== null) {
+        const tracked = detector.getTracker().getTrackedFile(file.absolutePath)?.currentHash
+        await detector.registerWrite(file.absolutePath, sessionId, RESTORE_INSTANCE_ID, file.targetContent, tracked)
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Storage
+  // -------------------------------------------------------------------------
+
+  private requireFolder(instanceId: string): string {
+    const folder = this.options.workspaceManager.get(instanceId)?.path
+    if (!folder) {
+      throw new CheckpointError("Workspace not found", 404)
+    }
+    return folder
+  }
+
+  private async load(folder: string, sessionId: string): Promise<SessionCheckpoint[]> {
+    const key = cacheKey(folder, sessionId)
+    let checkpoints = this.cache.get(key)
+    if (!checkpoints) {
+      try {
+        const raw = await fs.promises.readFile(checkpointFile(folder, sessionId), "utf-8")
+        checkpoints = (JSON.parse(raw) as CheckpointFileRecord).checkpoints ?? []
+      } catch {
+        checkpoints = []
+      }
+      this.cache.set(key, checkpoints)
+    }
+    return checkpoints
+  }
+
+  private async save(folder: string, sessionId: string, checkpoints: SessionCheckpoint[]) {
+    const file = checkpointFile(folder, sessionId)
+    await fs.promises.mkdir(path.dirname(file), { recursive: true })
+    const record: CheckpointFileRecord = { sessionId, checkpoints }
+    const tmp = `${file}.${process.pid}.tmp`
+    await fs.promises.writeFile(tmp, JSON.stringify(record, null, 2), "utf-8")
+    await fs.promises.rename(tmp, file)
+  }
+
+  /** Content hashes any checkpoint in the workspace still points to */
+  private async referencedHashes(folder: string): Promise<string[]> {
+    const dir = path.join(folder, CHECKPOINTS_DIR)
+    const names = await fs.promises.readdir(dir).catch(() => [] as string[])
+    const hashes: string[] = []
+    for (const name of names.filter((entry) => entry.endsWith(".json"))) {
+      try {
+        const record = JSON.parse(await fs.promises.readFile(path.join(dir, name), "utf-8")) as CheckpointFileRecord
+        for (const checkpoint of record.checkpoints ?? []) {
+          for (const file of checkpoint.files) {
+            if (file.beforeHash) hashes.push(file.beforeHash)
+            if (file.afterHash) hashes.push(file.afterHash)
+          }
+        }
+      } catch {
+        // Unreadable checkpoint files protect nothing
+      }
+    }
+    return hashes
+  }
+
+  private publish(instanceId: string, sessionId: string, checkpointId: string, reason: "captured" | "restored") {
+    this.options.eventBus.publish({
+      type: "checkpoint.updated",
+      instanceId,
+      sessionId,
+      checkpointId,
+      reason,
+      timestamp: Date.now(),
+    })
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Files a write tool call touches, as given in its input (absolute or
+ * relative to the workspace).
+ */
+export function toolFilePaths(tool: string, input: Record<string, unknown>): string[] {
+  if (tool === "patch") {
+    const patchText = typeof input.patchText === "string" ? input.patchText : ""
+    return Array.from(patchText.matchAll(PATCH_FILE_PATTERN), (match) => match[1].trim())
+  }
+  const filePath = input.filePath ?? input.path
+  return typeof filePath === "string" && filePath ? [filePath] : []
+}
+
+/**
+ * Tool events arrive asynchronously, so the tool may already have run when
+ * the "before" snapshot is taken. Edits are undone from their input when
+ * their result is already on disk; a rewritten file can't be recovered here.
+ */
+export function priorContent(tool: string, input: Record<string, unknown>, content: string | null): PriorContent {
+  if (content === null) {
+    return { kind: "current" }
+  }
+
+  if (tool === "write" && typeof input.content === "string") {
+    return input.content === content ? { kind: "unknown" } : { kind: "current" }
+  }
+
+  const edits =
+    tool === "edit" ? [input] : tool === "multiedit" && Array.isArray(input.edits) ? (input.edits as Record<string, unknown>[]) : []
+  if (edits.length === 0) {
+    return { kind: "current" }
+  }
+
+  let reversed = content
+  for (const edit of [...edits].reverse()) {
+    const oldString = edit.oldString
+    const newString = edit.newString
+    if (typeof oldString !== "string" || typeof newString !== "string" || !oldString || !newString) {
+      return { kind: "current" }
+    }
+    if (reversed.includes(oldString) || !reversed.includes(newString)) {
+      return { kind: "current" }
+    }
+    reversed = edit.replaceAll === true ? reversed.split(newString).join(oldString) : reversed.replace(newString, () => oldString)
+  }
+  return { kind: "reversed", content: reversed }
+}
+
+/**
+ * Per file touched by the checkpoint or a later one: the state before the
+ * first of those edits, and the state the session's last edit left.
+ * Returns null when the checkpoint doesn't exist.
+ */
+export function planCheckpointRestore(checkpoints: SessionCheckpoint[], checkpointId: string): RestoreStep[] | null {
+  const index = checkpoints.findIndex((checkpoint) => checkpoint.id === checkpointId)
+  if (index === -1) {
+    return null
+  }
+
+  const steps = new Map<string, RestoreStep>()
+  for (const checkpoint of checkpoints.slice(index)) {
+    for (const file of checkpoint.files) {
+      const step = steps.get(file.path)
+      if (!step) {
+        steps.set(file.path, { path: file.path, targetHash: file.beforeHash, expectedHash: file.afterHash })
+      } else {
+        step.expectedHash = file.afterHash
+      }
+    }
+  }
+  return Array.from(steps.values()).sort((a, b) => a.path.localeCompare(b.path))
+}
+
+function toPreview(checkpointId: string, planned: PlannedFile[]): CheckpointPreviewResponse {
+  const merge = getMergeService()
+  const files = planned.map((file) => ({
+    path: file.path,
+    action: file.action,
+    currentHash: file.currentHash,
+    targetHash: file.targetHash,
+    diff:
+      file.action === "unchanged" || file.action === "unavailable"
+        ? undefined
+        : merge.generateDiff(file.currentContent ?? "", file.targetContent ?? ""),
+    conflict: file.conflict,
+  }))
+  return { checkpointId, files, conflicts: files.filter((file) => file.conflict).length }
+}
+
+function upsertCheckpoint(checkpoints: SessionCheckpoint[], target: CheckpointTarget): SessionCheckpoint {
+  const id = `cp_${target.messageId}`
+  let checkpoint = checkpoints.find((entry) => entry.id === id)
+  if (!checkpoint) {
+    const now = Date.now()
+    checkpoint = {
+      id,
+      instanceId: target.instanceId,
+      sessionId: target.sessionId,
+      messageId: target.messageId,
+      createdAt: now,
+      updatedAt: now,
+      files: [],
+    }
+    checkpoints.push(checkpoint)
+  }
+  return checkpoint
+}
+
+function toRelative(folder: string, absolutePath: string): string | null {
+  const relativePath = path.relative(path.resolve(folder), path.resolve(absolutePath))
+  if (!relativePath || relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+    return null
+  }
+  return relativePath.split(path.sep).join("/")
+}
+
+async function readText(absolutePath: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(absolutePath, "utf-8")
+  } catch {
+    return null
+  }
+}
+
+async function writeOrRemove(absolutePath: string, content: string | null) {
+  if (content === null) {
+    await fs.promises.rm(absolutePath, { force: true })
+    return
+  }
+  await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true })
+  const tmp = `${absolutePath}.${process.pid}.checkpoint.tmp`
+  await fs.promises.writeFile(tmp, content, "utf-8")
+  await fs.promises.rename(tmp, absolutePath)
+}
+
+function checkpointFile(folder: string, sessionId: string): string {
+  return path.join(folder, CHECKPOINTS_DIR, `${sessionId.replace(/[^\w.-]/g, "_")}.json`)
+}
+
+function cacheKey(folder: string, sessionId: string): string {
+  return `${path.resolve(folder)}\u0000${sessionId}`
+}
@@ -0,0 +1,355 @@
+/**
+ * Formula Loader
+ *
+ * Workflow formulas are JSON files describing a DAG of steps plus the
+ * variables a run needs. They are read from:
+ * - `<project>/.era/formulas/*.json` (source "project")
+ * - `~/.era/era-code/formulas/*.json` (source "global")
+ *
+ * A project formula shadows a global formula with the same name. Files that
+ * fail schema or graph validation are reported as load errors instead of
+ * being dropped silently.
+ */
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { z } from "zod"
+import type { Logger } from "../logger"
+import type {
+  FormulaLoadError,
+  FormulaSource,
+  FormulaStep,
+  FormulaVariable,
+  FormulasResponse,
+  WorkflowFormula,
+} from "../api-types"
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const IDENTIFIER = /^[A-Za-z0-9_.-]+$/
+
+const VariableSchema = z.object({
+  name: z.string().regex(IDENTIFIER, "variable names may only contain letters, digits, '_', '.' and '-'"),
+  type: z.enum(["string", "number", "boolean"]).default("string"),
+  description: z.string().optional(),
+  default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  required: z.boolean().optional(),
+  enum: z.array(z.union([z.string(), z.number()])).optional(),
+  pattern: z.string().optional(),
+})
+
+const StepSchema = z
+  .object({
+    id: z.string().regex(IDENTIFIER, "step ids may only contain letters, digits, '_', '.' and '-'"),
+    name: z.string().optional(),
+    action: z.string().optional(),
+    run: z.string().min(1).optional(),
+    prompt: z.string().min(1).optional(),
+    agent: z.string().optional(),
+    model: z.string().optional(),
+    dependsOn: z.array(z.string()).optional(),
+    gate: z.literal("human").optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    continueOnError: z.boolean().optional(),
+  })
+  .refine((step) => !(step.run && step.prompt), { message: "a step cannot have both `run` and `prompt`" })
+  .refine((step) => Boolean(step.run || step.prompt || step.gate), {
+    message: "a step needs `run`, `prompt` or `gate`",
+  })
+
+const FormulaFileSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().default(""),
+  tags: z.array(z.string()).optional(),
+  parallelism: z.number().int().min(1).max(32).default(1),
+  variables: z.array(VariableSchema).default([]),
+  steps: z.array(StepSchema).min(1, "a formula needs at least one step"),
+})
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface FormulaLoaderOptions {
+  logger: Logger
+  /** Directory holding global formulas */
+  globalDir?: string
+}
+
+export type VariableValue = string | number | boolean
+
+export type VariableValidationResult =
+  | { ok: true; values: Record<string, VariableValue> }
+  | { ok: false; errors: string[] }
+
+export class FormulaValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "FormulaValidationError"
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const PROJECT_FORMULA_DIR = path.join(".era", "formulas")
+const DEFAULT_GLOBAL_DIR = path.join(os.homedir(), ".era", "era-code", "formulas")
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g
+
+// ---------------------------------------------------------------------------
+// Loader
+// ---------------------------------------------------------------------------
+
+export class FormulaLoader {
+  private readonly globalDir: string
+
+  constructor(private readonly options: FormulaLoaderOptions) {
+    this.globalDir = options.globalDir ?? DEFAULT_GLOBAL_DIR
+  }
+
+  async list(folder?: string): Promise<FormulasResponse> {
+    const errors: FormulaLoadError[] = []
+    const byName = new Map<string, WorkflowFormula>()
+
+    const sources: Array<[string, FormulaSource]> = [[this.globalDir, "global"]]
+    if (folder) sources.push([path.join(folder, PROJECT_FORMULA_DIR), "project"])
+
+    // Later sources shadow earlier ones, so project formulas win over global ones
+    for (const [dir, source] of sources) {
+      for (const formula of await this.readDirectory(dir, source, errors)) {
+        byName.set(formula.name, formula)
+      }
+    }
+
+    const formulas = Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name))
+    return { formulas, errors }
+  }
+
+  async get(folder: string | undefined, name: string): Promise<WorkflowFormula | undefined> {
+    const { formulas } = await this.list(folder)
+    return formulas.find((formula) => formula.name === name)
+  }
+
+  private async readDirectory(dir: string, source: FormulaSource, errors: FormulaLoadError[]): Promise<WorkflowFormula[]> {
+    let entries: string[]
+    try {
+      entries = await fs.promises.readdir(dir)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.options.logger.warn({ err, dir }, "Failed to list formula directory")
+      }
+      return []
+    }
+
+    const formulas: WorkflowFormula[] = []
+    for (const entry of entries.filter((name) => name.endsWith(".json")).sort()) {
+      const filePath = path.join(dir, entry)
+      try {
+        const raw = JSON.parse(await fs.promises.readFile(filePath, "utf-8"))
+        formulas.push(parseFormula(raw, source, filePath))
+      } catch (err) {
+        const message = err instanceof z.ZodError ? formatZodError(err) : err instanceof Error ? err.message : String(err)
+        errors.push({ path: filePath, error: message })
+        this.options.logger.warn({ filePath, error: message }, "Skipping invalid formula")
+      }
+    }
+    return formulas
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Parsing & validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse and validate a formula document. Throws `ZodError` for schema
+ * problems and `FormulaValidationError` for graph problems.
+ */
+export function parseFormula(raw: unknown, source: FormulaSource, filePath?: string): WorkflowFormula {
+  const parsed = FormulaFileSchema.parse(raw)
+  const fallbackName = filePath ? path.basename(filePath, ".json") : "formula"
+
+  const steps: FormulaStep[] = parsed.steps.map((step) => ({
+    id: step.id,
+    name: step.name ?? step.id,
+    action: step.action ?? (step.gate && !step.run && !step.prompt ? "gate" : step.prompt ? "agent" : "run"),
+    run: step.run,
+    prompt: step.prompt,
+    agent: step.agent,
+    model: step.model,
+    dependsOn: step.dependsOn ?? [],
+    gate: step.gate,
+    timeoutMs: step.timeoutMs,
+    continueOnError: step.continueOnError,
+  }))
+
+  const variables: FormulaVariable[] = parsed.variables.map((variable) => ({
+    ...variable,
+    required: variable.required ?? variable.default === undefined,
+  }))
+
+  const variableNames = new Set<string>()
+  for (const variable of variables) {
+    if (variableNames.has(variable.name)) {
+      throw new FormulaValidationError(`duplicate variable "${variable.name}"`)
+    }
+    variableNames.add(variable.name)
+  }
+
+  for (const step of steps) {
+    for (const template of [step.run, step.prompt]) {
+      for (const name of listPlaceholders(template)) {
+        if (!variableNames.has(name)) {
+          throw new FormulaValidationError(`step "${step.id}" uses undeclared variable "${name}"`)
+        }
+      }
+    }
+  }
+
+  computeParallelGroups(steps)
+
+  return {
+    name: parsed.name ?? fallbackName,
+    description: parsed.description,
+    source,
+    path: filePath,
+    variables,
+    steps,
+    tags: parsed.tags,
+    parallelism: parsed.parallelism,
+  }
+}
+
+/**
+ * Resolve `dependsOn` into DAG waves: group 0 has no dependencies, group N
+ * depends only on earlier groups. Throws on unknown ids, duplicates or cycles.
+ */
+export function computeParallelGroups(steps: Array<Pick<FormulaStep, "id" | "dependsOn">>): Map<string, number> {
+  const ids = new Set<string>()
+  for (const step of steps) {
+    if (ids.has(step.id)) throw new FormulaValidationError(`duplicate step id "${step.id}"`)
+    ids.add(step.id)
+  }
+  for (const step of steps) {
+    for (const dependency of step.dependsOn ?? []) {
+      if (!ids.has(dependency)) {
+        throw new FormulaValidationError(`step "${step.id}" depends on unknown step "${dependency}"`)
+      }
+    }
+  }
+
+  const groups = new Map<string, number>()
+  let remaining = steps.slice()
+  let group = 0
+  while (remaining.length > 0) {
+    const wave = remaining.filter((step) => (step.dependsOn ?? []).every((dependency) => groups.has(dependency)))
+    if (wave.length === 0) {
+      throw new FormulaValidationError(`dependency cycle between steps: ${remaining.map((step) => step.id).join(", ")}`)
+    }
+    for (const step of wave) groups.set(step.id, group)
+    remaining = remaining.filter((step) => !groups.has(step.id))
+    group++
+  }
+  return groups
+}
+
+/**
+ * Check user-supplied values against the formula's declarations, applying
+ * defaults and coercing strings from form inputs to the declared type.
+ */
+export function validateVariables(formula: WorkflowFormula, input: Record<string, unknown> = {}): VariableValidationResult {
+  const errors: string[] = []
+  const values: Record<string, VariableValue> = {}
+  const declared = new Set(formula.variables.map((variable) => variable.name))
+
+  for (const name of Object.keys(input)) {
+    if (!declared.has(name)) errors.push(`unknown variable "${name}"`)
+  }
+
+  for (const variable of formula.variables) {
+    const rawValue = input[variable.name]
+    const provided = rawValue !== undefined && rawValue !== null && rawValue !== ""
+
+    if (!provided) {
+      if (variable.default !== undefined) {
+        values[variable.name] = variable.default
+      } else if (variable.required !== false) {
+        errors.push(`"${variable.name}" is required`)
+      }
+      continue
+    }
+
+    const coerced = coerceValue(variable, rawValue)
+    if (coerced === undefined) {
+      errors.push(`"${variable.name}" must be a ${variable.type}`)
+      continue
+    }
+    if (variable.enum && !variable.enum.some((allowed) => allowed === coerced)) {
+      errors.push(`"${variable.name}" must be one of: ${variable.enum.join(", ")}`)
+      continue
+    }
+    if (variable.pattern && typeof coerced === "string") {
+      let matches = false
+      try {
+        matches = new RegExp(variable.pattern).test(coerced)
+      } catch {
+        errors.push(`"${variable.name}" has an invalid pattern in the formula`)
+        continue
+      }
+      if (!matches) {
+        errors.push(`"${variable.name}" does not match ${variable.pattern}`)
+        continue
+      }
+    }
+    values[variable.name] = coerced
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, values }
+}
+
+/**
+ * Replace `{{name}}` placeholders. Shell templates get POSIX single-quoted
+ * values so variables cannot inject extra commands.
+ */
+export function interpolate(template: string, values: Record<string, VariableValue>, mode: "shell" | "text"): string {
+  return template.replace(PLACEHOLDER, (_match, name: string) => {
+    const value = values[name]
+    const text = value === undefined ? "" : String(value)
+    return mode === "shell" ? shellQuote(text) : text
+  })
+}
+
+function listPlaceholders(template: string | undefined): string[] {
+  if (!template) return []
+  return Array.from(template.matchAll(PLACEHOLDER), (match) => match[1])
+}
+
+function coerceValue(variable: FormulaVariable, value: unknown): VariableValue | undefined {
+  switch (variable.type) {
+    case "number": {
+      const num = typeof value === "number" ? value : typeof value === "string" ? Number(value.trim()) : Number.NaN
+      return Number.isFinite(num) ? num : undefined
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value
+      if (value === "true") return true
+      if (value === "false") return false
+      return undefined
+    default:
+      return typeof value === "string" || typeof value === "number" ? String(value) : undefined
+  }
+}
+
+function shellQuote(value: string): string {
+  if (process.platform === "win32") {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+function formatZodError(error: z.ZodError): string {
+  return error.issues.map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message)).join("; ")
+}
@@ -0,0 +1,223 @@
+/**
+ * Gate Service
+ *
+ * Human approval gates. A gate blocks some piece of work until a person
+ * approves or rejects it:
+ * - plan steps marked `gate: "human"` (created by the PlanRunner)
+ * - governance rules and agents that ask for sign-off via `POST /api/era/gates`
+ *
+ * Waiting gates time out after the `gateTimeoutMinutes` preference unless the
+ * request overrides it. Every creation and decision is published on the
+ * EventBus as `gate.created` / `gate.resolved` so the UI and desktop
+ * notifications stay in sync. Gates live in memory; plan gates are recreated
+ * when their plan is reloaded from its checkpoint.
+ */
+import * as crypto from "node:crypto"
+import type { EventBus } from "../events/bus"
+import type { Logger } from "../logger"
+import type { CreateGateRequest, GateEntry, GateResolution, GateStatus, GatesQuery } from "../api-types"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface GateServiceOptions {
+  eventBus: EventBus
+  logger: Logger
+  /** Default timeout for new gates in minutes; 0 = never time out */
+  defaultTimeoutMinutes?: () => number
+}
+
+type GateListener = (gate: GateEntry) => void
+
+export class GateError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message)
+    this.name = "GateError"
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_TIMEOUT_MINUTES = 60
+/** Decided gates kept for the status panel's history */
+const MAX_RESOLVED_GATES = 200
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class GateService {
+  private readonly gates = new Map<string, GateEntry>()
+  private readonly timers = new Map<string, NodeJS.Timeout>()
+  private readonly listeners = new Set<GateListener>()
+  private readonly waiters = new Map<string, Set<(gate: GateEntry) => void>>()
+
+  constructor(private readonly options: GateServiceOptions) {}
+
+  create(request: CreateGateRequest): GateEntry {
+    const now = Date.now()
+    const timeoutMinutes = request.timeoutMinutes ?? this.options.defaultTimeoutMinutes?.() ?? DEFAULT_TIMEOUT_MINUTES
+    const timeoutMs = Math.min(Math.max(0, timeoutMinutes) * 60_000, MAX_TIMER_MS)
+
+    const gate: GateEntry = {
+      id: `gate_${now.toString(36)}_${crypto.randomBytes(3).toString("hex")}`,
+      type: request.type ?? "human",
+      status: "waiting",
+      source: request.source ?? "manual",
+      title: request.title,
+      description: request.description,
+      folder: request.folder,
+      planId: request.planId,
+      stepId: request.stepId,
+      sessionId: request.sessionId,
+      instanceId: request.instanceId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: timeoutMs > 0 ? new Date(now + timeoutMs).toISOString() : undefined,
+      waiters: request.waiters ?? [],
+      metadata: request.metadata ?? {},
+    }
+
+    this.gates.set(gate.id, gate)
+    if (timeoutMs > 0) {
+      const timer = setTimeout(() => this.finish(gate.id, "timed-out", { outcome: "timed-out" }), timeoutMs)
+      timer.unref?.()
+      this.timers.set(gate.id, timer)
+    }
+
+    this.options.logger.info({ gateId: gate.id, source: gate.source, planId: gate.planId, stepId: gate.stepId }, "Gate created")
+    this.options.eventBus.publish({ type: "gate.created", gate: { ...gate }, timestamp: now })
+    return { ...gate }
+  }
+
+  get(id: string): GateEntry | undefined {
+    const gate = this.gates.get(id)
+    return gate ? { ...gate } : undefined
+  }
+
+  /** Gates matching the query, newest first. */
+  list(query: GatesQuery = {}): GateEntry[] {
+    return Array.from(this.gates.values())
+      .filter((gate) => !query.planId || gate.planId === query.planId)
+      .filter((gate) => !query.sessionId || gate.sessionId === query.sessionId)
+      .filter((gate) => !query.folder || gate.folder === query.folder)
+      .filter((gate) => !query.status || gate.status === query.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((gate) => ({ ...gate }))
+  }
+
+  /** The waiting gate for a plan step, if any. */
+  findWaiting(planId: string, stepId: string): GateEntry | undefined {
+    return this.list({ planId, status: "waiting" }).find((gate) => gate.stepId === stepId)
+  }
+
+  approve(id: string, decision: { comment?: string; resolvedBy?: string } = {}): GateEntry {
+    return this.decide(id, true, decision)
+  }
+
+  reject(id: string, decision: { comment?: string; resolvedBy?: string } = {}): GateEntry {
+    return this.decide(id, false, decision)
+  }
+
+  /** Withdraw a waiting gate, e.g. because its plan was cancelled. */
+  cancel(id: string, comment?: string): GateEntry | undefined {
+    const gate = this.gates.get(id)
+    if (!gate || gate.status !== "waiting") return undefined
+    return this.finish(id, "cancelled", { outcome: "cancelled", comment })
+  }
+
+  /**
+   * Resolve once the gate leaves "waiting", or with the still-waiting gate
+   * after `timeoutMs`. Used by agents long-polling for a decision.
+   */
+  wait(id: string, timeoutMs: number): Promise<GateEntry | undefined> {
+    const gate = this.gates.get(id)
+    if (!gate || gate.status !== "waiting" || timeoutMs <= 0) return Promise.resolve(gate ? { ...gate } : undefined)
+
+    return new Promise((resolve) => {
+      const waiters = this.waiters.get(id) ?? new Set()
+      this.waiters.set(id, waiters)
+      const done = (decided: GateEntry) => {
+        clearTimeout(timer)
+        waiters.delete(done)
+        resolve(decided)
+      }
+      const timer = setTimeout(() => done({ ...gate }), timeoutMs)
+      waiters.add(done)
+    })
+  }
+
+  /** Called with every decided gate (approved, rejected, timed out or cancelled). */
+  onResolved(listener: GateListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  dispose(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer)
+    this.timers.clear()
+    this.listeners.clear()
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private decide(id: string, approved: boolean, decision: { comment?: string; resolvedBy?: string }): GateEntry {
+    const gate = this.gates.get(id)
+    if (!gate) throw new GateError(`Gate "${id}" not found`, 404)
+    if (gate.status !== "waiting") throw new GateError(`Gate "${id}" is already ${gate.status}`, 409)
+
+    const comment = decision.comment?.trim() || undefined
+    return this.finish(id, approved ? "resolved" : "rejected", {
+      outcome: approved ? "approved" : "rejected",
+      resolvedBy: decision.resolvedBy ?? "user",
+      comment,
+    })
+  }
+
+  private finish(id: string, status: GateStatus, resolution: GateResolution): GateEntry {
+    const gate = this.gates.get(id)!
+    if (gate.status !== "waiting") return { ...gate }
+
+    const timer = this.timers.get(id)
+    if (timer) clearTimeout(timer)
+    this.timers.delete(id)
+
+    gate.status = status
+    gate.resolution = resolution
+    gate.resolvedAt = new Date().toISOString()
+    this.options.logger.info({ gateId: id, status, resolvedBy: resolution.resolvedBy }, "Gate decided")
+
+    const snapshot = { ...gate }
+    this.options.eventBus.publish({ type: "gate.resolved", gate: snapshot, timestamp: Date.now() })
+    for (const listener of this.listeners) {
+      try {
+        listener({ ...snapshot })
+      } catch (err) {
+        this.options.logger.warn({ err, gateId: id }, "Gate listener failed")
+      }
+    }
+    for (const waiter of Array.from(this.waiters.get(id) ?? [])) waiter({ ...snapshot })
+    this.waiters.delete(id)
+
+    this.prune()
+    return snapshot
+  }
+
+  private prune() {
+    const decided = Array.from(this.gates.values()).filter((gate) => gate.status !== "waiting")
+    if (decided.length <= MAX_RESOLVED_GATES) return
+    decided
+      .sort((a, b) => (a.resolvedAt ?? "").localeCompare(b.resolvedAt ?? ""))
+      .slice(0, decided.length - MAX_RESOLVED_GATES)
+      .forEach((gate) => this.gates.delete(gate.id))
+  }
+}
@@ -0,0 +1,385 @@
+/**
+ * Handoff Service
+ *
+ * When a session runs out of context (or a user asks for it), its work is
+ * handed over to a fresh session:
+ * 1. The source session's messages and todos are read from the instance and
+ *    condensed into a handoff document (summary, completed/pending tasks,
+ *    key decisions, modified files).
+ * 2. The document is written to `<project>/.era/handoffs/<id>.md` next to a
+ *    JSON record that links the source and child sessions.
+ * 3. A new session is created and seeded with the document without asking
+ *    the agent for a reply, so the user decides how to continue.
+ *
+ * Records are read back per project to rebuild handoff chains.
+ */
+import * as crypto from "node:crypto"
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { fetch } from "undici"
+import type { EventBus } from "../events/bus"
+import type { Logger } from "../logger"
+import type { WorkspaceManager } from "../workspaces/manager"
+import type {
+  CreateHandoffRequest,
+  HandoffChainNode,
+  HandoffEntry,
+  HandoffsResponse,
+} from "../api-types"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface HandoffServiceOptions {
+  eventBus: EventBus
+  logger: Logger
+  workspaceManager: WorkspaceManager
+}
+
+/** Subset of the instance's `GET /session/:id/message` payload we rely on */
+export interface InstanceMessage {
+  info: {
+    id: string
+    role: "user" | "assistant"
+    time?: { created?: number }
+    tokens?: { input?: number; output?: number; reasoning?: number }
+    providerID?: string
+    modelID?: string
+  }
+  parts: Array<{
+    type: string
+    text?: string
+    synthetic?: boolean
+    tool?: string
+    state?: { status?: string; input?: Record<string, unknown> }
+  }>
+}
+
+export interface InstanceTodo {
+  content: string
+  status: string
+}
+
+interface InstanceSession {
+  id: string
+  title?: string
+  time?: { created?: number }
+}
+
+export type HandoffDocument = Pick<
+  HandoffEntry,
+  "workSummary" | "completedTasks" | "pendingTasks" | "keyDecisions" | "filesModified" | "tokensUsed"
+>
+
+export class HandoffError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message)
+    this.name = "HandoffError"
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const HANDOFFS_DIR = path.join(".era", "handoffs")
+const INSTANCE_HOST = "127.0.0.1"
+const REQUEST_TIMEOUT_MS = 30_000
+const EDIT_TOOLS = new Set(["edit", "write", "patch", "multiedit"])
+const DECISION_PATTERN = /\b(decided|decision|chose|choose|opted|going with|instead of|trade-?off)\b/i
+const MAX_DECISIONS = 8
+const GOAL_CHARS = 400
+const PROGRESS_CHARS = 800
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class HandoffService {
+  constructor(private readonly options: HandoffServiceOptions) {}
+
+  /**
+   * Summarize `sessionId` into a handoff document and continue in a new session.
+   */
+  async create(request: CreateHandoffRequest): Promise<HandoffEntry> {
+    const workspace = this.options.workspaceManager.get(request.instanceId)
+    const port = workspace ? this.options.workspaceManager.getInstancePort(workspace.id) : undefined
+    if (!workspace || !port) {
+      throw new HandoffError("Instance is not running", 409)
+    }
+    const baseUrl = `http://${INSTANCE_HOST}:${port}`
+    const sessionPath = `${baseUrl}/session/${encodeURIComponent(request.sessionId)}`
+
+    const session = await requestJson<InstanceSession>(sessionPath).catch((err) => {
+      throw new HandoffError(`Session not found: ${err instanceof Error ? err.message : String(err)}`, 404)
+    })
+    const [messages, todos] = await Promise.all([
+      requestJson<InstanceMessage[]>(`${sessionPath}/message`),
+      // Older binaries have no todo endpoint; the document just lists no tasks then
+      requestJson<InstanceTodo[]>(`${sessionPath}/todo`).catch(() => [] as InstanceTodo[]),
+    ])
+
+    const document = buildHandoffDocument(messages, todos, workspace.path)
+    const id = `handoff_${Date.now().toString(36)}_${crypto.randomBytes(3).toString("hex")}`
+    const now = new Date()
+    const title = session.title || "Untitled session"
+    const entry: HandoffEntry = {
+      id,
+      folder: workspace.path,
+      instanceId: workspace.id,
+      fromSessionId: request.sessionId,
+      timestamp: now.toISOString(),
+      contextUsage: clampUsage(request.contextUsage),
+      durationMs: session.time?.created ? Math.max(0, now.getTime() - session.time.created) : undefined,
+      reason: request.reason ?? "manual",
+      title,
+      documentPath: path.join(HANDOFFS_DIR, `${id}.md`),
+      ...document,
+    }
+
+    const markdown = renderHandoffMarkdown(entry, request.note)
+    await this.write(entry, markdown)
+
+    try {
+      const child = await requestJson<InstanceSession>(`${baseUrl}/session`, {
+        title: `${stripContinuedPrefix(title)} (continued)`,
+      })
+      entry.toSessionId = child.id
+
+      const latest = [...messages].reverse().find((message) => message.info.role === "assistant" && message.info.modelID)
+      const seed: Record<string, unknown> = {
+        parts: [{ type: "text", text: markdown }],
+        noReply: true,
+      }
+      if (latest?.info.providerID && latest.info.modelID) {
+        seed.model = { providerID: latest.info.providerID, modelID: latest.info.modelID }
+      }
+      await requestJson(`${baseUrl}/session/${encodeURIComponent(child.id)}/message`, seed)
+    } catch (err) {
+      this.options.logger.warn({ err, handoffId: id }, "Failed to seed handoff session")
+      await this.write(entry, markdown)
+      throw new HandoffError(
+        `Handoff document saved to ${entry.documentPath}, but the new session could not be ${entry.toSessionId ? "seeded" : "created"}`,
+        502,
+      )
+    }
+
+    await this.write(entry, markdown)
+    this.options.logger.info(
+      { handoffId: id, from: entry.fromSessionId, to: entry.toSessionId, reason: entry.reason },
+      "Session handed off",
+    )
+    this.options.eventBus.publish({ type: "handoff.created", handoff: entry, timestamp: Date.now() })
+    return entry
+  }
+
+  /**
+   * Handoffs for a project (or every open workspace), oldest first. With a
+   * `sessionId` only the chain that session belongs to is returned.
+   */
+  async list(query: { folder?: string; sessionId?: string }): Promise<HandoffsResponse> {
+    const folders = query.folder
+      ? [path.resolve(query.folder)]
+      : Array.from(new Set(this.options.workspaceManager.list().map((workspace) => workspace.path)))
+
+    const handoffs: HandoffEntry[] = []
+    for (const folder of folders) {
+      handoffs.push(...(await this.readFolder(folder)))
+    }
+    handoffs.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+    if (!query.sessionId) {
+      return { handoffs, chain: [] }
+    }
+    return buildChain(handoffs, query.sessionId)
+  }
+
+  private async readFolder(folder: string): Promise<HandoffEntry[]> {
+    const dir = path.join(folder, HANDOFFS_DIR)
+    let entries: string[]
+    try {
+      entries = await fs.promises.readdir(dir)
+    } catch {
+      return []
+    }
+
+    const handoffs: HandoffEntry[] = []
+    for (const entry of entries.filter((name) => name.endsWith(".json"))) {
+      try {
+        handoffs.push(JSON.parse(await fs.promises.readFile(path.join(dir, entry), "utf-8")) as HandoffEntry)
+      } catch (err) {
+        this.options.logger.warn({ err, file: entry }, "Skipping unreadable handoff record")
+      }
+    }
+    return handoffs
+  }
+
+  private async write(entry: HandoffEntry, markdown: string) {
+    const dir = path.join(entry.folder, HANDOFFS_DIR)
+    await fs.promises.mkdir(dir, { recursive: true })
+    await fs.promises.writeFile(path.join(entry.folder, entry.documentPath), markdown, "utf-8")
+    await fs.promises.writeFile(path.join(dir, `${entry.id}.json`), JSON.stringify(entry, null, 2), "utf-8")
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Document building
+// ---------------------------------------------------------------------------
+
+/**
+ * Condense a session transcript into handoff fields. Todos are the source of
+ * truth for tasks; files come from edit tool calls; decisions are sentences
+ * from assistant replies that read like a choice was made.
+ */
+export function buildHandoffDocument(messages: InstanceMessage[], todos: InstanceTodo[], folder: string): HandoffDocument {
+  const textOf = (message: InstanceMessage) =>
+    message.parts
+      .filter((part) => part.type === "text" && !part.synthetic && typeof part.text === "string")
+      .map((part) => part.text!.trim())
+      .filter(Boolean)
+      .join("\n")
+
+  const userTexts = messages.filter((message) => message.info.role === "user").map(textOf).filter(Boolean)
+  const assistantTexts = messages.filter((message) => message.info.role === "assistant").map(textOf).filter(Boolean)
+
+  const goal = userTexts[0] ? truncate(userTexts[0], GOAL_CHARS) : ""
+  const progress = assistantTexts.length > 0 ? truncate(assistantTexts[assistantTexts.length - 1], PROGRESS_CHARS) : ""
+  const summary = [goal && `Goal: ${goal}`, progress && `Latest progress: ${progress}`].filter(Boolean).join("\n\n")
+
+  const files = new Set<string>()
+  for (const message of messages) {
+    for (const part of message.parts) {
+      if (part.type !== "tool" || !part.tool || !EDIT_TOOLS.has(part.tool) || part.state?.status === "error") continue
+      const target = part.state?.input?.filePath ?? part.state?.input?.path
+      if (typeof target !== "string" || !target) continue
+      const relative = path.isAbsolute(target) ? path.relative(folder, target) : target
+      files.add(relative.startsWith("..") ? target : relative.split(path.sep).join("/"))
+    }
+  }
+
+  const decisions: string[] = []
+  for (const text of assistantTexts) {
+    for (const sentence of text.split(/(?<=[.!?])\s+|\n+/)) {
+      const trimmed = sentence.replace(/^[-*\d.\s]+/, "").trim()
+      if (trimmed.length > 20 && DECISION_PATTERN.test(trimmed) && !decisions.includes(trimmed)) {
+        decisions.push(truncate(trimmed, 200))
+      }
+    }
+  }
+
+  let tokensUsed = 0
+  for (const message of messages) {
+    const tokens = message.info.tokens
+    if (message.info.role !== "assistant" || !tokens) continue
+    tokensUsed += (tokens.input ?? 0) + (tokens.output ?? 0) + (tokens.reasoning ?? 0)
+  }
+
+  return {
+    workSummary: summary || "No conversation content to summarize.",
+    completedTasks: todos.filter((todo) => todo.status === "completed").map((todo) => todo.content),
+    pendingTasks: todos
+      .filter((todo) => todo.status === "pending" || todo.status === "in_progress")
+      .map((todo) => todo.content),
+    keyDecisions: decisions.slice(-MAX_DECISIONS),
+    filesModified: Array.from(files).sort(),
+    tokensUsed,
+  }
+}
+
+export function renderHandoffMarkdown(entry: HandoffEntry, note?: string): string {
+  const list = (items: string[], marker: string) =>
+    items.length > 0 ? items.map((item) => `${marker} ${item}`).join("\n") : "_None_"
+
+  const sections = [
+    `# Handoff: ${entry.title}`,
+    `This session continues work from session \`${entry.fromSessionId}\`, which was handed off ` +
+      `(${entry.reason.replace("_", " ")}, ${Math.round(entry.contextUsage * 100)}% of context used). ` +
+      "Pick up the pending tasks below; re-read modified files before changing them.",
+    `## Summary\n\n${entry.workSummary}`,
+    `## Completed\n\n${list(entry.completedTasks, "- [x]")}`,
+    `## Pending\n\n${list(entry.pendingTasks, "- [ ]")}`,
+    `## Key decisions\n\n${list(entry.keyDecisions, "-")}`,
+    `## Files modified\n\n${list(entry.filesModified.map((file) => `\`${file}\``), "-")}`,
+  ]
+  if (note?.trim()) {
+    sections.push(`## Notes\n\n${note.trim()}`)
+  }
+  return `${sections.join("\n\n")}\n`
+}
+
+/** Walk handoff links backwards to the first session, then forwards to the latest. */
+export function buildChain(handoffs: HandoffEntry[], sessionId: string): HandoffsResponse {
+  const byTarget = new Map<string, HandoffEntry>()
+  const bySource = new Map<string, HandoffEntry>()
+  for (const handoff of handoffs) {
+    if (handoff.toSessionId) byTarget.set(handoff.toSessionId, handoff)
+    // Later handoffs from the same session win
+    bySource.set(handoff.fromSessionId, handoff)
+  }
+
+  let root = sessionId
+  const seen = new Set([root])
+  while (byTarget.has(root)) {
+    const previous = byTarget.get(root)!.fromSessionId
+    if (seen.has(previous)) break
+    seen.add(previous)
+    root = previous
+  }
+
+  const chain: HandoffChainNode[] = []
+  const links: HandoffEntry[] = []
+  let current: string | undefined = root
+  const visited = new Set<string>()
+  while (current && !visited.has(current)) {
+    visited.add(current)
+    const next = bySource.get(current)
+    const total = next ? next.completedTasks.length + next.pendingTasks.length : 0
+    chain.push({
+      sessionId: current,
+      title: next?.title,
+      duration: next?.durationMs,
+      tokensUsed: next?.tokensUsed,
+      progress: next && total > 0 ? `${next.completedTasks.length}/${total} tasks` : undefined,
+    })
+    if (next) links.push(next)
+    current = next?.toSessionId
+  }
+
+  return { handoffs: links, chain: links.length > 0 ? chain : [] }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function clampUsage(value: number | undefined): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return 0
+  return Math.min(1, Math.max(0, value))
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text
+}
+
+function stripContinuedPrefix(title: string): string {
+  return title.replace(/(\s*\(continued\))+$/, "")
+}
+
+async function requestJson<T>(url: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: body === undefined ? "GET" : "POST",
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    const text = await response.text().catch(() => "")
+    throw new Error(`Instance request failed (${response.status})${text ? `: ${text.slice(0, 200)}` : ""}`)
+  }
+  const text = await response.text()
+  return (text ? JSON.parse(text) : undefined) as T
+}
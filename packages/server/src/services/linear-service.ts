@@ -0,0 +1,608 @@
+/**
+ * Linear Service
+ *
+ * Talks to Linear through an MCP server: the hosted Linear server, a
+ * community server or a local mock all work as long as they expose the usual
+ * issue tools. The server is picked per project from `.era/mcp.json` and the
+ * global `mcpRegistry` (any enabled server named like "linear" or pointing at
+ * mcp.linear.app). Without one, the hosted server is used when a
+ * `LINEAR_API_KEY` is set.
+ *
+ * `<project>/.era/linear.json` narrows the issue list:
+ *   { "team": "ENG", "project": "Checkout", "assignee": "me", "limit": 50 }
+ *
+ * Issue lists are cached per project for a short time; status changes and
+ * comments go straight to Linear and patch the cached list.
+ */
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { Logger } from "../logger"
+import type { McpServerConfig, Preferences } from "../config/schema"
+import type {
+  LinearComment,
+  LinearIssue,
+  LinearIssueDetail,
+  LinearIssuesResponse,
+  LinearStatus,
+  LinearWorkflowState,
+} from "../api-types"
+import { McpRpcError, withMcpSession, type McpSession } from "../tools/mcp-discovery"
+import { readProjectMcpConfig } from "./project-mcp-config"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface LinearServiceOptions {
+  logger: Logger
+  /** Current preferences; global servers come from `mcpRegistry` */
+  getPreferences: () => Preferences
+  /** How long an issue list is served from cache, in ms */
+  cacheTtlMs?: number
+  /** Per-request timeout in ms, unless the server config sets one */
+  timeoutMs?: number
+  /** Session implementation (tests replace it) */
+  connect?: typeof withMcpSession
+}
+
+/** Issue filter read from `.era/linear.json` */
+export interface LinearProjectFilter {
+  team?: string
+  project?: string
+  assignee?: string
+  limit?: number
+}
+
+interface LinearServer {
+  name: string
+  config: McpServerConfig
+}
+
+interface CachedIssues {
+  serverKey: string
+  response: LinearIssuesResponse
+}
+
+/** A tool under one of the names Linear MCP servers use, with its argument shape */
+interface ToolCandidate<A> {
+  name: string
+  args: (input: A) => Record<string, unknown>
+}
+
+export class LinearError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message)
+    this.name = "LinearError"
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const LINEAR_PROJECT_FILE = path.join(".era", "linear.json")
+
+const LINEAR_MCP_URL = "https://mcp.linear.app/mcp"
+const DEFAULT_CACHE_TTL_MS = 60_000
+const DEFAULT_TIMEOUT_MS = 20_000
+const DEFAULT_ISSUE_LIMIT = 50
+
+const PRIORITY_LABELS: Record<number, string> = {
+  0: "No priority",
+  1: "Urgent",
+  2: "High",
+  3: "Medium",
+  4: "Low",
+}
+
+const TOOLS = {
+  listIssues: [
+    {
+      name: "list_issues",
+      args: (filter) => ({ team: filter.team, project: filter.project, assignee: filter.assignee, limit: filter.limit }),
+    },
+    {
+      name: "linear_search_issues",
+      args: (filter) => ({ teamId: filter.team, projectId: filter.project, assigneeId: filter.assignee, limit: filter.limit }),
+    },
+  ] as ToolCandidate<LinearProjectFilter>[],
+  getIssue: [
+    { name: "get_issue", args: (id) => ({ id }) },
+    { name: "linear_get_issue", args: (id) => ({ issueId: id }) },
+  ] as ToolCandidate<string>[],
+  listComments: [
+    { name: "list_comments", args: (id) => ({ issueId: id }) },
+    { name: "linear_list_comments", args: (id) => ({ issueId: id }) },
+  ] as ToolCandidate<string>[],
+  updateStatus: [
+    { name: "update_issue", args: ({ id, status }) => ({ id, state: status }) },
+    { name: "linear_update_issue", args: ({ id, status }) => ({ id, status }) },
+  ] as ToolCandidate<{ id: string; status: string }>[],
+  createComment: [
+    { name: "create_comment", args: ({ id, body }) => ({ issueId: id, body }) },
+    { name: "linear_add_comment", args: ({ id, body }) => ({ issueId: id, body }) },
+  ] as ToolCandidate<{ id: string; body: string }>[],
+  listStatuses: [
+    { name: "list_issue_statuses", args: (team) => ({ team }) },
+    { name: "linear_list_workflow_states", args: (team) => ({ teamId: team }) },
+  ] as ToolCandidate<string>[],
+  listTeams: [
+    { name: "list_teams", args: () => ({}) },
+    { name: "linear_list_teams", args: () => ({}) },
+  ] as ToolCandidate<void>[],
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class LinearService {
+  private readonly cache = new Map<string, CachedIssues>()
+  private readonly inflight = new Map<string, Promise<LinearIssuesResponse>>()
+  private readonly cacheTtlMs: number
+  private readonly timeoutMs: number
+  private readonly connect: typeof withMcpSession
+
+  constructor(private readonly options: LinearServiceOptions) {
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    this.connect = options.connect ?? withMcpSession
+  }
+
+  /** Whether Linear is reachable for a project (or globally when no folder is given) */
+  async status(folder?: string): Promise<LinearStatus> {
+    const server = this.resolveServer(folder)
+    if (!server) {
+      return {
+        connected: false,
+        workspace: null,
+        error: `Linear MCP server not configured. Add ${LINEAR_MCP_URL} as an MCP server or set LINEAR_API_KEY.`,
+        server: null,
+      }
+    }
+
+    try {
+      const teams = await this.withSession(server, async (session, tools) => {
+        const tool = pickTool(tools, TOOLS.listTeams)
+        return tool ? readItems(await session.callTool(tool.name, {}), "teams") : []
+      })
+      const filter = folder ? readLinearProjectFilter(folder) : {}
+      const names = teams.map((team) => stringField(field(team, "name")) ?? stringField(field(team, "key"))).filter(Boolean)
+      return {
+        connected: true,
+        workspace: filter.team ?? names[0] ?? server.name,
+        error: null,
+        server: server.name,
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.options.logger.debug({ server: server.name, error: message }, "Linear status check failed")
+      return { connected: false, workspace: null, error: message, server: server.name }
+    }
+  }
+
+  /** Issues of a project; served from cache unless `refresh` is set or the cache is stale */
+  listIssues(folder: string, refresh = false): Promise<LinearIssuesResponse> {
+    const server = this.requireServer(folder)
+    const serverKey = JSON.stringify(server)
+    const cached = this.cache.get(folder)
+    if (!refresh && cached && cached.serverKey === serverKey && Date.now() - cached.response.fetchedAt < this.cacheTtlMs) {
+      return Promise.resolve(cached.response)
+    }
+
+    const pending = this.inflight.get(folder)
+    if (pending) return pending
+
+    const filter = readLinearProjectFilter(folder)
+    const request = this.withSession(server, async (session, tools) => {
+      const tool = requireTool(tools, TOOLS.listIssues, "list issues")
+      const items = readItems(await session.callTool(tool.name, compact(tool.args({ limit: DEFAULT_ISSUE_LIMIT, ...filter }))), "issues")
+      const response: LinearIssuesResponse = {
+        issues: items.map(toLinearIssue).filter((issue): issue is LinearIssue => issue !== null),
+        fetchedAt: Date.now(),
+      }
+      this.cache.set(folder, { serverKey, response })
+      return response
+    }).finally(() => {
+      this.inflight.delete(folder)
+    })
+    this.inflight.set(folder, request)
+    return request
+  }
+
+  async getIssue(folder: string, id: string): Promise<LinearIssueDetail> {
+    const server = this.requireServer(folder)
+    return this.withSession(server, async (session, tools) => {
+      const tool = requireTool(tools, TOOLS.getIssue, "read issues")
+      const raw = readObject(await session.callTool(tool.name, tool.args(id)), "issue")
+      const detail = toLinearIssueDetail(raw)
+      if (!detail) {
+        throw new LinearError(`Linear issue ${id} not found`, 404)
+      }
+
+      // Comments are a nice-to-have; older servers can't list them
+      const commentsTool = pickTool(tools, TOOLS.listComments)
+      if (detail.comments.length === 0 && commentsTool) {
+        try {
+          const items = readItems(await session.callTool(commentsTool.name, commentsTool.args(detail.id)), "comments")
+          detail.comments = items.map(toLinearComment).filter((comment): comment is LinearComment => comment !== null)
+        } catch (error) {
+          this.options.logger.debug({ issue: id, error }, "Unable to list Linear comments")
+        }
+      }
+      this.patchCache(folder, detail)
+      return detail
+    })
+  }
+
+  /** Workflow states of a team (or the project's team) */
+  async listStatuses(folder: string, team?: string): Promise<LinearWorkflowState[]> {
+    const teamName = team ?? readLinearProjectFilter(folder).team
+    if (!teamName) {
+      throw new LinearError("team is required; set it in .era/linear.json or pass it explicitly", 400)
+    }
+    const server = this.requireServer(folder)
+    return this.withSession(server, async (session, tools) => {
+      const tool = requireTool(tools, TOOLS.listStatuses, "list workflow states")
+      const items = readItems(await session.callTool(tool.name, tool.args(teamName)), "statuses")
+      return items.map(toWorkflowState).filter((state): state is LinearWorkflowState => state !== null)
+    })
+  }
+
+  /** Move an issue to another workflow state, by state name or id */
+  async updateStatus(folder: string, id: string, status: string): Promise<LinearIssue> {
+    const server = this.requireServer(folder)
+    const updated = await this.withSession(server, async (session, tools) => {
+      const tool = requireTool(tools, TOOLS.updateStatus, "update issues")
+      const result = await session.callTool(tool.name, tool.args({ id, status }))
+      // Servers answer with the updated issue or just a confirmation
+      let issue: LinearIssue | null = null
+      try {
+        issue = toLinearIssue(readObject(result, "issue"))
+      } catch {
+        // Fall through to the cached issue
+      }
+      return issue
+    })
+
+    const cached = this.findCached(folder, id)
+    const issue = updated ?? (cached ? { ...cached, status, updatedAt: Date.now() } : null)
+    if (!issue) {
+      // Neither the server nor the cache knows the issue; fetch it
+      return this.getIssue(folder, id)
+    }
+    this.patchCache(folder, issue)
+    return issue
+  }
+
+  async addComment(folder: string, id: string, body: string): Promise<LinearComment> {
+    const server = this.requireServer(folder)
+    return this.withSession(server, async (session, tools) => {
+      const tool = requireTool(tools, TOOLS.createComment, "comment on issues")
+      const result = await session.callTool(tool.name, tool.args({ id, body }))
+      let comment: LinearComment | null = null
+      try {
+        comment = toLinearComment(readObject(result, "comment"))
+      } catch {
+        // Confirmation text only
+      }
+      return comment ?? { id: "", body, author: null, createdAt: Date.now() }
+    })
+  }
+
+  /** The MCP server used for Linear in a project, if any */
+  resolveServer(folder?: string): LinearServer | null {
+    const { mcpRegistry, mcpDesiredState, environmentVariables } = this.options.getPreferences()
+    const apiKey = process.env.LINEAR_API_KEY || environmentVariables.LINEAR_API_KEY
+    const candidates: Array<LinearServer & { enabled: boolean }> = []
+
+    const project = folder ? readProjectMcpConfig(folder) : { servers: {}, overrides: {} as Record<string, boolean> }
+    for (const [name, config] of Object.entries(project.servers)) {
+      candidates.push({ name, config, enabled: project.overrides[name] ?? config.enabled ?? true })
+    }
+    for (const [name, config] of Object.entries(mcpRegistry)) {
+      // Project servers replace global ones of the same name
+      if (name in project.servers) continue
+      const enabled = project.overrides[name] ?? mcpDesiredState[name] ?? config.enabled ?? true
+      candidates.push({ name, config, enabled })
+    }
+
+    const match = candidates.find((candidate) => candidate.enabled && isLinearServer(candidate.name, candidate.config))
+    if (match) {
+      return { name: match.name, config: withApiKey(match.config, apiKey) }
+    }
+    if (apiKey) {
+      return { name: "linear-server", config: withApiKey({ type: "remote", url: LINEAR_MCP_URL }, apiKey) }
+    }
+    return null
+  }
+
+  private requireServer(folder: string): LinearServer {
+    const server = this.resolveServer(folder)
+    if (!server) {
+      throw new LinearError("Linear MCP server not configured for this project", 409)
+    }
+    return server
+  }
+
+  private async withSession<T>(
+    server: LinearServer,
+    fn: (session: McpSession, tools: Set<string>) => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await this.connect(server.config, server.config.timeout ?? this.timeoutMs, async (session) =>
+        fn(session, await listToolNames(session)),
+      )
+    } catch (error) {
+      if (error instanceof LinearError) throw error
+      const message = error instanceof Error ? error.message : String(error)
+      this.options.logger.warn({ server: server.name, error: message }, "Linear request failed")
+      throw new LinearError(`Linear request failed: ${message}`, 502)
+    }
+  }
+
+  private findCached(folder: string, id: string): LinearIssue | undefined {
+    return this.cache.get(folder)?.response.issues.find((issue) => issue.id === id || issue.identifier === id)
+  }
+
+  private patchCache(folder: string, issue: LinearIssue): void {
+    const cached = this.cache.get(folder)
+    if (!cached) return
+    const summary = toSummary(issue)
+    cached.response = {
+      ...cached.response,
+      issues: cached.response.issues.map((existing) => (existing.id === issue.id ? summary : existing)),
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Read `.era/linear.json`; a missing or invalid file means no filter */
+export function readLinearProjectFilter(folder: string): LinearProjectFilter {
+  let raw: unknown
+  try {
+    raw = JSON.parse(fs.readFileSync(path.join(folder, LINEAR_PROJECT_FILE), "utf-8"))
+  } catch {
+    return {}
+  }
+  if (!isRecord(raw)) return {}
+  return compact({
+    team: stringField(raw.team),
+    project: stringField(raw.project),
+    assignee: stringField(raw.assignee),
+    limit: typeof raw.limit === "number" && raw.limit > 0 ? Math.floor(raw.limit) : undefined,
+  })
+}
+
+function isLinearServer(name: string, config: McpServerConfig): boolean {
+  if (/linear/i.test(name)) return true
+  if (config.type !== "remote") return false
+  try {
+    return new URL(config.url).hostname.endsWith("linear.app")
+  } catch {
+    return false
+  }
+}
+
+/** The hosted server accepts an API key as a bearer token in place of OAuth */
+function withApiKey(config: McpServerConfig, apiKey: string | undefined): McpServerConfig {
+  if (!apiKey || config.type !== "remote" || !isLinearServer("", config)) return config
+  const headers = config.headers ?? {}
+  if (Object.keys(headers).some((key) => key.toLowerCase() === "authorization")) return config
+  return { ...config, headers: { ...headers, Authorization: `Bearer ${apiKey}` } }
+}
+
+async function listToolNames(session: McpSession): Promise<Set<string>> {
+  const names = new Set<string>()
+  let cursor: string | undefined
+  do {
+    const result = await session.request("tools/list", cursor ? { cursor } : {})
+    const page = isRecord(result) ? result : {}
+    for (const tool of Array.isArray(page.tools) ? page.tools : []) {
+      if (isRecord(tool) && typeof tool.name === "string") names.add(tool.name)
+    }
+    cursor = stringField(page.nextCursor)
+  } while (cursor)
+  return names
+}
+
+function pickTool<A>(tools: Set<string>, candidates: ToolCandidate<A>[]): ToolCandidate<A> | undefined {
+  return candidates.find((candidate) => tools.has(candidate.name))
+}
+
+function requireTool<A>(tools: Set<string>, candidates: ToolCandidate<A>[], action: string): ToolCandidate<A> {
+  const tool = pickTool(tools, candidates)
+  if (!tool) {
+    throw new LinearError(`The Linear MCP server cannot ${action} (expected one of ${candidates.map((c) => c.name).join(", ")})`, 501)
+  }
+  return tool
+}
+
+/** Decode a tool result: structured content first, otherwise JSON in the text blocks */
+function decodeResult(result: { content: Array<{ type: string; text?: string }>; structuredContent?: unknown }): unknown {
+  if (result.structuredContent !== undefined) return result.structuredContent
+  const texts = result.content.filter((item) => item.type === "text" && item.text).map((item) => item.text as string)
+  const decoded: unknown[] = []
+  for (const text of texts) {
+    try {
+      decoded.push(JSON.parse(text))
+    } catch {
+      // Prose around the data
+    }
+  }
+  if (decoded.length === 0) {
+    throw new McpRpcError(`Unexpected response: ${texts.join(" ").slice(0, 200) || "empty"}`, -32603)
+  }
+  return decoded.length === 1 ? decoded[0] : decoded.flat()
+}
+
+/** List results come as a bare array or wrapped as `{ issues: [...] }`, `{ nodes: [...] }` and the like */
+function readItems(result: Parameters<typeof decodeResult>[0], key: string): unknown[] {
+  const data = decodeResult(result)
+  if (Array.isArray(data)) return data
+  const candidates = [
+    field(data, key),
+    field(data, "nodes"),
+    field(data, "items"),
+    field(data, "results"),
+    field(field(field(data, "data"), key), "nodes"),
+  ]
+  for (const candidate of candidates) {
+    if (Array.isArray(candidate)) return candidate
+    const nodes = field(candidate, "nodes")
+    if (Array.isArray(nodes)) return nodes
+  }
+  throw new McpRpcError(`Unexpected response: no ${key} in result`, -32603)
+}
+
+function readObject(result: Parameters<typeof decodeResult>[0], key: string): Record<string, unknown> {
+  const data = decodeResult(result)
+  const value = Array.isArray(data) ? data[0] : (field(data, key) ?? data)
+  if (!isRecord(value)) {
+    throw new McpRpcError(`Unexpected response: no ${key} in result`, -32603)
+  }
+  return value
+}
+
+/**
+ * Map an issue as returned by a Linear MCP server. Servers differ in shape
+ * (`state: { name }` vs `status: "Todo"`, label objects vs names, ISO dates
+ * vs epoch), so fields are read tolerantly. Returns null without id or title.
+ */
+export function toLinearIssue(raw: unknown): LinearIssue | null {
+  if (!isRecord(raw)) return null
+  const id = stringField(raw.id)
+  const title = stringField(raw.title)
+  if (!id || !title) return null
+
+  const priority = numberField(field(raw.priority, "value") ?? raw.priority) ?? 0
+  return {
+    id,
+    identifier: stringField(raw.identifier) ?? id,
+    title,
+    status:
+      stringField(raw.status) ??
+      stringField(field(raw.state, "name")) ??
+      stringField(raw.state) ??
+      stringField(field(raw.status, "name")) ??
+      "Unknown",
+    statusColor: stringField(raw.statusColor) ?? stringField(field(raw.state, "color")) ?? stringField(field(raw.status, "color")) ?? "",
+    priority,
+    priorityLabel:
+      stringField(raw.priorityLabel) ?? stringField(field(raw.priority, "name")) ?? PRIORITY_LABELS[priority] ?? PRIORITY_LABELS[0],
+    labels: nameList(raw.labels),
+    assignee: personName(raw.assignee) ?? stringField(raw.assigneeName) ?? null,
+    url: stringField(raw.url) ?? "",
+    updatedAt: timestampField(raw.updatedAt) ?? timestampField(raw.createdAt) ?? 0,
+  }
+}
+
+function toLinearIssueDetail(raw: unknown): LinearIssueDetail | null {
+  const issue = toLinearIssue(raw)
+  if (!issue || !isRecord(raw)) return null
+  const description = stringField(raw.description) ?? ""
+  return {
+    ...issue,
+    description,
+    acceptanceCriteria: extractAcceptanceCriteria(description),
+    team: stringField(field(raw.team, "name")) ?? stringField(raw.team) ?? stringField(raw.teamName) ?? null,
+    comments: nodeList(raw.comments).map(toLinearComment).filter((comment): comment is LinearComment => comment !== null),
+  }
+}
+
+function toLinearComment(raw: unknown): LinearComment | null {
+  if (!isRecord(raw)) return null
+  const body = stringField(raw.body)
+  if (body === undefined) return null
+  return {
+    id: stringField(raw.id) ?? "",
+    body,
+    author: personName(raw.user) ?? personName(raw.author) ?? null,
+    createdAt: timestampField(raw.createdAt) ?? 0,
+  }
+}
+
+function toWorkflowState(raw: unknown): LinearWorkflowState | null {
+  if (!isRecord(raw)) return null
+  const name = stringField(raw.name)
+  if (!name) return null
+  return { id: stringField(raw.id) ?? name, name, type: stringField(raw.type) ?? null, color: stringField(raw.color) ?? "" }
+}
+
+/**
+ * Items of the "Acceptance criteria" section of an issue description: the
+ * list under a heading or bold line of that name, up to the next heading.
+ */
+export function extractAcceptanceCriteria(description: string): string[] {
+  const lines = description.split(/\r?\n/)
+  const start = lines.findIndex((line) => /^\s*(#{1,6}\s*|\*\*)?\s*acceptance criteria\b/i.test(line))
+  if (start === -1) return []
+
+  const items: string[] = []
+  for (const line of lines.slice(start + 1)) {
+    if (/^\s*#{1,6}\s/.test(line) || /^\s*\*\*[^*]+\*\*\s*:?\s*$/.test(line)) break
+    const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+)$/)
+    if (item) items.push(item[1].trim())
+  }
+  return items
+}
+
+function toSummary(issue: LinearIssue): LinearIssue {
+  const { id, identifier, title, status, statusColor, priority, priorityLabel, labels, assignee, url, updatedAt } = issue
+  return { id, identifier, title, status, statusColor, priority, priorityLabel, labels, assignee, url, updatedAt }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/** A field of an object, or undefined when `value` isn't one */
+function field(value: unknown, key: string): unknown {
+  return isRecord(value) ? value[key] : undefined
+}
+
+/** A list given as an array or as a GraphQL connection (`{ nodes: [...] }`) */
+function nodeList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value
+  const nodes = field(value, "nodes")
+  return Array.isArray(nodes) ? nodes : []
+}
+
+function stringField(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined
+}
+
+function numberField(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined
+}
+
+function timestampField(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value
+  if (typeof value === "string") {
+    const parsed = Date.parse(value)
+    return Number.isNaN(parsed) ? undefined : parsed
+  }
+  return undefined
+}
+
+function personName(value: unknown): string | undefined {
+  if (typeof value === "string") return stringField(value)
+  return stringField(field(value, "displayName")) ?? stringField(field(value, "name"))
+}
+
+function nameList(value: unknown): string[] {
+  return nodeList(value)
+    .map((item) => (typeof item === "string" ? item : stringField(field(item, "name"))))
+    .filter((name): name is string => Boolean(name))
+}
+
+/** Drop undefined values so tools with strict schemas don't see them */
+function compact<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T
+}
@@ -0,0 +1,323 @@
+/**
+ * MCP Supervisor
+ *
+ * Background health monitoring for configured MCP servers. Every global
+ * server (the `mcpRegistry` preference) and every project server of an open
+ * workspace (`.era/mcp.json`) is probed on an interval: the supervisor runs
+ * the MCP handshake, lists the advertised tools, resources and prompts, and
+ * records latency and a short probe history. Tools are categorized with the
+ * same rules the ToolRegistry uses, so the UI can show risk level and token
+ * cost before a server is ever routed to an agent.
+ *
+ * Changes in status or inventory are published on the EventBus as
+ * `mcp.statusChanged`. Disabled servers are tracked but never probed. State
+ * lives in memory and is rebuilt on start.
+ */
+import type { EventBus } from "../events/bus"
+import type { Logger } from "../logger"
+import type { McpServerConfig, Preferences } from "../config/schema"
+import type {
+  McpHealthResponse,
+  McpInventoryTool,
+  McpProbeRecord,
+  McpServerHealth,
+  McpServerHealthStatus,
+  WorkspaceEventPayload,
+} from "../api-types"
+import { createMcpToolManual } from "../tools/mcp-categorizer"
+import { probeMcpServer, type McpProbeResult } from "../tools/mcp-discovery"
+import { readProjectMcpConfig } from "./project-mcp-config"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface McpSupervisorOptions {
+  eventBus: EventBus
+  logger: Logger
+  /** Current preferences; global servers come from `mcpRegistry` */
+  getPreferences: () => Preferences
+  /** Folders of open workspaces whose project servers are probed as well */
+  getProjectFolders: () => string[]
+  /** Probe interval in ms */
+  intervalMs?: number
+  /** Per-probe timeout in ms, unless the server config sets one */
+  timeoutMs?: number
+  /** Probe implementation (tests replace it) */
+  probe?: (config: McpServerConfig, timeoutMs: number) => Promise<McpProbeResult>
+}
+
+interface SupervisedServer {
+  health: McpServerHealth
+  config: McpServerConfig
+  /** Serialized config; a change resets the recorded state */
+  configKey: string
+  enabled: boolean
+}
+
+export class McpSupervisorError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message)
+    this.name = "McpSupervisorError"
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_INTERVAL_MS = 60_000
+const DEFAULT_TIMEOUT_MS = 10_000
+/** Probes kept per server */
+const MAX_HISTORY = 20
+/** Successful probes slower than this mark the server degraded */
+const SLOW_PROBE_MS = 3_000
+/** Failed probes in a row before a previously healthy server is down */
+const FAILURES_BEFORE_DOWN = 2
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class McpSupervisor {
+  private readonly servers = new Map<string, SupervisedServer>()
+  private readonly intervalMs: number
+  private readonly timeoutMs: number
+  private readonly probe: (config: McpServerConfig, timeoutMs: number) => Promise<McpProbeResult>
+  private cycle: Promise<void> | null = null
+
+  constructor(private readonly options: McpSupervisorOptions) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    this.probe = options.probe ?? probeMcpServer
+  }
+
+  /**
+   * Probe on an interval and whenever the configured servers may have
+   * changed (config saves, workspaces opening or closing). Returns a detach
+   * function.
+   */
+  attach(): () => void {
+    const handler = (event: WorkspaceEventPayload) => {
+      if (event.type === "config.appChanged" || event.type === "workspace.started" || event.type === "workspace.stopped") {
+        void this.probeAll()
+      }
+    }
+    const detach = this.options.eventBus.onEvent(handler)
+    const timer = setInterval(() => void this.probeAll(), this.intervalMs)
+    timer.unref()
+    void this.probeAll()
+    return () => {
+      detach()
+      clearInterval(timer)
+    }
+  }
+
+  list(): McpHealthResponse {
+    this.sync()
+    return {
+      servers: Array.from(this.servers.values(), (server) => server.health),
+      intervalMs: this.intervalMs,
+    }
+  }
+
+  /**
+   * Probe every enabled server one after another. Calls made while a cycle
+   * is running wait for that cycle instead of starting another.
+   */
+  probeAll(): Promise<void> {
+    if (!this.cycle) {
+      this.cycle = this.runCycle().finally(() => {
+        this.cycle = null
+      })
+    }
+    return this.cycle
+  }
+
+  /** Probe one server now, even if it is disabled */
+  async probeServer(id: string): Promise<McpServerHealth> {
+    this.sync()
+    const server = this.servers.get(id)
+    if (!server) {
+      throw new McpSupervisorError(`MCP server "${id}" is not configured`, 404)
+    }
+    await this.probeOne(server)
+    return server.health
+  }
+
+  private async runCycle(): Promise<void> {
+    this.sync()
+    for (const server of Array.from(this.servers.values())) {
+      if (!server.enabled) continue
+      // The server may have been removed by a sync during an earlier probe
+      if (this.servers.get(server.health.id) !== server) continue
+      await this.probeOne(server)
+    }
+  }
+
+  private async probeOne(server: SupervisedServer): Promise<void> {
+    const { health } = server
+    const before = snapshot(health)
+    const previousStatus = health.status
+    const startedAt = Date.now()
+    let record: McpProbeRecord
+
+    try {
+      const result = await this.probe(server.config, server.config.timeout ?? this.timeoutMs)
+      record = { timestamp: startedAt, ok: true, latencyMs: Date.now() - startedAt }
+      health.serverInfo = result.serverInfo
+      health.tools = result.tools.map((tool) => toInventoryTool(tool, health.name))
+      health.resources = result.resources
+      health.prompts = result.prompts
+      health.latencyMs = record.latencyMs
+      health.lastSuccessAt = record.timestamp
+      health.lastError = undefined
+      health.consecutiveFailures = 0
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      record = { timestamp: startedAt, ok: false, latencyMs: Date.now() - startedAt, error: message }
+      health.lastError = message
+      health.consecutiveFailures += 1
+    }
+
+    health.lastCheckedAt = record.timestamp
+    health.history = [...health.history, record].slice(-MAX_HISTORY)
+    health.status = statusAfterProbe(health, record)
+
+    if (!record.ok) {
+      this.options.logger.debug({ server: health.id, error: record.error }, "MCP server probe failed")
+    }
+    if (snapshot(health) !== before) {
+      if (previousStatus !== "down" && health.status === "down") {
+        this.options.logger.warn({ server: health.id, error: health.lastError }, "MCP server is down")
+      }
+      this.publish(health)
+    }
+  }
+
+  /** Reconcile tracked servers with the global and project configs */
+  private sync(): void {
+    const configured = this.configuredServers()
+
+    for (const [id, server] of this.servers) {
+      if (!configured.has(id)) {
+        this.servers.delete(id)
+        this.publish(server.health, true)
+      }
+    }
+
+    for (const [id, next] of configured) {
+      const current = this.servers.get(id)
+      if (current && current.configKey === next.configKey) {
+        if (current.enabled !== next.enabled) {
+          current.enabled = next.enabled
+          current.health.status = next.enabled ? "unknown" : "disabled"
+          this.publish(current.health)
+        }
+        continue
+      }
+      this.servers.set(id, next)
+      this.publish(next.health)
+    }
+  }
+
+  private configuredServers(): Map<string, SupervisedServer> {
+    const configured = new Map<string, SupervisedServer>()
+    const { mcpRegistry, mcpDesiredState } = this.options.getPreferences()
+
+    for (const [name, config] of Object.entries(mcpRegistry)) {
+      const enabled = mcpDesiredState[name] ?? config.enabled ?? true
+      configured.set(name, createServer(name, name, "global", config, enabled))
+    }
+
+    for (const folder of new Set(this.options.getProjectFolders())) {
+      const project = readProjectMcpConfig(folder)
+      for (const [name, config] of Object.entries(project.servers)) {
+        const id = `${folder}#${name}`
+        const enabled = project.overrides[name] ?? config.enabled ?? true
+        configured.set(id, createServer(id, name, "project", config, enabled, folder))
+      }
+    }
+    return configured
+  }
+
+  private publish(server: McpServerHealth, removed = false): void {
+    this.options.eventBus.publish({
+      type: "mcp.statusChanged",
+      server: structuredClone(server),
+      ...(removed ? { removed } : {}),
+      timestamp: Date.now(),
+    })
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createServer(
+  id: string,
+  name: string,
+  scope: McpServerHealth["scope"],
+  config: McpServerConfig,
+  enabled: boolean,
+  folder?: string,
+): SupervisedServer {
+  return {
+    config,
+    configKey: JSON.stringify(config),
+    enabled,
+    health: {
+      id,
+      name,
+      scope,
+      ...(folder ? { folder } : {}),
+      type: config.type,
+      status: enabled ? "unknown" : "disabled",
+      consecutiveFailures: 0,
+      history: [],
+      tools: [],
+      resources: [],
+      prompts: [],
+    },
+  }
+}
+
+export function statusAfterProbe(health: McpServerHealth, probe: McpProbeRecord): McpServerHealthStatus {
+  if (probe.ok) {
+    return probe.latencyMs > SLOW_PROBE_MS ? "degraded" : "healthy"
+  }
+  // A server that has never answered is down right away; one that was
+  // answering gets a grace probe before it is reported down
+  if (health.lastSuccessAt === undefined || health.consecutiveFailures >= FAILURES_BEFORE_DOWN) {
+    return "down"
+  }
+  return "degraded"
+}
+
+function toInventoryTool(tool: { name: string; description?: string }, serverName: string): McpInventoryTool {
+  const manual = createMcpToolManual(tool.name, serverName, tool)
+  return {
+    name: tool.name,
+    description: tool.description,
+    category: manual.category,
+    riskLevel: manual.riskLevel,
+    mutating: manual.mutating,
+    tokenCost: manual.tokenCost,
+  }
+}
+
+/** Fields whose change is worth an event; latency alone is not */
+function snapshot(health: McpServerHealth): string {
+  return JSON.stringify([
+    health.status,
+    health.lastError ?? null,
+    health.serverInfo ?? null,
+    health.tools.map((tool) => [tool.name, tool.description ?? null]),
+    health.resources.map((resource) => resource.uri),
+    health.prompts.map((prompt) => prompt.name),
+  ])
+}
@@ -0,0 +1,706 @@
+/**
+ * Plan Runner
+ *
+ * Executes a workflow formula as a plan: the formula's `dependsOn` graph is
+ * resolved into waves, and ready steps are launched up to the formula's
+ * `parallelism`. Steps either run a shell command in the project folder or
+ * send a prompt to an agent in a workspace session. Steps marked
+ * `gate: "human"` pause the plan until someone approves or rejects them; with
+ * a GateService attached each waiting step opens a gate, and the gate's
+ * decision (or timeout, which counts as a rejection) is applied to the step.
+ *
+ * Every transition is checkpointed to `<project>/.era/plans/<planId>.json`
+ * and published on the EventBus as `plan.stepStatus`. Plans interrupted by a
+ * server restart are reloaded lazily as "paused" and can be resumed.
+ */
+import { spawn, type ChildProcess } from "node:child_process"
+import * as crypto from "node:crypto"
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { Agent, fetch } from "undici"
+import type { EventBus } from "../events/bus"
+import type { Logger } from "../logger"
+import type { WorkspaceManager } from "../workspaces/manager"
+import type {
+  PlanCheckpoint,
+  PlanRun,
+  PlanStatus,
+  PlanStepDetail,
+  GateEntry,
+  PlanStepState,
+  StartPlanRequest,
+  WorkflowFormula,
+  FormulaStep,
+} from "../api-types"
+import { computeParallelGroups, interpolate, validateVariables, type FormulaLoader } from "./formula-loader"
+import type { GateService } from "./gate-service"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface PlanRunnerOptions {
+  eventBus: EventBus
+  logger: Logger
+  workspaceManager: WorkspaceManager
+  formulaLoader: FormulaLoader
+  gateService?: GateService
+}
+
+/** On-disk checkpoint: the run plus the formula snapshot it was started from. */
+interface PlanRecord extends PlanRun {
+  formula: WorkflowFormula
+}
+
+interface ActivePlan {
+  record: PlanRecord
+  /** Running shell processes / agent requests, keyed by step id */
+  running: Map<string, { cancel: () => void }>
+  /** Set once a step fails without `continueOnError`; no new steps are started */
+  failing: boolean
+}
+
+export class PlanRunnerError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly issues?: string[],
+  ) {
+    super(message)
+    this.name = "PlanRunnerError"
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const PLANS_DIR = path.join(".era", "plans")
+const PLAN_ID_PATTERN = /^plan_[A-Za-z0-9_-]+$/
+const OUTPUT_TAIL_BYTES = 16 * 1024
+const DEFAULT_SHELL_TIMEOUT_MS = 30 * 60 * 1000
+const INSTANCE_HOST = "127.0.0.1"
+// Agent turns can run for a long time; the step timeout is enforced separately
+const AGENT_DISPATCHER = new Agent({ bodyTimeout: 0, headersTimeout: 0 })
+const TERMINAL_STEP_STATUSES = new Set(["completed", "failed", "skipped", "rolled-back"])
+const CHECKPOINT_ACTIONS = new Set(["test", "build", "lint"])
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class PlanRunner {
+  private readonly plans = new Map<string, ActivePlan>()
+  private readonly writeQueues = new Map<string, Promise<void>>()
+
+  private readonly detachGates?: () => void
+
+  constructor(private readonly options: PlanRunnerOptions) {
+    this.detachGates = options.gateService?.onResolved((gate) => void this.handleGateResolved(gate))
+  }
+
+  /**
+   * Validate variables against the formula and start executing it.
+   */
+  async start(request: StartPlanRequest): Promise<PlanRun> {
+    const formula = await this.options.formulaLoader.get(request.folder, request.formula)
+    if (!formula) {
+      throw new PlanRunnerError(`Formula "${request.formula}" not found`, 404)
+    }
+
+    const validation = validateVariables(formula, request.variables)
+    if (!validation.ok) {
+      throw new PlanRunnerError("Invalid formula variables", 400, validation.errors)
+    }
+
+    const groups = computeParallelGroups(formula.steps)
+    const planId = `plan_${Date.now().toString(36)}_${crypto.randomBytes(3).toString("hex")}`
+    const now = new Date().toISOString()
+
+    const record: PlanRecord = {
+      id: planId,
+      folder: path.resolve(request.folder),
+      formulaName: formula.name,
+      formulaSource: formula.source,
+      status: "running",
+      variables: validation.values,
+      parallelism: formula.parallelism,
+      steps: formula.steps.map((step) => ({
+        id: `${planId}:${step.id}`,
+        stepId: step.id,
+        name: step.name,
+        action: step.action,
+        kind: step.run ? "shell" : step.prompt ? "agent" : "gate",
+        status: "pending",
+        dependsOn: step.dependsOn ?? [],
+        parallelGroup: groups.get(step.id) ?? 0,
+        gateType: step.gate,
+      })),
+      checkpoints: [],
+      details: [],
+      workspaceId: request.workspaceId,
+      sessionId: request.sessionId,
+      createdAt: now,
+      updatedAt: now,
+      formula,
+    }
+
+    const active: ActivePlan = { record, running: new Map(), failing: false }
+    this.plans.set(planId, active)
+    this.options.logger.info({ planId, formula: formula.name, folder: record.folder }, "Starting plan")
+    await this.persist(record)
+    this.pump(active)
+    return toRun(record)
+  }
+
+  async get(planId: string, folder?: string): Promise<PlanRun | undefined> {
+    const active = await this.load(planId, folder)
+    return active ? toRun(active.record) : undefined
+  }
+
+  /** Plans for a project, newest first (in-memory and checkpointed). */
+  async list(folder: string): Promise<PlanRun[]> {
+    const root = path.resolve(folder)
+    const dir = path.join(root, PLANS_DIR)
+    let entries: string[] = []
+    try {
+      entries = await fs.promises.readdir(dir)
+    } catch {
+      // No plans checkpointed yet
+    }
+
+    const runs = new Map<string, PlanRun>()
+    for (const entry of entries) {
+      if (!entry.endsWith(".json")) continue
+      const active = await this.load(path.basename(entry, ".json"), root)
+      if (active) runs.set(active.record.id, toRun(active.record))
+    }
+    for (const active of this.plans.values()) {
+      if (active.record.folder === root) runs.set(active.record.id, toRun(active.record))
+    }
+    return Array.from(runs.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  /**
+   * Approve or reject a step waiting on a human gate.
+   */
+  async decideGate(
+    planId: string,
+    stepId: string,
+    decision: { approved: boolean; comment?: string },
+    folder?: string,
+  ): Promise<PlanRun> {
+    const active = await this.requirePlan(planId, folder)
+    const step = active.record.steps.find((entry) => entry.stepId === stepId)
+    if (!step) throw new PlanRunnerError(`Step "${stepId}" not found`, 404)
+    if (step.status !== "waiting") throw new PlanRunnerError(`Step "${stepId}" is not waiting for approval`, 409)
+
+    this.applyGateDecision(active, step, decision)
+
+    // Close the step's gate too; its listener sees the step is no longer waiting and ignores it
+    const gate = this.options.gateService?.findWaiting(planId, stepId)
+    if (gate) {
+      if (decision.approved) this.options.gateService!.approve(gate.id, { comment: decision.comment })
+      else this.options.gateService!.reject(gate.id, { comment: decision.comment })
+    }
+    return toRun(active.record)
+  }
+
+  async cancel(planId: string, folder?: string): Promise<PlanRun> {
+    const active = await this.requirePlan(planId, folder)
+    if (isFinished(active.record.status)) return toRun(active.record)
+
+    this.options.logger.info({ planId }, "Cancelling plan")
+    active.record.status = "cancelled"
+    active.record.finishedAt = new Date().toISOString()
+    for (const { cancel } of active.running.values()) cancel()
+    for (const step of active.record.steps) {
+      if (step.status === "pending" || step.status === "waiting") {
+        this.transition(active, step, { status: "skipped" })
+      }
+    }
+    for (const gate of this.options.gateService?.list({ planId, status: "waiting" }) ?? []) {
+      this.options.gateService!.cancel(gate.id, "Plan cancelled")
+    }
+    await this.persist(active.record)
+    return toRun(active.record)
+  }
+
+  /**
+   * Continue a paused or interrupted plan. Failed steps are retried.
+   */
+  async resume(planId: string, folder?: string): Promise<PlanRun> {
+    const active = await this.requirePlan(planId, folder)
+    if (active.record.status === "completed" || active.record.status === "cancelled") {
+      throw new PlanRunnerError(`Plan is ${active.record.status}`, 409)
+    }
+
+    active.failing = false
+    active.record.status = "running"
+    active.record.finishedAt = undefined
+    for (const step of active.record.steps) {
+      if (step.status === "failed" || step.status === "skipped") {
+        this.transition(active, step, { status: "pending", error: undefined, exitCode: undefined })
+      }
+    }
+    this.pump(active)
+    return toRun(active.record)
+  }
+
+  /** Stop running steps; their plans stay checkpointed for a later resume. */
+  shutdown(): void {
+    this.detachGates?.()
+    for (const active of this.plans.values()) {
+      for (const { cancel } of active.running.values()) cancel()
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Scheduling
+  // -------------------------------------------------------------------------
+
+  private pump(active: ActivePlan) {
+    const { record } = active
+    if (record.status !== "running") return
+
+    const byId = new Map(record.steps.map((step) => [step.stepId, step]))
+    const definitions = new Map(record.formula.steps.map((step) => [step.id, step]))
+
+    const ordered = record.steps
+      .filter((step) => step.status === "pending")
+      .sort((a, b) => a.parallelGroup - b.parallelGroup)
+
+    for (const step of ordered) {
+      if (active.failing) {
+        this.transition(active, step, { status: "skipped" })
+        continue
+      }
+
+      const dependencies = step.dependsOn.map((id) => byId.get(id)!)
+      const blocked = dependencies.some(
+        (dep) => dep.status === "skipped" || (dep.status === "failed" && !definitions.get(dep.stepId)?.continueOnError),
+      )
+      if (blocked) {
+        this.transition(active, step, { status: "skipped" })
+        continue
+      }
+      if (!dependencies.every((dep) => TERMINAL_STEP_STATUSES.has(dep.status))) continue
+
+      const definition = definitions.get(step.stepId)!
+      const approved = record.details.find((detail) => detail.stepId === step.stepId)?.gate?.approved
+      if (definition.gate === "human" && !approved) {
+        this.transition(active, step, { status: "waiting" })
+        this.openGate(active, step, definition)
+        continue
+      }
+
+      if (active.running.size >= record.parallelism) continue
+      this.launch(active, step, definition)
+    }
+
+    this.refreshPlanStatus(active)
+    void this.persist(record)
+  }
+
+  private launch(active: ActivePlan, step: PlanStepState, definition: FormulaStep) {
+    const startedAt = Date.now()
+    this.transition(active, step, {
+      status: "running",
+      startedAt: new Date(startedAt).toISOString(),
+      finishedAt: undefined,
+      error: undefined,
+      output: undefined,
+    })
+
+    const execution =
+      step.kind === "shell"
+        ? this.runShell(active, step, definition)
+        : step.kind === "agent"
+          ? this.runAgent(active, step, definition)
+          : Promise.resolve({ ok: true, output: "" } as StepOutcome)
+
+    void execution
+      .catch((err): StepOutcome => ({ ok: false, output: "", error: err instanceof Error ? err.message : String(err) }))
+      .then((outcome) => {
+        active.running.delete(step.stepId)
+        if (active.record.status === "cancelled") {
+          this.transition(active, step, { status: "skipped", finishedAt: new Date().toISOString(), output: outcome.output })
+          return
+        }
+
+        const finishedAt = new Date().toISOString()
+        this.updateDetail(active, step.stepId, { timeElapsedMs: Date.now() - startedAt, sessionId: outcome.sessionId })
+        this.recordCheckpoint(active, step, outcome.output)
+
+        if (!outcome.ok && !definition.continueOnError) {
+          active.failing = true
+        }
+        this.transition(active, step, {
+          status: outcome.ok ? "completed" : "failed",
+          finishedAt,
+          exitCode: outcome.exitCode,
+          error: outcome.error,
+          output: outcome.output,
+        })
+        this.pump(active)
+      })
+  }
+
+  private applyGateDecision(active: ActivePlan, step: PlanStepState, decision: { approved: boolean; comment?: string }) {
+    this.updateDetail(active, step.stepId, {
+      gate: { approved: decision.approved, comment: decision.comment, decidedAt: new Date().toISOString() },
+    })
+
+    if (!decision.approved) {
+      active.failing = true
+      this.transition(active, step, {
+        status: "failed",
+        finishedAt: new Date().toISOString(),
+        error: decision.comment ? `Rejected: ${decision.comment}` : "Rejected",
+      })
+    } else if (step.kind === "gate") {
+      this.transition(active, step, { status: "completed", finishedAt: new Date().toISOString() })
+    } else {
+      // Approved work steps go back to the queue and run on the next pump
+      this.transition(active, step, { status: "pending" })
+    }
+
+    // Let the scheduler run again: either to start the approved step or to skip the rest after a rejection
+    if (active.record.status === "paused") {
+      active.record.status = "running"
+    }
+    this.pump(active)
+  }
+
+  private openGate(active: ActivePlan, step: PlanStepState, definition: FormulaStep) {
+    const gates = this.options.gateService
+    if (!gates || gates.findWaiting(active.record.id, step.stepId)) return
+    gates.create({
+      type: "human",
+      source: "plan",
+      title: `${active.record.formulaName}: ${step.name}`,
+      description: definition.run ?? definition.prompt,
+      folder: active.record.folder,
+      planId: active.record.id,
+      stepId: step.stepId,
+      sessionId: active.record.sessionId,
+      waiters: [active.record.id],
+      metadata: { formula: active.record.formulaName, kind: step.kind },
+    })
+  }
+
+  private async handleGateResolved(gate: GateEntry) {
+    if (gate.source !== "plan" || !gate.planId || !gate.stepId || gate.status === "cancelled") return
+    const active = await this.load(gate.planId, gate.folder)
+    const step = active?.record.steps.find((entry) => entry.stepId === gate.stepId)
+    // Decisions made through decideGate() have already been applied
+    if (!active || !step || step.status !== "waiting") return
+
+    const comment = gate.status === "timed-out" ? "Approval timed out" : gate.resolution?.comment
+    this.options.logger.info({ planId: gate.planId, stepId: gate.stepId, status: gate.status }, "Applying gate decision")
+    this.applyGateDecision(active, step, { approved: gate.status === "resolved", comment })
+  }
+
+  private refreshPlanStatus(active: ActivePlan) {
+    const { record } = active
+    if (record.status === "cancelled") return
+
+    const steps = record.steps
+    const definitions = new Map(record.formula.steps.map((step) => [step.id, step]))
+    let next: PlanStatus = record.status
+
+    if (steps.some((step) => step.status === "running")) {
+      next = "running"
+    } else if (steps.every((step) => TERMINAL_STEP_STATUSES.has(step.status))) {
+      const failed = steps.some((step) => step.status === "failed" && !definitions.get(step.stepId)?.continueOnError)
+      next = failed || steps.some((step) => step.status === "skipped") ? "failed" : "completed"
+    } else if (steps.some((step) => step.status === "waiting")) {
+      next = "paused"
+    }
+
+    if (next !== record.status) {
+      record.status = next
+      if (isFinished(next)) {
+        record.finishedAt = new Date().toISOString()
+        this.options.logger.info({ planId: record.id, status: next }, "Plan finished")
+      }
+    }
+  }
+
+  private transition(active: ActivePlan, step: PlanStepState, patch: Partial<PlanStepState>) {
+    Object.assign(step, patch)
+    active.record.updatedAt = new Date().toISOString()
+    this.refreshPlanStatus(active)
+    void this.persist(active.record)
+
+    this.options.eventBus.publish({
+      type: "plan.stepStatus",
+      planId: active.record.id,
+      folder: active.record.folder,
+      planStatus: active.record.status,
+      step: { ...step },
+      timestamp: Date.now(),
+    })
+  }
+
+  private updateDetail(active: ActivePlan, stepId: string, patch: Partial<PlanStepDetail>) {
+    const details = active.record.details
+    const existing = details.find((detail) => detail.stepId === stepId)
+    const cleaned = Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined))
+    if (existing) {
+      Object.assign(existing, cleaned)
+    } else {
+      details.push({ stepId, ...cleaned })
+    }
+  }
+
+  private recordCheckpoint(active: ActivePlan, step: PlanStepState, output: string) {
+    const type = CHECKPOINT_ACTIONS.has(step.action) ? (step.action as PlanCheckpoint["type"]) : "step"
+    const checkpoint: PlanCheckpoint = { stepId: step.stepId, type, createdAt: new Date().toISOString(), ...parseCounts(output) }
+    const checkpoints = active.record.checkpoints.filter((entry) => entry.stepId !== step.stepId)
+    checkpoints.push(checkpoint)
+    active.record.checkpoints = checkpoints
+  }
+
+  // -------------------------------------------------------------------------
+  // Step execution
+  // -------------------------------------------------------------------------
+
+  private runShell(active: ActivePlan, step: PlanStepState, definition: FormulaStep): Promise<StepOutcome> {
+    const { record } = active
+    const command = interpolate(definition.run!, record.variables, "shell")
+    const env: NodeJS.ProcessEnv = { ...process.env, ERA_PLAN_ID: record.id, ERA_PLAN_STEP: step.stepId }
+    for (const [name, value] of Object.entries(record.variables)) {
+      env[`ERA_VAR_${name.replace(/[^A-Za-z0-9_]/g, "_").toUpperCase()}`] = String(value)
+    }
+
+    return new Promise((resolve) => {
+      let output = ""
+      let timedOut = false
+      let child: ChildProcess
+      try {
+        child = spawn(command, { cwd: record.folder, env, shell: true, stdio: ["ignore", "pipe", "pipe"] })
+      } catch (err) {
+        resolve({ ok: false, output: "", error: err instanceof Error ? err.message : String(err) })
+        return
+      }
+
+      const append = (chunk: Buffer) => {
+        output = tail(output + chunk.toString("utf-8"))
+      }
+      child.stdout?.on("data", append)
+      child.stderr?.on("data", append)
+
+      const timer = setTimeout(() => {
+        timedOut = true
+        child.kill("SIGTERM")
+      }, definition.timeoutMs ?? DEFAULT_SHELL_TIMEOUT_MS)
+
+      active.running.set(step.stepId, { cancel: () => child.kill("SIGTERM") })
+
+      child.on("error", (err) => {
+        clearTimeout(timer)
+        resolve({ ok: false, output, error: err.message })
+      })
+      child.on("close", (code, signal) => {
+        clearTimeout(timer)
+        if (timedOut) {
+          resolve({ ok: false, output, exitCode: code, error: `Timed out after ${definition.timeoutMs ?? DEFAULT_SHELL_TIMEOUT_MS}ms` })
+        } else if (code === 0) {
+          resolve({ ok: true, output, exitCode: code })
+        } else {
+          resolve({ ok: false, output, exitCode: code, error: signal ? `Terminated by ${signal}` : `Exited with code ${code}` })
+        }
+      })
+    })
+  }
+
+  private async runAgent(active: ActivePlan, step: PlanStepState, definition: FormulaStep): Promise<StepOutcome> {
+    const { record } = active
+    const workspace = record.workspaceId
+      ? this.options.workspaceManager.get(record.workspaceId)
+      : this.options.workspaceManager.findByPath(record.folder)
+    const port = workspace ? this.options.workspaceManager.getInstancePort(workspace.id) : undefined
+    if (!workspace || !port) {
+      return { ok: false, output: "", error: "No running workspace for this project; open it before running agent steps" }
+    }
+    record.workspaceId = workspace.id
+
+    const controller = new AbortController()
+    active.running.set(step.stepId, { cancel: () => controller.abort() })
+    const timer = definition.timeoutMs ? setTimeout(() => controller.abort(), definition.timeoutMs) : undefined
+    const baseUrl = `http://${INSTANCE_HOST}:${port}`
+
+    try {
+      if (!record.sessionId) {
+        const session = await postJson<{ id: string }>(`${baseUrl}/session`, { title: `Plan: ${record.formulaName}` }, controller.signal)
+        record.sessionId = session.id
+      }
+
+      const body: Record<string, unknown> = {
+        parts: [{ type: "text", text: interpolate(definition.prompt!, record.variables, "text") }],
+      }
+      if (definition.agent) body.agent = definition.agent
+      if (definition.model?.includes("/")) {
+        const [providerID, ...rest] = definition.model.split("/")
+        body.model = { providerID, modelID: rest.join("/") }
+      }
+
+      const response = await postJson<AgentMessageResponse>(
+        `${baseUrl}/session/${encodeURIComponent(record.sessionId)}/message`,
+        body,
+        controller.signal,
+      )
+      const output = tail(
+        (response.parts ?? [])
+          .filter((part) => part.type === "text" && typeof part.text === "string")
+          .map((part) => part.text)
+          .join("\n"),
+      )
+      const error = response.info?.error
+      if (error) {
+        return { ok: false, output, sessionId: record.sessionId, error: error.data?.message ?? error.name ?? "Agent step failed" }
+      }
+      return { ok: true, output, sessionId: record.sessionId }
+    } catch (err) {
+      const aborted = controller.signal.aborted
+      return {
+        ok: false,
+        output: "",
+        sessionId: record.sessionId,
+        error: aborted ? "Agent step was interrupted" : err instanceof Error ? err.message : String(err),
+      }
+    } finally {
+      if (timer) clearTimeout(timer)
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Persistence
+  // -------------------------------------------------------------------------
+
+  private async requirePlan(planId: string, folder?: string): Promise<ActivePlan> {
+    const active = await this.load(planId, folder)
+    if (!active) throw new PlanRunnerError(`Plan "${planId}" not found`, 404)
+    return active
+  }
+
+  private async load(planId: string, folder?: string): Promise<ActivePlan | undefined> {
+    const existing = this.plans.get(planId)
+    if (existing) return existing
+    if (!folder || !PLAN_ID_PATTERN.test(planId)) return undefined
+
+    let record: PlanRecord
+    try {
+      record = JSON.parse(await fs.promises.readFile(planFile(path.resolve(folder), planId), "utf-8")) as PlanRecord
+    } catch {
+      return undefined
+    }
+
+    // A plan that was mid-flight when the server stopped: running steps start over on resume
+    if (record.status === "running" || record.status === "pending") {
+      for (const step of record.steps) {
+        if (step.status === "running") {
+          step.status = "pending"
+          step.error = "Interrupted by server restart"
+        }
+      }
+      record.status = "paused"
+    }
+
+    const active: ActivePlan = {
+      record,
+      running: new Map(),
+      failing: record.status === "failed",
+    }
+    this.plans.set(planId, active)
+
+    const definitions = new Map(record.formula.steps.map((step) => [step.id, step]))
+    for (const step of record.steps) {
+      if (step.status === "waiting") this.openGate(active, step, definitions.get(step.stepId)!)
+    }
+    return active
+  }
+
+  private persist(record: PlanRecord): Promise<void> {
+    const filePath = planFile(record.folder, record.id)
+    const previous = this.writeQueues.get(filePath) ?? Promise.resolve()
+    const next = previous
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+        const tempPath = `${filePath}.tmp`
+        await fs.promises.writeFile(tempPath, JSON.stringify(record, null, 2), "utf-8")
+        await fs.promises.rename(tempPath, filePath)
+      })
+      .catch((err) => {
+        this.options.logger.warn({ err, planId: record.id }, "Failed to checkpoint plan")
+      })
+    this.writeQueues.set(filePath, next)
+    void next.then(() => {
+      if (this.writeQueues.get(filePath) === next) this.writeQueues.delete(filePath)
+    })
+    return next
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface StepOutcome {
+  ok: boolean
+  output: string
+  exitCode?: number | null
+  error?: string
+  sessionId?: string
+}
+
+interface AgentMessageResponse {
+  info?: { error?: { name?: string; data?: { message?: string } } }
+  parts?: Array<{ type: string; text?: string }>
+}
+
+function planFile(folder: string, planId: string): string {
+  return path.join(folder, PLANS_DIR, `${planId}.json`)
+}
+
+function toRun(record: PlanRecord): PlanRun {
+  const { formula: _formula, ...run } = record
+  return structuredClone(run)
+}
+
+function isFinished(status: PlanStatus): boolean {
+  return status === "completed" || status === "failed" || status === "cancelled" || status === "rolled-back"
+}
+
+function tail(text: string): string {
+  return text.length > OUTPUT_TAIL_BYTES ? text.slice(text.length - OUTPUT_TAIL_BYTES) : text
+}
+
+/** Pull pass/fail/warning counts out of common test runner and linter summaries. */
+function parseCounts(output: string): Pick<PlanCheckpoint, "passed" | "failed" | "warnings"> {
+  const last = (pattern: RegExp): number | undefined => {
+    const matches = Array.from(output.matchAll(pattern))
+    return matches.length > 0 ? Number(matches[matches.length - 1][1]) : undefined
+  }
+  return {
+    passed: last(/(\d+)\s+(?:passed|passing)\b/gi) ?? last(/^# pass\s+(\d+)/gim),
+    failed: last(/(\d+)\s+(?:failed|failing)\b/gi) ?? last(/^# fail\s+(\d+)/gim),
+    warnings: last(/(\d+)\s+warnings?\b/gi),
+  }
+}
+
+async function postJson<T>(url: string, body: unknown, signal: AbortSignal): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+    dispatcher: AGENT_DISPATCHER,
+  })
+  if (!response.ok) {
+    const text = await response.text().catch(() => "")
+    throw new Error(`Instance request failed (${response.status})${text ? `: ${text.slice(0, 200)}` : ""}`)
+  }
+  return (await response.json()) as T
+}
@@ -0,0 +1,167 @@
+/**
+ * Project MCP Config
+ *
+ * Per-project MCP configuration stored in `<project>/.era/mcp.json`:
+ * - `servers`: MCP servers only this project uses. A project server with the
+ *   same name as a global or era-code server replaces its config.
+ * - `overrides`: project-wide enable/disable of servers defined elsewhere.
+ *
+ * The UI layers era-code defaults, the global `mcpRegistry` preference, this
+ * file and per-session toggles (in that order) into the servers applied to an
+ * instance.
+ */
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { Mutex } from "async-mutex"
+import type { Logger } from "../logger"
+import { McpServerConfigSchema, type McpServerConfig } from "../config/schema"
+import type { ProjectMcpConfigResponse } from "../api-types"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ProjectMcpConfigServiceOptions {
+  logger: Logger
+}
+
+export interface ProjectMcpConfig {
+  servers: Record<string, McpServerConfig>
+  overrides: Record<string, boolean>
+}
+
+export class ProjectMcpConfigError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message)
+    this.name = "ProjectMcpConfigError"
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const PROJECT_MCP_FILE = path.join(".era", "mcp.json")
+
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9._-]+$/
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class ProjectMcpConfigService {
+  private readonly locks = new Map<string, Mutex>()
+
+  constructor(private readonly options: ProjectMcpConfigServiceOptions) {}
+
+  get(folder: string): ProjectMcpConfigResponse {
+    const root = requireProjectFolder(folder)
+    return { folder: root, path: path.join(root, PROJECT_MCP_FILE), ...readProjectMcpConfig(root) }
+  }
+
+  async setServer(folder: string, name: string, config: McpServerConfig): Promise<ProjectMcpConfigResponse> {
+    requireServerName(name)
+    return this.update(folder, (current) => {
+      current.servers[name] = config
+    })
+  }
+
+  async removeServer(folder: string, name: string): Promise<ProjectMcpConfigResponse> {
+    return this.update(folder, (current) => {
+      if (!(name in current.servers)) {
+        throw new ProjectMcpConfigError(`MCP server "${name}" is not configured for this project`, 404)
+      }
+      delete current.servers[name]
+    })
+  }
+
+  /** Enable or disable a server for the whole project; `null` clears the override */
+  async setOverride(folder: string, name: string, enabled: boolean | null): Promise<ProjectMcpConfigResponse> {
+    requireServerName(name)
+    return this.update(folder, (current) => {
+      if (enabled === null) {
+        delete current.overrides[name]
+      } else {
+        current.overrides[name] = enabled
+      }
+    })
+  }
+
+  private async update(folder: string, mutate: (config: ProjectMcpConfig) => void): Promise<ProjectMcpConfigResponse> {
+    const root = requireProjectFolder(folder)
+    const lock = this.locks.get(root) ?? new Mutex()
+    this.locks.set(root, lock)
+
+    return lock.runExclusive(() => {
+      const config = readProjectMcpConfig(root)
+      mutate(config)
+
+      const file = path.join(root, PROJECT_MCP_FILE)
+      fs.mkdirSync(path.dirname(file), { recursive: true })
+      const tmp = `${file}.${process.pid}.tmp`
+      fs.writeFileSync(tmp, JSON.stringify(config, null, 2) + "\n", "utf-8")
+      fs.renameSync(tmp, file)
+
+      this.options.logger.info(
+        { folder: root, servers: Object.keys(config.servers).length, overrides: Object.keys(config.overrides).length },
+        "Project MCP config saved",
+      )
+      return { folder: root, path: file, ...config }
+    })
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a project's MCP config. Missing or unreadable files yield an empty
+ * config, and invalid server entries are skipped rather than failing the
+ * whole file.
+ */
+export function readProjectMcpConfig(folder: string): ProjectMcpConfig {
+  const config: ProjectMcpConfig = { servers: {}, overrides: {} }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(fs.readFileSync(path.join(folder, PROJECT_MCP_FILE), "utf-8"))
+  } catch {
+    return config
+  }
+  if (!raw || typeof raw !== "object") return config
+
+  const { servers, overrides } = raw as { servers?: unknown; overrides?: unknown }
+  if (servers && typeof servers === "object") {
+    for (const [name, value] of Object.entries(servers)) {
+      const parsed = McpServerConfigSchema.safeParse(value)
+      if (parsed.success) config.servers[name] = parsed.data
+    }
+  }
+  if (overrides && typeof overrides === "object") {
+    for (const [name, value] of Object.entries(overrides)) {
+      if (typeof value === "boolean") config.overrides[name] = value
+    }
+  }
+  return config
+}
+
+function requireProjectFolder(folder: string): string {
+  if (!folder || !path.isAbsolute(folder)) {
+    throw new ProjectMcpConfigError("folder must be an absolute path", 400)
+  }
+  const root = path.resolve(folder)
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new ProjectMcpConfigError("Project folder not found", 404)
+  }
+  return root
+}
+
+function requireServerName(name: string): void {
+  if (!SERVER_NAME_PATTERN.test(name)) {
+    throw new ProjectMcpConfigError("Server names may only contain letters, digits, '.', '_' and '-'", 400)
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Prompt Templates
+ *
+ * Reusable prompts stored as Markdown files, one per template, in the same
+ * layout OpenCode uses for commands:
+ * - `<project>/.era/templates/*.md` (source "project", meant to be committed)
+ * - `~/.era/era-code/templates/*.md` (source "global")
+ *
+ * An optional front matter block holds the description:
+ *
+ *   ---
+ *   description: Review a file for a given concern
+ *   ---
+ *   Review {{file}} with a focus on {{concern:error handling}}.
+ *
+ * A project template shadows a global template with the same name. The UI
+ * resolves placeholders; this service only stores the text.
+ */
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import type { Logger } from "../logger"
+import type {
+  PromptTemplate,
+  PromptTemplateLoadError,
+  PromptTemplateSource,
+  PromptTemplatesResponse,
+} from "../api-types"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface PromptTemplateLibraryOptions {
+  logger: Logger
+  /** Directory holding global templates */
+  globalDir?: string
+}
+
+export interface PromptTemplateInput {
+  name: string
+  source: PromptTemplateSource
+  /** Required for project templates */
+  folder?: string
+  description: string
+  body: string
+}
+
+export class PromptTemplateError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message)
+    this.name = "PromptTemplateError"
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const PROJECT_TEMPLATE_DIR = path.join(".era", "templates")
+const DEFAULT_GLOBAL_DIR = path.join(os.homedir(), ".era", "era-code", "templates")
+const TEMPLATE_NAME = /^[A-Za-z0-9_.-]+$/
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/
+
+// ---------------------------------------------------------------------------
+// Library
+// ---------------------------------------------------------------------------
+
+export class PromptTemplateLibrary {
+  private readonly globalDir: string
+
+  constructor(private readonly options: PromptTemplateLibraryOptions) {
+    this.globalDir = options.globalDir ?? DEFAULT_GLOBAL_DIR
+  }
+
+  async list(folder?: string): Promise<PromptTemplatesResponse> {
+    const errors: PromptTemplateLoadError[] = []
+    const byName = new Map<string, PromptTemplate>()
+
+    const sources: Array<[string, PromptTemplateSource]> = [[this.globalDir, "global"]]
+    if (folder) sources.push([path.join(folder, PROJECT_TEMPLATE_DIR), "project"])
+
+    // Later sources shadow earlier ones, so project templates win over global ones
+    for (const [dir, source] of sources) {
+      for (const template of await this.readDirectory(dir, source, errors)) {
+        byName.set(template.name, template)
+      }
+    }
+
+    const templates = Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name))
+    return { templates, errors }
+  }
+
+  /** Create or overwrite a template */
+  async save(input: PromptTemplateInput): Promise<PromptTemplate> {
+    const filePath = this.resolvePath(input.name, input.source, input.folder)
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+    const tmp = `${filePath}.${process.pid}.tmp`
+    await fs.promises.writeFile(tmp, serializePromptTemplate(input.description, input.body), "utf-8")
+    await fs.promises.rename(tmp, filePath)
+
+    this.options.logger.info({ name: input.name, source: input.source, filePath }, "Prompt template saved")
+    return { name: input.name, description: input.description.trim(), body: input.body, source: input.source, path: filePath }
+  }
+
+  async delete(name: string, source: PromptTemplateSource, folder?: string): Promise<void> {
+    const filePath = this.resolvePath(name, source, folder)
+    try {
+      await fs.promises.unlink(filePath)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new PromptTemplateError(`Template "${name}" not found`, 404)
+      }
+      throw err
+    }
+    this.options.logger.info({ name, source, filePath }, "Prompt template deleted")
+  }
+
+  private resolvePath(name: string, source: PromptTemplateSource, folder?: string): string {
+    if (!TEMPLATE_NAME.test(name)) {
+      throw new PromptTemplateError("Template names may only contain letters, digits, '.', '_' and '-'", 400)
+    }
+    if (source === "global") {
+      return path.join(this.globalDir, `${name}.md`)
+    }
+    if (!folder || !path.isAbsolute(folder)) {
+      throw new PromptTemplateError("folder must be an absolute path for project templates", 400)
+    }
+    const root = path.resolve(folder)
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      throw new PromptTemplateError("Project folder not found", 404)
+    }
+    return path.join(root, PROJECT_TEMPLATE_DIR, `${name}.md`)
+  }
+
+  private async readDirectory(
+    dir: string,
+    source: PromptTemplateSource,
+    errors: PromptTemplateLoadError[],
+  ): Promise<PromptTemplate[]> {
+    let entries: string[]
+    try {
+      entries = await fs.promises.readdir(dir)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.options.logger.warn({ err, dir }, "Failed to list template directory")
+      }
+      return []
+    }
+
+    const templates: PromptTemplate[] = []
+    for (const entry of entries.filter((name) => name.endsWith(".md")).sort()) {
+      const filePath = path.join(dir, entry)
+      const name = path.basename(entry, ".md")
+      if (!TEMPLATE_NAME.test(name)) continue
+      try {
+        const { description, body } = parsePromptTemplate(await fs.promises.readFile(filePath, "utf-8"))
+        templates.push({ name, description, body, source, path: filePath })
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err)
+        errors.push({ path: filePath, error: message })
+        this.options.logger.warn({ filePath, error: message }, "Skipping unreadable template")
+      }
+    }
+    return templates
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Split a template file into its front matter description and body */
+export function parsePromptTemplate(content: string): { description: string; body: string } {
+  const match = content.match(FRONT_MATTER)
+  if (!match) return { description: "", body: content.trim() }
+
+  let description = ""
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^description\s*:\s*(.*)$/)
+    if (field) description = unquote(field[1].trim())
+  }
+  return { description, body: content.slice(match[0].length).trim() }
+}
+
+export function serializePromptTemplate(description: string, body: string): string {
+  const summary = description.replace(/\s+/g, " ").trim()
+  const header = summary ? `---\ndescription: ${summary}\n---\n\n` : ""
+  return `${header}${body.trim()}\n`
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value[value.length - 1] === value[0]) {
+    return value.slice(1, -1)
+  }
+  return value
+}
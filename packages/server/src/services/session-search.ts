@@ -0,0 +1,529 @@
+/**
+ * Session Search
+ *
+ * Full-text search over every session OpenCode has stored, across projects:
+ * 1. On start, sessions, messages and parts are read from OpenCode's storage
+ *    (`~/.local/share/opencode/storage/{session,message,part}`) into an
+ *    in-memory inverted index. Text parts, tool calls (name, input, output,
+ *    file paths) and attached files are indexed.
+ * 2. The index is then kept current from the instance event stream
+ *    (message, part and session updates and removals), so sessions running
+ *    in open workspaces are searchable as they stream.
+ *
+ * Queries match every term (the last one as a prefix), rank parts by
+ * TF-IDF and return a snippet with highlight ranges per hit.
+ */
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import type { EventBus } from "../events/bus"
+import type { Logger } from "../logger"
+import type { SessionSearchHit, SessionSearchResponse, WorkspaceEventPayload } from "../api-types"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface SessionSearchOptions {
+  eventBus: EventBus
+  logger: Logger
+  /** OpenCode storage root (defaults to `~/.local/share/opencode/storage`) */
+  storagePath?: string
+  /** Delay before a streaming part is re-indexed, in ms */
+  reindexDelayMs?: number
+}
+
+export interface SessionSearchQuery {
+  q: string
+  /** Project id or project directory */
+  project?: string
+  sessionId?: string
+  role?: "user" | "assistant"
+  tool?: string
+  /** Inclusive bounds on the message creation time, epoch ms */
+  from?: number
+  to?: number
+  limit?: number
+  offset?: number
+}
+
+/** Subset of a stored OpenCode part we index */
+export interface StoredPart {
+  id: string
+  sessionID: string
+  messageID: string
+  type: string
+  text?: string
+  tool?: string
+  filename?: string
+  url?: string
+  source?: { path?: string }
+  state?: { input?: Record<string, unknown>; output?: unknown; title?: string }
+}
+
+interface StoredMessage {
+  id: string
+  sessionID: string
+  role: "user" | "assistant"
+  time?: { created?: number }
+}
+
+interface StoredSession {
+  id: string
+  projectID: string
+  directory: string
+  title?: string
+  time?: { created?: number; updated?: number }
+}
+
+/** Searchable content of one part */
+export interface PartText {
+  kind: "text" | "tool" | "file"
+  text: string
+  tool?: string
+  files: string[]
+}
+
+interface IndexedPart extends PartText {
+  id: string
+  sessionId: string
+  messageId: string
+  termCounts: Map<string, number>
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_STORAGE_PATH = path.join(os.homedir(), ".local/share/opencode/storage")
+const MAX_INDEXED_CHARS = 20_000
+const MAX_TOOL_OUTPUT_CHARS = 4_000
+const SNIPPET_RADIUS = 80
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+const REINDEX_DELAY_MS = 500
+const TOKEN_PATTERN = /[\p{L}\p{N}_]{2,}/gu
+const PATCH_FILE_PATTERN = /^\*\*\* (?:Add|Update|Delete) File: (.+)$/gm
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class SessionSearchIndex {
+  private readonly storagePath: string
+  private readonly sessions = new Map<string, StoredSession>()
+  private readonly messages = new Map<string, StoredMessage>()
+  private readonly parts = new Map<string, IndexedPart>()
+  private readonly partsByMessage = new Map<string, Set<string>>()
+  private readonly postings = new Map<string, Map<string, number>>()
+  private readonly pendingParts = new Map<string, { part: StoredPart; timer: NodeJS.Timeout }>()
+  private ready: Promise<void> | null = null
+  private indexing = false
+
+  constructor(private readonly options: SessionSearchOptions) {
+    this.storagePath = options.storagePath ?? DEFAULT_STORAGE_PATH
+  }
+
+  /**
+   * Build the index from storage in the background and follow the instance
+   * event stream. Returns a detach function.
+   */
+  attach(): () => void {
+    const handler = (event: WorkspaceEventPayload) => {
+      if (event.type === "instance.event") {
+        this.handleInstanceEvent(event.event.type, event.event.properties ?? {})
+      }
+    }
+    const detach = this.options.eventBus.onEvent(handler)
+    void this.ensureBuilt()
+    return () => {
+      detach()
+      for (const pending of this.pendingParts.values()) clearTimeout(pending.timer)
+      this.pendingParts.clear()
+    }
+  }
+
+  async search(query: SessionSearchQuery): Promise<SessionSearchResponse> {
+    await this.ensureBuilt()
+
+    const terms = tokenize(query.q)
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT)
+    const offset = Math.max(query.offset ?? 0, 0)
+    if (terms.length === 0) {
+      return { results: [], total: 0, indexedParts: this.parts.size, indexing: this.indexing }
+    }
+
+    // Every term must match; the last one may be incomplete while typing
+    let candidates: Map<string, number> | null = null
+    for (let i = 0; i < terms.length; i++) {
+      const matches = i === terms.length - 1 ? this.prefixMatches(terms[i]) : this.exactMatches(terms[i])
+      if (!candidates) {
+        candidates = matches
+        continue
+      }
+      const next = new Map<string, number>()
+      for (const [partId, score] of matches) {
+        const previous = candidates.get(partId)
+        if (previous !== undefined) next.set(partId, previous + score)
+      }
+      candidates = next
+      if (candidates.size === 0) break
+    }
+
+    const hits: SessionSearchHit[] = []
+    for (const [partId, score] of candidates ?? []) {
+      const part = this.parts.get(partId)
+      if (!part) continue
+      const hit = this.toHit(part, score, terms, query)
+      if (hit) hits.push(hit)
+    }
+    hits.sort((a, b) => b.score - a.score || b.createdAt - a.createdAt)
+
+    return {
+      results: hits.slice(offset, offset + limit),
+      total: hits.length,
+      indexedParts: this.parts.size,
+      indexing: this.indexing,
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Index maintenance
+  // -------------------------------------------------------------------------
+
+  private ensureBuilt(): Promise<void> {
+    if (!this.ready) {
+      this.indexing = true
+      const startedAt = Date.now()
+      this.ready = this.buildFromStorage()
+        .then(() =>
+          this.options.logger.info(
+            { sessions: this.sessions.size, parts: this.parts.size, ms: Date.now() - startedAt },
+            "Session search index built",
+          ),
+        )
+        .catch((err) => this.options.logger.warn({ err }, "Failed to build session search index"))
+        .finally(() => {
+          this.indexing = false
+        })
+    }
+    return this.ready
+  }
+
+  /**
+   * Read stored sessions, messages and parts. Entries that events already
+   * indexed are fresher than storage and are left alone.
+   */
+  private async buildFromStorage() {
+    const sessionRoot = path.join(this.storagePath, "session")
+    for (const projectId of await listDir(sessionRoot)) {
+      for (const file of await listDir(path.join(sessionRoot, projectId))) {
+        if (!file.endsWith(".json")) continue
+        const session = await readJson<StoredSession>(path.join(sessionRoot, projectId, file))
+        if (!session?.id || this.sessions.has(session.id)) continue
+        this.sessions.set(session.id, session)
+        await this.loadSessionMessages(session.id)
+      }
+    }
+  }
+
+  private async loadSessionMessages(sessionId: string) {
+    const messageDir = path.join(this.storagePath, "message", sessionId)
+    for (const file of await listDir(messageDir)) {
+      if (!file.endsWith(".json")) continue
+      const message = await readJson<StoredMessage>(path.join(messageDir, file))
+      if (!message?.id) continue
+      if (!this.messages.has(message.id)) this.messages.set(message.id, message)
+
+      const partDir = path.join(this.storagePath, "part", message.id)
+      for (const partFile of await listDir(partDir)) {
+        if (!partFile.endsWith(".json")) continue
+        const part = await readJson<StoredPart>(path.join(partDir, partFile))
+        if (part?.id && !this.parts.has(part.id)) this.indexPart(part)
+      }
+    }
+  }
+
+  private handleInstanceEvent(type: string, properties: Record<string, unknown>) {
+    switch (type) {
+      case "message.part.updated": {
+        const part = properties.part as StoredPart | undefined
+        if (part?.id && part.sessionID && part.messageID) this.scheduleIndex(part)
+        break
+      }
+      case "message.part.removed":
+        if (typeof properties.partID === "string") this.removePart(properties.partID)
+        break
+      case "message.updated": {
+        const info = properties.info as StoredMessage | undefined
+        if (info?.id && info.sessionID) this.messages.set(info.id, info)
+        break
+      }
+      case "message.removed":
+        if (typeof properties.messageID === "string") this.removeMessage(properties.messageID)
+        break
+      case "session.created":
+      case "session.updated": {
+        const info = properties.info as StoredSession | undefined
+        if (info?.id) this.sessions.set(info.id, info)
+        break
+      }
+      case "session.deleted": {
+        const info = properties.info as StoredSession | undefined
+        if (info?.id) this.removeSession(info.id)
+        break
+      }
+      default:
+        break
+    }
+  }
+
+  /** Text parts update on every streamed token; index them once they settle */
+  private scheduleIndex(part: StoredPart) {
+    const pending = this.pendingParts.get(part.id)
+    if (pending) clearTimeout(pending.timer)
+    const timer = setTimeout(() => {
+      this.pendingParts.delete(part.id)
+      this.indexPart(part)
+    }, this.options.reindexDelayMs ?? REINDEX_DELAY_MS)
+    timer.unref?.()
+    this.pendingParts.set(part.id, { part, timer })
+  }
+
+  private indexPart(part: StoredPart) {
+    this.removePart(part.id)
+    const content = extractPartText(part)
+    if (!content) return
+
+    const termCounts = new Map<string, number>()
+    for (const term of tokenize(`${content.text} ${content.files.join(" ")}`)) {
+      termCounts.set(term, (termCounts.get(term) ?? 0) + 1)
+    }
+    this.parts.set(part.id, { ...content, id: part.id, sessionId: part.sessionID, messageId: part.messageID, termCounts })
+    for (const [term, count] of termCounts) {
+      let posting = this.postings.get(term)
+      if (!posting) {
+        posting = new Map()
+        this.postings.set(term, posting)
+      }
+      posting.set(part.id, count)
+    }
+
+    let messageParts = this.partsByMessage.get(part.messageID)
+    if (!messageParts) {
+      messageParts = new Set()
+      this.partsByMessage.set(part.messageID, messageParts)
+    }
+    messageParts.add(part.id)
+  }
+
+  private removePart(partId: string) {
+    const existing = this.parts.get(partId)
+    if (!existing) return
+    for (const term of existing.termCounts.keys()) {
+      const posting = this.postings.get(term)
+      posting?.delete(partId)
+      if (posting?.size === 0) this.postings.delete(term)
+    }
+    this.parts.delete(partId)
+    this.partsByMessage.get(existing.messageId)?.delete(partId)
+  }
+
+  private removeMessage(messageId: string) {
+    for (const partId of this.partsByMessage.get(messageId) ?? []) {
+      this.removePart(partId)
+    }
+    this.partsByMessage.delete(messageId)
+    this.messages.delete(messageId)
+  }
+
+  private removeSession(sessionId: string) {
+    for (const message of Array.from(this.messages.values())) {
+      if (message.sessionID === sessionId) this.removeMessage(message.id)
+    }
+    for (const part of Array.from(this.parts.values())) {
+      if (part.sessionId === sessionId) this.removePart(part.id)
+    }
+    this.sessions.delete(sessionId)
+  }
+
+  // -------------------------------------------------------------------------
+  // Query helpers
+  // -------------------------------------------------------------------------
+
+  private exactMatches(term: string): Map<string, number> {
+    return this.weighted(this.postings.get(term))
+  }
+
+  private prefixMatches(prefix: string): Map<string, number> {
+    const scores = new Map<string, number>()
+    for (const [term, posting] of this.postings) {
+      if (!term.startsWith(prefix)) continue
+      for (const [partId, score] of this.weighted(posting)) {
+        scores.set(partId, Math.max(scores.get(partId) ?? 0, score))
+      }
+    }
+    return scores
+  }
+
+  private weighted(posting: Map<string, number> | undefined): Map<string, number> {
+    const scores = new Map<string, number>()
+    if (!posting) return scores
+    const idf = Math.log(1 + this.parts.size / posting.size)
+    for (const [partId, count] of posting) {
+      scores.set(partId, (1 + Math.log(count)) * idf)
+    }
+    return scores
+  }
+
+  private toHit(part: IndexedPart, score: number, terms: string[], query: SessionSearchQuery): SessionSearchHit | null {
+    const session = this.sessions.get(part.sessionId)
+    const message = this.messages.get(part.messageId)
+    const createdAt = message?.time?.created ?? session?.time?.updated ?? 0
+
+    if (query.sessionId && part.sessionId !== query.sessionId) return null
+    if (query.project && session?.projectID !== query.project && session?.directory !== query.project) return null
+    if (query.role && message?.role !== query.role) return null
+    if (query.tool && part.tool !== query.tool) return null
+    if (query.from !== undefined && createdAt < query.from) return null
+    if (query.to !== undefined && createdAt > query.to) return null
+
+    const { snippet, highlights } = buildSnippet(part.text || part.files.join("\n"), terms)
+    return {
+      sessionId: part.sessionId,
+      sessionTitle: session?.title ?? "",
+      projectId: session?.projectID ?? "",
+      directory: session?.directory ?? "",
+      messageId: part.messageId,
+      partId: part.id,
+      role: message?.role ?? "assistant",
+      kind: part.kind,
+      tool: part.tool,
+      files: part.files,
+      createdAt,
+      snippet,
+      highlights,
+      score: Math.round(score * 1000) / 1000,
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Lowercased word tokens of at least two characters */
+export function tokenize(text: string): string[] {
+  return Array.from(text.toLowerCase().matchAll(TOKEN_PATTERN), (match) => match[0])
+}
+
+/**
+ * Searchable text of a stored part, or null for parts that aren't indexed
+ * (reasoning, step markers, snapshots).
+ */
+export function extractPartText(part: StoredPart): PartText | null {
+  if (part.type === "text") {
+    return part.text ? { kind: "text", text: part.text.slice(0, MAX_INDEXED_CHARS), files: [] } : null
+  }
+
+  if (part.type === "file") {
+    const files = [part.source?.path, part.filename].filter((value): value is string => Boolean(value))
+    const url = part.url && !part.url.startsWith("data:") ? part.url : ""
+    return files.length > 0 || url ? { kind: "file", text: [...files, url].filter(Boolean).join("\n"), files } : null
+  }
+
+  if (part.type === "tool" && part.tool) {
+    const input = part.state?.input ?? {}
+    const files = new Set<string>()
+    for (const key of ["filePath", "path"]) {
+      if (typeof input[key] === "string" && input[key]) files.add(input[key] as string)
+    }
+    if (typeof input.patchText === "string") {
+      for (const match of input.patchText.matchAll(PATCH_FILE_PATTERN)) files.add(match[1].trim())
+    }
+
+    const sections = [part.state?.title, ...collectStrings(input)]
+    if (typeof part.state?.output === "string") sections.push(part.state.output.slice(0, MAX_TOOL_OUTPUT_CHARS))
+    const text = sections.filter(Boolean).join("\n").slice(0, MAX_INDEXED_CHARS)
+    return { kind: "tool", tool: part.tool, text, files: Array.from(files) }
+  }
+
+  return null
+}
+
+/**
+ * A window of text around the first matched term, with [start, end) offsets
+ * of every term match inside it.
+ */
+export function buildSnippet(text: string, terms: string[]): { snippet: string; highlights: Array<[number, number]> } {
+  const lower = text.toLowerCase()
+  const positions = terms
+    .map((term) => findWordPrefix(lower, term, 0))
+    .filter((index) => index !== -1)
+  const first = positions.length > 0 ? Math.min(...positions) : 0
+
+  const start = Math.max(0, first - SNIPPET_RADIUS)
+  const end = Math.min(text.length, first + SNIPPET_RADIUS * 2)
+  const prefix = start > 0 ? "…" : ""
+  const suffix = end < text.length ? "…" : ""
+  const body = text.slice(start, end).replace(/\s+/g, " ")
+  const snippet = `${prefix}${body}${suffix}`
+
+  const highlights: Array<[number, number]> = []
+  const lowerSnippet = snippet.toLowerCase()
+  for (const term of terms) {
+    let index = findWordPrefix(lowerSnippet, term, 0)
+    while (index !== -1) {
+      let stop = index + term.length
+      while (stop < lowerSnippet.length && /[\p{L}\p{N}_]/u.test(lowerSnippet[stop])) stop++
+      highlights.push([index, stop])
+      index = findWordPrefix(lowerSnippet, term, stop)
+    }
+  }
+  highlights.sort((a, b) => a[0] - b[0])
+  return { snippet, highlights: mergeRanges(highlights) }
+}
+
+function findWordPrefix(text: string, term: string, from: number): number {
+  let index = text.indexOf(term, from)
+  while (index > 0 && /[\p{L}\p{N}_]/u.test(text[index - 1])) {
+    index = text.indexOf(term, index + 1)
+  }
+  return index
+}
+
+function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const merged: Array<[number, number]> = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([range[0], range[1]])
+    }
+  }
+  return merged
+}
+
+function collectStrings(value: unknown, depth = 0): string[] {
+  if (typeof value === "string") return [value]
+  if (depth > 3 || value === null || typeof value !== "object") return []
+  const values = Array.isArray(value) ? value : Object.values(value)
+  return values.flatMap((entry) => collectStrings(entry, depth + 1))
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.promises.readdir(dir)
+  } catch {
+    return []
+  }
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, "utf-8")) as T
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Tool File Tracker
+ *
+ * Feeds the conflict detector of each workspace from its instance's tool
+ * calls, so sessions don't have to report the files they touch:
+ * 1. A completed `read` registers a read of the file for the session.
+ * 2. A completed write tool (edit, write, patch, multiedit) registers the
+ *    content it left on disk as the session's write. A write that another
+ *    session's write got in ahead of is flagged as a concurrent-write
+ *    conflict.
+ * 3. Deleting a session drops its tracking.
+ *
+ * Files outside the workspace (e.g. in an isolated session's worktree) are
+ * not tracked.
+ */
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { EventBus } from "../events/bus"
+import type { Logger } from "../logger"
+import type { WorkspaceManager } from "../workspaces/manager"
+import type { WorkspaceEventPayload } from "../api-types"
+import { toolFilePaths } from "./checkpoint-service"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ToolFileTrackerOptions {
+  eventBus: EventBus
+  logger: Logger
+  workspaceManager: WorkspaceManager
+}
+
+interface ToolPart {
+  type?: string
+  tool?: string
+  sessionID?: string
+  state?: { status?: string; input?: Record<string, unknown> }
+}
+
+/** Files a finished tool call read or wrote, relative to the instance's folder or absolute */
+export interface ToolFileAccess {
+  sessionId: string
+  mode: "read" | "write"
+  files: string[]
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const READ_TOOLS = new Set(["read"])
+const WRITE_TOOLS = new Set(["edit", "write", "patch", "multiedit"])
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class ToolFileTracker {
+  constructor(private readonly options: ToolFileTrackerOptions) {}
+
+  attach(): () => void {
+    return this.options.eventBus.onEvent((event: WorkspaceEventPayload) => {
+      if (event.type !== "instance.event") return
+      const properties = event.event.properties ?? {}
+
+      if (event.event.type === "message.part.updated") {
+        const access = toolFileAccess(properties.part as ToolPart | undefined)
+        if (!access) return
+        void this.register(event.instanceId, access).catch((err) =>
+          this.options.logger.warn({ err, instanceId: event.instanceId }, "Failed to register tool file access"),
+        )
+      } else if (event.event.type === "session.deleted") {
+        const sessionId = (properties.info as { id?: string } | undefined)?.id
+        if (sessionId) this.options.workspaceManager.getConflictDetector(event.instanceId)?.unregisterSession(sessionId)
+      }
+    })
+  }
+
+  private async register(instanceId: string, access: ToolFileAccess) {
+    const folder = this.options.workspaceManager.get(instanceId)?.path
+    const detector = this.options.workspaceManager.getConflictDetector(instanceId)
+    if (!folder || !detector) return
+
+    for (const file of access.files) {
+      const absolutePath = path.resolve(folder, file)
+      const relativePath = path.relative(folder, absolutePath)
+      if (!relativePath || relativePath.startsWith("..") || path.isAbsolute(relativePath)) continue
+
+      if (access.mode === "read") {
+        await detector.registerRead(absolutePath, access.sessionId, instanceId)
+        continue
+      }
+
+      // Deleted by a patch; the watcher reports the removal
+      const content = await fs.promises.readFile(absolutePath, "utf8").catch(() => null)
+      if (content === null) continue
+
+      // When the watcher saw the write before this event, the tracker already holds it
+      const tracker = detector.getTracker()
+      const trackedHash = tracker.getTrackedFile(absolutePath)?.currentHash
+      const expectedHash = trackedHash === tracker.computeHash(content) ? trackedHash : undefined
+
+      const result = await detector.registerWrite(absolutePath, access.sessionId, instanceId, content, expectedHash)
+      if (result.conflict) {
+        this.options.logger.info(
+          { instanceId, sessionId: access.sessionId, path: relativePath, conflictId: result.conflict.conflictId },
+          "Tool write conflicts with another session",
+        )
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** The files a completed read or write tool call touched, or null for any other part */
+export function toolFileAccess(part: ToolPart | undefined): ToolFileAccess | null {
+  if (part?.type !== "tool" || !part.tool || !part.sessionID || part.state?.status !== "completed") return null
+
+  const mode = READ_TOOLS.has(part.tool) ? "read" : WRITE_TOOLS.has(part.tool) ? "write" : null
+  if (!mode) return null
+
+  const files = toolFilePaths(part.tool, part.state.input ?? {})
+  return files.length > 0 ? { sessionId: part.sessionID, mode, files } : null
+}
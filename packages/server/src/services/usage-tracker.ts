@@ -0,0 +1,571 @@
+/**
+ * Usage Tracker
+ *
+ * Persistent record of token usage and cost, for analytics and budgets:
+ * 1. Every assistant message seen on the instance event stream is recorded
+ *    with its session, project, provider, model and agent. OpenCode updates
+ *    a message's totals as it streams, so records are keyed by message id
+ *    and replaced rather than added up.
+ * 2. On first run the record is seeded from the messages OpenCode already
+ *    stored (`~/.local/share/opencode/storage/message`).
+ * 3. Records are written to `~/.config/era-code/usage.json` shortly after
+ *    they change, and survive OpenCode deleting the sessions.
+ *
+ * Daily and monthly spend is checked against the `usageBudgets` preference
+ * after every change; moving between ok, warning and exceeded publishes
+ * `usage.budgetChanged`.
+ */
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import type { EventBus } from "../events/bus"
+import type { Logger } from "../logger"
+import type { UsageBudgets } from "../config/schema"
+import type {
+  UsageAnalyticsResponse,
+  UsageBreakdownEntry,
+  UsageBudgetPeriod,
+  UsageBudgetStatus,
+  UsageDayEntry,
+  UsageSessionEntry,
+  UsageTotals,
+  WorkspaceEventPayload,
+} from "../api-types"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface UsageTrackerOptions {
+  eventBus: EventBus
+  logger: Logger
+  getBudgets: () => UsageBudgets
+  /** Project folder of a running instance */
+  getInstanceFolder: (instanceId: string) => string | undefined
+  /** Usage file (defaults to `~/.config/era-code/usage.json`) */
+  filePath?: string
+  /** OpenCode storage root used to seed the first run */
+  storagePath?: string
+  /** Delay before changes are written, in ms */
+  flushDelayMs?: number
+  now?: () => number
+}
+
+/** Usage of one assistant message */
+export interface UsageRecord {
+  messageId: string
+  sessionId: string
+  project: string
+  providerId: string
+  modelId: string
+  agent: string
+  /** Message creation time, epoch ms */
+  time: number
+  cost: number
+  inputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+}
+
+export interface UsageQuery {
+  /** Inclusive local dates, YYYY-MM-DD */
+  from?: string
+  to?: string
+  project?: string
+}
+
+interface UsageFile {
+  version: 1
+  sessions: Record<string, { title: string }>
+  records: UsageRecord[]
+}
+
+/** Subset of OpenCode's assistant message info we record */
+interface AssistantInfo {
+  id: string
+  sessionID: string
+  role: string
+  time?: { created?: number }
+  modelID?: string
+  providerID?: string
+  mode?: string
+  path?: { root?: string; cwd?: string }
+  cost?: number
+  tokens?: { input?: number; output?: number; reasoning?: number; cache?: { read?: number; write?: number } }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_FILE_PATH = path.join(os.homedir(), ".config", "era-code", "usage.json")
+const DEFAULT_STORAGE_PATH = path.join(os.homedir(), ".local/share/opencode/storage")
+const FLUSH_DELAY_MS = 2_000
+const DEFAULT_RANGE_DAYS = 30
+const TOP_SESSIONS = 10
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const CSV_COLUMNS = [
+  "day",
+  "project",
+  "provider",
+  "model",
+  "agent",
+  "messages",
+  "input_tokens",
+  "output_tokens",
+  "reasoning_tokens",
+  "cache_read_tokens",
+  "cache_write_tokens",
+  "cost_usd",
+]
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class UsageTracker {
+  private readonly filePath: string
+  private readonly storagePath: string
+  private readonly records = new Map<string, UsageRecord>()
+  private readonly sessionTitles = new Map<string, string>()
+  private flushTimer: NodeJS.Timeout | null = null
+  private ready: Promise<void> | null = null
+  private loaded = false
+  private lastBudget: UsageBudgetStatus | null = null
+
+  constructor(private readonly options: UsageTrackerOptions) {
+    this.filePath = options.filePath ?? DEFAULT_FILE_PATH
+    this.storagePath = options.storagePath ?? DEFAULT_STORAGE_PATH
+  }
+
+  /** Load recorded usage and follow the instance event stream. Returns a detach function. */
+  attach(): () => void {
+    const handler = (event: WorkspaceEventPayload) => {
+      if (event.type === "instance.event") {
+        this.handleInstanceEvent(event.instanceId, event.event.type, event.event.properties ?? {})
+      } else if (event.type === "config.appChanged") {
+        this.checkBudget()
+      }
+    }
+    const detach = this.options.eventBus.onEvent(handler)
+    void this.ensureLoaded().then(() => this.checkBudget())
+    return () => {
+      detach()
+      void this.flush()
+    }
+  }
+
+  async analytics(query: UsageQuery = {}): Promise<UsageAnalyticsResponse> {
+    await this.ensureLoaded()
+    const { from, to } = this.resolveRange(query)
+    const records = this.select(from, to, query.project)
+
+    const days = new Map<string, UsageDayEntry>()
+    for (let time = parseDay(from); dayKey(time) <= to; time += DAY_MS) {
+      const day = dayKey(time)
+      days.set(day, { day, ...emptyTotals() })
+    }
+    const byModel = new Map<string, UsageBreakdownEntry>()
+    const byProvider = new Map<string, UsageBreakdownEntry>()
+    const byAgent = new Map<string, UsageBreakdownEntry>()
+    const byProject = new Map<string, UsageBreakdownEntry>()
+    const bySession = new Map<string, UsageSessionEntry>()
+    const totals = emptyTotals()
+
+    for (const record of records) {
+      addRecord(totals, record)
+      const day = days.get(dayKey(record.time))
+      if (day) addRecord(day, record)
+      addToBreakdown(byModel, `${record.providerId}/${record.modelId}`, record.modelId, record)
+      addToBreakdown(byProvider, record.providerId, record.providerId, record)
+      addToBreakdown(byAgent, record.agent, record.agent, record)
+      addToBreakdown(byProject, record.project, path.basename(record.project) || record.project, record)
+
+      let session = bySession.get(record.sessionId)
+      if (!session) {
+        session = {
+          sessionId: record.sessionId,
+          title: this.sessionTitles.get(record.sessionId) ?? record.sessionId,
+          project: record.project,
+          lastActivity: 0,
+          ...emptyTotals(),
+        }
+        bySession.set(record.sessionId, session)
+      }
+      addRecord(session, record)
+      session.lastActivity = Math.max(session.lastActivity, record.time)
+    }
+
+    return {
+      from,
+      to,
+      totals,
+      byDay: Array.from(days.values()),
+      byModel: sortByCost(byModel),
+      byProvider: sortByCost(byProvider),
+      byAgent: sortByCost(byAgent),
+      byProject: sortByCost(byProject),
+      topSessions: sortByCost(bySession).slice(0, TOP_SESSIONS),
+      budget: this.computeBudgetStatus(),
+    }
+  }
+
+  /** Usage per day, project, provider, model and agent as CSV */
+  async exportCsv(query: UsageQuery = {}): Promise<string> {
+    await this.ensureLoaded()
+    const { from, to } = this.resolveRange(query)
+    const rows = new Map<string, { key: string[]; totals: UsageTotals }>()
+    for (const record of this.select(from, to, query.project)) {
+      const key = [dayKey(record.time), record.project, record.providerId, record.modelId, record.agent]
+      const id = key.join("\u0000")
+      let row = rows.get(id)
+      if (!row) {
+        row = { key, totals: emptyTotals() }
+        rows.set(id, row)
+      }
+      addRecord(row.totals, record)
+    }
+
+    const lines = [CSV_COLUMNS.join(",")]
+    const sorted = Array.from(rows.values()).sort((a, b) => a.key.join("\u0000").localeCompare(b.key.join("\u0000")))
+    for (const { key, totals } of sorted) {
+      lines.push(
+        [
+          ...key.map(csvField),
+          totals.messages,
+          totals.inputTokens,
+          totals.outputTokens,
+          totals.reasoningTokens,
+          totals.cacheReadTokens,
+          totals.cacheWriteTokens,
+          totals.cost.toFixed(6),
+        ].join(","),
+      )
+    }
+    return `${lines.join("\n")}\n`
+  }
+
+  /** Today's and this month's spend against the configured budgets */
+  async budgetStatus(): Promise<UsageBudgetStatus> {
+    await this.ensureLoaded()
+    return this.computeBudgetStatus()
+  }
+
+  private computeBudgetStatus(): UsageBudgetStatus {
+    const budgets = this.options.getBudgets()
+    const now = this.now()
+    const today = dayKey(now)
+    const month = today.slice(0, 7)
+    let daily = 0
+    let monthly = 0
+    for (const record of this.records.values()) {
+      const day = dayKey(record.time)
+      if (day.slice(0, 7) !== month) continue
+      monthly += record.cost
+      if (day === today) daily += record.cost
+    }
+
+    const period = (limit: number | null, spent: number): UsageBudgetPeriod => ({
+      limit,
+      spent,
+      state: limit === null ? "ok" : spent >= limit ? "exceeded" : spent >= limit * budgets.warnAt ? "warning" : "ok",
+    })
+    const status: UsageBudgetStatus = {
+      daily: period(budgets.daily, daily),
+      monthly: period(budgets.monthly, monthly),
+      warnAt: budgets.warnAt,
+      hardStop: budgets.hardStop,
+      blocked: false,
+    }
+    status.blocked = budgets.hardStop && (status.daily.state === "exceeded" || status.monthly.state === "exceeded")
+    return status
+  }
+
+  /** Record one assistant message's usage; repeated updates replace it */
+  record(info: AssistantInfo, fallbackProject?: string) {
+    const record = toUsageRecord(info, fallbackProject)
+    if (!record) return
+    const previousCost = this.records.get(record.messageId)?.cost
+    this.records.set(record.messageId, record)
+    this.scheduleFlush()
+    // Token counts change while a message streams; spend only when its cost does
+    if (record.cost !== previousCost) this.checkBudget()
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    const data: UsageFile = {
+      version: 1,
+      sessions: Object.fromEntries(Array.from(this.sessionTitles, ([id, title]) => [id, { title }])),
+      records: Array.from(this.records.values()),
+    }
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+      const tmp = `${this.filePath}.tmp`
+      await fs.promises.writeFile(tmp, JSON.stringify(data), "utf-8")
+      await fs.promises.rename(tmp, this.filePath)
+    } catch (err) {
+      this.options.logger.warn({ err }, "Failed to write usage records")
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Recording
+  // -------------------------------------------------------------------------
+
+  private handleInstanceEvent(instanceId: string, type: string, properties: Record<string, unknown>) {
+    switch (type) {
+      case "message.updated": {
+        const info = properties.info as AssistantInfo | undefined
+        if (info?.role === "assistant") this.record(info, this.options.getInstanceFolder(instanceId))
+        break
+      }
+      case "session.created":
+      case "session.updated": {
+        const info = properties.info as { id?: string; title?: string } | undefined
+        if (info?.id && info.title && this.sessionTitles.get(info.id) !== info.title) {
+          this.sessionTitles.set(info.id, info.title)
+          this.scheduleFlush()
+        }
+        break
+      }
+      default:
+        break
+    }
+  }
+
+  private checkBudget() {
+    // Until the recorded usage is loaded the spend is understated
+    if (!this.loaded) {
+      void this.ensureLoaded().then(() => this.checkBudget())
+      return
+    }
+    const status = this.computeBudgetStatus()
+    const previous = this.lastBudget
+    this.lastBudget = status
+    if (
+      previous &&
+      previous.daily.state === status.daily.state &&
+      previous.monthly.state === status.monthly.state &&
+      previous.blocked === status.blocked
+    ) {
+      return
+    }
+    if (!previous && status.daily.state === "ok" && status.monthly.state === "ok") return
+    this.options.eventBus.publish({ type: "usage.budgetChanged", budget: status, timestamp: this.now() })
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      void this.flush()
+    }, this.options.flushDelayMs ?? FLUSH_DELAY_MS)
+    this.flushTimer.unref?.()
+  }
+
+  // -------------------------------------------------------------------------
+  // Loading
+  // -------------------------------------------------------------------------
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load()
+        .catch((err) => this.options.logger.warn({ err }, "Failed to load usage records"))
+        .finally(() => {
+          this.loaded = true
+        })
+    }
+    return this.ready
+  }
+
+  /**
+   * Records that arrived through events before loading finished are newer
+   * and kept. A corrupt file is renamed aside rather than overwritten, and
+   * usage is seeded from OpenCode's storage as if there was none.
+   */
+  private async load() {
+    let data: UsageFile | null = null
+    try {
+      data = parseUsageFile(await fs.promises.readFile(this.filePath, "utf-8"))
+      if (!data) await this.setAsideCorruptFile()
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err
+    }
+
+    if (data) {
+      for (const [id, session] of Object.entries(data.sessions ?? {})) {
+        if (!this.sessionTitles.has(id)) this.sessionTitles.set(id, session.title)
+      }
+      for (const record of data.records ?? []) {
+        if (!this.records.has(record.messageId)) this.records.set(record.messageId, record)
+      }
+      return
+    }
+
+    const startedAt = Date.now()
+    await this.seedFromStorage()
+    this.options.logger.info({ records: this.records.size, ms: Date.now() - startedAt }, "Seeded usage records from OpenCode storage")
+    await this.flush()
+  }
+
+  private async setAsideCorruptFile() {
+    const aside = `${this.filePath}.corrupt-${this.now()}`
+    await fs.promises.rename(this.filePath, aside)
+    this.options.logger.warn({ file: this.filePath, movedTo: aside }, "Usage records file is corrupt; moved it aside")
+  }
+
+  private async seedFromStorage() {
+    const sessionRoot = path.join(this.storagePath, "session")
+    for (const projectId of await listDir(sessionRoot)) {
+      for (const file of await listDir(path.join(sessionRoot, projectId))) {
+        if (!file.endsWith(".json")) continue
+        const session = await readJson<{ id?: string; title?: string; directory?: string }>(path.join(sessionRoot, projectId, file))
+        if (!session?.id) continue
+        if (session.title && !this.sessionTitles.has(session.id)) this.sessionTitles.set(session.id, session.title)
+
+        const messageDir = path.join(this.storagePath, "message", session.id)
+        for (const messageFile of await listDir(messageDir)) {
+          if (!messageFile.endsWith(".json")) continue
+          const info = await readJson<AssistantInfo>(path.join(messageDir, messageFile))
+          if (info?.role !== "assistant" || this.records.has(info.id)) continue
+          const record = toUsageRecord(info, session.directory)
+          if (record) this.records.set(record.messageId, record)
+        }
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Queries
+  // -------------------------------------------------------------------------
+
+  private resolveRange(query: UsageQuery): { from: string; to: string } {
+    const to = query.to ?? dayKey(this.now())
+    const from = query.from ?? dayKey(parseDay(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS)
+    return from <= to ? { from, to } : { from: to, to: from }
+  }
+
+  private select(from: string, to: string, project?: string): UsageRecord[] {
+    const selected: UsageRecord[] = []
+    for (const record of this.records.values()) {
+      const day = dayKey(record.time)
+      if (day < from || day > to) continue
+      if (project && record.project !== project) continue
+      selected.push(record)
+    }
+    return selected
+  }
+
+  private now(): number {
+    return this.options.now?.() ?? Date.now()
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function toUsageRecord(info: AssistantInfo, fallbackProject?: string): UsageRecord | null {
+  if (!info.id || !info.sessionID) return null
+  const tokens = info.tokens ?? {}
+  const record: UsageRecord = {
+    messageId: info.id,
+    sessionId: info.sessionID,
+    project: info.path?.root || fallbackProject || info.path?.cwd || "unknown",
+    providerId: info.providerID || "unknown",
+    modelId: info.modelID || "unknown",
+    agent: info.mode || "unknown",
+    time: info.time?.created ?? 0,
+    cost: info.cost ?? 0,
+    inputTokens: tokens.input ?? 0,
+    outputTokens: tokens.output ?? 0,
+    reasoningTokens: tokens.reasoning ?? 0,
+    cacheReadTokens: tokens.cache?.read ?? 0,
+    cacheWriteTokens: tokens.cache?.write ?? 0,
+  }
+  const used =
+    record.cost + record.inputTokens + record.outputTokens + record.reasoningTokens + record.cacheReadTokens + record.cacheWriteTokens
+  return used > 0 ? record : null
+}
+
+/** Local calendar date of a timestamp, YYYY-MM-DD */
+export function dayKey(time: number): string {
+  const date = new Date(time)
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/** Local noon of a YYYY-MM-DD date, so stepping by whole days survives DST changes */
+function parseDay(day: string): number {
+  const [year, month, date] = day.split("-").map(Number)
+  return new Date(year, month - 1, date, 12).getTime()
+}
+
+function emptyTotals(): UsageTotals {
+  return { cost: 0, inputTokens: 0, outputTokens: 0, reasoningTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, messages: 0 }
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord) {
+  totals.cost += record.cost
+  totals.inputTokens += record.inputTokens
+  totals.outputTokens += record.outputTokens
+  totals.reasoningTokens += record.reasoningTokens
+  totals.cacheReadTokens += record.cacheReadTokens
+  totals.cacheWriteTokens += record.cacheWriteTokens
+  totals.messages++
+}
+
+function addToBreakdown(map: Map<string, UsageBreakdownEntry>, key: string, label: string, record: UsageRecord) {
+  let entry = map.get(key)
+  if (!entry) {
+    entry = { key, label, ...emptyTotals() }
+    map.set(key, entry)
+  }
+  addRecord(entry, record)
+}
+
+function sortByCost<T extends UsageTotals>(map: Map<string, T>): T[] {
+  return Array.from(map.values()).sort(
+    (a, b) => b.cost - a.cost || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens),
+  )
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/** The usage file's content, or null when it isn't a usage file */
+function parseUsageFile(text: string): UsageFile | null {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (!data || typeof data !== "object" || !Array.isArray((data as { records?: unknown }).records)) return null
+  return data as UsageFile
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.promises.readdir(dir)
+  } catch {
+    return []
+  }
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, "utf-8")) as T
+  } catch {
+    return null
+  }
+}
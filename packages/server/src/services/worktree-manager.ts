@@ -0,0 +1,384 @@
+/**
+ * Worktree Manager
+ *
+ * Git worktrees for isolated sessions. Sessions that share a checkout write
+ * to the same files; an isolated session instead gets its own worktree and
+ * branch (`era/session-<id>`) created from the current HEAD of the project,
+ * and OpenCode runs it in that directory.
+ *
+ * When the session is done its branch is merged back into the branch it was
+ * created from, in the main checkout:
+ * - "fast-forward": only when the base branch has not moved
+ * - "squash": one commit on the base branch
+ * - "rebase": the session branch is rebased onto the base branch, then
+ *   fast-forwarded
+ * Uncommitted changes in the worktree are committed first. `preview` runs a
+ * 3-way merge of every file changed on both branches through `MergeService`
+ * so conflicts are visible before anything is touched.
+ *
+ * Worktrees live in `~/.era/era-code/worktrees` and are recorded in
+ * `~/.config/era-code/worktrees.json`.
+ */
+import { execFile } from "node:child_process"
+import { createHash, randomBytes } from "node:crypto"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { promisify } from "node:util"
+import type { EventBus } from "../events/bus"
+import type { Logger } from "../logger"
+import type {
+  SessionWorktree,
+  WorktreeMergeFile,
+  WorktreeMergePreview,
+  WorktreeMergeRequest,
+  WorktreeMergeResponse,
+} from "../api-types"
+import { getMergeService } from "../filesystem/merge-service"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface WorktreeManagerOptions {
+  eventBus: EventBus
+  logger: Logger
+  /** Directory holding the worktrees */
+  worktreesDir?: string
+  /** State file (defaults to `~/.config/era-code/worktrees.json`) */
+  filePath?: string
+  now?: () => number
+}
+
+interface WorktreeFile {
+  version: 1
+  worktrees: SessionWorktree[]
+}
+
+export class WorktreeError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message)
+    this.name = "WorktreeError"
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_WORKTREES_DIR = path.join(os.homedir(), ".era", "era-code", "worktrees")
+const DEFAULT_FILE_PATH = path.join(os.homedir(), ".config", "era-code", "worktrees.json")
+const BRANCH_PREFIX = "era/session-"
+const GIT_MAX_BUFFER = 64 * 1024 * 1024
+
+const execFileAsync = promisify(execFile)
+
+// ---------------------------------------------------------------------------
+// Manager
+// ---------------------------------------------------------------------------
+
+export class WorktreeManager {
+  private readonly worktreesDir: string
+  private readonly filePath: string
+  private readonly now: () => number
+  private readonly worktrees = new Map<string, SessionWorktree>()
+
+  constructor(private readonly options: WorktreeManagerOptions) {
+    this.worktreesDir = options.worktreesDir ?? DEFAULT_WORKTREES_DIR
+    this.filePath = options.filePath ?? DEFAULT_FILE_PATH
+    this.now = options.now ?? Date.now
+    this.load()
+  }
+
+  list(folder?: string): SessionWorktree[] {
+    const all = Array.from(this.worktrees.values())
+    const filtered = folder ? all.filter((worktree) => worktree.folder === path.resolve(folder)) : all
+    return filtered.sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  get(id: string): SessionWorktree {
+    const worktree = this.worktrees.get(id)
+    if (!worktree) throw new WorktreeError(`Worktree "${id}" not found`, 404)
+    return worktree
+  }
+
+  /** Session directories inside worktrees of a project, for streaming their OpenCode events */
+  directoriesFor(folder: string): string[] {
+    return this.list(folder)
+      .filter((worktree) => worktree.sessionId)
+      .map((worktree) => worktree.directory)
+  }
+
+  /** Create a worktree and branch from the current HEAD of the project's repository */
+  async create(folder: string): Promise<SessionWorktree> {
+    if (!path.isAbsolute(folder)) {
+      throw new WorktreeError("folder must be an absolute path", 400)
+    }
+    const resolved = path.resolve(folder)
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+      throw new WorktreeError("Project folder not found", 404)
+    }
+
+    const repoRoot = await git(resolved, ["rev-parse", "--show-toplevel"]).catch(() => {
+      throw new WorktreeError("Isolated sessions need the project to be a git repository", 400)
+    })
+    const prefix = await git(resolved, ["rev-parse", "--show-prefix"])
+    const baseBranch = await git(repoRoot, ["rev-parse", "--abbrev-ref", "HEAD"])
+    if (baseBranch === "HEAD") {
+      throw new WorktreeError("The project has a detached HEAD; check out a branch first", 409)
+    }
+    const baseCommit = await git(repoRoot, ["rev-parse", "--verify", "HEAD"]).catch(() => {
+      throw new WorktreeError("The repository has no commits yet", 409)
+    })
+
+    const id = randomBytes(4).toString("hex")
+    const branch = `${BRANCH_PREFIX}${id}`
+    const repoKey = createHash("sha1").update(repoRoot).digest("hex").slice(0, 8)
+    const worktreePath = path.join(this.worktreesDir, `${path.basename(repoRoot)}-${repoKey}`, id)
+    await fs.promises.mkdir(path.dirname(worktreePath), { recursive: true })
+    await git(repoRoot, ["worktree", "add", "-b", branch, worktreePath, baseCommit])
+
+    const worktree: SessionWorktree = {
+      id,
+      folder: resolved,
+      repoRoot,
+      path: worktreePath,
+      directory: path.join(worktreePath, prefix),
+      branch,
+      baseBranch,
+      baseCommit,
+      sessionId: null,
+      createdAt: this.now(),
+    }
+    this.update(worktree)
+    this.options.logger.info({ id, branch, path: worktreePath, baseBranch }, "Session worktree created")
+    return worktree
+  }
+
+  attachSession(id: string, sessionId: string): SessionWorktree {
+    const worktree = { ...this.get(id), sessionId }
+    this.update(worktree)
+    return worktree
+  }
+
+  /** What merging back would do, without changing either checkout */
+  async preview(id: string): Promise<WorktreeMergePreview> {
+    const worktree = this.get(id)
+    this.assertCheckedOut(worktree)
+
+    const baseTip = await git(worktree.repoRoot, ["rev-parse", "--verify", `refs/heads/${worktree.baseBranch}`])
+    const sessionCommits = Number(await git(worktree.path, ["rev-list", "--count", `${worktree.baseCommit}..HEAD`]))
+    const baseCommits = Number(await git(worktree.repoRoot, ["rev-list", "--count", `${worktree.baseCommit}..${baseTip}`]))
+    const uncommitted = (await git(worktree.path, ["status", "--porcelain", "-uall"])).split("\n").filter(Boolean)
+
+    // Working tree against the base commit covers commits and pending edits; untracked files are listed separately
+    const sessionFiles = new Set([
+      ...splitPaths(await git(worktree.path, ["diff", "--name-only", "-z", worktree.baseCommit], false)),
+      ...splitPaths(await git(worktree.path, ["ls-files", "--others", "--exclude-standard", "-z"], false)),
+    ])
+    const baseFiles = new Set(
+      splitPaths(await git(worktree.repoRoot, ["diff", "--name-only", "-z", worktree.baseCommit, baseTip], false)),
+    )
+
+    const merger = getMergeService()
+    const files: WorktreeMergeFile[] = []
+    for (const file of Array.from(sessionFiles).sort()) {
+      if (!baseFiles.has(file)) {
+        files.push({ path: file, status: "session", conflicts: 0 })
+        continue
+      }
+      const result = merger.merge({
+        filePath: file,
+        base: await showFile(worktree.repoRoot, worktree.baseCommit, file),
+        ours: await showFile(worktree.repoRoot, baseTip, file),
+        theirs: await fs.promises.readFile(path.join(worktree.path, file), "utf-8").catch(() => ""),
+      })
+      files.push({
+        path: file,
+        status: result.hasConflicts ? "conflict" : "merged",
+        conflicts: result.conflicts.length,
+      })
+    }
+
+    return {
+      worktree,
+      sessionCommits,
+      uncommittedFiles: uncommitted.length,
+      baseCommits,
+      canFastForward: baseCommits === 0,
+      hasConflicts: files.some((file) => file.status === "conflict"),
+      files,
+    }
+  }
+
+  /** Merge the session branch back into its base branch in the main checkout */
+  async merge(id: string, request: WorktreeMergeRequest): Promise<WorktreeMergeResponse> {
+    const worktree = this.get(id)
+    this.assertCheckedOut(worktree)
+    const message = request.message?.trim() || `Merge isolated session ${worktree.branch}`
+
+    const current = await git(worktree.repoRoot, ["rev-parse", "--abbrev-ref", "HEAD"])
+    if (current !== worktree.baseBranch) {
+      throw new WorktreeError(
+        `Check out ${worktree.baseBranch} in ${worktree.repoRoot} before merging (currently on ${current})`,
+        409,
+      )
+    }
+
+    if ((await git(worktree.path, ["status", "--porcelain"])).length > 0) {
+      await git(worktree.path, ["add", "-A"])
+      await git(worktree.path, ["commit", "-m", message])
+    }
+    const sessionCommits = Number(await git(worktree.path, ["rev-list", "--count", `${worktree.baseCommit}..HEAD`]))
+    if (sessionCommits === 0) {
+      throw new WorktreeError("The session has no changes to merge", 400)
+    }
+
+    switch (request.strategy) {
+      case "fast-forward":
+        if ((await git(worktree.repoRoot, ["rev-parse", "HEAD"])) !== worktree.baseCommit) {
+          throw new WorktreeError(`${worktree.baseBranch} has new commits; merge with squash or rebase instead`, 409)
+        }
+        await fastForward(worktree)
+        break
+      case "squash":
+        if ((await gitSucceeds(worktree.repoRoot, ["diff", "--cached", "--quiet"])) === false) {
+          throw new WorktreeError(`${worktree.repoRoot} has staged changes; commit or unstage them first`, 409)
+        }
+        try {
+          await git(worktree.repoRoot, ["merge", "--squash", worktree.branch])
+        } catch (err) {
+          await git(worktree.repoRoot, ["reset", "--merge"]).catch(() => undefined)
+          throw new WorktreeError(`Squash merge failed: ${(err as Error).message}`, 409)
+        }
+        await git(worktree.repoRoot, ["commit", "-m", message])
+        break
+      case "rebase":
+        try {
+          await git(worktree.path, ["rebase", worktree.baseBranch])
+        } catch (err) {
+          await git(worktree.path, ["rebase", "--abort"]).catch(() => undefined)
+          throw new WorktreeError(`Rebase onto ${worktree.baseBranch} failed: ${(err as Error).message}`, 409)
+        }
+        await fastForward(worktree)
+        break
+    }
+
+    // The session continues from the merged state if the worktree is kept
+    const commit = await git(worktree.repoRoot, ["rev-parse", "HEAD"])
+    await git(worktree.path, ["reset", "--hard", commit])
+    const merged: SessionWorktree = {
+      ...worktree,
+      baseCommit: commit,
+      mergedAt: this.now(),
+      mergeStrategy: request.strategy,
+    }
+    this.update(merged)
+    this.options.logger.info({ id, strategy: request.strategy, commit }, "Session worktree merged")
+
+    if (request.removeWorktree) {
+      await this.remove(id)
+      return { worktree: merged, commit, removed: true }
+    }
+    return { worktree: merged, commit, removed: false }
+  }
+
+  /** Delete the worktree checkout and, unless kept, its branch */
+  async remove(id: string, options: { keepBranch?: boolean } = {}): Promise<void> {
+    const worktree = this.get(id)
+    if (fs.existsSync(worktree.repoRoot)) {
+      if (fs.existsSync(worktree.path)) {
+        await git(worktree.repoRoot, ["worktree", "remove", "--force", worktree.path])
+      } else {
+        await git(worktree.repoRoot, ["worktree", "prune"]).catch(() => undefined)
+      }
+      if (!options.keepBranch) {
+        await git(worktree.repoRoot, ["branch", "-D", worktree.branch]).catch((err) => {
+          this.options.logger.warn({ id, branch: worktree.branch, err }, "Failed to delete session branch")
+        })
+      }
+    }
+
+    this.worktrees.delete(id)
+    this.save()
+    this.options.eventBus.publish({ type: "worktree.updated", worktree, removed: true })
+    this.options.logger.info({ id, path: worktree.path }, "Session worktree removed")
+  }
+
+  private assertCheckedOut(worktree: SessionWorktree) {
+    if (!fs.existsSync(worktree.path)) {
+      throw new WorktreeError(`The worktree at ${worktree.path} no longer exists`, 410)
+    }
+  }
+
+  private update(worktree: SessionWorktree) {
+    this.worktrees.set(worktree.id, worktree)
+    this.save()
+    this.options.eventBus.publish({ type: "worktree.updated", worktree, removed: false })
+  }
+
+  // Synchronous so the event bridge can read directories as soon as workspaces start
+  private load() {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as WorktreeFile
+      for (const worktree of data.worktrees ?? []) {
+        this.worktrees.set(worktree.id, worktree)
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.options.logger.warn({ err }, "Failed to read session worktrees")
+      }
+    }
+  }
+
+  private save() {
+    const data: WorktreeFile = { version: 1, worktrees: Array.from(this.worktrees.values()) }
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      const tmp = `${this.filePath}.tmp`
+      fs.writeFileSync(tmp, JSON.stringify(data, null, 2), "utf-8")
+      fs.renameSync(tmp, this.filePath)
+    } catch (err) {
+      this.options.logger.warn({ err }, "Failed to write session worktrees")
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function git(cwd: string, args: string[], trim = true): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: GIT_MAX_BUFFER })
+    return trim ? stdout.trim() : stdout
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim()
+    throw new WorktreeError(stderr || (err as Error).message, 500)
+  }
+}
+
+async function fastForward(worktree: SessionWorktree): Promise<void> {
+  await git(worktree.repoRoot, ["merge", "--ff-only", worktree.branch]).catch((err: Error) => {
+    throw new WorktreeError(`Fast-forward of ${worktree.baseBranch} failed: ${err.message}`, 409)
+  })
+}
+
+async function gitSucceeds(cwd: string, args: string[]): Promise<boolean> {
+  return git(cwd, args).then(
+    () => true,
+    () => false,
+  )
+}
+
+/** A file at a commit; empty when the file does not exist there */
+async function showFile(repoRoot: string, commit: string, file: string): Promise<string> {
+  return git(repoRoot, ["show", `${commit}:${file}`], false).catch(() => "")
+}
+
+function splitPaths(output: string): string[] {
+  return output.split("\0").filter(Boolean)
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { describe, it } from "node:test"
+import type { SessionExportBundle } from "../../api-types"
+import { SessionBundleStore } from "../session-bundle-store"
+
+function bundle(title: string, messages: number): SessionExportBundle {
+  return {
+    format: "era-session-bundle",
+    version: 1,
+    exportedAt: 1_700_000_000_000,
+    sessions: [
+      {
+        info: { id: "ses_1", title, time: { created: 1, updated: 2 } },
+        messages: Array.from({ length: messages }, (_, index) => ({
+          info: { id: `msg_${index}`, role: index % 2 === 0 ? "user" : "assistant" },
+          parts: [{ id: `prt_${index}`, type: "text", text: `message ${index}` }],
+        })),
+      },
+      { info: { id: "ses_2", title: "Subagent", parentID: "ses_1", time: { created: 3, updated: 4 } }, messages: [] },
+    ],
+  }
+}
+
+describe("session bundle store", () => {
+  it("saves, lists per folder, reads and deletes imports", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "session-bundles-"))
+    const store = new SessionBundleStore(dir)
+    try {
+      const first = await store.save("/work/a", bundle("Fix checkout", 3))
+      const second = await store.save("/work/b", bundle("Write docs", 1))
+
+      assert.equal(first.title, "Fix checkout")
+      assert.equal(first.sessionCount, 2)
+      assert.equal(first.messageCount, 3)
+      assert.deepEqual((await store.list("/work/a")).map((entry) => entry.id), [first.id])
+      assert.equal((await store.list()).length, 2)
+
+      const read = await store.read(second.id)
+      assert.equal(read?.bundle.sessions[0].messages[0].parts[0].text, "message 0")
+
+      assert.equal(await store.delete(first.id), true)
+      assert.equal(await store.delete(first.id), false)
+      assert.equal(await store.read(first.id), null)
+      assert.deepEqual((await store.list()).map((entry) => entry.id), [second.id])
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,81 @@
+import crypto from "crypto"
+import fs from "fs"
+import { promises as fsp } from "fs"
+import os from "os"
+import path from "path"
+import type { ImportedSession, ImportedSessionSummary, SessionExportBundle } from "../api-types"
+
+/**
+ * Session export bundles imported for read-only review, one JSON file per
+ * import. Imports belong to the project folder they were imported into.
+ */
+export class SessionBundleStore {
+  private readonly importsDir: string
+
+  constructor(baseDir = path.join(os.homedir(), ".config", "era-code", "session-imports")) {
+    this.importsDir = baseDir
+    fs.mkdirSync(this.importsDir, { recursive: true })
+  }
+
+  /** Summaries of the imports into a folder (all imports without one), newest first */
+  async list(folder?: string): Promise<ImportedSessionSummary[]> {
+    const files = (await fsp.readdir(this.importsDir)).filter((name) => name.endsWith(".json"))
+    const summaries: ImportedSessionSummary[] = []
+    for (const name of files) {
+      const imported = await this.readFile(path.join(this.importsDir, name))
+      if (!imported || (folder && imported.folder !== folder)) continue
+      const { bundle: _bundle, ...summary } = imported
+      summaries.push(summary)
+    }
+    return summaries.sort((a, b) => b.importedAt - a.importedAt)
+  }
+
+  async read(id: string): Promise<ImportedSession | null> {
+    return this.readFile(this.resolvePath(id))
+  }
+
+  async save(folder: string, bundle: SessionExportBundle): Promise<ImportedSessionSummary> {
+    const now = Date.now()
+    const root = bundle.sessions[0]
+    const summary: ImportedSessionSummary = {
+      id: `import_${now.toString(36)}_${crypto.randomBytes(3).toString("hex")}`,
+      title: root?.info.title || "Imported session",
+      folder,
+      importedAt: now,
+      exportedAt: bundle.exportedAt,
+      sessionCount: bundle.sessions.length,
+      messageCount: bundle.sessions.reduce((total, entry) => total + entry.messages.length, 0),
+    }
+    const imported: ImportedSession = { ...summary, bundle }
+    await fsp.writeFile(this.resolvePath(summary.id), JSON.stringify(imported), "utf-8")
+    return summary
+  }
+
+  /** Returns false when there was no such import */
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fsp.unlink(this.resolvePath(id))
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false
+      }
+      throw error
+    }
+  }
+
+  private async readFile(filePath: string): Promise<ImportedSession | null> {
+    try {
+      return JSON.parse(await fsp.readFile(filePath, "utf-8")) as ImportedSession
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT" || error instanceof SyntaxError) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  private resolvePath(id: string): string {
+    return path.join(this.importsDir, `${id.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`)
+  }
+}
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import { McpToolDiscovery } from "../mcp-discovery"
+
+describe("MCP tool discovery", () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-discovery-"))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("reuses a failed discovery for a while before retrying", async () => {
+    // A "server" that records each start and exits without answering
+    const starts = path.join(dir, "starts")
+    const config = { type: "local" as const, command: ["echo", "start", ">>", JSON.stringify(starts)] }
+    let now = 0
+    const discovery = new McpToolDiscovery({ now: () => now })
+
+    const first = await discovery.discover("broken", config)
+    assert.match(first.error ?? "", /exited/)
+    assert.equal(await discovery.discover("broken", config), first)
+
+    now += 2 * 60 * 1000
+    await discovery.discover("broken", config)
+    assert.equal(fs.readFileSync(starts, "utf-8").trim().split("\n").length, 2)
+  })
+
+  it("bounds slow servers by the maximum timeout", async () => {
+    const discovery = new McpToolDiscovery({ maxTimeoutMs: 200 })
+    const startedAt = Date.now()
+
+    const result = await discovery.discover("slow", { type: "local", command: ["sleep", "5"], timeout: 10000 })
+
+    assert.match(result.error ?? "", /within 0.2 seconds/)
+    assert.ok(Date.now() - startedAt < 2000)
+  })
+})
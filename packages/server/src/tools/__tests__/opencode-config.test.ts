@@ -0,0 +1,58 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { ToolRegistry } from "../tool-registry"
+import { ToolCategory } from "../types"
+import { buildOpenCodeToolConfig, mergeOpenCodeConfigContent, OPENCODE_BUILTIN_AGENTS } from "../opencode-config"
+
+describe("OpenCode tool config", () => {
+  it("denies routed-out built-in and MCP tools per agent", () => {
+    const registry = new ToolRegistry()
+    registry.registerMcpTools("linear-server", [{ name: "create_issue" }])
+    registry.registerMcpTools("my.docs", [{ name: "search_docs" }])
+
+    const config = buildOpenCodeToolConfig(registry, {
+      globalDeny: ["webfetch"],
+      profiles: { plan: { removeCategories: [ToolCategory.PLANNING] }, custom: { denyTools: ["bash"] } },
+    })
+
+    assert.deepEqual(config.tools, { webfetch: false })
+    // Profile denials plus the planning MCP tool the user removed
+    assert.equal(config.agent?.plan?.tools?.write, false)
+    assert.equal(config.agent?.plan?.tools?.["linear-server_create_issue"], false)
+    assert.equal(config.agent?.plan?.tools?.read, undefined)
+    // Explore only gets read/search/navigation, so MCP search stays allowed
+    assert.equal(config.agent?.explore?.tools?.["my_docs_search_docs"], undefined)
+    assert.equal(config.agent?.explore?.tools?.bash, false)
+    // "main" is OpenCode's build agent; agents only known from preferences are included
+    assert.equal(config.agent?.build?.tools?.webfetch, false)
+    assert.deepEqual(config.agent?.custom?.tools, { bash: false, webfetch: false })
+  })
+
+  it("only configures agents the binary has by default", () => {
+    const registry = new ToolRegistry()
+    registry.registerMcpTools("linear-server", [{ name: "create_issue" }])
+
+    // The routing config of default preferences
+    const defaults = { globalDeny: [], profiles: {} }
+    const config = buildOpenCodeToolConfig(registry, defaults)
+
+    const agents = Object.keys(config.agent ?? {})
+    assert.ok(agents.length > 0)
+    assert.deepEqual(
+      agents.filter((agent) => !OPENCODE_BUILTIN_AGENTS.includes(agent)),
+      [],
+    )
+    // Agents of other binaries only get profiles when the binary has them
+    const withEraAgents = buildOpenCodeToolConfig(registry, defaults, [...OPENCODE_BUILTIN_AGENTS, "reviewer"])
+    assert.equal(withEraAgents.agent?.reviewer?.tools?.edit, false)
+  })
+
+  it("merges into existing config content without dropping user keys", () => {
+    const merged = JSON.parse(
+      mergeOpenCodeConfigContent(JSON.stringify({ model: "x/y", agent: { plan: { tools: { read: false }, temperature: 0.1 } } }), {
+        agent: { plan: { tools: { write: false } } },
+      }),
+    )
+    assert.deepEqual(merged, { model: "x/y", agent: { plan: { tools: { read: false, write: false }, temperature: 0.1 } } })
+  })
+})
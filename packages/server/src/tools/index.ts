@@ -16,3 +16,17 @@ export { resolveToolAccess, resolveAgentTools } from "./category-resolver"
 
 // Tool registry class
 export { ToolRegistry } from "./tool-registry"
+
+// MCP tool discovery
+export { McpRpcError, McpToolDiscovery, probeMcpServer, selectEnabledMcpServers, withMcpSession } from "./mcp-discovery"
+export type { DiscoveredMcpTool, McpDiscoveryResult, McpProbeResult, McpSession, McpToolCallResult } from "./mcp-discovery"
+
+// OpenCode launch config
+export {
+  buildOpenCodeToolConfig,
+  mergeOpenCodeConfigContent,
+  openCodeToolName,
+  OPENCODE_BUILTIN_AGENTS,
+  OPENCODE_CONFIG_CONTENT_ENV,
+} from "./opencode-config"
+export type { OpenCodeToolConfig } from "./opencode-config"
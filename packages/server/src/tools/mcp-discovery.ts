@@ -0,0 +1,428 @@
+import { spawn, type ChildProcess } from "child_process"
+import { fetch } from "undici"
+import type { McpServerConfig } from "../config/schema"
+
+/**
+ * MCP tool discovery.
+ *
+ * Connects to a configured MCP server just long enough to run the
+ * `initialize` handshake and page through the advertised tools (plus
+ * resources and prompts when the server declares them), so the ToolRegistry
+ * can categorize MCP tools before OpenCode itself connects to the server and
+ * the MCP supervisor can track server health. Discovery results are cached
+ * per server config, failures only briefly; discovery never throws.
+ *
+ * `withMcpSession` exposes the same short-lived connection to integrations
+ * that call tools themselves, such as the Linear service.
+ */
+
+export interface DiscoveredMcpTool {
+  name: string
+  description?: string
+}
+
+export interface McpProbeResult {
+  serverInfo?: { name: string; version?: string }
+  tools: DiscoveredMcpTool[]
+  resources: Array<{ uri: string; name?: string; description?: string }>
+  prompts: Array<{ name: string; description?: string }>
+}
+
+export interface McpDiscoveryResult {
+  server: string
+  tools: DiscoveredMcpTool[]
+  error?: string
+}
+
+interface JsonRpcResponse {
+  id?: number
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+const DEFAULT_DISCOVERY_TIMEOUT_MS = 10000
+/** How long a failed discovery is reused before the server is contacted again */
+const FAILED_DISCOVERY_TTL_MS = 60000
+const PROTOCOL_VERSION = "2024-11-05"
+const CLIENT_INFO = { name: "era-code-tool-registry", version: "1.0.0" }
+/** Upper bound on list pages, in case a server keeps returning cursors */
+const MAX_PAGES = 20
+
+interface McpToolDiscoveryOptions {
+  /** Timeout for servers whose config sets none */
+  timeoutMs?: number
+  /** Upper bound on every server's timeout, e.g. so discovery can't hold up a launch */
+  maxTimeoutMs?: number
+  now?: () => number
+}
+
+/**
+ * Discovers and caches the tools of MCP servers. A server is only contacted
+ * again when its config changes, the cache is invalidated or its last
+ * discovery failed a while ago.
+ */
+export class McpToolDiscovery {
+  private readonly cache = new Map<string, { key: string; result: McpDiscoveryResult; at: number }>()
+  private readonly now: () => number
+
+  constructor(private readonly options: McpToolDiscoveryOptions = {}) {
+    this.now = options.now ?? Date.now
+  }
+
+  /** Discover tools of every server in parallel; failed servers report an error */
+  async discoverAll(servers: Record<string, McpServerConfig>): Promise<McpDiscoveryResult[]> {
+    return Promise.all(Object.entries(servers).map(([name, config]) => this.discover(name, config)))
+  }
+
+  async discover(server: string, config: McpServerConfig): Promise<McpDiscoveryResult> {
+    const key = JSON.stringify(config)
+    const cached = this.cache.get(server)
+    if (cached && cached.key === key && (!cached.result.error || this.now() - cached.at < FAILED_DISCOVERY_TTL_MS)) {
+      return cached.result
+    }
+
+    const timeout = Math.min(
+      config.timeout ?? this.options.timeoutMs ?? DEFAULT_DISCOVERY_TIMEOUT_MS,
+      this.options.maxTimeoutMs ?? Infinity,
+    )
+    let result: McpDiscoveryResult
+    try {
+      const { tools } = await probeMcpServer(config, timeout)
+      result = { server, tools }
+    } catch (error) {
+      result = { server, tools: [], error: error instanceof Error ? error.message : String(error) }
+    }
+
+    this.cache.set(server, { key, result, at: this.now() })
+    return result
+  }
+
+  invalidate(server?: string): void {
+    if (server) {
+      this.cache.delete(server)
+    } else {
+      this.cache.clear()
+    }
+  }
+}
+
+/**
+ * Servers the UI would enable on an instance: the MCP registry filtered by
+ * the desired state, falling back to each config's own `enabled` flag.
+ */
+export function selectEnabledMcpServers(
+  registry: Record<string, McpServerConfig>,
+  desiredState: Record<string, boolean> = {},
+): Record<string, McpServerConfig> {
+  const enabled: Record<string, McpServerConfig> = {}
+  for (const [name, config] of Object.entries(registry)) {
+    if (desiredState[name] ?? config.enabled ?? true) {
+      enabled[name] = config
+    }
+  }
+  return enabled
+}
+
+// ----------------------------------------------------------------------------
+// Transports
+// ----------------------------------------------------------------------------
+
+/** JSON-RPC request sender shared by the stdio and HTTP transports */
+type RpcSend = (method: string, params: Record<string, unknown>, id?: number) => Promise<JsonRpcResponse | null>
+
+interface McpTransport {
+  send: RpcSend
+  close: () => void
+}
+
+/** JSON-RPC error returned by an MCP server */
+export class McpRpcError extends Error {
+  constructor(
+    message: string,
+    readonly code: number,
+  ) {
+    super(message)
+    this.name = "McpRpcError"
+  }
+}
+
+/** An initialized connection to an MCP server */
+export interface McpSession {
+  /** Result of the `initialize` handshake */
+  initialize: { capabilities?: Record<string, unknown>; serverInfo?: { name?: string; version?: string } } | undefined
+  /** Send a request; throws McpRpcError when the server answers with an error */
+  request(method: string, params?: Record<string, unknown>): Promise<unknown>
+  /** Call a tool; throws when the server reports the call as failed */
+  callTool(name: string, args?: Record<string, unknown>): Promise<McpToolCallResult>
+}
+
+export interface McpToolCallResult {
+  content: Array<{ type: string; text?: string }>
+  structuredContent?: unknown
+}
+
+/**
+ * Connect to a server, run the handshake and hand the session to `fn`. The
+ * connection is closed afterwards; the whole exchange is bounded by
+ * `timeout`. Throws on failure or timeout.
+ */
+export async function withMcpSession<T>(
+  config: McpServerConfig,
+  timeout: number,
+  fn: (session: McpSession) => Promise<T>,
+): Promise<T> {
+  const transport =
+    config.type === "local"
+      ? openLocalTransport(config.command, config.environment)
+      : openRemoteTransport(config.url, config.headers)
+  try {
+    return await withTimeout(
+      (async () => fn(await initializeSession(transport.send)))(),
+      timeout,
+    )
+  } finally {
+    transport.close()
+  }
+}
+
+/** Run the handshake and list everything the server advertises; throws on failure or timeout */
+export function probeMcpServer(config: McpServerConfig, timeout = DEFAULT_DISCOVERY_TIMEOUT_MS): Promise<McpProbeResult> {
+  return withMcpSession(config, timeout, probeSession)
+}
+
+async function initializeSession(send: RpcSend): Promise<McpSession> {
+  let nextId = 1
+  const request = async (method: string, params: Record<string, unknown> = {}) => {
+    const response = await send(method, params, nextId++)
+    if (response?.error) {
+      throw new McpRpcError(response.error.message || `${method} failed`, response.error.code)
+    }
+    return response?.result
+  }
+
+  const handshake = asRecord(
+    await request("initialize", {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    }),
+  )
+  await send("notifications/initialized", {})
+  const serverInfo = asRecord(handshake?.serverInfo)
+  const initialize: McpSession["initialize"] = handshake && {
+    capabilities: asRecord(handshake.capabilities),
+    serverInfo: serverInfo && { name: optionalString(serverInfo.name), version: optionalString(serverInfo.version) },
+  }
+
+  return {
+    initialize,
+    request,
+    callTool: async (name, args = {}) => {
+      const result = asRecord(await request("tools/call", { name, arguments: args }))
+      const content = (Array.isArray(result?.content) ? result.content : []).filter(isContentItem)
+      if (result?.isError) {
+        const message = content.map((item) => item.text ?? "").join("\n").trim()
+        throw new Error(message || `Tool ${name} failed`)
+      }
+      return { content, structuredContent: result?.structuredContent }
+    },
+  }
+}
+
+async function probeSession(session: McpSession): Promise<McpProbeResult> {
+  const capabilities = session.initialize?.capabilities
+  const serverInfo = session.initialize?.serverInfo
+  const result: McpProbeResult = {
+    serverInfo: serverInfo?.name !== undefined ? { name: serverInfo.name, version: serverInfo.version } : undefined,
+    tools: [],
+    resources: [],
+    prompts: [],
+  }
+
+  // Servers that don't report capabilities still get asked for tools
+  if (!capabilities || capabilities.tools) {
+    for (const tool of await listAll(session, "tools/list", "tools")) {
+      if (typeof tool.name === "string") {
+        result.tools.push({ name: tool.name, description: optionalString(tool.description) })
+      }
+    }
+  }
+  if (capabilities?.resources) {
+    for (const resource of await listAll(session, "resources/list", "resources")) {
+      if (typeof resource.uri === "string") {
+        result.resources.push({
+          uri: resource.uri,
+          name: optionalString(resource.name),
+          description: optionalString(resource.description),
+        })
+      }
+    }
+  }
+  if (capabilities?.prompts) {
+    for (const prompt of await listAll(session, "prompts/list", "prompts")) {
+      if (typeof prompt.name === "string") {
+        result.prompts.push({ name: prompt.name, description: optionalString(prompt.description) })
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Page through a list method (`tools/list` etc.), following `nextCursor`.
+ * Entries that aren't objects are dropped.
+ */
+async function listAll(session: McpSession, method: string, key: string): Promise<Record<string, unknown>[]> {
+  const items: Record<string, unknown>[] = []
+  let cursor: string | undefined
+  for (let page = 0; page < MAX_PAGES; page++) {
+    let result: Record<string, unknown> | undefined
+    try {
+      result = asRecord(await session.request(method, cursor ? { cursor } : {}))
+    } catch (error) {
+      // Servers without the capability answer "method not found"
+      if (error instanceof McpRpcError && error.code === -32601) break
+      throw error
+    }
+    const entries = result?.[key]
+    if (Array.isArray(entries)) {
+      for (const entry of entries) {
+        const item = asRecord(entry)
+        if (item) items.push(item)
+      }
+    }
+    cursor = optionalString(result?.nextCursor) || undefined
+    if (!cursor) break
+  }
+  return items
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined
+}
+
+function isContentItem(value: unknown): value is McpToolCallResult["content"][number] {
+  const item = asRecord(value)
+  return typeof item?.type === "string" && (item.text === undefined || typeof item.text === "string")
+}
+
+function openLocalTransport(commandLine: string[], environment: Record<string, string> | undefined): McpTransport {
+  const [command, ...args] = commandLine
+  if (!command) {
+    throw new Error("No command specified")
+  }
+
+  const proc: ChildProcess = spawn(command, args, {
+    env: { ...process.env, ...environment },
+    stdio: ["pipe", "pipe", "ignore"],
+    shell: true,
+  })
+  const pending = new Map<number, (response: JsonRpcResponse) => void>()
+  let failure: Error | null = null
+  const fail = (error: Error) => {
+    failure = failure ?? error
+    for (const resolve of pending.values()) resolve({ error: { code: -1, message: failure.message } })
+    pending.clear()
+  }
+
+  let buffer = ""
+  proc.stdout?.on("data", (data) => {
+    buffer += data.toString()
+    const lines = buffer.split("\n")
+    buffer = lines.pop() || ""
+    for (const line of lines) {
+      if (!line.trim()) continue
+      try {
+        const message = JSON.parse(line) as JsonRpcResponse
+        if (typeof message.id === "number") {
+          pending.get(message.id)?.(message)
+          pending.delete(message.id)
+        }
+      } catch {
+        // Not JSON-RPC, e.g. startup output
+      }
+    }
+  })
+  proc.on("error", (error) => fail(new Error(`Failed to start server: ${error.message}`)))
+  proc.on("exit", (code) => fail(new Error(`Server exited with code ${code}`)))
+  proc.stdin?.on("error", () => {
+    // Reported through the exit handler
+  })
+
+  const send: RpcSend = (method, params, id) => {
+    if (failure) return Promise.reject(failure)
+    const message = id === undefined ? { jsonrpc: "2.0", method, params } : { jsonrpc: "2.0", id, method, params }
+    proc.stdin?.write(JSON.stringify(message) + "\n")
+    if (id === undefined) return Promise.resolve(null)
+    return new Promise((resolve) => pending.set(id, resolve))
+  }
+
+  return {
+    send,
+    close: () => {
+      proc.removeAllListeners("exit")
+      if (!proc.killed) proc.kill("SIGTERM")
+    },
+  }
+}
+
+/**
+ * Streamable HTTP transport: every request is a POST whose answer is either
+ * a JSON body or a short SSE stream carrying the response.
+ */
+function openRemoteTransport(url: string, headers: Record<string, string> | undefined): McpTransport {
+  const controller = new AbortController()
+  let sessionId: string | undefined
+
+  const send: RpcSend = async (method, params, id) => {
+    const message = id === undefined ? { jsonrpc: "2.0", method, params } : { jsonrpc: "2.0", id, method, params }
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+        ...headers,
+      },
+      body: JSON.stringify(message),
+      signal: controller.signal,
+    })
+    sessionId = response.headers.get("mcp-session-id") ?? sessionId
+    if (id === undefined) {
+      await response.body?.cancel()
+      return null
+    }
+    if (!response.ok) {
+      throw new Error(`Server returned status ${response.status}`)
+    }
+
+    const body = await response.text()
+    if ((response.headers.get("content-type") ?? "").includes("text/event-stream")) {
+      for (const line of body.split("\n")) {
+        if (!line.startsWith("data:")) continue
+        try {
+          const event = JSON.parse(line.slice(5).trim()) as JsonRpcResponse
+          if (event.id === id) return event
+        } catch {
+          // Ignore non-JSON events
+        }
+      }
+      return null
+    }
+    return JSON.parse(body) as JsonRpcResponse
+  }
+
+  return { send, close: () => controller.abort() }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined
+  const expiry = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Server did not respond within ${timeout / 1000} seconds`)), timeout)
+  })
+  return Promise.race([promise, expiry]).finally(() => clearTimeout(timer))
+}
@@ -0,0 +1,112 @@
+import { type ToolManual, type ToolRoutingConfig } from "./types"
+import type { ToolRegistry } from "./tool-registry"
+
+/**
+ * Translates ToolRegistry routing into OpenCode's config format.
+ *
+ * OpenCode disables tools through `tools: { name: false }` maps, both
+ * globally and per agent. The generated config only lists denied tools so
+ * anything the registry doesn't know about keeps OpenCode's own default.
+ */
+
+export interface OpenCodeToolConfig {
+  tools?: Record<string, boolean>
+  agent?: Record<string, { tools?: Record<string, boolean> }>
+}
+
+/** Environment variable OpenCode merges into its loaded config */
+export const OPENCODE_CONFIG_CONTENT_ENV = "OPENCODE_CONFIG_CONTENT"
+
+/** Agents every OpenCode binary has */
+export const OPENCODE_BUILTIN_AGENTS = ["build", "plan", "general", "explore"]
+
+/** OpenCode agents whose tool profile is named differently */
+const AGENT_PROFILE_NAMES: Record<string, string> = {
+  build: "main",
+}
+
+/**
+ * Name OpenCode gives a tool. MCP tools are exposed as
+ * `<server>_<tool>` with characters outside [a-zA-Z0-9_-] replaced.
+ */
+export function openCodeToolName(tool: ToolManual): string {
+  if (tool.source !== "mcp" || !tool.mcpServer) return tool.name
+  const sanitize = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, "_")
+  return `${sanitize(tool.mcpServer)}_${sanitize(tool.name)}`
+}
+
+/**
+ * Build the tool section of the OpenCode config for the agents the binary
+ * has plus any agent the user configured overrides for. Profiles of agents
+ * the binary doesn't have are left out, as OpenCode would add them as agents.
+ */
+export function buildOpenCodeToolConfig(
+  registry: ToolRegistry,
+  config?: ToolRoutingConfig,
+  agents: string[] = OPENCODE_BUILTIN_AGENTS,
+): OpenCodeToolConfig {
+  const allTools = registry.getAllTools()
+  const result: OpenCodeToolConfig = {}
+
+  const globalDeny = config?.globalDeny ?? []
+  if (globalDeny.length > 0) {
+    result.tools = {}
+    for (const name of globalDeny) {
+      const tool = registry.getTool(name)
+      result.tools[tool ? openCodeToolName(tool) : name] = false
+    }
+  }
+
+  const profileAgents = new Map(Object.entries(AGENT_PROFILE_NAMES).map(([agent, profile]) => [profile, agent]))
+  const configured = Object.keys(config?.profiles ?? {}).map((profile) => profileAgents.get(profile) ?? profile)
+  for (const agent of new Set([...agents, ...configured])) {
+    const agentType = AGENT_PROFILE_NAMES[agent] ?? agent
+    const allowed = new Set(registry.getToolsForAgent(agentType, config).map((tool) => tool.name))
+    const denied: Record<string, boolean> = {}
+    for (const tool of allTools) {
+      if (!allowed.has(tool.name)) {
+        denied[openCodeToolName(tool)] = false
+      }
+    }
+    if (Object.keys(denied).length === 0) continue
+    result.agent = result.agent ?? {}
+    result.agent[agent] = { tools: denied }
+  }
+
+  return result
+}
+
+/**
+ * Merge generated tool config into an existing OPENCODE_CONFIG_CONTENT
+ * value (e.g. one set through the environment variables preference).
+ * Routing denials win over the user's tool maps; other keys are preserved.
+ */
+export function mergeOpenCodeConfigContent(existing: string | undefined, generated: OpenCodeToolConfig): string {
+  let base: Record<string, unknown> = {}
+  if (existing) {
+    try {
+      base = asRecord(JSON.parse(existing))
+    } catch {
+      // Invalid user content; OpenCode would reject it anyway
+    }
+  }
+
+  const merged: Record<string, unknown> = { ...base }
+  if (generated.tools) {
+    merged.tools = { ...asRecord(base.tools), ...generated.tools }
+  }
+  if (generated.agent) {
+    const agents = { ...asRecord(base.agent) }
+    for (const [name, agent] of Object.entries(generated.agent)) {
+      const current = asRecord(agents[name])
+      agents[name] = { ...current, tools: { ...asRecord(current.tools), ...agent.tools } }
+    }
+    merged.agent = agents
+  }
+  return JSON.stringify(merged)
+}
+
+/** A JSON object, or an empty one for anything else */
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {}
+}
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import pino from "pino"
+import type { WorkspaceDescriptor } from "../../api-types"
+import type { BinaryRegistry } from "../../config/binaries"
+import type { ConfigStore } from "../../config/store"
+import { EventBus } from "../../events/bus"
+import { getConflictDetector, removeConflictDetector } from "../../filesystem/conflict-detector"
+import { WorkspaceFileWriteError } from "../../filesystem/workspace-file-writer"
+import { WorkspaceManager } from "../manager"
+
+describe("workspace file writes", () => {
+  let root: string
+  let manager: WorkspaceManager
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "workspace-write-"))
+    fs.writeFileSync(path.join(root, "notes.md"), "first")
+    manager = new WorkspaceManager({
+      rootDir: root,
+      configStore: {} as ConfigStore,
+      binaryRegistry: {} as BinaryRegistry,
+      eventBus: new EventBus(),
+      logger: pino({ level: "silent" }),
+    })
+    // Register the folder without launching an instance
+    const workspaces = (manager as unknown as { workspaces: Map<string, WorkspaceDescriptor> }).workspaces
+    workspaces.set("ws", { id: "ws", path: root } as WorkspaceDescriptor)
+  })
+
+  afterEach(() => {
+    removeConflictDetector(root)
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it("writes when the expected hash matches the file on disk", async () => {
+    const { hash } = manager.readFile("ws", "notes.md")
+    const result = await manager.writeFile("ws", { path: "notes.md", contents: "second", expectedHash: hash })
+
+    assert.equal(result.previousHash, hash)
+    assert.equal(result.hash, manager.readFile("ws", "notes.md").hash)
+    assert.equal(fs.readFileSync(path.join(root, "notes.md"), "utf-8"), "second")
+  })
+
+  it("rejects stale writes after an external change", async () => {
+    const { hash } = manager.readFile("ws", "notes.md")
+    fs.writeFileSync(path.join(root, "notes.md"), "edited by an agent")
+
+    await assert.rejects(
+      manager.writeFile("ws", { path: "notes.md", contents: "clobber", expectedHash: hash }),
+      (error: unknown) =>
+        error instanceof WorkspaceFileWriteError &&
+        error.statusCode === 412 &&
+        error.details.lastModifiedBy === "external",
+    )
+    assert.equal(fs.readFileSync(path.join(root, "notes.md"), "utf-8"), "edited by an agent")
+
+    await manager.writeFile("ws", {
+      path: "notes.md",
+      contents: "forced",
+      expectedHash: hash,
+      resolution: "last-write-wins",
+    })
+    assert.equal(fs.readFileSync(path.join(root, "notes.md"), "utf-8"), "forced")
+  })
+
+  it("keeps the replaced and the written content in the history", async () => {
+    await manager.writeFile("ws", { path: "notes.md", contents: "second" })
+
+    const store = getConflictDetector(root)!.getVersionStore()
+    const history = await store.getHistory(path.join(root, "notes.md"))
+    const contents = await Promise.all(history.map((version) => store.readContent(version.hash)))
+    assert.deepEqual(contents.sort(), ["first", "second"])
+  })
+
+  it("doesn't register a write that failed to reach the disk", async () => {
+    // The parent is a file, so the write fails after the lock is taken
+    await assert.rejects(
+      manager.writeFile("ws", { path: "notes.md/child.md", contents: "lost" }),
+      (error: unknown) => error instanceof WorkspaceFileWriteError && error.statusCode === 500,
+    )
+
+    const detector = getConflictDetector(root)!
+    const absolutePath = path.join(root, "notes.md", "child.md")
+    assert.equal(detector.getTracker().getTrackedFile(absolutePath), null)
+    assert.deepEqual(await detector.getVersionStore().getHistory(absolutePath), [])
+  })
+
+  it("refuses paths outside the workspace", async () => {
+    await assert.rejects(manager.writeFile("ws", { path: "../escape.txt", contents: "x" }), /outside of root/)
+  })
+})
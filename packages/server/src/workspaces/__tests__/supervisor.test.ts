@@ -0,0 +1,70 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { EventBus } from "../../events/bus"
+import type { WorkspaceDescriptor } from "../../api-types"
+import { DEFAULT_SUPERVISOR_POLICY, planRestart, WorkspaceSupervisor } from "../supervisor"
+
+const policy = DEFAULT_SUPERVISOR_POLICY
+const minutes = (count: number) => count * 60 * 1000
+
+describe("planRestart", () => {
+  it("backs off exponentially up to the maximum delay", () => {
+    const delays = [1, 2, 3].map((attempt) => {
+      const crashes = Array.from({ length: attempt }, (_, index) => ({ at: index * minutes(2), uptimeMs: 1000 }))
+      return planRestart(crashes, { ...policy, maxDelayMs: 3000 })
+    })
+    assert.deepEqual(delays, [
+      { action: "restart", attempt: 1, delayMs: 1000 },
+      { action: "restart", attempt: 2, delayMs: 2000 },
+      { action: "restart", attempt: 3, delayMs: 3000 },
+    ])
+  })
+
+  it("gives up after the maximum attempts", () => {
+    const crashes = Array.from({ length: 6 }, (_, index) => ({ at: index * minutes(2), uptimeMs: minutes(1) }))
+    assert.deepEqual(planRestart(crashes, policy), { action: "give-up", attempt: 6, reason: "max-attempts" })
+  })
+
+  it("detects a crash loop", () => {
+    const crashes = [0, 2000, 5000].map((at) => ({ at, uptimeMs: 500 }))
+    assert.deepEqual(planRestart(crashes, policy), { action: "give-up", attempt: 3, reason: "crash-loop" })
+  })
+
+  it("doesn't restart when restarts are disabled", () => {
+    assert.deepEqual(planRestart([{ at: 0, uptimeMs: 0 }], { ...policy, maxAttempts: 0 }), {
+      action: "give-up",
+      attempt: 1,
+      reason: "disabled",
+    })
+  })
+})
+
+describe("WorkspaceSupervisor", () => {
+  it("reports the last log lines and resets the budget after a stable run", () => {
+    const eventBus = new EventBus()
+    let now = 0
+    const supervisor = new WorkspaceSupervisor({ eventBus, getPolicy: () => policy, now: () => now })
+    const workspace = { id: "ws", path: "/projects/ws" } as WorkspaceDescriptor
+
+    eventBus.publish({ type: "workspace.started", workspace })
+    for (let line = 0; line < 60; line++) {
+      eventBus.publish({
+        type: "workspace.log",
+        entry: { workspaceId: "ws", timestamp: new Date(0).toISOString(), level: "info", message: `line ${line}` },
+      })
+    }
+    now = 1000
+    const first = supervisor.recordCrash(workspace, { code: 1, signal: null })
+    assert.equal(first.action, "restarting")
+    assert.equal(first.attempt, 1)
+    assert.equal(first.uptimeMs, 1000)
+    assert.equal(first.logs.length, 50)
+    assert.equal(first.logs.at(-1)?.message, "line 59")
+
+    eventBus.publish({ type: "workspace.started", workspace })
+    now += policy.stableUptimeMs
+    const second = supervisor.recordCrash(workspace, { code: 1, signal: null })
+    assert.equal(second.attempt, 1)
+    assert.deepEqual(supervisor.getReports("ws"), [first, second])
+  })
+})
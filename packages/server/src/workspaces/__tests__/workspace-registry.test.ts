@@ -0,0 +1,71 @@
+import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import { WorkspaceRegistry, type PersistedWorkspace } from "../workspace-registry"
+
+function persisted(id: string, lastOpenedAt: string): PersistedWorkspace {
+  return {
+    id,
+    folder: `/projects/${id}`,
+    binaryPath: "opencode",
+    binaryLabel: "opencode",
+    environment: { FOO: "bar" },
+    openSessionIds: [],
+    activeSessionId: null,
+    createdAt: lastOpenedAt,
+    lastOpenedAt,
+  }
+}
+
+describe("workspace registry", () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "workspace-registry-"))
+    filePath = path.join(dir, "workspaces.json")
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("round-trips workspaces, session state and the active workspace", () => {
+    const registry = new WorkspaceRegistry({ filePath })
+    registry.save(persisted("b", "2026-01-02T00:00:00.000Z"))
+    registry.save(persisted("a", "2026-01-01T00:00:00.000Z"))
+    registry.update("b", { openSessionIds: ["s1", "s2"], activeSessionId: "s2" })
+    registry.setActiveWorkspaceId("b")
+
+    const reloaded = new WorkspaceRegistry({ filePath })
+    assert.deepEqual(
+      reloaded.list().map((workspace) => workspace.id),
+      ["a", "b"],
+    )
+    assert.equal(reloaded.getActiveWorkspaceId(), "b")
+    assert.deepEqual(reloaded.getSessionStates().b, { openSessionIds: ["s1", "s2"], activeSessionId: "s2" })
+    assert.deepEqual(reloaded.get("b")?.environment, { FOO: "bar" })
+  })
+
+  it("forgets the active workspace when it is removed", () => {
+    const registry = new WorkspaceRegistry({ filePath })
+    registry.save(persisted("a", "2026-01-01T00:00:00.000Z"))
+    registry.setActiveWorkspaceId("a")
+    registry.setActiveWorkspaceId("missing")
+    assert.equal(registry.getActiveWorkspaceId(), "a")
+
+    registry.remove("a")
+    const reloaded = new WorkspaceRegistry({ filePath })
+    assert.equal(reloaded.getActiveWorkspaceId(), null)
+    assert.deepEqual(reloaded.list(), [])
+  })
+
+  it("starts empty when the file is invalid", () => {
+    fs.writeFileSync(filePath, JSON.stringify({ version: 2, workspaces: "nope" }))
+    const registry = new WorkspaceRegistry({ filePath })
+    assert.deepEqual(registry.list(), [])
+    assert.equal(registry.getActiveWorkspaceId(), null)
+  })
+})
@@ -1,3 +1,4 @@
+import path from "path"
 import { Agent, fetch } from "undici"
 import { Agent as UndiciAgent } from "undici"
 import { EventBus } from "../events/bus"
@@ -13,6 +14,8 @@ interface InstanceEventBridgeOptions {
   workspaceManager: WorkspaceManager
   eventBus: EventBus
   logger: Logger
+  /** Directories outside the workspace folder whose sessions belong to the workspace (session worktrees) */
+  getExtraDirectories?: (folder: string) => string[]
 }
 
 interface ActiveStream {
@@ -25,53 +28,115 @@ export class InstanceEventBridge {
 
   constructor(private readonly options: InstanceEventBridgeOptions) {
     const bus = this.options.eventBus
-    bus.on("workspace.started", (event) => this.startStream(event.workspace.id))
+    bus.on("workspace.started", (event) => {
+      this.startStream(event.workspace.id)
+      this.syncDirectoryStreams(event.workspace.id)
+    })
     bus.on("workspace.stopped", (event) => this.stopStream(event.workspaceId, "workspace stopped"))
     bus.on("workspace.error", (event) => this.stopStream(event.workspace.id, "workspace error"))
+    // A crashed instance comes back on a new port; drop the dead streams and
+    // let workspace.started attach fresh ones
+    bus.on("workspace.crashed", (event) => {
+      const restarting = event.report.action === "restarting"
+      this.detachStreams(event.workspace.id)
+      this.publishStatus(
+        event.workspace.id,
+        restarting ? "connecting" : "disconnected",
+        restarting ? "instance restarting" : "workspace crashed",
+      )
+    })
+    bus.on("worktree.updated", (event) => {
+      const folder = path.resolve(event.worktree.folder)
+      for (const workspace of this.options.workspaceManager.list()) {
+        if (this.streams.has(workspace.id) && path.resolve(workspace.path) === folder) {
+          this.syncDirectoryStreams(workspace.id)
+        }
+      }
+    })
   }
 
   shutdown() {
-    for (const [id, active] of this.streams) {
+    for (const [key, active] of this.streams) {
       active.controller.abort()
-      this.publishStatus(id, "disconnected")
+      if (!key.includes("\0")) {
+        this.publishStatus(key, "disconnected")
+      }
     }
     this.streams.clear()
   }
 
-  private startStream(workspaceId: string) {
-    if (this.streams.has(workspaceId)) {
+  private startStream(workspaceId: string, directory?: string) {
+    const key = directory ? directoryStreamKey(workspaceId, directory) : workspaceId
+    if (this.streams.has(key)) {
       return
     }
 
     const controller = new AbortController()
-    const task = this.runStream(workspaceId, controller.signal)
+    const task = this.runStream(workspaceId, controller.signal, directory)
       .catch((error) => {
         if (!controller.signal.aborted) {
-          this.options.logger.warn({ workspaceId, err: error }, "Instance event stream failed")
-          this.publishStatus(workspaceId, "error", error instanceof Error ? error.message : String(error))
+          this.options.logger.warn({ workspaceId, directory, err: error }, "Instance event stream failed")
+          if (!directory) {
+            this.publishStatus(workspaceId, "error", error instanceof Error ? error.message : String(error))
+          }
         }
       })
       .finally(() => {
-        const active = this.streams.get(workspaceId)
+        const active = this.streams.get(key)
         if (active?.controller === controller) {
-          this.streams.delete(workspaceId)
+          this.streams.delete(key)
         }
       })
 
-    this.streams.set(workspaceId, { controller, task })
+    this.streams.set(key, { controller, task })
   }
 
   private stopStream(workspaceId: string, reason?: string) {
+    if (this.detachStreams(workspaceId)) {
+      this.publishStatus(workspaceId, "disconnected", reason)
+    }
+  }
+
+  /** Abort every stream of a workspace; returns whether its main stream was running */
+  private detachStreams(workspaceId: string): boolean {
+    const prefix = directoryStreamKey(workspaceId, "")
+    for (const [key, active] of this.streams) {
+      if (key.startsWith(prefix)) {
+        active.controller.abort()
+        this.streams.delete(key)
+      }
+    }
+
     const active = this.streams.get(workspaceId)
     if (!active) {
-      return
+      return false
     }
     active.controller.abort()
     this.streams.delete(workspaceId)
-    this.publishStatus(workspaceId, "disconnected", reason)
+    return true
   }
 
-  private async runStream(workspaceId: string, signal: AbortSignal) {
+  /** Start and stop the streams of a workspace's extra directories to match the current list */
+  private syncDirectoryStreams(workspaceId: string) {
+    const workspace = this.options.workspaceManager.get(workspaceId)
+    if (!workspace || !this.options.getExtraDirectories) {
+      return
+    }
+    const wanted = new Set(this.options.getExtraDirectories(workspace.path))
+    const prefix = directoryStreamKey(workspaceId, "")
+
+    for (const [key, active] of this.streams) {
+      if (key.startsWith(prefix) && !wanted.has(key.slice(prefix.length))) {
+        active.controller.abort()
+        this.streams.delete(key)
+      }
+    }
+    for (const directory of wanted) {
+      this.startStream(workspaceId, directory)
+    }
+  }
+
+  private async runStream(workspaceId: string, signal: AbortSignal, directory?: string) {
     while (!signal.aborted) {
       const port = this.options.workspaceManager.getInstancePort(workspaceId)
       if (!port) {
@@ -79,23 +144,29 @@ export class InstanceEventBridge {
         continue
       }
 
-      this.publishStatus(workspaceId, "connecting")
+      if (!directory) {
+        this.publishStatus(workspaceId, "connecting")
+      }
 
       try {
-        await this.consumeStream(workspaceId, port, signal)
+        await this.consumeStream(workspaceId, port, signal, directory)
       } catch (error) {
         if (signal.aborted) {
           break
         }
-        this.options.logger.warn({ workspaceId, err: error }, "Instance event stream disconnected")
-        this.publishStatus(workspaceId, "error", error instanceof Error ? error.message : String(error))
+        this.options.logger.warn({ workspaceId, directory, err: error }, "Instance event stream disconnected")
+        if (!directory) {
+          this.publishStatus(workspaceId, "error", error instanceof Error ? error.message : String(error))
+        }
         await this.delay(RECONNECT_DELAY_MS, signal)
       }
     }
   }
 
-  private async consumeStream(workspaceId: string, port: number, signal: AbortSignal) {
-    const url = `http://${INSTANCE_HOST}:${port}/event`
+  private async consumeStream(workspaceId: string, port: number, signal: AbortSignal, directory?: string) {
+    // OpenCode scopes the event stream to a directory; sessions in worktrees need their own stream
+    const query = directory ? `?directory=${encodeURIComponent(directory)}` : ""
+    const url = `http://${INSTANCE_HOST}:${port}/event${query}`
     const response = await fetch(url, {
       headers: { Accept: "text/event-stream" },
       signal,
@@ -106,7 +177,9 @@ export class InstanceEventBridge {
       throw new Error(`Instance event stream unavailable (${response.status})`)
     }
 
-    this.publishStatus(workspaceId, "connected")
+    if (!directory) {
+      this.publishStatus(workspaceId, "connected")
+    }
 
     const reader = response.body.getReader()
     const decoder = new TextDecoder()
@@ -193,3 +266,7 @@ export class InstanceEventBridge {
     })
   }
 }
+
+function directoryStreamKey(workspaceId: string, directory: string) {
+  return `${workspaceId}\0${directory}`
+}
@@ -1,15 +1,49 @@
 import path from "path"
+import net from "net"
+import { existsSync } from "fs"
 import { spawnSync } from "child_process"
 import { EventBus } from "../events/bus"
 import { ConfigStore } from "../config/store"
 import { BinaryRegistry } from "../config/binaries"
 import { FileSystemBrowser } from "../filesystem/browser"
+import {
+  ConflictDetector,
+  createConflictDetector,
+  getConflictDetector,
+  removeConflictDetector,
+} from "../filesystem/conflict-detector"
 import { searchWorkspaceFiles, WorkspaceFileSearchOptions } from "../filesystem/search"
 import { clearWorkspaceSearchCache } from "../filesystem/search-cache"
-import { WorkspaceDescriptor, WorkspaceFileResponse, FileSystemEntry } from "../api-types"
-import { WorkspaceRuntime } from "./runtime"
+import { writeWorkspaceFile } from "../filesystem/workspace-file-writer"
+import { contentHashTracker } from "../server/safe-file-writer"
+import {
+  WorkspaceDescriptor,
+  WorkspaceFileResponse,
+  WorkspaceFileWriteRequest,
+  WorkspaceFileWriteResponse,
+  FileSystemEntry,
+  WorkspaceToolsResponse,
+  WorkspaceRestoreStateResponse,
+  WorkspaceSessionState,
+  WorkspaceCrashReport,
+} from "../api-types"
+import { isEraCodeBinary, WorkspaceRuntime } from "./runtime"
+import { findAdoptableWorkspacePid } from "./pid-registry"
+import { WorkspaceRegistry } from "./workspace-registry"
+import { DEFAULT_SUPERVISOR_POLICY, WorkspaceSupervisor } from "./supervisor"
 import { Logger } from "../logger"
 import { ToolRegistry } from "../tools/tool-registry"
+import type { ToolRoutingConfig } from "../tools/types"
+import { McpToolDiscovery, selectEnabledMcpServers, type McpDiscoveryResult } from "../tools/mcp-discovery"
+import {
+  buildOpenCodeToolConfig,
+  mergeOpenCodeConfigContent,
+  openCodeToolName,
+  OPENCODE_BUILTIN_AGENTS,
+  OPENCODE_CONFIG_CONTENT_ENV,
+} from "../tools/opencode-config"
+import type { Preferences } from "../config/schema"
+import { readProjectMcpConfig } from "../services/project-mcp-config"
 
 interface WorkspaceManagerOptions {
   rootDir: string
@@ -17,10 +51,24 @@ interface WorkspaceManagerOptions {
   binaryRegistry: BinaryRegistry
   eventBus: EventBus
   logger: Logger
+  /** Persisted workspaces (default: ~/.config/era-code/workspaces.json) */
+  registry?: WorkspaceRegistry
 }
 
 interface WorkspaceRecord extends WorkspaceDescriptor {}
 
+/**
+ * Bound on MCP tool discovery before a launch; servers that take longer
+ * launch without routing for their tools
+ */
+const LAUNCH_DISCOVERY_TIMEOUT_MS = 3000
+
+/** Writer identity for workspace file writes that don't name a session */
+const DEFAULT_FILE_WRITER = "workspace-api"
+
+/** How long an adopted process gets to accept a connection before it is treated as an orphan */
+const ADOPT_CONNECT_TIMEOUT_MS = 1000
+
 /**
  * Build the environment variables for a workspace process.
  * Extracted as a standalone function for testability.
@@ -36,10 +84,24 @@ export function buildWorkspaceEnvironment(prefs: Record<string, unknown>): Recor
 export class WorkspaceManager {
   private readonly workspaces = new Map<string, WorkspaceRecord>()
   private readonly toolRegistries = new Map<string, ToolRegistry>()
+  private readonly mcpDiscovery = new Map<string, McpDiscoveryResult[]>()
+  private readonly mcpToolDiscovery = new McpToolDiscovery({ maxTimeoutMs: LAUNCH_DISCOVERY_TIMEOUT_MS })
   private readonly runtime: WorkspaceRuntime
+  private readonly registry: WorkspaceRegistry
+  /** In-flight launches, so concurrent first accesses start a workspace once */
+  private readonly launches = new Map<string, Promise<WorkspaceDescriptor>>()
+  private readonly supervisor: WorkspaceSupervisor
 
   constructor(private readonly options: WorkspaceManagerOptions) {
     this.runtime = new WorkspaceRuntime(this.options.eventBus, this.options.logger)
+    this.registry = this.options.registry ?? new WorkspaceRegistry({ logger: this.options.logger })
+    this.supervisor = new WorkspaceSupervisor({
+      eventBus: this.options.eventBus,
+      getPolicy: () => ({
+        ...DEFAULT_SUPERVISOR_POLICY,
+        maxAttempts: this.options.configStore.get().preferences.crashRestartMaxAttempts,
+      }),
+    })
   }
 
   /** Get the ToolRegistry for a workspace, if one exists */
@@ -47,15 +109,56 @@ export class WorkspaceManager {
     return this.toolRegistries.get(workspaceId)
   }
 
+  /**
+   * List a workspace's tools, filtered by the `toolRouting` preference for
+   * `agent` when given. Reflects the registry built at launch.
+   */
+  listTools(workspaceId: string, agent?: string): WorkspaceToolsResponse {
+    this.requireWorkspace(workspaceId)
+    const registry = this.toolRegistries.get(workspaceId) ?? new ToolRegistry()
+    const routing = this.options.configStore.get().preferences.toolRouting as ToolRoutingConfig
+    const tools = agent ? registry.getToolsForAgent(agent, routing) : registry.getAllTools()
+
+    return {
+      workspaceId,
+      agent,
+      tools: tools.map((tool) => ({
+        name: tool.name,
+        displayName: tool.displayName,
+        description: tool.description,
+        category: tool.category,
+        secondaryCategories: tool.secondaryCategories,
+        source: tool.source,
+        mcpServer: tool.mcpServer,
+        riskLevel: tool.riskLevel,
+        mutating: tool.mutating,
+        openCodeName: openCodeToolName(tool),
+      })),
+      total: registry.size,
+      countsByCategory: registry.getToolCountByCategory(),
+      mcpServers: (this.mcpDiscovery.get(workspaceId) ?? []).map((result) => ({
+        server: result.server,
+        toolCount: result.tools.length,
+        error: result.error,
+      })),
+    }
+  }
+
   list(): WorkspaceDescriptor[] {
     return Array.from(this.workspaces.values())
   }
 
   /**
-   * Get the set of active workspace IDs
+   * Get the set of workspace IDs with a running or starting process. Restored
+   * workspaces that haven't been launched yet are not included, so stale PID
+   * registry entries for them are still cleaned up.
    */
   getActiveWorkspaceIds(): Set<string> {
-    return new Set(this.workspaces.keys())
+    const ids = new Set<string>()
+    for (const [id, workspace] of this.workspaces) {
+      if (workspace.pid || this.launches.has(id)) ids.add(id)
+    }
+    return ids
   }
 
   get(id: string): WorkspaceDescriptor | undefined {
@@ -66,6 +169,15 @@ export class WorkspaceManager {
     return this.workspaces.get(id)?.port
   }
 
+  /**
+   * The conflict detector of a running workspace. Detectors are started with
+   * the workspace's instance and stopped with it.
+   */
+  getConflictDetector(id: string): ConflictDetector | undefined {
+    const workspace = this.workspaces.get(id)
+    return workspace?.pid ? getConflictDetector(workspace.path) : undefined
+  }
+
   listFiles(workspaceId: string, relativePath = "."): FileSystemEntry[] {
     const workspace = this.requireWorkspace(workspaceId)
     const browser = new FileSystemBrowser({ rootDir: workspace.path })
@@ -85,9 +197,33 @@ export class WorkspaceManager {
       workspaceId,
       relativePath,
       contents,
+      hash: contentHashTracker.computeHash(contents),
     }
   }
 
+  /**
+   * Write a workspace file under the per-file write lock, rejecting stale
+   * writes (see writeWorkspaceFile for the precondition rules).
+   */
+  async writeFile(workspaceId: string, request: WorkspaceFileWriteRequest): Promise<WorkspaceFileWriteResponse> {
+    const workspace = this.requireWorkspace(workspaceId)
+    const absolutePath = new FileSystemBrowser({ rootDir: workspace.path }).resolveFile(request.path)
+    const result = await writeWorkspaceFile(
+      workspace.path,
+      {
+        absolutePath,
+        contents: request.contents,
+        sessionId: request.sessionId ?? DEFAULT_FILE_WRITER,
+        instanceId: request.instanceId ?? workspaceId,
+        expectedHash: request.expectedHash,
+        resolution: request.resolution,
+        createDirs: request.createDirs,
+      },
+      { eventBus: this.options.eventBus, logger: this.options.logger },
+    )
+    return { workspaceId, ...result }
+  }
+
   /**
    * Find an existing workspace by its folder path
    */
@@ -111,7 +247,7 @@ export class WorkspaceManager {
         { workspaceId: existing.id, folder: workspacePath },
         "Workspace already exists for this folder, returning existing"
       )
-      return existing
+      return existing.pid ? existing : this.ensureRunning(existing.id)
     }
 
     const id = `${Date.now().toString(36)}`
@@ -143,30 +279,178 @@ export class WorkspaceManager {
 
     this.workspaces.set(id, descriptor)
 
+    const prefs = this.options.configStore.get().preferences
+    this.registry.save({
+      id,
+      folder: workspacePath,
+      name,
+      binaryPath: resolvedBinaryPath,
+      binaryLabel: binary.label,
+      binaryVersion: descriptor.binaryVersion,
+      environment: buildWorkspaceEnvironment(prefs as unknown as Record<string, unknown>),
+      openSessionIds: [],
+      activeSessionId: null,
+      createdAt: descriptor.createdAt,
+      lastOpenedAt: descriptor.createdAt,
+    })
 
     this.options.eventBus.publish({ type: "workspace.created", workspace: descriptor })
 
-    const prefs = this.options.configStore.get().preferences
-    const environment = buildWorkspaceEnvironment(prefs as unknown as Record<string, unknown>)
+    return this.start(descriptor)
+  }
+
+  /**
+   * Launch a workspace that has no running process: a restored workspace on
+   * first access, or one that stopped or failed. Concurrent calls share the
+   * launch.
+   */
+  async ensureRunning(id: string): Promise<WorkspaceDescriptor> {
+    const workspace = this.requireWorkspace(id)
+    if (workspace.pid) return workspace
+
+    if (!this.launches.has(id)) {
+      // A manual relaunch replaces any pending supervised restart
+      this.supervisor.reset(id)
+      this.options.logger.info(
+        { workspaceId: id, folder: workspace.path },
+        workspace.restored ? "Launching restored workspace on first access" : "Relaunching workspace"
+      )
+      workspace.status = "starting"
+      workspace.error = undefined
+      workspace.updatedAt = new Date().toISOString()
+    }
+    return this.start(workspace)
+  }
+
+  /**
+   * Bring back the workspaces of the previous server run. A workspace whose
+   * process is still running (per the PID registry) is re-adopted; the others
+   * stay stopped until first accessed. Call before cleaning up orphaned
+   * processes, so adopted ones are spared. In the "fresh" startup mode the
+   * registry is cleared instead.
+   */
+  async restore(): Promise<{ restored: number; adopted: number }> {
+    if (this.options.configStore.get().preferences.workspaceStartupMode !== "restore") {
+      this.registry.clear()
+      return { restored: 0, adopted: 0 }
+    }
+
+    let restored = 0
+    let adopted = 0
+    for (const persisted of this.registry.list()) {
+      if (this.workspaces.has(persisted.id) || this.findByPath(persisted.folder)) continue
+      if (!existsSync(persisted.folder)) {
+        this.options.logger.warn({ workspaceId: persisted.id, folder: persisted.folder }, "Folder of persisted workspace is gone, forgetting it")
+        this.registry.remove(persisted.id)
+        continue
+      }
+
+      const descriptor: WorkspaceRecord = {
+        id: persisted.id,
+        path: persisted.folder,
+        name: persisted.name,
+        status: "stopped",
+        proxyPath: `/workspaces/${persisted.id}/instance`,
+        binaryId: persisted.binaryPath,
+        binaryLabel: persisted.binaryLabel,
+        binaryVersion: persisted.binaryVersion,
+        createdAt: persisted.createdAt,
+        updatedAt: new Date().toISOString(),
+        restored: true,
+      }
+      this.workspaces.set(descriptor.id, descriptor)
+      this.options.eventBus.publish({ type: "workspace.created", workspace: descriptor })
+      restored++
+
+      if (await this.adopt(descriptor)) adopted++
+    }
 
-    // Create a ToolRegistry for this workspace (populated with built-in tools;
-    // MCP tools will be registered as MCP servers connect via event bus)
-    const toolRegistry = new ToolRegistry()
-    this.toolRegistries.set(id, toolRegistry)
+    if (restored > 0) {
+      this.options.logger.info({ restored, adopted }, "Restored workspaces from previous run")
+    }
+    return { restored, adopted }
+  }
+
+  /** Open session tabs and active session of every workspace, and the active workspace */
+  getRestoreState(): WorkspaceRestoreStateResponse {
+    const sessions = this.registry.getSessionStates()
+    for (const id of Object.keys(sessions)) {
+      if (!this.workspaces.has(id)) delete sessions[id]
+    }
+    const activeWorkspaceId = this.registry.getActiveWorkspaceId()
+    return {
+      activeWorkspaceId: activeWorkspaceId && this.workspaces.has(activeWorkspaceId) ? activeWorkspaceId : null,
+      sessions,
+    }
+  }
+
+  /** Reports of the workspace's recent crashes, oldest first */
+  getCrashReports(id: string): WorkspaceCrashReport[] {
+    this.requireWorkspace(id)
+    return this.supervisor.getReports(id)
+  }
+
+  saveSessionState(id: string, state: WorkspaceSessionState) {
+    this.requireWorkspace(id)
+    this.registry.update(id, { openSessionIds: state.openSessionIds, activeSessionId: state.activeSessionId })
+  }
+
+  setActiveWorkspace(id: string | null) {
+    if (id !== null) this.requireWorkspace(id)
+    this.registry.setActiveWorkspaceId(id)
+  }
+
+  /** Launch the workspace's process with the binary and environment it was created with */
+  private start(descriptor: WorkspaceRecord): Promise<WorkspaceDescriptor> {
+    const pending = this.launches.get(descriptor.id)
+    if (pending) return pending
+
+    const launch = this.launch(descriptor).finally(() => this.launches.delete(descriptor.id))
+    this.launches.set(descriptor.id, launch)
+    return launch
+  }
+
+  private async launch(descriptor: WorkspaceRecord): Promise<WorkspaceDescriptor> {
+    const id = descriptor.id
+    const workspacePath = descriptor.path
+    const persisted = this.registry.get(id)
+    const prefs = this.options.configStore.get().preferences
+    const environment = {
+      ...(persisted?.environment ?? buildWorkspaceEnvironment(prefs as unknown as Record<string, unknown>)),
+    }
 
     try {
+      // Build the workspace's ToolRegistry from the built-in tools and the tools
+      // of every enabled MCP server, then hand OpenCode the denials of the
+      // agents the binary has
+      const toolRegistry = await this.buildToolRegistry(id, workspacePath, prefs)
+      this.toolRegistries.set(id, toolRegistry)
+      const eraAgents = isEraCodeBinary(descriptor.binaryId) ? (persisted?.eraConfig?.agents ?? []) : []
+      const agents = [
+        ...OPENCODE_BUILTIN_AGENTS,
+        ...eraAgents.map((file) => path.basename(file, path.extname(file))),
+      ]
+      environment[OPENCODE_CONFIG_CONTENT_ENV] = mergeOpenCodeConfigContent(
+        environment[OPENCODE_CONFIG_CONTENT_ENV] ?? process.env[OPENCODE_CONFIG_CONTENT_ENV],
+        buildOpenCodeToolConfig(toolRegistry, prefs.toolRouting as ToolRoutingConfig, agents),
+      )
+
       const { pid, port } = await this.runtime.launch({
         workspaceId: id,
         folder: workspacePath,
-        binaryPath: resolvedBinaryPath,
+        binaryPath: descriptor.binaryId,
         environment,
+        eraConfig: persisted?.eraConfig,
         onExit: (info) => this.handleProcessExit(info.workspaceId, info),
       })
 
       descriptor.pid = pid
       descriptor.port = port
       descriptor.status = "ready"
+      descriptor.restored = undefined
       descriptor.updatedAt = new Date().toISOString()
+      this.registry.update(id, { lastOpenedAt: descriptor.updatedAt })
+      this.startConflictDetector(descriptor)
       this.options.eventBus.publish({ type: "workspace.started", workspace: descriptor })
       this.options.logger.info({ workspaceId: id, port }, "Workspace ready")
       return descriptor
@@ -212,8 +496,12 @@ export class WorkspaceManager {
     }
 
     this.workspaces.delete(id)
+    this.registry.remove(id)
+    this.supervisor.forget(id)
     this.toolRegistries.delete(id)
+    this.mcpDiscovery.delete(id)
     clearWorkspaceSearchCache(workspace.path)
+    removeConflictDetector(workspace.path)
 
     // Always publish stopped event after successful deletion
     this.options.eventBus.publish({ type: "workspace.stopped", workspaceId: id })
@@ -231,6 +519,7 @@ export class WorkspaceManager {
 
   async shutdown() {
     this.options.logger.info("Shutting down all workspaces")
+    this.supervisor.shutdown()
     for (const [id, workspace] of this.workspaces) {
       if (workspace.pid) {
         this.options.logger.info({ workspaceId: id }, "Stopping workspace during shutdown")
@@ -240,11 +529,85 @@ export class WorkspaceManager {
       } else {
         this.options.logger.debug({ workspaceId: id }, "Workspace already stopped")
       }
+      removeConflictDetector(workspace.path)
     }
     this.workspaces.clear()
     this.options.logger.info("All workspaces cleared")
   }
 
+  private async buildToolRegistry(workspaceId: string, folder: string, prefs: Preferences): Promise<ToolRegistry> {
+    const registry = new ToolRegistry()
+
+    // Project servers replace global ones of the same name (including their
+    // global enabled state); project overrides win over both
+    const project = readProjectMcpConfig(folder)
+    const desiredState = { ...prefs.mcpDesiredState }
+    for (const name of Object.keys(project.servers)) delete desiredState[name]
+    const servers = selectEnabledMcpServers(
+      { ...prefs.mcpRegistry, ...project.servers },
+      { ...desiredState, ...project.overrides },
+    )
+    const results = await this.mcpToolDiscovery.discoverAll(servers)
+
+    for (const result of results) {
+      if (result.error) {
+        this.options.logger.warn(
+          { workspaceId, server: result.server, error: result.error },
+          "MCP tool discovery failed; tools of this server are not routed",
+        )
+        continue
+      }
+      registry.registerMcpTools(result.server, result.tools)
+    }
+    this.mcpDiscovery.set(workspaceId, results)
+
+    this.options.logger.debug(
+      { workspaceId, builtin: registry.builtinCount, mcp: registry.mcpCount },
+      "Tool registry populated",
+    )
+    return registry
+  }
+
+  /**
+   * Take over the still-running process of a restored workspace, if the PID
+   * registry has one for its folder and it accepts connections
+   */
+  private async adopt(descriptor: WorkspaceRecord): Promise<boolean> {
+    const entry = findAdoptableWorkspacePid(descriptor.id, descriptor.path)
+    if (!entry?.port || !(await isPortListening(entry.port))) return false
+
+    this.runtime.adopt({
+      workspaceId: descriptor.id,
+      pid: entry.pid,
+      onExit: (info) => this.handleProcessExit(info.workspaceId, info),
+    })
+    descriptor.pid = entry.pid
+    descriptor.port = entry.port
+    descriptor.status = "ready"
+    descriptor.restored = undefined
+    descriptor.updatedAt = new Date().toISOString()
+    this.startConflictDetector(descriptor)
+
+    // The process already has its tool config; the registry only backs listTools
+    const prefs = this.options.configStore.get().preferences
+    void this.buildToolRegistry(descriptor.id, descriptor.path, prefs)
+      .then((registry) => this.toolRegistries.set(descriptor.id, registry))
+      .catch((error) => this.options.logger.warn({ workspaceId: descriptor.id, err: error }, "Failed to build tool registry"))
+
+    this.options.eventBus.publish({ type: "workspace.started", workspace: descriptor })
+    this.options.logger.info({ workspaceId: descriptor.id, pid: entry.pid, port: entry.port }, "Re-adopted running workspace process")
+    return true
+  }
+
+  private startConflictDetector(workspace: WorkspaceRecord) {
+    createConflictDetector({
+      workspaceRoot: workspace.path,
+      eventBus: this.options.eventBus,
+      logger: this.options.logger.child({ component: "conflict-detector", workspaceId: workspace.id }),
+      autoStart: true,
+    })
+  }
+
   private requireWorkspace(id: string): WorkspaceRecord {
     const workspace = this.workspaces.get(id)
     if (!workspace) {
@@ -336,7 +699,10 @@ export class WorkspaceManager {
     return undefined
   }
 
-  private handleProcessExit(workspaceId: string, info: { code: number | null; requested: boolean }) {
+  private handleProcessExit(
+    workspaceId: string,
+    info: { code: number | null; signal: NodeJS.Signals | null; requested: boolean },
+  ) {
     const workspace = this.workspaces.get(workspaceId)
     if (!workspace) return
 
@@ -345,15 +711,73 @@ export class WorkspaceManager {
     workspace.pid = undefined
     workspace.port = undefined
     workspace.updatedAt = new Date().toISOString()
+    removeConflictDetector(workspace.path)
 
     if (info.requested || info.code === 0) {
       workspace.status = "stopped"
       workspace.error = undefined
       this.options.eventBus.publish({ type: "workspace.stopped", workspaceId })
     } else {
+      this.handleCrash(workspace, { code: info.code, signal: info.signal })
+    }
+  }
+
+  /**
+   * Hand an unexpected exit to the supervisor: schedule a restart, or give up
+   * and leave the workspace in the error state
+   */
+  private handleCrash(workspace: WorkspaceRecord, exit: { code: number | null; signal: string | null; error?: string }) {
+    const report = this.supervisor.recordCrash(workspace, exit)
+    workspace.updatedAt = new Date().toISOString()
+
+    if (report.action === "gave-up") {
+      this.options.logger.error(
+        { workspaceId: workspace.id, attempt: report.attempt, reason: report.reason, exit },
+        "Workspace process crashed, not restarting",
+      )
       workspace.status = "error"
-      workspace.error = `Process exited with code ${info.code}`
+      workspace.error = exit.error ?? `Process exited with ${exit.signal ? `signal ${exit.signal}` : `code ${exit.code}`}`
+      this.options.eventBus.publish({ type: "workspace.crashed", workspace, report })
       this.options.eventBus.publish({ type: "workspace.error", workspace })
+      return
     }
+
+    this.options.logger.warn(
+      { workspaceId: workspace.id, attempt: report.attempt, delayMs: report.restartDelayMs, exit },
+      "Workspace process crashed, restarting",
+    )
+    workspace.status = "starting"
+    workspace.error = undefined
+    this.options.eventBus.publish({ type: "workspace.crashed", workspace, report })
+    this.supervisor.scheduleRestart(workspace.id, report.restartDelayMs ?? 0, () => this.restartCrashed(workspace.id))
+  }
+
+  private restartCrashed(workspaceId: string) {
+    const workspace = this.workspaces.get(workspaceId)
+    if (!workspace || workspace.pid || this.launches.has(workspaceId)) return
+
+    this.options.logger.info({ workspaceId }, "Restarting crashed workspace")
+    this.start(workspace).catch((error) => {
+      if (this.workspaces.get(workspaceId) !== workspace) return
+      this.handleCrash(workspace, {
+        code: null,
+        signal: null,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
   }
 }
+
+/** Whether something accepts TCP connections on the local port */
+function isPortListening(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.createConnection({ host: "127.0.0.1", port })
+    const finish = (listening: boolean) => {
+      socket.destroy()
+      resolve(listening)
+    }
+    socket.setTimeout(ADOPT_CONNECT_TIMEOUT_MS, () => finish(false))
+    socket.once("connect", () => finish(true))
+    socket.once("error", () => finish(false))
+  })
+}
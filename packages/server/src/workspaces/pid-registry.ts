@@ -41,6 +41,8 @@ const PID_REGISTRY_PATH = path.join(PID_REGISTRY_DIR, "workspace-pids.json")
 export interface WorkspacePidEntry {
   pid: number
   folder: string
+  /** Port the OpenCode server listens on; missing in entries from older versions */
+  port?: number
   startedAt: string
 }
 
@@ -85,15 +87,22 @@ function writeRegistry(registry: PidRegistry): void {
 /**
  * Register a workspace process in the PID registry
  */
-export function registerWorkspacePid(workspaceId: string, pid: number, folder: string, logger?: Logger): void {
+export function registerWorkspacePid(
+  workspaceId: string,
+  pid: number,
+  folder: string,
+  port: number,
+  logger?: Logger
+): void {
   const registry = readRegistry()
   registry.workspaces[workspaceId] = {
     pid,
     folder,
+    port,
     startedAt: new Date().toISOString(),
   }
   writeRegistry(registry)
-  logger?.debug({ workspaceId, pid, folder }, "Registered workspace PID")
+  logger?.debug({ workspaceId, pid, folder, port }, "Registered workspace PID")
 }
 
 /**
@@ -108,6 +117,19 @@ export function unregisterWorkspacePid(workspaceId: string, logger?: Logger): vo
   }
 }
 
+/**
+ * Find a still-running process of a workspace from a previous server run,
+ * so it can be re-adopted instead of killed as an orphan. Only entries for
+ * the same folder with a known port qualify.
+ */
+export function findAdoptableWorkspacePid(workspaceId: string, folder: string): WorkspacePidEntry | undefined {
+  const entry = readRegistry().workspaces[workspaceId]
+  if (!entry || entry.port === undefined || path.resolve(entry.folder) !== path.resolve(folder)) {
+    return undefined
+  }
+  return processExists(entry.pid) ? entry : undefined
+}
+
 /**
  * Kill a single process with verification
  * Returns true if process was killed successfully
@@ -109,15 +109,28 @@ interface ProcessExitInfo {
   requested: boolean
 }
 
+interface AdoptOptions {
+  workspaceId: string
+  pid: number
+  onExit?: (info: ProcessExitInfo) => void
+}
+
 interface ManagedProcess {
-  child: ChildProcess
+  /** Null for processes adopted from a previous server run */
+  child: ChildProcess | null
+  pid?: number
   requestedStop: boolean
+  /** Polls an adopted process, which can't be waited on, for its exit */
+  exitWatch?: NodeJS.Timeout
+  onExit?: (info: ProcessExitInfo) => void
 }
 
+const ADOPTED_EXIT_POLL_MS = 2000
+
 /**
  * Check if a binary path is era-code
  */
-function isEraCodeBinary(binaryPath: string): boolean {
+export function isEraCodeBinary(binaryPath: string): boolean {
   const basename = path.basename(binaryPath).toLowerCase()
   return basename.startsWith("era-code") || basename === "era-code.js"
 }
@@ -317,12 +330,14 @@ export class WorkspaceRuntime {
             const portMatch = line.match(/opencode server listening on http:\/\/.+:(\d+)/i)
             if (portMatch) {
               portFound = true
-              cleanupStreams()
+              // Keep reading output: it goes on streaming as workspace.log
+              // events, which crash reports are built from
+              stopWarningTimer()
               child.removeListener("error", handleError)
               const port = parseInt(portMatch[1], 10)
               this.logger.info({ workspaceId: options.workspaceId, port }, "Workspace runtime allocated port")
               // Register workspace PID for orphan cleanup
-              registerWorkspacePid(options.workspaceId, child.pid!, options.folder, this.logger)
+              registerWorkspacePid(options.workspaceId, child.pid!, options.folder, port, this.logger)
               resolve({ pid: child.pid!, port })
             }
           }
@@ -343,6 +358,28 @@ export class WorkspaceRuntime {
     })
   }
 
+  /**
+   * Take over a workspace process started by a previous server run. Its
+   * output isn't captured; its exit is noticed by polling.
+   */
+  adopt(options: AdoptOptions): void {
+    const managed: ManagedProcess = {
+      child: null,
+      pid: options.pid,
+      requestedStop: false,
+      onExit: options.onExit,
+    }
+    managed.exitWatch = setInterval(() => {
+      if (!this.processExists(options.pid)) {
+        this.logger.info({ workspaceId: options.workspaceId, pid: options.pid }, "Adopted OpenCode process exited")
+        this.releaseAdopted(options.workspaceId, managed)
+      }
+    }, ADOPTED_EXIT_POLL_MS)
+    managed.exitWatch.unref()
+    this.processes.set(options.workspaceId, managed)
+    this.logger.info({ workspaceId: options.workspaceId, pid: options.pid }, "Adopted running OpenCode process")
+  }
+
   /**
    * Check if a process is still running
    */
@@ -367,6 +404,9 @@ export class WorkspaceRuntime {
 
     managed.requestedStop = true
     const child = managed.child
+    if (!child) {
+      return this.stopAdopted(workspaceId, managed)
+    }
     const pid = child.pid
     this.logger.info({ workspaceId, pid }, "Stopping OpenCode process")
 
@@ -429,6 +469,43 @@ export class WorkspaceRuntime {
     return { stopped: true }
   }
 
+  /**
+   * Stop an adopted process, which isn't our child: signal its tree and poll
+   * until it is gone
+   */
+  private async stopAdopted(workspaceId: string, managed: ManagedProcess): Promise<{ stopped: boolean; error?: string }> {
+    const pid = managed.pid!
+    this.logger.info({ workspaceId, pid }, "Stopping adopted OpenCode process")
+
+    for (const [signal, timeoutMs] of [["SIGTERM", 3000], ["SIGKILL", 2000]] as const) {
+      killProcessTree(pid, signal, this.logger)
+      if (await this.waitForPidExit(pid, timeoutMs)) {
+        this.logger.info({ workspaceId, pid, signal }, "Adopted process stopped")
+        this.releaseAdopted(workspaceId, managed)
+        return { stopped: true }
+      }
+    }
+
+    this.logger.error({ workspaceId, pid }, "CRITICAL: Adopted process survived SIGKILL, may be unkillable")
+    return { stopped: false, error: `Process ${pid} survived SIGKILL and is still running` }
+  }
+
+  private releaseAdopted(workspaceId: string, managed: ManagedProcess) {
+    if (this.processes.get(workspaceId) !== managed) return
+    clearInterval(managed.exitWatch)
+    this.processes.delete(workspaceId)
+    unregisterWorkspacePid(workspaceId, this.logger)
+    managed.onExit?.({ workspaceId, code: null, signal: null, requested: managed.requestedStop })
+  }
+
+  private async waitForPidExit(pid: number, timeoutMs: number): Promise<boolean> {
+    for (let waited = 0; waited < timeoutMs; waited += 250) {
+      if (!this.processExists(pid)) return true
+      await this.sleep(250)
+    }
+    return !this.processExists(pid)
+  }
+
   /**
    * Wait for a child process to exit with timeout
    */
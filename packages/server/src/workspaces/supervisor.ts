@@ -0,0 +1,180 @@
+/**
+ * Workspace Supervisor
+ *
+ * Decides what happens when a workspace's OpenCode process exits without
+ * being asked to: restart it after an exponential backoff, or give up once
+ * the restart budget is spent or the process is crash-looping. It also keeps
+ * the last lines each process printed (from `workspace.log` events), so every
+ * crash comes with a report of what led up to it.
+ *
+ * The supervisor only plans and schedules; `WorkspaceManager` relaunches.
+ */
+import { EventBus } from "../events/bus"
+import type { WorkspaceCrashReport, WorkspaceLogEntry } from "../api-types"
+
+export interface SupervisorPolicy {
+  /** Restarts attempted before giving up; 0 disables restarts */
+  maxAttempts: number
+  initialDelayMs: number
+  maxDelayMs: number
+  /** A process that stayed up this long gets a fresh restart budget */
+  stableUptimeMs: number
+  /** This many crashes within `crashLoopWindowMs` is a crash loop */
+  crashLoopThreshold: number
+  crashLoopWindowMs: number
+}
+
+export const DEFAULT_SUPERVISOR_POLICY: SupervisorPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  stableUptimeMs: 5 * 60 * 1000,
+  crashLoopThreshold: 3,
+  crashLoopWindowMs: 60 * 1000,
+}
+
+export interface CrashRecord {
+  at: number
+  uptimeMs: number
+}
+
+export type RestartDecision =
+  | { action: "restart"; attempt: number; delayMs: number }
+  | { action: "give-up"; attempt: number; reason: NonNullable<WorkspaceCrashReport["reason"]> }
+
+interface ProcessExit {
+  code: number | null
+  signal: string | null
+  error?: string
+}
+
+interface WorkspaceSupervisorOptions {
+  eventBus: EventBus
+  getPolicy: () => SupervisorPolicy
+  now?: () => number
+}
+
+/** Log lines kept per workspace for crash reports */
+const CRASH_REPORT_LOG_LINES = 50
+/** Crash reports kept per workspace */
+const MAX_CRASH_REPORTS = 5
+
+/**
+ * Plan the response to a crash from the crashes since the workspace last ran
+ * stably, the latest one last
+ */
+export function planRestart(crashes: CrashRecord[], policy: SupervisorPolicy): RestartDecision {
+  const attempt = crashes.length
+  if (policy.maxAttempts <= 0) {
+    return { action: "give-up", attempt, reason: "disabled" }
+  }
+
+  const latest = crashes[crashes.length - 1]
+  const recent = latest ? crashes.filter((crash) => latest.at - crash.at < policy.crashLoopWindowMs) : []
+  if (recent.length >= policy.crashLoopThreshold) {
+    return { action: "give-up", attempt, reason: "crash-loop" }
+  }
+  if (attempt > policy.maxAttempts) {
+    return { action: "give-up", attempt, reason: "max-attempts" }
+  }
+
+  const delayMs = Math.min(policy.initialDelayMs * 2 ** Math.max(0, attempt - 1), policy.maxDelayMs)
+  return { action: "restart", attempt, delayMs }
+}
+
+export class WorkspaceSupervisor {
+  private readonly logs = new Map<string, WorkspaceLogEntry[]>()
+  private readonly startedAt = new Map<string, number>()
+  private readonly crashes = new Map<string, CrashRecord[]>()
+  private readonly reports = new Map<string, WorkspaceCrashReport[]>()
+  private readonly timers = new Map<string, NodeJS.Timeout>()
+  private readonly now: () => number
+
+  constructor(private readonly options: WorkspaceSupervisorOptions) {
+    this.now = options.now ?? Date.now
+    options.eventBus.on("workspace.log", (event) => this.recordLog(event.entry))
+    options.eventBus.on("workspace.started", (event) => this.startedAt.set(event.workspace.id, this.now()))
+  }
+
+  /** Record an unexpected exit and plan the response to it */
+  recordCrash(workspace: { id: string; path: string }, exit: ProcessExit): WorkspaceCrashReport {
+    const now = this.now()
+    const started = this.startedAt.get(workspace.id)
+    const uptimeMs = started === undefined ? 0 : now - started
+    this.startedAt.delete(workspace.id)
+
+    const policy = this.options.getPolicy()
+    const history = uptimeMs >= policy.stableUptimeMs ? [] : (this.crashes.get(workspace.id) ?? [])
+    history.push({ at: now, uptimeMs })
+    this.crashes.set(workspace.id, history)
+
+    const decision = planRestart(history, policy)
+    const report: WorkspaceCrashReport = {
+      workspaceId: workspace.id,
+      folder: workspace.path,
+      crashedAt: new Date(now).toISOString(),
+      exitCode: exit.code,
+      signal: exit.signal,
+      error: exit.error,
+      uptimeMs,
+      attempt: decision.attempt,
+      maxAttempts: policy.maxAttempts,
+      action: decision.action === "restart" ? "restarting" : "gave-up",
+      reason: decision.action === "give-up" ? decision.reason : undefined,
+      restartDelayMs: decision.action === "restart" ? decision.delayMs : undefined,
+      logs: [...(this.logs.get(workspace.id) ?? [])],
+    }
+
+    const reports = [...(this.reports.get(workspace.id) ?? []), report].slice(-MAX_CRASH_REPORTS)
+    this.reports.set(workspace.id, reports)
+    return report
+  }
+
+  /** Run `restart` after the delay, replacing a restart already scheduled for the workspace */
+  scheduleRestart(workspaceId: string, delayMs: number, restart: () => void) {
+    this.cancel(workspaceId)
+    const timer = setTimeout(() => {
+      this.timers.delete(workspaceId)
+      restart()
+    }, delayMs)
+    timer.unref()
+    this.timers.set(workspaceId, timer)
+  }
+
+  /** Cancel a pending restart */
+  cancel(workspaceId: string) {
+    clearTimeout(this.timers.get(workspaceId))
+    this.timers.delete(workspaceId)
+  }
+
+  /** Start a fresh restart budget, e.g. when the user relaunches a workspace */
+  reset(workspaceId: string) {
+    this.cancel(workspaceId)
+    this.crashes.delete(workspaceId)
+  }
+
+  /** Crash reports of a workspace, oldest first */
+  getReports(workspaceId: string): WorkspaceCrashReport[] {
+    return this.reports.get(workspaceId) ?? []
+  }
+
+  /** Drop everything kept for a workspace that is gone */
+  forget(workspaceId: string) {
+    this.reset(workspaceId)
+    this.logs.delete(workspaceId)
+    this.startedAt.delete(workspaceId)
+    this.reports.delete(workspaceId)
+  }
+
+  shutdown() {
+    for (const timer of this.timers.values()) clearTimeout(timer)
+    this.timers.clear()
+  }
+
+  private recordLog(entry: WorkspaceLogEntry) {
+    const lines = this.logs.get(entry.workspaceId) ?? []
+    lines.push(entry)
+    if (lines.length > CRASH_REPORT_LOG_LINES) lines.shift()
+    this.logs.set(entry.workspaceId, lines)
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Workspace Registry
+ *
+ * Persists the open workspaces so they survive a server restart: the folder,
+ * the binary and environment each was launched with, and the UI state to put
+ * back (open session tabs, the active session and the active workspace). The
+ * registry only describes workspaces; which processes are running is tracked
+ * by the PID registry, and `WorkspaceManager.restore` reconciles the two.
+ *
+ * Stored as one JSON file next to the config, rewritten on every change.
+ */
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { z } from "zod"
+import type { Logger } from "../logger"
+import type { WorkspaceSessionState } from "../api-types"
+
+const EraLaunchConfigSchema = z.object({
+  enabled: z.boolean(),
+  assetsPath: z.string(),
+  plugins: z.array(z.string()),
+  agents: z.array(z.string()),
+  commands: z.array(z.string()),
+  skills: z.array(z.string()),
+})
+
+const PersistedWorkspaceSchema = z.object({
+  id: z.string(),
+  folder: z.string(),
+  name: z.string().optional(),
+  binaryPath: z.string(),
+  binaryLabel: z.string(),
+  binaryVersion: z.string().optional(),
+  /** Environment the workspace process was launched with */
+  environment: z.record(z.string()).default({}),
+  eraConfig: EraLaunchConfigSchema.optional(),
+  openSessionIds: z.array(z.string()).default([]),
+  activeSessionId: z.string().nullable().default(null),
+  createdAt: z.string(),
+  lastOpenedAt: z.string(),
+})
+
+const RegistryFileSchema = z.object({
+  version: z.literal(1),
+  activeWorkspaceId: z.string().nullable().default(null),
+  workspaces: z.array(PersistedWorkspaceSchema).default([]),
+})
+
+export type PersistedWorkspace = z.infer<typeof PersistedWorkspaceSchema>
+
+interface WorkspaceRegistryOptions {
+  logger?: Logger
+  filePath?: string
+}
+
+const DEFAULT_FILE_PATH = path.join(os.homedir(), ".config", "era-code", "workspaces.json")
+
+export class WorkspaceRegistry {
+  private readonly filePath: string
+  private readonly workspaces = new Map<string, PersistedWorkspace>()
+  private activeWorkspaceId: string | null = null
+
+  constructor(private readonly options: WorkspaceRegistryOptions = {}) {
+    this.filePath = options.filePath ?? DEFAULT_FILE_PATH
+    this.load()
+  }
+
+  /** Persisted workspaces, most recently opened last */
+  list(): PersistedWorkspace[] {
+    return Array.from(this.workspaces.values()).sort((a, b) => a.lastOpenedAt.localeCompare(b.lastOpenedAt))
+  }
+
+  get(id: string): PersistedWorkspace | undefined {
+    return this.workspaces.get(id)
+  }
+
+  getActiveWorkspaceId(): string | null {
+    return this.activeWorkspaceId
+  }
+
+  /** Session state of every persisted workspace, by workspace id */
+  getSessionStates(): Record<string, WorkspaceSessionState> {
+    return Object.fromEntries(
+      Array.from(this.workspaces.values(), (workspace) => [
+        workspace.id,
+        { openSessionIds: workspace.openSessionIds, activeSessionId: workspace.activeSessionId },
+      ]),
+    )
+  }
+
+  save(workspace: PersistedWorkspace) {
+    this.workspaces.set(workspace.id, workspace)
+    this.write()
+  }
+
+  /** Update a persisted workspace; ignored when it isn't persisted */
+  update(id: string, changes: Partial<Omit<PersistedWorkspace, "id">>) {
+    const workspace = this.workspaces.get(id)
+    if (!workspace) return
+    this.workspaces.set(id, { ...workspace, ...changes })
+    this.write()
+  }
+
+  setActiveWorkspaceId(id: string | null) {
+    if (id !== null && !this.workspaces.has(id)) return
+    if (this.activeWorkspaceId === id) return
+    this.activeWorkspaceId = id
+    this.write()
+  }
+
+  remove(id: string) {
+    if (!this.workspaces.delete(id)) return
+    if (this.activeWorkspaceId === id) this.activeWorkspaceId = null
+    this.write()
+  }
+
+  clear() {
+    if (this.workspaces.size === 0 && this.activeWorkspaceId === null) return
+    this.workspaces.clear()
+    this.activeWorkspaceId = null
+    this.write()
+  }
+
+  private load() {
+    let content: string
+    try {
+      content = fs.readFileSync(this.filePath, "utf-8")
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.options.logger?.warn({ err, filePath: this.filePath }, "Failed to read workspace registry")
+      }
+      return
+    }
+
+    try {
+      const data = RegistryFileSchema.parse(JSON.parse(content))
+      for (const workspace of data.workspaces) this.workspaces.set(workspace.id, workspace)
+      this.activeWorkspaceId = data.activeWorkspaceId && this.workspaces.has(data.activeWorkspaceId) ? data.activeWorkspaceId : null
+    } catch (err) {
+      this.options.logger?.warn({ err, filePath: this.filePath }, "Ignoring invalid workspace registry")
+    }
+  }
+
+  private write() {
+    const data: z.input<typeof RegistryFileSchema> = {
+      version: 1,
+      activeWorkspaceId: this.activeWorkspaceId,
+      workspaces: Array.from(this.workspaces.values()),
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      const tmp = `${this.filePath}.tmp`
+      fs.writeFileSync(tmp, JSON.stringify(data, null, 2), "utf-8")
+      fs.renameSync(tmp, this.filePath)
+    } catch (err) {
+      this.options.logger?.warn({ err, filePath: this.filePath }, "Failed to write workspace registry")
+    }
+  }
+}
@@ -23,9 +23,17 @@ import InstanceInfoModal from "./components/instance-info-modal"
 import BottomStatusBar from "./components/bottom-status-bar"
 import ModelSelectorModal from "./components/model-selector-modal"
 import InstanceDisconnectedModal from "./components/instance-disconnected-modal"
+import InstanceCrashModal from "./components/instance-crash-modal"
 import ToolCallModal from "./components/tool-call-modal"
+import SessionSearchModal from "./components/session-search-modal"
+import SessionTreeModal from "./components/session-tree-modal"
+import SessionExportDialog from "./components/session-export-dialog"
+import ImportedSessionViewer from "./components/imported-session-viewer"
+import PromptTemplateDialog from "./components/prompt-template-dialog"
+import WorktreeMergeDialog from "./components/worktree-merge-dialog"
 import InstanceShell from "./components/instance/instance-shell2"
 import { RemoteAccessOverlay } from "./components/remote-access-overlay"
+import RemoteLoginDialog from "./components/remote-login-dialog"
 import { InstanceMetadataProvider } from "./lib/contexts/instance-metadata-context"
 import { initMarkdown } from "./lib/markdown"
 
@@ -35,6 +43,10 @@ import { useAppLifecycle } from "./lib/hooks/use-app-lifecycle"
 import { getLogger } from "./lib/logger"
 import { initReleaseNotifications } from "./stores/releases"
 import { initUpdateChecker } from "./stores/update-checker"
+import { initRemoteAuth } from "./stores/remote-auth"
+import { initGateNotifications } from "./stores/gates"
+import { initUsageBudget } from "./stores/usage-analytics"
+import { initSessionWorktrees } from "./stores/worktrees"
 import {
   checkGCloudAuth,
   isGCloudExpired,
@@ -80,8 +92,9 @@ import {
   getSessionInfo,
 } from "./stores/sessions"
 import { setActiveSession, sessionInfoByInstance } from "./stores/session-state"
+import { closeCrashedInstance, crashReport, restartCrashedInstance } from "./stores/crash-recovery"
 import { getGitStatus } from "./stores/workspace-state"
-import { getActiveMcpServerCount, setProjectMcpServer, fetchProjectMcpConfig } from "./stores/project-mcp"
+import { getActiveMcpServerCount, setProjectMcpServer } from "./stores/project-mcp"
 import { setSessionMcpOverride } from "./stores/session-mcp"
 import { instanceApi } from "./lib/instance-api"
 import { loadInstanceMetadata } from "./lib/hooks/use-instance-metadata"
@@ -164,8 +177,12 @@ const App: Component = () => {
   })
 
   createEffect(() => {
+    initRemoteAuth()
     initReleaseNotifications()
     initUpdateChecker()
+    initGateNotifications()
+    initUsageBudget()
+    initSessionWorktrees()
   })
 
   createEffect(() => {
@@ -691,7 +708,6 @@ const App: Component = () => {
     // Add to project if selected
     if (scopes.project && instance?.folder) {
       await setProjectMcpServer(instance.folder, name, config)
-      await fetchProjectMcpConfig(instance.folder)
     }
 
     // Add to session if selected (only affects current instance)
@@ -737,7 +753,6 @@ const App: Component = () => {
     // Add to project if selected
     if (scopes.project && instance?.folder) {
       await setProjectMcpServer(instance.folder, name, config)
-      await fetchProjectMcpConfig(instance.folder)
     }
 
     setAddMcpServerOpen(false)
@@ -819,6 +834,12 @@ const App: Component = () => {
         onClose={handleDisconnectedInstanceClose}
       />
 
+      <InstanceCrashModal
+        report={crashReport()}
+        onRestart={() => void restartCrashedInstance()}
+        onClose={() => void closeCrashedInstance()}
+      />
+
       <Dialog open={Boolean(launchErrorBinary())} modal>
         <Dialog.Portal>
           <Dialog.Overlay class="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm" />
@@ -1000,6 +1021,7 @@ const App: Component = () => {
         </Show>
  
         <RemoteAccessOverlay open={remoteAccessOpen()} onClose={() => setRemoteAccessOpen(false)} />
+        <RemoteLoginDialog />
 
         <SettingsPanel
           open={settingsPanelOpen()}
@@ -1177,6 +1199,13 @@ const App: Component = () => {
 
         <ToolCallModal />
 
+        <SessionSearchModal />
+        <SessionTreeModal />
+        <SessionExportDialog />
+        <ImportedSessionViewer />
+        <PromptTemplateDialog />
+        <WorktreeMergeDialog />
+
         <AlertDialog />
 
         <Toaster
@@ -1,5 +1,5 @@
-import { Component } from "solid-js"
-import { cn } from "../lib/cn"
+import { Component, Show, createEffect, createSignal } from "solid-js"
+import type { McpServerConfig } from "../stores/preferences"
 import {
   Dialog,
   DialogContent,
@@ -8,13 +8,21 @@ import {
   DialogTitle,
   DialogDescription,
 } from "./ui"
-import { Button } from "./ui"
+import { Button, Checkbox, Input, Label } from "./ui"
+
+export interface AddMcpServerScopes {
+  /** Global registry, applied to every instance */
+  global: boolean
+  /** The project's .era/mcp.json */
+  project: boolean
+  /** Only the current instance, until it stops */
+  session: boolean
+}
 
 export interface AddMcpServerResult {
   name: string
-  command: string
-  args?: string[]
-  env?: Record<string, string>
+  config: McpServerConfig
+  scopes: AddMcpServerScopes
 }
 
 interface AddMcpServerModalProps {
@@ -27,21 +35,123 @@ interface AddMcpServerModalProps {
 }
 
 const AddMcpServerModal: Component<AddMcpServerModalProps> = (props) => {
+  const [name, setName] = createSignal("")
+  const [type, setType] = createSignal<McpServerConfig["type"]>("local")
+  const [command, setCommand] = createSignal("")
+  const [url, setUrl] = createSignal("")
+  const [scopes, setScopes] = createSignal<AddMcpServerScopes>({ global: true, project: false, session: false })
+
+  createEffect(() => {
+    if (!props.open) return
+    setName("")
+    setCommand("")
+    setUrl("")
+    setScopes({ global: true, project: false, session: false })
+  })
+
+  const buildResult = (): AddMcpServerResult | null => {
+    const serverName = name().trim()
+    if (!serverName) return null
+
+    let config: McpServerConfig
+    if (type() === "local") {
+      const parts = command()
+        .split(" ")
+        .map((segment) => segment.trim())
+        .filter(Boolean)
+      if (parts.length === 0) return null
+      config = { type: "local", command: parts, enabled: true }
+    } else {
+      const serverUrl = url().trim()
+      if (!serverUrl) return null
+      config = { type: "remote", url: serverUrl, enabled: true }
+    }
+
+    const selected = scopes()
+    if (!selected.global && !selected.project && !selected.session) return null
+    return { name: serverName, config, scopes: selected }
+  }
+
+  const setScope = (scope: keyof AddMcpServerScopes, checked: boolean) => setScopes((prev) => ({ ...prev, [scope]: checked }))
+
+  const submit = (handler?: (result: AddMcpServerResult) => void) => {
+    const result = buildResult()
+    if (result) handler?.(result)
+  }
+
   return (
     <Dialog open={props.open} onOpenChange={(open) => !open && props.onClose()}>
       <DialogContent class="max-w-[min(640px,calc(100vw-32px))] max-h-[calc(100vh-64px)] flex flex-col rounded-xl shadow-xl">
         <DialogHeader class="px-5 py-4 border-b border-border">
           <DialogTitle>Add MCP Server</DialogTitle>
+          <DialogDescription>Choose where the server is configured. Project servers replace global ones of the same name.</DialogDescription>
         </DialogHeader>
-        <div class="flex-1 overflow-y-auto p-5">
-          <p class="text-muted-foreground text-sm">
-            MCP server configuration coming soon.
-          </p>
+        <div class="flex-1 overflow-y-auto p-5 space-y-4">
+          <div class="flex flex-col gap-1">
+            <Label class="text-xs text-muted-foreground">Name</Label>
+            <Input value={name()} onInput={(event) => setName(event.currentTarget.value)} placeholder="e.g. context7" />
+          </div>
+
+          <div class="flex flex-col gap-1">
+            <Label class="text-xs text-muted-foreground">Type</Label>
+            <select
+              class="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs"
+              value={type()}
+              onChange={(event) => setType(event.currentTarget.value as McpServerConfig["type"])}
+            >
+              <option value="local">local</option>
+              <option value="remote">remote</option>
+            </select>
+          </div>
+
+          <Show
+            when={type() === "local"}
+            fallback={
+              <div class="flex flex-col gap-1">
+                <Label class="text-xs text-muted-foreground">URL</Label>
+                <Input value={url()} onInput={(event) => setUrl(event.currentTarget.value)} placeholder="https://mcp.example.com/mcp" />
+              </div>
+            }
+          >
+            <div class="flex flex-col gap-1">
+              <Label class="text-xs text-muted-foreground">Command</Label>
+              <Input
+                value={command()}
+                onInput={(event) => setCommand(event.currentTarget.value)}
+                placeholder="npx -y @modelcontextprotocol/server-everything"
+              />
+            </div>
+          </Show>
+
+          <div class="flex flex-col gap-2">
+            <Label class="text-xs text-muted-foreground">Scope</Label>
+            <Checkbox checked={scopes().global} onChange={(checked) => setScope("global", checked)} label="Global (all projects)" />
+            <Checkbox
+              checked={scopes().project}
+              disabled={!props.folder}
+              onChange={(checked) => setScope("project", checked)}
+              label="This project (.era/mcp.json)"
+            />
+            <Checkbox
+              checked={scopes().session}
+              disabled={!props.instanceId}
+              onChange={(checked) => setScope("session", checked)}
+              label="This session only"
+            />
+          </div>
         </div>
         <DialogFooter class="px-5 py-3 border-t border-border">
           <Button variant="secondary" size="sm" onClick={props.onClose}>
             Cancel
           </Button>
+          <Show when={props.onApplyToAll}>
+            <Button variant="secondary" size="sm" disabled={!buildResult() || scopes().session} onClick={() => submit(props.onApplyToAll)}>
+              Add to All Instances
+            </Button>
+          </Show>
+          <Button size="sm" disabled={!buildResult()} onClick={() => submit(props.onApply)}>
+            Add
+          </Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
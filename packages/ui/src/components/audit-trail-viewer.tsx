@@ -1,6 +1,7 @@
-import { Component, For, Show, createSignal, createResource, createMemo } from "solid-js"
+import { Component, For, Show, createEffect, createSignal, createResource, createMemo, on } from "solid-js"
 import {
   Clock,
+  Download,
   Filter,
   RefreshCw,
   FileText,
@@ -40,6 +41,12 @@ interface AuditEvent {
   metadata?: Record<string, unknown>
 }
 
+interface AuditEventsPage {
+  events: AuditEvent[]
+  total: number
+  nextCursor: string | null
+}
+
 interface AuditTrailViewerProps {
   folder?: string
   issueId?: string
@@ -57,6 +64,17 @@ const EVENT_TYPE_COLORS: Record<string, string> = {
   verification_passed: "text-success",
   verification_failed: "text-destructive",
   file_modified: "text-info",
+  conflict_resolved: "text-success",
+  directive_edited: "text-info",
+  governance_override: "text-warning",
+  governance_setting: "text-warning",
+  permission_approved: "text-success",
+  permission_denied: "text-destructive",
+  gate_approved: "text-success",
+  gate_rejected: "text-destructive",
+  workspace_started: "text-primary",
+  workspace_stopped: "text-muted-foreground",
+  workspace_error: "text-destructive",
   session_started: "text-primary",
   session_ended: "text-muted-foreground",
   compacted: "text-muted-foreground",
@@ -67,30 +85,70 @@ const AuditTrailViewer: Component<AuditTrailViewerProps> = (props) => {
   const [typeFilter, setTypeFilter] = createSignal("")
   const [isCollapsed, setIsCollapsed] = createSignal(props.compact ?? false)
 
-  const [events, { refetch }] = createResource(
+  const [olderEvents, setOlderEvents] = createSignal<AuditEvent[]>([])
+  const [nextCursor, setNextCursor] = createSignal<string | null>(null)
+  const [loadingMore, setLoadingMore] = createSignal(false)
+
+  const buildParams = (cursor?: string) => {
+    const params = new URLSearchParams()
+    if (props.folder) params.set("folder", props.folder)
+    if (actorFilter()) params.set("actor", actorFilter())
+    if (typeFilter()) params.set("type", typeFilter())
+    if (cursor) params.set("cursor", cursor)
+    params.set("limit", "50")
+    return params
+  }
+
+  const fetchPage = async (params: URLSearchParams): Promise<AuditEventsPage> => {
+    try {
+      const res = await fetch(`/api/era/audit/events?${params}`)
+      if (!res.ok) return { events: [], total: 0, nextCursor: null }
+      const data = await res.json()
+      return { events: data.events ?? [], total: data.total ?? 0, nextCursor: data.nextCursor ?? null }
+    } catch (err) {
+      log.error("Failed to fetch audit events", err)
+      return { events: [], total: 0, nextCursor: null }
+    }
+  }
+
+  const [firstPage, { refetch }] = createResource(
     () => ({ folder: props.folder, actor: actorFilter(), type: typeFilter() }),
-    async (source): Promise<AuditEvent[]> => {
-      try {
-        const params = new URLSearchParams()
-        if (source.folder) params.set("folder", source.folder)
-        if (source.actor) params.set("actor", source.actor)
-        if (source.type) params.set("type", source.type)
-        params.set("limit", "50")
-
-        const res = await fetch(`/api/era/audit/events?${params}`)
-        if (!res.ok) return []
-        const data = await res.json()
-        return data.events ?? []
-      } catch (err) {
-        log.error("Failed to fetch audit events", err)
-        return []
-      }
-    },
+    () => fetchPage(buildParams()),
+  )
+
+  // A fresh first page (filters changed or refresh) discards previously loaded older pages
+  createEffect(
+    on(firstPage, (page) => {
+      setOlderEvents([])
+      setNextCursor(page?.nextCursor ?? null)
+    }),
   )
 
+  const events = createMemo(() => [...(firstPage()?.events ?? []), ...olderEvents()])
+
+  const loadMore = async () => {
+    const cursor = nextCursor()
+    if (!cursor || loadingMore()) return
+    setLoadingMore(true)
+    try {
+      const page = await fetchPage(buildParams(cursor))
+      setOlderEvents((prev) => [...prev, ...page.events])
+      setNextCursor(page.nextCursor)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const exportUrl = (format: "csv" | "jsonl") => {
+    const params = buildParams()
+    params.delete("limit")
+    params.set("format", format)
+    return `/api/era/audit/export?${params}`
+  }
+
   const uniqueActors = createMemo(() => {
     const actors = new Set<string>()
-    for (const event of events() ?? []) {
+    for (const event of events()) {
       actors.add(event.actor.agentType)
     }
     return Array.from(actors)
@@ -98,7 +156,7 @@ const AuditTrailViewer: Component<AuditTrailViewerProps> = (props) => {
 
   const uniqueTypes = createMemo(() => {
     const types = new Set<string>()
-    for (const event of events() ?? []) {
+    for (const event of events()) {
       types.add(event.type)
     }
     return Array.from(types)
@@ -127,12 +185,32 @@ const AuditTrailViewer: Component<AuditTrailViewerProps> = (props) => {
             <History class="h-4 w-4 text-muted-foreground" />
             <CardTitle class="text-sm font-medium">Audit Trail</CardTitle>
             <Badge variant="outline" class="text-[10px]">
-              {events()?.length ?? 0} events
+              {firstPage()?.total ?? 0} events
             </Badge>
           </button>
-          <Button variant="ghost" size="icon" class="h-6 w-6" onClick={() => refetch()} aria-label="Refresh audit trail">
-            <RefreshCw class={cn("h-3.5 w-3.5", events.loading && "animate-spin")} />
-          </Button>
+          <div class="flex items-center gap-1">
+            <a
+              href={exportUrl("csv")}
+              download="audit-trail.csv"
+              class="inline-flex h-6 items-center gap-1 rounded px-1.5 text-[10px] text-muted-foreground hover:bg-accent"
+              aria-label="Export audit trail as CSV"
+            >
+              <Download class="h-3 w-3" />
+              CSV
+            </a>
+            <a
+              href={exportUrl("jsonl")}
+              download="audit-trail.jsonl"
+              class="inline-flex h-6 items-center gap-1 rounded px-1.5 text-[10px] text-muted-foreground hover:bg-accent"
+              aria-label="Export audit trail as JSONL"
+            >
+              <Download class="h-3 w-3" />
+              JSONL
+            </a>
+            <Button variant="ghost" size="icon" class="h-6 w-6" onClick={() => refetch()} aria-label="Refresh audit trail">
+              <RefreshCw class={cn("h-3.5 w-3.5", firstPage.loading && "animate-spin")} />
+            </Button>
+          </div>
         </div>
       </CardHeader>
 
@@ -171,7 +249,7 @@ const AuditTrailViewer: Component<AuditTrailViewerProps> = (props) => {
           </div>
 
           {/* Timeline */}
-          <Show when={events.loading && !events()}>
+          <Show when={firstPage.loading && !firstPage()}>
             <div class="flex items-center gap-2 text-xs text-muted-foreground py-4 justify-center">
               <RefreshCw class="h-3 w-3 animate-spin" />
               Loading events...
@@ -186,7 +264,7 @@ const AuditTrailViewer: Component<AuditTrailViewerProps> = (props) => {
                 return (
                   <div class="relative pl-5 pb-3">
                     {/* Timeline line */}
-                    <Show when={i() < (events()?.length ?? 0) - 1}>
+                    <Show when={i() < events().length - 1}>
                       <div class="absolute left-[7px] top-4 bottom-0 w-px bg-border" />
                     </Show>
 
@@ -220,9 +298,16 @@ const AuditTrailViewer: Component<AuditTrailViewerProps> = (props) => {
                 )
               }}
             </For>
+            <Show when={nextCursor()}>
+              <div class="flex justify-center pt-1">
+                <Button variant="ghost" size="sm" class="h-6 text-xs" disabled={loadingMore()} onClick={() => void loadMore()}>
+                  {loadingMore() ? "Loading..." : "Load older events"}
+                </Button>
+              </div>
+            </Show>
           </div>
 
-          <Show when={!events.loading && (!events() || events()!.length === 0)}>
+          <Show when={!firstPage.loading && events().length === 0}>
             <div class="text-center py-4">
               <History class="h-6 w-6 text-muted-foreground mx-auto mb-2" />
               <p class="text-xs text-muted-foreground">No audit events recorded yet.</p>
@@ -1,4 +1,4 @@
-import { Component, For, Show, createSignal, createResource, createMemo } from "solid-js"
+import { Component, For, Show, createSignal, createResource, createMemo, onCleanup } from "solid-js"
 import {
   Circle,
   ArrowRight,
@@ -16,6 +16,14 @@ import {
 } from "lucide-solid"
 import { cn } from "../lib/cn"
 import { getLogger } from "../lib/logger"
+import { serverEvents } from "../lib/server-events"
+import type {
+  BeadsGraphEdge,
+  BeadsGraphNode,
+  BeadsGraphResponse,
+  BeadsIssue,
+  BeadsIssuesResponse,
+} from "../../../server/src/api-types"
 import {
   Card,
   CardContent,
@@ -33,29 +41,14 @@ import {
 
 const log = getLogger("beads-dashboard")
 
-interface BeadIssue {
-  id: string
-  title: string
-  status: string
-  assignee?: string
-  labels?: string[]
-  dependencies?: string[]
-  priority?: number
-}
+type BeadsGraphData = Pick<BeadsGraphResponse, "nodes" | "edges" | "ready" | "cycles">
 
-interface GraphNode {
-  id: string
-  title: string
-  status: string
-  x?: number
-  y?: number
-}
+const EMPTY_ISSUES: BeadsIssuesResponse = { issues: [], total: 0, statusCounts: {}, available: false }
+const EMPTY_GRAPH: BeadsGraphData = { nodes: [], edges: [], ready: [], cycles: [] }
 
-interface GraphEdge {
-  from: string
-  to: string
-  type: string
-}
+const GRAPH_WIDTH = 800
+const GRAPH_COLUMN_WIDTH = 130
+const GRAPH_ROW_HEIGHT = 50
 
 interface BeadsDashboardProps {
   folder?: string
@@ -80,37 +73,50 @@ const BeadsDashboard: Component<BeadsDashboardProps> = (props) => {
 
   const [issueData, { refetch: refetchIssues }] = createResource(
     () => ({ folder: props.folder, status: statusFilter() }),
-    async (source) => {
+    async (source): Promise<BeadsIssuesResponse> => {
       try {
         const params = new URLSearchParams()
         if (source.folder) params.set("folder", source.folder)
         if (source.status) params.set("status", source.status)
         const res = await fetch(`/api/era/beads/issues?${params}`)
-        if (!res.ok) return { issues: [], total: 0 }
+        if (!res.ok) return EMPTY_ISSUES
         return await res.json()
       } catch (err) {
         log.error("Failed to fetch beads issues", err)
-        return { issues: [], total: 0 }
+        return EMPTY_ISSUES
       }
     },
   )
 
-  const [graphData] = createResource(
+  const [graphData, { refetch: refetchGraph }] = createResource(
     () => props.folder,
-    async (folder: string | undefined) => {
+    async (folder: string | undefined): Promise<BeadsGraphData> => {
       try {
         const params = folder ? `?folder=${encodeURIComponent(folder)}` : ""
         const res = await fetch(`/api/era/beads/graph${params}`)
-        if (!res.ok) return { nodes: [], edges: [] }
+        if (!res.ok) return EMPTY_GRAPH
         return await res.json()
       } catch (err) {
         log.log("Beads graph not available", err)
-        return { nodes: [], edges: [] }
+        return EMPTY_GRAPH
       }
     },
   )
 
-  const issues = createMemo<BeadIssue[]>(() => issueData()?.issues ?? [])
+  const refresh = () => {
+    void refetchIssues()
+    void refetchGraph()
+  }
+
+  // The server watches `.beads/` and pushes an event whenever the store is rewritten
+  const unsubscribe = serverEvents.on("beads.updated", (event) => {
+    if (event.type !== "beads.updated") return
+    if (props.folder && !samePath(event.folder, props.folder)) return
+    refresh()
+  })
+  onCleanup(unsubscribe)
+
+  const issues = createMemo<BeadsIssue[]>(() => issueData()?.issues ?? [])
 
   const filteredIssues = createMemo(() => {
     let result = issues()
@@ -125,21 +131,42 @@ const BeadsDashboard: Component<BeadsDashboardProps> = (props) => {
     return result
   })
 
-  const statusCounts = createMemo(() => {
-    const counts: Record<string, number> = {}
-    for (const issue of issues()) {
-      counts[issue.status] = (counts[issue.status] ?? 0) + 1
-    }
-    return counts
-  })
+  const statusCounts = createMemo(() => issueData()?.statusCounts ?? {})
 
   const handleIssueClick = (issueId: string) => {
     setSelectedIssue(issueId)
     props.onIssueSelect?.(issueId)
   }
 
-  const graphNodes = createMemo<GraphNode[]>(() => graphData()?.nodes ?? [])
-  const graphEdges = createMemo<GraphEdge[]>(() => graphData()?.edges ?? [])
+  const graphNodes = createMemo<BeadsGraphNode[]>(() => graphData()?.nodes ?? [])
+  const graphEdges = createMemo<BeadsGraphEdge[]>(() => graphData()?.edges ?? [])
+  const readyIds = createMemo(() => new Set(graphData()?.ready ?? []))
+  const cycleIds = createMemo(() => new Set((graphData()?.cycles ?? []).flat()))
+
+  // Lay nodes out in columns by dependency depth so blockers sit left of what they block
+  const nodePositions = createMemo(() => {
+    const positions = new Map<string, { x: number; y: number }>()
+    const rowsPerColumn = new Map<number, number>()
+    for (const node of graphNodes()) {
+      const row = rowsPerColumn.get(node.depth) ?? 0
+      rowsPerColumn.set(node.depth, row + 1)
+      positions.set(node.id, {
+        x: 70 + node.depth * GRAPH_COLUMN_WIDTH,
+        y: 30 + row * GRAPH_ROW_HEIGHT,
+      })
+    }
+    return positions
+  })
+
+  const graphViewBox = createMemo(() => {
+    let maxX = GRAPH_WIDTH
+    let maxY = 400
+    for (const position of nodePositions().values()) {
+      maxX = Math.max(maxX, position.x + 70)
+      maxY = Math.max(maxY, position.y + 30)
+    }
+    return `0 0 ${maxX} ${maxY}`
+  })
 
   return (
     <Card class={cn(expanded() && "fixed inset-4 z-50 shadow-2xl")}>
@@ -156,7 +183,7 @@ const BeadsDashboard: Component<BeadsDashboardProps> = (props) => {
             <Button variant="ghost" size="icon" class="h-6 w-6" onClick={() => setExpanded(!expanded())} aria-label="Toggle expanded view">
               {expanded() ? <Minimize2 class="h-3.5 w-3.5" /> : <Maximize2 class="h-3.5 w-3.5" />}
             </Button>
-            <Button variant="ghost" size="icon" class="h-6 w-6" onClick={() => refetchIssues()} aria-label="Refresh issues">
+            <Button variant="ghost" size="icon" class="h-6 w-6" onClick={refresh} aria-label="Refresh issues">
               <RefreshCw class={cn("h-3.5 w-3.5", issueData.loading && "animate-spin")} />
             </Button>
           </div>
@@ -244,6 +271,19 @@ const BeadsDashboard: Component<BeadsDashboardProps> = (props) => {
                           </div>
                         </Show>
                       </div>
+                      <Show when={issue.ready}>
+                        <Badge variant="outline" class="text-[9px] px-1 py-0 text-primary shrink-0">
+                          ready
+                        </Badge>
+                      </Show>
+                      <Show when={issue.blockedBy.length > 0}>
+                        <span
+                          class="text-[10px] text-destructive shrink-0"
+                          title={`Blocked by ${issue.blockedBy.join(", ")}`}
+                        >
+                          blocked by {issue.blockedBy.length}
+                        </span>
+                      </Show>
                       <Show when={issue.assignee}>
                         <span class="text-[10px] text-muted-foreground shrink-0">
                           {issue.assignee}
@@ -260,7 +300,9 @@ const BeadsDashboard: Component<BeadsDashboardProps> = (props) => {
                 <AlertTriangle class="h-6 w-6 text-muted-foreground mx-auto mb-2" />
                 <p class="text-xs text-muted-foreground">
                   {issues().length === 0
-                    ? "No beads issues found. Run `beads init` to get started."
+                    ? issueData()?.available
+                      ? "No beads issues found."
+                      : "No beads issues found. Run `bd init` to get started."
                     : "No issues match your filters."}
                 </p>
               </div>
@@ -282,23 +324,38 @@ const BeadsDashboard: Component<BeadsDashboardProps> = (props) => {
                 </div>
               }
             >
-              <div class={cn("relative border rounded-lg bg-background/50", expanded() ? "h-[calc(100vh-240px)]" : "h-64")}>
-                <svg class="w-full h-full" viewBox="0 0 800 400">
+              <Show when={(graphData()?.cycles.length ?? 0) > 0}>
+                <div class="mb-2 flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-[11px] text-destructive">
+                  <AlertTriangle class="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                  <div>
+                    <For each={graphData()?.cycles ?? []}>
+                      {(cycle) => <div>Dependency cycle: {cycle.join(" → ")}</div>}
+                    </For>
+                  </div>
+                </div>
+              </Show>
+              <div class="mb-2 flex items-center gap-2 text-[10px] text-muted-foreground">
+                <Target class="h-3 w-3 text-primary" />
+                {readyIds().size} ready to work
+              </div>
+              <div class={cn("relative border rounded-lg bg-background/50 overflow-auto", expanded() ? "h-[calc(100vh-300px)]" : "h-64")}>
+                <svg class="w-full h-full" viewBox={graphViewBox()}>
                   {/* Edges */}
                   <For each={graphEdges()}>
                     {(edge) => {
-                      const fromNode = () => graphNodes().find((n) => n.id === edge.from)
-                      const toNode = () => graphNodes().find((n) => n.id === edge.to)
+                      const fromNode = () => nodePositions().get(edge.from)
+                      const toNode = () => nodePositions().get(edge.to)
 
                       return (
                         <Show when={fromNode() && toNode()}>
                           <line
-                            x1={fromNode()!.x ?? 100}
-                            y1={fromNode()!.y ?? 100}
-                            x2={toNode()!.x ?? 200}
-                            y2={toNode()!.y ?? 200}
-                            stroke="hsl(var(--border))"
+                            x1={fromNode()!.x + 50}
+                            y1={fromNode()!.y}
+                            x2={toNode()!.x - 50}
+                            y2={toNode()!.y}
+                            stroke={edge.type === "blocks" ? "hsl(var(--muted-foreground))" : "hsl(var(--border))"}
                             stroke-width="1.5"
+                            stroke-dasharray={edge.type === "blocks" ? undefined : "4 3"}
                             marker-end="url(#arrowhead)"
                           />
                         </Show>
@@ -315,10 +372,15 @@ const BeadsDashboard: Component<BeadsDashboardProps> = (props) => {
 
                   {/* Nodes */}
                   <For each={graphNodes()}>
-                    {(node, i) => {
-                      const x = () => node.x ?? 100 + (i() % 6) * 120
-                      const y = () => node.y ?? 60 + Math.floor(i() / 6) * 80
-                      const cfg = STATUS_CONFIG[node.status] ?? DEFAULT_STATUS
+                    {(node) => {
+                      const x = () => nodePositions().get(node.id)?.x ?? 0
+                      const y = () => nodePositions().get(node.id)?.y ?? 0
+                      const stroke = () =>
+                        cycleIds().has(node.id)
+                          ? "hsl(var(--destructive))"
+                          : readyIds().has(node.id)
+                            ? "hsl(var(--primary))"
+                            : "hsl(var(--border))"
 
                       return (
                         <g
@@ -332,9 +394,10 @@ const BeadsDashboard: Component<BeadsDashboardProps> = (props) => {
                             height="30"
                             rx="6"
                             fill="hsl(var(--card))"
-                            stroke="hsl(var(--border))"
-                            stroke-width="1"
+                            stroke={stroke()}
+                            stroke-width={selectedIssue() === node.id ? "2" : "1"}
                           />
+                          <title>{`${node.id}: ${node.title} (${node.status})`}</title>
                           <text
                             x={x()}
                             y={y() + 4}
@@ -357,4 +420,9 @@ const BeadsDashboard: Component<BeadsDashboardProps> = (props) => {
   )
 }
 
+function samePath(a: string, b: string): boolean {
+  const normalize = (value: string) => value.replace(/\\/g, "/").replace(/\/+$/, "")
+  return normalize(a) === normalize(b)
+}
+
 export default BeadsDashboard
@@ -0,0 +1,211 @@
+/**
+ * Checkpoint Timeline
+ *
+ * Lists the files an agent changed per message of a session, newest first.
+ * A checkpoint can be previewed as a diff against the working tree and
+ * restored, which rolls back that message's edits and every later one.
+ */
+
+import { Component, For, Show, createMemo, createResource, createSignal, onCleanup } from "solid-js"
+import { AlertTriangle, Eye, History, RotateCcw } from "lucide-solid"
+import { cn } from "../lib/cn"
+import { serverEvents } from "../lib/server-events"
+import { showToastNotification } from "../lib/notifications"
+import { showConfirmDialog } from "../stores/alerts"
+import { fetchCheckpoints, previewCheckpoint, restoreCheckpoint } from "../stores/checkpoints"
+import type { CheckpointFileAction, WorkspaceEventPayload } from "../../../server/src/api-types"
+import { Badge, Button } from "./ui"
+
+interface CheckpointTimelineProps {
+  instanceId: string
+  sessionId: string
+}
+
+const ACTION_LABELS: Record<CheckpointFileAction, string> = {
+  restore: "revert",
+  create: "recreate",
+  delete: "delete",
+  unchanged: "unchanged",
+  unavailable: "no snapshot",
+}
+
+const CheckpointTimeline: Component<CheckpointTimelineProps> = (props) => {
+  const [selectedId, setSelectedId] = createSignal<string | null>(null)
+  const [expandedFile, setExpandedFile] = createSignal<string | null>(null)
+  const [restoring, setRestoring] = createSignal(false)
+
+  const [checkpoints, { refetch }] = createResource(
+    () => ({ instanceId: props.instanceId, sessionId: props.sessionId }),
+    (source) => fetchCheckpoints(source.instanceId, source.sessionId),
+  )
+
+  const [preview, { refetch: refetchPreview }] = createResource(
+    () => {
+      const checkpointId = selectedId()
+      return checkpointId ? { instanceId: props.instanceId, sessionId: props.sessionId, checkpointId } : null
+    },
+    (source) => previewCheckpoint(source.instanceId, source.sessionId, source.checkpointId),
+  )
+
+  onCleanup(
+    serverEvents.on("checkpoint.updated", (event) => {
+      const { instanceId, sessionId } = event as Extract<WorkspaceEventPayload, { type: "checkpoint.updated" }>
+      if (instanceId !== props.instanceId || sessionId !== props.sessionId) return
+      void refetch()
+      if (selectedId()) void refetchPreview()
+    }),
+  )
+
+  // Newest first for display
+  const timeline = createMemo(() => [...(checkpoints() ?? [])].reverse())
+
+  const handleRestore = async () => {
+    const checkpointId = selectedId()
+    const current = preview()
+    if (!checkpointId || !current) return
+
+    const changed = current.files.filter((file) => file.action !== "unchanged" && file.action !== "unavailable")
+    const confirmed = await showConfirmDialog(
+      `Restore ${changed.length} file(s) to their state before this message? Edits from this message and every later one will be rolled back.`,
+      {
+        title: "Restore checkpoint",
+        detail:
+          current.conflicts > 0
+            ? `${current.conflicts} file(s) were changed outside this session since the agent edited them. Those changes will be overwritten.`
+            : undefined,
+        variant: current.conflicts > 0 ? "warning" : "info",
+        confirmLabel: "Restore",
+      },
+    )
+    if (!confirmed) return
+
+    setRestoring(true)
+    const outcome = await restoreCheckpoint(props.instanceId, props.sessionId, checkpointId, current.conflicts > 0)
+    setRestoring(false)
+
+    if (!outcome.success) {
+      showToastNotification({
+        title: "Restore failed",
+        message: outcome.error ?? "The checkpoint could not be restored",
+        variant: "error",
+      })
+      if (outcome.preview) void refetchPreview()
+      return
+    }
+
+    showToastNotification({
+      title: "Checkpoint restored",
+      message: `${outcome.result?.restored.length ?? 0} file(s) rolled back`,
+      variant: "success",
+    })
+    setSelectedId(null)
+    void refetch()
+  }
+
+  return (
+    <div class="flex flex-col gap-2">
+      <Show
+        when={timeline().length > 0}
+        fallback={<p class="text-xs text-muted-foreground italic py-2">No agent edits in this session yet</p>}
+      >
+        <ul class="space-y-0.5">
+          <For each={timeline()}>
+            {(checkpoint) => (
+              <li>
+                <button
+                  type="button"
+                  class={cn(
+                    "w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs transition-colors hover:bg-accent text-left",
+                    selectedId() === checkpoint.id && "bg-accent",
+                  )}
+                  onClick={() => {
+                    setExpandedFile(null)
+                    setSelectedId(selectedId() === checkpoint.id ? null : checkpoint.id)
+                  }}
+                >
+                  <History class="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+                  <span class="text-foreground">{new Date(checkpoint.createdAt).toLocaleTimeString()}</span>
+                  <span class="text-muted-foreground truncate" title={checkpoint.files.map((file) => file.path).join("\n")}>
+                    {checkpoint.files.length === 1 ? checkpoint.files[0].path : `${checkpoint.files.length} files`}
+                  </span>
+                  <Eye class="w-3 h-3 ml-auto flex-shrink-0 text-muted-foreground" />
+                </button>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+
+      <Show when={selectedId()}>
+        <div class="flex flex-col gap-2 rounded-md border border-border p-2">
+          <Show when={preview()} fallback={<p class="text-xs text-muted-foreground">{preview.loading ? "Loading preview..." : "Preview unavailable"}</p>}>
+            {(current) => (
+              <>
+                <Show when={current().conflicts > 0}>
+                  <p class="flex items-center gap-1.5 text-xs text-warning">
+                    <AlertTriangle class="w-3.5 h-3.5 flex-shrink-0" />
+                    {current().conflicts} file(s) were edited outside this session since the checkpoint
+                  </p>
+                </Show>
+                <ul class="space-y-1">
+                  <For each={current().files}>
+                    {(file) => (
+                      <li class="flex flex-col gap-1">
+                        <button
+                          type="button"
+                          class="flex items-center gap-2 text-xs text-left hover:text-foreground"
+                          disabled={!file.diff}
+                          onClick={() => setExpandedFile(expandedFile() === file.path ? null : file.path)}
+                        >
+                          <span class="truncate font-medium text-foreground" title={file.path}>
+                            {file.path}
+                          </span>
+                          <Show when={file.conflict}>
+                            <AlertTriangle class="w-3 h-3 flex-shrink-0 text-warning" />
+                          </Show>
+                          <Badge variant="secondary" class="ml-auto px-1 py-0 text-[10px]">
+                            {ACTION_LABELS[file.action]}
+                          </Badge>
+                        </button>
+                        <Show when={expandedFile() === file.path && file.diff}>
+                          <pre class="max-h-60 overflow-auto rounded-md border border-border bg-muted/30 p-2 font-mono text-xs">
+                            <For each={file.diff!.split("\n")}>
+                              {(line) => (
+                                <div
+                                  class={cn(
+                                    line.startsWith("+") && "bg-success/10 text-success",
+                                    line.startsWith("-") && "bg-destructive/10 text-destructive",
+                                  )}
+                                >
+                                  {line || " "}
+                                </div>
+                              )}
+                            </For>
+                          </pre>
+                        </Show>
+                      </li>
+                    )}
+                  </For>
+                </ul>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={
+                    restoring() ||
+                    current().files.every((file) => file.action === "unchanged" || file.action === "unavailable")
+                  }
+                  onClick={() => void handleRestore()}
+                >
+                  <RotateCcw class="mr-1 h-3.5 w-3.5" />
+                  {restoring() ? "Restoring..." : "Restore to before this message"}
+                </Button>
+              </>
+            )}
+          </Show>
+        </div>
+      </Show>
+    </div>
+  )
+}
+
+export default CheckpointTimeline
@@ -3,6 +3,8 @@ import { Dialog } from "@kobalte/core/dialog"
 import type { Command } from "../lib/commands"
 import { cn } from "../lib/cn"
 import Kbd from "./kbd"
+import { keyboardRegistry } from "../lib/keyboard-registry"
+import { formatKeybindingForDisplay } from "../lib/keybindings"
 
 interface CommandPaletteProps {
   open: boolean
@@ -11,6 +13,15 @@ interface CommandPaletteProps {
   onExecute: (command: Command) => void
 }
 
+/** Effective shortcut chords of a command, following the user's keybindings */
+function shortcutChords(command: Command): string[] {
+  if (command.keybindingId && keyboardRegistry.list().some((shortcut) => shortcut.id === command.keybindingId)) {
+    const chords = keyboardRegistry.getBinding(command.keybindingId)
+    return chords ? formatKeybindingForDisplay(chords) : []
+  }
+  return command.shortcut ? [buildShortcutString(command.shortcut)] : []
+}
+
 function buildShortcutString(shortcut: Command["shortcut"]): string {
   if (!shortcut) return ""
 
@@ -269,9 +280,9 @@ const CommandPalette: Component<CommandPaletteProps> = (props) => {
                                   {command.description}
                                 </div>
                               </div>
-                              <Show when={command.shortcut}>
-                                <div class="mt-1">
-                                  <Kbd shortcut={buildShortcutString(command.shortcut)} />
+                              <Show when={shortcutChords(command).length > 0}>
+                                <div class="mt-1 flex items-center gap-1">
+                                  <For each={shortcutChords(command)}>{(chord) => <Kbd shortcut={chord} />}</For>
                                 </div>
                               </Show>
                             </button>
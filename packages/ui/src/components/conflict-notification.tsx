@@ -17,7 +17,7 @@ import {
 import "../styles/panels/file-conflicts.css"
 
 interface ConflictNotificationProps {
-  workspaceRoot: string
+  workspaceId: string
   sessionId: string
   onOpenResolutionPanel?: () => void
 }
@@ -45,7 +45,7 @@ export function ConflictNotification(props: ConflictNotificationProps) {
         conflict.conflictId,
         "auto-merged",
         props.sessionId,
-        props.workspaceRoot
+        props.workspaceId
       )
 
       if (!result.success) {
@@ -213,7 +213,7 @@ export function ConflictBadge(props: ConflictBadgeProps) {
  * Conflict Banner - Full-width banner for prominent display
  */
 interface ConflictBannerProps {
-  workspaceRoot: string
+  workspaceId: string
   sessionId: string
   onResolve?: () => void
 }
@@ -241,7 +241,7 @@ export function ConflictBanner(props: ConflictBannerProps) {
           conflict.conflictId,
           "auto-merged",
           props.sessionId,
-          props.workspaceRoot
+          props.workspaceId
         )
       }
 
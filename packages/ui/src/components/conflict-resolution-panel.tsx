@@ -2,7 +2,8 @@
  * Conflict Resolution Panel
  *
  * Full resolution UI with side-by-side diff view and merge options.
- * Supports auto-merge, keep-ours, keep-theirs, and manual editing.
+ * Supports auto-merge, keep-ours, keep-theirs, and manual editing, plus
+ * restoring an earlier version from the file's history.
  */
 
 import { Show, For, createSignal, createEffect, createMemo, onMount } from "solid-js"
@@ -17,10 +18,11 @@ import {
   type FileConflictEvent,
   type FileConflictRegion,
 } from "../stores/file-conflicts"
+import FileHistoryPanel from "./file-history-panel"
 import "../styles/panels/file-conflicts.css"
 
 interface ConflictResolutionPanelProps {
-  workspaceRoot: string
+  workspaceId: string
   sessionId: string
   onClose?: () => void
 }
@@ -40,6 +42,8 @@ interface ConflictDetail {
     canAutoMerge: boolean
     mergedContent?: string
     conflicts?: FileConflictRegion[]
+    strategy?: string
+    fallbackFrom?: string
   }
   timestamp: number
   isBinary: boolean
@@ -56,7 +60,7 @@ export function ConflictResolutionPanel(props: ConflictResolutionPanelProps) {
   const [loading, setLoading] = createSignal(false)
   const [error, setError] = createSignal<string | null>(null)
   const [manualContent, setManualContent] = createSignal("")
-  const [viewMode, setViewMode] = createSignal<"side-by-side" | "unified">("side-by-side")
+  const [viewMode, setViewMode] = createSignal<"side-by-side" | "unified" | "history">("side-by-side")
   const [resolving, setResolving] = createSignal(false)
 
   // Load details when selected conflict changes
@@ -71,7 +75,7 @@ export function ConflictResolutionPanel(props: ConflictResolutionPanelProps) {
     setError(null)
 
     try {
-      const details = await fetchConflictDetails(conflictId, props.workspaceRoot)
+      const details = await fetchConflictDetails(conflictId, props.workspaceId)
       if (details) {
         setDetail(details)
         // Initialize manual content with merged or ours
@@ -107,7 +111,7 @@ export function ConflictResolutionPanel(props: ConflictResolutionPanelProps) {
         conflictId,
         resolution,
         props.sessionId,
-        props.workspaceRoot,
+        props.workspaceId,
         resolution === "manual" ? manualContent() : undefined
       )
 
@@ -214,6 +218,9 @@ export function ConflictResolutionPanel(props: ConflictResolutionPanelProps) {
                     ? "External Change"
                     : "Merge Conflict"}
                 </span>
+                <Show when={currentDetail()!.mergeResult.strategy}>
+                  <span class="merge-strategy">{mergeStrategyLabel(currentDetail()!.mergeResult)}</span>
+                </Show>
               </div>
               <div class="view-toggle">
                 <button
@@ -228,6 +235,12 @@ export function ConflictResolutionPanel(props: ConflictResolutionPanelProps) {
                 >
                   Unified
                 </button>
+                <button
+                  classList={{ active: viewMode() === "history" }}
+                  onClick={() => setViewMode("history")}
+                >
+                  History
+                </button>
               </div>
             </div>
 
@@ -241,106 +254,116 @@ export function ConflictResolutionPanel(props: ConflictResolutionPanelProps) {
               </div>
             </Show>
 
-            {/* Binary File Notice */}
-            <Show when={isBinary()}>
-              <div class="binary-notice">
-                <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
-                  <path d="M4 4v12h12V4H4zm0-2h12a2 2 0 0 1 2 2v12a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2z" />
-                  <path d="M6 8h8M6 12h4" stroke="currentColor" stroke-width="1.5" />
-                </svg>
-                <div>
-                  <strong>Binary file cannot be merged</strong>
-                  <p>Choose which version to keep</p>
-                </div>
-              </div>
+            <Show when={viewMode() === "history"}>
+              <FileHistoryPanel
+                workspaceId={props.workspaceId}
+                filePath={currentDetail()!.filePath}
+                sessionId={props.sessionId}
+              />
             </Show>
 
-            {/* Diff View */}
-            <Show when={!isBinary()}>
-              <div class="diff-container" classList={{ "side-by-side": viewMode() === "side-by-side" }}>
-                <Show
-                  when={viewMode() === "side-by-side"}
-                  fallback={<UnifiedDiffView diff={currentDetail()!.diff} />}
-                >
-                  <SideBySideDiffView diff={currentDetail()!.diff} />
-                </Show>
-              </div>
-            </Show>
+            <Show when={viewMode() !== "history"}>
+              {/* Binary File Notice */}
+              <Show when={isBinary()}>
+                <div class="binary-notice">
+                  <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
+                    <path d="M4 4v12h12V4H4zm0-2h12a2 2 0 0 1 2 2v12a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2z" />
+                    <path d="M6 8h8M6 12h4" stroke="currentColor" stroke-width="1.5" />
+                  </svg>
+                  <div>
+                    <strong>Binary file cannot be merged</strong>
+                    <p>Choose which version to keep</p>
+                  </div>
+                </div>
+              </Show>
 
-            {/* Manual Editor (for text files with conflicts) */}
-            <Show when={!isBinary() && !canAutoMerge()}>
-              <div class="manual-editor">
-                <div class="editor-header">
-                  <span>Manual Resolution</span>
-                  <button
-                    class="reset-btn"
-                    onClick={() => setManualContent(currentDetail()!.diff.ours || "")}
+              {/* Diff View */}
+              <Show when={!isBinary()}>
+                <div class="diff-container" classList={{ "side-by-side": viewMode() === "side-by-side" }}>
+                  <Show
+                    when={viewMode() === "side-by-side"}
+                    fallback={<UnifiedDiffView diff={currentDetail()!.diff} />}
                   >
-                    Reset to Ours
-                  </button>
+                    <SideBySideDiffView diff={currentDetail()!.diff} />
+                  </Show>
+                </div>
+              </Show>
+
+              {/* Manual Editor (for text files with conflicts) */}
+              <Show when={!isBinary() && !canAutoMerge()}>
+                <div class="manual-editor">
+                  <div class="editor-header">
+                    <span>Manual Resolution</span>
+                    <button
+                      class="reset-btn"
+                      onClick={() => setManualContent(currentDetail()!.diff.ours || "")}
+                    >
+                      Reset to Ours
+                    </button>
+                  </div>
+                  <textarea
+                    class="editor-textarea"
+                    value={manualContent()}
+                    onInput={(e) => setManualContent(e.currentTarget.value)}
+                    spellcheck={false}
+                  />
                 </div>
-                <textarea
-                  class="editor-textarea"
-                  value={manualContent()}
-                  onInput={(e) => setManualContent(e.currentTarget.value)}
-                  spellcheck={false}
-                />
+              </Show>
+
+              {/* Sessions Info */}
+              <div class="sessions-info">
+                <span class="sessions-label">Involved sessions:</span>
+                <For each={currentDetail()!.involvedSessions}>
+                  {(session) => (
+                    <span class="session-badge" title={`Hash: ${session.hash}`}>
+                      {session.sessionId === "external" ? "External" : session.sessionId.slice(0, 8)}
+                    </span>
+                  )}
+                </For>
               </div>
-            </Show>
 
-            {/* Sessions Info */}
-            <div class="sessions-info">
-              <span class="sessions-label">Involved sessions:</span>
-              <For each={currentDetail()!.involvedSessions}>
-                {(session) => (
-                  <span class="session-badge" title={`Hash: ${session.hash}`}>
-                    {session.sessionId === "external" ? "External" : session.sessionId.slice(0, 8)}
-                  </span>
-                )}
-              </For>
-            </div>
+              {/* Resolution Actions */}
+              <div class="resolution-actions">
+                <Show when={canAutoMerge() && !isBinary()}>
+                  <button
+                    class="action-btn primary"
+                    onClick={() => handleResolve("auto-merged")}
+                    disabled={resolving()}
+                  >
+                    <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+                      <path d="M13.5 3.5l-7 7-3-3" stroke="currentColor" stroke-width="2" fill="none" />
+                    </svg>
+                    {resolving() ? "Merging..." : "Auto-merge"}
+                  </button>
+                </Show>
 
-            {/* Resolution Actions */}
-            <div class="resolution-actions">
-              <Show when={canAutoMerge() && !isBinary()}>
                 <button
-                  class="action-btn primary"
-                  onClick={() => handleResolve("auto-merged")}
+                  class="action-btn"
+                  onClick={() => handleResolve("keep-ours")}
                   disabled={resolving()}
                 >
-                  <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
-                    <path d="M13.5 3.5l-7 7-3-3" stroke="currentColor" stroke-width="2" fill="none" />
-                  </svg>
-                  {resolving() ? "Merging..." : "Auto-merge"}
+                  Keep Ours
                 </button>
-              </Show>
-
-              <button
-                class="action-btn"
-                onClick={() => handleResolve("keep-ours")}
-                disabled={resolving()}
-              >
-                Keep Ours
-              </button>
-
-              <button
-                class="action-btn"
-                onClick={() => handleResolve("keep-theirs")}
-                disabled={resolving()}
-              >
-                Keep Theirs
-              </button>
 
-              <Show when={!isBinary() && !canAutoMerge()}>
                 <button
-                  class="action-btn primary"
-                  onClick={() => handleResolve("manual")}
+                  class="action-btn"
+                  onClick={() => handleResolve("keep-theirs")}
                   disabled={resolving()}
                 >
-                  {resolving() ? "Saving..." : "Save Manual Edit"}
+                  Keep Theirs
                 </button>
-              </Show>
-            </div>
+
+                <Show when={!isBinary() && !canAutoMerge()}>
+                  <button
+                    class="action-btn primary"
+                    onClick={() => handleResolve("manual")}
+                    disabled={resolving()}
+                  >
+                    {resolving() ? "Saving..." : "Save Manual Edit"}
+                  </button>
+                </Show>
+              </div>
+            </Show>
           </Show>
         </div>
       </div>
@@ -425,6 +448,22 @@ function getFileName(filePath: string): string {
   return parts[parts.length - 1] || filePath
 }
 
+const MERGE_STRATEGY_NAMES: Record<string, string> = {
+  json: "JSON",
+  yaml: "YAML",
+  typescript: "TypeScript",
+}
+
+// Helper to describe how the merge was attempted
+function mergeStrategyLabel(mergeResult: ConflictDetail["mergeResult"]): string {
+  const name = (strategy: string) => MERGE_STRATEGY_NAMES[strategy] ?? strategy
+  if (mergeResult.strategy === "line") {
+    return mergeResult.fallbackFrom ? `Line merge (${name(mergeResult.fallbackFrom)} merge not possible)` : "Line merge"
+  }
+  if (mergeResult.strategy === "binary") return "Binary file"
+  return `${name(mergeResult.strategy ?? "")} structural merge`
+}
+
 // Modal wrapper for the resolution panel
 interface ConflictResolutionModalProps extends ConflictResolutionPanelProps {
   isOpen: boolean
@@ -0,0 +1,174 @@
+/**
+ * File History Panel
+ *
+ * Lists the persisted versions of a file, shows the diff between a selected
+ * version and the file on disk, and restores a version on request.
+ */
+
+import { Component, For, Show, createMemo, createResource, createSignal, onCleanup } from "solid-js"
+import { History, RotateCcw } from "lucide-solid"
+import { cn } from "../lib/cn"
+import { serverEvents } from "../lib/server-events"
+import { showToastNotification } from "../lib/notifications"
+import {
+  fetchFileHistoryDetails,
+  fetchVersionDiff,
+  restoreFileVersion,
+  type FileChangedEvent,
+} from "../stores/file-conflicts"
+import { Badge, Button } from "./ui"
+
+interface FileHistoryPanelProps {
+  workspaceId: string
+  /** File path, relative to the workspace root or absolute */
+  filePath: string
+  sessionId: string
+}
+
+const FileHistoryPanel: Component<FileHistoryPanelProps> = (props) => {
+  const [selectedHash, setSelectedHash] = createSignal<string | null>(null)
+  const [restoring, setRestoring] = createSignal(false)
+  const [error, setError] = createSignal<string | null>(null)
+
+  const [history, { refetch }] = createResource(
+    () => ({ filePath: props.filePath, workspaceId: props.workspaceId }),
+    (source) => fetchFileHistoryDetails(source.filePath, source.workspaceId),
+  )
+
+  onCleanup(
+    serverEvents.on("file.changed", (event) => {
+      const { filePath, absolutePath } = event as FileChangedEvent
+      if (props.filePath === filePath || props.filePath === absolutePath) void refetch()
+    }),
+  )
+
+  // Newest first for display
+  const versions = createMemo(() => [...(history()?.versions ?? [])].reverse())
+  const currentHash = () => history()?.currentHash ?? null
+  const selected = createMemo(() => versions().find((v) => v.hash === selectedHash()) ?? null)
+
+  const [diff] = createResource(
+    () => {
+      const hash = selectedHash()
+      // Refetch the diff whenever the file on disk changes
+      return hash ? { hash, current: currentHash() } : null
+    },
+    async (source) => (await fetchVersionDiff(props.filePath, source.hash, "current", props.workspaceId))?.diff ?? null,
+  )
+
+  const handleRestore = async () => {
+    const version = selected()
+    if (!version) return
+
+    setRestoring(true)
+    setError(null)
+    const result = await restoreFileVersion(
+      props.filePath,
+      version.hash,
+      props.sessionId,
+      props.workspaceId,
+      currentHash() ?? undefined,
+    )
+    setRestoring(false)
+
+    if (!result.success) {
+      setError(result.error ?? "Restore failed")
+      return
+    }
+    showToastNotification({
+      title: "Version restored",
+      message: `${props.filePath} restored to the version from ${new Date(version.timestamp).toLocaleString()}`,
+      variant: "success",
+    })
+    void refetch()
+  }
+
+  return (
+    <div class="flex min-h-0 flex-1 gap-3">
+      <div class="flex w-56 shrink-0 flex-col gap-1 overflow-y-auto">
+        <div class="flex items-center gap-1.5 px-1 text-xs font-semibold text-muted-foreground">
+          <History class="h-3.5 w-3.5" />
+          Versions
+        </div>
+        <Show when={versions().length > 0} fallback={<p class="px-1 text-xs text-muted-foreground">No saved versions yet</p>}>
+          <For each={versions()}>
+            {(version) => (
+              <button
+                class={cn(
+                  "flex flex-col items-start gap-0.5 rounded-md px-2 py-1.5 text-left text-xs hover:bg-accent",
+                  selectedHash() === version.hash && "bg-accent",
+                )}
+                onClick={() => setSelectedHash(version.hash)}
+              >
+                <span class="flex items-center gap-1.5">
+                  {new Date(version.timestamp).toLocaleString()}
+                  <Show when={version.hash === currentHash()}>
+                    <Badge variant="secondary" class="px-1 py-0 text-[10px]">
+                      current
+                    </Badge>
+                  </Show>
+                </span>
+                <span class="text-muted-foreground">
+                  {version.sessionId === "external" ? "External" : version.sessionId.slice(0, 12)}
+                  {version.size !== undefined ? ` · ${formatSize(version.size)}` : ""}
+                </span>
+              </button>
+            )}
+          </For>
+        </Show>
+      </div>
+
+      <div class="flex min-w-0 flex-1 flex-col gap-2">
+        <Show when={selected()} fallback={<p class="text-xs text-muted-foreground">Select a version to compare it with the file on disk</p>}>
+          {(version) => (
+            <>
+              <div class="flex items-center justify-between gap-2">
+                <span class="truncate text-xs text-muted-foreground">
+                  Changes from {version().hash} to the current file
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={restoring() || version().hash === currentHash() || !version().hasContent}
+                  onClick={() => void handleRestore()}
+                >
+                  <RotateCcw class="mr-1 h-3.5 w-3.5" />
+                  {restoring() ? "Restoring..." : "Restore this version"}
+                </Button>
+              </div>
+              <Show when={error()}>
+                <p class="text-xs text-destructive">{error()}</p>
+              </Show>
+              <pre class="min-h-0 flex-1 overflow-auto rounded-md border border-border bg-muted/30 p-2 font-mono text-xs">
+                <Show when={!diff.loading || diff()} fallback={<span class="text-muted-foreground">Loading diff...</span>}>
+                  <Show when={diff()} fallback={<span class="text-muted-foreground">Diff unavailable</span>}>
+                    <For each={diff()!.split("\n")}>
+                      {(line) => (
+                        <div
+                          class={cn(
+                            line.startsWith("+") && "bg-success/10 text-success",
+                            line.startsWith("-") && "bg-destructive/10 text-destructive",
+                          )}
+                        >
+                          {line || " "}
+                        </div>
+                      )}
+                    </For>
+                  </Show>
+                </Show>
+              </pre>
+            </>
+          )}
+        </Show>
+      </div>
+    </div>
+  )
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export default FileHistoryPanel
@@ -12,6 +12,7 @@ import {
 } from "lucide-solid"
 import { cn } from "../lib/cn"
 import { getLogger } from "../lib/logger"
+import type { FormulaLoadError, FormulasResponse, PlanRun, WorkflowFormula } from "../../../server/src/api-types"
 import { Card, CardContent, CardHeader, CardTitle, Badge, Button, Separator } from "./ui"
 
 const log = getLogger("formula-browser")
@@ -20,37 +21,14 @@ const log = getLogger("formula-browser")
 // Types
 // ============================================================================
 
-interface FormulaVariable {
-  name: string
-  type: string
-  description?: string
-  default?: unknown
-  required?: boolean
-}
-
-interface FormulaStep {
-  id: string
-  name: string
-  action: string
-  dependsOn?: string[]
-  gate?: string
-}
-
-interface Formula {
-  name: string
-  description: string
-  source: "built-in" | "global" | "project"
-  variables: FormulaVariable[]
-  steps: FormulaStep[]
-  tags?: string[]
-  parallelism?: number
-  lastUsed?: string
-}
+type Formula = WorkflowFormula
 
 interface FormulaBrowserProps {
   folder?: string
   compact?: boolean
   onInstantiate?: (formulaName: string, variables: Record<string, unknown>) => void
+  /** Called after the formula was started as a plan on the server */
+  onPlanStarted?: (plan: PlanRun) => void
 }
 
 // ============================================================================
@@ -72,25 +50,29 @@ const FormulaBrowser: Component<FormulaBrowserProps> = (props) => {
   const [sourceFilter, setSourceFilter] = createSignal<string | null>(null)
   const [selectedFormula, setSelectedFormula] = createSignal<string | null>(null)
   const [variableValues, setVariableValues] = createSignal<Record<string, string>>({})
+  const [starting, setStarting] = createSignal(false)
+  const [startErrors, setStartErrors] = createSignal<string[]>([])
 
-  const fetchFormulas = async (folder: string | undefined): Promise<Formula[]> => {
+  const fetchFormulas = async (folder: string | undefined): Promise<FormulasResponse> => {
     try {
       const params = new URLSearchParams()
       if (folder) params.set("folder", folder)
       const resp = await fetch(`/api/era/formulas?${params}`)
-      if (!resp.ok) return []
+      if (!resp.ok) return { formulas: [], errors: [] }
       const data = await resp.json()
-      return data.formulas ?? []
+      return { formulas: data.formulas ?? [], errors: data.errors ?? [] }
     } catch (err) {
       log.error("Failed to fetch formulas:", err)
-      return []
+      return { formulas: [], errors: [] }
     }
   }
 
-  const [formulas, { refetch }] = createResource(() => props.folder, fetchFormulas)
+  const [formulaData, { refetch }] = createResource(() => props.folder, fetchFormulas)
+  const formulas = createMemo<Formula[]>(() => formulaData()?.formulas ?? [])
+  const loadErrors = createMemo<FormulaLoadError[]>(() => formulaData()?.errors ?? [])
 
   const filtered = createMemo(() => {
-    let result = formulas() ?? []
+    let result = formulas()
     const q = searchQuery().toLowerCase()
     if (q) {
       result = result.filter(
@@ -110,12 +92,12 @@ const FormulaBrowser: Component<FormulaBrowserProps> = (props) => {
   const selected = createMemo(() => {
     const name = selectedFormula()
     if (!name) return null
-    return (formulas() ?? []).find((f) => f.name === name) ?? null
+    return formulas().find((f) => f.name === name) ?? null
   })
 
-  const handleInstantiate = () => {
+  const handleInstantiate = async () => {
     const formula = selected()
-    if (!formula || !props.onInstantiate) return
+    if (!formula) return
     const vars: Record<string, unknown> = {}
     for (const v of formula.variables) {
       const val = variableValues()[v.name]
@@ -125,8 +107,36 @@ const FormulaBrowser: Component<FormulaBrowserProps> = (props) => {
         vars[v.name] = v.default
       }
     }
-    props.onInstantiate(formula.name, vars)
-    log.info("Instantiated formula:", formula.name, vars)
+
+    if (props.onInstantiate) {
+      props.onInstantiate(formula.name, vars)
+      log.info("Instantiated formula:", formula.name, vars)
+      return
+    }
+    if (!props.folder) return
+
+    // Without a handler the browser starts the plan itself; the server validates variables
+    setStarting(true)
+    setStartErrors([])
+    try {
+      const resp = await fetch("/api/era/plans", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ folder: props.folder, formula: formula.name, variables: vars }),
+      })
+      const data = await resp.json().catch(() => ({}))
+      if (!resp.ok) {
+        setStartErrors(data.issues ?? [data.error ?? `Failed to start plan (${resp.status})`])
+        return
+      }
+      log.info("Started plan:", data.plan?.id)
+      props.onPlanStarted?.(data.plan)
+    } catch (err) {
+      log.error("Failed to start plan:", err)
+      setStartErrors([String(err)])
+    } finally {
+      setStarting(false)
+    }
   }
 
   return (
@@ -178,12 +188,16 @@ const FormulaBrowser: Component<FormulaBrowserProps> = (props) => {
 
         {/* Formula List */}
         <Show
-          when={!formulas.loading}
+          when={!formulaData.loading}
           fallback={<p class="text-xs text-muted-foreground">Loading formulas...</p>}
         >
           <Show
             when={(filtered().length > 0)}
-            fallback={<p class="text-xs text-muted-foreground">No formulas found.</p>}
+            fallback={
+              <p class="text-xs text-muted-foreground">
+                No formulas found. Add JSON formulas to <code>.era/formulas/</code>.
+              </p>
+            }
           >
             <div class="flex flex-col gap-1.5 max-h-64 overflow-y-auto">
               <For each={filtered()}>
@@ -198,6 +212,7 @@ const FormulaBrowser: Component<FormulaBrowserProps> = (props) => {
                     onClick={() => {
                       setSelectedFormula(formula.name)
                       setVariableValues({})
+                      setStartErrors([])
                     }}
                   >
                     <Layers class="mt-0.5 h-4 w-4 shrink-0 text-primary" />
@@ -236,6 +251,18 @@ const FormulaBrowser: Component<FormulaBrowserProps> = (props) => {
           </Show>
         </Show>
 
+        <Show when={loadErrors().length > 0}>
+          <div class="flex flex-col gap-1 rounded-md border border-destructive/30 bg-destructive/5 p-2">
+            <For each={loadErrors()}>
+              {(entry) => (
+                <p class="text-[10px] text-destructive break-all">
+                  <span class="font-medium">{entry.path}:</span> {entry.error}
+                </p>
+              )}
+            </For>
+          </div>
+        </Show>
+
         {/* Formula Detail / Instantiation */}
         <Show when={selected()}>
           {(_data) => {
@@ -304,15 +331,21 @@ const FormulaBrowser: Component<FormulaBrowserProps> = (props) => {
                   </div>
                 </Show>
 
+                <Show when={startErrors().length > 0}>
+                  <ul class="list-disc pl-4 text-[10px] text-destructive">
+                    <For each={startErrors()}>{(error) => <li>{error}</li>}</For>
+                  </ul>
+                </Show>
+
                 {/* Instantiate Button */}
                 <Button
                   size="sm"
                   class="mt-1"
-                  onClick={handleInstantiate}
-                  disabled={!props.onInstantiate}
+                  onClick={() => void handleInstantiate()}
+                  disabled={(!props.onInstantiate && !props.folder) || starting()}
                 >
                   <Play class="mr-1 h-3.5 w-3.5" />
-                  Instantiate
+                  {starting() ? "Starting..." : "Instantiate"}
                 </Button>
               </div>
             )
@@ -44,6 +44,9 @@ import {
   Moon,
   Monitor,
   BookmarkPlus,
+  Keyboard,
+  SquareKanban,
+  BarChart3,
 } from "lucide-solid"
 import { cn } from "../lib/cn"
 import { Button, Input, Switch, Separator } from "./ui"
@@ -65,6 +68,8 @@ import {
   toggleShowVerboseOutput,
   toggleAutoApprovePermissions,
   toggleAutoCleanupBlankSessions,
+  toggleIsolatedSessions,
+  toggleRestoreWorkspaces,
   toggleStopInstanceOnLastSessionDelete,
   setDiffViewMode,
   setThinkingBlocksExpansion,
@@ -108,6 +113,9 @@ import {
 import { getCommands, fetchCommands } from "../stores/commands"
 import { instances } from "../stores/instances"
 import McpSettingsPanel from "./mcp-settings-panel"
+import KeybindingsEditor from "./keybindings-editor"
+import UsageAnalyticsPanel from "./usage-analytics-panel"
+import PromptTemplatesPanel from "./prompt-templates-panel"
 // ProviderSettingsPanel removed - functionality now in ProviderConfigModal via Model Catalog
 import EnvironmentVariablesEditor from "./environment-variables-editor"
 import type { Command as SDKCommand } from "@opencode-ai/sdk"
@@ -150,13 +158,17 @@ import {
   checkGhCliInstalled,
   installGhCli,
 } from "../stores/github-auth"
+import { checkLinearStatus, linearConnection, linearStatus } from "../stores/linear-tasks"
 
 type SettingsSection =
   | "general"
   | "session"
+  | "keybindings"
   | "models"
+  | "usage"
   | "mcp"
   | "commands"
+  | "prompt-templates"
   | "governance-constitution"
   | "governance-global"
   | "governance-project"
@@ -187,12 +199,14 @@ const FullSettingsPane: Component<FullSettingsPaneProps> = (props) => {
       items: [
         { id: "general" as const, label: "General", icon: Settings },
         { id: "session" as const, label: "Session", icon: MonitorPlay },
+        { id: "keybindings" as const, label: "Keyboard Shortcuts", icon: Keyboard },
       ],
     },
     {
       title: "AI",
       items: [
         { id: "models" as const, label: "Models", icon: Cpu },
+        { id: "usage" as const, label: "Usage & Budgets", icon: BarChart3 },
       ],
     },
     {
@@ -200,6 +214,7 @@ const FullSettingsPane: Component<FullSettingsPaneProps> = (props) => {
       items: [
         { id: "mcp" as const, label: "MCP Servers", icon: Plug },
         { id: "commands" as const, label: "Slash Commands", icon: Zap },
+        { id: "prompt-templates" as const, label: "Prompt Templates", icon: FileText },
       ],
     },
     {
@@ -273,12 +288,18 @@ const FullSettingsPane: Component<FullSettingsPaneProps> = (props) => {
         return <GeneralSection />
       case "session":
         return <SessionSection />
+      case "keybindings":
+        return <KeybindingsEditor />
       case "models":
         return <ModelsSection />
+      case "usage":
+        return <UsageAnalyticsPanel />
       case "mcp":
         return <McpSection folder={props.instance?.folder} />
       case "commands":
         return <CommandsSection instanceId={props.instance?.id} />
+      case "prompt-templates":
+        return <PromptTemplatesPanel folder={props.instance?.folder} />
       case "governance-constitution":
         return <ConstitutionPanel folder={props.instance?.folder} />
       case "governance-global":
@@ -629,7 +650,13 @@ const GeneralSection: Component = () => {
 }
 
 const SessionSection: Component = () => {
-  const { preferences: prefs } = useConfig()
+  const {
+    preferences: prefs,
+    setGateTimeoutMinutes,
+    setCrashRestartMaxAttempts,
+    setFileHistoryMaxVersions,
+    setFileHistoryRetentionDays,
+  } = useConfig()
 
   return (
     <div class="mb-8">
@@ -653,6 +680,26 @@ const SessionSection: Component = () => {
             class="ml-4"
           />
         </div>
+
+        <div class="flex items-center justify-between py-3">
+          <div class="flex-1 min-w-0">
+            <div class="text-sm font-medium text-foreground mb-0.5">Approval gate timeout</div>
+            <div class="text-xs text-muted-foreground">
+              Minutes before an unanswered approval gate is rejected (0 = never)
+            </div>
+          </div>
+          <input
+            type="number"
+            min="0"
+            step="5"
+            value={prefs().gateTimeoutMinutes}
+            onInput={(e) => {
+              const val = parseInt(e.currentTarget.value, 10)
+              if (!isNaN(val)) setGateTimeoutMinutes(val)
+            }}
+            class="ml-4 w-20 px-2 py-1.5 rounded-md border border-border bg-secondary text-foreground text-sm font-mono text-center focus:outline-none focus:border-primary"
+          />
+        </div>
       </div>
 
       <Separator class="my-6" />
@@ -672,6 +719,20 @@ const SessionSection: Component = () => {
           />
         </div>
 
+        <div class="flex items-center justify-between py-3">
+          <div class="flex-1 min-w-0">
+            <div class="text-sm font-medium text-foreground mb-0.5">Isolated sessions</div>
+            <div class="text-xs text-muted-foreground">
+              Start new sessions in their own git worktree and branch, merged back when done
+            </div>
+          </div>
+          <Switch
+            checked={prefs().isolatedSessions}
+            onChange={toggleIsolatedSessions}
+            class="ml-4"
+          />
+        </div>
+
         <div class="flex items-center justify-between py-3">
           <div class="flex-1 min-w-0">
             <div class="text-sm font-medium text-foreground mb-0.5">Stop instance on last session delete</div>
@@ -683,6 +744,41 @@ const SessionSection: Component = () => {
             class="ml-4"
           />
         </div>
+
+        <div class="flex items-center justify-between py-3">
+          <div class="flex-1 min-w-0">
+            <div class="text-sm font-medium text-foreground mb-0.5">Restore previous workspaces</div>
+            <div class="text-xs text-muted-foreground">
+              Reopen last run's workspaces and tabs on startup, relaunching each when first opened
+            </div>
+          </div>
+          <Switch
+            checked={prefs().workspaceStartupMode === "restore"}
+            onChange={toggleRestoreWorkspaces}
+            class="ml-4"
+          />
+        </div>
+
+        <div class="flex items-center justify-between py-3">
+          <div class="flex-1 min-w-0">
+            <div class="text-sm font-medium text-foreground mb-0.5">Crash restart attempts</div>
+            <div class="text-xs text-muted-foreground">
+              Times a crashed instance is restarted, with growing delays, before giving up (0 = never)
+            </div>
+          </div>
+          <input
+            type="number"
+            min="0"
+            max="20"
+            step="1"
+            value={prefs().crashRestartMaxAttempts}
+            onInput={(e) => {
+              const val = parseInt(e.currentTarget.value, 10)
+              if (!isNaN(val)) setCrashRestartMaxAttempts(val)
+            }}
+            class="ml-4 w-20 px-2 py-1.5 rounded-md border border-border bg-secondary text-foreground text-sm font-mono text-center focus:outline-none focus:border-primary"
+          />
+        </div>
       </div>
 
       <Separator class="my-6" />
@@ -714,6 +810,49 @@ const SessionSection: Component = () => {
           />
         </div>
       </div>
+
+      <Separator class="my-6" />
+
+      <div class="mb-6">
+        <h3 class="text-base font-medium text-foreground mb-3 pb-2 border-b border-border">File History</h3>
+
+        <div class="flex items-center justify-between py-3">
+          <div class="flex-1 min-w-0">
+            <div class="text-sm font-medium text-foreground mb-0.5">Versions per file</div>
+            <div class="text-xs text-muted-foreground">
+              Saved versions kept for each file in the project's .era/history
+            </div>
+          </div>
+          <input
+            type="number"
+            min="1"
+            max="1000"
+            value={prefs().fileHistoryMaxVersions}
+            onInput={(e) => {
+              const val = parseInt(e.currentTarget.value, 10)
+              if (!isNaN(val)) setFileHistoryMaxVersions(val)
+            }}
+            class="ml-4 w-20 px-2 py-1.5 rounded-md border border-border bg-secondary text-foreground text-sm font-mono text-center focus:outline-none focus:border-primary"
+          />
+        </div>
+
+        <div class="flex items-center justify-between py-3">
+          <div class="flex-1 min-w-0">
+            <div class="text-sm font-medium text-foreground mb-0.5">Keep versions for</div>
+            <div class="text-xs text-muted-foreground">Days before old versions are discarded (0 = forever)</div>
+          </div>
+          <input
+            type="number"
+            min="0"
+            value={prefs().fileHistoryRetentionDays}
+            onInput={(e) => {
+              const val = parseInt(e.currentTarget.value, 10)
+              if (!isNaN(val)) setFileHistoryRetentionDays(val)
+            }}
+            class="ml-4 w-20 px-2 py-1.5 rounded-md border border-border bg-secondary text-foreground text-sm font-mono text-center focus:outline-none focus:border-primary"
+          />
+        </div>
+      </div>
     </div>
   )
 }
@@ -2247,6 +2386,7 @@ const AccountsSection: Component<AccountsSectionProps> = (props) => {
     await Promise.all([
       checkGhCliInstalled(),
       checkGCloudAuth(),
+      checkLinearStatus(),
     ])
     // Check GitHub auth after CLI check completes
     if (isGhCliInstalled()) {
@@ -2506,19 +2646,48 @@ const AccountsSection: Component<AccountsSectionProps> = (props) => {
         </div>
       </div>
 
+      {/* Linear Section */}
+      <div class="mb-6">
+        <h3 class="text-base font-medium text-foreground mb-3 pb-2 border-b border-border">Linear</h3>
+        <div class="rounded-lg border bg-card p-4">
+          <div class="flex items-center gap-3">
+            <div class="flex items-center justify-center w-10 h-10 rounded-lg bg-muted text-muted-foreground">
+              <SquareKanban class="w-5 h-5" />
+            </div>
+            <div class="flex-1 min-w-0">
+              <div class="text-base font-medium text-foreground">Linear</div>
+              <div class={cn("text-sm text-muted-foreground", linearConnection()?.connected && "text-success")}>
+                {linearConnection()?.connected
+                  ? `Connected to ${linearConnection()?.workspace} via ${linearConnection()?.server}`
+                  : "Not connected"}
+              </div>
+            </div>
+            <button
+              type="button"
+              class="inline-flex items-center gap-1.5 p-1.5 rounded bg-transparent border-none text-muted-foreground cursor-pointer transition-colors hover:bg-accent hover:text-foreground ml-auto disabled:opacity-50"
+              onClick={() => void checkLinearStatus()}
+              disabled={linearStatus() === "connecting"}
+              title="Refresh status"
+            >
+              <RefreshCw class={`w-4 h-4 ${linearStatus() === "connecting" ? "animate-spin" : ""}`} />
+            </button>
+          </div>
+          <Show when={!linearConnection()?.connected && linearConnection()?.error}>
+            <div class="text-sm text-muted-foreground leading-relaxed mt-3">{linearConnection()?.error}</div>
+          </Show>
+          <div class="text-xs text-muted-foreground leading-relaxed mt-3">
+            Issues come from the Linear MCP server. Narrow them per project with <code>.era/linear.json</code>, e.g.{" "}
+            <code>{'{ "team": "ENG", "project": "Checkout" }'}</code>.
+          </div>
+        </div>
+      </div>
+
       <div class="h-px bg-border my-6" />
 
       {/* Coming Soon Section */}
       <div class="mb-6">
         <h3 class="text-base font-medium text-foreground mb-3 pb-2 border-b border-border">Coming Soon</h3>
         <div class="flex flex-col gap-2">
-          <div class="flex items-center gap-3 p-3 rounded-lg border bg-secondary">
-            <div class="flex-1 min-w-0">
-              <div class="text-sm font-medium text-foreground">Linear</div>
-              <div class="text-xs text-muted-foreground">Project and issue tracking</div>
-            </div>
-            <span class="inline-block px-3 py-1 rounded-full bg-muted text-muted-foreground text-xs font-medium">Coming Soon</span>
-          </div>
           <div class="flex items-center gap-3 p-3 rounded-lg border bg-secondary">
             <div class="flex-1 min-w-0">
               <div class="text-sm font-medium text-foreground">Notion</div>
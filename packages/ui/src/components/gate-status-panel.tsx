@@ -1,4 +1,4 @@
-import { Component, For, Show, createSignal, createResource } from "solid-js"
+import { Component, For, Show, createSignal, createResource, onCleanup } from "solid-js"
 import {
   Cog,
   GitMerge,
@@ -13,35 +13,21 @@ import {
 } from "lucide-solid"
 import { cn } from "../lib/cn"
 import { getLogger } from "../lib/logger"
-import { Card, CardContent, CardHeader, CardTitle, Badge, Button, Separator } from "./ui"
+import { serverEvents } from "../lib/server-events"
+import { approveGate, rejectGate } from "../stores/gates"
+import { Card, CardContent, CardHeader, CardTitle, Badge, Button, Input, Separator } from "./ui"
+import type { GateEntry, GateType } from "../../../server/src/api-types"
 
 const log = getLogger("gate-status-panel")
 
-type GateType = "gh:run" | "gh:pr" | "timer" | "human" | "mail"
-type GateStatus = "waiting" | "resolved" | "rejected" | "timed-out" | "cancelled"
-
-interface GateEntry {
-  id: string
-  type: GateType
-  status: GateStatus
-  planId?: string
-  stepId?: string
-  createdAt: string
-  resolvedAt?: string
-  waiters: string[]
-  metadata: Record<string, unknown>
-  resolution?: {
-    outcome: string
-    resolvedBy?: string
-    comment?: string
-  }
-}
-
 interface GateStatusPanelProps {
   folder?: string
   planId?: string
-  onApprove?: (gateId: string, comment?: string) => void
-  onReject?: (gateId: string, reason?: string) => void
+  sessionId?: string
+  /** Override the default approve call to the gates API */
+  onApprove?: (gateId: string, comment?: string) => void | Promise<unknown>
+  /** Override the default reject call to the gates API */
+  onReject?: (gateId: string, reason?: string) => void | Promise<unknown>
 }
 
 const GATE_ICONS: Record<GateType, typeof Cog> = {
@@ -69,12 +55,16 @@ const STATUS_CONFIG = {
 } as const
 
 const GateStatusPanel: Component<GateStatusPanelProps> = (props) => {
-  const [approveComment, setApproveComment] = createSignal("")
+  const [comments, setComments] = createSignal<Record<string, string>>({})
+  const [pendingId, setPendingId] = createSignal<string | null>(null)
+  const [decisionError, setDecisionError] = createSignal<string | null>(null)
 
-  const fetchGates = async (planId: string | undefined): Promise<GateEntry[]> => {
+  const fetchGates = async (filter: { planId?: string; sessionId?: string; folder?: string }): Promise<GateEntry[]> => {
     try {
       const params = new URLSearchParams()
-      if (planId) params.set("planId", planId)
+      if (filter.planId) params.set("planId", filter.planId)
+      if (filter.sessionId) params.set("sessionId", filter.sessionId)
+      if (filter.folder) params.set("folder", filter.folder)
       const resp = await fetch(`/api/era/gates/status?${params}`)
       if (!resp.ok) return []
       const data = await resp.json()
@@ -85,7 +75,40 @@ const GateStatusPanel: Component<GateStatusPanelProps> = (props) => {
     }
   }
 
-  const [gates, { refetch }] = createResource(() => props.planId, fetchGates)
+  const [gates, { refetch }] = createResource(
+    () => ({ planId: props.planId, sessionId: props.sessionId, folder: props.folder }),
+    fetchGates,
+  )
+
+  const unsubscribeCreated = serverEvents.on("gate.created", () => void refetch())
+  const unsubscribeResolved = serverEvents.on("gate.resolved", () => void refetch())
+  onCleanup(() => {
+    unsubscribeCreated()
+    unsubscribeResolved()
+  })
+
+  const decide = async (gate: GateEntry, approved: boolean) => {
+    const comment = comments()[gate.id]?.trim() || undefined
+    setPendingId(gate.id)
+    setDecisionError(null)
+    try {
+      if (approved) {
+        await (props.onApprove ? props.onApprove(gate.id, comment) : approveGate(gate.id, comment))
+      } else {
+        await (props.onReject ? props.onReject(gate.id, comment) : rejectGate(gate.id, comment))
+      }
+      setComments((prev) => {
+        const { [gate.id]: _removed, ...rest } = prev
+        return rest
+      })
+      await refetch()
+    } catch (err) {
+      log.error("Failed to record gate decision:", err)
+      setDecisionError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setPendingId(null)
+    }
+  }
 
   const formatTime = (ts: string) => {
     const ms = Date.now() - new Date(ts).getTime()
@@ -107,8 +130,14 @@ const GateStatusPanel: Component<GateStatusPanelProps> = (props) => {
       </CardHeader>
 
       <CardContent class="flex flex-col gap-1.5 pt-0">
+        <Show when={decisionError()}>
+          <p class="flex items-center gap-1 text-[10px] text-destructive">
+            <AlertCircle class="h-3 w-3" />
+            {decisionError()}
+          </p>
+        </Show>
         <Show
-          when={!gates.loading && (gates() ?? []).length > 0}
+          when={(gates() ?? []).length > 0}
           fallback={
             <p class="text-xs text-muted-foreground">
               {gates.loading ? "Loading..." : "No active gates."}
@@ -136,7 +165,15 @@ const GateStatusPanel: Component<GateStatusPanelProps> = (props) => {
                         <span class="text-xs font-medium">{GATE_LABELS[gate.type]}</span>
                         <Badge class={cn("text-[9px] px-1 py-0", config.color)}>{config.label}</Badge>
                       </div>
-                      <span class="text-[10px] text-muted-foreground">{formatTime(gate.createdAt)}</span>
+                      <p class="truncate text-[11px]" title={gate.description ?? gate.title}>
+                        {gate.title}
+                      </p>
+                      <span class="text-[10px] text-muted-foreground">
+                        {formatTime(gate.createdAt)}
+                        <Show when={gate.status === "waiting" && gate.expiresAt}>
+                          {" · "}times out {new Date(gate.expiresAt!).toLocaleTimeString()}
+                        </Show>
+                      </span>
                     </div>
                     <Show when={gate.waiters.length > 0}>
                       <Badge class="text-[9px]">{gate.waiters.length} waiting</Badge>
@@ -156,22 +193,35 @@ const GateStatusPanel: Component<GateStatusPanelProps> = (props) => {
                   </Show>
 
                   {/* Inline Approve/Reject for human gates */}
-                  <Show when={gate.type === "human" && gate.status === "waiting" && (props.onApprove || props.onReject)}>
+                  <Show when={gate.type === "human" && gate.status === "waiting"}>
                     <Separator class="my-1.5" />
+                    <Input
+                      class="mb-1.5 h-6 text-[10px]"
+                      placeholder="Comment (optional)"
+                      value={comments()[gate.id] ?? ""}
+                      onInput={(e) => {
+                        const value = e.currentTarget.value
+                        setComments((prev) => ({ ...prev, [gate.id]: value }))
+                      }}
+                    />
                     <div class="flex items-center gap-2">
                       <Button
                         size="sm"
                         class="h-6 text-[10px] bg-success/10 text-success hover:bg-success/20 border-0"
-                        onClick={() => props.onApprove?.(gate.id, approveComment())}
+                        disabled={pendingId() === gate.id}
+                        onClick={() => void decide(gate, true)}
                       >
-                        <CheckCircle class="mr-1 h-3 w-3" />
+                        <Show when={pendingId() === gate.id} fallback={<CheckCircle class="mr-1 h-3 w-3" />}>
+                          <Loader2 class="mr-1 h-3 w-3 animate-spin" />
+                        </Show>
                         Approve
                       </Button>
                       <Button
                         size="sm"
                         variant="outline"
                         class="h-6 text-[10px] text-destructive border-destructive/30"
-                        onClick={() => props.onReject?.(gate.id)}
+                        disabled={pendingId() === gate.id}
+                        onClick={() => void decide(gate, false)}
                       >
                         <XCircle class="mr-1 h-3 w-3" />
                         Reject
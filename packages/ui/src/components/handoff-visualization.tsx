@@ -1,4 +1,4 @@
-import { Component, For, Show, createSignal, createResource, createMemo } from "solid-js"
+import { Component, For, Show, createSignal, createResource, createMemo, onCleanup } from "solid-js"
 import {
   ArrowRightLeft,
   ChevronDown,
@@ -11,31 +11,12 @@ import {
 } from "lucide-solid"
 import { cn } from "../lib/cn"
 import { getLogger } from "../lib/logger"
+import { serverEvents } from "../lib/server-events"
 import { Card, CardContent, CardHeader, CardTitle, Badge, Button, Separator } from "./ui"
+import type { HandoffsResponse } from "../../../server/src/api-types"
 
 const log = getLogger("handoff-visualization")
 
-interface HandoffEntry {
-  id: string
-  fromSessionId: string
-  toSessionId?: string
-  timestamp: string
-  contextUsage: number
-  reason: "context_exhaustion" | "error" | "manual"
-  workSummary: string
-  completedTasks: string[]
-  pendingTasks: string[]
-  keyDecisions: string[]
-  filesModified: string[]
-}
-
-interface HandoffChainNode {
-  sessionId: string
-  duration?: number
-  tokensUsed?: number
-  progress?: string
-}
-
 interface HandoffVisualizationProps {
   sessionId?: string
   folder?: string
@@ -52,10 +33,11 @@ const REASON_CONFIG = {
 const HandoffVisualization: Component<HandoffVisualizationProps> = (props) => {
   const [expandedHandoff, setExpandedHandoff] = createSignal<string | null>(null)
 
-  const fetchHandoffs = async (sessionId: string | undefined): Promise<{ handoffs: HandoffEntry[]; chain: HandoffChainNode[] }> => {
+  const fetchHandoffs = async (filter: { sessionId?: string; folder?: string }): Promise<HandoffsResponse> => {
     try {
       const params = new URLSearchParams()
-      if (sessionId) params.set("sessionId", sessionId)
+      if (filter.sessionId) params.set("sessionId", filter.sessionId)
+      if (filter.folder) params.set("folder", filter.folder)
       const resp = await fetch(`/api/era/handoffs?${params}`)
       if (!resp.ok) return { handoffs: [], chain: [] }
       const data = await resp.json()
@@ -66,7 +48,9 @@ const HandoffVisualization: Component<HandoffVisualizationProps> = (props) => {
     }
   }
 
-  const [data] = createResource(() => props.sessionId, fetchHandoffs)
+  const [data, { refetch }] = createResource(() => ({ sessionId: props.sessionId, folder: props.folder }), fetchHandoffs)
+
+  onCleanup(serverEvents.on("handoff.created", () => void refetch()))
 
   const chainStats = createMemo(() => {
     const chain = data()?.chain ?? []
@@ -103,7 +87,7 @@ const HandoffVisualization: Component<HandoffVisualizationProps> = (props) => {
 
       <CardContent class="flex flex-col gap-3 pt-0">
         <Show
-          when={!data.loading && (data()?.handoffs ?? []).length > 0}
+          when={(data()?.handoffs ?? []).length > 0}
           fallback={
             <p class="text-xs text-muted-foreground">
               {data.loading ? "Loading..." : "No handoffs in this session."}
@@ -149,10 +133,13 @@ const HandoffVisualization: Component<HandoffVisualizationProps> = (props) => {
                       class="flex flex-col items-center gap-0.5 rounded-md border border-border px-2 py-1 hover:bg-muted/50 transition-colors shrink-0"
                       onClick={() => props.onNavigateSession?.(node.sessionId)}
                     >
-                      <span class="text-[10px] font-mono">{node.sessionId.slice(0, 8)}</span>
+                      <span class="text-[10px] font-mono" title={node.title}>{node.sessionId.slice(0, 8)}</span>
                       <Show when={node.tokensUsed}>
                         <span class="text-[9px] text-muted-foreground">{Math.round((node.tokensUsed ?? 0) / 1000)}k tok</span>
                       </Show>
+                      <Show when={node.progress}>
+                        <span class="text-[9px] text-muted-foreground">{node.progress}</span>
+                      </Show>
                     </button>
                   </>
                 )}
@@ -244,11 +231,13 @@ const HandoffVisualization: Component<HandoffVisualizationProps> = (props) => {
                       </Show>
 
                       <Show when={handoff.filesModified.length > 0}>
-                        <div class="flex items-center gap-1 text-[10px] text-muted-foreground">
+                        <div class="flex items-center gap-1 text-[10px] text-muted-foreground" title={handoff.filesModified.join("\n")}>
                           <FileText class="h-3 w-3" />
                           {handoff.filesModified.length} files modified
                         </div>
                       </Show>
+
+                      <span class="text-[10px] font-mono text-muted-foreground">{handoff.documentPath}</span>
                     </div>
                   </Show>
                 </div>
@@ -0,0 +1,242 @@
+/**
+ * Imported Session Viewer
+ *
+ * Read-only view of a session imported from a JSON export bundle: its
+ * messages, tool calls and diffs, with its subagent sessions as tabs.
+ */
+
+import { Component, For, Match, Show, Switch, createMemo, createSignal } from "solid-js"
+import { Dialog } from "@kobalte/core/dialog"
+import type { Part } from "@opencode-ai/sdk"
+import { Archive, Download, Trash2, X } from "lucide-solid"
+import type { SessionBundleMessage } from "../../../server/src/api-types"
+import { cn } from "../lib/cn"
+import { getLogger } from "../lib/logger"
+import { showToastNotification } from "../lib/notifications"
+import { toolCallHeading, toolCallMarkdown, type SessionExportFormat } from "../lib/session-export"
+import { useTheme } from "../lib/theme"
+import { activeInstanceId } from "../stores/instances"
+import { useConfig } from "../stores/preferences"
+import { closeImportedSession, deleteImportedSession, downloadSessionBundle, viewedImport } from "../stores/session-export"
+import { extractDiffPayload } from "./tool-call/utils"
+import { ToolCallDiffViewer } from "./diff-viewer"
+import { Markdown } from "./markdown"
+
+const log = getLogger("session")
+
+const ImportedSessionViewer: Component = () => {
+  const [selectedSessionId, setSelectedSessionId] = createSignal<string | null>(null)
+
+  const bundle = () => viewedImport()?.bundle
+  const entry = createMemo(() => {
+    const sessions = bundle()?.sessions ?? []
+    return sessions.find((candidate) => candidate.info.id === selectedSessionId()) ?? sessions[0]
+  })
+
+  const download = async (format: SessionExportFormat) => {
+    const current = bundle()
+    if (!current) return
+    try {
+      await downloadSessionBundle(current, format)
+    } catch (error) {
+      log.error("Failed to export imported session", error)
+      showToastNotification({ message: "Unable to export session", variant: "error" })
+    }
+  }
+
+  const remove = async () => {
+    const imported = viewedImport()
+    const instanceId = activeInstanceId()
+    if (!imported || !instanceId) return
+    try {
+      await deleteImportedSession(instanceId, imported.id)
+    } catch (error) {
+      log.error(`Failed to delete imported session ${imported.id}:`, error)
+      showToastNotification({ message: "Unable to delete imported session", variant: "error" })
+    }
+  }
+
+  return (
+    <Dialog
+      open={Boolean(viewedImport())}
+      onOpenChange={(open) => {
+        if (!open) {
+          closeImportedSession()
+          setSelectedSessionId(null)
+        }
+      }}
+    >
+      <Dialog.Portal>
+        <Dialog.Overlay class="fixed inset-0 z-40 bg-black/50" />
+        <div class="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[6vh]">
+          <Dialog.Content class="w-full max-w-4xl rounded-lg flex flex-col bg-background border border-border shadow-xl h-[85vh]">
+            <div class="flex items-center gap-3 px-4 py-3 border-b border-border">
+              <Archive class="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              <div class="min-w-0 flex-1">
+                <Dialog.Title class="text-base font-semibold text-foreground truncate">{viewedImport()?.title}</Dialog.Title>
+                <p class="text-xs text-muted-foreground">
+                  Imported, read-only · exported {new Date(viewedImport()?.exportedAt ?? 0).toLocaleString()}
+                </p>
+              </div>
+              <button
+                type="button"
+                class="inline-flex items-center gap-1 rounded px-2 py-1 text-xs text-foreground bg-secondary hover:bg-accent"
+                onClick={() => void download("markdown")}
+              >
+                <Download class="w-3.5 h-3.5" />
+                Markdown
+              </button>
+              <button
+                type="button"
+                class="inline-flex items-center gap-1 rounded px-2 py-1 text-xs text-foreground bg-secondary hover:bg-accent"
+                onClick={() => void download("html")}
+              >
+                <Download class="w-3.5 h-3.5" />
+                HTML
+              </button>
+              <button
+                type="button"
+                class="p-1 rounded transition-colors text-muted-foreground hover:bg-destructive/10 hover:text-destructive"
+                onClick={() => void remove()}
+                aria-label="Delete imported session"
+                title="Delete imported session"
+              >
+                <Trash2 class="w-4 h-4" />
+              </button>
+              <Dialog.CloseButton
+                class="p-1 rounded transition-colors text-muted-foreground hover:bg-accent hover:text-foreground"
+                aria-label="Close"
+              >
+                <X class="w-4 h-4" />
+              </Dialog.CloseButton>
+            </div>
+
+            <Show when={(bundle()?.sessions.length ?? 0) > 1}>
+              <div class="flex gap-1 px-4 py-2 border-b border-border overflow-x-auto">
+                <For each={bundle()?.sessions}>
+                  {(session, index) => (
+                    <button
+                      type="button"
+                      class={cn(
+                        "flex-shrink-0 rounded px-2 py-1 text-xs transition-colors max-w-[220px] truncate",
+                        entry()?.info.id === session.info.id
+                          ? "bg-accent text-foreground font-medium"
+                          : "text-muted-foreground hover:bg-accent hover:text-foreground",
+                      )}
+                      onClick={() => setSelectedSessionId(session.info.id)}
+                      title={session.info.title}
+                    >
+                      {index() === 0 ? "Main" : session.info.title || "Subagent"}
+                    </button>
+                  )}
+                </For>
+              </div>
+            </Show>
+
+            <div class="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+              <Show
+                when={(entry()?.messages.length ?? 0) > 0}
+                fallback={<p class="py-8 text-center text-sm text-muted-foreground">This session has no messages</p>}
+              >
+                <For each={entry()?.messages}>
+                  {(message) => <ImportedMessage message={message} onOpenSession={setSelectedSessionId} />}
+                </For>
+              </Show>
+            </div>
+          </Dialog.Content>
+        </div>
+      </Dialog.Portal>
+    </Dialog>
+  )
+}
+
+const ImportedMessage: Component<{ message: SessionBundleMessage; onOpenSession: (sessionId: string) => void }> = (props) => {
+  const { isDark } = useTheme()
+  const { preferences } = useConfig()
+  const isUser = () => props.message.info.role === "user"
+  const parts = () => props.message.parts as unknown as Part[]
+
+  return (
+    <div class={cn("rounded-lg border border-border px-3 py-2", isUser() && "bg-secondary")}>
+      <div class="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground mb-1">
+        {isUser() ? "User" : "Assistant"}
+      </div>
+      <For each={parts()}>
+        {(part) => (
+          <Switch>
+            <Match when={part.type === "text" && !part.synthetic && part}>
+              {(text) => <Markdown part={{ id: text().id, type: "text", text: text().text }} isDark={isDark()} size="sm" />}
+            </Match>
+            <Match when={part.type === "reasoning" && part}>
+              {(reasoning) => (
+                <div class="border-l-2 border-border pl-3 italic text-muted-foreground">
+                  <Markdown part={{ id: reasoning().id, type: "text", text: reasoning().text }} isDark={isDark()} size="sm" />
+                </div>
+              )}
+            </Match>
+            <Match when={part.type === "file" && part}>
+              {(file) => <p class="text-xs text-muted-foreground">📎 {file().filename ?? file().url}</p>}
+            </Match>
+            <Match when={part.type === "tool" && part}>
+              {(tool) => {
+                const diff = () => (tool().state.status === "error" ? null : extractDiffPayload(tool().tool, tool().state))
+                const body = () => (diff() ? null : toolCallMarkdown(tool().tool, tool().state))
+                const childSessionId = () => {
+                  const metadata = (tool().state as { metadata?: Record<string, unknown> }).metadata
+                  return tool().tool === "task" && typeof metadata?.sessionId === "string" ? metadata.sessionId : null
+                }
+                return (
+                  <details class="my-1 rounded border border-border">
+                    <summary
+                      class={cn(
+                        "cursor-pointer px-2 py-1 font-mono text-xs",
+                        tool().state.status === "error" ? "text-destructive" : "text-foreground",
+                      )}
+                    >
+                      {toolCallHeading(tool().tool, tool().state)}
+                      <Show when={childSessionId()}>
+                        {(sessionId) => (
+                          <button
+                            type="button"
+                            class="ml-2 text-info hover:underline"
+                            onClick={(event) => {
+                              event.preventDefault()
+                              props.onOpenSession(sessionId())
+                            }}
+                          >
+                            open subagent
+                          </button>
+                        )}
+                      </Show>
+                    </summary>
+                    <div class="border-t border-border overflow-x-auto">
+                      <Show when={diff()}>
+                        {(payload) => (
+                          <ToolCallDiffViewer
+                            diffText={payload().diffText}
+                            filePath={payload().filePath}
+                            theme={isDark() ? "dark" : "light"}
+                            mode={preferences().diffViewMode || "split"}
+                          />
+                        )}
+                      </Show>
+                      <Show when={body()}>
+                        {(markdown) => (
+                          <div class="px-2">
+                            <Markdown part={{ id: `${tool().id}-body`, type: "text", text: markdown() }} isDark={isDark()} size="sm" />
+                          </div>
+                        )}
+                      </Show>
+                    </div>
+                  </details>
+                )
+              }}
+            </Match>
+          </Switch>
+        )}
+      </For>
+    </div>
+  )
+}
+
+export default ImportedSessionViewer
@@ -0,0 +1,82 @@
+import { For, Show } from "solid-js"
+import type { WorkspaceCrashReport } from "../../../server/src/api-types"
+import { cn } from "../lib/cn"
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogFooter,
+} from "./ui"
+import { Button } from "./ui"
+
+interface InstanceCrashModalProps {
+  report: WorkspaceCrashReport | null
+  onRestart: () => void
+  onClose: () => void
+}
+
+function describeReason(report: WorkspaceCrashReport): string {
+  switch (report.reason) {
+    case "crash-loop":
+      return "It kept crashing shortly after each restart, so it was not restarted again."
+    case "max-attempts":
+      return `It crashed ${report.attempt} times in a row, so it was not restarted again.`
+    default:
+      return "Automatic restarts are turned off."
+  }
+}
+
+function describeExit(report: WorkspaceCrashReport): string {
+  if (report.error) return report.error
+  if (report.signal) return `Process exited with signal ${report.signal}`
+  return `Process exited with code ${report.exitCode}`
+}
+
+export default function InstanceCrashModal(props: InstanceCrashModalProps) {
+  return (
+    <AlertDialog open={Boolean(props.report)}>
+      <AlertDialogContent class="max-w-2xl">
+        <Show when={props.report}>
+          {(report) => (
+            <>
+              <AlertDialogHeader>
+                <AlertDialogTitle class="text-xl">Instance Crashed</AlertDialogTitle>
+                <AlertDialogDescription class="break-words">
+                  The OpenCode instance for {report().folder} stopped unexpectedly. {describeReason(report())}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+
+              <div class={cn("rounded-lg border border-border bg-secondary p-4 text-sm text-muted-foreground")}>
+                <p class="font-medium text-foreground">Details</p>
+                <p class="mt-2">{describeExit(report())}</p>
+                <p class="mt-2">
+                  Crashed at {new Date(report().crashedAt).toLocaleTimeString()} after{" "}
+                  {Math.round(report().uptimeMs / 1000)}s of uptime
+                </p>
+                <Show when={report().logs.length > 0}>
+                  <p class="mt-3 font-medium text-foreground">Last output</p>
+                  <pre class="mt-1 max-h-64 overflow-auto rounded bg-background p-2 font-mono text-xs text-foreground whitespace-pre-wrap break-all">
+                    <For each={report().logs}>
+                      {(entry) => (
+                        <div class={cn(entry.level === "error" && "text-destructive")}>{entry.message}</div>
+                      )}
+                    </For>
+                  </pre>
+                </Show>
+              </div>
+
+              <AlertDialogFooter>
+                <Button variant="outline" onClick={props.onClose}>
+                  Close Instance
+                </Button>
+                <Button onClick={props.onRestart}>Restart</Button>
+              </AlertDialogFooter>
+            </>
+          )}
+        </Show>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
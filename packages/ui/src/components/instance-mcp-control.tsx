@@ -1,7 +1,7 @@
 import { Switch } from "./ui/switch"
 import { Dialog } from "@kobalte/core/dialog"
 import { Plus } from "lucide-solid"
-import { For, Show, createMemo, createSignal, type Component } from "solid-js"
+import { For, Show, createEffect, createMemo, createSignal, onMount, type Component } from "solid-js"
 import { cn } from "../lib/cn"
 import type { Instance, RawMcpStatus } from "../types/instance"
 import type { McpServerConfig } from "../stores/preferences"
@@ -13,7 +13,10 @@ import { getLogger } from "../lib/logger"
 import { useOptionalInstanceMetadataContext } from "../lib/contexts/instance-metadata-context"
 import { getInstanceMetadata } from "../stores/instance-metadata"
 import { showToastNotification } from "../lib/notifications"
-import { getBuiltInMcpConfig } from "../stores/era-mcp"
+import { fetchProjectMcpConfig, getMergedMcpServers, getProjectMcpConfig, type McpScope } from "../stores/project-mcp"
+import { getSessionMcpOverrides, setSessionMcpOverride } from "../stores/session-mcp"
+import { getMcpServerHealth, initMcpHealth } from "../stores/mcp-health"
+import McpServerInventory from "./mcp-server-inventory"
 
 const log = getLogger("session")
 
@@ -21,7 +24,10 @@ type McpRow = {
   name: string
   desiredEnabled: boolean
   runtime?: { status?: string; error?: string }
-  hasRegistryEntry: boolean
+  /** Scope the server's config comes from; absent for servers only the instance knows */
+  source?: McpScope
+  /** Toggled for this session only */
+  sessionOverride: boolean
 }
 
 interface InstanceMcpControlProps {
@@ -54,28 +60,36 @@ const InstanceMcpControl: Component<InstanceMcpControlProps> = (props) => {
 
   const statusMap = createMemo<RawMcpStatus>(() => metadata()?.mcpStatus ?? {})
 
+  onMount(() => initMcpHealth())
+
+  createEffect(() => {
+    const folder = instance().folder
+    if (folder && !getProjectMcpConfig(folder)) void fetchProjectMcpConfig(folder)
+  })
+
+  const mergedServers = createMemo(() => getMergedMcpServers(instance().folder, instance().id))
+
   const rows = createMemo<McpRow[]>(() => {
-    const registry = preferences().mcpRegistry ?? {}
-    const desired = preferences().mcpDesiredState ?? {}
+    const merged = new Map(mergedServers().map((entry) => [entry.name, entry]))
     const status = statusMap()
 
-    const names = new Set<string>([...Object.keys(registry), ...Object.keys(status)])
+    const names = new Set<string>([...merged.keys(), ...Object.keys(status)])
 
     return Array.from(names)
       .filter(Boolean)
       .sort((a, b) => a.localeCompare(b))
       .map((name) => {
-        const registryEntry = registry[name]
-        const runtimeStatus = status[name]?.status
-        const isConnected = runtimeStatus === "connected"
-        // Use user's desired state when set (enables optimistic toggle);
-        // fall back to runtime status so fresh loads reflect reality.
-        const desiredEnabled = name in desired ? desired[name] : isConnected
+        const entry = merged.get(name)
+        const isConnected = status[name]?.status === "connected"
+        // Untouched built-ins are managed by era-code itself, so show what the
+        // runtime reports; everything else reflects the merged intent.
+        const configured = entry && !(entry.enabledBy === "era-code" && entry.sessionOverride === undefined)
         return {
           name,
-          desiredEnabled,
+          desiredEnabled: configured ? entry.effectiveEnabled : isConnected,
           runtime: status[name],
-          hasRegistryEntry: Boolean(registryEntry),
+          source: entry?.source,
+          sessionOverride: entry?.sessionOverride !== undefined,
         }
       })
   })
@@ -90,10 +104,10 @@ const InstanceMcpControl: Component<InstanceMcpControlProps> = (props) => {
     setPending((prev) => ({ ...prev, [name]: true }))
 
     try {
-      // Resolve config: user registry entry first, then built-in defaults
-      const registryEntry = preferences().mcpRegistry?.[name] ?? getBuiltInMcpConfig(name)
-      if (registryEntry) {
-        await instanceApi.upsertMcp(currentInstance, name, { ...registryEntry, enabled: desiredEnabled })
+      // Resolve config across the project, global and era-code scopes
+      const config = mergedServers().find((entry) => entry.name === name)?.config
+      if (config) {
+        await instanceApi.upsertMcp(currentInstance, name, { ...config, enabled: desiredEnabled })
       }
 
       if (desiredEnabled) {
@@ -115,40 +129,24 @@ const InstanceMcpControl: Component<InstanceMcpControlProps> = (props) => {
     }
   }
 
-  const toggleGlobalDesired = async (name: string, enabled: boolean) => {
-    const previousState = preferences().mcpDesiredState?.[name]
-    
+  /** Toggle a server for this instance only; global and project settings are untouched */
+  const toggleSessionEnabled = async (name: string, enabled: boolean) => {
+    const instanceId = instance().id
+    const previous = getSessionMcpOverrides(instanceId)[name]
+
     // Optimistically update the UI
-    updatePreferences({
-      mcpDesiredState: {
-        ...(preferences().mcpDesiredState ?? {}),
-        [name]: enabled,
-      },
-    })
+    setSessionMcpOverride(instanceId, name, enabled)
 
     const result = await applyToInstance(name, enabled)
 
     if (result.success) {
-      // Sync desired state with actual runtime after metadata refresh
-      const runtimeStatus = statusMap()[name]?.status
-      const actuallyConnected = runtimeStatus === "connected"
+      // Runtime disagrees with intent — record what actually happened
+      const actuallyConnected = statusMap()[name]?.status === "connected"
       if (actuallyConnected !== enabled) {
-        // Runtime disagrees with intent — update desired to match reality
-        updatePreferences({
-          mcpDesiredState: {
-            ...(preferences().mcpDesiredState ?? {}),
-            [name]: actuallyConnected,
-          },
-        })
+        setSessionMcpOverride(instanceId, name, actuallyConnected)
       }
     } else {
-      // Revert to previous state on failure
-      updatePreferences({
-        mcpDesiredState: {
-          ...(preferences().mcpDesiredState ?? {}),
-          [name]: previousState ?? !enabled,
-        },
-      })
+      setSessionMcpOverride(instanceId, name, previous ?? null)
 
       // Show error toast with hint if available
       const errorMessage = result.error ?? `Failed to ${enabled ? "connect" : "disconnect"}`
@@ -334,9 +332,12 @@ const InstanceMcpControl: Component<InstanceMcpControlProps> = (props) => {
                   <div class="flex flex-col min-w-0">
                     <div class="text-xs text-primary font-medium truncate">
                       {row.name}
-                      <Show when={!row.hasRegistryEntry}>
+                      <Show when={!row.source || row.source === "project"}>
                         <span class="text-xs text-muted-foreground"> (project)</span>
                       </Show>
+                      <Show when={row.sessionOverride}>
+                        <span class="text-xs text-muted-foreground"> · this session</span>
+                      </Show>
                     </div>
                     <div class="flex items-center gap-2 text-xs text-muted-foreground">
                       <div class={renderStatusDotClass(row)} />
@@ -347,7 +348,7 @@ const InstanceMcpControl: Component<InstanceMcpControlProps> = (props) => {
                   <Switch
                     checked={row.desiredEnabled}
                     disabled={!instance().client || Boolean(pending()[row.name])}
-                    onChange={(checked) => toggleGlobalDesired(row.name, Boolean(checked))}
+                    onChange={(checked) => toggleSessionEnabled(row.name, Boolean(checked))}
                   />
                 </div>
 
@@ -358,6 +359,10 @@ const InstanceMcpControl: Component<InstanceMcpControlProps> = (props) => {
                     </div>
                   )}
                 </Show>
+
+                <Show when={getMcpServerHealth(row.name, instance().folder)}>
+                  {(health) => <McpServerInventory health={health()} class="mt-1.5" />}
+                </Show>
               </div>
             )}
           </For>
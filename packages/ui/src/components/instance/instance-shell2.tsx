@@ -36,6 +36,7 @@ import {
   ListChecks,
   SquareKanban,
   RefreshCw,
+  History,
 } from "lucide-solid"
 import { Separator } from "../ui/separator"
 import { cn } from "../../lib/cn"
@@ -77,8 +78,9 @@ import {
   type FileOperationType,
   type RecentAction,
 } from "../../stores/workspace-state"
-import { getLinearTasks, fetchLinearTasks, linearStatus } from "../../stores/linear-tasks"
+import { getLinearTasks, fetchLinearTasks, syncLinearTasks, linearError, linearStatus } from "../../stores/linear-tasks"
 import LinearTaskList from "../linear-task-list"
+import CheckpointTimeline from "../checkpoint-timeline"
 import { serverApi } from "../../lib/api-client"
 import { formatTokenTotal } from "../../lib/formatters"
 import { sseManager } from "../../lib/sse-manager"
@@ -1025,6 +1027,14 @@ const InstanceShell2: Component<InstanceShellProps> = (props) => {
       return <TodoListView state={todoState} emptyLabel="Nothing planned yet." showStatusLabel={false} />
     }
 
+    const renderCheckpointsContent = () => {
+      const sessionId = activeSessionIdForInstance()
+      if (!sessionId || sessionId === "info") {
+        return <p class="text-xs text-muted-foreground">Select a session to view checkpoints.</p>
+      }
+      return <CheckpointTimeline instanceId={props.instance.id} sessionId={sessionId} />
+    }
+
     // Files Touched section content
     const renderFilesTouchedContent = () => (
       <Show
@@ -1143,12 +1153,18 @@ const InstanceShell2: Component<InstanceShellProps> = (props) => {
 
     // Linear Tasks section content
     const linearIssues = createMemo(() => getLinearTasks(props.instance.id))
+    onMount(() => void fetchLinearTasks(props.instance.id))
     const renderLinearTasksContent = () => (
       <Show
         when={linearStatus() !== "error"}
-        fallback={<p class="text-xs text-muted-foreground italic py-2">Connect Linear in settings to see tasks</p>}
+        fallback={<p class="text-xs text-muted-foreground italic py-2">{linearError() ?? "Connect Linear in settings to see tasks"}</p>}
       >
-        <LinearTaskList issues={linearIssues()} compact={true} emptyMessage="No Linear tasks found" />
+        <LinearTaskList
+          issues={linearIssues()}
+          compact={true}
+          emptyMessage="No Linear tasks found"
+          instanceId={props.instance.id}
+        />
       </Show>
     )
 
@@ -1174,7 +1190,7 @@ const InstanceShell2: Component<InstanceShellProps> = (props) => {
             class="inline-flex items-center justify-center w-5 h-5 rounded text-muted-foreground hover:text-foreground transition-colors"
             onClick={(e) => {
               e.stopPropagation()
-              void fetchLinearTasks(props.instance.id)
+              void syncLinearTasks(props.instance.id)
             }}
             aria-label="Sync Linear tasks"
             title="Sync Linear tasks"
@@ -1220,6 +1236,13 @@ const InstanceShell2: Component<InstanceShellProps> = (props) => {
         count: () => filesTouched().length,
         render: renderFilesTouchedContent,
       },
+      {
+        id: "checkpoints",
+        label: "Checkpoints",
+        icon: () => <History class="w-4 h-4" />,
+        count: () => null,
+        render: renderCheckpointsContent,
+      },
     ]
 
     const handleAccordionChange = (values: string[]) => {
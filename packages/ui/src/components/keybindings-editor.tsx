@@ -0,0 +1,266 @@
+import { Component, For, Show, createMemo, createSignal, onCleanup } from "solid-js"
+import { AlertTriangle, Download, Upload } from "lucide-solid"
+import { cn } from "../lib/cn"
+import { keyboardRegistry, type KeyboardShortcut } from "../lib/keyboard-registry"
+import {
+  MAX_SEQUENCE_LENGTH,
+  chordFromEvent,
+  findKeybindingConflicts,
+  formatKeybinding,
+  formatKeybindingForDisplay,
+  parseKeybindingsFile,
+  serializeKeybindings,
+  type KeyChord,
+} from "../lib/keybindings"
+import { showToastNotification } from "../lib/notifications"
+import { useConfig } from "../stores/preferences"
+import { Badge, Button } from "./ui"
+import Kbd from "./kbd"
+
+/** Pause after the last chord before a recording is saved */
+const RECORD_IDLE_MS = 1000
+
+const CONTEXT_ORDER: NonNullable<KeyboardShortcut["context"]>[] = ["global", "messages", "input"]
+
+const CONTEXT_LABELS: Record<NonNullable<KeyboardShortcut["context"]>, string> = {
+  global: "Global",
+  messages: "Messages",
+  input: "Prompt input",
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+const KeybindingsEditor: Component = () => {
+  const { preferences, setKeybinding, resetKeybinding, replaceKeybindings } = useConfig()
+  const [recordingId, setRecordingId] = createSignal<string | null>(null)
+  const [recorded, setRecorded] = createSignal<KeyChord[]>([])
+  let idleTimer: number | undefined
+  let fileInput: HTMLInputElement | undefined
+
+  const shortcuts = createMemo(() =>
+    keyboardRegistry
+      .list()
+      .slice()
+      .sort(
+        (a, b) =>
+          CONTEXT_ORDER.indexOf(a.context ?? "global") - CONTEXT_ORDER.indexOf(b.context ?? "global") ||
+          a.description.localeCompare(b.description),
+      ),
+  )
+
+  const conflicts = createMemo(() =>
+    findKeybindingConflicts(
+      shortcuts().map((shortcut) => ({
+        id: shortcut.id,
+        context: shortcut.context,
+        chords: keyboardRegistry.getBinding(shortcut.id),
+      })),
+    ),
+  )
+
+  const describe = (id: string) => capitalize(keyboardRegistry.list().find((shortcut) => shortcut.id === id)?.description ?? id)
+
+  const stopRecording = () => {
+    window.clearTimeout(idleTimer)
+    window.removeEventListener("keydown", handleRecordKey, true)
+    keyboardRegistry.setPaused(false)
+    setRecordingId(null)
+    setRecorded([])
+  }
+
+  const finishRecording = () => {
+    const id = recordingId()
+    const chords = recorded()
+    stopRecording()
+    if (!id || chords.length === 0) return
+
+    const binding = formatKeybinding(chords)
+    const defaults = keyboardRegistry.getDefaultBinding(id)
+    if (defaults && formatKeybinding(defaults) === binding) {
+      resetKeybinding(id)
+    } else {
+      setKeybinding(id, binding)
+    }
+  }
+
+  function handleRecordKey(event: KeyboardEvent) {
+    event.preventDefault()
+    event.stopPropagation()
+    const chord = chordFromEvent(event)
+    if (!chord) return
+
+    const next = [...recorded(), chord]
+    setRecorded(next)
+    window.clearTimeout(idleTimer)
+    if (next.length >= MAX_SEQUENCE_LENGTH) {
+      finishRecording()
+    } else {
+      idleTimer = window.setTimeout(finishRecording, RECORD_IDLE_MS)
+    }
+  }
+
+  const startRecording = (id: string) => {
+    stopRecording()
+    setRecordingId(id)
+    keyboardRegistry.setPaused(true)
+    // Capture phase, so no other shortcut handler sees the keys being recorded
+    window.addEventListener("keydown", handleRecordKey, true)
+  }
+
+  onCleanup(stopRecording)
+
+  const exportKeybindings = () => {
+    const blob = new Blob([serializeKeybindings(preferences().keybindings)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = "era-keybindings.json"
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  const importKeybindings = async (file: File) => {
+    try {
+      const { keybindings, skipped } = parseKeybindingsFile(await file.text())
+      const known = new Set(keyboardRegistry.list().map((shortcut) => shortcut.id))
+      const unknown = Object.keys(keybindings).filter((id) => !known.has(id))
+      replaceKeybindings(keybindings)
+
+      const notes = [
+        skipped.length > 0 ? `skipped invalid bindings for ${skipped.join(", ")}` : "",
+        unknown.length > 0 ? `kept ${unknown.length} for shortcuts not available here` : "",
+      ].filter(Boolean)
+      showToastNotification({
+        title: "Keybindings imported",
+        message: `${Object.keys(keybindings).length} bindings imported${notes.length > 0 ? `; ${notes.join("; ")}` : ""}`,
+        variant: skipped.length > 0 ? "warning" : "success",
+      })
+    } catch (error) {
+      showToastNotification({
+        title: "Keybindings",
+        message: `Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+        variant: "error",
+      })
+    }
+  }
+
+  const hasOverrides = () => Object.keys(preferences().keybindings).length > 0
+
+  return (
+    <div class="mb-8">
+      <h2 class="text-xl font-semibold text-foreground mb-1">Keyboard Shortcuts</h2>
+      <p class="text-sm text-muted-foreground mb-6">
+        Click a binding to record a new one. Press up to {MAX_SEQUENCE_LENGTH} keys in a row for a sequence such as{" "}
+        <Kbd shortcut="g" /> <Kbd shortcut="s" />; recording stops after a short pause.
+      </p>
+
+      <div class="flex items-center gap-2 mb-4">
+        <Button variant="secondary" size="sm" onClick={exportKeybindings}>
+          <Download class="w-4 h-4" />
+          Export
+        </Button>
+        <Button variant="secondary" size="sm" onClick={() => fileInput?.click()}>
+          <Upload class="w-4 h-4" />
+          Import
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          class="hidden"
+          onChange={(event) => {
+            const file = event.currentTarget.files?.[0]
+            event.currentTarget.value = ""
+            if (file) void importKeybindings(file)
+          }}
+        />
+        <Show when={hasOverrides()}>
+          <Button variant="ghost" size="sm" class="ml-auto" onClick={() => replaceKeybindings({})}>
+            Reset all
+          </Button>
+        </Show>
+      </div>
+
+      <div class="divide-y divide-border border border-border rounded-lg">
+        <For each={shortcuts()}>
+          {(shortcut) => {
+            const binding = () => keyboardRegistry.getBinding(shortcut.id)
+            const conflictIds = () => conflicts().get(shortcut.id) ?? []
+            const recording = () => recordingId() === shortcut.id
+
+            return (
+              <div class="flex items-center gap-3 px-3 py-2">
+                <div class="flex-1 min-w-0">
+                  <div class="flex items-center gap-2">
+                    <span class="text-sm text-foreground">{capitalize(shortcut.description)}</span>
+                    <Badge variant="outline" class="text-[10px] px-1.5 py-0 font-normal">
+                      {CONTEXT_LABELS[shortcut.context ?? "global"]}
+                    </Badge>
+                    <Show when={keyboardRegistry.isOverridden(shortcut.id)}>
+                      <Badge variant="info" class="text-[10px] px-1.5 py-0">
+                        Modified
+                      </Badge>
+                    </Show>
+                  </div>
+                  <Show when={conflictIds().length > 0}>
+                    <div class="flex items-center gap-1 text-xs text-warning mt-0.5">
+                      <AlertTriangle class="w-3 h-3" />
+                      Conflicts with {conflictIds().map(describe).join(", ")}
+                    </div>
+                  </Show>
+                </div>
+
+                <button
+                  type="button"
+                  class={cn(
+                    "min-w-[120px] flex items-center justify-end gap-1 px-2 py-1 rounded-md border text-xs",
+                    recording() ? "border-primary bg-primary/10" : "border-transparent hover:border-border",
+                  )}
+                  title="Record a new binding"
+                  onClick={() => (recording() ? finishRecording() : startRecording(shortcut.id))}
+                >
+                  <Show
+                    when={recording()}
+                    fallback={
+                      <Show when={binding()} fallback={<span class="text-muted-foreground">Unbound</span>}>
+                        {(chords) => <For each={formatKeybindingForDisplay(chords())}>{(chord) => <Kbd shortcut={chord} />}</For>}
+                      </Show>
+                    }
+                  >
+                    <Show when={recorded().length > 0} fallback={<span class="text-primary">Press keys...</span>}>
+                      <For each={formatKeybindingForDisplay(recorded())}>{(chord) => <Kbd shortcut={chord} />}</For>
+                    </Show>
+                  </Show>
+                </button>
+
+                <div class="flex items-center gap-1">
+                  <Show when={recording()}>
+                    <Button variant="ghost" size="sm" onClick={stopRecording}>
+                      Cancel
+                    </Button>
+                  </Show>
+                  <Show when={!recording() && binding()}>
+                    <Button variant="ghost" size="sm" onClick={() => setKeybinding(shortcut.id, null)}>
+                      Unbind
+                    </Button>
+                  </Show>
+                  <Show when={!recording() && keyboardRegistry.isOverridden(shortcut.id)}>
+                    <Button variant="ghost" size="sm" onClick={() => resetKeybinding(shortcut.id)}>
+                      Reset
+                    </Button>
+                  </Show>
+                </div>
+              </div>
+            )
+          }}
+        </For>
+      </div>
+    </div>
+  )
+}
+
+export default KeybindingsEditor
@@ -34,6 +34,9 @@ const KeyboardHint: Component<{
             {i() > 0 && <span class="mx-1">{props.separator || "•"}</span>}
             {props.showDescription !== false && <span class="mr-1">{shortcut.description}</span>}
             <Kbd shortcut={buildShortcutString(shortcut)} />
+            <For each={shortcut.sequence ?? []}>
+              {(chord) => <Kbd class="ml-1" shortcut={buildShortcutString({ ...shortcut, ...chord })} />}
+            </For>
           </>
         )}
       </For>
@@ -0,0 +1,193 @@
+import { Component, For, Show, createResource, createSignal } from "solid-js"
+import { ExternalLink, Play } from "lucide-solid"
+import { cn } from "../lib/cn"
+import { showToastNotification } from "../lib/notifications"
+import {
+  addLinearComment,
+  fetchLinearIssue,
+  fetchLinearStatuses,
+  startSessionFromLinearIssue,
+  updateLinearIssueStatus,
+  type LinearIssue,
+} from "../stores/linear-tasks"
+import { Button } from "./ui"
+
+interface LinearIssueDetailProps {
+  instanceId: string
+  issue: LinearIssue
+}
+
+/** Offered when the server cannot list the team's workflow states */
+const FALLBACK_STATUSES = ["Backlog", "Todo", "In Progress", "In Review", "Done", "Canceled"]
+
+/** Comments shown below the description, newest last */
+const VISIBLE_COMMENTS = 3
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Expanded view of a Linear issue in the task list: description, acceptance
+ * criteria and recent comments, with status changes, commenting and starting
+ * a session seeded with the issue.
+ */
+const LinearIssueDetail: Component<LinearIssueDetailProps> = (props) => {
+  const [comment, setComment] = createSignal("")
+  const [busy, setBusy] = createSignal<"status" | "comment" | "session" | null>(null)
+
+  const [detail, { refetch }] = createResource(
+    () => ({ instanceId: props.instanceId, issueId: props.issue.id }),
+    (source) => fetchLinearIssue(source.instanceId, source.issueId),
+  )
+
+  const [statuses] = createResource(
+    () => {
+      const loaded = detail()
+      return loaded ? { instanceId: props.instanceId, team: loaded.team } : null
+    },
+    async (source) => {
+      try {
+        return (await fetchLinearStatuses(source.instanceId, source.team)).map((state) => state.name)
+      } catch {
+        return FALLBACK_STATUSES
+      }
+    },
+  )
+
+  const statusOptions = () => {
+    const names = statuses() ?? FALLBACK_STATUSES
+    return names.includes(props.issue.status) ? names : [props.issue.status, ...names]
+  }
+
+  const changeStatus = async (status: string) => {
+    if (status === props.issue.status) return
+    setBusy("status")
+    try {
+      await updateLinearIssueStatus(props.instanceId, props.issue.id, status)
+    } catch (error) {
+      showToastNotification({ title: "Linear", message: `Could not update ${props.issue.identifier}: ${errorMessage(error)}`, variant: "error" })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const submitComment = async () => {
+    const body = comment().trim()
+    if (!body) return
+    setBusy("comment")
+    try {
+      await addLinearComment(props.instanceId, props.issue.id, body)
+      setComment("")
+      void refetch()
+    } catch (error) {
+      showToastNotification({ title: "Linear", message: `Could not comment on ${props.issue.identifier}: ${errorMessage(error)}`, variant: "error" })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const startSession = async () => {
+    setBusy("session")
+    try {
+      await startSessionFromLinearIssue(props.instanceId, props.issue.id)
+    } catch (error) {
+      showToastNotification({ title: "Linear", message: `Could not start a session: ${errorMessage(error)}`, variant: "error" })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div class="px-3 pb-3 pt-1 text-xs space-y-2 border-b border-border">
+      <div class="flex items-center gap-2">
+        <select
+          class={cn(
+            "h-7 rounded-md border border-input bg-transparent px-2 text-xs",
+            "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+          )}
+          value={props.issue.status}
+          disabled={busy() !== null}
+          onChange={(event) => void changeStatus(event.currentTarget.value)}
+          aria-label="Issue status"
+        >
+          <For each={statusOptions()}>{(status) => <option value={status}>{status}</option>}</For>
+        </select>
+        <Button size="sm" class="h-7" disabled={busy() !== null || !detail()} onClick={() => void startSession()}>
+          <Play class="w-3 h-3" />
+          {busy() === "session" ? "Starting..." : "Start session"}
+        </Button>
+        <Show when={props.issue.url}>
+          <a
+            href={props.issue.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            class="ml-auto inline-flex items-center gap-1 text-muted-foreground hover:text-foreground"
+          >
+            <ExternalLink class="w-3 h-3" />
+            Open
+          </a>
+        </Show>
+      </div>
+
+      <Show when={!detail.error} fallback={<p class="text-destructive">{errorMessage(detail.error)}</p>}>
+        <Show when={detail()} fallback={<p class="text-muted-foreground italic">Loading issue...</p>}>
+          {(issue) => (
+            <>
+              <Show when={issue().description.trim()}>
+                <p class="whitespace-pre-wrap text-muted-foreground line-clamp-6">{issue().description}</p>
+              </Show>
+              <Show when={issue().acceptanceCriteria.length > 0}>
+                <div>
+                  <div class="font-medium text-foreground mb-0.5">Acceptance criteria</div>
+                  <ul class="list-disc pl-4 text-muted-foreground">
+                    <For each={issue().acceptanceCriteria}>{(item) => <li>{item}</li>}</For>
+                  </ul>
+                </div>
+              </Show>
+              <Show when={issue().comments.length > 0}>
+                <div class="space-y-1">
+                  <For each={issue().comments.slice(-VISIBLE_COMMENTS)}>
+                    {(entry) => (
+                      <div class="rounded bg-secondary px-2 py-1">
+                        <span class="font-medium text-foreground">{entry.author ?? "Someone"}: </span>
+                        <span class="text-muted-foreground whitespace-pre-wrap">{entry.body}</span>
+                      </div>
+                    )}
+                  </For>
+                </div>
+              </Show>
+            </>
+          )}
+        </Show>
+      </Show>
+
+      <div class="flex items-end gap-2">
+        <textarea
+          class="flex-1 min-h-[32px] rounded-md border border-input bg-transparent px-2 py-1 text-xs resize-y focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          rows={1}
+          placeholder="Add a comment"
+          value={comment()}
+          onInput={(event) => setComment(event.currentTarget.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+              event.preventDefault()
+              void submitComment()
+            }
+          }}
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          class="h-7"
+          disabled={busy() !== null || comment().trim().length === 0}
+          onClick={() => void submitComment()}
+        >
+          Comment
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default LinearIssueDetail
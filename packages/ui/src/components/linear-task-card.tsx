@@ -6,6 +6,10 @@ import { cn } from "../lib/cn"
 interface LinearTaskCardProps {
   issue: LinearIssue
   compact?: boolean
+  /** Highlight the card while its details are shown */
+  selected?: boolean
+  /** Called on click instead of opening the issue in Linear */
+  onSelect?: () => void
 }
 
 function formatTimeAgo(timestamp: number): string {
@@ -20,7 +24,9 @@ function formatTimeAgo(timestamp: number): string {
 
 const LinearTaskCard: Component<LinearTaskCardProps> = (props) => {
   const handleClick = () => {
-    if (props.issue.url) {
+    if (props.onSelect) {
+      props.onSelect()
+    } else if (props.issue.url) {
       window.open(props.issue.url, "_blank", "noopener,noreferrer")
     }
   }
@@ -30,9 +36,11 @@ const LinearTaskCard: Component<LinearTaskCardProps> = (props) => {
       type="button"
       class={cn(
         "w-full text-left px-3 py-2 transition-colors hover:bg-accent/50 cursor-pointer border-none bg-transparent",
-        props.compact && "py-1.5"
+        props.compact && "py-1.5",
+        props.selected && "bg-accent/50"
       )}
       onClick={handleClick}
+      aria-expanded={props.onSelect ? Boolean(props.selected) : undefined}
       title={`${props.issue.identifier}: ${props.issue.title}`}
     >
       <div class="flex items-start gap-2">
@@ -1,16 +1,21 @@
-import { Component, For, Show, createMemo } from "solid-js"
+import { Component, For, Show, createMemo, createSignal } from "solid-js"
 import type { LinearIssue } from "../stores/linear-tasks"
 import LinearTaskCard from "./linear-task-card"
+import LinearIssueDetail from "./linear-issue-detail"
 
 interface LinearTaskListProps {
   issues: LinearIssue[]
   compact?: boolean
   emptyMessage?: string
+  /** Enables the inline issue view with status changes, comments and sessions */
+  instanceId?: string
 }
 
 const STATUS_ORDER = ["In Progress", "Started", "Todo", "Backlog", "Done", "Completed", "Canceled", "Cancelled"]
 
 const LinearTaskList: Component<LinearTaskListProps> = (props) => {
+  const [selectedId, setSelectedId] = createSignal<string | null>(null)
+
   const sortedIssues = createMemo(() => {
     return [...props.issues].sort((a, b) => {
       const aIdx = STATUS_ORDER.findIndex((s) => s.toLowerCase() === a.status.toLowerCase())
@@ -34,7 +39,17 @@ const LinearTaskList: Component<LinearTaskListProps> = (props) => {
       >
         <For each={sortedIssues()}>
           {(issue) => (
-            <LinearTaskCard issue={issue} compact={props.compact} />
+            <>
+              <LinearTaskCard
+                issue={issue}
+                compact={props.compact}
+                selected={selectedId() === issue.id}
+                onSelect={props.instanceId ? () => setSelectedId((prev) => (prev === issue.id ? null : issue.id)) : undefined}
+              />
+              <Show when={props.instanceId && selectedId() === issue.id ? props.instanceId : undefined}>
+                {(instanceId) => <LinearIssueDetail instanceId={instanceId()} issue={issue} />}
+              </Show>
+            </>
           )}
         </For>
       </Show>
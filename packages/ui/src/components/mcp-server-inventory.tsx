@@ -0,0 +1,132 @@
+import { Component, For, Show, createSignal } from "solid-js"
+import { ChevronDown, ChevronRight, RefreshCw } from "lucide-solid"
+import { cn } from "../lib/cn"
+import { isProbingMcpServer, probeMcpServer } from "../stores/mcp-health"
+import { Badge } from "./ui"
+import type { McpInventoryTool, McpServerHealth, McpServerHealthStatus } from "../../../server/src/api-types"
+
+interface McpServerInventoryProps {
+  health: McpServerHealth
+  class?: string
+}
+
+const STATUS_CONFIG: Record<McpServerHealthStatus, { dot: string; label: string }> = {
+  healthy: { dot: "bg-success", label: "Healthy" },
+  degraded: { dot: "bg-warning", label: "Degraded" },
+  down: { dot: "bg-destructive", label: "Down" },
+  disabled: { dot: "bg-muted-foreground", label: "Not monitored" },
+  unknown: { dot: "bg-muted-foreground animate-pulse", label: "Checking..." },
+}
+
+const RISK_VARIANTS: Record<McpInventoryTool["riskLevel"], "success" | "warning" | "destructive"> = {
+  safe: "success",
+  moderate: "warning",
+  dangerous: "destructive",
+}
+
+function formatAge(timestamp: number): string {
+  const seconds = Math.max(0, Math.round((Date.now() - timestamp) / 1000))
+  if (seconds < 60) return `${seconds}s ago`
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes}m ago`
+  return `${Math.round(minutes / 60)}h ago`
+}
+
+/**
+ * Live health line and expandable tool inventory of one MCP server, fed by
+ * the server's MCP supervisor.
+ */
+const McpServerInventory: Component<McpServerInventoryProps> = (props) => {
+  const [expanded, setExpanded] = createSignal(false)
+
+  const status = () => STATUS_CONFIG[props.health.status]
+  const probing = () => isProbingMcpServer(props.health.id)
+  const failures = () => props.health.history.filter((probe) => !probe.ok).length
+
+  return (
+    <div class={cn("text-xs", props.class)}>
+      <div class="flex items-center gap-2 text-muted-foreground">
+        <button
+          type="button"
+          class="inline-flex items-center gap-1 hover:text-foreground disabled:opacity-50"
+          disabled={props.health.tools.length === 0 && props.health.resources.length === 0 && props.health.prompts.length === 0}
+          onClick={() => setExpanded((prev) => !prev)}
+        >
+          <Show when={expanded()} fallback={<ChevronRight class="w-3 h-3" />}>
+            <ChevronDown class="w-3 h-3" />
+          </Show>
+          <span>
+            {props.health.tools.length} tools
+            <Show when={props.health.resources.length > 0}> · {props.health.resources.length} resources</Show>
+            <Show when={props.health.prompts.length > 0}> · {props.health.prompts.length} prompts</Show>
+          </span>
+        </button>
+        <span class="flex items-center gap-1" title={props.health.lastError}>
+          <span class={cn("w-2 h-2 rounded-full", status().dot)} />
+          {status().label}
+        </span>
+        <Show when={props.health.status !== "disabled" && props.health.latencyMs !== undefined}>
+          <span>{props.health.latencyMs} ms</span>
+        </Show>
+        <Show when={props.health.lastCheckedAt}>
+          {(checkedAt) => (
+            <span title={`${failures()} of the last ${props.health.history.length} probes failed`}>
+              checked {formatAge(checkedAt())}
+            </span>
+          )}
+        </Show>
+        <button
+          type="button"
+          class="ml-auto inline-flex items-center hover:text-foreground disabled:opacity-50"
+          title="Check now"
+          disabled={probing()}
+          onClick={() => void probeMcpServer(props.health.id)}
+        >
+          <RefreshCw class={cn("w-3 h-3", probing() && "animate-spin")} />
+        </button>
+      </div>
+
+      <Show when={props.health.status === "down" || props.health.status === "degraded" ? props.health.lastError : undefined}>
+        {(error) => <div class="mt-1 break-words text-destructive">{error()}</div>}
+      </Show>
+
+      <Show when={expanded()}>
+        <div class="mt-2 space-y-1">
+          <For each={props.health.tools}>
+            {(tool) => (
+              <div class="flex items-start gap-2">
+                <div class="flex-1 min-w-0">
+                  <div class="font-mono text-foreground truncate">{tool.name}</div>
+                  <Show when={tool.description}>
+                    <div class="text-muted-foreground truncate" title={tool.description}>
+                      {tool.description}
+                    </div>
+                  </Show>
+                </div>
+                <Badge variant="outline" class="px-1.5 py-0 text-[10px] font-normal" title="Tool category">
+                  {tool.category}
+                </Badge>
+                <Badge variant={RISK_VARIANTS[tool.riskLevel]} class="px-1.5 py-0 text-[10px]" title="Risk level">
+                  {tool.riskLevel}
+                </Badge>
+                <Badge variant="secondary" class="px-1.5 py-0 text-[10px] font-normal" title="Approximate context cost">
+                  {tool.tokenCost} cost
+                </Badge>
+              </div>
+            )}
+          </For>
+          <Show when={props.health.resources.length > 0}>
+            <div class="pt-1 text-muted-foreground">
+              Resources: {props.health.resources.map((resource) => resource.name ?? resource.uri).join(", ")}
+            </div>
+          </Show>
+          <Show when={props.health.prompts.length > 0}>
+            <div class="text-muted-foreground">Prompts: {props.health.prompts.map((prompt) => prompt.name).join(", ")}</div>
+          </Show>
+        </div>
+      </Show>
+    </div>
+  )
+}
+
+export default McpServerInventory
@@ -1,19 +1,13 @@
-import { For, Show, createMemo, createSignal, createEffect, type Component } from "solid-js"
+import { For, Show, createMemo, createSignal, createEffect, onMount, type Component } from "solid-js"
 import { useConfig } from "../stores/preferences"
 import type { McpServerConfig } from "../stores/preferences"
 import { instances } from "../stores/instances"
 import { getLogger } from "../lib/logger"
 import { instanceApi } from "../lib/instance-api"
 import { loadInstanceMetadata } from "../lib/hooks/use-instance-metadata"
+import { getBuiltInMcpOptionValue, updateBuiltInMcpOption } from "../stores/era-mcp"
 import {
-  ERA_CODE_MCP_DEFAULTS,
-  isBuiltInMcp,
-  getBuiltInMcpConfig,
-  getBuiltInMcpOptionValue,
-  updateBuiltInMcpOption,
-  type EraCodeMcpServer,
-} from "../stores/era-mcp"
-import {
+  applyMergedMcpServers,
   fetchProjectMcpConfig,
   getMergedMcpServers,
   setProjectMcpServer,
@@ -23,6 +17,8 @@ import {
 } from "../stores/project-mcp"
 import { Settings, Globe, FolderCog, Plus } from "lucide-solid"
 import AddToGlobalModal from "./add-to-global-modal"
+import McpServerInventory from "./mcp-server-inventory"
+import { getMcpServerHealth, initMcpHealth } from "../stores/mcp-health"
 import { cn } from "../lib/cn"
 import { Card, Badge, Button, Input, Switch, Label, Separator } from "./ui"
 
@@ -50,6 +46,8 @@ const McpSettingsPanel: Component<McpSettingsPanelProps> = (props) => {
   const [pendingServer, setPendingServer] = createSignal<{ name: string; config: McpServerConfig } | null>(null)
 
 
+  onMount(() => initMcpHealth())
+
   // Fetch project MCP config when folder changes
   createEffect(() => {
     const folder = props.folder
@@ -58,58 +56,10 @@ const McpSettingsPanel: Component<McpSettingsPanelProps> = (props) => {
     }
   })
 
-  // Use merged servers when in project scope with a folder
-  const entries = createMemo<MergedMcpEntry[]>(() => {
-    const currentScope = scope()
-    const folder = props.folder
-
-    if (currentScope === "project" && folder) {
-      return getMergedMcpServers(folder)
-    }
-
-    // Global scope: show era-code + global servers
-    const registry = preferences().mcpRegistry ?? {}
-    const desiredState = preferences().mcpDesiredState ?? {}
-
-    // Start with built-in servers
-    const builtInEntries: MergedMcpEntry[] = ERA_CODE_MCP_DEFAULTS.map((server) => {
-      const override = registry[server.name]
-      const config = override ?? getBuiltInMcpConfig(server.name) ?? server.config
-      const desiredEnabled = desiredState[server.name] ?? (config.enabled ?? true)
-      return {
-        name: server.name,
-        config,
-        desiredEnabled,
-        effectiveEnabled: desiredEnabled,
-        source: "era-code" as const,
-        builtIn: true,
-        builtInServer: server,
-        hasProjectOverride: false,
-      }
-    })
-
-    // Add user-defined servers (excluding built-in overrides)
-    const userEntries: MergedMcpEntry[] = Object.entries(registry)
-      .filter(([name]) => !isBuiltInMcp(name))
-      .map(([name, config]) => {
-        const desiredEnabled = desiredState[name] ?? (config.enabled ?? true)
-        return {
-          name,
-          config,
-          desiredEnabled,
-          effectiveEnabled: desiredEnabled,
-          source: "global" as const,
-          builtIn: false,
-          hasProjectOverride: false,
-        }
-      })
-
-    // Sort: built-ins first, then user-defined alphabetically
-    return [
-      ...builtInEntries.sort((a, b) => a.name.localeCompare(b.name)),
-      ...userEntries.sort((a, b) => a.name.localeCompare(b.name)),
-    ]
-  })
+  // Project scope layers the project's .era/mcp.json over the global registry
+  const entries = createMemo<MergedMcpEntry[]>(() =>
+    getMergedMcpServers(scope() === "project" ? props.folder : undefined),
+  )
 
   const saveEntry = (name: string, config: McpServerConfig, desiredEnabled: boolean) => {
     updatePreferences({
@@ -139,24 +89,12 @@ const McpSettingsPanel: Component<McpSettingsPanelProps> = (props) => {
   }
 
   const applyAll = async () => {
-    const currentEntries = entries()
     const activeInstances = Array.from(instances().values()).filter((instance) => instance.status === "ready" && instance.client)
 
+    // Each instance gets the servers merged for its own project
     await Promise.all(
       activeInstances.map(async (instance) => {
-        for (const entry of currentEntries) {
-          try {
-            await instanceApi.upsertMcp(instance, entry.name, { ...entry.config, enabled: entry.desiredEnabled })
-            if (entry.desiredEnabled) {
-              await instanceApi.connectMcp(instance, entry.name)
-            } else {
-              await instanceApi.disconnectMcp(instance, entry.name)
-            }
-          } catch (error) {
-            log.error("Failed to apply MCP registry entry", { instanceId: instance.id, name: entry.name, error })
-          }
-        }
-
+        await applyMergedMcpServers(instance)
         try {
           await loadInstanceMetadata(instance, { force: true })
         } catch (error) {
@@ -166,6 +104,32 @@ const McpSettingsPanel: Component<McpSettingsPanelProps> = (props) => {
     )
   }
 
+  const toggleEntry = async (entry: MergedMcpEntry, enabled: boolean) => {
+    const folder = props.folder
+    if (scope() === "project" && folder) {
+      const saved =
+        entry.source === "project"
+          ? await setProjectMcpServer(folder, entry.name, { ...entry.config, enabled })
+          : await setProjectMcpOverride(folder, entry.name, enabled)
+      if (!saved) return
+    } else {
+      saveEntry(entry.name, entry.config, enabled)
+    }
+    void applyAll()
+  }
+
+  const removeProjectEntry = async (name: string) => {
+    const folder = props.folder
+    if (!folder || !(await removeProjectMcpServer(folder, name))) return
+    void applyAll()
+  }
+
+  const resetProjectOverride = async (name: string) => {
+    const folder = props.folder
+    if (!folder || !(await setProjectMcpOverride(folder, name, null))) return
+    void applyAll()
+  }
+
   const createNewServer = () => {
     const name = newName().trim()
     if (!name) return
@@ -218,8 +182,7 @@ const McpSettingsPanel: Component<McpSettingsPanelProps> = (props) => {
     if (!server || !folder) return
 
     // Save to project only
-    await setProjectMcpServer(folder, server.name, server.config)
-    await fetchProjectMcpConfig(folder)
+    if (!(await setProjectMcpServer(folder, server.name, server.config))) return
     setNewName("")
     setNewUrl("")
     setPendingServer(null)
@@ -355,7 +318,17 @@ const McpSettingsPanel: Component<McpSettingsPanelProps> = (props) => {
                         <Badge variant="success" class="text-[10px] px-1.5 py-0">Project</Badge>
                       </Show>
                       <Show when={entry.hasProjectOverride}>
-                        <Badge variant="warning" class="text-[10px] px-1.5 py-0">Override</Badge>
+                        <Badge
+                          variant="warning"
+                          class="text-[10px] px-1.5 py-0"
+                          title={
+                            entry.overrides.length > 0
+                              ? `Project config replaces the ${entry.overrides.join(" and ")} config`
+                              : `Project ${entry.desiredEnabled ? "enables" : "disables"} this server`
+                          }
+                        >
+                          Override
+                        </Badge>
                       </Show>
                     </div>
                     <div class="text-xs text-muted-foreground truncate">
@@ -373,20 +346,22 @@ const McpSettingsPanel: Component<McpSettingsPanelProps> = (props) => {
                         <Settings class="w-4 h-4" />
                       </Button>
                     </Show>
+                    <Show when={scope() === "project" && entry.source !== "project" && entry.enabledBy === "project"}>
+                      <Button variant="ghost" size="sm" onClick={() => void resetProjectOverride(entry.name)}>
+                        Reset
+                      </Button>
+                    </Show>
                     <Switch
                       checked={entry.desiredEnabled}
-                      onChange={(checked) => {
-                        saveEntry(entry.name, entry.config, checked)
-                        void applyAll()
-                      }}
+                      onChange={(checked) => void toggleEntry(entry, checked)}
                       label="Enabled"
                       class="text-xs"
                     />
-                    <Show when={!entry.builtIn}>
+                    <Show when={scope() === "project" ? entry.source === "project" : !entry.builtIn}>
                       <Button
                         variant="destructive"
                         size="sm"
-                        onClick={() => removeEntry(entry.name)}
+                        onClick={() => (scope() === "project" ? void removeProjectEntry(entry.name) : removeEntry(entry.name))}
                       >
                         Remove
                       </Button>
@@ -394,6 +369,10 @@ const McpSettingsPanel: Component<McpSettingsPanelProps> = (props) => {
                   </div>
                 </div>
 
+                <Show when={getMcpServerHealth(entry.name, scope() === "project" ? props.folder : undefined)}>
+                  {(health) => <McpServerInventory health={health()} class="mt-2" />}
+                </Show>
+
                 {/* Configurable options panel */}
                 <Show when={entry.builtIn && entry.builtInServer?.configurable && configuringServer() === entry.name}>
                   <Separator class="my-2" />
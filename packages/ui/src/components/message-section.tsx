@@ -4,6 +4,7 @@ import MessageBlockList, { getMessageAnchorId } from "./message-block-list"
 import MessageTimeline, { buildTimelineSegments, type TimelineSegment } from "./message-timeline"
 import { useConfig } from "../stores/preferences"
 import { getSessionInfo } from "../stores/sessions"
+import { clearMessageFocusRequest, messageFocusRequest } from "../stores/session-search"
 import { messageStoreBus } from "../stores/message-v2/bus"
 import { useScrollCache } from "../lib/hooks/use-scroll-cache"
 import type { InstanceMessageStore } from "../stores/message-v2/instance-store"
@@ -163,6 +164,27 @@ export default function MessageSection(props: MessageSectionProps) {
   const [quoteSelection, setQuoteSelection] = createSignal<{ text: string; top: number; left: number } | null>(null)
   const [hasNewActivity, setHasNewActivity] = createSignal(false)
 
+  // Jump to a message requested from elsewhere (search results) once it has loaded
+  createEffect(() => {
+    const request = messageFocusRequest()
+    if (!request || request.instanceId !== props.instanceId || request.sessionId !== props.sessionId) return
+    if (!messageIds().includes(request.messageId)) return
+    clearMessageFocusRequest()
+    setAutoScroll(false)
+    setActiveMessageId(request.messageId)
+
+    let attempts = 0
+    const scrollToAnchor = () => {
+      const anchor = document.getElementById(getMessageAnchorId(request.messageId))
+      if (anchor) {
+        anchor.scrollIntoView({ block: "start", behavior: "smooth" })
+      } else if (attempts++ < 20) {
+        requestAnimationFrame(scrollToAnchor)
+      }
+    }
+    requestAnimationFrame(scrollToAnchor)
+  })
+
   let containerRef: HTMLDivElement | undefined
   let shellRef: HTMLDivElement | undefined
   let pendingScrollFrame: number | null = null
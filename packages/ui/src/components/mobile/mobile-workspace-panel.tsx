@@ -1,4 +1,4 @@
-import { Component, For, Show, createMemo, createSignal } from "solid-js"
+import { Component, For, Show, createMemo, createSignal, onMount } from "solid-js"
 import type { ToolState } from "@opencode-ai/sdk"
 import { Accordion } from "@kobalte/core"
 import {
@@ -29,7 +29,7 @@ import {
 } from "../../stores/workspace-state"
 import { messageStoreBus } from "../../stores/message-v2/bus"
 import { activeSessionId } from "../../stores/sessions"
-import { getLinearTasks, fetchLinearTasks, linearStatus } from "../../stores/linear-tasks"
+import { getLinearTasks, fetchLinearTasks, syncLinearTasks, linearStatus } from "../../stores/linear-tasks"
 import LinearTaskList from "../linear-task-list"
 import { cn } from "../../lib/cn"
 
@@ -128,6 +128,7 @@ const MobileWorkspacePanel: Component<MobileWorkspacePanelProps> = (props) => {
   }
 
   const linearIssues = createMemo(() => getLinearTasks(props.instanceId))
+  onMount(() => void fetchLinearTasks(props.instanceId))
 
   const sections = [
     {
@@ -149,7 +150,7 @@ const MobileWorkspacePanel: Component<MobileWorkspacePanelProps> = (props) => {
           class="inline-flex items-center justify-center w-8 h-8 -m-1 rounded text-muted-foreground hover:text-foreground transition-colors"
           onClick={(e) => {
             e.stopPropagation()
-            void fetchLinearTasks(props.instanceId)
+            void syncLinearTasks(props.instanceId)
           }}
           aria-label="Sync Linear tasks"
         >
@@ -157,7 +158,7 @@ const MobileWorkspacePanel: Component<MobileWorkspacePanelProps> = (props) => {
         </button>
       ),
       render: () => (
-        <LinearTaskList issues={linearIssues()} emptyMessage="Connect Linear in settings to see tasks" />
+        <LinearTaskList issues={linearIssues()} emptyMessage="Connect Linear in settings to see tasks" instanceId={props.instanceId} />
       ),
     },
     {
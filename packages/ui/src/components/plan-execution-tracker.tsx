@@ -1,4 +1,4 @@
-import { Component, For, Show, createSignal, createResource, createMemo } from "solid-js"
+import { Component, For, Show, createSignal, createResource, createMemo, onCleanup } from "solid-js"
 import {
   CheckCircle,
   Circle,
@@ -13,9 +13,14 @@ import {
   FileText,
   TestTube,
   LayoutList,
+  Hourglass,
+  Square,
+  RotateCcw,
 } from "lucide-solid"
 import { cn } from "../lib/cn"
 import { getLogger } from "../lib/logger"
+import { serverEvents } from "../lib/server-events"
+import type { PlanCheckpoint, PlanRun, PlanStepDetail } from "../../../server/src/api-types"
 import { Card, CardContent, CardHeader, CardTitle, Badge, Button, Separator } from "./ui"
 
 const log = getLogger("plan-execution-tracker")
@@ -24,44 +29,8 @@ const log = getLogger("plan-execution-tracker")
 // Types
 // ============================================================================
 
-interface PlanStep {
-  id: string
-  stepId: string
-  name: string
-  action: string
-  status: "pending" | "running" | "completed" | "failed" | "skipped" | "rolled-back"
-  dependsOn: string[]
-  parallelGroup?: number
-  gateType?: string
-  loopIndex?: number
-  loopTotal?: number
-}
-
-interface PlanCheckpoint {
-  stepId: string
-  type: "test" | "build" | "lint"
-  passed?: number
-  failed?: number
-  warnings?: number
-}
-
-interface StepDetail {
-  stepId: string
-  commits?: string[]
-  filesChanged?: string[]
-  timeElapsedMs?: number
-  decision?: { rationale: string; alternatives: string[] }
-}
-
-interface PlanData {
-  id: string
-  formulaName: string
-  status: "pending" | "running" | "completed" | "failed" | "rolled-back"
-  steps: PlanStep[]
-  checkpoints?: PlanCheckpoint[]
-  details?: StepDetail[]
-  createdAt: string
-}
+type PlanData = PlanRun
+type StepDetail = PlanStepDetail
 
 interface PlanExecutionTrackerProps {
   planId?: string
@@ -80,6 +49,12 @@ const STEP_STATUS_CONFIG = {
     bg: "bg-muted/50",
     label: "Pending",
   },
+  waiting: {
+    icon: Hourglass,
+    color: "text-warning",
+    bg: "bg-warning/10",
+    label: "Awaiting approval",
+  },
   running: {
     icon: Loader2,
     color: "text-primary",
@@ -136,7 +111,53 @@ const PlanExecutionTracker: Component<PlanExecutionTrackerProps> = (props) => {
     }
   }
 
-  const [plan] = createResource(() => props.planId, fetchPlan)
+  const [plan, { mutate, refetch }] = createResource(() => props.planId, fetchPlan)
+  const [gateComment, setGateComment] = createSignal("")
+  const [actionPending, setActionPending] = createSignal(false)
+
+  // Apply streamed step transitions in place; the full plan is refetched when a step finishes
+  const unsubscribe = serverEvents.on("plan.stepStatus", (event) => {
+    if (event.type !== "plan.stepStatus" || event.planId !== props.planId) return
+    const current = plan()
+    if (!current) return
+    mutate({
+      ...current,
+      status: event.planStatus,
+      steps: current.steps.map((step) => (step.stepId === event.step.stepId ? event.step : step)),
+    })
+    if (event.step.status === "completed" || event.step.status === "failed") {
+      void refetch()
+    }
+  })
+  onCleanup(unsubscribe)
+
+  const postAction = async (path: string, body: Record<string, unknown> = {}) => {
+    if (!props.planId) return
+    setActionPending(true)
+    try {
+      const resp = await fetch(`/api/era/plans/${encodeURIComponent(props.planId)}/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ folder: props.folder, ...body }),
+      })
+      const data = await resp.json().catch(() => ({}))
+      if (!resp.ok) {
+        log.error("Plan action failed:", path, data.error)
+        return
+      }
+      if (data.plan) mutate(data.plan)
+    } catch (err) {
+      log.error("Plan action failed:", path, err)
+    } finally {
+      setActionPending(false)
+    }
+  }
+
+  const decideGate = (stepId: string, approved: boolean) => {
+    const comment = gateComment().trim() || undefined
+    setGateComment("")
+    void postAction(`gates/${encodeURIComponent(stepId)}`, { approved, comment })
+  }
 
   const progress = createMemo(() => {
     const p = plan()
@@ -184,7 +205,8 @@ const PlanExecutionTracker: Component<PlanExecutionTrackerProps> = (props) => {
               plan()!.status === "completed" && "bg-success/10 text-success",
               plan()!.status === "running" && "bg-primary/10 text-primary",
               plan()!.status === "failed" && "bg-destructive/10 text-destructive",
-              plan()!.status === "pending" && "bg-muted text-muted-foreground"
+              plan()!.status === "paused" && "bg-warning/10 text-warning",
+              (plan()!.status === "pending" || plan()!.status === "cancelled") && "bg-muted text-muted-foreground"
             )}
           >
             {plan()!.status}
@@ -224,6 +246,33 @@ const PlanExecutionTracker: Component<PlanExecutionTrackerProps> = (props) => {
                   </div>
                 </div>
 
+                <div class="flex items-center gap-1.5">
+                  <Show when={p.status === "running" || p.status === "paused"}>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      class="h-6 px-2 text-[10px]"
+                      disabled={actionPending()}
+                      onClick={() => void postAction("cancel")}
+                    >
+                      <Square class="mr-1 h-3 w-3" />
+                      Cancel
+                    </Button>
+                  </Show>
+                  <Show when={p.status === "failed" || (p.status === "paused" && !p.steps.some((s) => s.status === "waiting"))}>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      class="h-6 px-2 text-[10px]"
+                      disabled={actionPending()}
+                      onClick={() => void postAction("resume")}
+                    >
+                      <RotateCcw class="mr-1 h-3 w-3" />
+                      {p.status === "failed" ? "Retry failed steps" : "Resume"}
+                    </Button>
+                  </Show>
+                </div>
+
                 <Separator />
 
                 {/* Step Checklist */}
@@ -263,11 +312,6 @@ const PlanExecutionTracker: Component<PlanExecutionTrackerProps> = (props) => {
                               )}
                             >
                               {step.name}
-                              <Show when={step.loopTotal && step.loopTotal > 1}>
-                                <span class="text-muted-foreground ml-1">
-                                  [{(step.loopIndex ?? 0) + 1}/{step.loopTotal}]
-                                </span>
-                              </Show>
                             </span>
                             <Show when={step.gateType}>
                               <Badge class="text-[10px] bg-warning/10 text-warning px-1.5 py-0">
@@ -281,6 +325,35 @@ const PlanExecutionTracker: Component<PlanExecutionTrackerProps> = (props) => {
                             )}
                           </button>
 
+                          <Show when={step.status === "waiting"}>
+                            <div class="flex items-center gap-1.5 px-8 pb-2">
+                              <input
+                                type="text"
+                                placeholder="Comment (optional)"
+                                value={gateComment()}
+                                onInput={(e) => setGateComment(e.currentTarget.value)}
+                                class="h-6 flex-1 rounded-md border border-border bg-background px-2 text-[10px] outline-none focus:ring-1 focus:ring-ring"
+                              />
+                              <Button
+                                size="sm"
+                                class="h-6 px-2 text-[10px]"
+                                disabled={actionPending()}
+                                onClick={() => decideGate(step.stepId, true)}
+                              >
+                                Approve
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                class="h-6 px-2 text-[10px] text-destructive"
+                                disabled={actionPending()}
+                                onClick={() => decideGate(step.stepId, false)}
+                              >
+                                Reject
+                              </Button>
+                            </div>
+                          </Show>
+
                           {/* Expanded Detail */}
                           <Show when={isExpanded()}>
                             <div class="px-8 pb-2 flex flex-col gap-1.5">
@@ -339,7 +412,15 @@ const PlanExecutionTracker: Component<PlanExecutionTrackerProps> = (props) => {
                                   )
                                 }}
                               </Show>
-                              <Show when={!checkpoint() && !detail()}>
+                              <Show when={step.error}>
+                                <p class="text-[10px] text-destructive">{step.error}</p>
+                              </Show>
+                              <Show when={step.output}>
+                                <pre class="max-h-40 overflow-auto rounded border border-border bg-muted/30 p-2 text-[10px] whitespace-pre-wrap">
+                                  {step.output}
+                                </pre>
+                              </Show>
+                              <Show when={!checkpoint() && !detail() && !step.output && !step.error}>
                                 <p class="text-[10px] text-muted-foreground italic">
                                   No details available yet.
                                 </p>
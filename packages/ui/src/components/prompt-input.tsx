@@ -3,18 +3,26 @@ import { ArrowBigUp, ArrowBigDown, ArrowLeft } from "lucide-solid"
 import UnifiedPicker from "./unified-picker"
 import SlashCommandPicker from "./slash-command-picker"
 import ExpandButton from "./expand-button"
+import SymbolAttachmentChip from "./symbol-attachment-chip"
 import { addToHistory, getHistory } from "../stores/message-history"
 import { getAttachments, addAttachment, clearAttachments, removeAttachment } from "../stores/attachments"
 import { resolvePastedPlaceholders } from "../lib/prompt-placeholders"
-import { createFileAttachment, createTextAttachment, createAgentAttachment } from "../types/attachment"
-import type { Attachment } from "../types/attachment"
+import { createFileAttachment, createTextAttachment, createAgentAttachment, createSymbolAttachment } from "../types/attachment"
+import type { Attachment, SymbolRange, SymbolSource } from "../types/attachment"
 import type { Agent } from "../types/session"
 import type { Command as SDKCommand } from "@opencode-ai/sdk"
+import type { PromptTemplate } from "../../../server/src/api-types"
 import Kbd from "./kbd"
 import { getActiveInstance } from "../stores/instances"
 import { agents, getSessionDraftPrompt, setSessionDraftPrompt, clearSessionDraftPrompt } from "../stores/sessions"
 import { showAlertDialog } from "../stores/alerts"
 import { executeCustomCommand } from "../stores/session-actions"
+import {
+  applyPromptTemplate,
+  fetchPromptTemplates,
+  getPromptTemplates,
+  registerPromptTemplateInsertHandler,
+} from "../stores/prompt-templates"
 import { getLogger } from "../lib/logger"
 import { cn } from "../lib/cn"
 import { Button } from "./ui"
@@ -82,6 +90,15 @@ export default function PromptInput(props: PromptInputProps) {
     })
   })
 
+  createEffect(() => {
+    const cleanup = registerPromptTemplateInsertHandler(props.instanceId, props.sessionId, insertBlockContent)
+    onCleanup(cleanup)
+  })
+
+  createEffect(() => {
+    void fetchPromptTemplates(props.instanceFolder)
+  })
+
   const setPrompt = (value: string) => {
     setPromptInternal(value)
     setSessionDraftPrompt(props.instanceId, props.sessionId, value)
@@ -185,6 +202,8 @@ export default function PromptInput(props: PromptInputProps) {
           const filename = attachment.filename
           newPrompt = currentPrompt.replace(`@${filename}`, "").replace(/\s+/g, " ").trim()
         }
+      } else if (attachment.source.type === "symbol") {
+        newPrompt = currentPrompt.replace(attachment.display, "").replace(/\s+/g, " ").trim()
       } else if (attachment.source.type === "agent") {
         const agentName = attachment.filename
         newPrompt = currentPrompt.replace(`@${agentName}`, "").replace(/\s+/g, " ").trim()
@@ -804,6 +823,7 @@ export default function PromptInput(props: PromptInputProps) {
   function handlePickerSelect(
     item:
       | { type: "agent"; agent: Agent }
+      | { type: "symbol"; symbol: { name: string; kind: number; path: string; range: SymbolRange } }
       | {
           type: "file"
           file: { path: string; relativePath?: string; isGitFile: boolean; isDirectory?: boolean }
@@ -832,6 +852,37 @@ export default function PromptInput(props: PromptInputProps) {
         const newPrompt = before + attachmentText + " " + after
         setPrompt(newPrompt)
 
+        setTimeout(() => {
+          if (textareaRef) {
+            const newCursorPos = pos + attachmentText.length + 1
+            textareaRef.setSelectionRange(newCursorPos, newCursorPos)
+          }
+        }, 0)
+      }
+    } else if (item.type === "symbol") {
+      const { symbol } = item
+      const alreadyAttached = attachments().some(
+        (att) =>
+          att.source.type === "symbol" &&
+          att.source.path === symbol.path &&
+          att.source.name === symbol.name &&
+          att.source.range.start.line === symbol.range.start.line,
+      )
+
+      if (!alreadyAttached) {
+        addAttachment(props.instanceId, props.sessionId, createSymbolAttachment(symbol, props.instanceFolder))
+      }
+
+      const currentPrompt = prompt()
+      const pos = atPosition()
+      const cursorPos = textareaRef?.selectionStart || 0
+
+      if (pos !== null) {
+        const before = currentPrompt.substring(0, pos)
+        const after = currentPrompt.substring(cursorPos)
+        const attachmentText = `@${symbol.name}`
+        setPrompt(before + attachmentText + " " + after)
+
         setTimeout(() => {
           if (textareaRef) {
             const newCursorPos = pos + attachmentText.length + 1
@@ -953,6 +1004,20 @@ export default function PromptInput(props: PromptInputProps) {
     }, 0)
   }
 
+  function handleSlashTemplateSelect(template: PromptTemplate) {
+    // Keep whatever followed the "/name" being typed
+    const rest = prompt().replace(/^\/\S*\s*/, "")
+    setShowSlashPicker(false)
+    setSlashQuery("")
+    setPrompt(rest)
+    textareaRef?.setSelectionRange(0, 0)
+
+    applyPromptTemplate(
+      { instanceId: props.instanceId, sessionId: props.sessionId, folder: props.instanceFolder },
+      template,
+    )
+  }
+
   function handleDragOver(e: DragEvent) {
     e.preventDefault()
     e.stopPropagation()
@@ -1136,6 +1201,7 @@ export default function PromptInput(props: PromptInputProps) {
             searchQuery={searchQuery()}
             textareaRef={textareaRef}
             workspaceId={props.instanceId}
+            workspaceFolder={props.instanceFolder}
           />
         </Show>
 
@@ -1144,6 +1210,8 @@ export default function PromptInput(props: PromptInputProps) {
             open={showSlashPicker()}
             onClose={handleSlashPickerClose}
             onSelect={handleSlashCommandSelect}
+            templates={getPromptTemplates(props.instanceFolder)}
+            onSelectTemplate={handleSlashTemplateSelect}
             searchQuery={slashQuery()}
             instanceId={props.instanceId}
             textareaRef={textareaRef}
@@ -1155,6 +1223,15 @@ export default function PromptInput(props: PromptInputProps) {
             <div class="flex flex-wrap gap-1.5 border-b border-border pb-2">
               <For each={attachments()}>
                 {(attachment) => {
+                  if (attachment.source.type === "symbol") {
+                    return (
+                      <SymbolAttachmentChip
+                        attachment={attachment as Attachment & { source: SymbolSource }}
+                        workspaceId={props.instanceId}
+                        onRemove={() => handleRemoveAttachment(attachment.id)}
+                      />
+                    )
+                  }
                   const isImage = attachment.mediaType.startsWith("image/")
                   const textValue = attachment.source.type === "text" ? attachment.source.value : undefined
                   const isTextAttachment = typeof textValue === "string"
@@ -0,0 +1,243 @@
+/**
+ * Prompt Template Dialog
+ *
+ * Picks a prompt template for the current session, then asks for the values
+ * of its `{{variables}}` with a live preview before inserting the result into
+ * the prompt.
+ */
+
+import { Component, For, Match, Show, Switch, createEffect, createMemo, createSignal, on } from "solid-js"
+import { Dialog } from "@kobalte/core/dialog"
+import { FileText, Search, X } from "lucide-solid"
+import type { PromptTemplate } from "../../../server/src/api-types"
+import { cn } from "../lib/cn"
+import { parseTemplateVariables, renderPromptTemplate, type TemplateVariable } from "../lib/prompt-placeholders"
+import {
+  applyPromptTemplate,
+  closePromptTemplateDialog,
+  getLastSelection,
+  getPromptTemplates,
+  insertIntoPrompt,
+  promptTemplateDialog,
+} from "../stores/prompt-templates"
+import { Button } from "./ui"
+
+const PromptTemplateDialog: Component = () => {
+  const [query, setQuery] = createSignal("")
+  const [values, setValues] = createSignal<Record<string, string>>({})
+
+  const target = () => promptTemplateDialog()?.target
+  const template = () => promptTemplateDialog()?.template ?? null
+  const variables = createMemo(() => parseTemplateVariables(template()?.body ?? ""))
+
+  const templates = createMemo(() => {
+    const current = target()
+    if (!current) return []
+    const search = query().trim().toLowerCase()
+    return getPromptTemplates(current.folder).filter(
+      (entry) =>
+        !search || entry.name.toLowerCase().includes(search) || entry.description.toLowerCase().includes(search),
+    )
+  })
+
+  // Fresh values (selection prefilled) each time a template is chosen
+  createEffect(
+    on(template, (current) => {
+      setQuery("")
+      if (!current) return
+      const selection = getLastSelection()
+      setValues(
+        Object.fromEntries(
+          parseTemplateVariables(current.body)
+            .filter((variable) => variable.kind === "selection" && selection)
+            .map((variable) => [variable.name, selection]),
+        ),
+      )
+    }),
+  )
+
+  const preview = createMemo(() => renderPromptTemplate(template()?.body ?? "", values()))
+
+  const missing = createMemo(() =>
+    variables().filter((variable) => !variable.defaultValue && !(values()[variable.name] ?? "").trim()),
+  )
+
+  const setValue = (name: string, value: string) => setValues((prev) => ({ ...prev, [name]: value }))
+
+  function handleInsert(event?: Event) {
+    event?.preventDefault()
+    const current = target()
+    if (!current || !template() || missing().length > 0) return
+    const files = variables()
+      .filter((variable) => variable.kind === "file")
+      .map((variable) => (values()[variable.name] ?? "").trim() || variable.defaultValue)
+      .filter(Boolean)
+    insertIntoPrompt(current, preview(), files)
+    closePromptTemplateDialog()
+  }
+
+  return (
+    <Dialog
+      open={Boolean(promptTemplateDialog())}
+      onOpenChange={(open) => {
+        if (!open) closePromptTemplateDialog()
+      }}
+    >
+      <Dialog.Portal>
+        <Dialog.Overlay class="fixed inset-0 z-40 bg-black/50" />
+        <div class="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[10vh]">
+          <Dialog.Content class="w-full max-w-2xl rounded-lg flex flex-col bg-background border border-border shadow-xl max-h-[80vh]">
+            <div class="flex items-center gap-3 px-4 py-3 border-b border-border">
+              <FileText class="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              <div class="min-w-0 flex-1">
+                <Dialog.Title class="text-base font-semibold text-foreground truncate">
+                  {template() ? `/${template()!.name}` : "Insert Prompt Template"}
+                </Dialog.Title>
+                <Show when={template()?.description}>
+                  <p class="text-xs text-muted-foreground truncate">{template()!.description}</p>
+                </Show>
+              </div>
+              <Dialog.CloseButton
+                class="p-1 rounded transition-colors text-muted-foreground hover:bg-accent hover:text-foreground"
+                aria-label="Close"
+              >
+                <X class="w-4 h-4" />
+              </Dialog.CloseButton>
+            </div>
+
+            <Switch>
+              <Match when={!template()}>
+                <div class="flex items-center gap-2 px-4 py-2 border-b border-border">
+                  <Search class="w-4 h-4 text-muted-foreground" />
+                  <input
+                    type="text"
+                    value={query()}
+                    onInput={(e) => setQuery(e.currentTarget.value)}
+                    onKeyDown={(e) => {
+                      const first = templates()[0]
+                      if (e.key === "Enter" && first && target()) {
+                        e.preventDefault()
+                        applyPromptTemplate(target()!, first)
+                      }
+                    }}
+                    placeholder="Search templates..."
+                    class="flex-1 bg-transparent text-sm text-foreground outline-none placeholder:text-muted-foreground"
+                    autofocus
+                  />
+                </div>
+                <div class="flex-1 overflow-y-auto">
+                  <Show
+                    when={templates().length > 0}
+                    fallback={
+                      <p class="px-4 py-8 text-center text-sm text-muted-foreground">
+                        No templates yet. Add them in Settings → Prompt Templates or as Markdown files in
+                        <code class="mx-1">.era/templates</code>.
+                      </p>
+                    }
+                  >
+                    <For each={templates()}>
+                      {(entry) => <TemplateRow template={entry} onSelect={() => applyPromptTemplate(target()!, entry)} />}
+                    </For>
+                  </Show>
+                </div>
+              </Match>
+
+              <Match when={template()}>
+                <form class="flex-1 overflow-y-auto px-4 py-3 space-y-3" onSubmit={handleInsert}>
+                  <For each={variables()}>
+                    {(variable) => (
+                      <VariableField
+                        variable={variable}
+                        value={values()[variable.name] ?? ""}
+                        onInput={(value) => setValue(variable.name, value)}
+                      />
+                    )}
+                  </For>
+
+                  <div>
+                    <div class="text-xs font-medium text-muted-foreground mb-1">Preview</div>
+                    <pre class="whitespace-pre-wrap break-words rounded-md border border-border bg-secondary px-3 py-2 text-xs text-foreground max-h-48 overflow-y-auto">
+                      {preview()}
+                    </pre>
+                  </div>
+
+                  <div class="flex justify-end gap-2 pt-1">
+                    <Button type="button" variant="outline" onClick={() => closePromptTemplateDialog()}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={missing().length > 0}>
+                      Insert
+                    </Button>
+                  </div>
+                </form>
+              </Match>
+            </Switch>
+          </Dialog.Content>
+        </div>
+      </Dialog.Portal>
+    </Dialog>
+  )
+}
+
+const TemplateRow: Component<{ template: PromptTemplate; onSelect: () => void }> = (props) => (
+  <button
+    type="button"
+    class="w-full text-left px-4 py-2 border-b border-border last:border-b-0 hover:bg-accent transition-colors"
+    onClick={props.onSelect}
+  >
+    <div class="flex items-center gap-2">
+      <span class="text-sm font-medium text-foreground">/{props.template.name}</span>
+      <span class="text-[10px] uppercase tracking-wide text-muted-foreground">{props.template.source}</span>
+    </div>
+    <div class="text-xs text-muted-foreground truncate">{props.template.description || props.template.body}</div>
+  </button>
+)
+
+const VariableField: Component<{ variable: TemplateVariable; value: string; onInput: (value: string) => void }> = (
+  props,
+) => {
+  const label = () => {
+    if (props.variable.kind === "file") {
+      return props.variable.name === "file" ? "File" : `File: ${props.variable.name.slice("file.".length)}`
+    }
+    return props.variable.name === "selection" ? "Selection" : props.variable.name
+  }
+  const placeholder = () =>
+    props.variable.defaultValue ||
+    (props.variable.kind === "file" ? "path/relative/to/project" : props.variable.kind === "selection" ? "Selected text" : "")
+  const fieldClass =
+    "w-full px-2 py-1.5 rounded-md border border-border bg-secondary text-foreground text-sm focus:outline-none focus:border-primary"
+
+  return (
+    <label class="block">
+      <span class="block text-xs font-medium text-foreground mb-1">
+        {label()}
+        <Show when={!props.variable.defaultValue}>
+          <span class="text-destructive"> *</span>
+        </Show>
+      </span>
+      <Show
+        when={props.variable.kind === "selection"}
+        fallback={
+          <input
+            type="text"
+            value={props.value}
+            placeholder={placeholder()}
+            onInput={(e) => props.onInput(e.currentTarget.value)}
+            class={cn(fieldClass, props.variable.kind === "file" && "font-mono")}
+          />
+        }
+      >
+        <textarea
+          rows={4}
+          value={props.value}
+          placeholder={placeholder()}
+          onInput={(e) => props.onInput(e.currentTarget.value)}
+          class={cn(fieldClass, "font-mono text-xs")}
+        />
+      </Show>
+    </label>
+  )
+}
+
+export default PromptTemplateDialog
@@ -0,0 +1,257 @@
+import { Component, For, Show, createEffect, createMemo, createSignal } from "solid-js"
+import { AlertCircle, Edit2, Plus, Trash2 } from "lucide-solid"
+import type { PromptTemplate, PromptTemplateSource } from "../../../server/src/api-types"
+import { cn } from "../lib/cn"
+import { parseTemplateVariables } from "../lib/prompt-placeholders"
+import { showToastNotification } from "../lib/notifications"
+import { deletePromptTemplate, fetchPromptTemplates, getPromptTemplates, savePromptTemplate } from "../stores/prompt-templates"
+import { Badge, Button } from "./ui"
+
+const TEMPLATE_NAME = /^[A-Za-z0-9_.-]+$/
+
+interface PromptTemplatesPanelProps {
+  /** Project folder of the active instance; project templates need one */
+  folder?: string
+}
+
+const PromptTemplatesPanel: Component<PromptTemplatesPanelProps> = (props) => {
+  const [editing, setEditing] = createSignal<PromptTemplate | null>(null)
+  const [isAdding, setIsAdding] = createSignal(false)
+  const [saveError, setSaveError] = createSignal<string | null>(null)
+  const [isSaving, setIsSaving] = createSignal(false)
+
+  // Form state
+  const [formName, setFormName] = createSignal("")
+  const [formSource, setFormSource] = createSignal<PromptTemplateSource>("project")
+  const [formDescription, setFormDescription] = createSignal("")
+  const [formBody, setFormBody] = createSignal("")
+
+  createEffect(() => {
+    void fetchPromptTemplates(props.folder)
+  })
+
+  const templates = createMemo(() => getPromptTemplates(props.folder))
+  const formVariables = createMemo(() => parseTemplateVariables(formBody()))
+
+  const startAdd = () => {
+    setEditing(null)
+    setIsAdding(true)
+    setFormName("")
+    setFormSource(props.folder ? "project" : "global")
+    setFormDescription("")
+    setFormBody("")
+    setSaveError(null)
+  }
+
+  const startEdit = (template: PromptTemplate) => {
+    setIsAdding(false)
+    setEditing(template)
+    setFormName(template.name)
+    setFormSource(template.source)
+    setFormDescription(template.description)
+    setFormBody(template.body)
+    setSaveError(null)
+  }
+
+  const cancelEdit = () => {
+    setIsAdding(false)
+    setEditing(null)
+    setSaveError(null)
+  }
+
+  const save = async () => {
+    const name = formName().trim()
+    if (!TEMPLATE_NAME.test(name)) {
+      setSaveError("Names may only contain letters, digits, '.', '_' and '-'")
+      return
+    }
+    if (!formBody().trim()) {
+      setSaveError("Template text is required")
+      return
+    }
+    setIsSaving(true)
+    try {
+      await savePromptTemplate(props.folder, {
+        name,
+        source: formSource(),
+        description: formDescription(),
+        body: formBody(),
+      })
+      cancelEdit()
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : "Failed to save template")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const remove = async (template: PromptTemplate) => {
+    try {
+      await deletePromptTemplate(props.folder, template)
+      if (editing()?.path === template.path) cancelEdit()
+    } catch (error) {
+      showToastNotification({
+        title: "Prompt templates",
+        message: error instanceof Error ? error.message : "Failed to delete template",
+        variant: "error",
+      })
+    }
+  }
+
+  const isEditing = () => isAdding() || editing() !== null
+
+  return (
+    <div class="mb-8">
+      <h2 class="text-xl font-semibold text-foreground mb-1">Prompt Templates</h2>
+      <p class="text-sm text-muted-foreground mb-6">
+        Reusable prompts, inserted with <code>/name</code> in the prompt or from the command palette. Use{" "}
+        <code>{"{{name}}"}</code> or <code>{"{{name:default}}"}</code> for variables, <code>{"{{file}}"}</code> to attach a
+        file and <code>{"{{selection}}"}</code> for selected text. Project templates live in{" "}
+        <code>.era/templates</code> so they can be committed and shared.
+      </p>
+
+      <Show when={saveError()}>
+        <div class="rounded-lg border bg-card p-4 mb-3" style="background-color: hsl(var(--destructive) / 0.1); border-color: hsl(var(--destructive));">
+          <div class="flex items-center gap-2 text-destructive text-sm">
+            <AlertCircle class="w-4 h-4" />
+            {saveError()}
+          </div>
+        </div>
+      </Show>
+
+      <Show
+        when={isEditing()}
+        fallback={
+          <Button variant="secondary" size="sm" class="mb-4" onClick={startAdd}>
+            <Plus class="w-4 h-4" />
+            New template
+          </Button>
+        }
+      >
+        <div class="rounded-lg border bg-card p-4 mb-4">
+          <div class="text-base font-medium text-foreground mb-3">
+            {editing() ? `Edit /${editing()!.name}` : "New Template"}
+          </div>
+
+          <div class="flex gap-3 mb-4">
+            <div class="flex-1">
+              <label class="block text-sm font-medium text-foreground mb-1.5">Name *</label>
+              <input
+                type="text"
+                class="w-full px-3 py-2.5 rounded-md bg-secondary border border-border text-foreground text-sm focus:outline-none focus:border-primary"
+                placeholder="e.g., review, explain, write-tests"
+                value={formName()}
+                onInput={(e) => setFormName(e.currentTarget.value)}
+                disabled={editing() !== null}
+              />
+            </div>
+            <div>
+              <label class="block text-sm font-medium text-foreground mb-1.5">Scope</label>
+              <select
+                class="px-3 py-2.5 rounded-md bg-secondary border border-border text-foreground text-sm focus:outline-none focus:border-primary"
+                value={formSource()}
+                onChange={(e) => setFormSource(e.currentTarget.value as PromptTemplateSource)}
+                disabled={editing() !== null}
+              >
+                <option value="project" disabled={!props.folder}>
+                  Project (shared)
+                </option>
+                <option value="global">Personal</option>
+              </select>
+            </div>
+          </div>
+
+          <div class="mb-4">
+            <label class="block text-sm font-medium text-foreground mb-1.5">Description</label>
+            <input
+              type="text"
+              class="w-full px-3 py-2.5 rounded-md bg-secondary border border-border text-foreground text-sm focus:outline-none focus:border-primary"
+              placeholder="Brief explanation shown in the picker"
+              value={formDescription()}
+              onInput={(e) => setFormDescription(e.currentTarget.value)}
+            />
+          </div>
+
+          <div class="mb-2">
+            <label class="block text-sm font-medium text-foreground mb-1.5">Template *</label>
+            <textarea
+              class="w-full px-3 py-2.5 rounded-md bg-secondary border border-border text-foreground text-sm font-mono focus:outline-none focus:border-primary"
+              placeholder={"Review {{file}} with a focus on {{concern:error handling}}."}
+              value={formBody()}
+              onInput={(e) => setFormBody(e.currentTarget.value)}
+              rows={6}
+              style="resize: vertical; min-height: 120px;"
+            />
+          </div>
+
+          <Show when={formVariables().length > 0}>
+            <div class="flex flex-wrap gap-1 mb-4">
+              <For each={formVariables()}>
+                {(variable) => (
+                  <Badge variant="outline" class="text-[10px] px-1.5 py-0 font-normal">
+                    {variable.name}
+                    {variable.defaultValue ? ` = ${variable.defaultValue}` : ""}
+                  </Badge>
+                )}
+              </For>
+            </div>
+          </Show>
+
+          <div class="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={cancelEdit} disabled={isSaving()}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => void save()} disabled={isSaving()}>
+              {isSaving() ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </Show>
+
+      <Show
+        when={templates().length > 0}
+        fallback={<p class="py-6 text-center text-sm text-muted-foreground">No prompt templates yet</p>}
+      >
+        <div class="divide-y divide-border border border-border rounded-lg">
+          <For each={templates()}>
+            {(template) => (
+              <div class={cn("flex items-start gap-3 px-3 py-2", editing()?.path === template.path && "bg-accent")}>
+                <div class="flex-1 min-w-0">
+                  <div class="flex items-center gap-2">
+                    <span class="text-sm font-medium text-foreground">/{template.name}</span>
+                    <Badge variant="outline" class="text-[10px] px-1.5 py-0 font-normal">
+                      {template.source === "project" ? "project" : "personal"}
+                    </Badge>
+                  </div>
+                  <div class="text-xs text-muted-foreground truncate" title={template.path}>
+                    {template.description || template.body}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  class="p-1 rounded transition-colors text-muted-foreground hover:bg-accent hover:text-foreground"
+                  onClick={() => startEdit(template)}
+                  aria-label={`Edit ${template.name}`}
+                  title="Edit"
+                >
+                  <Edit2 class="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  class="p-1 rounded transition-colors text-muted-foreground hover:bg-destructive/10 hover:text-destructive"
+                  onClick={() => void remove(template)}
+                  aria-label={`Delete ${template.name}`}
+                  title="Delete"
+                >
+                  <Trash2 class="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
+    </div>
+  )
+}
+
+export default PromptTemplatesPanel
@@ -2,9 +2,10 @@ import { Dialog } from "@kobalte/core/dialog"
 import { Switch } from "@kobalte/core/switch"
 import { For, Show, createEffect, createMemo, createSignal } from "solid-js"
 import { toDataURL } from "qrcode"
-import { ExternalLink, Link2, Loader2, RefreshCw, Shield, Wifi } from "lucide-solid"
-import type { NetworkAddress, ServerMeta } from "../../../server/src/api-types"
+import { Copy, ExternalLink, KeyRound, Link2, Loader2, RefreshCw, Shield, Trash2, Wifi } from "lucide-solid"
+import type { AccessTokenInfo, NetworkAddress, ServerMeta } from "../../../server/src/api-types"
 import { serverApi } from "../lib/api-client"
+import { copyToClipboard } from "../lib/clipboard"
 import { restartCli } from "../lib/native/cli"
 import { preferences, setListeningMode } from "../stores/preferences"
 import { showConfirmDialog } from "../stores/alerts"
@@ -24,6 +25,9 @@ export function RemoteAccessOverlay(props: RemoteAccessOverlayProps) {
   const [qrCodes, setQrCodes] = createSignal<Record<string, string>>({})
   const [expandedUrl, setExpandedUrl] = createSignal<string | null>(null)
   const [error, setError] = createSignal<string | null>(null)
+  const [accessToken, setAccessToken] = createSignal<string | null>(null)
+  const [tokens, setTokens] = createSignal<AccessTokenInfo[]>([])
+  const [tokenBusy, setTokenBusy] = createSignal(false)
 
   const addresses = createMemo<NetworkAddress[]>(() => meta()?.addresses ?? [])
   const currentMode = createMemo(() => meta()?.listeningMode ?? preferences().listeningMode)
@@ -36,12 +40,35 @@ export function RemoteAccessOverlay(props: RemoteAccessOverlayProps) {
     return list.filter((address) => address.scope === "loopback")
   })
 
+  // Links shared with other devices carry the access token so they sign in on open
+  const shareUrl = (url: string) => {
+    const token = accessToken()
+    if (!token || !meta()?.authRequired) return url
+    return `${url}/?token=${encodeURIComponent(token)}`
+  }
+
+  const refreshTokens = async () => {
+    try {
+      const [primary, list] = await Promise.all([serverApi.fetchPrimaryAccessToken(), serverApi.listAccessTokens()])
+      setAccessToken(primary.token)
+      setTokens(list.tokens)
+    } catch (err) {
+      // Remote clients cannot manage tokens; keep plain addresses
+      log.warn("Unable to load access tokens", err)
+      setAccessToken(null)
+      setTokens([])
+    }
+  }
+
   const refreshMeta = async () => {
     setLoading(true)
     setError(null)
     try {
       const result = await serverApi.fetchServerMeta()
       setMeta(result)
+      if (result.authRequired) {
+        await refreshTokens()
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err))
     } finally {
@@ -61,10 +88,11 @@ export function RemoteAccessOverlay(props: RemoteAccessOverlayProps) {
       return
     }
     setExpandedUrl(url)
-    if (!qrCodes()[url]) {
+    const target = shareUrl(url)
+    if (!qrCodes()[target]) {
       try {
-        const dataUrl = await toDataURL(url, { margin: 1, scale: 4 })
-        setQrCodes((prev) => ({ ...prev, [url]: dataUrl }))
+        const dataUrl = await toDataURL(target, { margin: 1, scale: 4 })
+        setQrCodes((prev) => ({ ...prev, [target]: dataUrl }))
       } catch (err) {
         log.error("Failed to generate QR code", err)
       }
@@ -101,6 +129,52 @@ export function RemoteAccessOverlay(props: RemoteAccessOverlayProps) {
     void refreshMeta()
   }
 
+  const handleRotateToken = async () => {
+    const confirmed = await showConfirmDialog("Devices using the current token will be signed out immediately.", {
+      title: "Rotate access token",
+      variant: "warning",
+      confirmLabel: "Rotate",
+      cancelLabel: "Cancel",
+    })
+    if (!confirmed) return
+
+    setTokenBusy(true)
+    try {
+      await serverApi.rotateAccessToken()
+      setQrCodes({})
+      setExpandedUrl(null)
+      await refreshTokens()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setTokenBusy(false)
+    }
+  }
+
+  const handleRevokeToken = async (token: AccessTokenInfo) => {
+    const confirmed = await showConfirmDialog(`Revoke "${token.label}"? Devices using it lose access immediately.`, {
+      title: "Revoke access token",
+      variant: "warning",
+      confirmLabel: "Revoke",
+      cancelLabel: "Cancel",
+    })
+    if (!confirmed) return
+
+    setTokenBusy(true)
+    try {
+      await serverApi.revokeAccessToken(token.id)
+      if (token.primary) {
+        setQrCodes({})
+        setExpandedUrl(null)
+      }
+      await refreshTokens()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setTokenBusy(false)
+    }
+  }
+
   const handleOpenUrl = (url: string) => {
     try {
       window.open(url, "_blank", "noopener,noreferrer")
@@ -193,6 +267,68 @@ export function RemoteAccessOverlay(props: RemoteAccessOverlayProps) {
                 </p>
               </section>
 
+              <Show when={meta()?.authRequired && accessToken()}>
+                <section class="border border-border rounded-xl bg-secondary p-4">
+                  <div class="flex items-center justify-between gap-3 mb-3">
+                    <div class="flex items-center gap-2.5">
+                      <KeyRound class="w-[18px] h-[18px]" />
+                      <div>
+                        <p class="font-semibold text-foreground">Access token</p>
+                        <p class="text-[13px] text-muted-foreground">
+                          Other devices must present this token. Links and QR codes below include it.
+                        </p>
+                      </div>
+                    </div>
+                    <div class="flex gap-2">
+                      <button
+                        class="inline-flex items-center gap-1.5 px-2.5 py-2 rounded-lg border border-border bg-background text-foreground cursor-pointer"
+                        type="button"
+                        onClick={() => void copyToClipboard(accessToken() ?? "")}
+                      >
+                        <Copy class="w-[18px] h-[18px]" />
+                        <span class="hidden sm:inline">Copy</span>
+                      </button>
+                      <button
+                        class="inline-flex items-center gap-1.5 px-2.5 py-2 rounded-lg border border-border bg-background text-foreground cursor-pointer"
+                        type="button"
+                        onClick={() => void handleRotateToken()}
+                        disabled={tokenBusy()}
+                      >
+                        <RefreshCw class={cn("w-[18px] h-[18px]", tokenBusy() && "animate-spin")} />
+                        <span class="hidden sm:inline">Rotate</span>
+                      </button>
+                    </div>
+                  </div>
+                  <div class="flex flex-col gap-2">
+                    <For each={tokens()}>
+                      {(token) => (
+                        <div class="flex items-center justify-between gap-3 border border-border rounded-lg px-3 py-2 bg-background">
+                          <div>
+                            <p class="text-sm font-medium text-foreground">
+                              {token.label}
+                              {token.primary ? " (shared)" : ""}
+                            </p>
+                            <p class="text-xs text-muted-foreground">
+                              Created {new Date(token.createdAt).toLocaleString()}
+                              {token.lastUsedAt ? ` -- last used ${new Date(token.lastUsedAt).toLocaleString()}` : ""}
+                            </p>
+                          </div>
+                          <button
+                            class="inline-flex items-center gap-1.5 px-2 py-1.5 rounded-lg border border-border bg-secondary text-foreground cursor-pointer"
+                            type="button"
+                            onClick={() => void handleRevokeToken(token)}
+                            disabled={tokenBusy()}
+                            aria-label={`Revoke ${token.label}`}
+                          >
+                            <Trash2 class="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </For>
+                  </div>
+                </section>
+              </Show>
+
               <section class="border border-border rounded-xl bg-secondary p-4">
                 <div class="flex items-center justify-between gap-3 mb-3">
                   <div class="flex items-center gap-2.5">
@@ -211,7 +347,7 @@ export function RemoteAccessOverlay(props: RemoteAccessOverlayProps) {
                         <For each={displayAddresses()}>
                           {(address) => {
                             const expandedState = () => expandedUrl() === address.url
-                            const qr = () => qrCodes()[address.url]
+                            const qr = () => qrCodes()[shareUrl(address.url)]
                             return (
                               <div class="border border-border rounded-xl p-3 bg-background">
                                 <div class="flex items-center justify-between gap-3 flex-wrap">
@@ -225,7 +361,7 @@ export function RemoteAccessOverlay(props: RemoteAccessOverlayProps) {
                                     <button
                                       class="inline-flex items-center gap-1.5 px-2.5 py-2 rounded-full border border-border bg-secondary text-foreground cursor-pointer"
                                       type="button"
-                                      onClick={() => handleOpenUrl(address.url)}
+                                      onClick={() => handleOpenUrl(shareUrl(address.url))}
                                     >
                                       <ExternalLink class="w-[18px] h-[18px]" />
                                       Open
@@ -0,0 +1,74 @@
+import { Component, Show, createSignal } from "solid-js"
+import { KeyRound } from "lucide-solid"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui"
+import { Button } from "./ui"
+import { Input } from "./ui"
+import { Label } from "./ui"
+import { isLoginRequired, submitAccessToken } from "../stores/remote-auth"
+
+/**
+ * Prompt shown to remote browsers that reached the server without a valid
+ * access token (for example by typing the address instead of scanning the QR code).
+ */
+const RemoteLoginDialog: Component = () => {
+  const [token, setToken] = createSignal("")
+  const [submitting, setSubmitting] = createSignal(false)
+  const [error, setError] = createSignal<string | null>(null)
+  const inputId = "remote-access-token"
+
+  async function handleSubmit(event?: Event) {
+    event?.preventDefault()
+    if (!token().trim() || submitting()) return
+    setSubmitting(true)
+    setError(null)
+    try {
+      await submitAccessToken(token())
+    } catch {
+      setError("That token was not accepted. Copy it again from the Remote Access panel on the host.")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isLoginRequired()}>
+      <DialogContent class="max-w-sm" showClose={false}>
+        <DialogHeader>
+          <DialogTitle class="flex items-center gap-2">
+            <KeyRound class="w-4 h-4" />
+            Access token required
+          </DialogTitle>
+          <DialogDescription>
+            This Era Code server accepts remote connections only with an access token. Open Remote Access on the host
+            machine to copy the token or scan its QR code.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form class="space-y-4" onSubmit={handleSubmit}>
+          <div class="space-y-2">
+            <Label for={inputId}>Access token</Label>
+            <Input
+              id={inputId}
+              type="password"
+              autocomplete="off"
+              value={token()}
+              onInput={(event: InputEvent & { currentTarget: HTMLInputElement }) => setToken(event.currentTarget.value)}
+              placeholder="Paste access token"
+            />
+            <Show when={error()}>
+              {(message) => <p class="text-xs text-destructive">{message()}</p>}
+            </Show>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={submitting() || !token().trim()}>
+              {submitting() ? "Signing in..." : "Sign in"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default RemoteLoginDialog
@@ -0,0 +1,124 @@
+import { Component, For, Show, createSignal } from "solid-js"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui"
+import { Button } from "./ui"
+import { cn } from "../lib/cn"
+import { getLogger } from "../lib/logger"
+import { showToastNotification } from "../lib/notifications"
+import { SESSION_EXPORT_FORMATS, type SessionExportFormat } from "../lib/session-export"
+import { closeSessionExport, exportSession, sessionExportTarget } from "../stores/session-export"
+import { sessions } from "../stores/sessions"
+
+const log = getLogger("session")
+
+const FORMAT_DESCRIPTIONS: Record<SessionExportFormat, string> = {
+  markdown: "Readable transcript for docs, issues and pull requests",
+  html: "Self-contained page with rendered messages, tool calls and diffs",
+  json: "Lossless bundle that can be imported again for review",
+}
+
+const SessionExportDialog: Component = () => {
+  const [format, setFormat] = createSignal<SessionExportFormat>("markdown")
+  const [includeChildren, setIncludeChildren] = createSignal(true)
+  const [isExporting, setIsExporting] = createSignal(false)
+
+  const session = () => {
+    const target = sessionExportTarget()
+    return target ? sessions().get(target.instanceId)?.get(target.sessionId) : undefined
+  }
+
+  const hasChildren = () => {
+    const target = sessionExportTarget()
+    if (!target) return false
+    const all = sessions().get(target.instanceId)
+    return Array.from(all?.values() ?? []).some((entry) => entry.parentId === target.sessionId)
+  }
+
+  async function handleExport(event?: Event) {
+    event?.preventDefault()
+    const target = sessionExportTarget()
+    if (!target || isExporting()) return
+    setIsExporting(true)
+    try {
+      await exportSession(target.instanceId, target.sessionId, format(), {
+        includeChildren: includeChildren() && hasChildren(),
+      })
+      closeSessionExport()
+    } catch (error) {
+      log.error(`Failed to export session ${target.sessionId}:`, error)
+      showToastNotification({
+        title: "Export failed",
+        message: error instanceof Error ? error.message : String(error),
+        variant: "error",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={Boolean(sessionExportTarget())}
+      onOpenChange={(open) => {
+        if (!open && !isExporting()) closeSessionExport()
+      }}
+    >
+      <DialogContent class="max-w-md" showClose={false}>
+        <DialogHeader>
+          <DialogTitle>Export Session</DialogTitle>
+          <DialogDescription>
+            {session()?.title ? `Export "${session()!.title}" to share or archive it.` : "Export this session to share or archive it."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form class="space-y-4" onSubmit={handleExport}>
+          <div class="space-y-2" role="radiogroup" aria-label="Export format">
+            <For each={Object.keys(SESSION_EXPORT_FORMATS) as SessionExportFormat[]}>
+              {(option) => (
+                <label
+                  class={cn(
+                    "flex items-start gap-3 rounded-md border px-3 py-2 cursor-pointer transition-colors",
+                    format() === option ? "border-primary bg-accent" : "border-border hover:bg-accent",
+                  )}
+                >
+                  <input
+                    type="radio"
+                    name="session-export-format"
+                    class="mt-1"
+                    checked={format() === option}
+                    onChange={() => setFormat(option)}
+                  />
+                  <span>
+                    <span class="block text-sm font-medium text-foreground">{SESSION_EXPORT_FORMATS[option].label}</span>
+                    <span class="block text-xs text-muted-foreground">{FORMAT_DESCRIPTIONS[option]}</span>
+                  </span>
+                </label>
+              )}
+            </For>
+          </div>
+
+          <Show when={hasChildren()}>
+            <label class="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={includeChildren()}
+                onChange={(event) => setIncludeChildren(event.currentTarget.checked)}
+              />
+              Include subagent sessions
+            </label>
+          </Show>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" disabled={isExporting()} onClick={() => closeSessionExport()}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isExporting()}>
+              {isExporting() ? "Exporting..." : "Export"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default SessionExportDialog
@@ -1,13 +1,20 @@
-import { Component, For, Show, createSignal, createMemo, JSX } from "solid-js"
+import { Component, For, Show, createEffect, createSignal, createMemo, JSX } from "solid-js"
 import type { Session, SessionStatus } from "../types/session"
 import { getSessionStatus } from "../stores/session-status"
-import { MessageSquare, X, Copy, Trash2, Pencil, MoreVertical, Plus, Pin, PinOff } from "lucide-solid"
+import { MessageSquare, X, Copy, Trash2, Pencil, MoreVertical, Plus, Pin, PinOff, Download, Archive } from "lucide-solid"
 import Kbd from "./kbd"
 import SessionRenameDialog from "./session-rename-dialog"
 import { keyboardRegistry } from "../lib/keyboard-registry"
 import { formatShortcut } from "../lib/keyboard-utils"
 import { showToastNotification } from "../lib/notifications"
 import { deleteSession, loading, renameSession, getSessionInfo } from "../stores/sessions"
+import {
+  deleteImportedSession,
+  fetchImportedSessions,
+  getImportedSessions,
+  openImportedSession,
+  openSessionExport,
+} from "../stores/session-export"
 import { formatTokenTotal } from "../lib/formatters"
 import { getLogger } from "../lib/logger"
 import { DropdownMenu } from "@kobalte/core"
@@ -66,6 +73,10 @@ const SessionList: Component<SessionListProps> = (props) => {
   const [renameTarget, setRenameTarget] = createSignal<{ id: string; title: string; label: string } | null>(null)
   const [isRenaming, setIsRenaming] = createSignal(false)
   const infoShortcut = keyboardRegistry.get("switch-to-info")
+
+  createEffect(() => {
+    void fetchImportedSessions(props.instanceId)
+  })
  
   const isSessionDeleting = (sessionId: string) => {
     const deleting = loading().deletingSession.get(props.instanceId)
@@ -104,6 +115,25 @@ const SessionList: Component<SessionListProps> = (props) => {
     }
   }
 
+  const openImport = async (importId: string) => {
+    try {
+      await openImportedSession(importId)
+    } catch (error) {
+      log.error(`Failed to open imported session ${importId}:`, error)
+      showToastNotification({ message: "Unable to open imported session", variant: "error" })
+    }
+  }
+
+  const handleDeleteImport = async (event: MouseEvent, importId: string) => {
+    event.stopPropagation()
+    try {
+      await deleteImportedSession(props.instanceId, importId)
+    } catch (error) {
+      log.error(`Failed to delete imported session ${importId}:`, error)
+      showToastNotification({ message: "Unable to delete imported session", variant: "error" })
+    }
+  }
+
   const openRenameDialog = (sessionId: string) => {
     const session = props.sessions.get(sessionId)
     if (!session) return
@@ -215,6 +245,13 @@ const SessionList: Component<SessionListProps> = (props) => {
                     <Pencil class="w-3.5 h-3.5" />
                     <span>Rename</span>
                   </DropdownMenu.Item>
+                  <DropdownMenu.Item
+                    class="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer outline-none transition-colors text-foreground hover:bg-accent focus:bg-accent"
+                    onSelect={() => openSessionExport(props.instanceId, rowProps.sessionId)}
+                  >
+                    <Download class="w-3.5 h-3.5" />
+                    <span>Export</span>
+                  </DropdownMenu.Item>
                   <DropdownMenu.Item
                     class="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer outline-none transition-colors text-destructive hover:bg-destructive/10 focus:bg-destructive/10"
                     onSelect={() => handleDeleteSession(new MouseEvent("click"), rowProps.sessionId)}
@@ -357,6 +394,40 @@ const SessionList: Component<SessionListProps> = (props) => {
             <For each={childSessionIds()}>{(id) => <SessionRow sessionId={id} />}</For>
           </div>
         </Show>
+
+        <Show when={getImportedSessions(props.instanceId).length > 0}>
+          <div class="pt-1">
+            <Show when={userSessionIds().length > 0 || childSessionIds().length > 0}>
+              <div class="mx-3 mb-1 border-t border-border" />
+            </Show>
+            <div class="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-medium text-muted-foreground uppercase tracking-wider">
+              Imported
+            </div>
+            <For each={getImportedSessions(props.instanceId)}>
+              {(imported) => (
+                <div class="border-b last:border-b-0 border-border min-w-0 max-w-full group">
+                  <button
+                    class="w-full flex items-center gap-2 px-3 py-2 text-left transition-colors outline-none font-sans text-sm text-muted-foreground hover:bg-accent hover:text-foreground focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-1"
+                    onClick={() => void openImport(imported.id)}
+                    title={`${imported.title}\nImported ${new Date(imported.importedAt).toLocaleString()} · read-only`}
+                  >
+                    <Archive class="w-4 h-4 flex-shrink-0" />
+                    <span class="flex-1 min-w-0 truncate">{imported.title}</span>
+                    <span class="text-[9px] font-mono whitespace-nowrap">{imported.messageCount} msgs</span>
+                    <span
+                      role="button"
+                      class="flex-shrink-0 rounded p-0.5 opacity-0 group-hover:opacity-80 hover:opacity-100 hover:text-destructive transition-all"
+                      onClick={(event) => void handleDeleteImport(event, imported.id)}
+                      aria-label="Delete imported session"
+                    >
+                      <X class="w-3.5 h-3.5" />
+                    </span>
+                  </button>
+                </div>
+              )}
+            </For>
+          </div>
+        </Show>
       </div>
 
       <Show when={props.showFooter !== false}>
@@ -0,0 +1,230 @@
+/**
+ * Session Search Modal
+ *
+ * Full-text search across the messages of every session and project.
+ * Selecting a result opens its session and scrolls to the message.
+ */
+
+import { Component, For, Show, createEffect, createMemo, createResource, createSignal, onCleanup } from "solid-js"
+import { Dialog } from "@kobalte/core/dialog"
+import { Bot, Loader2, Search, User, Wrench, X } from "lucide-solid"
+import { cn } from "../lib/cn"
+import { activeInstanceId, instances } from "../stores/instances"
+import {
+  closeSessionSearch,
+  openSearchHit,
+  searchSessions,
+  sessionSearchOpen,
+  type SessionSearchFilters,
+} from "../stores/session-search"
+import type { SessionSearchHit } from "../../../server/src/api-types"
+
+const SEARCH_DEBOUNCE_MS = 250
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const SessionSearchModal: Component = () => {
+  const [query, setQuery] = createSignal("")
+  const [debouncedQuery, setDebouncedQuery] = createSignal("")
+  const [currentProjectOnly, setCurrentProjectOnly] = createSignal(false)
+  const [role, setRole] = createSignal<"" | "user" | "assistant">("")
+  const [tool, setTool] = createSignal("")
+  const [fromDate, setFromDate] = createSignal("")
+  const [toDate, setToDate] = createSignal("")
+  let inputRef: HTMLInputElement | undefined
+
+  createEffect(() => {
+    const value = query().trim()
+    const timer = setTimeout(() => setDebouncedQuery(value), SEARCH_DEBOUNCE_MS)
+    onCleanup(() => clearTimeout(timer))
+  })
+
+  const currentFolder = createMemo(() => {
+    const id = activeInstanceId()
+    return id ? instances().get(id)?.folder : undefined
+  })
+
+  const filters = createMemo<SessionSearchFilters>(() => ({
+    project: currentProjectOnly() ? currentFolder() : undefined,
+    role: role() || undefined,
+    tool: tool().trim() || undefined,
+    from: fromDate() ? Date.parse(fromDate()) : undefined,
+    // Include the whole end day
+    to: toDate() ? Date.parse(toDate()) + DAY_MS - 1 : undefined,
+  }))
+
+  const [results] = createResource(
+    () => {
+      const q = debouncedQuery()
+      return sessionSearchOpen() && q ? { q, filters: filters() } : null
+    },
+    (source) => searchSessions(source.q, source.filters),
+  )
+
+  createEffect(() => {
+    if (sessionSearchOpen()) requestAnimationFrame(() => inputRef?.focus())
+  })
+
+  const projectName = (directory: string) => directory.split("/").filter(Boolean).pop() ?? directory
+
+  return (
+    <Dialog open={sessionSearchOpen()} onOpenChange={(open) => !open && closeSessionSearch()}>
+      <Dialog.Portal>
+        <Dialog.Overlay class="fixed inset-0 z-40 bg-black/50" />
+        <div class="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[10vh]">
+          <Dialog.Content class="w-full max-w-2xl rounded-lg flex flex-col bg-background border border-border shadow-xl max-h-[75vh]">
+            <div class="flex items-center justify-between px-4 py-3 border-b border-border">
+              <Dialog.Title class="text-base font-semibold text-foreground">Search Sessions</Dialog.Title>
+              <Dialog.CloseButton
+                class="p-1 rounded transition-colors text-muted-foreground hover:bg-accent hover:text-foreground"
+                aria-label="Close"
+              >
+                <X class="w-4 h-4" />
+              </Dialog.CloseButton>
+            </div>
+
+            <div class="relative flex items-center px-4 py-3 border-b border-border">
+              <Search class="absolute left-7 w-4 h-4 text-muted-foreground" />
+              <input
+                ref={inputRef}
+                type="text"
+                value={query()}
+                onInput={(event) => setQuery(event.currentTarget.value)}
+                placeholder="Search messages, tool calls and file paths..."
+                class="w-full pl-8 pr-3 py-2 text-sm rounded-md border border-border bg-secondary text-foreground outline-none placeholder:text-muted-foreground focus:border-info"
+              />
+            </div>
+
+            <div class="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-border text-xs text-muted-foreground">
+              <label class="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={currentProjectOnly()}
+                  disabled={!currentFolder()}
+                  onChange={(event) => setCurrentProjectOnly(event.currentTarget.checked)}
+                />
+                This project
+              </label>
+              <select
+                class="rounded border border-border bg-secondary px-1.5 py-1 text-foreground"
+                value={role()}
+                onChange={(event) => setRole(event.currentTarget.value as "" | "user" | "assistant")}
+              >
+                <option value="">Any role</option>
+                <option value="user">User</option>
+                <option value="assistant">Assistant</option>
+              </select>
+              <input
+                type="text"
+                placeholder="Tool"
+                value={tool()}
+                onInput={(event) => setTool(event.currentTarget.value)}
+                class="w-24 rounded border border-border bg-secondary px-1.5 py-1 text-foreground"
+              />
+              <label class="flex items-center gap-1">
+                From
+                <input
+                  type="date"
+                  value={fromDate()}
+                  onInput={(event) => setFromDate(event.currentTarget.value)}
+                  class="rounded border border-border bg-secondary px-1.5 py-0.5 text-foreground"
+                />
+              </label>
+              <label class="flex items-center gap-1">
+                To
+                <input
+                  type="date"
+                  value={toDate()}
+                  onInput={(event) => setToDate(event.currentTarget.value)}
+                  class="rounded border border-border bg-secondary px-1.5 py-0.5 text-foreground"
+                />
+              </label>
+            </div>
+
+            <div class="flex flex-col overflow-y-auto min-h-0">
+              <Show when={debouncedQuery()} fallback={<p class="px-4 py-8 text-center text-sm text-muted-foreground">Type to search every session</p>}>
+                <Show
+                  when={!results.loading || results()}
+                  fallback={
+                    <div class="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+                      <Loader2 class="w-5 h-5 animate-spin" />
+                      Searching...
+                    </div>
+                  }
+                >
+                  <Show when={results()?.indexing}>
+                    <p class="px-4 py-1.5 text-xs text-muted-foreground border-b border-border">
+                      Still indexing stored sessions; results may be incomplete
+                    </p>
+                  </Show>
+                  <Show
+                    when={(results()?.results.length ?? 0) > 0}
+                    fallback={<p class="px-4 py-8 text-center text-sm text-muted-foreground">No matches</p>}
+                  >
+                    <For each={results()!.results}>
+                      {(hit) => (
+                        <button
+                          type="button"
+                          class="flex flex-col gap-1 px-4 py-2.5 text-left border-b border-border last:border-b-0 hover:bg-accent"
+                          onClick={() => void openSearchHit(hit)}
+                        >
+                          <span class="flex items-center gap-2 text-xs text-muted-foreground">
+                            <HitIcon hit={hit} />
+                            <span class="font-medium text-foreground truncate">{hit.sessionTitle || hit.sessionId}</span>
+                            <span class="truncate">{projectName(hit.directory)}</span>
+                            <Show when={hit.tool}>
+                              <span class="rounded bg-secondary px-1">{hit.tool}</span>
+                            </Show>
+                            <span class="ml-auto flex-shrink-0">{new Date(hit.createdAt).toLocaleString()}</span>
+                          </span>
+                          <span class="text-sm text-foreground break-words">
+                            <HighlightedSnippet hit={hit} />
+                          </span>
+                        </button>
+                      )}
+                    </For>
+                    <Show when={results()!.total > results()!.results.length}>
+                      <p class="px-4 py-2 text-center text-xs text-muted-foreground">
+                        Showing {results()!.results.length} of {results()!.total} matches; refine the query to narrow them down
+                      </p>
+                    </Show>
+                  </Show>
+                </Show>
+              </Show>
+            </div>
+          </Dialog.Content>
+        </div>
+      </Dialog.Portal>
+    </Dialog>
+  )
+}
+
+const HitIcon: Component<{ hit: SessionSearchHit }> = (props) => (
+  <span class={cn("flex-shrink-0", props.hit.role === "user" ? "text-info" : "text-muted-foreground")}>
+    <Show when={props.hit.kind === "tool"} fallback={props.hit.role === "user" ? <User class="w-3.5 h-3.5" /> : <Bot class="w-3.5 h-3.5" />}>
+      <Wrench class="w-3.5 h-3.5" />
+    </Show>
+  </span>
+)
+
+const HighlightedSnippet: Component<{ hit: SessionSearchHit }> = (props) => {
+  const segments = createMemo(() => {
+    const { snippet, highlights } = props.hit
+    const parts: Array<{ text: string; match: boolean }> = []
+    let cursor = 0
+    for (const [start, end] of highlights) {
+      if (start > cursor) parts.push({ text: snippet.slice(cursor, start), match: false })
+      parts.push({ text: snippet.slice(start, end), match: true })
+      cursor = end
+    }
+    if (cursor < snippet.length) parts.push({ text: snippet.slice(cursor), match: false })
+    return parts
+  })
+
+  return (
+    <For each={segments()}>
+      {(segment) => (segment.match ? <mark class="rounded bg-warning/30 text-foreground">{segment.text}</mark> : segment.text)}
+    </For>
+  )
+}
+
+export default SessionSearchModal
@@ -2,9 +2,10 @@ import { Component, For, Show, createSignal, onMount, onCleanup, createMemo } fr
 import type { Session, SessionStatus } from "../types/session"
 import { getSessionStatus } from "../stores/session-status"
 import { getChildSessions, hasUnreadCompletion } from "../stores/session-state"
-import { MessageSquare, Plus, X, ChevronLeft, ChevronRight, ChevronDown, Bot, GitFork, Loader2, CheckCircle2, AlertTriangle, PanelLeftOpen, PanelLeftClose, PanelRightOpen, PanelRightClose } from "lucide-solid"
+import { MessageSquare, Plus, X, ChevronLeft, ChevronRight, ChevronDown, Bot, GitBranch, GitFork, Loader2, CheckCircle2, AlertTriangle, PanelLeftOpen, PanelLeftClose, PanelRightOpen, PanelRightClose } from "lucide-solid"
 import { cn } from "../lib/cn"
 import { getSidebarControls } from "../stores/sidebar-controls"
+import { getSessionWorktree, openWorktreeMergeDialog } from "../stores/worktrees"
 
 interface SessionTabsProps {
   instanceId: string
@@ -183,6 +184,7 @@ const SessionTabs: Component<SessionTabsProps> = (props) => {
               const badge = () => getBadgeInfo(id)
               const children = () => getChildren(id)
               const isExpanded = () => isSubagentsExpanded(id)
+              const worktree = () => getSessionWorktree(props.instanceId, id)
 
               // Get status indicator for badge
               const getStatusIndicator = (status: SessionStatus | "permission" | "completed") => {
@@ -256,6 +258,30 @@ const SessionTabs: Component<SessionTabsProps> = (props) => {
                     {getTabIcon()}
                     <span class="truncate">{getShortTitle(session.title)}</span>
 
+                    {/* Branch of an isolated session - opens merge-back */}
+                    <Show when={worktree()}>
+                      {(info) => (
+                        <span
+                          class={cn(
+                            "inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-mono flex-shrink-0 transition-colors",
+                            isActive() ? "bg-white/20 hover:bg-white/30" : "bg-secondary hover:bg-accent",
+                            info().mergedAt && "opacity-60"
+                          )}
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            openWorktreeMergeDialog(props.instanceId, id)
+                          }}
+                          onMouseDown={(e) => e.stopPropagation()}
+                          role="button"
+                          tabIndex={0}
+                          title={`${info().branch} from ${info().baseBranch}${info().mergedAt ? " (merged)" : ""} - click to merge back`}
+                        >
+                          <GitBranch class="w-3 h-3" />
+                          <span class="max-w-[80px] truncate">{info().branch.replace(/^era\//, "")}</span>
+                        </span>
+                      )}
+                    </Show>
+
                     {/* Badge for sessions with children - toggles subagent bar */}
                     <Show when={badge()}>
                       {(badgeInfo) => (
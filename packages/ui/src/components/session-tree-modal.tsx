@@ -0,0 +1,433 @@
+/**
+ * Session Tree Modal
+ *
+ * Forks and subagent children of the active instance's sessions as a tree,
+ * with cost, tokens, changed files and status per branch. Selecting two
+ * sibling branches compares their final file changes and transcripts side
+ * by side.
+ */
+
+import { Component, ErrorBoundary, For, Show, createEffect, createMemo, createResource, createSignal, on } from "solid-js"
+import { Dialog } from "@kobalte/core/dialog"
+import { DiffModeEnum, DiffView } from "@git-diff-view/solid"
+import type { DiffHighlighterLang } from "@git-diff-view/core"
+import { Bot, GitBranch, GitCompare, Loader2, MessageSquare, X } from "lucide-solid"
+import { cn } from "../lib/cn"
+import { formatCost, formatTokenTotal } from "../lib/formatters"
+import { getLanguageFromPath } from "../lib/markdown"
+import { useTheme } from "../lib/theme"
+import { activeInstanceId } from "../stores/instances"
+import { useConfig } from "../stores/preferences"
+import { activeParentSessionId, setActiveParentSession, setActiveSession } from "../stores/sessions"
+import {
+  buildSessionTree,
+  canCompareBranches,
+  closeSessionTree,
+  compareBranches,
+  findTreeRoot,
+  getBranchStats,
+  loadBranch,
+  sessionTreeOpen,
+  type BranchFileComparison,
+  type BranchFileStatus,
+  type SessionTreeNode,
+  type TranscriptEntry,
+} from "../stores/session-tree"
+
+const FILE_STATUS_LABELS: Record<BranchFileStatus, { label: string; class: string }> = {
+  identical: { label: "same", class: "text-muted-foreground" },
+  different: { label: "differs", class: "text-warning" },
+  "only-a": { label: "only A", class: "text-info" },
+  "only-b": { label: "only B", class: "text-success" },
+}
+
+const SessionTreeModal: Component = () => {
+  const [showAll, setShowAll] = createSignal(false)
+  const [selected, setSelected] = createSignal<string[]>([])
+  const [comparing, setComparing] = createSignal<[string, string] | null>(null)
+  const [activeFile, setActiveFile] = createSignal<string | null>(null)
+
+  const instanceId = () => activeInstanceId()
+  const currentSessionId = () => {
+    const id = instanceId()
+    return id ? activeParentSessionId().get(id) : undefined
+  }
+
+  const forest = createMemo(() => {
+    const id = instanceId()
+    return id ? buildSessionTree(id) : []
+  })
+
+  const visibleRoots = createMemo(() => {
+    const current = currentSessionId()
+    const root = current && !showAll() ? findTreeRoot(forest(), current) : undefined
+    return root ? [root] : forest()
+  })
+
+  const titleOf = (sessionId: string) => {
+    const find = (nodes: SessionTreeNode[]): SessionTreeNode | undefined => {
+      for (const node of nodes) {
+        if (node.session.id === sessionId) return node
+        const match = find(node.children)
+        if (match) return match
+      }
+      return undefined
+    }
+    return find(forest())?.session.title ?? sessionId
+  }
+
+  // Start from a clean selection whenever the modal opens or the instance changes
+  createEffect(
+    on([sessionTreeOpen, instanceId], () => {
+      setSelected([])
+      setComparing(null)
+    }),
+  )
+
+  const toggleSelected = (sessionId: string) => {
+    setSelected((prev) => {
+      if (prev.includes(sessionId)) return prev.filter((id) => id !== sessionId)
+      return [...prev, sessionId].slice(-2)
+    })
+  }
+
+  const selectionComparable = () => {
+    const [a, b] = selected()
+    return Boolean(a && b && canCompareBranches(forest(), a, b))
+  }
+
+  const [comparison] = createResource(
+    () => {
+      const pair = comparing()
+      const id = instanceId()
+      return pair && id ? { instanceId: id, a: pair[0], b: pair[1] } : null
+    },
+    (source) => compareBranches(source.instanceId, source.a, source.b),
+  )
+
+  createEffect(() => {
+    const result = comparison()
+    if (!result) return
+    const firstChanged = result.files.find((file) => file.status !== "identical")
+    setActiveFile(firstChanged?.file ?? null)
+  })
+
+  const openSession = (node: SessionTreeNode) => {
+    const id = instanceId()
+    if (!id) return
+    if (node.session.parentId) {
+      setActiveParentSession(id, node.session.parentId)
+      setActiveSession(id, node.session.id)
+    } else {
+      setActiveParentSession(id, node.session.id)
+    }
+    closeSessionTree()
+  }
+
+  return (
+    <Dialog open={sessionTreeOpen()} onOpenChange={(open) => !open && closeSessionTree()}>
+      <Dialog.Portal>
+        <Dialog.Overlay class="fixed inset-0 z-40 bg-black/50" />
+        <div class="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[6vh]">
+          <Dialog.Content class="w-full max-w-6xl rounded-lg flex flex-col bg-background border border-border shadow-xl h-[85vh]">
+            <div class="flex items-center justify-between px-4 py-3 border-b border-border">
+              <Dialog.Title class="text-base font-semibold text-foreground">Session Tree</Dialog.Title>
+              <Dialog.CloseButton
+                class="p-1 rounded transition-colors text-muted-foreground hover:bg-accent hover:text-foreground"
+                aria-label="Close"
+              >
+                <X class="w-4 h-4" />
+              </Dialog.CloseButton>
+            </div>
+
+            <div class="flex flex-1 min-h-0">
+              <div class="flex flex-col w-[380px] flex-shrink-0 border-r border-border min-h-0">
+                <div class="flex items-center gap-2 px-3 py-2 border-b border-border text-xs text-muted-foreground">
+                  <label class="flex items-center gap-1.5">
+                    <input type="checkbox" checked={showAll()} onChange={(event) => setShowAll(event.currentTarget.checked)} />
+                    All sessions
+                  </label>
+                  <button
+                    type="button"
+                    class="ml-auto inline-flex items-center gap-1 rounded px-2 py-1 text-foreground bg-secondary hover:bg-accent disabled:opacity-50"
+                    disabled={!selectionComparable()}
+                    title={selected().length === 2 && !selectionComparable() ? "Pick two sibling branches" : "Compare the selected branches"}
+                    onClick={() => {
+                      const [a, b] = selected()
+                      setComparing([a, b])
+                    }}
+                  >
+                    <GitCompare class="w-3.5 h-3.5" />
+                    Compare
+                  </button>
+                </div>
+                <div class="flex-1 overflow-y-auto py-1">
+                  <Show
+                    when={visibleRoots().length > 0}
+                    fallback={<p class="px-4 py-8 text-center text-sm text-muted-foreground">No sessions yet</p>}
+                  >
+                    <For each={visibleRoots()}>
+                      {(node) => (
+                        <TreeNodeRow
+                          instanceId={instanceId()!}
+                          node={node}
+                          depth={0}
+                          currentSessionId={currentSessionId()}
+                          selected={selected()}
+                          onToggle={toggleSelected}
+                          onOpen={openSession}
+                        />
+                      )}
+                    </For>
+                  </Show>
+                </div>
+              </div>
+
+              <div class="flex flex-col flex-1 min-w-0 min-h-0">
+                <Show
+                  when={comparing()}
+                  fallback={
+                    <p class="m-auto px-8 text-center text-sm text-muted-foreground">
+                      Select two sibling branches (or a fork and its source) and press Compare to see how they differ.
+                    </p>
+                  }
+                >
+                  {(pair) => (
+                    <Show
+                      when={comparison()}
+                      fallback={
+                        <Show
+                          when={comparison.error}
+                          fallback={
+                            <div class="m-auto flex items-center gap-2 text-sm text-muted-foreground">
+                              <Loader2 class="w-5 h-5 animate-spin" />
+                              Loading branches...
+                            </div>
+                          }
+                        >
+                          <p class="m-auto text-sm text-destructive">
+                            {comparison.error instanceof Error ? comparison.error.message : String(comparison.error)}
+                          </p>
+                        </Show>
+                      }
+                    >
+                      {(result) => (
+                        <>
+                          <div class="grid grid-cols-2 gap-2 px-4 py-2 border-b border-border text-xs">
+                            <span class="truncate">
+                              <span class="font-semibold text-info">A</span> {titleOf(pair()[0])}
+                            </span>
+                            <span class="truncate">
+                              <span class="font-semibold text-success">B</span> {titleOf(pair()[1])}
+                            </span>
+                          </div>
+                          <div class="flex flex-1 min-h-0">
+                            <div class="w-56 flex-shrink-0 border-r border-border overflow-y-auto">
+                              <Show
+                                when={result().files.length > 0}
+                                fallback={<p class="px-3 py-4 text-xs text-muted-foreground">Neither branch changed files</p>}
+                              >
+                                <For each={result().files}>
+                                  {(file) => (
+                                    <button
+                                      type="button"
+                                      class={cn(
+                                        "flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs hover:bg-accent",
+                                        activeFile() === file.file && "bg-accent",
+                                      )}
+                                      onClick={() => setActiveFile(file.file)}
+                                      title={file.file}
+                                    >
+                                      <span class="flex-1 truncate font-mono text-foreground">{file.file}</span>
+                                      <span class={cn("flex-shrink-0", FILE_STATUS_LABELS[file.status].class)}>
+                                        {FILE_STATUS_LABELS[file.status].label}
+                                      </span>
+                                    </button>
+                                  )}
+                                </For>
+                              </Show>
+                            </div>
+                            <div class="flex-1 min-w-0 overflow-auto">
+                              <Show when={result().files.find((file) => file.file === activeFile())}>
+                                {(file) => <BranchFileDiff file={file()} />}
+                              </Show>
+                            </div>
+                          </div>
+                          <div class="h-[38%] flex-shrink-0 border-t border-border flex flex-col min-h-0">
+                            <p class="px-4 py-1.5 text-xs text-muted-foreground border-b border-border">
+                              Transcripts after {result().sharedMessages} shared message{result().sharedMessages === 1 ? "" : "s"}
+                            </p>
+                            <div class="grid grid-cols-2 flex-1 min-h-0 divide-x divide-border">
+                              <Transcript entries={result().transcriptA} />
+                              <Transcript entries={result().transcriptB} />
+                            </div>
+                          </div>
+                        </>
+                      )}
+                    </Show>
+                  )}
+                </Show>
+              </div>
+            </div>
+          </Dialog.Content>
+        </div>
+      </Dialog.Portal>
+    </Dialog>
+  )
+}
+
+interface TreeNodeRowProps {
+  instanceId: string
+  node: SessionTreeNode
+  depth: number
+  currentSessionId?: string
+  selected: string[]
+  onToggle: (sessionId: string) => void
+  onOpen: (node: SessionTreeNode) => void
+}
+
+const TreeNodeRow: Component<TreeNodeRowProps> = (props) => {
+  // Stats load lazily per row and reload when the session changes
+  createEffect(() => {
+    void props.node.session.time.updated
+    void loadBranch(props.instanceId, props.node.session.id).catch(() => undefined)
+  })
+
+  const stats = () => getBranchStats(props.instanceId, props.node.session.id)
+  const isSelected = () => props.selected.includes(props.node.session.id)
+
+  return (
+    <>
+      <div
+        class={cn(
+          "flex items-start gap-2 pr-3 py-1.5 text-xs hover:bg-accent/50",
+          props.node.session.id === props.currentSessionId && "bg-accent/30",
+        )}
+        style={{ "padding-left": `${12 + props.depth * 16}px` }}
+      >
+        <input
+          type="checkbox"
+          class="mt-0.5"
+          checked={isSelected()}
+          onChange={() => props.onToggle(props.node.session.id)}
+          aria-label="Select for comparison"
+        />
+        <span class="mt-0.5 text-muted-foreground flex-shrink-0">
+          <Show
+            when={props.node.kind === "fork"}
+            fallback={props.node.kind === "subagent" ? <Bot class="w-3.5 h-3.5" /> : <MessageSquare class="w-3.5 h-3.5" />}
+          >
+            <GitBranch class="w-3.5 h-3.5" />
+          </Show>
+        </span>
+        <div class="flex-1 min-w-0">
+          <button
+            type="button"
+            class="flex w-full items-center gap-1.5 text-left text-foreground hover:underline"
+            onClick={() => props.onOpen(props.node)}
+            title={props.node.session.title}
+          >
+            <span
+              class={cn(
+                "w-1.5 h-1.5 rounded-full flex-shrink-0",
+                props.node.session.status === "idle" ? "bg-muted-foreground" : "bg-info animate-pulse",
+              )}
+              title={props.node.session.status}
+            />
+            <span class="truncate">{props.node.session.title}</span>
+          </button>
+          <div class="flex flex-wrap items-center gap-x-2 text-muted-foreground">
+            <Show when={stats()} fallback={<span>loading...</span>}>
+              {(branch) => (
+                <>
+                  <span title="Cost">{formatCost(branch().cost)}</span>
+                  <span title="Input / output tokens">
+                    {formatTokenTotal(branch().inputTokens)} / {formatTokenTotal(branch().outputTokens)} tok
+                  </span>
+                  <Show when={branch().files.length > 0}>
+                    <span title={branch().files.map((file) => file.file).join("\n")}>
+                      {branch().files.length} file{branch().files.length === 1 ? "" : "s"}{" "}
+                      <span class="text-success">+{branch().additions}</span>{" "}
+                      <span class="text-destructive">-{branch().deletions}</span>
+                    </span>
+                  </Show>
+                </>
+              )}
+            </Show>
+          </div>
+        </div>
+      </div>
+      <For each={props.node.children}>
+        {(child) => (
+          <TreeNodeRow
+            instanceId={props.instanceId}
+            node={child}
+            depth={props.depth + 1}
+            currentSessionId={props.currentSessionId}
+            selected={props.selected}
+            onToggle={props.onToggle}
+            onOpen={props.onOpen}
+          />
+        )}
+      </For>
+    </>
+  )
+}
+
+const BranchFileDiff: Component<{ file: BranchFileComparison }> = (props) => {
+  const { isDark } = useTheme()
+  const { preferences } = useConfig()
+
+  const data = createMemo(() => {
+    const lang = (getLanguageFromPath(props.file.file) || "text") as DiffHighlighterLang
+    return {
+      oldFile: { fileName: props.file.file, fileLang: lang, content: props.file.contentA },
+      newFile: { fileName: props.file.file, fileLang: lang, content: props.file.contentB },
+      hunks: [props.file.diffText],
+    }
+  })
+
+  return (
+    <Show
+      when={props.file.diffText}
+      fallback={<p class="px-4 py-8 text-center text-sm text-muted-foreground">Both branches end with the same content</p>}
+    >
+      <div class="tool-call-diff-viewer">
+        <ErrorBoundary fallback={<pre class="tool-call-diff-fallback">{props.file.diffText}</pre>}>
+          <DiffView
+            data={data()}
+            diffViewMode={(preferences().diffViewMode || "split") === "split" ? DiffModeEnum.Split : DiffModeEnum.Unified}
+            diffViewTheme={isDark() ? "dark" : "light"}
+            diffViewHighlight
+            diffViewWrap={false}
+            diffViewFontSize={13}
+          />
+        </ErrorBoundary>
+      </div>
+    </Show>
+  )
+}
+
+const Transcript: Component<{ entries: TranscriptEntry[] }> = (props) => (
+  <div class="overflow-y-auto px-3 py-2 space-y-2 min-h-0">
+    <Show when={props.entries.length > 0} fallback={<p class="text-xs text-muted-foreground italic">No further messages</p>}>
+      <For each={props.entries}>
+        {(entry) => (
+          <div class="text-xs">
+            <div class={cn("font-medium", entry.role === "user" ? "text-info" : "text-muted-foreground")}>
+              {entry.role === "user" ? "User" : "Assistant"}
+              <Show when={entry.tools.length > 0}>
+                <span class="font-normal"> · {entry.tools.join(", ")}</span>
+              </Show>
+            </div>
+            <Show when={entry.text}>
+              <p class="whitespace-pre-wrap break-words text-foreground line-clamp-[12]">{entry.text}</p>
+            </Show>
+          </div>
+        )}
+      </For>
+    </Show>
+  </div>
+)
+
+export default SessionTreeModal
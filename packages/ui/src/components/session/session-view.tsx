@@ -14,6 +14,7 @@ import { loadMessages, sendMessage, forkSession, isSessionMessagesLoading, setAc
 import { getActiveQuestion } from "../../stores/question-store"
 import { isSessionBusy as getSessionBusyStatus } from "../../stores/session-status"
 import { showAlertDialog } from "../../stores/alerts"
+import { sessionDirectoryQuery } from "../../stores/worktrees"
 import { getLogger } from "../../lib/logger"
 
 const log = getLogger("session")
@@ -169,6 +170,7 @@ export const SessionView: Component<SessionViewProps> = (props) => {
     try {
       await instance.client.session.revert({
         path: { id: props.sessionId },
+        query: sessionDirectoryQuery(props.instanceId, props.sessionId),
         body: { messageID: messageId },
       })
 
@@ -1,11 +1,16 @@
 import { Component, createSignal, createEffect, For, Show, onCleanup, createMemo } from "solid-js"
 import type { Command as SDKCommand } from "@opencode-ai/sdk"
+import type { PromptTemplate } from "../../../server/src/api-types"
 import { getCommands } from "../stores/commands"
+import { FileText } from "lucide-solid"
 import { cn } from "../lib/cn"
 
 interface SlashCommandPickerProps {
   open: boolean
   onSelect: (command: SDKCommand, args: string) => void
+  /** Prompt templates listed after the commands */
+  templates?: PromptTemplate[]
+  onSelectTemplate?: (template: PromptTemplate) => void
   onClose: () => void
   searchQuery: string
   instanceId: string
@@ -32,6 +37,20 @@ const SlashCommandPicker: Component<SlashCommandPickerProps> = (props) => {
     })
   })
 
+  const filteredTemplates = createMemo(() => {
+    const templates = props.templates ?? []
+    const query = props.searchQuery.toLowerCase()
+
+    if (!query) return templates
+
+    return templates.filter(
+      (template) => template.name.toLowerCase().includes(query) || template.description.toLowerCase().includes(query),
+    )
+  })
+
+  // Commands first, then templates; selectedIndex runs across both
+  const itemCount = () => filteredCommands().length + filteredTemplates().length
+
   createEffect(() => {
     if (!props.open) return
     setSelectedIndex(0)
@@ -40,6 +59,7 @@ const SlashCommandPicker: Component<SlashCommandPickerProps> = (props) => {
   createEffect(() => {
     // Reset selection when filter changes
     const _ = filteredCommands()
+    const __ = filteredTemplates()
     setSelectedIndex(0)
   })
 
@@ -56,15 +76,23 @@ const SlashCommandPicker: Component<SlashCommandPickerProps> = (props) => {
     props.onSelect(command, "")
   }
 
+  function selectIndex(index: number) {
+    const commands = filteredCommands()
+    if (index < commands.length) {
+      handleSelect(commands[index])
+      return
+    }
+    const template = filteredTemplates()[index - commands.length]
+    if (template) props.onSelectTemplate?.(template)
+  }
+
   function handleKeyDown(e: KeyboardEvent) {
     if (!props.open) return
 
-    const commands = filteredCommands()
-
     if (e.key === "ArrowDown") {
       e.preventDefault()
       e.stopPropagation()
-      setSelectedIndex((prev) => Math.min(prev + 1, commands.length - 1))
+      setSelectedIndex((prev) => Math.min(prev + 1, itemCount() - 1))
       scrollToSelected()
     } else if (e.key === "ArrowUp") {
       e.preventDefault()
@@ -74,10 +102,7 @@ const SlashCommandPicker: Component<SlashCommandPickerProps> = (props) => {
     } else if (e.key === "Enter" && !e.metaKey && !e.ctrlKey) {
       e.preventDefault()
       e.stopPropagation()
-      const selected = commands[selectedIndex()]
-      if (selected) {
-        handleSelect(selected)
-      }
+      selectIndex(selectedIndex())
     } else if (e.key === "Escape") {
       e.preventDefault()
       e.stopPropagation()
@@ -85,10 +110,7 @@ const SlashCommandPicker: Component<SlashCommandPickerProps> = (props) => {
     } else if (e.key === "Tab") {
       e.preventDefault()
       e.stopPropagation()
-      const selected = commands[selectedIndex()]
-      if (selected) {
-        handleSelect(selected)
-      }
+      selectIndex(selectedIndex())
     }
   }
 
@@ -101,7 +123,6 @@ const SlashCommandPicker: Component<SlashCommandPickerProps> = (props) => {
     }
   })
 
-  const commandCount = () => filteredCommands().length
 
   return (
     <Show when={props.open}>
@@ -115,7 +136,7 @@ const SlashCommandPicker: Component<SlashCommandPickerProps> = (props) => {
         </div>
 
         <div ref={scrollContainerRef} class="overflow-y-auto max-h-60">
-          <Show when={commandCount() === 0}>
+          <Show when={itemCount() === 0}>
             <div class="px-3 py-4 text-center text-sm text-muted-foreground">No commands found</div>
           </Show>
 
@@ -160,6 +181,42 @@ const SlashCommandPicker: Component<SlashCommandPickerProps> = (props) => {
               </div>
             )}
           </For>
+
+          <Show when={filteredTemplates().length > 0}>
+            <div class="px-3 py-1 border-y border-border bg-secondary text-xs font-medium text-muted-foreground">
+              Templates
+            </div>
+          </Show>
+
+          <For each={filteredTemplates()}>
+            {(template, index) => {
+              const itemIndex = () => filteredCommands().length + index()
+              return (
+                <div
+                  class={cn(
+                    "cursor-pointer px-3 py-2 transition-colors text-foreground",
+                    itemIndex() === selectedIndex() ? "bg-accent" : "hover:bg-accent"
+                  )}
+                  data-picker-selected={itemIndex() === selectedIndex()}
+                  data-testid={`slash-template-${template.name}`}
+                  onClick={() => props.onSelectTemplate?.(template)}
+                >
+                  <div class="flex items-start gap-2">
+                    <FileText class="h-4 w-4 mt-0.5 text-success" />
+                    <div class="flex-1">
+                      <div class="flex items-center gap-2">
+                        <span class="text-sm font-medium">/{template.name}</span>
+                        <span class="text-[10px] uppercase tracking-wide text-muted-foreground">{template.source}</span>
+                      </div>
+                      <div class="mt-0.5 text-xs text-muted-foreground">
+                        {(template.description || template.body).slice(0, 100)}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )
+            }}
+          </For>
         </div>
 
         <div class="border-t border-border px-3 py-2 text-xs text-muted-foreground">
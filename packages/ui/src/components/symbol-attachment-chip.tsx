@@ -0,0 +1,79 @@
+import { Component, Show, createResource, createSignal } from "solid-js"
+import { Popover } from "@kobalte/core/popover"
+import { X } from "lucide-solid"
+import type { Attachment, SymbolSource } from "../types/attachment"
+import { serverApi } from "../lib/api-client"
+import { getLanguageFromPath } from "../lib/markdown"
+import { symbolKindIcon, symbolKindLabel } from "../lib/symbol-kinds"
+import { CodeBlockInline } from "./code-block-inline"
+
+interface SymbolAttachmentChipProps {
+  attachment: Attachment & { source: SymbolSource }
+  workspaceId: string
+  onRemove: () => void
+}
+
+/**
+ * Prompt chip for an attached symbol. Clicking it previews the exact range
+ * that is sent with the prompt.
+ */
+const SymbolAttachmentChip: Component<SymbolAttachmentChipProps> = (props) => {
+  const [open, setOpen] = createSignal(false)
+  const source = () => props.attachment.source
+  const Icon = symbolKindIcon(props.attachment.source.kind)
+  const location = () => `${source().path}:${source().range.start.line + 1}-${source().range.end.line + 1}`
+
+  // Loaded on first open only
+  const [snippet] = createResource(
+    () => (open() ? source() : null),
+    async (symbol) => {
+      const file = await serverApi.readWorkspaceFile(props.workspaceId, symbol.path)
+      return file.contents
+        .split("\n")
+        .slice(symbol.range.start.line, symbol.range.end.line + 1)
+        .join("\n")
+    },
+  )
+
+  return (
+    <div class="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium ring-1 ring-inset bg-info/10 text-info ring-info/10 rounded-md">
+      <Popover open={open()} onOpenChange={setOpen} placement="top-start">
+        <Popover.Trigger
+          class="inline-flex items-center gap-1.5"
+          title={`${symbolKindLabel(source().kind)} · ${location()}`}
+        >
+          <Icon class="h-3 w-3" />
+          <span>{source().name}</span>
+        </Popover.Trigger>
+        <Popover.Portal>
+          <Popover.Content class="rounded-md shadow-lg overflow-hidden w-[560px] max-w-[90vw] bg-background border border-border z-[2200]">
+            <div class="flex items-center gap-2 px-3 py-1.5 border-b border-border text-xs">
+              <span class="font-medium text-foreground">{source().name}</span>
+              <span class="text-muted-foreground">{symbolKindLabel(source().kind)}</span>
+              <span class="ml-auto truncate text-muted-foreground">{location()}</span>
+            </div>
+            <div class="max-h-80 overflow-auto">
+              <Show
+                when={!snippet.error}
+                fallback={<p class="px-3 py-2 text-xs text-destructive">Unable to read {source().path}</p>}
+              >
+                <Show when={snippet()} fallback={<p class="px-3 py-2 text-xs text-muted-foreground">Loading...</p>}>
+                  {(code) => <CodeBlockInline code={code()} language={getLanguageFromPath(source().path)} />}
+                </Show>
+              </Show>
+            </div>
+          </Popover.Content>
+        </Popover.Portal>
+      </Popover>
+      <button
+        onClick={() => props.onRemove()}
+        class="ml-0.5 flex h-4 w-4 items-center justify-center rounded transition-colors hover:bg-info/10"
+        aria-label="Remove attachment"
+      >
+        <X class="h-3 w-3" />
+      </button>
+    </div>
+  )
+}
+
+export default SymbolAttachmentChip
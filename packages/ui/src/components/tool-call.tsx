@@ -1050,7 +1050,7 @@ export default function ToolCall(props: ToolCallProps) {
         return selected
       })
 
-      await replyToQuestion(props.instanceId, question.id, answers)
+      await replyToQuestion(props.instanceId, question.sessionID, question.id, answers)
       setQuestionAnswers(new Map())
       setQuestionCustomText(new Map())
     } catch (error) {
@@ -1069,7 +1069,7 @@ export default function ToolCall(props: ToolCallProps) {
     setQuestionError(null)
 
     try {
-      await rejectQuestion(props.instanceId, question.id)
+      await rejectQuestion(props.instanceId, question.sessionID, question.id)
       setQuestionAnswers(new Map())
       setQuestionCustomText(new Map())
     } catch (error) {
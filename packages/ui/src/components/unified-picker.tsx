@@ -1,14 +1,18 @@
 import { Component, createSignal, createEffect, For, Show, onCleanup } from "solid-js"
 import type { Agent } from "../types/session"
+import type { SymbolRange } from "../types/attachment"
 import type { OpencodeClient } from "@opencode-ai/sdk/client"
 import { serverApi } from "../lib/api-client"
 import { getLogger } from "../lib/logger"
 import { cn } from "../lib/cn"
+import { symbolKindIcon, symbolKindLabel } from "../lib/symbol-kinds"
 const log = getLogger("actions")
 
 
 const SEARCH_RESULT_LIMIT = 100
 const SEARCH_DEBOUNCE_MS = 200
+const SYMBOL_RESULT_LIMIT = 10
+const SYMBOL_MIN_QUERY_LENGTH = 2
 
 type LoadingState = "idle" | "listing" | "search"
 
@@ -21,6 +25,14 @@ interface FileItem {
   isDirectory: boolean
 }
 
+interface SymbolItem {
+  name: string
+  kind: number
+  /** Relative to the workspace when the symbol is inside it */
+  path: string
+  range: SymbolRange
+}
+
 function formatDisplayPath(basePath: string, isDirectory: boolean) {
   if (!isDirectory) {
     return basePath
@@ -68,7 +80,35 @@ function mapEntriesToFileItems(entries: { path: string; type: "file" | "director
   })
 }
 
-type PickerItem = { type: "agent"; agent: Agent } | { type: "file"; file: FileItem }
+function mapWorkspaceSymbols(
+  symbols: { name: string; kind: number; location: { uri: string; range: { start: { line: number; character: number }; end: { line: number; character: number } } } }[],
+  workspaceRoot: string,
+): SymbolItem[] {
+  const root = workspaceRoot.replace(/\/+$/, "")
+  const seen = new Set<string>()
+  const items: SymbolItem[] = []
+  for (const symbol of symbols) {
+    const absolutePath = decodeURIComponent(symbol.location.uri.replace(/^file:\/\//, ""))
+    const path = root && absolutePath.startsWith(`${root}/`) ? absolutePath.slice(root.length + 1) : absolutePath
+    const { start, end } = symbol.location.range
+    const key = `${path}:${start.line}:${symbol.name}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    items.push({
+      name: symbol.name,
+      kind: symbol.kind,
+      path,
+      range: { start: { line: start.line, char: start.character }, end: { line: end.line, char: end.character } },
+    })
+    if (items.length >= SYMBOL_RESULT_LIMIT) break
+  }
+  return items
+}
+
+type PickerItem =
+  | { type: "agent"; agent: Agent }
+  | { type: "symbol"; symbol: SymbolItem }
+  | { type: "file"; file: FileItem }
 
 interface UnifiedPickerProps {
   open: boolean
@@ -79,10 +119,13 @@ interface UnifiedPickerProps {
   searchQuery: string
   textareaRef?: HTMLTextAreaElement
   workspaceId: string
+  /** Project folder, used to show symbol paths relative to it */
+  workspaceFolder: string
 }
 
 const UnifiedPicker: Component<UnifiedPickerProps> = (props) => {
   const [files, setFiles] = createSignal<FileItem[]>([])
+  const [symbols, setSymbols] = createSignal<SymbolItem[]>([])
   const [filteredAgents, setFilteredAgents] = createSignal<Agent[]>([])
   const [selectedIndex, setSelectedIndex] = createSignal(0)
   const [loadingState, setLoadingState] = createSignal<LoadingState>("idle")
@@ -98,6 +141,8 @@ const UnifiedPicker: Component<UnifiedPickerProps> = (props) => {
   let inflightSnapshotPromise: Promise<FileItem[]> | null = null
   let activeRequestId = 0
   let queryDebounceTimer: ReturnType<typeof setTimeout> | null = null
+  let symbolDebounceTimer: ReturnType<typeof setTimeout> | null = null
+  let activeSymbolRequestId = 0
 
   function resetScrollPosition() {
     setTimeout(() => {
@@ -215,6 +260,32 @@ const UnifiedPicker: Component<UnifiedPickerProps> = (props) => {
     void loadFilesForQuery(rawQuery, workspaceId)
   }
 
+  /** Workspace symbols from the instance's language servers; file-path-like queries skip the lookup */
+  function scheduleLoadSymbols(rawQuery: string) {
+    if (symbolDebounceTimer) {
+      clearTimeout(symbolDebounceTimer)
+      symbolDebounceTimer = null
+    }
+    const query = normalizeQuery(rawQuery)
+    const requestId = ++activeSymbolRequestId
+    const client = props.instanceClient
+    if (!client || query.length < SYMBOL_MIN_QUERY_LENGTH || /[/\\.]/.test(query)) {
+      setSymbols([])
+      return
+    }
+    symbolDebounceTimer = setTimeout(async () => {
+      symbolDebounceTimer = null
+      try {
+        const response = await client.find.symbols({ query: { query } })
+        if (!props.open || requestId !== activeSymbolRequestId) return
+        setSymbols(mapWorkspaceSymbols(response.data ?? [], props.workspaceFolder))
+      } catch (error) {
+        log.warn(`[UnifiedPicker] Failed to search workspace symbols:`, error)
+        if (requestId === activeSymbolRequestId) setSymbols([])
+      }
+    }, SEARCH_DEBOUNCE_MS)
+  }
+
   function shouldApplyResults(requestId: number, workspaceId: string) {
     return props.open && workspaceId === props.workspaceId && requestId === activeRequestId
   }
@@ -226,6 +297,12 @@ const UnifiedPicker: Component<UnifiedPickerProps> = (props) => {
 
   function resetPickerState() {
     clearQueryDebounce()
+    if (symbolDebounceTimer) {
+      clearTimeout(symbolDebounceTimer)
+      symbolDebounceTimer = null
+    }
+    activeSymbolRequestId++
+    setSymbols([])
     setFiles([])
     setAllFiles([])
     setCachedWorkspaceId(null)
@@ -239,6 +316,7 @@ const UnifiedPicker: Component<UnifiedPickerProps> = (props) => {
 
   onCleanup(() => {
     clearQueryDebounce()
+    if (symbolDebounceTimer) clearTimeout(symbolDebounceTimer)
   })
 
   createEffect(() => {
@@ -256,6 +334,7 @@ const UnifiedPicker: Component<UnifiedPickerProps> = (props) => {
       lastQuery = props.searchQuery
       const shouldSkipDebounce = workspaceChanged || normalizeQuery(props.searchQuery).length === 0
       scheduleLoadFilesForQuery(props.searchQuery, props.workspaceId, shouldSkipDebounce)
+      scheduleLoadSymbols(props.searchQuery)
     }
   })
 
@@ -279,6 +358,7 @@ const UnifiedPicker: Component<UnifiedPickerProps> = (props) => {
   const allItems = (): PickerItem[] => {
     const items: PickerItem[] = []
     filteredAgents().forEach((agent) => items.push({ type: "agent", agent }))
+    symbols().forEach((symbol) => items.push({ type: "symbol", symbol }))
     files().forEach((file) => items.push({ type: "file", file }))
     return items
   }
@@ -331,6 +411,7 @@ const UnifiedPicker: Component<UnifiedPickerProps> = (props) => {
   })
 
   const agentCount = () => filteredAgents().length
+  const symbolCount = () => symbols().length
   const fileCount = () => files().length
   const isLoading = () => loadingState() !== "idle"
   const loadingMessage = () => {
@@ -352,7 +433,7 @@ const UnifiedPicker: Component<UnifiedPickerProps> = (props) => {
       >
         <div class="px-3 py-2 border-b border-border bg-secondary">
           <div class="text-xs font-medium text-muted-foreground">
-            Select Agent or File
+            Select Agent, Symbol or File
             <Show when={isLoading()}>
               <span class="ml-2">{loadingMessage()}</span>
             </Show>
@@ -360,7 +441,7 @@ const UnifiedPicker: Component<UnifiedPickerProps> = (props) => {
         </div>
 
         <div ref={scrollContainerRef} class="overflow-y-auto max-h-60">
-          <Show when={agentCount() === 0 && fileCount() === 0}>
+          <Show when={agentCount() === 0 && symbolCount() === 0 && fileCount() === 0}>
             <div class="px-3 py-4 text-center text-sm text-muted-foreground">No results found</div>
           </Show>
 
@@ -420,6 +501,37 @@ const UnifiedPicker: Component<UnifiedPickerProps> = (props) => {
             </For>
           </Show>
 
+          <Show when={symbolCount() > 0}>
+            <div class="px-3 py-1.5 text-xs font-semibold text-muted-foreground bg-secondary">
+              SYMBOLS
+            </div>
+            <For each={symbols()}>
+              {(symbol) => {
+                const itemIndex = allItems().findIndex((item) => item.type === "symbol" && item.symbol === symbol)
+                const Icon = symbolKindIcon(symbol.kind)
+                return (
+                  <div
+                    class={cn(
+                      "cursor-pointer px-3 py-1.5 transition-colors text-foreground",
+                      itemIndex === selectedIndex() ? "bg-accent" : "hover:bg-accent"
+                    )}
+                    data-picker-selected={itemIndex === selectedIndex()}
+                    onClick={() => handleSelect({ type: "symbol", symbol })}
+                    title={`${symbolKindLabel(symbol.kind)} · ${symbol.path}:${symbol.range.start.line + 1}`}
+                  >
+                    <div class="flex items-center gap-2 text-sm min-w-0">
+                      <Icon class="flex-shrink-0 text-info h-4 w-4" />
+                      <span class="font-medium truncate">{symbol.name}</span>
+                      <span class="ml-auto truncate text-xs text-muted-foreground">
+                        {symbol.path}:{symbol.range.start.line + 1}
+                      </span>
+                    </div>
+                  </div>
+                )
+              }}
+            </For>
+          </Show>
+
           <Show when={fileCount() > 0}>
             <div class="px-3 py-1.5 text-xs font-semibold text-muted-foreground bg-secondary">
               FILES
@@ -0,0 +1,348 @@
+import { Component, For, Show, createMemo, createResource, createSignal } from "solid-js"
+import { AlertTriangle, Download, RefreshCw } from "lucide-solid"
+import type {
+  UsageBreakdownEntry,
+  UsageBudgetPeriod,
+  UsageDayEntry,
+  UsageTotals,
+} from "../../../server/src/api-types"
+import { cn } from "../lib/cn"
+import { useConfig } from "../stores/preferences"
+import { fetchUsageAnalytics, usageCsvUrl, useUsageBudget } from "../stores/usage-analytics"
+import { Button, Separator, Switch } from "./ui"
+
+const RANGES = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+]
+
+type Breakdown = "byModel" | "byProvider" | "byAgent" | "byProject"
+
+const BREAKDOWNS: { id: Breakdown; label: string }[] = [
+  { id: "byModel", label: "Model" },
+  { id: "byProvider", label: "Provider" },
+  { id: "byAgent", label: "Agent" },
+  { id: "byProject", label: "Project" },
+]
+
+function localDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function formatCost(cost: number): string {
+  return cost >= 100 ? `$${cost.toFixed(0)}` : `$${cost.toFixed(2)}`
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`
+  return String(count)
+}
+
+function totalTokens(totals: UsageTotals): number {
+  return totals.inputTokens + totals.outputTokens + totals.reasoningTokens + totals.cacheReadTokens + totals.cacheWriteTokens
+}
+
+/** Parses a budget input: blank or non-positive means no limit */
+function parseLimit(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+const UsageAnalyticsPanel: Component = () => {
+  const { preferences, setUsageBudgets } = useConfig()
+  const budget = useUsageBudget()
+  const [rangeDays, setRangeDays] = createSignal(30)
+  const [project, setProject] = createSignal("")
+  const [breakdown, setBreakdown] = createSignal<Breakdown>("byModel")
+  // Projects seen across unfiltered loads, so the filter keeps its options once one is picked
+  const [knownProjects, setKnownProjects] = createSignal<UsageBreakdownEntry[]>([])
+
+  const query = createMemo(() => {
+    const from = new Date()
+    from.setDate(from.getDate() - (rangeDays() - 1))
+    return { from: localDay(from), to: localDay(new Date()), project: project() || undefined }
+  })
+
+  const [usage, { refetch }] = createResource(query, async (current) => {
+    const data = await fetchUsageAnalytics(current)
+    if (!current.project) setKnownProjects(data.byProject)
+    return data
+  })
+
+  const maxDayCost = createMemo(() => Math.max(0, ...(usage()?.byDay ?? []).map((day) => day.cost)))
+  const breakdownEntries = createMemo(() => usage()?.[breakdown()] ?? [])
+  const maxBreakdownCost = createMemo(() => Math.max(0, ...breakdownEntries().map((entry) => entry.cost)))
+
+  return (
+    <div class="mb-8">
+      <h2 class="text-xl font-semibold text-foreground mb-1">Usage &amp; Budgets</h2>
+      <p class="text-sm text-muted-foreground mb-6">Cost and token usage across all projects, with spending limits</p>
+
+      <div class="mb-6">
+        <h3 class="text-base font-medium text-foreground mb-3 pb-2 border-b border-border">Budgets</h3>
+
+        <Show when={budget()}>
+          {(status) => (
+            <div class="grid grid-cols-2 gap-3 mb-3">
+              <BudgetMeter label="Today" period={status().daily} />
+              <BudgetMeter label="This month" period={status().monthly} />
+            </div>
+          )}
+        </Show>
+
+        <div class="flex items-center justify-between py-3">
+          <div class="flex-1 min-w-0">
+            <div class="text-sm font-medium text-foreground mb-0.5">Daily budget</div>
+            <div class="text-xs text-muted-foreground">USD per day; leave blank for no limit</div>
+          </div>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            placeholder="None"
+            value={preferences().usageBudgets.daily ?? ""}
+            onChange={(e) => setUsageBudgets({ daily: parseLimit(e.currentTarget.value) })}
+            class="ml-4 w-24 px-2 py-1.5 rounded-md border border-border bg-secondary text-foreground text-sm font-mono text-center focus:outline-none focus:border-primary"
+          />
+        </div>
+
+        <div class="flex items-center justify-between py-3">
+          <div class="flex-1 min-w-0">
+            <div class="text-sm font-medium text-foreground mb-0.5">Monthly budget</div>
+            <div class="text-xs text-muted-foreground">USD per calendar month; leave blank for no limit</div>
+          </div>
+          <input
+            type="number"
+            min="0"
+            step="10"
+            placeholder="None"
+            value={preferences().usageBudgets.monthly ?? ""}
+            onChange={(e) => setUsageBudgets({ monthly: parseLimit(e.currentTarget.value) })}
+            class="ml-4 w-24 px-2 py-1.5 rounded-md border border-border bg-secondary text-foreground text-sm font-mono text-center focus:outline-none focus:border-primary"
+          />
+        </div>
+
+        <div class="flex items-center justify-between py-3">
+          <div class="flex-1 min-w-0">
+            <div class="text-sm font-medium text-foreground mb-0.5">Warn at</div>
+            <div class="text-xs text-muted-foreground">Percentage of a budget that triggers a warning</div>
+          </div>
+          <input
+            type="number"
+            min="10"
+            max="100"
+            step="5"
+            value={Math.round(preferences().usageBudgets.warnAt * 100)}
+            onChange={(e) => {
+              const val = parseInt(e.currentTarget.value, 10)
+              if (!isNaN(val)) setUsageBudgets({ warnAt: Math.min(100, Math.max(10, val)) / 100 })
+            }}
+            class="ml-4 w-24 px-2 py-1.5 rounded-md border border-border bg-secondary text-foreground text-sm font-mono text-center focus:outline-none focus:border-primary"
+          />
+        </div>
+
+        <div class="flex items-center justify-between py-3">
+          <div class="flex-1 min-w-0">
+            <div class="text-sm font-medium text-foreground mb-0.5">Hard stop</div>
+            <div class="text-xs text-muted-foreground">Refuse to send prompts while a budget is exceeded</div>
+          </div>
+          <Switch
+            checked={preferences().usageBudgets.hardStop}
+            onChange={(checked) => setUsageBudgets({ hardStop: checked })}
+            class="ml-4"
+          />
+        </div>
+      </div>
+
+      <Separator class="my-6" />
+
+      <div class="flex flex-wrap items-center gap-2 mb-4">
+        <div class="inline-flex rounded-md border border-border overflow-hidden">
+          <For each={RANGES}>
+            {(range) => (
+              <button
+                type="button"
+                class={cn(
+                  "px-3 py-1 text-xs transition-colors",
+                  rangeDays() === range.days ? "bg-accent text-foreground font-medium" : "text-muted-foreground hover:bg-accent",
+                )}
+                onClick={() => setRangeDays(range.days)}
+              >
+                {range.label}
+              </button>
+            )}
+          </For>
+        </div>
+        <select
+          value={project()}
+          onChange={(e) => setProject(e.currentTarget.value)}
+          class="px-2 py-1 rounded-md border border-border bg-secondary text-foreground text-xs max-w-[220px] focus:outline-none focus:border-primary"
+        >
+          <option value="">All projects</option>
+          <For each={knownProjects()}>{(entry) => <option value={entry.key}>{entry.label}</option>}</For>
+        </select>
+        <Button variant="ghost" size="sm" class="ml-auto" onClick={() => void refetch()} disabled={usage.loading}>
+          <RefreshCw class={cn("w-4 h-4", usage.loading && "animate-spin")} />
+        </Button>
+        <a
+          href={usageCsvUrl(query())}
+          download=""
+          class="inline-flex items-center gap-1 rounded px-2 py-1 text-xs text-foreground bg-secondary hover:bg-accent"
+        >
+          <Download class="w-3.5 h-3.5" />
+          CSV
+        </a>
+      </div>
+
+      <Show when={usage.error}>
+        <div class="flex items-center gap-2 rounded-md border border-destructive/40 px-3 py-2 mb-4 text-sm text-destructive">
+          <AlertTriangle class="w-4 h-4" />
+          Unable to load usage: {usage.error instanceof Error ? usage.error.message : String(usage.error)}
+        </div>
+      </Show>
+
+      <Show when={usage()}>
+        {(data) => (
+          <>
+            <div class="grid grid-cols-4 gap-3 mb-6">
+              <StatCard label="Cost" value={formatCost(data().totals.cost)} />
+              <StatCard label="Tokens" value={formatTokens(totalTokens(data().totals))} />
+              <StatCard label="Cached reads" value={formatTokens(data().totals.cacheReadTokens)} />
+              <StatCard label="Responses" value={String(data().totals.messages)} />
+            </div>
+
+            <h3 class="text-base font-medium text-foreground mb-3 pb-2 border-b border-border">Daily cost</h3>
+            <div class="flex items-end gap-px h-32 mb-1">
+              <For each={data().byDay}>
+                {(day) => <DayBar day={day} max={maxDayCost()} />}
+              </For>
+            </div>
+            <div class="flex justify-between text-[10px] text-muted-foreground mb-6">
+              <span>{data().from}</span>
+              <span>{data().to}</span>
+            </div>
+
+            <div class="flex items-center gap-2 mb-3 pb-2 border-b border-border">
+              <h3 class="text-base font-medium text-foreground">Cost by</h3>
+              <For each={BREAKDOWNS}>
+                {(option) => (
+                  <button
+                    type="button"
+                    class={cn(
+                      "rounded px-2 py-0.5 text-xs transition-colors",
+                      breakdown() === option.id ? "bg-accent text-foreground font-medium" : "text-muted-foreground hover:bg-accent",
+                    )}
+                    onClick={() => setBreakdown(option.id)}
+                  >
+                    {option.label}
+                  </button>
+                )}
+              </For>
+            </div>
+            <Show
+              when={breakdownEntries().length > 0}
+              fallback={<p class="py-4 text-center text-sm text-muted-foreground">No usage in this range</p>}
+            >
+              <div class="space-y-2 mb-6">
+                <For each={breakdownEntries()}>
+                  {(entry) => (
+                    <div title={entry.key}>
+                      <div class="flex items-center justify-between text-xs mb-0.5">
+                        <span class="text-foreground truncate">{entry.label}</span>
+                        <span class="text-muted-foreground font-mono ml-2 flex-shrink-0">
+                          {formatCost(entry.cost)} · {formatTokens(totalTokens(entry))} tokens
+                        </span>
+                      </div>
+                      <div class="h-1.5 rounded bg-secondary overflow-hidden">
+                        <div
+                          class="h-full bg-primary"
+                          style={{ width: `${maxBreakdownCost() > 0 ? (entry.cost / maxBreakdownCost()) * 100 : 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </For>
+              </div>
+            </Show>
+
+            <h3 class="text-base font-medium text-foreground mb-3 pb-2 border-b border-border">Top sessions</h3>
+            <Show
+              when={data().topSessions.length > 0}
+              fallback={<p class="py-4 text-center text-sm text-muted-foreground">No sessions in this range</p>}
+            >
+              <div class="divide-y divide-border border border-border rounded-lg">
+                <For each={data().topSessions}>
+                  {(session) => (
+                    <div class="flex items-center gap-3 px-3 py-2">
+                      <div class="flex-1 min-w-0">
+                        <div class="text-sm text-foreground truncate">{session.title || session.sessionId}</div>
+                        <div class="text-xs text-muted-foreground truncate">
+                          {session.project} · {new Date(session.lastActivity).toLocaleString()}
+                        </div>
+                      </div>
+                      <div class="text-right flex-shrink-0">
+                        <div class="text-sm font-mono text-foreground">{formatCost(session.cost)}</div>
+                        <div class="text-xs text-muted-foreground">{formatTokens(totalTokens(session))} tokens</div>
+                      </div>
+                    </div>
+                  )}
+                </For>
+              </div>
+            </Show>
+          </>
+        )}
+      </Show>
+    </div>
+  )
+}
+
+const StatCard: Component<{ label: string; value: string }> = (props) => (
+  <div class="rounded-lg border border-border px-3 py-2">
+    <div class="text-xs text-muted-foreground">{props.label}</div>
+    <div class="text-lg font-semibold text-foreground font-mono">{props.value}</div>
+  </div>
+)
+
+const DayBar: Component<{ day: UsageDayEntry; max: number }> = (props) => (
+  <div
+    class="flex-1 min-w-[2px] rounded-t bg-primary/70 hover:bg-primary transition-colors"
+    style={{ height: `${props.max > 0 ? Math.max(props.day.cost > 0 ? 2 : 0, (props.day.cost / props.max) * 100) : 0}%` }}
+    title={`${props.day.day}: ${formatCost(props.day.cost)} · ${formatTokens(totalTokens(props.day))} tokens · ${props.day.messages} responses`}
+  />
+)
+
+const BudgetMeter: Component<{ label: string; period: UsageBudgetPeriod }> = (props) => {
+  const ratio = () => (props.period.limit ? Math.min(1, props.period.spent / props.period.limit) : 0)
+  return (
+    <div class="rounded-lg border border-border px-3 py-2">
+      <div class="flex items-center justify-between text-xs mb-1">
+        <span class="text-muted-foreground">{props.label}</span>
+        <span
+          class={cn(
+            "font-mono",
+            props.period.state === "exceeded" ? "text-destructive" : props.period.state === "warning" ? "text-warning" : "text-foreground",
+          )}
+        >
+          {formatCost(props.period.spent)}
+          {props.period.limit !== null ? ` / ${formatCost(props.period.limit)}` : ""}
+        </span>
+      </div>
+      <Show when={props.period.limit !== null}>
+        <div class="h-1.5 rounded bg-secondary overflow-hidden">
+          <div
+            class={cn(
+              "h-full",
+              props.period.state === "exceeded" ? "bg-destructive" : props.period.state === "warning" ? "bg-warning" : "bg-primary",
+            )}
+            style={{ width: `${ratio() * 100}%` }}
+          />
+        </div>
+      </Show>
+    </div>
+  )
+}
+
+export default UsageAnalyticsPanel
@@ -0,0 +1,281 @@
+/**
+ * Worktree Merge Dialog
+ *
+ * Merges an isolated session's branch back into the branch it was created
+ * from. The preview lists the files the session changed and, for files the
+ * base branch changed as well, whether they merge cleanly.
+ */
+
+import { Component, For, Show, createEffect, createResource, createSignal, on } from "solid-js"
+import { Dialog } from "@kobalte/core/dialog"
+import { AlertTriangle, GitBranch, RefreshCw, X } from "lucide-solid"
+import type { WorktreeMergeFile, WorktreeMergeStrategy } from "../../../server/src/api-types"
+import { cn } from "../lib/cn"
+import { showToastNotification } from "../lib/notifications"
+import { sessions } from "../stores/session-state"
+import {
+  closeWorktreeMergeDialog,
+  fetchWorktreeMergePreview,
+  getSessionWorktree,
+  mergeSessionWorktree,
+  worktreeMergeDialog,
+} from "../stores/worktrees"
+import { Badge, Button } from "./ui"
+
+const STRATEGIES: Array<{ value: WorktreeMergeStrategy; label: string; description: string }> = [
+  { value: "squash", label: "Squash", description: "One commit with all of the session's changes" },
+  { value: "rebase", label: "Rebase", description: "Replay the session's commits on top of the base branch" },
+  { value: "fast-forward", label: "Fast-forward", description: "Only when the base branch has no new commits" },
+]
+
+const WorktreeMergeDialog: Component = () => {
+  const [strategy, setStrategy] = createSignal<WorktreeMergeStrategy>("squash")
+  const [message, setMessage] = createSignal("")
+  const [removeWorktree, setRemoveWorktree] = createSignal(true)
+  const [merging, setMerging] = createSignal(false)
+  const [mergeError, setMergeError] = createSignal<string | null>(null)
+
+  const target = () => worktreeMergeDialog()
+  const worktree = () => {
+    const current = target()
+    return current ? getSessionWorktree(current.instanceId, current.sessionId) : undefined
+  }
+
+  const [preview, { refetch }] = createResource(() => worktree()?.id, fetchWorktreeMergePreview)
+
+  // Fresh form for every session the dialog opens for
+  createEffect(
+    on(target, (current) => {
+      if (!current) return
+      const session = sessions().get(current.instanceId)?.get(current.sessionId)
+      setMessage(session?.title ?? "")
+      setStrategy("squash")
+      setRemoveWorktree(true)
+      setMergeError(null)
+    }),
+  )
+
+  // The base branch may move while the dialog is open
+  createEffect(() => {
+    if (preview() && !preview()!.canFastForward && strategy() === "fast-forward") {
+      setStrategy("squash")
+    }
+  })
+
+  const hasChanges = () => {
+    const current = preview()
+    return Boolean(current && current.sessionCommits + current.uncommittedFiles > 0)
+  }
+
+  const canMerge = () =>
+    !merging() &&
+    hasChanges() &&
+    !preview()?.hasConflicts &&
+    (strategy() !== "fast-forward" || Boolean(preview()?.canFastForward))
+
+  async function handleMerge(event?: Event) {
+    event?.preventDefault()
+    const current = worktree()
+    if (!current || !canMerge()) return
+    setMerging(true)
+    setMergeError(null)
+    try {
+      const result = await mergeSessionWorktree(current.id, {
+        strategy: strategy(),
+        message: message().trim() || undefined,
+        removeWorktree: removeWorktree(),
+      })
+      showToastNotification({
+        title: "Session merged",
+        message: `${current.branch} merged into ${current.baseBranch} (${result.commit.slice(0, 7)})`,
+        variant: "success",
+      })
+      closeWorktreeMergeDialog()
+    } catch (error) {
+      setMergeError(error instanceof Error ? error.message : "Merge failed")
+      void refetch()
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={Boolean(target())}
+      onOpenChange={(open) => {
+        if (!open) closeWorktreeMergeDialog()
+      }}
+    >
+      <Dialog.Portal>
+        <Dialog.Overlay class="fixed inset-0 z-40 bg-black/50" />
+        <div class="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[10vh]">
+          <Dialog.Content class="w-full max-w-2xl rounded-lg flex flex-col bg-background border border-border shadow-xl max-h-[80vh]">
+            <div class="flex items-center gap-3 px-4 py-3 border-b border-border">
+              <GitBranch class="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              <div class="min-w-0 flex-1">
+                <Dialog.Title class="text-base font-semibold text-foreground truncate">
+                  {worktree() ? `Merge ${worktree()!.branch} into ${worktree()!.baseBranch}` : "Merge Session Worktree"}
+                </Dialog.Title>
+                <Show when={worktree()}>
+                  <p class="text-xs text-muted-foreground truncate font-mono">{worktree()!.path}</p>
+                </Show>
+              </div>
+              <Show when={worktree()}>
+                <button
+                  type="button"
+                  class="p-1 rounded transition-colors text-muted-foreground hover:bg-accent hover:text-foreground"
+                  onClick={() => void refetch()}
+                  aria-label="Refresh preview"
+                  title="Refresh preview"
+                >
+                  <RefreshCw class={cn("w-4 h-4", preview.loading && "animate-spin")} />
+                </button>
+              </Show>
+              <Dialog.CloseButton
+                class="p-1 rounded transition-colors text-muted-foreground hover:bg-accent hover:text-foreground"
+                aria-label="Close"
+              >
+                <X class="w-4 h-4" />
+              </Dialog.CloseButton>
+            </div>
+
+            <Show
+              when={worktree()}
+              fallback={
+                <p class="px-4 py-8 text-center text-sm text-muted-foreground">
+                  This session shares the project checkout. Start an isolated session to work on its own branch.
+                </p>
+              }
+            >
+              <form class="flex-1 overflow-y-auto px-4 py-3 space-y-4" onSubmit={handleMerge}>
+                <Show when={preview.error}>
+                  <p class="text-sm text-destructive">
+                    {preview.error instanceof Error ? preview.error.message : "Failed to load the merge preview"}
+                  </p>
+                </Show>
+
+                <Show when={preview()}>
+                  {(current) => (
+                    <>
+                      <div class="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                        <Badge variant="outline">{current().sessionCommits} session commits</Badge>
+                        <Badge variant="outline">{current().uncommittedFiles} uncommitted files</Badge>
+                        <Badge variant="outline">
+                          {current().baseCommits} new on {current().worktree.baseBranch}
+                        </Badge>
+                      </div>
+
+                      <Show when={current().hasConflicts}>
+                        <div class="flex items-start gap-2 rounded-md border border-warning/40 bg-warning/10 px-3 py-2 text-xs text-foreground">
+                          <AlertTriangle class="w-4 h-4 text-warning flex-shrink-0" />
+                          <span>
+                            Some files were also changed on {current().worktree.baseBranch} with overlapping edits. Resolve them in
+                            the session (or rebase its worktree) and refresh.
+                          </span>
+                        </div>
+                      </Show>
+
+                      <Show
+                        when={current().files.length > 0}
+                        fallback={<p class="text-sm text-muted-foreground">The session has not changed any files.</p>}
+                      >
+                        <div class="divide-y divide-border border border-border rounded-md max-h-56 overflow-y-auto">
+                          <For each={current().files}>{(file) => <MergeFileRow file={file} />}</For>
+                        </div>
+                      </Show>
+                    </>
+                  )}
+                </Show>
+
+                <fieldset class="space-y-1.5">
+                  <legend class="text-xs font-medium text-foreground mb-1">Strategy</legend>
+                  <For each={STRATEGIES}>
+                    {(option) => {
+                      const disabled = () => option.value === "fast-forward" && !preview()?.canFastForward
+                      return (
+                        <label class={cn("flex items-start gap-2 text-sm", disabled() && "opacity-50")}>
+                          <input
+                            type="radio"
+                            name="worktree-merge-strategy"
+                            class="mt-1"
+                            checked={strategy() === option.value}
+                            disabled={disabled()}
+                            onChange={() => setStrategy(option.value)}
+                          />
+                          <span>
+                            <span class="font-medium text-foreground">{option.label}</span>
+                            <span class="block text-xs text-muted-foreground">{option.description}</span>
+                          </span>
+                        </label>
+                      )
+                    }}
+                  </For>
+                </fieldset>
+
+                <label class="block">
+                  <span class="block text-xs font-medium text-foreground mb-1">Commit message</span>
+                  <input
+                    type="text"
+                    value={message()}
+                    onInput={(e) => setMessage(e.currentTarget.value)}
+                    placeholder={`Merge isolated session ${worktree()!.branch}`}
+                    class="w-full px-2 py-1.5 rounded-md border border-border bg-secondary text-foreground text-sm focus:outline-none focus:border-primary"
+                  />
+                  <span class="block text-xs text-muted-foreground mt-1">
+                    Used for the squash commit and for committing the session's pending changes
+                  </span>
+                </label>
+
+                <label class="flex items-center gap-2 text-sm text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={removeWorktree()}
+                    onChange={(e) => setRemoveWorktree(e.currentTarget.checked)}
+                  />
+                  Remove the worktree and branch after merging
+                </label>
+
+                <Show when={mergeError()}>
+                  <p class="text-sm text-destructive">{mergeError()}</p>
+                </Show>
+
+                <div class="flex justify-end gap-2 pt-1">
+                  <Button type="button" variant="outline" onClick={() => closeWorktreeMergeDialog()}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={!canMerge()}>
+                    {merging() ? "Merging..." : "Merge"}
+                  </Button>
+                </div>
+              </form>
+            </Show>
+          </Dialog.Content>
+        </div>
+      </Dialog.Portal>
+    </Dialog>
+  )
+}
+
+const MergeFileRow: Component<{ file: WorktreeMergeFile }> = (props) => (
+  <div class="flex items-center gap-2 px-3 py-1.5 text-xs">
+    <span class="flex-1 min-w-0 truncate font-mono text-foreground" title={props.file.path}>
+      {props.file.path}
+    </span>
+    <span
+      class={cn(
+        "flex-shrink-0",
+        props.file.status === "conflict" && "text-destructive",
+        props.file.status === "merged" && "text-info",
+        props.file.status === "session" && "text-muted-foreground",
+      )}
+    >
+      {props.file.status === "conflict"
+        ? `${props.file.conflicts} conflict${props.file.conflicts === 1 ? "" : "s"}`
+        : props.file.status === "merged"
+          ? "merges cleanly"
+          : "session only"}
+    </span>
+  </div>
+)
+
+export default WorktreeMergeDialog
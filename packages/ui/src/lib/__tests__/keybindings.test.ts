@@ -0,0 +1,27 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { eventMatchesChord, type KeyChord } from "../keybindings"
+
+const press = (key: string, modifiers: Partial<Pick<KeyboardEvent, "ctrlKey" | "metaKey" | "shiftKey" | "altKey">>) =>
+  ({ key, code: "", ctrlKey: false, metaKey: false, shiftKey: false, altKey: false, ...modifiers }) as KeyboardEvent
+
+const cmdW: KeyChord = { key: "w", modifiers: { meta: true } }
+
+describe("eventMatchesChord", () => {
+  it("requires the exact modifiers by default", () => {
+    assert.equal(eventMatchesChord(press("w", { metaKey: true }), cmdW), true)
+    assert.equal(eventMatchesChord(press("w", { ctrlKey: true }), cmdW), false)
+  })
+
+  it("accepts Ctrl and Cmd alike with eitherModifier", () => {
+    assert.equal(eventMatchesChord(press("w", { metaKey: true }), cmdW, true), true)
+    assert.equal(eventMatchesChord(press("w", { ctrlKey: true }), cmdW, true), true)
+    assert.equal(eventMatchesChord(press("w", {}), cmdW, true), false)
+    assert.equal(eventMatchesChord(press("W", { ctrlKey: true, shiftKey: true }), cmdW, true), false)
+  })
+
+  it("leaves chords without Ctrl or Cmd unchanged with eitherModifier", () => {
+    const plain: KeyChord = { key: "g", modifiers: {} }
+    assert.equal(eventMatchesChord(press("g", { ctrlKey: true }), plain, true), false)
+  })
+})
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { SessionWorktree } from "../../../../server/src/api-types"
+import { resolveSessionWorktree, sessionOriginOf, worktreeDirectoryQuery } from "../session-directory"
+
+const worktree = {
+  id: "wt-1",
+  folder: "/work/shop",
+  repoRoot: "/work/shop",
+  path: "/work/.worktrees/shop-wt-1",
+  directory: "/work/.worktrees/shop-wt-1",
+  branch: "era/wt-1",
+  baseBranch: "main",
+  sessionId: "ses_isolated",
+} as SessionWorktree
+
+const parents: Record<string, string | null> = {
+  ses_isolated: null,
+  ses_subagent: "ses_isolated",
+  ses_main: null,
+  ses_fork: null,
+  ses_fork_subagent: "ses_fork",
+}
+const parentOf = (sessionId: string) => parents[sessionId]
+const originOf = sessionOriginOf(parentOf, { ses_fork: { sourceSessionId: "ses_isolated", forkedAt: 1 } })
+
+describe("session directory", () => {
+  it("routes requests of an isolated session to its worktree", () => {
+    // e.g. the permission reply request of the session
+    const query = worktreeDirectoryQuery(resolveSessionWorktree([worktree], "ses_isolated", parentOf))
+    assert.deepEqual(query, { directory: "/work/.worktrees/shop-wt-1" })
+  })
+
+  it("routes requests of a subagent to the worktree of the session that spawned it", () => {
+    assert.equal(resolveSessionWorktree([worktree], "ses_subagent", parentOf), worktree)
+  })
+
+  it("routes requests of a fork to the worktree of the session it was forked from", () => {
+    const query = worktreeDirectoryQuery(resolveSessionWorktree([worktree], "ses_fork", originOf))
+    assert.deepEqual(query, { directory: "/work/.worktrees/shop-wt-1" })
+    assert.equal(resolveSessionWorktree([worktree], "ses_fork_subagent", originOf), worktree)
+  })
+
+  it("leaves requests of other sessions to the instance folder", () => {
+    assert.equal(worktreeDirectoryQuery(resolveSessionWorktree([worktree], "ses_main", parentOf)), undefined)
+  })
+})
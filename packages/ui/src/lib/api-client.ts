@@ -1,5 +1,8 @@
 import type {
+  AccessTokenInfo,
+  AccessTokenSecret,
   AppConfig,
+  AuthStatusResponse,
   BinaryCreateRequest,
   BinaryListResponse,
   BinaryUpdateRequest,
@@ -15,6 +18,10 @@ import type {
   WorkspaceDescriptor,
   WorkspaceFileResponse,
   WorkspaceFileSearchResponse,
+  WorkspaceFileWriteRequest,
+  WorkspaceFileWriteResponse,
+  WorkspaceRestoreStateResponse,
+  WorkspaceSessionState,
 
   WorkspaceLogEntry,
   WorkspaceEventPayload,
@@ -57,6 +64,17 @@ function logHttp(message: string, context?: Record<string, unknown>) {
   httpLogger.info(message)
 }
 
+type UnauthorizedListener = () => void
+const unauthorizedListeners = new Set<UnauthorizedListener>()
+
+/**
+ * Subscribe to 401 responses from the server (remote clients without a valid token).
+ */
+export function onUnauthorized(listener: UnauthorizedListener): () => void {
+  unauthorizedListeners.add(listener)
+  return () => unauthorizedListeners.delete(listener)
+}
+
 async function request<T>(path: string, init?: RequestInit): Promise<T> {
   const url = API_BASE ? new URL(path, API_BASE).toString() : path
   const headers: HeadersInit = {
@@ -69,7 +87,10 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
   logHttp(`${method} ${path}`)
 
   try {
-    const response = await fetch(url, { ...init, headers })
+    const response = await fetch(url, { credentials: "include", ...init, headers })
+    if (response.status === 401 && !path.startsWith("/api/auth/")) {
+      unauthorizedListeners.forEach((listener) => listener())
+    }
     if (!response.ok) {
       const message = await response.text()
       logHttp(`${method} ${path} -> ${response.status}`, { durationMs: Date.now() - startedAt, error: message })
@@ -110,6 +131,24 @@ export const serverApi = {
   deleteWorkspace(id: string): Promise<void> {
     return request(`/api/workspaces/${encodeURIComponent(id)}`, { method: "DELETE" })
   },
+  startWorkspace(id: string): Promise<WorkspaceDescriptor> {
+    return request<WorkspaceDescriptor>(`/api/workspaces/${encodeURIComponent(id)}/start`, { method: "POST" })
+  },
+  fetchWorkspaceRestoreState(): Promise<WorkspaceRestoreStateResponse> {
+    return request<WorkspaceRestoreStateResponse>("/api/workspaces/restore-state")
+  },
+  saveWorkspaceSessionState(id: string, state: WorkspaceSessionState): Promise<void> {
+    return request(`/api/workspaces/${encodeURIComponent(id)}/session-state`, {
+      method: "PUT",
+      body: JSON.stringify(state),
+    })
+  },
+  setActiveWorkspace(workspaceId: string | null): Promise<void> {
+    return request("/api/workspaces/active", {
+      method: "PUT",
+      body: JSON.stringify({ workspaceId }),
+    })
+  },
   listWorkspaceFiles(id: string, relativePath = "."): Promise<FileSystemEntry[]> {
     const params = new URLSearchParams({ path: relativePath })
     return request<FileSystemEntry[]>(`/api/workspaces/${encodeURIComponent(id)}/files?${params.toString()}`)
@@ -140,6 +179,13 @@ export const serverApi = {
       `/api/workspaces/${encodeURIComponent(id)}/files/content?${params.toString()}`,
     )
   },
+  /** Rejected with 412 when `expectedHash` no longer matches the file on disk. */
+  writeWorkspaceFile(id: string, payload: WorkspaceFileWriteRequest): Promise<WorkspaceFileWriteResponse> {
+    return request<WorkspaceFileWriteResponse>(`/api/workspaces/${encodeURIComponent(id)}/files/content`, {
+      method: "PUT",
+      body: JSON.stringify(payload),
+    })
+  },
 
   fetchConfig(): Promise<AppConfig> {
     return request<AppConfig>("/api/config/app")
@@ -230,7 +276,7 @@ export const serverApi = {
   },
   connectEvents(onEvent: (event: WorkspaceEventPayload) => void, onError?: () => void) {
     sseLogger.info(`Connecting to ${EVENTS_URL}`)
-    const source = new EventSource(EVENTS_URL)
+    const source = new EventSource(EVENTS_URL, { withCredentials: true })
     source.onmessage = (event) => {
       try {
         const payload = JSON.parse(event.data) as WorkspaceEventPayload
@@ -274,6 +320,38 @@ export const serverApi = {
     return request<CleanupResult>("/api/system/processes/kill-all-orphans", { method: "POST" })
   },
 
+  // Remote access auth APIs
+  fetchAuthStatus(): Promise<AuthStatusResponse> {
+    return request<AuthStatusResponse>("/api/auth/status")
+  },
+  login(token: string): Promise<{ authenticated: boolean }> {
+    return request<{ authenticated: boolean }>("/api/auth/login", {
+      method: "POST",
+      body: JSON.stringify({ token }),
+    })
+  },
+  logout(): Promise<{ authenticated: boolean }> {
+    return request<{ authenticated: boolean }>("/api/auth/logout", { method: "POST" })
+  },
+  fetchPrimaryAccessToken(): Promise<AccessTokenSecret> {
+    return request<AccessTokenSecret>("/api/auth/tokens/primary")
+  },
+  listAccessTokens(): Promise<{ tokens: AccessTokenInfo[] }> {
+    return request<{ tokens: AccessTokenInfo[] }>("/api/auth/tokens")
+  },
+  createAccessToken(label: string): Promise<AccessTokenSecret> {
+    return request<AccessTokenSecret>("/api/auth/tokens", {
+      method: "POST",
+      body: JSON.stringify({ label }),
+    })
+  },
+  rotateAccessToken(): Promise<AccessTokenSecret> {
+    return request<AccessTokenSecret>("/api/auth/tokens/rotate", { method: "POST" })
+  },
+  revokeAccessToken(id: string): Promise<void> {
+    return request(`/api/auth/tokens/${encodeURIComponent(id)}`, { method: "DELETE" })
+  },
+
   // Update Check APIs
   checkForUpdates(): Promise<UpdateCheckResult> {
     return request<UpdateCheckResult>("/api/updates/check")
@@ -301,6 +379,7 @@ export interface SessionDeleteResponse {
 export interface WorkspacePidEntry {
   pid: number
   folder: string
+  port?: number
   startedAt: string
 }
 
@@ -12,6 +12,8 @@ export interface Command {
   description: string
   keywords?: string[]
   shortcut?: KeyboardShortcut
+  /** Keyboard registry shortcut this command mirrors; its user keybinding is shown instead of `shortcut` */
+  keybindingId?: string
   action: () => void | Promise<void>
   category?: string
 }
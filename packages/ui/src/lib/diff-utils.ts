@@ -48,3 +48,112 @@ export function isRenderableDiffText(raw?: string | null): raw is string {
   if (!normalized) return false
   return HUNK_PATTERN.test(normalized)
 }
+
+type LineOp = { type: " " | "-" | "+"; line: string }
+
+function splitLines(text: string): string[] {
+  if (!text) return []
+  const lines = text.replace(/\r\n/g, "\n").split("\n")
+  if (lines[lines.length - 1] === "") lines.pop()
+  return lines
+}
+
+/** Myers line diff; keeps only the furthest-reaching paths per round for the backtrack */
+function diffLines(a: string[], b: string[]): LineOp[] {
+  const n = a.length
+  const m = b.length
+  const offset = n + m
+  const v = new Int32Array(2 * offset + 2)
+  const trace: Int32Array[] = []
+
+  search: for (let d = 0; d <= n + m; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1))
+        break search
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1))
+  }
+
+  const ops: LineOp[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1]
+    const at = (k: number) => previous[k + d - 1]
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      ops.push({ type: " ", line: a[--x] })
+      y--
+    }
+    if (x === prevX) {
+      ops.push({ type: "+", line: b[--y] })
+    } else {
+      ops.push({ type: "-", line: a[--x] })
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: " ", line: a[--x] })
+    y--
+  }
+  return ops.reverse()
+}
+
+/**
+ * Unified diff between two versions of a file, with `context` unchanged
+ * lines around each change. Returns "" when the contents are equal.
+ */
+export function createUnifiedDiff(filePath: string, before: string, after: string, context = 3): string {
+  const ops = diffLines(splitLines(before), splitLines(after))
+
+  // Line numbers (0-based) in the old and new file where each op starts
+  const oldAt: number[] = []
+  const newAt: number[] = []
+  let oldLine = 0
+  let newLine = 0
+  for (const op of ops) {
+    oldAt.push(oldLine)
+    newAt.push(newLine)
+    if (op.type !== "+") oldLine++
+    if (op.type !== "-") newLine++
+  }
+
+  const lines: string[] = []
+  let index = 0
+  while (index < ops.length) {
+    if (ops[index].type === " ") {
+      index++
+      continue
+    }
+    // Extend the hunk over changes separated by at most 2 * context lines
+    let lastChange = index
+    for (let next = index + 1; next < ops.length && next - lastChange <= 2 * context; next++) {
+      if (ops[next].type !== " ") lastChange = next
+    }
+    const start = Math.max(0, index - context)
+    const end = Math.min(ops.length, lastChange + context + 1)
+    const hunk = ops.slice(start, end)
+    const oldCount = hunk.filter((op) => op.type !== "+").length
+    const newCount = hunk.filter((op) => op.type !== "-").length
+    lines.push(
+      `@@ -${oldAt[start] + (oldCount > 0 ? 1 : 0)},${oldCount} +${newAt[start] + (newCount > 0 ? 1 : 0)},${newCount} @@`,
+      ...hunk.map((op) => op.type + op.line),
+    )
+    index = end
+  }
+
+  if (lines.length === 0) return ""
+  return [`--- a/${filePath}`, `+++ b/${filePath}`, ...lines].join("\n")
+}
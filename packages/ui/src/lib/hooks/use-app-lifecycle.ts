@@ -1,4 +1,4 @@
-import { onMount, onCleanup, type Accessor } from "solid-js"
+import { createEffect, onMount, onCleanup, type Accessor } from "solid-js"
 import { setupTabKeyboardShortcuts } from "../keyboard"
 import { registerNavigationShortcuts } from "../shortcuts/navigation"
 import { registerInputShortcuts } from "../shortcuts/input"
@@ -10,6 +10,7 @@ import { showCommandPalette, hideCommandPalette } from "../../stores/command-pal
 import type { Instance } from "../../types/instance"
 import { getLogger } from "../logger"
 import { emitSessionSidebarRequest } from "../session-sidebar-events"
+import { preferences } from "../../stores/preferences"
 
 const log = getLogger("actions")
 
@@ -27,6 +28,9 @@ interface UseAppLifecycleOptions {
 }
 
 export function useAppLifecycle(options: UseAppLifecycleOptions) {
+  // User keybindings apply on load and whenever they are edited or imported
+  createEffect(() => keyboardRegistry.setOverrides(preferences().keybindings))
+
   onMount(() => {
     setEscapeStateChangeHandler(options.setEscapeInDebounce)
 
@@ -7,16 +7,24 @@ import type { ClientPart, MessageInfo } from "../../types/message"
 import {
   activeParentSessionId,
   activeSessionId as activeSessionMap,
+  createSession,
   getSessionFamily,
   getSessions,
+  setActiveParentSession,
   setActiveSession,
 } from "../../stores/sessions"
 import { setSessionCompactionState } from "../../stores/session-compaction"
+import { requestHandoff } from "../../stores/handoffs"
+import { openSessionSearch } from "../../stores/session-search"
+import { openSessionTree } from "../../stores/session-tree"
+import { openSessionExport, pickSessionBundle } from "../../stores/session-export"
+import { openPromptTemplatePicker } from "../../stores/prompt-templates"
 import { showAlertDialog } from "../../stores/alerts"
 import type { Instance } from "../../types/instance"
 import type { MessageRecord } from "../../stores/message-v2/types"
 import { messageStoreBus } from "../../stores/message-v2/bus"
 import { cleanupBlankSessions } from "../../stores/session-state"
+import { openWorktreeMergeDialog, sessionDirectoryQuery } from "../../stores/worktrees"
 import { getLogger } from "../logger"
 import { emitSessionSidebarRequest } from "../session-sidebar-events"
 
@@ -72,6 +80,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Instance",
       keywords: ["folder", "project", "workspace"],
       shortcut: { key: "N", meta: true },
+      keybindingId: "instance-new",
       action: options.handleNewInstanceRequest,
     })
 
@@ -82,6 +91,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Instance",
       keywords: ["stop", "quit", "close"],
       shortcut: { key: "W", meta: true },
+      keybindingId: "instance-close",
       action: async () => {
         const instance = activeInstance()
         if (!instance) return
@@ -96,6 +106,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Instance",
       keywords: ["switch", "navigate"],
       shortcut: { key: "]", meta: true },
+      keybindingId: "instance-next",
       action: () => {
         const ids = Array.from(instances().keys())
         if (ids.length <= 1) return
@@ -112,6 +123,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Instance",
       keywords: ["switch", "navigate"],
       shortcut: { key: "[", meta: true },
+      keybindingId: "instance-prev",
       action: () => {
         const ids = Array.from(instances().keys())
         if (ids.length <= 1) return
@@ -128,6 +140,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Session",
       keywords: ["create", "start"],
       shortcut: { key: "N", meta: true, shift: true },
+      keybindingId: "session-new",
       action: async () => {
         const instance = activeInstance()
         if (!instance) return
@@ -135,6 +148,42 @@ export function useCommands(options: UseCommandsOptions) {
       },
     })
 
+    commandRegistry.register({
+      id: "new-isolated-session",
+      label: "New Isolated Session",
+      description: "Create a session in its own git worktree and branch",
+      category: "Session",
+      keywords: ["worktree", "branch", "isolated", "parallel", "git"],
+      action: async () => {
+        const instance = activeInstance()
+        if (!instance) return
+        try {
+          const session = await createSession(instance.id, undefined, { isolated: true })
+          setActiveParentSession(instance.id, session.id)
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          showAlertDialog(`Could not create an isolated session: ${message}`, {
+            title: "Isolated session",
+            variant: "error",
+          })
+        }
+      },
+    })
+
+    commandRegistry.register({
+      id: "merge-session-worktree",
+      label: "Merge Session Worktree",
+      description: "Merge the current isolated session's branch back into its base branch",
+      category: "Session",
+      keywords: ["worktree", "branch", "merge", "squash", "rebase", "git"],
+      action: () => {
+        const instance = activeInstance()
+        const sessionId = activeSessionIdForInstance()
+        if (!instance || !sessionId || sessionId === "info") return
+        openWorktreeMergeDialog(instance.id, sessionId)
+      },
+    })
+
     commandRegistry.register({
       id: "close-session",
       label: "Close Session",
@@ -142,6 +191,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Session",
       keywords: ["close", "stop"],
       shortcut: { key: "W", meta: true, shift: true },
+      keybindingId: "session-close",
       action: async () => {
         const instance = activeInstance()
         const sessionId = activeSessionIdForInstance()
@@ -170,6 +220,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Instance",
       keywords: ["info", "logs", "console", "output"],
       shortcut: { key: "L", meta: true, shift: true },
+      keybindingId: "switch-to-info",
       action: () => {
         const instance = activeInstance()
         if (instance) setActiveSession(instance.id, "info")
@@ -183,6 +234,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Session",
       keywords: ["switch", "navigate"],
       shortcut: { key: "]", meta: true, shift: true },
+      keybindingId: "session-next",
       action: () => {
         const instanceId = activeInstanceId()
         if (!instanceId) return
@@ -207,6 +259,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Session",
       keywords: ["switch", "navigate"],
       shortcut: { key: "[", meta: true, shift: true },
+      keybindingId: "session-prev",
       action: () => {
         const instanceId = activeInstanceId()
         if (!instanceId) return
@@ -243,6 +296,7 @@ export function useCommands(options: UseCommandsOptions) {
           setSessionCompactionState(instance.id, sessionId, true)
           await instance.client.session.summarize({
             path: { id: sessionId },
+            query: sessionDirectoryQuery(instance.id, sessionId),
             body: {
               providerID: session.model.providerId,
               modelID: session.model.modelId,
@@ -261,6 +315,81 @@ export function useCommands(options: UseCommandsOptions) {
       },
     })
 
+    commandRegistry.register({
+      id: "search-sessions",
+      label: "Search All Sessions",
+      description: "Full-text search across the messages of every session and project",
+      category: "Session",
+      keywords: ["find", "search", "history", "messages", "grep"],
+      shortcut: { key: "F", meta: true, shift: true },
+      keybindingId: "search-sessions",
+      action: openSessionSearch,
+    })
+
+    commandRegistry.register({
+      id: "session-tree",
+      label: "Show Session Tree",
+      description: "Browse forks and subagent branches with their cost and changes, and compare two branches",
+      category: "Session",
+      keywords: ["tree", "fork", "branch", "compare", "diff", "subagent"],
+      action: openSessionTree,
+    })
+
+    commandRegistry.register({
+      id: "export-session",
+      label: "Export Session",
+      description: "Save the current session as Markdown, HTML or a JSON bundle",
+      category: "Session",
+      keywords: ["export", "share", "archive", "markdown", "html", "json", "download"],
+      action: () => {
+        const instance = activeInstance()
+        const sessionId = activeSessionIdForInstance()
+        if (!instance || !sessionId || sessionId === "info") return
+        openSessionExport(instance.id, sessionId)
+      },
+    })
+
+    commandRegistry.register({
+      id: "import-session",
+      label: "Import Session Bundle",
+      description: "Open an exported JSON session bundle for read-only review",
+      category: "Session",
+      keywords: ["import", "bundle", "json", "review", "archive"],
+      action: () => {
+        const instance = activeInstance()
+        if (!instance) return
+        pickSessionBundle(instance.id)
+      },
+    })
+
+    commandRegistry.register({
+      id: "insert-prompt-template",
+      label: "Insert Prompt Template",
+      description: "Fill in a saved prompt template and insert it into the prompt",
+      category: "Input & Focus",
+      keywords: ["template", "snippet", "prompt", "variables", "library"],
+      action: () => {
+        const instance = activeInstance()
+        const sessionId = activeSessionIdForInstance()
+        if (!instance || !sessionId || sessionId === "info") return
+        openPromptTemplatePicker({ instanceId: instance.id, sessionId, folder: instance.folder })
+      },
+    })
+
+    commandRegistry.register({
+      id: "handoff-session",
+      label: "Hand Off Session",
+      description: "Summarize this session into a handoff document and continue in a new session",
+      category: "Session",
+      keywords: ["handoff", "continue", "context", "new session", "summary"],
+      action: async () => {
+        const instance = activeInstance()
+        const sessionId = activeSessionIdForInstance()
+        if (!instance || !sessionId || sessionId === "info") return
+        await requestHandoff(instance.id, sessionId, "manual")
+      },
+    })
+
     commandRegistry.register({
       id: "undo",
       label: "Undo Last Message",
@@ -318,6 +447,7 @@ export function useCommands(options: UseCommandsOptions) {
         try {
           await instance.client.session.revert({
             path: { id: sessionId },
+            query: sessionDirectoryQuery(instance.id, sessionId),
             body: { messageID },
           })
 
@@ -352,6 +482,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Agent & Model",
       keywords: ["model", "llm", "ai"],
       shortcut: { key: "M", meta: true, shift: true },
+      keybindingId: "focus-model",
       action: () => {
         const instance = activeInstance()
         if (!instance) return
@@ -366,6 +497,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Agent & Model",
       keywords: ["agent", "mode"],
       shortcut: { key: "A", meta: true, shift: true },
+      keybindingId: "open-agent-selector",
       action: () => {
         const instance = activeInstance()
         if (!instance) return
@@ -380,6 +512,7 @@ export function useCommands(options: UseCommandsOptions) {
       category: "Input & Focus",
       keywords: ["clear", "reset"],
       shortcut: { key: "K", meta: true },
+      keybindingId: "clear-input",
       action: () => {
         const textarea = document.querySelector(".prompt-input") as HTMLTextAreaElement
         if (textarea) textarea.value = ""
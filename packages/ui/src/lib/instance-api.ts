@@ -120,19 +120,25 @@ async function listQuestions(instance: Instance): Promise<QuestionRequest[]> {
   return requestInstance<QuestionRequest[]>(instance, "/question")
 }
 
+/** `?directory=` for requests about a session that runs outside the instance folder */
+function directorySearch(directory: string | undefined): string {
+  return directory ? `?directory=${encodeURIComponent(directory)}` : ""
+}
+
 async function replyToQuestion(
   instance: Instance,
   requestId: string,
   answers: QuestionAnswer[],
+  directory?: string,
 ): Promise<void> {
-  await requestInstance(instance, `/question/${encodeURIComponent(requestId)}/reply`, {
+  await requestInstance(instance, `/question/${encodeURIComponent(requestId)}/reply${directorySearch(directory)}`, {
     method: "POST",
     body: JSON.stringify({ answers }),
   })
 }
 
-async function rejectQuestion(instance: Instance, requestId: string): Promise<void> {
-  await requestInstance(instance, `/question/${encodeURIComponent(requestId)}/reject`, {
+async function rejectQuestion(instance: Instance, requestId: string, directory?: string): Promise<void> {
+  await requestInstance(instance, `/question/${encodeURIComponent(requestId)}/reject${directorySearch(directory)}`, {
     method: "POST",
   })
 }
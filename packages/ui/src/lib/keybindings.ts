@@ -0,0 +1,233 @@
+import type { KeyboardShortcut } from "./keyboard-registry"
+import { isMac } from "./keyboard-utils"
+
+/**
+ * Keybinding text format shared by preferences, the settings editor and
+ * import/export files.
+ *
+ * A binding is one or more chords separated by spaces ("mod+k", "g s").
+ * A chord is `+`-joined modifiers followed by a key. `mod` is Cmd on macOS
+ * and Ctrl elsewhere, so exported bindings work across platforms.
+ */
+
+export type KeyChord = Pick<KeyboardShortcut, "key" | "modifiers">
+
+export type KeyboardContext = NonNullable<KeyboardShortcut["context"]>
+
+/** Overrides keyed by shortcut id; `null` leaves the shortcut unbound */
+export type KeybindingOverrides = Record<string, string | null>
+
+export interface KeybindingsFile {
+  version: 1
+  keybindings: KeybindingOverrides
+}
+
+/** Longest sequence the recorder and parser accept */
+export const MAX_SEQUENCE_LENGTH = 3
+
+const MODIFIER_KEYS = new Set(["shift", "control", "alt", "meta", "os"])
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: "escape",
+  return: "enter",
+  " ": "space",
+  spacebar: "space",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+  plus: "+",
+}
+
+function normalizeKey(key: string): string {
+  const lower = key.toLowerCase()
+  return KEY_ALIASES[lower] ?? lower
+}
+
+export function isModifierKey(key: string): boolean {
+  return MODIFIER_KEYS.has(key.toLowerCase())
+}
+
+function parseChord(text: string): KeyChord | null {
+  // A trailing "+" is the plus key itself ("mod++")
+  const tokens = text.endsWith("++") ? [...text.slice(0, -2).split("+"), "+"] : text.split("+")
+  const key = tokens.pop()
+  if (!key) return null
+
+  const modifiers: KeyChord["modifiers"] = {}
+  for (const token of tokens) {
+    switch (token.toLowerCase()) {
+      case "mod":
+        if (isMac()) modifiers.meta = true
+        else modifiers.ctrl = true
+        break
+      case "cmd":
+      case "meta":
+        modifiers.meta = true
+        break
+      case "ctrl":
+      case "control":
+        modifiers.ctrl = true
+        break
+      case "shift":
+        modifiers.shift = true
+        break
+      case "alt":
+      case "option":
+        modifiers.alt = true
+        break
+      default:
+        return null
+    }
+  }
+  return { key: normalizeKey(key), modifiers }
+}
+
+/** Parse a binding; returns null when it is empty or malformed */
+export function parseKeybinding(text: string): KeyChord[] | null {
+  const parts = text.trim().split(/\s+/).filter(Boolean)
+  if (parts.length === 0 || parts.length > MAX_SEQUENCE_LENGTH) return null
+  const chords: KeyChord[] = []
+  for (const part of parts) {
+    const chord = parseChord(part)
+    if (!chord) return null
+    chords.push(chord)
+  }
+  return chords
+}
+
+function formatChord(chord: KeyChord): string {
+  const { ctrl, meta, shift, alt } = chord.modifiers
+  const parts: string[] = []
+  const mod = isMac() ? meta : ctrl
+  if (mod) parts.push("mod")
+  if (ctrl && (isMac() || !mod)) parts.push("ctrl")
+  if (meta && (!isMac() || !mod)) parts.push("meta")
+  if (alt) parts.push("alt")
+  if (shift) parts.push("shift")
+  parts.push(normalizeKey(chord.key))
+  return parts.join("+")
+}
+
+export function formatKeybinding(chords: KeyChord[]): string {
+  return chords.map(formatChord).join(" ")
+}
+
+/** Display form for `Kbd`, which reads "cmd" as the platform command key */
+export function formatKeybindingForDisplay(chords: KeyChord[]): string[] {
+  return chords.map((chord) => formatChord(chord).replace(/^mod(?=\+)/, "cmd"))
+}
+
+/** Chord pressed in a keydown event, or null for a bare modifier press */
+export function chordFromEvent(event: KeyboardEvent): KeyChord | null {
+  if (!event.key || isModifierKey(event.key)) return null
+  return {
+    key: normalizeKey(event.key),
+    modifiers: {
+      ctrl: event.ctrlKey || undefined,
+      meta: event.metaKey || undefined,
+      shift: event.shiftKey || undefined,
+      alt: event.altKey || undefined,
+    },
+  }
+}
+
+/**
+ * Whether a keydown event presses a chord; `code` lets "[" match when Shift turns it into "{".
+ * With `eitherModifier`, a chord using Ctrl or Cmd is pressed with either of them.
+ */
+export function eventMatchesChord(event: KeyboardEvent, chord: KeyChord, eitherModifier = false): boolean {
+  const key = normalizeKey(chord.key)
+  const eventKey = event.key ? normalizeKey(event.key) : ""
+  const eventCode = event.code ? event.code.toLowerCase() : ""
+  const { ctrl = false, meta = false } = chord.modifiers
+  const commandMatches =
+    eitherModifier && (ctrl || meta)
+      ? event.ctrlKey || event.metaKey
+      : event.ctrlKey === ctrl && event.metaKey === meta
+  return (
+    (eventKey === key || eventCode === key) &&
+    commandMatches &&
+    event.shiftKey === (chord.modifiers.shift ?? false) &&
+    event.altKey === (chord.modifiers.alt ?? false)
+  )
+}
+
+function chordsEqual(a: KeyChord, b: KeyChord): boolean {
+  return (
+    normalizeKey(a.key) === normalizeKey(b.key) &&
+    Boolean(a.modifiers.ctrl) === Boolean(b.modifiers.ctrl) &&
+    Boolean(a.modifiers.meta) === Boolean(b.modifiers.meta) &&
+    Boolean(a.modifiers.shift) === Boolean(b.modifiers.shift) &&
+    Boolean(a.modifiers.alt) === Boolean(b.modifiers.alt)
+  )
+}
+
+/** `prefix` equals `chords` or is the start of it */
+function isPrefix(prefix: KeyChord[], chords: KeyChord[]): boolean {
+  return prefix.length <= chords.length && prefix.every((chord, index) => chordsEqual(chord, chords[index]))
+}
+
+/** Input and messages shortcuts never fire together; global overlaps both */
+export function contextsOverlap(a: KeyboardContext = "global", b: KeyboardContext = "global"): boolean {
+  return a === "global" || b === "global" || a === b
+}
+
+export interface KeybindingEntry {
+  id: string
+  context?: KeyboardContext
+  chords: KeyChord[] | null
+}
+
+/**
+ * Shortcuts that cannot both fire: same or overlapping context and one
+ * binding equal to, or a prefix of, the other ("g" shadows "g s").
+ * Returns the conflicting ids per shortcut id.
+ */
+export function findKeybindingConflicts(entries: KeybindingEntry[]): Map<string, string[]> {
+  const conflicts = new Map<string, string[]>()
+  const add = (id: string, other: string) => conflicts.set(id, [...(conflicts.get(id) ?? []), other])
+
+  for (let i = 0; i < entries.length; i++) {
+    const a = entries[i]
+    if (!a.chords) continue
+    for (let j = i + 1; j < entries.length; j++) {
+      const b = entries[j]
+      if (!b.chords || !contextsOverlap(a.context, b.context)) continue
+      if (isPrefix(a.chords, b.chords) || isPrefix(b.chords, a.chords)) {
+        add(a.id, b.id)
+        add(b.id, a.id)
+      }
+    }
+  }
+  return conflicts
+}
+
+export function serializeKeybindings(overrides: KeybindingOverrides): string {
+  const file: KeybindingsFile = { version: 1, keybindings: overrides }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Read an exported keybindings file. Unparseable bindings are dropped and
+ * reported so the import can say what was skipped.
+ */
+export function parseKeybindingsFile(text: string): { keybindings: KeybindingOverrides; skipped: string[] } {
+  const data = JSON.parse(text) as Partial<KeybindingsFile>
+  if (data?.version !== 1 || !data.keybindings || typeof data.keybindings !== "object") {
+    throw new Error("Not a keybindings file")
+  }
+
+  const keybindings: KeybindingOverrides = {}
+  const skipped: string[] = []
+  for (const [id, binding] of Object.entries(data.keybindings)) {
+    if (binding === null) {
+      keybindings[id] = null
+    } else if (typeof binding === "string" && parseKeybinding(binding)) {
+      keybindings[id] = binding
+    } else {
+      skipped.push(id)
+    }
+  }
+  return { keybindings, skipped }
+}
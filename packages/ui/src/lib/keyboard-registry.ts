@@ -1,3 +1,13 @@
+import { createSignal } from "solid-js"
+import {
+  eventMatchesChord,
+  formatKeybinding,
+  isModifierKey,
+  parseKeybinding,
+  type KeybindingOverrides,
+  type KeyChord,
+} from "./keybindings"
+
 export interface KeyboardShortcut {
   id: string
   key: string
@@ -11,49 +21,148 @@ export interface KeyboardShortcut {
   description: string
   context?: "global" | "input" | "messages"
   condition?: () => boolean
+  /** Further chords after `key` for multi-key sequences; set from user keybindings */
+  sequence?: KeyChord[]
+  /** The default binding also fires with Ctrl on macOS and Meta elsewhere */
+  eitherModifier?: boolean
 }
 
+/** How long a sequence waits for its next chord */
+const SEQUENCE_TIMEOUT_MS = 1000
+
 class KeyboardRegistry {
   private shortcuts = new Map<string, KeyboardShortcut>()
+  private overrides: KeybindingOverrides = {}
+  private pending: KeyboardEvent[] = []
+  private pendingTimer: number | undefined
+  private paused = false
+  // Bumped on every change so components showing bindings re-render
+  private version = createSignal(0)
 
   register(shortcut: KeyboardShortcut) {
     this.shortcuts.set(shortcut.id, shortcut)
+    this.touch()
   }
 
   unregister(id: string) {
     this.shortcuts.delete(id)
+    this.touch()
+  }
+
+  /** The shortcut with any user keybinding applied; undefined when unbound */
+  get(id: string): KeyboardShortcut | undefined {
+    this.version[0]()
+    const shortcut = this.shortcuts.get(id)
+    if (!shortcut) return undefined
+    const chords = this.getBinding(id)
+    if (!chords) return undefined
+    const [first, ...rest] = chords
+    return { ...shortcut, key: first.key, modifiers: first.modifiers, sequence: rest.length > 0 ? rest : undefined }
+  }
+
+  /** Registered shortcuts with their default bindings */
+  list(): KeyboardShortcut[] {
+    this.version[0]()
+    return Array.from(this.shortcuts.values())
+  }
+
+  getDefaultBinding(id: string): KeyChord[] | null {
+    const shortcut = this.shortcuts.get(id)
+    if (!shortcut) return null
+    return [{ key: shortcut.key, modifiers: shortcut.modifiers }, ...(shortcut.sequence ?? [])]
+  }
+
+  /** Effective chords of a shortcut, or null when the user unbound it */
+  getBinding(id: string): KeyChord[] | null {
+    this.version[0]()
+    const override = this.overrides[id]
+    if (override === null) return null
+    if (override !== undefined) {
+      const parsed = parseKeybinding(override)
+      if (parsed) return parsed
+    }
+    return this.getDefaultBinding(id)
   }
 
-  get(id: string) {
-    return this.shortcuts.get(id)
+  isOverridden(id: string): boolean {
+    this.version[0]()
+    const override = this.overrides[id]
+    if (override === undefined) return false
+    const defaults = this.getDefaultBinding(id)
+    const parsed = override === null ? null : parseKeybinding(override)
+    return !parsed || !defaults || formatKeybinding(defaults) !== formatKeybinding(parsed)
   }
 
+  /** Apply the user's keybinding preferences */
+  setOverrides(overrides: KeybindingOverrides) {
+    this.overrides = { ...overrides }
+    this.resetPending()
+    this.touch()
+  }
+
+  /** Ignore key presses, e.g. while the settings editor records a chord */
+  setPaused(paused: boolean) {
+    this.paused = paused
+    this.resetPending()
+  }
+
+  /**
+   * Match a keydown against every shortcut. Chords that start a longer
+   * sequence are swallowed (default prevented) and remembered until the
+   * sequence completes, breaks or times out.
+   */
   findMatch(event: KeyboardEvent): KeyboardShortcut | null {
-    for (const shortcut of this.shortcuts.values()) {
-      if (this.matches(event, shortcut)) {
-        if (shortcut.context === "input" && !this.isInputFocused()) continue
-        if (shortcut.context === "messages" && this.isInputFocused()) continue
+    if (this.paused || !event.key || isModifierKey(event.key)) return null
+
+    const attempts = this.pending.length > 0 ? [[...this.pending, event], [event]] : [[event]]
+    for (const pressed of attempts) {
+      let prefixOfLonger = false
+      for (const shortcut of this.shortcuts.values()) {
+        if (!this.isActive(shortcut)) continue
+        const chords = this.getBinding(shortcut.id)
+        if (!chords || chords.length < pressed.length) continue
+        // Plain letters belong to whatever is being typed
+        if (isTypingChord(chords[0]) && shortcut.context !== "input" && this.isInputFocused()) continue
+        const eitherModifier = Boolean(shortcut.eitherModifier) && this.overrides[shortcut.id] === undefined
+        if (!pressed.every((pressedEvent, index) => eventMatchesChord(pressedEvent, chords[index], eitherModifier))) {
+          continue
+        }
 
-        if (shortcut.condition && !shortcut.condition()) continue
+        if (chords.length === pressed.length) {
+          this.resetPending()
+          return shortcut
+        }
+        prefixOfLonger = true
+      }
 
-        return shortcut
+      if (prefixOfLonger) {
+        event.preventDefault()
+        this.pending = pressed
+        window.clearTimeout(this.pendingTimer)
+        this.pendingTimer = window.setTimeout(() => this.resetPending(), SEQUENCE_TIMEOUT_MS)
+        return null
       }
     }
+
+    this.resetPending()
     return null
   }
 
-  private matches(event: KeyboardEvent, shortcut: KeyboardShortcut): boolean {
-    const shortcutKey = shortcut.key.toLowerCase()
-    const eventKey = event.key ? event.key.toLowerCase() : ""
-    const eventCode = event.code ? event.code.toLowerCase() : ""
+  private isActive(shortcut: KeyboardShortcut): boolean {
+    if (shortcut.context === "input" && !this.isInputFocused()) return false
+    if (shortcut.context === "messages" && this.isInputFocused()) return false
+    if (shortcut.condition && !shortcut.condition()) return false
+    return true
+  }
 
-    const keyMatch = eventKey === shortcutKey || eventCode === shortcutKey
-    const ctrlMatch = event.ctrlKey === (shortcut.modifiers.ctrl ?? false)
-    const metaMatch = event.metaKey === (shortcut.modifiers.meta ?? false)
-    const shiftMatch = event.shiftKey === (shortcut.modifiers.shift ?? false)
-    const altMatch = event.altKey === (shortcut.modifiers.alt ?? false)
+  private resetPending() {
+    window.clearTimeout(this.pendingTimer)
+    this.pendingTimer = undefined
+    this.pending = []
+  }
 
-    return keyMatch && ctrlMatch && metaMatch && shiftMatch && altMatch
+  private touch() {
+    this.version[1]((value) => value + 1)
   }
 
   private isInputFocused(): boolean {
@@ -70,4 +179,8 @@ class KeyboardRegistry {
   }
 }
 
+function isTypingChord(chord: KeyChord): boolean {
+  return chord.key.length === 1 && !chord.modifiers.ctrl && !chord.modifiers.meta && !chord.modifiers.alt
+}
+
 export const keyboardRegistry = new KeyboardRegistry()
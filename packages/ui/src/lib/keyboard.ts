@@ -2,6 +2,7 @@ import { instances, activeInstanceId, setActiveInstanceId } from "../stores/inst
 import { activeSessionId, setActiveSession, getSessions, activeParentSessionId } from "../stores/sessions"
 import { keyboardRegistry } from "./keyboard-registry"
 import { isMac } from "./keyboard-utils"
+import { openSessionSearch } from "../stores/session-search"
 
 export function setupTabKeyboardShortcuts(
   handleNewInstance: () => void,
@@ -26,13 +27,68 @@ export function setupTabKeyboardShortcuts(
     context: "global",
   })
 
-  window.addEventListener("keydown", (e) => {
-    if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === "p") {
-      e.preventDefault()
-      handleCommandPalette()
-      return
-    }
+  // Like the listeners they replaced, these accept Cmd and Ctrl on every platform
+  keyboardRegistry.register({
+    id: "command-palette",
+    key: "p",
+    modifiers: { shift: true, meta: isMac(), ctrl: !isMac() },
+    handler: handleCommandPalette,
+    description: "Command Palette",
+    context: "global",
+    eitherModifier: true,
+  })
+
+  keyboardRegistry.register({
+    id: "instance-new",
+    key: "n",
+    modifiers: { meta: isMac(), ctrl: !isMac() },
+    handler: handleNewInstance,
+    description: "New Instance",
+    context: "global",
+    eitherModifier: true,
+  })
 
+  keyboardRegistry.register({
+    id: "instance-close",
+    key: "w",
+    modifiers: { meta: isMac(), ctrl: !isMac() },
+    handler: () => {
+      const instanceId = activeInstanceId()
+      if (instanceId) handleCloseInstance(instanceId)
+    },
+    description: "Close Instance",
+    context: "global",
+    eitherModifier: true,
+  })
+
+  keyboardRegistry.register({
+    id: "session-close",
+    key: "w",
+    modifiers: { shift: true, meta: isMac(), ctrl: !isMac() },
+    handler: () => {
+      const instanceId = activeInstanceId()
+      if (!instanceId) return
+      const sessionId = activeSessionId().get(instanceId)
+      if (sessionId && sessionId !== "logs") {
+        handleCloseSession(instanceId, sessionId)
+      }
+    },
+    description: "Close Session",
+    context: "global",
+    eitherModifier: true,
+  })
+
+  keyboardRegistry.register({
+    id: "search-sessions",
+    key: "f",
+    modifiers: { shift: true, meta: isMac(), ctrl: !isMac() },
+    handler: openSessionSearch,
+    description: "Search All Sessions",
+    context: "global",
+  })
+
+  // Tab positions stay fixed to Cmd/Ctrl+1..9 (sessions with Shift)
+  window.addEventListener("keydown", (e) => {
     if ((e.metaKey || e.ctrlKey) && !e.shiftKey && e.key >= "1" && e.key <= "9") {
       e.preventDefault()
       const index = parseInt(e.key) - 1
@@ -59,29 +115,5 @@ export function setupTabKeyboardShortcuts(
         setActiveSession(instanceId, allTabs[index])
       }
     }
-
-    if ((e.metaKey || e.ctrlKey) && !e.shiftKey && e.key.toLowerCase() === "n") {
-      e.preventDefault()
-      handleNewInstance()
-    }
-
-    if ((e.metaKey || e.ctrlKey) && !e.shiftKey && e.key.toLowerCase() === "w") {
-      e.preventDefault()
-      const instanceId = activeInstanceId()
-      if (instanceId) {
-        handleCloseInstance(instanceId)
-      }
-    }
-
-    if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === "w") {
-      e.preventDefault()
-      const instanceId = activeInstanceId()
-      if (!instanceId) return
-
-      const sessionId = activeSessionId().get(instanceId)
-      if (sessionId && sessionId !== "logs") {
-        handleCloseSession(instanceId, sessionId)
-      }
-    }
   })
 }
@@ -1,6 +1,6 @@
 import debug from "debug"
 
-export type LoggerNamespace = "sse" | "api" | "session" | "actions" | "models-api" | "commands-settings" | "session-cleanup" | "era-status" | "era-governance" | "era-directives" | "governance-advanced" | "directives-editor" | "constitution-viewer" | "github-auth" | "github-repos" | "workspace" | "mcp-settings" | "file-conflicts" | "process-manager" | "update-checker" | "activity-monitor" | "question-store" | "instruction-capture" | "instruction-retrieval" | "category-delegation-picker" | "fallback-chain-display" | "health-check-panel" | "beads-dashboard" | "audit-trail-viewer" | "refactoring-impact-preview" | "verification-pipeline-status" | "file-governance-overlay" | "formula-browser" | "plan-execution-tracker" | "agent-queue-panel" | "swarm-communication-log" | "session-retry-panel" | "governance-toast" | "agent-lifecycle-panel" | "gate-status-panel" | "handoff-visualization" | "linear-tasks" | "mobile-shell" | "mobile-permission"
+export type LoggerNamespace = "sse" | "api" | "session" | "actions" | "models-api" | "commands-settings" | "session-cleanup" | "era-status" | "era-governance" | "era-directives" | "governance-advanced" | "directives-editor" | "constitution-viewer" | "github-auth" | "github-repos" | "workspace" | "mcp-settings" | "mcp-health" | "file-conflicts" | "process-manager" | "update-checker" | "activity-monitor" | "question-store" | "instruction-capture" | "instruction-retrieval" | "category-delegation-picker" | "fallback-chain-display" | "health-check-panel" | "beads-dashboard" | "audit-trail-viewer" | "refactoring-impact-preview" | "verification-pipeline-status" | "file-governance-overlay" | "formula-browser" | "plan-execution-tracker" | "agent-queue-panel" | "swarm-communication-log" | "session-retry-panel" | "governance-toast" | "agent-lifecycle-panel" | "gate-status-panel" | "gates" | "handoff-visualization" | "handoffs" | "checkpoints" | "session-search" | "linear-tasks" | "usage" | "prompt-templates" | "worktrees" | "crash-recovery" | "mobile-shell" | "mobile-permission"
 
 interface Logger {
   log: (...args: unknown[]) => void
@@ -22,7 +22,7 @@ export interface LoggerControls {
   disableAllLoggers: () => void
 }
 
-const KNOWN_NAMESPACES: LoggerNamespace[] = ["sse", "api", "session", "actions", "models-api", "commands-settings", "session-cleanup", "era-status", "era-governance", "era-directives", "governance-advanced", "directives-editor", "constitution-viewer", "github-auth", "github-repos", "workspace", "mcp-settings", "file-conflicts", "process-manager", "update-checker", "activity-monitor", "question-store", "instruction-capture", "instruction-retrieval", "category-delegation-picker", "fallback-chain-display", "health-check-panel", "beads-dashboard", "audit-trail-viewer", "refactoring-impact-preview", "verification-pipeline-status", "file-governance-overlay", "formula-browser", "plan-execution-tracker", "agent-queue-panel", "swarm-communication-log", "session-retry-panel", "governance-toast", "agent-lifecycle-panel", "gate-status-panel", "handoff-visualization", "linear-tasks", "mobile-shell", "mobile-permission"]
+const KNOWN_NAMESPACES: LoggerNamespace[] = ["sse", "api", "session", "actions", "models-api", "commands-settings", "session-cleanup", "era-status", "era-governance", "era-directives", "governance-advanced", "directives-editor", "constitution-viewer", "github-auth", "github-repos", "workspace", "mcp-settings", "mcp-health", "file-conflicts", "process-manager", "update-checker", "activity-monitor", "question-store", "instruction-capture", "instruction-retrieval", "category-delegation-picker", "fallback-chain-display", "health-check-panel", "beads-dashboard", "audit-trail-viewer", "refactoring-impact-preview", "verification-pipeline-status", "file-governance-overlay", "formula-browser", "plan-execution-tracker", "agent-queue-panel", "swarm-communication-log", "session-retry-panel", "governance-toast", "agent-lifecycle-panel", "gate-status-panel", "gates", "handoff-visualization", "handoffs", "checkpoints", "session-search", "linear-tasks", "usage", "prompt-templates", "worktrees", "crash-recovery", "mobile-shell", "mobile-permission"]
 const STORAGE_KEY = "opencode:logger:namespaces"
 
 const namespaceLoggers = new Map<LoggerNamespace, Logger>()
@@ -20,6 +20,12 @@ export type ToastPayload = {
     label: string
     href: string
   }
+  /** Inline buttons; the toast is dismissed after one is clicked */
+  buttons?: Array<{
+    label: string
+    onClick: () => void
+    tone?: "default" | "danger"
+  }>
 }
 
 // Duration defaults by variant (in ms)
@@ -97,6 +103,25 @@ export function showToastNotification(payload: ToastPayload): ToastHandle {
                 {payload.action.label}
               </a>
             )}
+            {payload.buttons && payload.buttons.length > 0 && (
+              <div class="mt-2 flex items-center gap-2">
+                {payload.buttons.map((button) => (
+                  <button
+                    type="button"
+                    class={`rounded px-2 py-0.5 text-xs font-semibold transition-colors ${
+                      button.tone === "danger" ? "bg-rose-500/20 text-rose-200 hover:bg-rose-500/30" : "bg-white/10 hover:bg-white/20"
+                    }`}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      button.onClick()
+                      dismiss()
+                    }}
+                  >
+                    {button.label}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
           <button
             type="button"
@@ -34,3 +34,54 @@ export function resolvePastedPlaceholders(prompt: string, attachments: Attachmen
     return typeof replacement === "string" ? replacement : fullMatch
   })
 }
+
+export type TemplateVariableKind = "text" | "file" | "selection"
+
+export interface TemplateVariable {
+  name: string
+  kind: TemplateVariableKind
+  defaultValue: string
+}
+
+/**
+ * `{{name}}` or `{{name:default}}`. `{{file}}` and `{{file.<label>}}` ask for a
+ * project file; `{{selection}}` defaults to the text selected on the page.
+ */
+const TEMPLATE_PLACEHOLDER = /\{\{\s*([A-Za-z0-9_.-]+)\s*(?::([^}]*))?\}\}/g
+
+function templateVariableKind(name: string): TemplateVariableKind {
+  if (name === "selection") return "selection"
+  if (name === "file" || name.startsWith("file.")) return "file"
+  return "text"
+}
+
+/** Variables of a template body in order of first use; the first default given wins */
+export function parseTemplateVariables(body: string): TemplateVariable[] {
+  const variables = new Map<string, TemplateVariable>()
+  for (const match of body.matchAll(TEMPLATE_PLACEHOLDER)) {
+    const name = match[1]
+    const defaultValue = match[2]?.trim() ?? ""
+    const existing = variables.get(name)
+    if (!existing) {
+      variables.set(name, { name, kind: templateVariableKind(name), defaultValue })
+    } else if (!existing.defaultValue && defaultValue) {
+      existing.defaultValue = defaultValue
+    }
+  }
+  return Array.from(variables.values())
+}
+
+/**
+ * Fill a template body. File variables become `@path` mentions; the caller
+ * attaches the files themselves. Blank values fall back to the default.
+ */
+export function renderPromptTemplate(body: string, values: Record<string, string>): string {
+  const defaults = new Map(parseTemplateVariables(body).map((variable) => [variable.name, variable.defaultValue]))
+  return body.replace(TEMPLATE_PLACEHOLDER, (_match, name: string) => {
+    const value = values[name]?.trim() ? values[name] : (defaults.get(name) ?? "")
+    if (templateVariableKind(name) === "file") {
+      return value.trim() ? `@${value.trim()}` : ""
+    }
+    return value
+  })
+}
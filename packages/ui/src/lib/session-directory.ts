@@ -0,0 +1,44 @@
+import type { SessionForkRecord, SessionWorktree } from "../../../server/src/api-types"
+
+/**
+ * Where OpenCode runs a session. Isolated sessions run in their git
+ * worktree, and so do the subagent sessions they spawn and the sessions
+ * forked from them; every request about
+ * such a session (messages, permission and question replies, exports) has
+ * to name that directory or OpenCode answers for the main checkout.
+ */
+
+/** The session a session was spawned from (subagents) or forked from */
+export function sessionOriginOf(
+  parents: (sessionId: string) => string | null | undefined,
+  forks: Record<string, SessionForkRecord>,
+): (sessionId: string) => string | null | undefined {
+  return (sessionId) => parents(sessionId) ?? forks[sessionId]?.sourceSessionId
+}
+
+/** The worktree of a session, or of the nearest session it originates from that has one */
+export function resolveSessionWorktree(
+  worktrees: Iterable<SessionWorktree>,
+  sessionId: string,
+  originOf: (sessionId: string) => string | null | undefined,
+): SessionWorktree | undefined {
+  const bySession = new Map<string, SessionWorktree>()
+  for (const worktree of worktrees) {
+    if (worktree.sessionId) bySession.set(worktree.sessionId, worktree)
+  }
+
+  let current: string | null | undefined = sessionId
+  const visited = new Set<string>()
+  while (current && !visited.has(current)) {
+    visited.add(current)
+    const worktree = bySession.get(current)
+    if (worktree) return worktree
+    current = originOf(current)
+  }
+  return undefined
+}
+
+/** `query` for OpenCode session requests; none for sessions in the main checkout */
+export function worktreeDirectoryQuery(worktree: SessionWorktree | undefined): { directory: string } | undefined {
+  return worktree ? { directory: worktree.directory } : undefined
+}
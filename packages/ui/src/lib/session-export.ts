@@ -0,0 +1,295 @@
+import type { OpencodeClient } from "@opencode-ai/sdk/client"
+import type { Part, ToolState } from "@opencode-ai/sdk"
+import type { SessionBundleEntry, SessionBundleMessage, SessionExportBundle } from "../../../server/src/api-types"
+import { resolveTitleForTool } from "../components/tool-call/tool-title"
+import {
+  ensureMarkdownContent,
+  extractDiffPayload,
+  formatUnknown,
+  getToolArgsSummary,
+  getToolIcon,
+  inferLanguageFromPath,
+  readToolStatePayload,
+} from "../components/tool-call/utils"
+import { escapeHtml, renderMarkdown } from "./markdown"
+
+/**
+ * Session export: a lossless JSON bundle of a session (and optionally its
+ * subagent sessions) as OpenCode returns them, and Markdown and
+ * self-contained HTML renderings of such a bundle.
+ */
+
+export type SessionExportFormat = "markdown" | "html" | "json"
+
+export const SESSION_EXPORT_FORMATS: Record<SessionExportFormat, { label: string; extension: string; mime: string }> = {
+  markdown: { label: "Markdown", extension: "md", mime: "text/markdown" },
+  html: { label: "HTML", extension: "html", mime: "text/html" },
+  json: { label: "JSON bundle", extension: "json", mime: "application/json" },
+}
+
+/** Collect a session, and its descendants when asked, with every message and part */
+export async function collectSessionBundle(
+  client: OpencodeClient,
+  sessionId: string,
+  options: { includeChildren?: boolean; query?: { directory: string } } = {},
+): Promise<SessionExportBundle> {
+  const query = options.query
+  const sessions: SessionBundleEntry[] = []
+  const queue = [sessionId]
+  const seen = new Set<string>()
+
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    if (seen.has(id)) continue
+    seen.add(id)
+
+    const [info, messages] = await Promise.all([
+      client.session.get({ path: { id }, query }),
+      client.session.messages({ path: { id }, query }),
+    ])
+    if (!info.data) {
+      throw new Error(`Session ${id} not found`)
+    }
+    sessions.push({
+      info: info.data as unknown as SessionBundleEntry["info"],
+      messages: (messages.data ?? []) as unknown as SessionBundleMessage[],
+    })
+
+    if (options.includeChildren) {
+      const children = await client.session.children({ path: { id }, query })
+      for (const child of children.data ?? []) queue.push(child.id)
+    }
+  }
+
+  return { format: "era-session-bundle", version: 1, exportedAt: Date.now(), sessions }
+}
+
+/** Parse and sanity-check a JSON bundle before it is uploaded */
+export function parseSessionBundle(text: string): SessionExportBundle {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("File is not valid JSON")
+  }
+  const bundle = data as Partial<SessionExportBundle> | null
+  if (!bundle || bundle.format !== "era-session-bundle") {
+    throw new Error("File is not a session export bundle")
+  }
+  if (bundle.version !== 1) {
+    throw new Error(`Unsupported bundle version ${String(bundle.version)}`)
+  }
+  if (!Array.isArray(bundle.sessions) || bundle.sessions.length === 0) {
+    throw new Error("Bundle contains no sessions")
+  }
+  return bundle as SessionExportBundle
+}
+
+export function sessionExportFilename(bundle: SessionExportBundle, format: SessionExportFormat): string {
+  const title = bundle.sessions[0]?.info.title || "session"
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60)
+  return `${slug || "session"}.${SESSION_EXPORT_FORMATS[format].extension}`
+}
+
+export async function renderSessionExport(bundle: SessionExportBundle, format: SessionExportFormat): Promise<string> {
+  switch (format) {
+    case "json":
+      return JSON.stringify(bundle, null, 2)
+    case "markdown":
+      return sessionBundleToMarkdown(bundle)
+    case "html":
+      return sessionBundleToHtml(bundle)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+export function sessionBundleToMarkdown(bundle: SessionExportBundle): string {
+  const lines: string[] = []
+  bundle.sessions.forEach((entry, index) => {
+    if (index > 0) lines.push("---", "")
+    lines.push(`# ${index > 0 ? "Subagent: " : ""}${entry.info.title || "Untitled"}`, "")
+    lines.push(`_${formatTime(entry.info.time.created)} · ${entry.messages.length} messages_`, "")
+
+    for (const message of entry.messages) {
+      lines.push(`## ${message.info.role === "user" ? "User" : "Assistant"}`, "")
+      for (const part of message.parts as unknown as Part[]) {
+        const block = partToMarkdown(part)
+        if (block) lines.push(block, "")
+      }
+    }
+  })
+  lines.push(`<sub>Exported ${formatTime(bundle.exportedAt)}</sub>`, "")
+  return lines.join("\n")
+}
+
+function partToMarkdown(part: Part): string | null {
+  switch (part.type) {
+    case "text":
+      return part.synthetic ? null : part.text.trim() || null
+    case "reasoning":
+      return part.text.trim() ? part.text.trim().replace(/^/gm, "> ") : null
+    case "file":
+      return `📎 ${part.filename ?? part.url}`
+    case "tool": {
+      const heading = `**${toolCallHeading(part.tool, part.state)}**`
+      const body = toolCallMarkdown(part.tool, part.state)
+      return body ? `${heading}\n\n${body}` : heading
+    }
+    default:
+      return null
+  }
+}
+
+/** Icon, title and arguments of a tool call, as shown in its header */
+export function toolCallHeading(tool: string, state?: ToolState): string {
+  const args = getToolArgsSummary(tool, state)
+  return `${getToolIcon(tool)} ${resolveTitleForTool({ toolName: tool, state })}${args ? ` ${args}` : ""}`
+}
+
+/** Diff, command, written content or output of a tool call as Markdown */
+export function toolCallMarkdown(tool: string, state?: ToolState): string | null {
+  if (state?.status === "error") {
+    return ensureMarkdownContent(state.error, "text", true)
+  }
+  const diff = extractDiffPayload(tool, state)
+  if (diff) {
+    return ensureMarkdownContent(diff.diffText, "diff", true)
+  }
+  const { input, output } = readToolStatePayload(state)
+  if (tool === "bash" && typeof input.command === "string") {
+    const result = formatUnknown(output)?.text
+    return ensureMarkdownContent(`$ ${input.command}${result ? `\n${result}` : ""}`, "bash", true)
+  }
+  if (tool === "write" && typeof input.content === "string") {
+    const filePath = typeof input.filePath === "string" ? input.filePath : undefined
+    return ensureMarkdownContent(input.content, inferLanguageFromPath(filePath) ?? "text", true)
+  }
+  const formatted = formatUnknown(output)
+  return formatted ? ensureMarkdownContent(formatted.text, formatted.language ?? "text", true) : null
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const HTML_STYLES = `
+:root { color-scheme: light dark; --fg: #1f2328; --muted: #656d76; --bg: #ffffff; --panel: #f6f8fa; --border: #d0d7de; --add: #1a7f37; --del: #cf222e; --add-bg: #dafbe1; --del-bg: #ffebe9; }
+@media (prefers-color-scheme: dark) { :root { --fg: #e6edf3; --muted: #8d96a0; --bg: #0d1117; --panel: #161b22; --border: #30363d; --add: #3fb950; --del: #f85149; --add-bg: #12261e; --del-bg: #25171c; } }
+body { margin: 0; background: var(--bg); color: var(--fg); font: 14px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+main { max-width: 920px; margin: 0 auto; padding: 32px 20px 64px; }
+h1 { font-size: 22px; margin: 32px 0 4px; }
+.meta { color: var(--muted); font-size: 12px; margin-bottom: 16px; }
+.message { border: 1px solid var(--border); border-radius: 8px; padding: 10px 14px; margin: 12px 0; }
+.message.user { background: var(--panel); }
+.role { font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: .04em; color: var(--muted); }
+.reasoning { color: var(--muted); border-left: 3px solid var(--border); padding-left: 10px; font-style: italic; }
+.tool { border: 1px solid var(--border); border-radius: 6px; margin: 8px 0; }
+.tool > summary { cursor: pointer; padding: 6px 10px; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; }
+.tool > .tool-body { border-top: 1px solid var(--border); padding: 0 10px; overflow-x: auto; }
+.tool.error > summary { color: var(--del); }
+pre { overflow-x: auto; padding: 8px; border-radius: 6px; background: var(--panel); font-size: 12px; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+.diff { padding: 0; }
+.diff span { display: block; padding: 0 8px; white-space: pre; }
+.diff .add { color: var(--add); background: var(--add-bg); }
+.diff .del { color: var(--del); background: var(--del-bg); }
+.diff .hunk { color: var(--muted); }
+.markdown-code-block .code-block-header { display: none; }
+a { color: inherit; }
+`
+
+export async function sessionBundleToHtml(bundle: SessionExportBundle): Promise<string> {
+  const sections: string[] = []
+  for (const [index, entry] of bundle.sessions.entries()) {
+    const messages: string[] = []
+    for (const message of entry.messages) {
+      messages.push(await messageToHtml(message))
+    }
+    sections.push(
+      `<section id="session-${escapeHtml(entry.info.id)}">` +
+        `<h1>${index > 0 ? "Subagent: " : ""}${escapeHtml(entry.info.title || "Untitled")}</h1>` +
+        `<div class="meta">${escapeHtml(formatTime(entry.info.time.created))} · ${entry.messages.length} messages</div>` +
+        messages.join("\n") +
+        `</section>`,
+    )
+  }
+
+  const title = escapeHtml(bundle.sessions[0]?.info.title || "Session")
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">`,
+    `<title>${title}</title><style>${HTML_STYLES}</style></head>`,
+    `<body><main>${sections.join("\n")}`,
+    `<p class="meta">Exported ${escapeHtml(formatTime(bundle.exportedAt))}</p></main></body></html>`,
+  ].join("\n")
+}
+
+async function messageToHtml(message: SessionBundleMessage): Promise<string> {
+  const blocks: string[] = []
+  for (const part of message.parts as unknown as Part[]) {
+    const html = await partToHtml(part)
+    if (html) blocks.push(html)
+  }
+  const role = message.info.role === "user" ? "user" : "assistant"
+  return `<article class="message ${role}"><div class="role">${role}</div>${blocks.join("\n")}</article>`
+}
+
+async function partToHtml(part: Part): Promise<string | null> {
+  switch (part.type) {
+    case "text":
+      return part.synthetic || !part.text.trim() ? null : renderMarkdown(part.text)
+    case "reasoning":
+      return part.text.trim() ? `<div class="reasoning">${await renderMarkdown(part.text)}</div>` : null
+    case "file":
+      return `<p>📎 ${escapeHtml(part.filename ?? part.url)}</p>`
+    case "tool":
+      return toolToHtml(part.tool, part.state)
+    default:
+      return null
+  }
+}
+
+async function toolToHtml(tool: string, state?: ToolState): Promise<string> {
+  const { metadata } = readToolStatePayload(state)
+  const childSession = tool === "task" && typeof metadata.sessionId === "string" ? metadata.sessionId : null
+  const summary = escapeHtml(toolCallHeading(tool, state))
+  const link = childSession ? ` <a href="#session-${escapeHtml(childSession)}">open subagent</a>` : ""
+
+  let body: string | null = null
+  const diff = state?.status === "error" ? null : extractDiffPayload(tool, state)
+  if (diff) {
+    body = diffToHtml(diff.diffText)
+  } else {
+    const markdown = toolCallMarkdown(tool, state)
+    body = markdown ? await renderMarkdown(markdown) : null
+  }
+
+  const classes = state?.status === "error" ? "tool error" : "tool"
+  const content = body ? `<div class="tool-body">${body}</div>` : ""
+  return `<details class="${classes}"><summary>${summary}${link}</summary>${content}</details>`
+}
+
+function diffToHtml(diffText: string): string {
+  const lines = diffText.replace(/\n$/, "").split("\n").map((line) => {
+    const kind = line.startsWith("@@")
+      ? "hunk"
+      : line.startsWith("+") && !line.startsWith("+++")
+        ? "add"
+        : line.startsWith("-") && !line.startsWith("---")
+          ? "del"
+          : ""
+    return `<span${kind ? ` class="${kind}"` : ""}>${escapeHtml(line) || " "}</span>`
+  })
+  return `<pre class="diff"><code>${lines.join("")}</code></pre>`
+}
+
+function formatTime(epochMs: number): string {
+  return new Date(epochMs).toLocaleString()
+}
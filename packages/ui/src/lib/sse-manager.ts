@@ -70,7 +70,8 @@ class SSEManager {
       const payload = event as InstanceStatusPayload
       this.updateConnectionStatus(payload.instanceId, payload.status)
       if (payload.status === "disconnected") {
-        if (payload.reason === "workspace stopped") {
+        // A crash is handled by crash recovery, which has the crash report
+        if (payload.reason === "workspace stopped" || payload.reason === "workspace crashed") {
           return
         }
         const reason = payload.reason ?? "Instance disconnected"
@@ -0,0 +1,62 @@
+import type { Component } from "solid-js"
+import {
+  Box,
+  Boxes,
+  Braces,
+  Brackets,
+  Code,
+  Component as ComponentIcon,
+  FileCode,
+  FunctionSquare,
+  Hash,
+  KeyRound,
+  ListOrdered,
+  ListTree,
+  Package,
+  Parentheses,
+  Puzzle,
+  Sigma,
+  Type,
+  Variable,
+  Zap,
+} from "lucide-solid"
+
+type IconComponent = Component<{ class?: string }>
+
+/** LSP `SymbolKind` values (1-26) with a label and icon for each */
+const SYMBOL_KINDS: Record<number, { label: string; icon: IconComponent }> = {
+  1: { label: "file", icon: FileCode },
+  2: { label: "module", icon: Package },
+  3: { label: "namespace", icon: ListTree },
+  4: { label: "package", icon: Package },
+  5: { label: "class", icon: Box },
+  6: { label: "method", icon: FunctionSquare },
+  7: { label: "property", icon: KeyRound },
+  8: { label: "field", icon: KeyRound },
+  9: { label: "constructor", icon: FunctionSquare },
+  10: { label: "enum", icon: ListOrdered },
+  11: { label: "interface", icon: ComponentIcon },
+  12: { label: "function", icon: Parentheses },
+  13: { label: "variable", icon: Variable },
+  14: { label: "constant", icon: Sigma },
+  15: { label: "string", icon: Type },
+  16: { label: "number", icon: Hash },
+  17: { label: "boolean", icon: Hash },
+  18: { label: "array", icon: Brackets },
+  19: { label: "object", icon: Braces },
+  20: { label: "key", icon: KeyRound },
+  21: { label: "null", icon: Code },
+  22: { label: "enum member", icon: ListOrdered },
+  23: { label: "struct", icon: Boxes },
+  24: { label: "event", icon: Zap },
+  25: { label: "operator", icon: Code },
+  26: { label: "type parameter", icon: Puzzle },
+}
+
+export function symbolKindLabel(kind: number): string {
+  return SYMBOL_KINDS[kind]?.label ?? "symbol"
+}
+
+export function symbolKindIcon(kind: number): IconComponent {
+  return SYMBOL_KINDS[kind]?.icon ?? Code
+}
@@ -0,0 +1,79 @@
+import type {
+  CheckpointPreviewResponse,
+  CheckpointRestoreResponse,
+  SessionCheckpoint,
+} from "../../../server/src/api-types"
+import { getLogger } from "../lib/logger"
+
+const log = getLogger("checkpoints")
+
+export interface CheckpointRestoreResult {
+  success: boolean
+  result?: CheckpointRestoreResponse
+  /** Set when the restore was refused because files were edited outside the session */
+  preview?: CheckpointPreviewResponse
+  error?: string
+}
+
+function checkpointsUrl(instanceId: string, sessionId: string, suffix = "") {
+  return `/api/workspaces/${encodeURIComponent(instanceId)}/sessions/${encodeURIComponent(sessionId)}/checkpoints${suffix}`
+}
+
+/** Checkpoints of a session, oldest first */
+export async function fetchCheckpoints(instanceId: string, sessionId: string): Promise<SessionCheckpoint[]> {
+  try {
+    const response = await fetch(checkpointsUrl(instanceId, sessionId))
+    if (!response.ok) return []
+    const data = (await response.json()) as { checkpoints?: SessionCheckpoint[] }
+    return data.checkpoints ?? []
+  } catch (error) {
+    log.warn("Failed to load checkpoints", error)
+    return []
+  }
+}
+
+export async function previewCheckpoint(
+  instanceId: string,
+  sessionId: string,
+  checkpointId: string,
+): Promise<CheckpointPreviewResponse | null> {
+  try {
+    const response = await fetch(checkpointsUrl(instanceId, sessionId, `/${encodeURIComponent(checkpointId)}/preview`))
+    if (!response.ok) return null
+    return (await response.json()) as CheckpointPreviewResponse
+  } catch (error) {
+    log.warn("Failed to preview checkpoint", error)
+    return null
+  }
+}
+
+/**
+ * Roll the working tree back to the state before the checkpoint's message.
+ * Without `force`, files edited outside the session make the restore fail
+ * with the preview listing them.
+ */
+export async function restoreCheckpoint(
+  instanceId: string,
+  sessionId: string,
+  checkpointId: string,
+  force = false,
+): Promise<CheckpointRestoreResult> {
+  try {
+    const response = await fetch(checkpointsUrl(instanceId, sessionId, `/${encodeURIComponent(checkpointId)}/restore`), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ force }),
+    })
+    const data = (await response.json().catch(() => ({}))) as CheckpointRestoreResponse & {
+      error?: string
+      preview?: CheckpointPreviewResponse
+    }
+    if (!response.ok) {
+      return { success: false, error: data.error ?? `Restore failed (${response.status})`, preview: data.preview }
+    }
+    return { success: true, result: data }
+  } catch (error) {
+    log.error("Failed to restore checkpoint", error)
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+}
@@ -0,0 +1,157 @@
+import { createSignal } from "solid-js"
+import type { WorkspaceCrashReport } from "../../../server/src/api-types"
+import { serverApi } from "../lib/api-client"
+import { getLogger } from "../lib/logger"
+import { showToastNotification } from "../lib/notifications"
+import { stopInstance } from "./instances"
+import { insertIntoPrompt } from "./prompt-templates"
+import {
+  activeParentSessionId,
+  fetchSessions,
+  getParentSessions,
+  getSessionDraftPrompt,
+  sessions,
+  setActiveParentSession,
+} from "./sessions"
+
+const log = getLogger("crash-recovery")
+
+/**
+ * Crash recovery of OpenCode instances. The server's supervisor restarts a
+ * crashed instance by itself; this store keeps the user's place across the
+ * restart (the active session tab, and prompts that were still being
+ * answered go back into their prompt boxes) and shows the crash report when
+ * the supervisor gives up.
+ */
+
+interface RecoverySnapshot {
+  activeSessionId: string | null
+  /** Unanswered prompts by session id */
+  prompts: Map<string, string>
+}
+
+/** Prompts sent and not answered yet, by instance id and session id */
+const inFlightPrompts = new Map<string, Map<string, string>>()
+/** State to restore once a crashed instance runs again, by instance id */
+const pendingRecoveries = new Map<string, RecoverySnapshot>()
+
+const [crashReport, setCrashReport] = createSignal<WorkspaceCrashReport | null>(null)
+
+export { crashReport }
+
+export function trackInFlightPrompt(instanceId: string, sessionId: string, prompt: string) {
+  const prompts = inFlightPrompts.get(instanceId) ?? new Map<string, string>()
+  prompts.set(sessionId, prompt)
+  inFlightPrompts.set(instanceId, prompts)
+}
+
+export function clearInFlightPrompt(instanceId: string, sessionId: string) {
+  inFlightPrompts.get(instanceId)?.delete(sessionId)
+}
+
+export function clearInstanceRecovery(instanceId: string) {
+  inFlightPrompts.delete(instanceId)
+  pendingRecoveries.delete(instanceId)
+  if (crashReport()?.workspaceId === instanceId) {
+    setCrashReport(null)
+  }
+}
+
+/** Remember where the user was, and tell them what the supervisor is doing */
+export function handleInstanceCrash(report: WorkspaceCrashReport) {
+  const instanceId = report.workspaceId
+  // Repeated crashes keep the snapshot of the first one
+  if (!pendingRecoveries.has(instanceId)) {
+    pendingRecoveries.set(instanceId, {
+      activeSessionId: activeParentSessionId().get(instanceId) ?? null,
+      prompts: new Map(inFlightPrompts.get(instanceId)),
+    })
+  }
+  inFlightPrompts.delete(instanceId)
+
+  const name = folderName(report.folder)
+  if (report.action === "restarting") {
+    log.warn("Instance crashed, restarting", { instanceId, attempt: report.attempt, delayMs: report.restartDelayMs })
+    showToastNotification({
+      message: `${name} crashed; restarting (attempt ${report.attempt} of ${report.maxAttempts})`,
+      variant: "warning",
+    })
+    return
+  }
+
+  log.error("Instance crashed, not restarting", { instanceId, reason: report.reason })
+  setCrashReport(report)
+}
+
+/**
+ * Put the user back where they were once a crashed instance runs again:
+ * reselect the session tab and refill prompts that went unanswered
+ */
+export async function recoverInstance(instanceId: string, folder: string) {
+  const snapshot = pendingRecoveries.get(instanceId)
+  if (!snapshot) return
+  pendingRecoveries.delete(instanceId)
+
+  try {
+    await fetchSessions(instanceId)
+  } catch (error) {
+    log.warn("Failed to reload sessions of recovered instance", { instanceId, error })
+  }
+
+  const activeSessionId = snapshot.activeSessionId
+  if (activeSessionId && getParentSessions(instanceId).some((session) => session.id === activeSessionId)) {
+    if (activeParentSessionId().get(instanceId) !== activeSessionId) {
+      setActiveParentSession(instanceId, activeSessionId)
+    }
+  }
+
+  let restored = 0
+  const instanceSessions = sessions().get(instanceId)
+  for (const [sessionId, prompt] of snapshot.prompts) {
+    if (!instanceSessions?.has(sessionId) || getSessionDraftPrompt(instanceId, sessionId).trim()) continue
+    insertIntoPrompt({ instanceId, sessionId, folder }, prompt, [])
+    restored++
+  }
+
+  if (restored > 0) {
+    showToastNotification({
+      message:
+        restored === 1
+          ? "The prompt that was being answered is back in its prompt box"
+          : `${restored} prompts that were being answered are back in their prompt boxes`,
+      variant: "info",
+    })
+  }
+}
+
+export async function restartCrashedInstance(): Promise<void> {
+  const report = crashReport()
+  if (!report) return
+  setCrashReport(null)
+
+  try {
+    await serverApi.startWorkspace(report.workspaceId)
+  } catch (error) {
+    log.error("Failed to restart crashed instance", { instanceId: report.workspaceId, error })
+    showToastNotification({
+      message: `Failed to restart ${folderName(report.folder)}`,
+      variant: "error",
+    })
+  }
+}
+
+export async function closeCrashedInstance(): Promise<void> {
+  const report = crashReport()
+  if (!report) return
+  setCrashReport(null)
+
+  try {
+    await stopInstance(report.workspaceId)
+  } catch (error) {
+    log.error("Failed to close crashed instance", { instanceId: report.workspaceId, error })
+  }
+}
+
+function folderName(folder: string): string {
+  return folder.split("/").pop() || folder
+}
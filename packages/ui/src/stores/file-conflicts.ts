@@ -14,6 +14,10 @@ import type {
   FileConflictRegion,
   FileSessionInfo,
   FileConflictType,
+  FileHistoryResponse,
+  FileHistoryVersion,
+  FileVersionContentResponse,
+  FileVersionDiffResponse,
 } from "../../../server/src/api-types"
 import { getLogger } from "../lib/logger"
 import { showToastNotification } from "../lib/notifications"
@@ -28,6 +32,7 @@ export type {
   FileConflictRegion,
   FileSessionInfo,
   FileConflictType,
+  FileHistoryVersion,
 }
 
 // API response types
@@ -54,6 +59,8 @@ interface ConflictDetailResponse {
     canAutoMerge: boolean
     mergedContent?: string
     conflicts?: FileConflictRegion[]
+    strategy?: string
+    fallbackFrom?: string
   }
   timestamp: number
   isBinary: boolean
@@ -65,14 +72,6 @@ interface ConflictDetailResponse {
   }
 }
 
-interface FileHistoryVersion {
-  hash: string
-  timestamp: number
-  sessionId: string
-  instanceId: string
-  hasContent: boolean
-}
-
 interface FileConflictState {
   // Active conflicts keyed by conflictId
   activeConflicts: Map<string, FileConflictEvent>
@@ -107,6 +106,10 @@ const getApiBase = () => {
     : "http://127.0.0.1:9898"
 }
 
+// File tracking routes of one workspace
+const getFilesApi = (workspaceId: string) =>
+  `${getApiBase()}/api/workspaces/${encodeURIComponent(workspaceId)}/files`
+
 // Derived state
 export const activeConflicts = createMemo(() => Array.from(state.activeConflicts.values()))
 export const activeConflictCount = createMemo(() => state.activeConflicts.size)
@@ -221,14 +224,13 @@ export function selectConflict(conflictId: string | null): void {
 // Fetch conflict details from API
 export async function fetchConflictDetails(
   conflictId: string,
-  workspaceRoot: string
+  workspaceId: string
 ): Promise<ConflictDetailResponse | null> {
   setState("loadingConflict", conflictId)
 
   try {
-    const params = new URLSearchParams({ workspaceRoot })
     const response = await fetch(
-      `${getApiBase()}/api/files/conflicts/${conflictId}?${params}`,
+      `${getFilesApi(workspaceId)}/conflicts/${conflictId}`,
       {
         headers: { "Content-Type": "application/json" },
       }
@@ -253,21 +255,20 @@ export async function resolveConflict(
   conflictId: string,
   resolution: "auto-merged" | "keep-ours" | "keep-theirs" | "manual",
   sessionId: string,
-  workspaceRoot: string,
+  workspaceId: string,
   content?: string
 ): Promise<{ success: boolean; newHash?: string; error?: string }> {
   setState("loading", true)
 
   try {
     const response = await fetch(
-      `${getApiBase()}/api/files/conflicts/${conflictId}/resolve`,
+      `${getFilesApi(workspaceId)}/conflicts/${conflictId}/resolve`,
       {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           resolution,
           sessionId,
-          workspaceRoot,
           content,
         }),
       }
@@ -291,14 +292,13 @@ export async function resolveConflict(
 
 // Fetch all active conflicts from API
 export async function fetchActiveConflicts(
-  workspaceRoot: string
+  workspaceId: string
 ): Promise<FileConflictEvent[]> {
   setState("loading", true)
 
   try {
-    const params = new URLSearchParams({ workspaceRoot })
     const response = await fetch(
-      `${getApiBase()}/api/files/conflicts?${params}`,
+      `${getFilesApi(workspaceId)}/conflicts`,
       {
         headers: { "Content-Type": "application/json" },
       }
@@ -332,12 +332,11 @@ export async function fetchActiveConflicts(
 
 // Fetch tracked files from API
 export async function fetchTrackedFiles(
-  workspaceRoot: string
+  workspaceId: string
 ): Promise<TrackedFileInfo[]> {
   try {
-    const params = new URLSearchParams({ workspaceRoot })
     const response = await fetch(
-      `${getApiBase()}/api/files/tracked?${params}`,
+      `${getFilesApi(workspaceId)}/tracked`,
       {
         headers: { "Content-Type": "application/json" },
       }
@@ -358,12 +357,20 @@ export async function fetchTrackedFiles(
 // Fetch file history from API
 export async function fetchFileHistory(
   filePath: string,
-  workspaceRoot: string
+  workspaceId: string
 ): Promise<FileHistoryVersion[]> {
+  return (await fetchFileHistoryDetails(filePath, workspaceId))?.versions ?? []
+}
+
+// Fetch file history along with the hash of the file on disk
+export async function fetchFileHistoryDetails(
+  filePath: string,
+  workspaceId: string
+): Promise<FileHistoryResponse | null> {
   try {
-    const params = new URLSearchParams({ path: filePath, workspaceRoot })
+    const params = new URLSearchParams({ path: filePath })
     const response = await fetch(
-      `${getApiBase()}/api/files/history?${params}`,
+      `${getFilesApi(workspaceId)}/history?${params}`,
       {
         headers: { "Content-Type": "application/json" },
       }
@@ -373,97 +380,132 @@ export async function fetchFileHistory(
       throw new Error(`Failed to fetch file history: ${response.statusText}`)
     }
 
-    const data = await response.json()
-    return data.versions
+    return await response.json()
   } catch (error) {
     log.error("Failed to fetch file history", { error })
-    return []
+    return null
   }
 }
 
-// Preview a merge without applying it
-export async function previewMerge(
-  base: string,
-  ours: string,
-  theirs: string,
-  filePath?: string
-): Promise<{
-  success: boolean
-  merged: string | null
-  hasConflicts: boolean
-  conflicts: FileConflictRegion[]
-} | null> {
+// Fetch the content of one stored version
+export async function fetchFileVersion(
+  filePath: string,
+  hash: string,
+  workspaceId: string
+): Promise<FileVersionContentResponse | null> {
   try {
-    const response = await fetch(`${getApiBase()}/api/files/merge-preview`, {
-      method: "POST",
+    const params = new URLSearchParams({ path: filePath, hash })
+    const response = await fetch(`${getFilesApi(workspaceId)}/history?${params}`, {
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ base, ours, theirs, filePath }),
     })
 
     if (!response.ok) {
-      throw new Error(`Failed to preview merge: ${response.statusText}`)
+      throw new Error(`Failed to fetch file version: ${response.statusText}`)
     }
 
     return await response.json()
   } catch (error) {
-    log.error("Failed to preview merge", { error })
+    log.error("Failed to fetch file version", { hash, error })
+    return null
+  }
+}
+
+// Diff two stored versions ("current" is the file on disk)
+export async function fetchVersionDiff(
+  filePath: string,
+  from: string,
+  to: string,
+  workspaceId: string
+): Promise<FileVersionDiffResponse | null> {
+  try {
+    const params = new URLSearchParams({ path: filePath, from, to })
+    const response = await fetch(`${getFilesApi(workspaceId)}/history/diff?${params}`, {
+      headers: { "Content-Type": "application/json" },
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to diff file versions: ${response.statusText}`)
+    }
+
+    return await response.json()
+  } catch (error) {
+    log.error("Failed to diff file versions", { from, to, error })
     return null
   }
 }
 
-// Register a file read/write with the conflict detector
-export async function registerFileOperation(
-  path: string,
+// Write a stored version back to disk
+export async function restoreFileVersion(
+  filePath: string,
+  hash: string,
   sessionId: string,
-  instanceId: string,
-  mode: "read" | "write",
-  workspaceRoot: string,
-  content?: string,
-  hash?: string
-): Promise<{ success: boolean; hash?: string; conflict?: { conflictId: string } }> {
+  workspaceId: string,
+  expectedHash?: string
+): Promise<{ success: boolean; newHash?: string; error?: string }> {
   try {
-    const response = await fetch(`${getApiBase()}/api/files/register`, {
+    const response = await fetch(`${getFilesApi(workspaceId)}/history/restore`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        path,
-        sessionId,
-        instanceId,
-        mode,
-        workspaceRoot,
-        content,
-        hash,
-      }),
+      body: JSON.stringify({ path: filePath, hash, sessionId, expectedHash }),
     })
 
     const data = await response.json()
 
-    if (response.status === 409) {
-      // Conflict detected
-      return { success: false, conflict: data.conflict }
+    if (!response.ok) {
+      return {
+        success: false,
+        error: response.status === 412 ? "The file changed since the history was loaded" : data.error || response.statusText,
+      }
     }
 
+    return { success: true, newHash: data.newHash }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    log.error("Failed to restore file version", { hash, error })
+    return { success: false, error: message }
+  }
+}
+
+// Preview a merge without applying it
+export async function previewMerge(
+  base: string,
+  ours: string,
+  theirs: string,
+  filePath?: string
+): Promise<{
+  success: boolean
+  merged: string | null
+  hasConflicts: boolean
+  conflicts: FileConflictRegion[]
+} | null> {
+  try {
+    const response = await fetch(`${getApiBase()}/api/files/merge-preview`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ base, ours, theirs, filePath }),
+    })
+
     if (!response.ok) {
-      throw new Error(data.error || response.statusText)
+      throw new Error(`Failed to preview merge: ${response.statusText}`)
     }
 
-    return { success: true, hash: data.hash }
+    return await response.json()
   } catch (error) {
-    log.error("Failed to register file operation", { error })
-    return { success: false }
+    log.error("Failed to preview merge", { error })
+    return null
   }
 }
 
 // Unregister a session from file tracking
 export async function unregisterSession(
   sessionId: string,
-  workspaceRoot: string
+  workspaceId: string
 ): Promise<boolean> {
   try {
-    const response = await fetch(`${getApiBase()}/api/files/unregister-session`, {
+    const response = await fetch(`${getFilesApi(workspaceId)}/unregister-session`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ sessionId, workspaceRoot }),
+      body: JSON.stringify({ sessionId }),
     })
 
     return response.ok
@@ -474,7 +516,7 @@ export async function unregisterSession(
 }
 
 // Fetch file conflict stats
-export async function fetchFileStats(workspaceRoot: string): Promise<{
+export async function fetchFileStats(workspaceId: string): Promise<{
   trackedFiles: number
   totalVersions: number
   activeSessions: number
@@ -482,8 +524,7 @@ export async function fetchFileStats(workspaceRoot: string): Promise<{
   watcherRunning: boolean
 } | null> {
   try {
-    const params = new URLSearchParams({ workspaceRoot })
-    const response = await fetch(`${getApiBase()}/api/files/stats?${params}`, {
+        const response = await fetch(`${getFilesApi(workspaceId)}/stats`, {
       headers: { "Content-Type": "application/json" },
     })
 
@@ -0,0 +1,113 @@
+import { createSignal } from "solid-js"
+import type { GateEntry, WorkspaceEventPayload } from "../../../server/src/api-types"
+import { serverEvents } from "../lib/server-events"
+import { showToastNotification } from "../lib/notifications"
+import { getLogger } from "../lib/logger"
+
+const log = getLogger("gates")
+
+const [pendingGates, setPendingGates] = createSignal<GateEntry[]>([])
+
+let initialized = false
+
+export function initGateNotifications() {
+  if (initialized) {
+    return
+  }
+  initialized = true
+
+  void refreshPendingGates()
+
+  serverEvents.on("gate.created", (event) => {
+    const { gate } = event as Extract<WorkspaceEventPayload, { type: "gate.created" }>
+    setPendingGates((prev) => [gate, ...prev.filter((entry) => entry.id !== gate.id)])
+    notifyGate(gate)
+  })
+
+  serverEvents.on("gate.resolved", (event) => {
+    const { gate } = event as Extract<WorkspaceEventPayload, { type: "gate.resolved" }>
+    setPendingGates((prev) => prev.filter((entry) => entry.id !== gate.id))
+  })
+}
+
+export async function refreshPendingGates() {
+  try {
+    const response = await fetch("/api/era/gates/status?status=waiting")
+    if (!response.ok) return
+    const data = (await response.json()) as { gates?: GateEntry[] }
+    setPendingGates(data.gates ?? [])
+  } catch (error) {
+    log.warn("Unable to load pending gates", error)
+  }
+}
+
+export function usePendingGates() {
+  return pendingGates
+}
+
+export function approveGate(gateId: string, comment?: string): Promise<GateEntry> {
+  return decideGate(gateId, "approve", comment)
+}
+
+export function rejectGate(gateId: string, comment?: string): Promise<GateEntry> {
+  return decideGate(gateId, "reject", comment)
+}
+
+async function decideGate(gateId: string, decision: "approve" | "reject", comment?: string): Promise<GateEntry> {
+  const response = await fetch(`/api/era/gates/${encodeURIComponent(gateId)}/${decision}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ comment: comment?.trim() || undefined }),
+  })
+  const data = (await response.json().catch(() => ({}))) as { gate?: GateEntry; error?: string }
+  if (!response.ok || !data.gate) {
+    throw new Error(data.error ?? `Failed to ${decision} gate (${response.status})`)
+  }
+  setPendingGates((prev) => prev.filter((entry) => entry.id !== gateId))
+  return data.gate
+}
+
+function notifyGate(gate: GateEntry) {
+  const message = gate.description ? `${gate.title}\n${gate.description}` : gate.title
+
+  showToastNotification({
+    title: "Approval required",
+    message: gate.title,
+    variant: "warning",
+    duration: 60_000,
+    buttons: [
+      { label: "Approve", onClick: () => void runDecision(gate, "approve") },
+      { label: "Reject", tone: "danger", onClick: () => void runDecision(gate, "reject") },
+    ],
+  })
+
+  // A system notification only helps when the window is in the background
+  if (typeof Notification === "undefined" || document.hasFocus()) return
+  const show = () => {
+    const notification = new Notification("Approval required", { body: message, tag: gate.id })
+    notification.onclick = () => {
+      window.focus()
+      notification.close()
+    }
+  }
+  if (Notification.permission === "granted") {
+    show()
+  } else if (Notification.permission === "default") {
+    void Notification.requestPermission().then((permission) => {
+      if (permission === "granted") show()
+    })
+  }
+}
+
+async function runDecision(gate: GateEntry, decision: "approve" | "reject") {
+  try {
+    await (decision === "approve" ? approveGate(gate.id) : rejectGate(gate.id))
+  } catch (error) {
+    log.error(`Failed to ${decision} gate`, error)
+    showToastNotification({
+      title: "Gate decision failed",
+      message: error instanceof Error ? error.message : String(error),
+      variant: "error",
+    })
+  }
+}
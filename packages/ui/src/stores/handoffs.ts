@@ -0,0 +1,106 @@
+import { createSignal } from "solid-js"
+import type { HandoffEntry, HandoffReason } from "../../../server/src/api-types"
+import { showToastNotification } from "../lib/notifications"
+import { getLogger } from "../lib/logger"
+import { fetchSessions, getSessionInfo, setActiveParentSession } from "./sessions"
+
+const log = getLogger("handoffs")
+
+/** Share of the context window (after reserving output tokens) at which we offer a handoff */
+const CONTEXT_HANDOFF_THRESHOLD = 0.85
+
+const [handoffInProgress, setHandoffInProgress] = createSignal<Set<string>>(new Set())
+
+// Sessions already offered a handoff, so the prompt shows once per session
+const prompted = new Set<string>()
+
+function sessionKey(instanceId: string, sessionId: string) {
+  return `${instanceId}:${sessionId}`
+}
+
+export function isHandoffInProgress(instanceId: string, sessionId: string): boolean {
+  return handoffInProgress().has(sessionKey(instanceId, sessionId))
+}
+
+/** Fraction of the usable context window a session has consumed, or null when unknown. */
+export function getContextUsage(instanceId: string, sessionId: string): number | null {
+  const info = getSessionInfo(instanceId, sessionId)
+  if (!info || info.contextWindow <= 0 || info.contextAvailableTokens === null) return null
+  return Math.min(1, Math.max(0, 1 - info.contextAvailableTokens / info.contextWindow))
+}
+
+/**
+ * Summarize a session into a handoff document, continue in the new child
+ * session and switch to it.
+ */
+export async function requestHandoff(
+  instanceId: string,
+  sessionId: string,
+  reason: HandoffReason = "manual",
+): Promise<HandoffEntry | null> {
+  const key = sessionKey(instanceId, sessionId)
+  if (handoffInProgress().has(key)) return null
+  setHandoffInProgress((prev) => new Set(prev).add(key))
+
+  try {
+    const response = await fetch("/api/era/handoffs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        instanceId,
+        sessionId,
+        reason,
+        contextUsage: getContextUsage(instanceId, sessionId) ?? undefined,
+      }),
+    })
+    const data = (await response.json().catch(() => ({}))) as { handoff?: HandoffEntry; error?: string }
+    if (!response.ok || !data.handoff) {
+      throw new Error(data.error ?? `Handoff failed (${response.status})`)
+    }
+
+    const { handoff } = data
+    if (handoff.toSessionId) {
+      await fetchSessions(instanceId).catch((error) => log.warn("Failed to refresh sessions after handoff", error))
+      setActiveParentSession(instanceId, handoff.toSessionId)
+    }
+    showToastNotification({
+      title: "Session handed off",
+      message: `Continuing in a new session. Handoff notes saved to ${handoff.documentPath}.`,
+      variant: "success",
+    })
+    return handoff
+  } catch (error) {
+    log.error("Failed to hand off session", error)
+    showToastNotification({
+      title: "Handoff failed",
+      message: error instanceof Error ? error.message : String(error),
+      variant: "error",
+    })
+    return null
+  } finally {
+    setHandoffInProgress((prev) => {
+      const next = new Set(prev)
+      next.delete(key)
+      return next
+    })
+  }
+}
+
+/**
+ * Offer a handoff once a session's context is nearly exhausted. Called from
+ * the session info updater whenever usage changes.
+ */
+export function checkContextExhaustion(instanceId: string, sessionId: string, contextUsage: number | null) {
+  if (contextUsage === null || contextUsage < CONTEXT_HANDOFF_THRESHOLD) return
+  const key = sessionKey(instanceId, sessionId)
+  if (prompted.has(key)) return
+  prompted.add(key)
+
+  showToastNotification({
+    title: "Context almost full",
+    message: `This session has used ${Math.round(contextUsage * 100)}% of the model's context. Hand off to a new session with a summary of the work so far?`,
+    variant: "warning",
+    duration: 30_000,
+    buttons: [{ label: "Hand off", onClick: () => void requestHandoff(instanceId, sessionId, "context_exhaustion") }],
+  })
+}
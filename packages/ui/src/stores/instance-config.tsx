@@ -18,6 +18,7 @@ function cloneInstanceData(data?: InstanceData | null): InstanceData {
     messageHistory: Array.isArray(source.messageHistory) ? [...source.messageHistory] : [],
     agentModelSelections: { ...(source.agentModelSelections ?? {}) },
     permissionOverride: source.permissionOverride,
+    sessionForks: source.sessionForks ? { ...source.sessionForks } : undefined,
   }
 }
 
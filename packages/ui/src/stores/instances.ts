@@ -1,20 +1,30 @@
-import { createSignal } from "solid-js"
+import { createEffect, createRoot, createSignal } from "solid-js"
 import type { Instance, LogEntry } from "../types/instance"
 import type { LspStatus, Permission } from "@opencode-ai/sdk"
 import { sdkManager } from "../lib/sdk-manager"
 import { sseManager } from "../lib/sse-manager"
 import { serverApi } from "../lib/api-client"
 import { serverEvents } from "../lib/server-events"
-import type { WorkspaceDescriptor, WorkspaceEventPayload, WorkspaceLogEntry } from "../../../server/src/api-types"
+import type {
+  WorkspaceDescriptor,
+  WorkspaceEventPayload,
+  WorkspaceLogEntry,
+  WorkspaceSessionState,
+} from "../../../server/src/api-types"
 import { ensureInstanceConfigLoaded } from "./instance-config"
 import {
   fetchSessions,
   fetchAgents,
   fetchProviders,
   clearInstanceDraftPrompts,
+  activeParentSessionId,
+  getParentSessions,
+  setActiveParentSession,
 } from "./sessions"
 import { fetchCommands, clearCommands } from "./commands"
 import { preferences, setAgentModelPreference } from "./preferences"
+import { applyMergedMcpServers } from "./project-mcp"
+import { clearSessionMcpOverrides } from "./session-mcp"
 import { isModelValid } from "./session-models"
 import { instanceApi } from "../lib/instance-api"
 import { setSessionPendingPermission } from "./session-state"
@@ -24,6 +34,8 @@ import { clearCacheForInstance } from "../lib/global-cache"
 import { getLogger } from "../lib/logger"
 import { mergeInstanceMetadata, clearInstanceMetadata } from "./instance-metadata"
 import { showToastNotification } from "../lib/notifications"
+import { clearInstanceRecovery, handleInstanceCrash, recoverInstance } from "./crash-recovery"
+import { sessionDirectoryQuery } from "./worktrees"
 
 const log = getLogger("api")
 
@@ -51,6 +63,14 @@ const IDLE_CHECK_INTERVAL_MS = 60000 // Check every minute
 
 const MAX_LOG_ENTRIES = 1000
 
+// Workspace restore: session tabs recorded by the server for the previous
+// run, applied once each workspace's sessions load
+const [workspacesLoaded, setWorkspacesLoaded] = createSignal(false)
+const pendingSessionRestores = new Map<string, WorkspaceSessionState>()
+const savedSessionStates = new Map<string, string>()
+const sessionStateSaveTimers = new Map<string, ReturnType<typeof setTimeout>>()
+const SESSION_STATE_SAVE_DELAY_MS = 1000
+
 function workspaceDescriptorToInstance(descriptor: WorkspaceDescriptor): Instance {
   const existing = instances().get(descriptor.id)
   return {
@@ -143,29 +163,11 @@ async function applyGlobalMcpRegistry(instanceId: string) {
   const config = preferences()
   if (!config.mcpAutoApply) return
 
-  const registry = config.mcpRegistry ?? {}
-  const entries = Object.entries(registry)
-  if (entries.length === 0) return
-
   const instance = instances().get(instanceId)
   if (!instance?.client) return
 
-  for (const [name, serverConfig] of entries) {
-    if (!name) continue
-
-    const desired = config.mcpDesiredState?.[name] ?? (serverConfig.enabled ?? true)
-
-    try {
-      await instanceApi.upsertMcp(instance, name, { ...serverConfig, enabled: desired })
-      if (desired) {
-        await instanceApi.connectMcp(instance, name)
-      } else {
-        await instanceApi.disconnectMcp(instance, name)
-      }
-    } catch (error) {
-      log.error("Failed to sync MCP server", { instanceId, name, error })
-    }
-  }
+  // Era-code defaults, the global registry and the project's .era/mcp.json
+  await applyMergedMcpServers(instance)
 
   try {
     const mcpResult = await instance.client.mcp.status()
@@ -197,6 +199,7 @@ async function applyGlobalSettingsToInstance(instanceId: string) {
 async function hydrateInstanceData(instanceId: string) {
   try {
     await fetchSessions(instanceId)
+    restoreSessionState(instanceId)
     await fetchAgents(instanceId)
     await fetchProviders(instanceId)
     await ensureInstanceConfigLoaded(instanceId)
@@ -210,18 +213,129 @@ async function hydrateInstanceData(instanceId: string) {
   }
 }
 
+/**
+ * Reselect the session tab that was active when a restored workspace was
+ * last open, falling back to its most recent open tab that still exists
+ */
+function restoreSessionState(instanceId: string) {
+  const state = pendingSessionRestores.get(instanceId)
+  if (!state) return
+  pendingSessionRestores.delete(instanceId)
+  if (activeParentSessionId().has(instanceId)) return
+
+  const available = new Set(getParentSessions(instanceId).map((session) => session.id))
+  const candidates = [state.activeSessionId, ...[...state.openSessionIds].reverse()]
+  const sessionId = candidates.find((id): id is string => Boolean(id && available.has(id)))
+  if (sessionId) {
+    setActiveParentSession(instanceId, sessionId)
+  }
+}
+
+function scheduleSessionStateSave(instanceId: string, state: WorkspaceSessionState) {
+  const serialized = JSON.stringify(state)
+  if (savedSessionStates.get(instanceId) === serialized) return
+
+  clearTimeout(sessionStateSaveTimers.get(instanceId))
+  sessionStateSaveTimers.set(
+    instanceId,
+    setTimeout(() => {
+      sessionStateSaveTimers.delete(instanceId)
+      savedSessionStates.set(instanceId, serialized)
+      void serverApi.saveWorkspaceSessionState(instanceId, state).catch((error) => {
+        savedSessionStates.delete(instanceId)
+        log.warn("Failed to save workspace session state", { instanceId, error })
+      })
+    }, SESSION_STATE_SAVE_DELAY_MS),
+  )
+}
+
+function clearSessionStateTracking(instanceId: string) {
+  clearTimeout(sessionStateSaveTimers.get(instanceId))
+  sessionStateSaveTimers.delete(instanceId)
+  savedSessionStates.delete(instanceId)
+  pendingSessionRestores.delete(instanceId)
+}
+
+/**
+ * Relaunch a restored workspace. The server keeps restored workspaces stopped
+ * until they are first opened, so selecting one starts it
+ */
+async function startRestoredInstance(instanceId: string) {
+  const instance = instances().get(instanceId)
+  if (!instance || instance.status !== "stopped") return
+
+  updateInstance(instanceId, { status: "starting", error: undefined })
+  try {
+    const workspace = await serverApi.startWorkspace(instanceId)
+    upsertWorkspace(workspace)
+  } catch (error) {
+    log.error("Failed to start restored workspace", { instanceId, error })
+    updateInstance(instanceId, {
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
 void (async function initializeWorkspaces() {
   try {
-    const workspaces = await serverApi.fetchWorkspaces()
+    const [workspaces, restoreState] = await Promise.all([
+      serverApi.fetchWorkspaces(),
+      serverApi.fetchWorkspaceRestoreState().catch((error) => {
+        log.warn("Failed to load workspace restore state", error)
+        return null
+      }),
+    ])
+    for (const [workspaceId, state] of Object.entries(restoreState?.sessions ?? {})) {
+      pendingSessionRestores.set(workspaceId, state)
+    }
     workspaces.forEach((workspace) => upsertWorkspace(workspace))
     if (workspaces.length === 0) {
       setHasInstances(false)
     }
+
+    const restoredActiveId = restoreState?.activeWorkspaceId
+    if (!activeInstanceId() && restoredActiveId && instances().has(restoredActiveId)) {
+      setActiveInstanceId(restoredActiveId)
+    }
   } catch (error) {
     log.error("Failed to load workspaces", error)
+  } finally {
+    setWorkspacesLoaded(true)
   }
 })()
 
+createRoot(() => {
+  // Opening a restored workspace relaunches it
+  createEffect(() => {
+    const id = activeInstanceId()
+    if (id && instances().get(id)?.status === "stopped") {
+      void startRestoredInstance(id)
+    }
+  })
+
+  createEffect(() => {
+    if (!workspacesLoaded()) return
+    const id = activeInstanceId()
+    void serverApi.setActiveWorkspace(id).catch((error) => {
+      log.warn("Failed to save active workspace", { workspaceId: id, error })
+    })
+  })
+
+  // Record each running workspace's session tabs so a restart can reopen them
+  createEffect(() => {
+    if (!workspacesLoaded()) return
+    const activeParents = activeParentSessionId()
+    for (const instance of instances().values()) {
+      if (instance.status !== "ready" || pendingSessionRestores.has(instance.id)) continue
+      scheduleSessionStateSave(instance.id, {
+        openSessionIds: getParentSessions(instance.id).map((session) => session.id),
+        activeSessionId: activeParents.get(instance.id) ?? null,
+      })
+    }
+  })
+})
+
 serverEvents.on("*", (event) => handleWorkspaceEvent(event))
 
 function handleWorkspaceEvent(event: WorkspaceEventPayload) {
@@ -231,6 +345,11 @@ function handleWorkspaceEvent(event: WorkspaceEventPayload) {
       break
     case "workspace.started":
       upsertWorkspace(event.workspace)
+      void recoverInstance(event.workspace.id, event.workspace.path)
+      break
+    case "workspace.crashed":
+      upsertWorkspace(event.workspace)
+      handleInstanceCrash(event.report)
       break
     case "workspace.error":
       upsertWorkspace(event.workspace)
@@ -373,6 +492,9 @@ function removeInstance(id: string) {
   clearCommands(id)
   clearPermissionQueue(id)
   clearInstanceMetadata(id)
+  clearSessionMcpOverrides(id)
+  clearSessionStateTracking(id)
+  clearInstanceRecovery(id)
   // Clean up idle tracking
   instanceLastActivity.delete(id)
 
@@ -646,6 +768,7 @@ async function sendPermissionResponse(
   try {
     await instance.client.postSessionIdPermissionsPermissionId({
       path: { id: sessionId, permissionID: permissionId },
+      query: sessionDirectoryQuery(instanceId, sessionId),
       body: { response },
     })
 
@@ -751,6 +874,8 @@ function checkIdleInstances(): void {
   const now = Date.now()
 
   for (const instance of instances().values()) {
+    // Restored workspaces that were never reopened have no process to stop
+    if (instance.status === "stopped") continue
     const lastActivity = instanceLastActivity.get(instance.id) ?? now
     const idleTime = now - lastActivity
 
@@ -1,22 +1,19 @@
 import { createSignal } from "solid-js"
+import type {
+  LinearComment,
+  LinearIssue,
+  LinearIssueDetail,
+  LinearIssuesResponse,
+  LinearStatus,
+  LinearWorkflowState,
+} from "../../../server/src/api-types"
 import { ERA_CODE_API_BASE } from "../lib/api-client"
 import { getLogger } from "../lib/logger"
+import { createSession, renameSession, setActiveParentSession, setSessionDraftPrompt } from "./sessions"
 
 const log = getLogger("linear-tasks")
 
-export interface LinearIssue {
-  id: string
-  identifier: string
-  title: string
-  status: string
-  statusColor: string
-  priority: number
-  priorityLabel: string
-  labels: string[]
-  assignee: string | null
-  url: string
-  updatedAt: number
-}
+export type { LinearComment, LinearIssue, LinearIssueDetail, LinearWorkflowState }
 
 export type LinearConnectionStatus = "disconnected" | "connecting" | "connected" | "error"
 
@@ -24,6 +21,7 @@ const [linearTasks, setLinearTasks] = createSignal<Map<string, LinearIssue[]>>(n
 const [linearStatus, setLinearStatus] = createSignal<LinearConnectionStatus>("disconnected")
 const [linearError, setLinearError] = createSignal<string | null>(null)
 const [lastSyncTime, setLastSyncTime] = createSignal<number | null>(null)
+const [linearConnection, setLinearConnection] = createSignal<LinearStatus | null>(null)
 
 async function apiRequest<T>(path: string, init?: RequestInit): Promise<T> {
   const url = ERA_CODE_API_BASE ? new URL(path, ERA_CODE_API_BASE).toString() : path
@@ -35,28 +33,66 @@ async function apiRequest<T>(path: string, init?: RequestInit): Promise<T> {
     },
   })
   if (!response.ok) {
-    const text = await response.text().catch(() => "Unknown error")
-    throw new Error(`Linear API error (${response.status}): ${text}`)
+    const data = (await response.json().catch(() => null)) as { error?: string } | null
+    throw new Error(data?.error ?? `Linear API error (${response.status})`)
   }
   return (await response.json()) as T
 }
 
+function setInstanceTasks(instanceId: string, data: LinearIssuesResponse) {
+  setLinearTasks((prev) => {
+    const next = new Map(prev)
+    next.set(instanceId, data.issues)
+    return next
+  })
+  setLinearStatus("connected")
+  setLinearError(null)
+  setLastSyncTime(data.fetchedAt)
+}
+
+/** Replace one issue in an instance's list, e.g. after a status change */
+function patchTask(instanceId: string, issue: LinearIssue) {
+  setLinearTasks((prev) => {
+    const issues = prev.get(instanceId)
+    if (!issues) return prev
+    const next = new Map(prev)
+    next.set(
+      instanceId,
+      issues.map((existing) => (existing.id === issue.id ? issue : existing)),
+    )
+    return next
+  })
+}
+
+/** Check whether a Linear MCP server is configured and answering */
+export async function checkLinearStatus(instanceId?: string): Promise<void> {
+  try {
+    setLinearStatus("connecting")
+    const query = instanceId ? `?instanceId=${encodeURIComponent(instanceId)}` : ""
+    const status = await apiRequest<LinearStatus>(`/api/era/linear/status${query}`)
+    setLinearConnection(status)
+    setLinearStatus(status.connected ? "connected" : "disconnected")
+    setLinearError(status.error)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    log.warn("Failed to check Linear status:", message)
+    setLinearStatus("error")
+    setLinearError(message)
+  }
+}
+
 export function getLinearTasks(instanceId: string): LinearIssue[] {
   return linearTasks().get(instanceId) ?? []
 }
 
+/** Load an instance's issues; the server answers from its cache when it is fresh */
 export async function fetchLinearTasks(instanceId: string): Promise<void> {
   try {
     setLinearStatus("connecting")
-    const issues = await apiRequest<LinearIssue[]>(`/api/era/linear/issues?instanceId=${encodeURIComponent(instanceId)}`)
-    setLinearTasks((prev) => {
-      const next = new Map(prev)
-      next.set(instanceId, issues)
-      return next
-    })
-    setLinearStatus("connected")
-    setLinearError(null)
-    setLastSyncTime(Date.now())
+    const data = await apiRequest<LinearIssuesResponse>(
+      `/api/era/linear/issues?instanceId=${encodeURIComponent(instanceId)}`,
+    )
+    setInstanceTasks(instanceId, data)
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error)
     log.warn("Failed to fetch Linear tasks:", message)
@@ -65,15 +101,20 @@ export async function fetchLinearTasks(instanceId: string): Promise<void> {
   }
 }
 
+/** Refetch an instance's issues from Linear, bypassing the server cache */
 export async function syncLinearTasks(instanceId: string): Promise<void> {
   try {
-    await apiRequest<{ ok: boolean }>("/api/era/linear/sync", {
+    setLinearStatus("connecting")
+    const data = await apiRequest<LinearIssuesResponse>("/api/era/linear/sync", {
       method: "POST",
       body: JSON.stringify({ instanceId }),
     })
-    await fetchLinearTasks(instanceId)
+    setInstanceTasks(instanceId, data)
   } catch (error) {
-    log.warn("Failed to sync Linear tasks:", error)
+    const message = error instanceof Error ? error.message : String(error)
+    log.warn("Failed to sync Linear tasks:", message)
+    setLinearStatus("error")
+    setLinearError(message)
   }
 }
 
@@ -85,6 +126,67 @@ export function clearLinearTasks(instanceId: string): void {
   })
 }
 
+export async function fetchLinearIssue(instanceId: string, issueId: string): Promise<LinearIssueDetail> {
+  const issue = await apiRequest<LinearIssueDetail>(
+    `/api/era/linear/issues/${encodeURIComponent(issueId)}?instanceId=${encodeURIComponent(instanceId)}`,
+  )
+  const { description: _description, acceptanceCriteria: _criteria, team: _team, comments: _comments, ...summary } = issue
+  patchTask(instanceId, summary)
+  return issue
+}
+
+export async function fetchLinearStatuses(instanceId: string, team?: string | null): Promise<LinearWorkflowState[]> {
+  const params = new URLSearchParams({ instanceId })
+  if (team) params.set("team", team)
+  return apiRequest<LinearWorkflowState[]>(`/api/era/linear/statuses?${params.toString()}`)
+}
+
+/** Move an issue to another workflow state; throws when Linear rejects it */
+export async function updateLinearIssueStatus(instanceId: string, issueId: string, status: string): Promise<LinearIssue> {
+  const issue = await apiRequest<LinearIssue>(`/api/era/linear/issues/${encodeURIComponent(issueId)}/status`, {
+    method: "POST",
+    body: JSON.stringify({ instanceId, status }),
+  })
+  patchTask(instanceId, issue)
+  return issue
+}
+
+export async function addLinearComment(instanceId: string, issueId: string, body: string): Promise<LinearComment> {
+  return apiRequest<LinearComment>(`/api/era/linear/issues/${encodeURIComponent(issueId)}/comments`, {
+    method: "POST",
+    body: JSON.stringify({ instanceId, body }),
+  })
+}
+
+/** Draft prompt for working on an issue */
+export function buildLinearIssuePrompt(issue: LinearIssueDetail): string {
+  const sections = [`Work on Linear issue ${issue.identifier}: ${issue.title}`]
+  if (issue.url) sections.push(issue.url)
+  const description = issue.description.trim()
+  if (description) sections.push(`## Description\n\n${description}`)
+  // Criteria already in the description are not repeated
+  if (issue.acceptanceCriteria.length > 0 && !/acceptance criteria/i.test(description)) {
+    sections.push(`## Acceptance criteria\n\n${issue.acceptanceCriteria.map((item) => `- ${item}`).join("\n")}`)
+  }
+  return sections.join("\n\n")
+}
+
+/**
+ * Open a new session titled after the issue, with its title, description
+ * and acceptance criteria as the draft prompt.
+ */
+export async function startSessionFromLinearIssue(instanceId: string, issueId: string): Promise<void> {
+  const issue = await fetchLinearIssue(instanceId, issueId)
+  const session = await createSession(instanceId)
+  setSessionDraftPrompt(instanceId, session.id, buildLinearIssuePrompt(issue))
+  setActiveParentSession(instanceId, session.id)
+  try {
+    await renameSession(instanceId, session.id, `${issue.identifier}: ${issue.title}`)
+  } catch (error) {
+    log.warn("Failed to title Linear session:", error)
+  }
+}
+
 export function getPriorityColor(priority: number): string {
   switch (priority) {
     case 1: return "text-destructive"
@@ -103,4 +205,4 @@ export function getStatusDotColor(status: string): string {
   return "bg-warning"
 }
 
-export { linearTasks, linearStatus, linearError, lastSyncTime }
+export { linearTasks, linearStatus, linearError, lastSyncTime, linearConnection }
@@ -0,0 +1,85 @@
+import { createSignal } from "solid-js"
+import type { McpHealthResponse, McpServerHealth, WorkspaceEventPayload } from "../../../server/src/api-types"
+import { serverEvents } from "../lib/server-events"
+import { getLogger } from "../lib/logger"
+
+const log = getLogger("mcp-health")
+
+/**
+ * Health and tool inventory of configured MCP servers, as probed by the
+ * server's MCP supervisor. Keyed by supervisor id: the server name for
+ * global servers, `<folder>#<name>` for project servers.
+ */
+const [servers, setServers] = createSignal<Map<string, McpServerHealth>>(new Map())
+const [probing, setProbing] = createSignal<Set<string>>(new Set())
+
+let initialized = false
+
+export function initMcpHealth() {
+  if (initialized) {
+    return
+  }
+  initialized = true
+
+  void refreshMcpHealth()
+
+  serverEvents.on("mcp.statusChanged", (event) => {
+    const { server, removed } = event as Extract<WorkspaceEventPayload, { type: "mcp.statusChanged" }>
+    setServers((prev) => {
+      const next = new Map(prev)
+      if (removed) {
+        next.delete(server.id)
+      } else {
+        next.set(server.id, server)
+      }
+      return next
+    })
+  })
+}
+
+export async function refreshMcpHealth() {
+  try {
+    const response = await fetch("/api/mcp/health")
+    if (!response.ok) return
+    const data = (await response.json()) as McpHealthResponse
+    setServers(new Map(data.servers.map((server) => [server.id, server])))
+  } catch (error) {
+    log.warn("Unable to load MCP server health", error)
+  }
+}
+
+/** Health of a server as an instance of `folder` sees it: project servers shadow global ones */
+export function getMcpServerHealth(name: string, folder?: string): McpServerHealth | undefined {
+  const all = servers()
+  return (folder ? all.get(`${folder}#${name}`) : undefined) ?? all.get(name)
+}
+
+export function isProbingMcpServer(id: string): boolean {
+  return probing().has(id)
+}
+
+/** Probe one server right away; results arrive through `mcp.statusChanged` as well */
+export async function probeMcpServer(id: string): Promise<void> {
+  setProbing((prev) => new Set(prev).add(id))
+  try {
+    const response = await fetch("/api/mcp/health/probe", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id }),
+    })
+    const data = (await response.json().catch(() => ({}))) as { server?: McpServerHealth; error?: string }
+    if (!response.ok || !data.server) {
+      throw new Error(data.error ?? `Request failed with status ${response.status}`)
+    }
+    const server = data.server
+    setServers((prev) => new Map(prev).set(server.id, server))
+  } catch (error) {
+    log.warn("MCP server probe failed", { id, error })
+  } finally {
+    setProbing((prev) => {
+      const next = new Set(prev)
+      next.delete(id)
+      return next
+    })
+  }
+}
@@ -1,6 +1,7 @@
 import type { Provider } from "../../types/session"
 import { DEFAULT_MODEL_OUTPUT_LIMIT } from "../session-models"
-import { providers, sessions, sessionInfoByInstance, setSessionInfoByInstance } from "../session-state"
+import { activeSessionId, providers, sessions, sessionInfoByInstance, setSessionInfoByInstance } from "../session-state"
+import { checkContextExhaustion } from "../handoffs"
 import { messageStoreBus } from "./bus"
 import type { SessionUsageState } from "./types"
 
@@ -136,4 +137,9 @@ export function updateSessionInfo(instanceId: string, sessionId: string): void {
     next.set(instanceId, instanceInfo)
     return next
   })
+
+  // Subagent sessions end on their own; only offer handoffs for the session the user is looking at
+  if (!session.parentId && activeSessionId().get(instanceId) === sessionId && contextWindow > 0 && contextAvailableTokens !== null) {
+    checkContextExhaustion(instanceId, sessionId, 1 - contextAvailableTokens / contextWindow)
+  }
 }
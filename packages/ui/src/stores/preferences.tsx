@@ -31,6 +31,7 @@ export type DiffViewMode = "split" | "unified"
 export type ExpansionPreference = "expanded" | "collapsed"
 
 export type ListeningMode = "local" | "all"
+export type WorkspaceStartupMode = "fresh" | "restore"
 
 export type McpLocalServerConfig = {
   type: "local"
@@ -81,10 +82,19 @@ export interface Preferences {
   diagnosticsExpansion: ExpansionPreference
   showUsageMetrics: boolean
   autoCleanupBlankSessions: boolean
+  /** Create new sessions in their own git worktree and branch */
+  isolatedSessions: boolean
   stopInstanceOnLastSessionDelete: boolean
   idleInstanceTimeoutMinutes: number
   autoStopOnDisconnect: boolean
+  /** Restarts of a crashed instance before giving up; 0 = don't restart */
+  crashRestartMaxAttempts: number
+  /** "restore" reopens the previous run's workspaces when the server starts */
+  workspaceStartupMode: WorkspaceStartupMode
   listeningMode: ListeningMode
+  gateTimeoutMinutes: number
+  fileHistoryMaxVersions: number
+  fileHistoryRetentionDays: number
 
   // Permissions
   autoApprovePermissions: boolean
@@ -126,6 +136,21 @@ export interface Preferences {
       denyTools?: string[]
     } | undefined>
   }
+
+  /** Keyboard shortcut overrides by shortcut id ("mod+k", "g s"); null = unbound */
+  keybindings: Record<string, string | null>
+
+  /** Cost budgets across all projects, in USD; null = no limit */
+  usageBudgets: UsageBudgets
+}
+
+export interface UsageBudgets {
+  daily: number | null
+  monthly: number | null
+  /** Fraction of a budget (0.1–1) at which to warn */
+  warnAt: number
+  /** Refuse to send prompts while a budget is exceeded */
+  hardStop: boolean
 }
 
 
@@ -158,10 +183,16 @@ const defaultPreferences: Preferences = {
   diagnosticsExpansion: "expanded",
   showUsageMetrics: true,
   autoCleanupBlankSessions: true,
+  isolatedSessions: false,
   stopInstanceOnLastSessionDelete: false,
   idleInstanceTimeoutMinutes: 0,
   autoStopOnDisconnect: true, // Auto-stop disconnected instances to prevent orphans
+  crashRestartMaxAttempts: 5,
+  workspaceStartupMode: "restore",
   listeningMode: "local",
+  gateTimeoutMinutes: 60, // 0 = approval gates never time out
+  fileHistoryMaxVersions: 50,
+  fileHistoryRetentionDays: 30, // 0 = keep file versions forever
 
   // Permissions - default to auto-approve (skip permission prompts)
   autoApprovePermissions: true,
@@ -188,6 +219,10 @@ const defaultPreferences: Preferences = {
 
   // Tool routing
   toolRouting: { globalDeny: [], profiles: {} },
+
+  keybindings: {},
+
+  usageBudgets: { daily: null, monthly: null, warnAt: 0.8, hardStop: false },
 }
 
 
@@ -233,10 +268,16 @@ function normalizePreferences(pref?: Partial<Preferences> & { agentModelSelectio
     diagnosticsExpansion: sanitized.diagnosticsExpansion ?? defaultPreferences.diagnosticsExpansion,
     showUsageMetrics: sanitized.showUsageMetrics ?? defaultPreferences.showUsageMetrics,
     autoCleanupBlankSessions: sanitized.autoCleanupBlankSessions ?? defaultPreferences.autoCleanupBlankSessions,
+    isolatedSessions: sanitized.isolatedSessions ?? defaultPreferences.isolatedSessions,
     stopInstanceOnLastSessionDelete: sanitized.stopInstanceOnLastSessionDelete ?? defaultPreferences.stopInstanceOnLastSessionDelete,
     idleInstanceTimeoutMinutes: sanitized.idleInstanceTimeoutMinutes ?? defaultPreferences.idleInstanceTimeoutMinutes,
     autoStopOnDisconnect: sanitized.autoStopOnDisconnect ?? defaultPreferences.autoStopOnDisconnect,
+    crashRestartMaxAttempts: sanitized.crashRestartMaxAttempts ?? defaultPreferences.crashRestartMaxAttempts,
+    workspaceStartupMode: sanitized.workspaceStartupMode ?? defaultPreferences.workspaceStartupMode,
     listeningMode: sanitized.listeningMode ?? defaultPreferences.listeningMode,
+    gateTimeoutMinutes: sanitized.gateTimeoutMinutes ?? defaultPreferences.gateTimeoutMinutes,
+    fileHistoryMaxVersions: sanitized.fileHistoryMaxVersions ?? defaultPreferences.fileHistoryMaxVersions,
+    fileHistoryRetentionDays: sanitized.fileHistoryRetentionDays ?? defaultPreferences.fileHistoryRetentionDays,
 
     // Permissions
     autoApprovePermissions: sanitized.autoApprovePermissions ?? defaultPreferences.autoApprovePermissions,
@@ -269,6 +310,10 @@ function normalizePreferences(pref?: Partial<Preferences> & { agentModelSelectio
 
     // Tool routing
     toolRouting: sanitized.toolRouting ?? defaultPreferences.toolRouting,
+
+    keybindings: { ...(sanitized.keybindings ?? defaultPreferences.keybindings) },
+
+    usageBudgets: { ...defaultPreferences.usageBudgets, ...sanitized.usageBudgets },
   }
 }
 
@@ -490,6 +535,16 @@ function toggleAutoCleanupBlankSessions(): void {
   updatePreferences({ autoCleanupBlankSessions: nextValue })
 }
 
+function toggleIsolatedSessions(): void {
+  updatePreferences({ isolatedSessions: !preferences().isolatedSessions })
+}
+
+function toggleRestoreWorkspaces(): void {
+  const nextValue: WorkspaceStartupMode = preferences().workspaceStartupMode === "restore" ? "fresh" : "restore"
+  log.info("toggle workspace startup mode", { value: nextValue })
+  updatePreferences({ workspaceStartupMode: nextValue })
+}
+
 function toggleStopInstanceOnLastSessionDelete(): void {
   const nextValue = !preferences().stopInstanceOnLastSessionDelete
   log.info("toggle stop instance on last session delete", { value: nextValue })
@@ -520,6 +575,55 @@ function setMaxSubagentIterations(value: number): void {
   updatePreferences({ maxSubagentIterations: clamped })
 }
 
+function setGateTimeoutMinutes(value: number): void {
+  const minutes = Math.max(0, Math.round(value))
+  if (preferences().gateTimeoutMinutes === minutes) return
+  updatePreferences({ gateTimeoutMinutes: minutes })
+}
+
+function setCrashRestartMaxAttempts(value: number): void {
+  const attempts = Math.min(20, Math.max(0, Math.round(value)))
+  if (preferences().crashRestartMaxAttempts === attempts) return
+  updatePreferences({ crashRestartMaxAttempts: attempts })
+}
+
+function setFileHistoryMaxVersions(value: number): void {
+  const clamped = Math.min(1000, Math.max(1, Math.round(value)))
+  if (preferences().fileHistoryMaxVersions === clamped) return
+  updatePreferences({ fileHistoryMaxVersions: clamped })
+}
+
+/** Rebind a shortcut; `null` unbinds it */
+function setKeybinding(id: string, binding: string | null): void {
+  const current = preferences().keybindings
+  if (current[id] === binding) return
+  updatePreferences({ keybindings: { ...current, [id]: binding } })
+}
+
+/** Drop the override so the shortcut's default binding applies again */
+function resetKeybinding(id: string): void {
+  const current = preferences().keybindings
+  if (!(id in current)) return
+  const next = { ...current }
+  delete next[id]
+  updatePreferences({ keybindings: next })
+}
+
+/** Replace every override, e.g. from an imported keybindings file */
+function replaceKeybindings(keybindings: Record<string, string | null>): void {
+  updatePreferences({ keybindings: { ...keybindings } })
+}
+
+function setUsageBudgets(budgets: Partial<UsageBudgets>): void {
+  updatePreferences({ usageBudgets: { ...preferences().usageBudgets, ...budgets } })
+}
+
+function setFileHistoryRetentionDays(value: number): void {
+  const days = Math.max(0, Math.round(value))
+  if (preferences().fileHistoryRetentionDays === days) return
+  updatePreferences({ fileHistoryRetentionDays: days })
+}
+
 function setAgentAutonomy(value: "conservative" | "balanced" | "aggressive"): void {
   if (preferences().agentAutonomy === value) return
   updatePreferences({ agentAutonomy: value })
@@ -777,6 +881,8 @@ interface ConfigContextValue {
   toggleShowTimelineTools: typeof toggleShowTimelineTools
   toggleUsageMetrics: typeof toggleUsageMetrics
   toggleAutoCleanupBlankSessions: typeof toggleAutoCleanupBlankSessions
+  toggleIsolatedSessions: typeof toggleIsolatedSessions
+  toggleRestoreWorkspaces: typeof toggleRestoreWorkspaces
   toggleStopInstanceOnLastSessionDelete: typeof toggleStopInstanceOnLastSessionDelete
   toggleDefaultToolCallsCollapsed: typeof toggleDefaultToolCallsCollapsed
   toggleShowVerboseOutput: typeof toggleShowVerboseOutput
@@ -787,6 +893,14 @@ interface ConfigContextValue {
   setDiagnosticsExpansion: typeof setDiagnosticsExpansion
   setThinkingBlocksExpansion: typeof setThinkingBlocksExpansion
   setListeningMode: typeof setListeningMode
+  setGateTimeoutMinutes: typeof setGateTimeoutMinutes
+  setCrashRestartMaxAttempts: typeof setCrashRestartMaxAttempts
+  setFileHistoryMaxVersions: typeof setFileHistoryMaxVersions
+  setFileHistoryRetentionDays: typeof setFileHistoryRetentionDays
+  setKeybinding: typeof setKeybinding
+  resetKeybinding: typeof resetKeybinding
+  replaceKeybindings: typeof replaceKeybindings
+  setUsageBudgets: typeof setUsageBudgets
   addRecentFolder: typeof addRecentFolder
   removeRecentFolder: typeof removeRecentFolder
   addOpenCodeBinary: typeof addOpenCodeBinary
@@ -832,6 +946,8 @@ const configContextValue: ConfigContextValue = {
   toggleShowTimelineTools,
   toggleUsageMetrics,
   toggleAutoCleanupBlankSessions,
+  toggleIsolatedSessions,
+  toggleRestoreWorkspaces,
   toggleStopInstanceOnLastSessionDelete,
   toggleDefaultToolCallsCollapsed,
   toggleShowVerboseOutput,
@@ -841,6 +957,14 @@ const configContextValue: ConfigContextValue = {
   setDiagnosticsExpansion,
   setThinkingBlocksExpansion,
   setListeningMode,
+  setGateTimeoutMinutes,
+  setCrashRestartMaxAttempts,
+  setFileHistoryMaxVersions,
+  setFileHistoryRetentionDays,
+  setKeybinding,
+  resetKeybinding,
+  replaceKeybindings,
+  setUsageBudgets,
   addRecentFolder,
   removeRecentFolder,
   addOpenCodeBinary,
@@ -909,6 +1033,8 @@ export {
   toggleShowThinkingBlocks,
   toggleShowTimelineTools,
   toggleAutoCleanupBlankSessions,
+  toggleIsolatedSessions,
+  toggleRestoreWorkspaces,
   toggleStopInstanceOnLastSessionDelete,
   toggleDefaultToolCallsCollapsed,
   toggleShowVerboseOutput,
@@ -932,6 +1058,14 @@ export {
   setDiagnosticsExpansion,
   setThinkingBlocksExpansion,
   setListeningMode,
+  setGateTimeoutMinutes,
+  setCrashRestartMaxAttempts,
+  setFileHistoryMaxVersions,
+  setFileHistoryRetentionDays,
+  setKeybinding,
+  resetKeybinding,
+  replaceKeybindings,
+  setUsageBudgets,
   themePreference,
   setThemePreference,
   recordWorkspaceLaunch,
@@ -1,39 +1,218 @@
 import { createSignal } from "solid-js"
+import type { ProjectMcpConfigResponse } from "../../../server/src/api-types"
+import type { Instance } from "../types/instance"
+import { getLogger } from "../lib/logger"
+import { instanceApi } from "../lib/instance-api"
+import { showToastNotification } from "../lib/notifications"
+import { preferences, type McpServerConfig } from "./preferences"
+import { ERA_CODE_MCP_DEFAULTS, getBuiltInMcp, getBuiltInMcpConfig, type EraCodeMcpServer } from "./era-mcp"
+import { getSessionMcpOverrides } from "./session-mcp"
 
-// Project MCP configuration state
-const [mcpServerCount, setMcpServerCount] = createSignal(0)
-const [projectMcpConfig, setProjectMcpConfig] = createSignal<Record<string, unknown>>({})
+const log = getLogger("mcp-settings")
+
+/** Config scopes from lowest to highest precedence */
+export type McpScope = "era-code" | "global" | "project"
+
+const SCOPE_ORDER: McpScope[] = ["era-code", "global", "project"]
 
 export interface MergedMcpEntry {
   name: string
-  source: "era-code" | "global" | "project"
-  enabled: boolean
-  config?: Record<string, unknown>
-  overriddenBy?: "global" | "project"
+  /** Scope whose config is used */
+  source: McpScope
+  config: McpServerConfig
+  /** Lower scopes that also define this server and are replaced by `source` */
+  overrides: McpScope[]
+  /** Enabled state from the era-code, global and project scopes */
+  desiredEnabled: boolean
+  /** Scope that decided `desiredEnabled` */
+  enabledBy: McpScope
+  /** Per-instance toggle, when one is set */
+  sessionOverride?: boolean
+  /** Enabled state for the instance: the session toggle, else `desiredEnabled` */
+  effectiveEnabled: boolean
+  builtIn: boolean
+  builtInServer?: EraCodeMcpServer
+  /** The project replaces this server's config or toggles it */
+  hasProjectOverride: boolean
+}
+
+// Project MCP configs keyed by folder
+const [projectConfigs, setProjectConfigs] = createSignal<Map<string, ProjectMcpConfigResponse>>(new Map())
+
+export function getProjectMcpConfig(folder: string): ProjectMcpConfigResponse | undefined {
+  return projectConfigs().get(folder)
 }
 
-export function getActiveMcpServerCount(): number {
-  return mcpServerCount()
+function storeProjectConfig(folder: string, config: ProjectMcpConfigResponse) {
+  setProjectConfigs((prev) => {
+    const next = new Map(prev)
+    next.set(folder, config)
+    return next
+  })
 }
 
-export function setProjectMcpServer(_serverId: string, _config: unknown): void {
-  // Stub - would set MCP server config
+export async function fetchProjectMcpConfig(folder: string): Promise<ProjectMcpConfigResponse | null> {
+  try {
+    const response = await fetch(`/api/mcp/project?${new URLSearchParams({ folder })}`)
+    if (!response.ok) return null
+    const config = (await response.json()) as ProjectMcpConfigResponse
+    storeProjectConfig(folder, config)
+    return config
+  } catch (error) {
+    log.warn("Failed to load project MCP config", { folder, error })
+    return null
+  }
 }
 
-export async function fetchProjectMcpConfig(_instanceId: string): Promise<void> {
-  // Stub - would fetch MCP config from server
+async function updateProjectConfig(folder: string, url: string, init: RequestInit, action: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } })
+    const data = (await response.json().catch(() => ({}))) as ProjectMcpConfigResponse & { error?: string }
+    if (!response.ok) {
+      throw new Error(data.error ?? `Request failed with status ${response.status}`)
+    }
+    storeProjectConfig(folder, data)
+    return true
+  } catch (error) {
+    log.error(`Failed to ${action}`, { folder, error })
+    showToastNotification({
+      title: "Project MCP config",
+      message: `Could not ${action}: ${error instanceof Error ? error.message : String(error)}`,
+      variant: "error",
+    })
+    return false
+  }
 }
 
-export function getMergedMcpServers(_folder: string): MergedMcpEntry[] {
-  // Stub - returns empty list for now
-  // Would merge era-code defaults, global config, and project config
-  return []
+/** Add or replace a server in the project's `.era/mcp.json` */
+export function setProjectMcpServer(folder: string, name: string, config: McpServerConfig): Promise<boolean> {
+  return updateProjectConfig(
+    folder,
+    `/api/mcp/project/servers/${encodeURIComponent(name)}`,
+    { method: "PUT", body: JSON.stringify({ folder, config }) },
+    `save MCP server "${name}"`,
+  )
 }
 
-export function removeProjectMcpServer(_serverId: string): void {
-  // Stub - would remove project-level MCP server config
+export function removeProjectMcpServer(folder: string, name: string): Promise<boolean> {
+  return updateProjectConfig(
+    folder,
+    `/api/mcp/project/servers/${encodeURIComponent(name)}?${new URLSearchParams({ folder })}`,
+    { method: "DELETE" },
+    `remove MCP server "${name}"`,
+  )
 }
 
-export function setProjectMcpOverride(_serverId: string, _override: boolean): void {
-  // Stub - would set project-level override for an MCP server
+/** Enable or disable a server for the whole project; `null` clears the override */
+export function setProjectMcpOverride(folder: string, name: string, enabled: boolean | null): Promise<boolean> {
+  return updateProjectConfig(
+    folder,
+    `/api/mcp/project/overrides/${encodeURIComponent(name)}`,
+    { method: "PUT", body: JSON.stringify({ folder, enabled }) },
+    `update MCP server "${name}"`,
+  )
+}
+
+/**
+ * Merge the MCP scopes for a project (and optionally one of its instances).
+ *
+ * Config: project > global > era-code, by server name.
+ * Enabled state: session toggle > project override > the winning scope's own
+ * state (for global servers the `mcpDesiredState` preference).
+ */
+export function getMergedMcpServers(folder?: string, instanceId?: string): MergedMcpEntry[] {
+  const registry = preferences().mcpRegistry ?? {}
+  const desiredState = preferences().mcpDesiredState ?? {}
+  const project = folder ? projectConfigs().get(folder) : undefined
+  const projectServers = project?.servers ?? {}
+  const projectOverrides = project?.overrides ?? {}
+  const session = instanceId ? getSessionMcpOverrides(instanceId) : {}
+
+  const names = new Set([
+    ...ERA_CODE_MCP_DEFAULTS.map((server) => server.name),
+    ...Object.keys(registry),
+    ...Object.keys(projectServers),
+  ])
+
+  const entries: MergedMcpEntry[] = []
+  for (const name of names) {
+    if (!name) continue
+    const configs: Partial<Record<McpScope, McpServerConfig>> = {
+      "era-code": getBuiltInMcpConfig(name),
+      global: registry[name],
+      project: projectServers[name],
+    }
+    const present = SCOPE_ORDER.filter((scope) => configs[scope])
+    const source = present[present.length - 1]
+    if (!source) continue
+    const config = configs[source]!
+
+    let desiredEnabled: boolean
+    let enabledBy: McpScope
+    if (name in projectOverrides) {
+      desiredEnabled = projectOverrides[name]
+      enabledBy = "project"
+    } else if (source !== "project" && name in desiredState) {
+      // Toggling a global or built-in server in the settings stores its desired state
+      desiredEnabled = desiredState[name]
+      enabledBy = "global"
+    } else {
+      desiredEnabled = config.enabled ?? true
+      enabledBy = source
+    }
+
+    const sessionOverride = name in session ? session[name] : undefined
+    const builtInServer = getBuiltInMcp(name)
+    entries.push({
+      name,
+      source,
+      config,
+      overrides: present.slice(0, -1),
+      desiredEnabled,
+      enabledBy,
+      sessionOverride,
+      effectiveEnabled: sessionOverride ?? desiredEnabled,
+      builtIn: Boolean(builtInServer),
+      builtInServer,
+      hasProjectOverride: (source === "project" && present.length > 1) || name in projectOverrides,
+    })
+  }
+
+  // Built-ins first, then global, then project servers; alphabetical within each
+  return entries.sort(
+    (a, b) =>
+      SCOPE_ORDER.indexOf(a.overrides[0] ?? a.source) - SCOPE_ORDER.indexOf(b.overrides[0] ?? b.source) ||
+      a.name.localeCompare(b.name),
+  )
+}
+
+/** Number of servers enabled for an instance across all scopes */
+export function getActiveMcpServerCount(instanceId: string, folder?: string): number {
+  return getMergedMcpServers(folder, instanceId).filter((entry) => entry.effectiveEnabled).length
+}
+
+/**
+ * Push the merged servers to a running instance: upsert every server with
+ * its effective enabled state, then connect or disconnect it. Built-ins the
+ * user never configured or toggled are left to era-code's own setup.
+ */
+export async function applyMergedMcpServers(instance: Instance): Promise<void> {
+  if (!instance.client) return
+  if (instance.folder && !projectConfigs().has(instance.folder)) {
+    await fetchProjectMcpConfig(instance.folder)
+  }
+
+  for (const entry of getMergedMcpServers(instance.folder, instance.id)) {
+    if (entry.source === "era-code" && entry.enabledBy === "era-code" && entry.sessionOverride === undefined) continue
+    try {
+      await instanceApi.upsertMcp(instance, entry.name, { ...entry.config, enabled: entry.effectiveEnabled })
+      if (entry.effectiveEnabled) {
+        await instanceApi.connectMcp(instance, entry.name)
+      } else {
+        await instanceApi.disconnectMcp(instance, entry.name)
+      }
+    } catch (error) {
+      log.error("Failed to apply MCP server", { instanceId: instance.id, name: entry.name, error })
+    }
+  }
 }
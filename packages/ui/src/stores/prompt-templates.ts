@@ -0,0 +1,167 @@
+import { createSignal } from "solid-js"
+import type { PromptTemplate, PromptTemplateSource, PromptTemplatesResponse } from "../../../server/src/api-types"
+import { getLogger } from "../lib/logger"
+import { parseTemplateVariables } from "../lib/prompt-placeholders"
+import { createFileAttachment } from "../types/attachment"
+import { addAttachment } from "./attachments"
+import { getSessionDraftPrompt, setSessionDraftPrompt } from "./sessions"
+
+const log = getLogger("prompt-templates")
+
+/**
+ * Prompt templates from `~/.era/era-code/templates` and the project's
+ * `.era/templates`, and inserting a filled-in template into a session's
+ * prompt.
+ */
+
+export interface PromptTemplateTarget {
+  instanceId: string
+  sessionId: string
+  /** Project folder of the instance */
+  folder: string
+}
+
+export interface PromptTemplateDialogState {
+  target: PromptTemplateTarget
+  /** null while picking a template */
+  template: PromptTemplate | null
+}
+
+export interface PromptTemplateInput {
+  name: string
+  source: PromptTemplateSource
+  description: string
+  body: string
+}
+
+type InsertHandler = (text: string) => void
+
+// Keyed by project folder; "" holds global templates only
+const [templatesByFolder, setTemplatesByFolder] = createSignal<Map<string, PromptTemplate[]>>(new Map())
+const [dialogState, setDialogState] = createSignal<PromptTemplateDialogState | null>(null)
+const insertHandlers = new Map<string, InsertHandler>()
+// Last text selected outside form fields, the default for `{{selection}}`
+let lastSelection = ""
+let trackingSelection = false
+
+export { dialogState as promptTemplateDialog }
+
+export function getPromptTemplates(folder?: string): PromptTemplate[] {
+  return templatesByFolder().get(folder ?? "") ?? []
+}
+
+export async function fetchPromptTemplates(folder?: string): Promise<void> {
+  try {
+    const query = folder ? `?folder=${encodeURIComponent(folder)}` : ""
+    const response = await fetch(`/api/prompt-templates${query}`)
+    if (!response.ok) throw new Error(await readError(response))
+    const data = (await response.json()) as PromptTemplatesResponse
+    for (const error of data.errors) {
+      log.warn(`Skipped template ${error.path}: ${error.error}`)
+    }
+    setTemplatesByFolder((prev) => new Map(prev).set(folder ?? "", data.templates))
+  } catch (error) {
+    log.warn("Failed to load prompt templates", error)
+  }
+}
+
+export async function savePromptTemplate(folder: string | undefined, input: PromptTemplateInput): Promise<PromptTemplate> {
+  const response = await fetch(`/api/prompt-templates/${encodeURIComponent(input.name)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      source: input.source,
+      folder: input.source === "project" ? folder : undefined,
+      description: input.description,
+      body: input.body,
+    }),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  const saved = (await response.json()) as PromptTemplate
+  await fetchPromptTemplates(folder)
+  return saved
+}
+
+export async function deletePromptTemplate(folder: string | undefined, template: PromptTemplate): Promise<void> {
+  const params = new URLSearchParams({ source: template.source })
+  if (template.source === "project" && folder) params.set("folder", folder)
+  const response = await fetch(`/api/prompt-templates/${encodeURIComponent(template.name)}?${params}`, {
+    method: "DELETE",
+  })
+  if (!response.ok && response.status !== 404) throw new Error(await readError(response))
+  await fetchPromptTemplates(folder)
+}
+
+/** Open the template picker for a session's prompt */
+export function openPromptTemplatePicker(target: PromptTemplateTarget) {
+  setDialogState({ target, template: null })
+  void fetchPromptTemplates(target.folder)
+}
+
+/** Insert a template; templates with placeholders open the form to fill them in first */
+export function applyPromptTemplate(target: PromptTemplateTarget, template: PromptTemplate) {
+  if (parseTemplateVariables(template.body).length === 0) {
+    setDialogState(null)
+    insertIntoPrompt(target, template.body, [])
+    return
+  }
+  setDialogState({ target, template })
+}
+
+export function getLastSelection(): string {
+  return lastSelection
+}
+
+export function closePromptTemplateDialog() {
+  setDialogState(null)
+}
+
+/**
+ * Put a filled-in template at the cursor of the session's prompt input and
+ * attach the files it mentions. Without a mounted input the text is
+ * appended to the session's draft.
+ */
+export function insertIntoPrompt(target: PromptTemplateTarget, text: string, files: string[]) {
+  for (const file of files) {
+    const filename = file.split("/").pop() || file
+    addAttachment(target.instanceId, target.sessionId, createFileAttachment(file, filename, "text/plain", undefined, target.folder))
+  }
+
+  const handler = insertHandlers.get(handlerKey(target.instanceId, target.sessionId))
+  if (handler) {
+    handler(text)
+    return
+  }
+  const draft = getSessionDraftPrompt(target.instanceId, target.sessionId)
+  setSessionDraftPrompt(target.instanceId, target.sessionId, draft ? `${draft}\n${text}` : text)
+}
+
+/** Called by the prompt input of a session; returns the unregister function */
+export function registerPromptTemplateInsertHandler(instanceId: string, sessionId: string, handler: InsertHandler) {
+  trackSelection()
+  const key = handlerKey(instanceId, sessionId)
+  insertHandlers.set(key, handler)
+  return () => {
+    if (insertHandlers.get(key) === handler) insertHandlers.delete(key)
+  }
+}
+
+function trackSelection() {
+  if (trackingSelection || typeof document === "undefined") return
+  trackingSelection = true
+  document.addEventListener("selectionchange", () => {
+    const active = document.activeElement
+    if (active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement) return
+    const text = document.getSelection()?.toString().trim()
+    if (text) lastSelection = text
+  })
+}
+
+function handlerKey(instanceId: string, sessionId: string): string {
+  return `${instanceId}:${sessionId}`
+}
+
+async function readError(response: Response): Promise<string> {
+  const data = (await response.json().catch(() => null)) as { error?: string } | null
+  return data?.error ?? `Request failed (${response.status})`
+}
@@ -0,0 +1,41 @@
+import { createSignal } from "solid-js"
+import { onUnauthorized, serverApi } from "../lib/api-client"
+import { getLogger } from "../lib/logger"
+
+const log = getLogger("api")
+
+const [loginRequired, setLoginRequired] = createSignal(false)
+
+let initialized = false
+
+/**
+ * Track whether this client must sign in with an access token.
+ * Only remote browsers ever see the prompt; loopback clients are trusted by the server.
+ */
+export function initRemoteAuth() {
+  if (initialized) {
+    return
+  }
+  initialized = true
+
+  onUnauthorized(() => setLoginRequired(true))
+
+  void serverApi
+    .fetchAuthStatus()
+    .then((status) => setLoginRequired(status.required && !status.authenticated))
+    .catch((error) => log.warn("Unable to load auth status", error))
+}
+
+/**
+ * Exchange an access token for a session cookie, then reload so every
+ * stream (SSE, instance proxies) reconnects with the new credentials.
+ */
+export async function submitAccessToken(token: string): Promise<void> {
+  await serverApi.login(token.trim())
+  setLoginRequired(false)
+  if (typeof window !== "undefined") {
+    window.location.reload()
+  }
+}
+
+export const isLoginRequired = loginRequired
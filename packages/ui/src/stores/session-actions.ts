@@ -21,6 +21,9 @@ import { messageStoreBus, triggerCollapseAll } from "./message-v2/bus"
 import { cleanupIdleChildren } from "./session-cleanup"
 import { getLogger } from "../lib/logger"
 import { setRequestSent } from "./streaming-metrics"
+import { assertWithinBudget } from "./usage-analytics"
+import { sessionDirectoryQuery } from "./worktrees"
+import { trackInFlightPrompt } from "./crash-recovery"
 
 const log = getLogger("actions")
 
@@ -88,6 +91,8 @@ async function sendMessage(
     throw new Error("Session not found")
   }
 
+  await assertWithinBudget()
+
   // If sending message to a parent session, cleanup idle child sessions
   // This triggers the merge/cleanup behavior when user continues parent conversation
   if (session.parentId === null) {
@@ -213,6 +218,29 @@ async function sendMessage(
           filename: att.filename,
           synthetic: true,
         })
+      } else if (source.type === "symbol") {
+        // The symbol source tells OpenCode which range of the file to read
+        const mentionIndex = Math.max(resolvedPrompt.indexOf(att.display), 0)
+        const part = {
+          type: "file" as const,
+          url: att.url,
+          mime: "text/plain",
+          filename: att.filename,
+          source: {
+            type: "symbol" as const,
+            path: source.path,
+            name: source.name,
+            kind: source.kind,
+            range: {
+              start: { line: source.range.start.line, character: source.range.start.char },
+              end: { line: source.range.end.line, character: source.range.end.char },
+            },
+            text: { value: att.display, start: mentionIndex, end: mentionIndex + att.display.length },
+          },
+        }
+        const partId = createId("part")
+        requestParts.push({ id: partId, ...part })
+        optimisticParts.push({ id: partId, ...part, synthetic: true })
       } else if (source.type === "text") {
         const display: string | undefined = att.display
         const value: unknown = source.value
@@ -252,6 +280,9 @@ async function sendMessage(
   const store = messageStoreBus.getOrCreate(instanceId)
   const createdAt = Date.now()
 
+  // Given back to the prompt box if the instance crashes before answering
+  trackInFlightPrompt(instanceId, sessionId, prompt)
+
   store.upsertMessage({
     id: messageId,
     sessionId,
@@ -320,6 +351,7 @@ async function sendMessage(
     log.info("session.promptAsync", { instanceId, sessionId, requestBody })
     const response = await instance.client.session.promptAsync({
       path: { id: sessionId },
+      query: sessionDirectoryQuery(instanceId, sessionId),
       body: requestBody,
     })
 
@@ -378,6 +410,7 @@ async function executeCustomCommand(
 
   await instance.client.session.command({
     path: { id: sessionId },
+    query: sessionDirectoryQuery(instanceId, sessionId),
     body,
   })
 }
@@ -400,6 +433,7 @@ async function runShellCommand(instanceId: string, sessionId: string, command: s
 
   await instance.client.session.shell({
     path: { id: sessionId },
+    query: sessionDirectoryQuery(instanceId, sessionId),
     body: {
       agent,
       command,
@@ -420,6 +454,7 @@ async function abortSession(instanceId: string, sessionId: string): Promise<void
     log.info("session.abort", { instanceId, sessionId })
     await instance.client.session.abort({
       path: { id: sessionId },
+      query: sessionDirectoryQuery(instanceId, sessionId),
     })
     log.info("abortSession complete", { instanceId, sessionId })
   } catch (error) {
@@ -500,6 +535,7 @@ async function renameSession(instanceId: string, sessionId: string, nextTitle: s
 
   await instance.client.session.update({
     path: { id: sessionId },
+    query: sessionDirectoryQuery(instanceId, sessionId),
     body: { title: trimmedTitle },
   })
 
@@ -517,6 +553,7 @@ async function renameSession(instanceId: string, sessionId: string, nextTitle: s
  */
 async function replyToQuestion(
   instanceId: string,
+  sessionId: string,
   requestId: string,
   answers: string[][],
 ): Promise<void> {
@@ -529,7 +566,7 @@ async function replyToQuestion(
 
   try {
     const { instanceApi } = await import("../lib/instance-api")
-    await instanceApi.replyToQuestion(instance, requestId, answers)
+    await instanceApi.replyToQuestion(instance, requestId, answers, sessionDirectoryQuery(instanceId, sessionId)?.directory)
     log.info("Question reply sent successfully")
   } catch (error) {
     log.error("Failed to reply to question", error)
@@ -542,6 +579,7 @@ async function replyToQuestion(
  */
 async function rejectQuestion(
   instanceId: string,
+  sessionId: string,
   requestId: string,
 ): Promise<void> {
   const instance = instances().get(instanceId)
@@ -553,7 +591,7 @@ async function rejectQuestion(
 
   try {
     const { instanceApi } = await import("../lib/instance-api")
-    await instanceApi.rejectQuestion(instance, requestId)
+    await instanceApi.rejectQuestion(instance, requestId, sessionDirectoryQuery(instanceId, sessionId)?.directory)
     log.info("Question rejected successfully")
   } catch (error) {
     log.error("Failed to reject question", error)
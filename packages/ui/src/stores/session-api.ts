@@ -32,6 +32,8 @@ import { seedSessionMessagesV2 } from "./message-v2/bridge"
 import { messageStoreBus } from "./message-v2/bus"
 import { clearCacheForSession } from "../lib/global-cache"
 import { ERA_CODE_API_BASE } from "../lib/api-client"
+import { updateInstanceConfig } from "./instance-config"
+import { attachSessionWorktree, createSessionWorktree, removeSessionWorktree, sessionDirectoryQuery } from "./worktrees"
 import { getLogger } from "../lib/logger"
 
 const log = getLogger("api")
@@ -334,7 +336,12 @@ async function fetchSessions(instanceId: string): Promise<void> {
   }
 }
 
-async function createSession(instanceId: string, agent?: string): Promise<Session> {
+/**
+ * Create a session. Isolated sessions (the `isolatedSessions` preference
+ * unless `options.isolated` says otherwise) get their own git worktree and
+ * branch, and OpenCode runs them in that directory.
+ */
+async function createSession(instanceId: string, agent?: string, options?: { isolated?: boolean }): Promise<Session> {
   const instance = instances().get(instanceId)
   if (!instance || !instance.client) {
     throw new Error("Instance not ready")
@@ -356,14 +363,28 @@ async function createSession(instanceId: string, agent?: string): Promise<Sessio
     return next
   })
 
+  const isolated = options?.isolated ?? preferences().isolatedSessions
+  let worktreeId: string | null = null
+
   try {
-    log.info(`[HTTP] POST /session.create for instance ${instanceId}`)
-    const response = await instance.client.session.create()
+    const worktree = isolated ? await createSessionWorktree(instance.folder) : null
+    worktreeId = worktree?.id ?? null
+
+    log.info(`[HTTP] POST /session.create for instance ${instanceId}`, { directory: worktree?.directory })
+    const response = await instance.client.session.create(
+      worktree ? { query: { directory: worktree.directory } } : undefined,
+    )
 
     if (!response.data) {
       throw new Error("Failed to create session: No data returned")
     }
 
+    if (worktree) {
+      await attachSessionWorktree(worktree.id, response.data.id)
+      // The session owns the worktree from here on; failures below must not remove it
+      worktreeId = null
+    }
+
     const session: Session = {
       id: response.data.id,
       instanceId,
@@ -432,6 +453,11 @@ async function createSession(instanceId: string, agent?: string): Promise<Sessio
     return session
   } catch (error) {
     log.error("Failed to create session:", error)
+    if (worktreeId) {
+      await removeSessionWorktree(worktreeId).catch((cleanupError) =>
+        log.warn("Failed to remove worktree of failed session", cleanupError),
+      )
+    }
     throw error
   } finally {
     setLoading((prev) => {
@@ -454,9 +480,11 @@ async function forkSession(
 
   const request: {
     path: { id: string }
+    query?: { directory: string }
     body?: { messageID: string }
   } = {
     path: { id: sourceSessionId },
+    query: sessionDirectoryQuery(instanceId, sourceSessionId),
   }
 
   if (options?.messageId) {
@@ -508,6 +536,16 @@ async function forkSession(
 
   addSessionToCache(instance.folder, response.data)
 
+  // OpenCode forks are unrelated sessions; remember the origin for the session tree. A fork of an
+  // isolated session runs in the same worktree, which is looked up through this record, so it has
+  // to be in place before the fork is used.
+  await updateInstanceConfig(instanceId, (draft) => {
+    draft.sessionForks = {
+      ...draft.sessionForks,
+      [forkedSession.id]: { sourceSessionId, messageId: options?.messageId, forkedAt: now },
+    }
+  })
+
   const instanceProviders = providers().get(instanceId) || []
   const forkProvider = instanceProviders.find((p) => p.id === forkedSession.model.providerId)
   const forkModel = forkProvider?.models.find((m) => m.id === forkedSession.model.modelId)
@@ -554,7 +592,7 @@ async function deleteSession(instanceId: string, sessionId: string): Promise<voi
 
   try {
     log.info(`[HTTP] DELETE /session.delete for instance ${instanceId}`, { sessionId })
-    await instance.client.session.delete({ path: { id: sessionId } })
+    await instance.client.session.delete({ path: { id: sessionId }, query: sessionDirectoryQuery(instanceId, sessionId) })
 
     setSessions((prev) => {
       const next = new Map(prev)
@@ -755,7 +793,10 @@ async function loadMessages(instanceId: string, sessionId: string, force = false
 
   try {
     log.info(`[HTTP] GET /session.${"messages"} for instance ${instanceId}`, { sessionId })
-    const response = await instance.client.session["messages"]({ path: { id: sessionId } })
+    const response = await instance.client.session["messages"]({
+      path: { id: sessionId },
+      query: sessionDirectoryQuery(instanceId, sessionId),
+    })
 
     if (!response.data || !Array.isArray(response.data)) {
       return
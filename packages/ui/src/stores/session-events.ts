@@ -32,6 +32,7 @@ import { processToolCallForWorkspace } from "./workspace-state"
 import { retrieveToolInstructions, flushSession } from "./instruction-retrieval"
 import { recordFirstToken, addDeltaChars, setCompleted } from "./streaming-metrics"
 import { addQuestionRequest, removeQuestionRequest } from "./question-store"
+import { clearInFlightPrompt } from "./crash-recovery"
 import type { QuestionRequest } from "./question-store"
 import {
   applyPartUpdateV2,
@@ -331,6 +332,9 @@ function handleSessionIdle(instanceId: string, event: EventSessionIdle): void {
   // Flush retrieval access counts to server
   flushSession(instanceId, sessionId).catch(() => {})
 
+  // The session answered; a crash from now on has no prompt to give back
+  clearInFlightPrompt(instanceId, sessionId)
+
   // Update session status to idle
   withSession(instanceId, sessionId, (s) => {
     s.status = "idle"
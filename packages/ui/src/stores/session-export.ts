@@ -0,0 +1,150 @@
+import { createSignal } from "solid-js"
+import type { ImportedSession, ImportedSessionSummary, SessionExportBundle } from "../../../server/src/api-types"
+import { getLogger } from "../lib/logger"
+import { showToastNotification } from "../lib/notifications"
+import {
+  SESSION_EXPORT_FORMATS,
+  collectSessionBundle,
+  parseSessionBundle,
+  renderSessionExport,
+  sessionExportFilename,
+  type SessionExportFormat,
+} from "../lib/session-export"
+import { instances } from "./instances"
+import { sessionDirectoryQuery } from "./worktrees"
+
+const log = getLogger("session")
+
+/**
+ * Exporting sessions to Markdown, HTML or a JSON bundle, and JSON bundles
+ * imported into a project for read-only review.
+ */
+
+export interface SessionExportTarget {
+  instanceId: string
+  sessionId: string
+}
+
+const [exportTarget, setExportTarget] = createSignal<SessionExportTarget | null>(null)
+const [importedSessions, setImportedSessions] = createSignal<Map<string, ImportedSessionSummary[]>>(new Map())
+const [viewedImport, setViewedImport] = createSignal<ImportedSession | null>(null)
+
+export { exportTarget as sessionExportTarget, viewedImport }
+
+export function openSessionExport(instanceId: string, sessionId: string) {
+  setExportTarget({ instanceId, sessionId })
+}
+
+export function closeSessionExport() {
+  setExportTarget(null)
+}
+
+/** Collect a session (and its subagents when asked) and download it in a format */
+export async function exportSession(
+  instanceId: string,
+  sessionId: string,
+  format: SessionExportFormat,
+  options: { includeChildren?: boolean } = {},
+): Promise<void> {
+  const client = instances().get(instanceId)?.client
+  if (!client) {
+    throw new Error("Instance not ready")
+  }
+  const bundle = await collectSessionBundle(client, sessionId, {
+    ...options,
+    query: sessionDirectoryQuery(instanceId, sessionId),
+  })
+  await downloadSessionBundle(bundle, format)
+}
+
+export async function downloadSessionBundle(bundle: SessionExportBundle, format: SessionExportFormat): Promise<void> {
+  const content = await renderSessionExport(bundle, format)
+  const blob = new Blob([content], { type: SESSION_EXPORT_FORMATS[format].mime })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = sessionExportFilename(bundle, format)
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+export function getImportedSessions(instanceId: string): ImportedSessionSummary[] {
+  return importedSessions().get(instanceId) ?? []
+}
+
+export async function fetchImportedSessions(instanceId: string): Promise<void> {
+  try {
+    const response = await fetch(`/api/session-imports?instanceId=${encodeURIComponent(instanceId)}`)
+    if (!response.ok) throw new Error(await readError(response))
+    const imports = (await response.json()) as ImportedSessionSummary[]
+    setImportedSessions((prev) => new Map(prev).set(instanceId, imports))
+  } catch (error) {
+    log.warn("Failed to load imported sessions", error)
+  }
+}
+
+/** Upload a JSON bundle into an instance's project and open it */
+export async function importSessionBundle(instanceId: string, file: File): Promise<void> {
+  const bundle = parseSessionBundle(await file.text())
+  const response = await fetch("/api/session-imports", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ instanceId, bundle }),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  const summary = (await response.json()) as ImportedSessionSummary
+  setImportedSessions((prev) => new Map(prev).set(instanceId, [summary, ...getImportedSessions(instanceId)]))
+  setViewedImport({ ...summary, bundle })
+}
+
+/** Let the user pick a bundle file and import it, reporting the outcome as a toast */
+export function pickSessionBundle(instanceId: string): void {
+  const input = document.createElement("input")
+  input.type = "file"
+  input.accept = ".json,application/json"
+  input.onchange = async () => {
+    const file = input.files?.[0]
+    if (!file) return
+    try {
+      await importSessionBundle(instanceId, file)
+      showToastNotification({ message: `Imported ${file.name}`, variant: "success" })
+    } catch (error) {
+      log.error("Failed to import session bundle", error)
+      showToastNotification({
+        title: "Import failed",
+        message: error instanceof Error ? error.message : String(error),
+        variant: "error",
+      })
+    }
+  }
+  input.click()
+}
+
+export async function openImportedSession(importId: string): Promise<void> {
+  const response = await fetch(`/api/session-imports/${encodeURIComponent(importId)}`)
+  if (!response.ok) throw new Error(await readError(response))
+  setViewedImport((await response.json()) as ImportedSession)
+}
+
+export function closeImportedSession() {
+  setViewedImport(null)
+}
+
+export async function deleteImportedSession(instanceId: string, importId: string): Promise<void> {
+  const response = await fetch(`/api/session-imports/${encodeURIComponent(importId)}`, { method: "DELETE" })
+  if (!response.ok && response.status !== 404) throw new Error(await readError(response))
+  setImportedSessions((prev) =>
+    new Map(prev).set(
+      instanceId,
+      getImportedSessions(instanceId).filter((entry) => entry.id !== importId),
+    ),
+  )
+  if (viewedImport()?.id === importId) setViewedImport(null)
+}
+
+async function readError(response: Response): Promise<string> {
+  const data = (await response.json().catch(() => null)) as { error?: string } | null
+  return data?.error ?? `Request failed (${response.status})`
+}
@@ -1,5 +1,40 @@
-// Session MCP override state
+import { createSignal } from "solid-js"
 
-export function setSessionMcpOverride(_sessionId: string, _override: unknown): void {
-  // Stub - would set session-level MCP override
+/**
+ * Per-instance MCP toggles. They only live as long as the UI session and
+ * sit on top of the era-code, global and project scopes merged in
+ * project-mcp.ts.
+ */
+const [sessionOverrides, setSessionOverrides] = createSignal<Map<string, Record<string, boolean>>>(new Map())
+
+export function getSessionMcpOverrides(instanceId: string): Record<string, boolean> {
+  return sessionOverrides().get(instanceId) ?? {}
+}
+
+/** Enable or disable a server for one instance; `null` falls back to the merged scopes */
+export function setSessionMcpOverride(instanceId: string, name: string, enabled: boolean | null): void {
+  setSessionOverrides((prev) => {
+    const next = new Map(prev)
+    const current = { ...(next.get(instanceId) ?? {}) }
+    if (enabled === null) {
+      delete current[name]
+    } else {
+      current[name] = enabled
+    }
+    if (Object.keys(current).length === 0) {
+      next.delete(instanceId)
+    } else {
+      next.set(instanceId, current)
+    }
+    return next
+  })
+}
+
+export function clearSessionMcpOverrides(instanceId: string): void {
+  if (!sessionOverrides().has(instanceId)) return
+  setSessionOverrides((prev) => {
+    const next = new Map(prev)
+    next.delete(instanceId)
+    return next
+  })
 }
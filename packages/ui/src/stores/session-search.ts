@@ -0,0 +1,100 @@
+import { createSignal } from "solid-js"
+import type { SessionSearchHit, SessionSearchResponse } from "../../../server/src/api-types"
+import { getLogger } from "../lib/logger"
+import { showToastNotification } from "../lib/notifications"
+import { instances, setActiveInstanceId, createInstance } from "./instances"
+import { fetchSessions, sessions, setActiveParentSession, setActiveSession } from "./sessions"
+
+const log = getLogger("session-search")
+
+export interface SessionSearchFilters {
+  /** Project id or directory */
+  project?: string
+  role?: "user" | "assistant"
+  tool?: string
+  /** Epoch ms bounds on the message time */
+  from?: number
+  to?: number
+}
+
+export interface MessageFocusRequest {
+  instanceId: string
+  sessionId: string
+  messageId: string
+}
+
+const [searchOpen, setSearchOpen] = createSignal(false)
+const [messageFocusRequest, setMessageFocusRequest] = createSignal<MessageFocusRequest | null>(null)
+
+export { searchOpen as sessionSearchOpen, messageFocusRequest }
+
+export function openSessionSearch() {
+  setSearchOpen(true)
+}
+
+export function closeSessionSearch() {
+  setSearchOpen(false)
+}
+
+export function clearMessageFocusRequest() {
+  setMessageFocusRequest(null)
+}
+
+export async function searchSessions(
+  query: string,
+  filters: SessionSearchFilters = {},
+  limit = 50,
+): Promise<SessionSearchResponse | null> {
+  const params = new URLSearchParams({ q: query, limit: String(limit) })
+  if (filters.project) params.set("project", filters.project)
+  if (filters.role) params.set("role", filters.role)
+  if (filters.tool) params.set("tool", filters.tool)
+  if (filters.from !== undefined) params.set("from", String(filters.from))
+  if (filters.to !== undefined) params.set("to", String(filters.to))
+
+  try {
+    const response = await fetch(`/api/search?${params}`)
+    if (!response.ok) return null
+    return (await response.json()) as SessionSearchResponse
+  } catch (error) {
+    log.warn("Session search failed", error)
+    return null
+  }
+}
+
+/**
+ * Open the session a search hit belongs to (starting an instance for its
+ * project when none is open) and scroll to the matching message.
+ */
+export async function openSearchHit(hit: SessionSearchHit): Promise<void> {
+  let instanceId = Array.from(instances().values()).find((instance) => instance.folder === hit.directory)?.id
+  try {
+    if (instanceId) {
+      setActiveInstanceId(instanceId)
+    } else {
+      instanceId = await createInstance(hit.directory)
+    }
+
+    let session = sessions().get(instanceId)?.get(hit.sessionId)
+    if (!session) {
+      await fetchSessions(instanceId)
+      session = sessions().get(instanceId)?.get(hit.sessionId)
+    }
+    if (session?.parentId) {
+      setActiveParentSession(instanceId, session.parentId)
+      setActiveSession(instanceId, hit.sessionId)
+    } else {
+      setActiveParentSession(instanceId, hit.sessionId)
+    }
+
+    setMessageFocusRequest({ instanceId, sessionId: hit.sessionId, messageId: hit.messageId })
+    setSearchOpen(false)
+  } catch (error) {
+    log.error("Failed to open search result", error)
+    showToastNotification({
+      title: "Could not open session",
+      message: error instanceof Error ? error.message : String(error),
+      variant: "error",
+    })
+  }
+}
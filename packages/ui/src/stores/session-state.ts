@@ -7,6 +7,7 @@ import { messageStoreBus } from "./message-v2/bus"
 import { instances } from "./instances"
 import { showConfirmDialog } from "./alerts"
 import { getLogger } from "../lib/logger"
+import { sessionDirectoryQuery } from "./worktrees"
 
 const log = getLogger("session")
 
@@ -462,7 +463,10 @@ async function isBlankSession(session: Session, instanceId: string, fetchIfNeede
   }
   let messages: any[] = []
   try {
-    const response = await instance.client.session.messages({ path: { id: session.id } })
+    const response = await instance.client.session.messages({
+      path: { id: session.id },
+      query: sessionDirectoryQuery(instanceId, session.id),
+    })
     messages = response.data || []
   } catch (error) {
     log.error(`Failed to fetch messages for session ${session.id}`, error)
@@ -0,0 +1,295 @@
+import { createSignal } from "solid-js"
+import type { FileDiff } from "@opencode-ai/sdk"
+import type { SessionForkRecord } from "../../../server/src/api-types"
+import type { Session } from "../types/session"
+import { createUnifiedDiff } from "../lib/diff-utils"
+import { getLogger } from "../lib/logger"
+import { getInstanceConfig } from "./instance-config"
+import { instances } from "./instances"
+import { sessions } from "./sessions"
+import { sessionDirectoryQuery } from "./worktrees"
+
+const log = getLogger("session")
+
+/**
+ * Session branching: forks (recorded when a session is forked, since
+ * OpenCode forks carry no parent) and subagent children arranged as a tree,
+ * per-branch cost and file changes, and side-by-side comparison of two
+ * branches' final file contents and transcripts.
+ */
+
+export type SessionBranchKind = "root" | "fork" | "subagent"
+
+export interface SessionTreeNode {
+  session: Session
+  kind: SessionBranchKind
+  fork?: SessionForkRecord
+  children: SessionTreeNode[]
+}
+
+export interface SessionBranchStats {
+  cost: number
+  inputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  messages: number
+  files: FileDiff[]
+  additions: number
+  deletions: number
+  /** `time.updated` of the session when the stats were loaded */
+  sessionUpdated: number
+}
+
+export interface TranscriptEntry {
+  id: string
+  role: "user" | "assistant"
+  text: string
+  tools: string[]
+}
+
+export type BranchFileStatus = "identical" | "different" | "only-a" | "only-b"
+
+export interface BranchFileComparison {
+  file: string
+  status: BranchFileStatus
+  /** Final content in each branch; the unchanged original where a branch didn't touch the file */
+  contentA: string
+  contentB: string
+  /** Unified diff from branch A to branch B; empty when identical */
+  diffText: string
+}
+
+export interface BranchComparison {
+  a: string
+  b: string
+  files: BranchFileComparison[]
+  /** Leading messages both transcripts share (the history before the fork) */
+  sharedMessages: number
+  transcriptA: TranscriptEntry[]
+  transcriptB: TranscriptEntry[]
+}
+
+interface BranchData {
+  stats: SessionBranchStats
+  transcript: TranscriptEntry[]
+}
+
+const [treeOpen, setTreeOpen] = createSignal(false)
+const [branchStats, setBranchStats] = createSignal<Map<string, SessionBranchStats>>(new Map())
+const branchData = new Map<string, BranchData>()
+const pendingLoads = new Map<string, Promise<BranchData>>()
+
+export { treeOpen as sessionTreeOpen }
+
+export function openSessionTree() {
+  setTreeOpen(true)
+}
+
+export function closeSessionTree() {
+  setTreeOpen(false)
+}
+
+function branchKey(instanceId: string, sessionId: string): string {
+  return `${instanceId}:${sessionId}`
+}
+
+/**
+ * Every session of an instance as a forest: subagent children under their
+ * parent, forks under the session they were forked from. Roots are ordered
+ * by latest activity, children by creation.
+ */
+export function buildSessionTree(instanceId: string): SessionTreeNode[] {
+  const all = sessions().get(instanceId)
+  if (!all) return []
+  const forks = getInstanceConfig(instanceId).sessionForks ?? {}
+
+  const nodes = new Map<string, SessionTreeNode>()
+  for (const session of all.values()) {
+    const fork = forks[session.id]
+    const kind: SessionBranchKind = session.parentId ? "subagent" : fork ? "fork" : "root"
+    nodes.set(session.id, { session, kind, fork, children: [] })
+  }
+
+  const roots: SessionTreeNode[] = []
+  for (const node of nodes.values()) {
+    const parentId = node.session.parentId ?? node.fork?.sourceSessionId
+    const parent = parentId ? nodes.get(parentId) : undefined
+    if (parent && !isDescendant(node, parent)) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  const byCreated = (a: SessionTreeNode, b: SessionTreeNode) => (a.session.time.created ?? 0) - (b.session.time.created ?? 0)
+  for (const node of nodes.values()) node.children.sort(byCreated)
+  roots.sort((a, b) => latestActivity(b) - latestActivity(a))
+  return roots
+}
+
+/** Whether `candidate` is `node` or lies below it (guards against fork cycles) */
+function isDescendant(node: SessionTreeNode, candidate: SessionTreeNode): boolean {
+  if (node === candidate) return true
+  return node.children.some((child) => isDescendant(child, candidate))
+}
+
+function latestActivity(node: SessionTreeNode): number {
+  return Math.max(node.session.time.updated ?? 0, ...node.children.map(latestActivity))
+}
+
+/** The root whose tree contains a session */
+export function findTreeRoot(roots: SessionTreeNode[], sessionId: string): SessionTreeNode | undefined {
+  const contains = (node: SessionTreeNode): boolean =>
+    node.session.id === sessionId || node.children.some(contains)
+  return roots.find(contains)
+}
+
+function findParent(roots: SessionTreeNode[], sessionId: string): SessionTreeNode | null | undefined {
+  for (const root of roots) {
+    if (root.session.id === sessionId) return null
+    const stack = [root]
+    while (stack.length > 0) {
+      const node = stack.pop()!
+      for (const child of node.children) {
+        if (child.session.id === sessionId) return node
+        stack.push(child)
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Branches worth comparing: siblings under the same session, or a fork and
+ * the session it was forked from (which kept going after the fork point).
+ */
+export function canCompareBranches(roots: SessionTreeNode[], a: string, b: string): boolean {
+  if (a === b) return false
+  const parentA = findParent(roots, a)
+  const parentB = findParent(roots, b)
+  if (parentA && parentB && parentA.session.id === parentB.session.id) return true
+  return parentA?.session.id === b || parentB?.session.id === a
+}
+
+export function getBranchStats(instanceId: string, sessionId: string): SessionBranchStats | undefined {
+  return branchStats().get(branchKey(instanceId, sessionId))
+}
+
+/** Load cost, tokens, file changes and transcript of a branch; cached until the session changes */
+export async function loadBranch(instanceId: string, sessionId: string): Promise<BranchData> {
+  const key = branchKey(instanceId, sessionId)
+  const updated = sessions().get(instanceId)?.get(sessionId)?.time.updated ?? 0
+  const cached = branchData.get(key)
+  if (cached && cached.stats.sessionUpdated >= updated) return cached
+
+  const pending = pendingLoads.get(key)
+  if (pending) return pending
+
+  const load = fetchBranch(instanceId, sessionId, updated)
+    .then((data) => {
+      branchData.set(key, data)
+      setBranchStats((prev) => new Map(prev).set(key, data.stats))
+      return data
+    })
+    .finally(() => pendingLoads.delete(key))
+  pendingLoads.set(key, load)
+  return load
+}
+
+async function fetchBranch(instanceId: string, sessionId: string, sessionUpdated: number): Promise<BranchData> {
+  const client = instances().get(instanceId)?.client
+  if (!client) {
+    throw new Error("Instance not ready")
+  }
+
+  const query = sessionDirectoryQuery(instanceId, sessionId)
+  const [messagesResponse, diffResponse] = await Promise.all([
+    client.session.messages({ path: { id: sessionId }, query }),
+    client.session.diff({ path: { id: sessionId }, query }).catch((error: unknown) => {
+      log.warn("Failed to load session diff", { sessionId, error })
+      return null
+    }),
+  ])
+
+  const stats: SessionBranchStats = {
+    cost: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    messages: 0,
+    files: diffResponse?.data ?? [],
+    additions: 0,
+    deletions: 0,
+    sessionUpdated,
+  }
+  for (const file of stats.files) {
+    stats.additions += file.additions
+    stats.deletions += file.deletions
+  }
+
+  const transcript: TranscriptEntry[] = []
+  for (const { info, parts } of messagesResponse.data ?? []) {
+    stats.messages++
+    if (info.role === "assistant") {
+      stats.cost += info.cost ?? 0
+      stats.inputTokens += info.tokens?.input ?? 0
+      stats.outputTokens += info.tokens?.output ?? 0
+      stats.reasoningTokens += info.tokens?.reasoning ?? 0
+    }
+    const text = parts
+      .map((part) => (part.type === "text" && !part.synthetic ? part.text : ""))
+      .filter(Boolean)
+      .join("\n\n")
+    const tools = parts.flatMap((part) => (part.type === "tool" ? [part.tool] : []))
+    transcript.push({ id: info.id, role: info.role, text, tools })
+  }
+
+  return { stats, transcript }
+}
+
+/** Final file changes and transcripts of two branches, side by side */
+export async function compareBranches(instanceId: string, a: string, b: string): Promise<BranchComparison> {
+  const [branchA, branchB] = await Promise.all([loadBranch(instanceId, a), loadBranch(instanceId, b)])
+
+  const filesA = new Map(branchA.stats.files.map((file) => [file.file, file]))
+  const filesB = new Map(branchB.stats.files.map((file) => [file.file, file]))
+  const paths = Array.from(new Set([...filesA.keys(), ...filesB.keys()])).sort()
+
+  const files = paths.map((file): BranchFileComparison => {
+    const diffA = filesA.get(file)
+    const diffB = filesB.get(file)
+    const contentA = diffA?.after ?? diffB?.before ?? ""
+    const contentB = diffB?.after ?? diffA?.before ?? ""
+    const status: BranchFileStatus =
+      contentA === contentB ? "identical" : !diffB ? "only-a" : !diffA ? "only-b" : "different"
+    return {
+      file,
+      status,
+      contentA,
+      contentB,
+      diffText: status === "identical" ? "" : createUnifiedDiff(file, contentA, contentB),
+    }
+  })
+
+  let sharedMessages = 0
+  while (
+    sharedMessages < branchA.transcript.length &&
+    sharedMessages < branchB.transcript.length &&
+    sameEntry(branchA.transcript[sharedMessages], branchB.transcript[sharedMessages])
+  ) {
+    sharedMessages++
+  }
+
+  return {
+    a,
+    b,
+    files,
+    sharedMessages,
+    transcriptA: branchA.transcript.slice(sharedMessages),
+    transcriptB: branchB.transcript.slice(sharedMessages),
+  }
+}
+
+function sameEntry(a: TranscriptEntry, b: TranscriptEntry): boolean {
+  return a.role === b.role && a.text === b.text && a.tools.join() === b.tools.join()
+}
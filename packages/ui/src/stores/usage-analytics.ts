@@ -0,0 +1,113 @@
+import { createSignal } from "solid-js"
+import type {
+  UsageAnalyticsResponse,
+  UsageBudgetPeriod,
+  UsageBudgetStatus,
+  WorkspaceEventPayload,
+} from "../../../server/src/api-types"
+import { serverEvents } from "../lib/server-events"
+import { getLogger } from "../lib/logger"
+import { showToastNotification } from "../lib/notifications"
+
+const log = getLogger("usage")
+
+export interface UsageAnalyticsQuery {
+  /** Inclusive local dates, YYYY-MM-DD */
+  from?: string
+  to?: string
+  /** Project folder */
+  project?: string
+}
+
+/** Today's and this month's spend against the budgets, as tracked by the server */
+const [budgetStatus, setBudgetStatus] = createSignal<UsageBudgetStatus | null>(null)
+
+let initialized = false
+
+export function initUsageBudget() {
+  if (initialized) {
+    return
+  }
+  initialized = true
+
+  void refreshUsageBudget()
+
+  serverEvents.on("usage.budgetChanged", (event) => {
+    const { budget } = event as Extract<WorkspaceEventPayload, { type: "usage.budgetChanged" }>
+    const previous = budgetStatus()
+    setBudgetStatus(budget)
+    notifyBudget("Daily", previous?.daily, budget.daily, budget.hardStop)
+    notifyBudget("Monthly", previous?.monthly, budget.monthly, budget.hardStop)
+  })
+}
+
+export async function refreshUsageBudget(): Promise<UsageBudgetStatus | null> {
+  try {
+    const response = await fetch("/api/usage/budget")
+    if (!response.ok) return budgetStatus()
+    const status = (await response.json()) as UsageBudgetStatus
+    setBudgetStatus(status)
+    return status
+  } catch (error) {
+    log.warn("Unable to load usage budget", error)
+    return budgetStatus()
+  }
+}
+
+export function useUsageBudget() {
+  return budgetStatus
+}
+
+/**
+ * Throws when a budget is exceeded and hard stop is on. A cached block is
+ * confirmed with the server first, since budgets reset at day and month
+ * boundaries without an event.
+ */
+export async function assertWithinBudget(): Promise<void> {
+  if (!budgetStatus()?.blocked) return
+  const status = await refreshUsageBudget()
+  if (!status?.blocked) return
+  const period = status.daily.state === "exceeded" ? "daily" : "monthly"
+  throw new Error(`The ${period} cost budget is exceeded. Raise it in Settings → Usage & Budgets to keep sending prompts.`)
+}
+
+export async function fetchUsageAnalytics(query: UsageAnalyticsQuery = {}): Promise<UsageAnalyticsResponse> {
+  const response = await fetch(`/api/usage${toSearch(query)}`)
+  const data = (await response.json().catch(() => ({}))) as UsageAnalyticsResponse & { error?: string }
+  if (!response.ok) {
+    throw new Error(data.error ?? `Request failed with status ${response.status}`)
+  }
+  setBudgetStatus(data.budget)
+  return data
+}
+
+export function usageCsvUrl(query: UsageAnalyticsQuery = {}): string {
+  return `/api/usage/export.csv${toSearch(query)}`
+}
+
+function notifyBudget(label: string, previous: UsageBudgetPeriod | undefined, next: UsageBudgetPeriod, hardStop: boolean) {
+  if (next.limit === null || next.state === previous?.state || next.state === "ok") return
+  const spent = `$${next.spent.toFixed(2)} of $${next.limit.toFixed(2)}`
+  if (next.state === "warning") {
+    showToastNotification({
+      title: `${label} budget nearly used`,
+      message: `${spent} spent`,
+      variant: "warning",
+    })
+    return
+  }
+  showToastNotification({
+    title: `${label} budget exceeded`,
+    message: hardStop ? `${spent} spent. Sending prompts is paused.` : `${spent} spent`,
+    variant: "error",
+  })
+}
+
+function toSearch(query: UsageAnalyticsQuery): string {
+  const params = new URLSearchParams()
+  if (query.from) params.set("from", query.from)
+  if (query.to) params.set("to", query.to)
+  if (query.project) params.set("project", query.project)
+  const search = params.toString()
+  return search ? `?${search}` : ""
+}
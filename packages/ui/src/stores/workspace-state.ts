@@ -80,6 +80,7 @@ export function addRecentAction(instanceId: string, action: RecentAction): void
 
 export function clearWorkspaceState(instanceId: string): void {
   clearGitStatus(instanceId)
+  recordedToolParts.delete(instanceId)
   setFilesTouchedByInstance((prev) => {
     const next = new Map(prev)
     next.delete(instanceId)
@@ -92,20 +93,60 @@ export function clearWorkspaceState(instanceId: string): void {
   })
 }
 
+const FILE_TOOL_OPERATIONS: Record<string, FileOperationType> = {
+  read: "read",
+  write: "write",
+  edit: "edit",
+  multiedit: "edit",
+  patch: "edit",
+}
+
+const PATCH_FILE_PATTERN = /^\*\*\* (?:Add|Update|Delete) File: (.+)$/gm
+
+// Tool parts already recorded per instance, so repeated part updates don't add duplicates
+const recordedToolParts = new Map<string, Set<string>>()
+
+function toolFilePaths(toolName: string, input: Record<string, unknown>): string[] {
+  if (toolName === "patch") {
+    const patchText = typeof input.patchText === "string" ? input.patchText : ""
+    return Array.from(patchText.matchAll(PATCH_FILE_PATTERN), (match) => match[1].trim())
+  }
+  const filePath = input.filePath ?? input.path
+  return typeof filePath === "string" && filePath ? [filePath] : []
+}
+
 /**
- * Process tool calls to extract workspace-relevant information.
- * Currently a stub - can be expanded to track file changes, git operations, etc.
+ * Record finished tool calls as recent actions, and the files read or written
+ * by file tools as touched files. Checkpoints of the written files are
+ * captured by the server from the same tool events.
  */
 export function processToolCallForWorkspace(
-  _instanceId: string,
-  _partId: string,
-  _toolName: string,
-  _input: Record<string, unknown>,
-  _status: string
+  instanceId: string,
+  partId: string,
+  toolName: string,
+  input: Record<string, unknown>,
+  status: string
 ): void {
-  // Stub for future workspace state tracking
-  // Could be used to:
-  // - Track which files are being modified
-  // - Update git status after git operations
-  // - Monitor file conflict potential
+  if (status === "running") return
+
+  const recorded = recordedToolParts.get(instanceId) ?? new Set<string>()
+  recordedToolParts.set(instanceId, recorded)
+  if (recorded.has(partId)) return
+  recorded.add(partId)
+
+  const files = toolFilePaths(toolName, input)
+  const timestamp = Date.now()
+  addRecentAction(instanceId, {
+    id: partId,
+    type: files.length > 0 && FILE_TOOL_OPERATIONS[toolName] !== "read" ? "file_change" : "tool_call",
+    description: files.length > 0 ? `${toolName} ${files.join(", ")}` : toolName,
+    status: status === "error" ? "error" : "success",
+    timestamp,
+  })
+
+  const operation = FILE_TOOL_OPERATIONS[toolName]
+  if (!operation || status !== "complete") return
+  for (const path of files) {
+    addFileTouched(instanceId, { path, operation, timestamp })
+  }
 }
@@ -0,0 +1,151 @@
+import { createSignal } from "solid-js"
+import type {
+  SessionWorktree,
+  SessionWorktreesResponse,
+  WorkspaceEventPayload,
+  WorktreeMergePreview,
+  WorktreeMergeRequest,
+  WorktreeMergeResponse,
+} from "../../../server/src/api-types"
+import { serverEvents } from "../lib/server-events"
+import { getLogger } from "../lib/logger"
+import { resolveSessionWorktree, sessionOriginOf, worktreeDirectoryQuery } from "../lib/session-directory"
+import { getInstanceConfig } from "./instance-config"
+import { sessions } from "./session-state"
+
+const log = getLogger("worktrees")
+
+/**
+ * Git worktrees of isolated sessions. The server owns the worktrees; this
+ * store mirrors them, routes a session's OpenCode requests to its worktree
+ * directory and drives the merge-back dialog.
+ */
+
+export interface WorktreeMergeTarget {
+  instanceId: string
+  sessionId: string
+}
+
+const [worktrees, setWorktrees] = createSignal<Map<string, SessionWorktree>>(new Map())
+const [mergeDialogTarget, setMergeDialogTarget] = createSignal<WorktreeMergeTarget | null>(null)
+
+let initialized = false
+
+export { mergeDialogTarget as worktreeMergeDialog }
+
+export function initSessionWorktrees() {
+  if (initialized) {
+    return
+  }
+  initialized = true
+
+  void refreshSessionWorktrees()
+
+  serverEvents.on("worktree.updated", (event) => {
+    const { worktree, removed } = event as Extract<WorkspaceEventPayload, { type: "worktree.updated" }>
+    setWorktrees((prev) => {
+      const next = new Map(prev)
+      if (removed) next.delete(worktree.id)
+      else next.set(worktree.id, worktree)
+      return next
+    })
+  })
+}
+
+export async function refreshSessionWorktrees(): Promise<void> {
+  try {
+    const response = await fetch("/api/worktrees")
+    if (!response.ok) throw new Error(await readError(response))
+    const data = (await response.json()) as SessionWorktreesResponse
+    setWorktrees(new Map(data.worktrees.map((worktree) => [worktree.id, worktree])))
+  } catch (error) {
+    log.warn("Failed to load session worktrees", error)
+  }
+}
+
+/** The worktree of a session, or of the session its subagent or fork comes from */
+export function getSessionWorktree(instanceId: string, sessionId: string): SessionWorktree | undefined {
+  const instanceSessions = sessions().get(instanceId)
+  const originOf = sessionOriginOf(
+    (id) => instanceSessions?.get(id)?.parentId,
+    getInstanceConfig(instanceId).sessionForks ?? {},
+  )
+  return resolveSessionWorktree(worktrees().values(), sessionId, originOf)
+}
+
+/** `query` for OpenCode session requests, so isolated sessions run in their worktree */
+export function sessionDirectoryQuery(instanceId: string, sessionId: string): { directory: string } | undefined {
+  return worktreeDirectoryQuery(getSessionWorktree(instanceId, sessionId))
+}
+
+export async function createSessionWorktree(folder: string): Promise<SessionWorktree> {
+  const response = await fetch("/api/worktrees", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ folder }),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  return storeWorktree((await response.json()) as SessionWorktree)
+}
+
+export async function attachSessionWorktree(id: string, sessionId: string): Promise<SessionWorktree> {
+  const response = await fetch(`/api/worktrees/${encodeURIComponent(id)}/session`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sessionId }),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  return storeWorktree((await response.json()) as SessionWorktree)
+}
+
+export async function removeSessionWorktree(id: string, options: { keepBranch?: boolean } = {}): Promise<void> {
+  const query = options.keepBranch ? "?keepBranch=true" : ""
+  const response = await fetch(`/api/worktrees/${encodeURIComponent(id)}${query}`, { method: "DELETE" })
+  if (!response.ok && response.status !== 404) throw new Error(await readError(response))
+  setWorktrees((prev) => {
+    const next = new Map(prev)
+    next.delete(id)
+    return next
+  })
+}
+
+export async function fetchWorktreeMergePreview(id: string): Promise<WorktreeMergePreview> {
+  const response = await fetch(`/api/worktrees/${encodeURIComponent(id)}/merge-preview`)
+  if (!response.ok) throw new Error(await readError(response))
+  return (await response.json()) as WorktreeMergePreview
+}
+
+export async function mergeSessionWorktree(id: string, request: WorktreeMergeRequest): Promise<WorktreeMergeResponse> {
+  const response = await fetch(`/api/worktrees/${encodeURIComponent(id)}/merge`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  const result = (await response.json()) as WorktreeMergeResponse
+  setWorktrees((prev) => {
+    const next = new Map(prev)
+    if (result.removed) next.delete(id)
+    else next.set(id, result.worktree)
+    return next
+  })
+  return result
+}
+
+export function openWorktreeMergeDialog(instanceId: string, sessionId: string) {
+  setMergeDialogTarget({ instanceId, sessionId })
+}
+
+export function closeWorktreeMergeDialog() {
+  setMergeDialogTarget(null)
+}
+
+function storeWorktree(worktree: SessionWorktree): SessionWorktree {
+  setWorktrees((prev) => new Map(prev).set(worktree.id, worktree))
+  return worktree
+}
+
+async function readError(response: Response): Promise<string> {
+  const data = (await response.json().catch(() => null)) as { error?: string } | null
+  return data?.error ?? `Request failed (${response.status})`
+}
@@ -125,6 +125,37 @@ function encodeTextAsBase64(value: string): string {
   )
 }
 
+/**
+ * Attach a symbol's source range. The file URL carries 1-based `start`/`end`
+ * lines, which OpenCode reads instead of the whole file.
+ */
+export function createSymbolAttachment(
+  symbol: { name: string; kind: number; path: string; range: SymbolRange },
+  workspaceRoot?: string,
+): Attachment {
+  const absolutePath = symbol.path.startsWith("/") || !workspaceRoot ? symbol.path : `${workspaceRoot}/${symbol.path}`
+  const params = new URLSearchParams({
+    start: String(symbol.range.start.line + 1),
+    end: String(symbol.range.end.line + 1),
+  })
+
+  return {
+    id: generateUUID(),
+    type: "symbol",
+    display: `@${symbol.name}`,
+    url: `file://${absolutePath}?${params.toString()}`,
+    filename: symbol.name,
+    mediaType: "text/plain",
+    source: {
+      type: "symbol",
+      path: symbol.path,
+      name: symbol.name,
+      kind: symbol.kind,
+      range: symbol.range,
+    },
+  }
+}
+
 export function createAgentAttachment(agentName: string): Attachment {
   return {
     id: generateUUID(),